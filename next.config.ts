@@ -3,6 +3,17 @@ import type { NextConfig } from 'next';
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   typedRoutes: true,
+  async redirects() {
+    return [
+      // Recruitment links used to open the home page; the query is kept
+      {
+        source: '/',
+        has: [{ type: 'query', key: 'recruiter' }],
+        destination: '/apply',
+        permanent: false,
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,14 @@
+/**
+ * Prisma CLI Configuration
+ * Prisma 7 reads the connection URL for `db push` and migrations from here;
+ * the app passes it to the client's driver adapter in src/lib/db.ts
+ */
+
+import { defineConfig } from 'prisma/config';
+
+export default defineConfig({
+  schema: 'prisma/schema.prisma',
+  datasource: {
+    url: process.env.DATABASE_URL,
+  },
+});
@@ -295,6 +295,21 @@ describe('SettingsClient Component', () => {
     
     expect(screen.getByText('Payouts')).toBeInTheDocument();
   });
+
+  it('should list commission rules', async () => {
+    const { fireEvent } = await import('@testing-library/react');
+    const { SettingsClient } = await import(
+      '../app/admin/settings/SettingsClient'
+    );
+    render(<SettingsClient />);
+    
+    fireEvent.click(screen.getByText('Commission Rules'));
+    
+    await waitFor(() => {
+      expect(screen.getByText('Gold tier')).toBeInTheDocument();
+      expect(screen.getByText('22%')).toBeInTheDocument();
+    });
+  });
 });
 
 // ============================================
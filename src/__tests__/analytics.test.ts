@@ -0,0 +1,193 @@
+/**
+ * Analytics Tests
+ * Tests for time zone bucketing, period trends and the analytics endpoint
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  buildAnalytics,
+  getAnalyticsPeriod,
+  getDayKey,
+  resolveTimeZone,
+  startOfDay,
+} from '@/lib/analytics';
+import { getPartnerAnalytics } from '@/lib/analytics-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import { buildDailyRollups } from '@/lib/rollups';
+import { recordReferralClick } from '@/lib/tracking';
+import { inMemoryCampaignRepo } from '@/lib/data-store';
+import type { ClickEvent, Referral } from '@/lib/db';
+import { GET as analyticsRoute } from '@/app/api/partners/[id]/analytics/route';
+import { createPartner } from './fixtures';
+
+type TestClick = Pick<ClickEvent, 'campaignId' | 'ipHash' | 'createdAt'>;
+type TestReferral = Pick<
+  Referral,
+  'campaignId' | 'status' | 'orderAmountCents' | 'commissionCents' | 'convertedAt' | 'createdAt'
+>;
+
+const campaigns = [{ id: 'campaign-li', name: 'LinkedIn Launch', source: 'LINKEDIN' as const }];
+
+function click(createdAt: string, campaignId: string | null = 'campaign-li', ipHash = 'ip-1'): TestClick {
+  return { campaignId, ipHash, createdAt: new Date(createdAt) };
+}
+
+function conversion(convertedAt: string, orderAmountCents = 10000, campaignId: string | null = 'campaign-li'): TestReferral {
+  return {
+    campaignId,
+    status: 'CONVERTED',
+    orderAmountCents,
+    commissionCents: orderAmountCents / 10,
+    convertedAt: new Date(convertedAt),
+    createdAt: new Date(convertedAt),
+  };
+}
+
+function rollups(clicks: TestClick[], referrals: TestReferral[]) {
+  return buildDailyRollups('partner-analytics', 'UTC', { clicks, referrals, campaigns });
+}
+
+describe('Analytics Time Zones', () => {
+  it('should bucket instants into the partner\'s calendar day', () => {
+    const lateEvening = new Date('2026-03-10T03:30:00Z');
+
+    expect(getDayKey(lateEvening, 'UTC')).toBe('2026-03-10');
+    expect(getDayKey(lateEvening, 'America/New_York')).toBe('2026-03-09');
+  });
+
+  it('should find the start of a day across DST changes', () => {
+    expect(startOfDay('2026-03-08', 'America/New_York').toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(startOfDay('2026-03-09', 'America/New_York').toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(startOfDay('2026-07-01', 'Europe/London').toISOString()).toBe('2026-06-30T23:00:00.000Z');
+  });
+
+  it('should fall back to UTC for unknown zones', () => {
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimeZone('Europe/London')).toBe('Europe/London');
+  });
+});
+
+describe('Analytics Periods', () => {
+  const now = new Date('2026-06-15T12:00:00Z');
+
+  it('should end today and compare with the days just before', () => {
+    const period = getAnalyticsPeriod('7d', 'UTC', now);
+
+    expect(period.days).toEqual([
+      '2026-06-09', '2026-06-10', '2026-06-11', '2026-06-12', '2026-06-13', '2026-06-14', '2026-06-15',
+    ]);
+    expect(period.since.toISOString()).toBe('2026-06-09T00:00:00.000Z');
+    expect(period.until.toISOString()).toBe('2026-06-16T00:00:00.000Z');
+    expect(period.previousSince?.toISOString()).toBe('2026-06-02T00:00:00.000Z');
+    expect(period.previousFirstDay).toBe('2026-06-02');
+  });
+
+  it('should start year to date on January 1st and all time on joining', () => {
+    expect(getAnalyticsPeriod('ytd', 'UTC', now).days[0]).toBe('2026-01-01');
+
+    const allTime = getAnalyticsPeriod('all', 'UTC', now, new Date('2026-06-01T08:00:00Z'));
+    expect(allTime.days).toHaveLength(15);
+    expect(allTime.previousSince).toBeNull();
+  });
+});
+
+describe('Analytics Aggregation', () => {
+  const period = getAnalyticsPeriod('7d', 'UTC', new Date('2026-06-15T12:00:00Z'));
+
+  it('should compute trends against the previous period', () => {
+    const analytics = buildAnalytics(
+      period,
+      rollups(
+        [click('2026-06-10T10:00:00Z'), click('2026-06-11T10:00:00Z'), click('2026-06-05T10:00:00Z')],
+        [conversion('2026-06-12T10:00:00Z', 20000), conversion('2026-06-04T10:00:00Z', 10000)]
+      ),
+      campaigns
+    );
+
+    expect(analytics.overview).toMatchObject({
+      clicks: 2,
+      clicksTrend: 100,
+      conversions: 1,
+      conversionsTrend: 0,
+      revenue: 20000,
+      revenueTrend: 100,
+      conversionRate: 50,
+    });
+  });
+
+  it('should fill every day of the time series', () => {
+    const analytics = buildAnalytics(period, rollups([click('2026-06-15T01:00:00Z')], []), campaigns);
+
+    expect(analytics.timeSeries).toHaveLength(7);
+    expect(analytics.timeSeries[0]).toEqual({ date: '2026-06-09', clicks: 0, conversions: 0, revenue: 0, commission: 0 });
+    expect(analytics.timeSeries[6]?.clicks).toBe(1);
+  });
+
+  it('should break activity down by source and campaign', () => {
+    const analytics = buildAnalytics(
+      period,
+      rollups(
+        [
+          click('2026-06-10T10:00:00Z', 'campaign-li', 'ip-1'),
+          click('2026-06-10T11:00:00Z', 'campaign-li', 'ip-1'),
+          click('2026-06-10T12:00:00Z', null, 'ip-2'),
+        ],
+        [conversion('2026-06-10T13:00:00Z', 30000)]
+      ),
+      campaigns
+    );
+
+    expect(analytics.sourceBreakdown).toEqual([
+      { source: 'LinkedIn', clicks: 2, conversions: 1, revenue: 30000, commission: 3000, conversionRate: 50 },
+      { source: 'Direct', clicks: 1, conversions: 0, revenue: 0, commission: 0, conversionRate: 0 },
+    ]);
+    expect(analytics.topCampaigns).toEqual([
+      { id: 'campaign-li', name: 'LinkedIn Launch', clicks: 2, conversions: 1, revenue: 30000, commission: 3000 },
+    ]);
+    expect(analytics.funnel.map(stage => stage.count)).toEqual([3, 2, 1, 1]);
+  });
+});
+
+describe('Partner Analytics', () => {
+  it('should aggregate a partner\'s clicks and conversions', async () => {
+    const partner = await createPartner({ timezone: 'Asia/Tokyo' });
+    const campaign = await inMemoryCampaignRepo.create({
+      partnerId: partner.id,
+      name: 'Newsletter',
+      source: 'EMAIL',
+      slug: `newsletter-${partner.id}`,
+      isActive: true,
+    });
+    await recordReferralClick(partner, campaign, { ip: '203.0.113.1' });
+    await recordReferralClick(partner, campaign, { ip: '203.0.113.2' });
+    await ingestConversion({
+      type: 'purchase',
+      customerEmail: `analytics-${partner.id}@example.com`,
+      orderAmountCents: 40000,
+      referralCode: partner.referralCode,
+    });
+
+    const analytics = await getPartnerAnalytics(partner, '7d');
+
+    expect(analytics.overview).toMatchObject({ clicks: 2, conversions: 1, revenue: 40000 });
+    expect(analytics.timeSeries.at(-1)?.date).toBe(getDayKey(new Date(), 'Asia/Tokyo'));
+    expect(analytics.sourceBreakdown.map(s => s.source)).toEqual(['Email', 'Direct']);
+  });
+
+  it('should serve analytics from the endpoint', async () => {
+    const partner = await createPartner();
+    const request = (id: string, range = '30d') => analyticsRoute(
+      new NextRequest(`http://localhost/api/partners/${id}/analytics?range=${range}`),
+      { params: Promise.resolve({ id }) }
+    );
+
+    const response = await request(partner.id);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.timeSeries).toHaveLength(30);
+    expect((await request(partner.id, '1y')).status).toBe(400);
+    expect((await request('partner-missing')).status).toBe(404);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * API Key Tests
+ * Tests for partner API key issuing, verification, scopes and rate limits
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  generateApiKey,
+  hashApiKey,
+  MAX_ACTIVE_API_KEYS,
+  parseApiKeyHeader,
+  toApiKeyView,
+} from '@/lib/api-keys';
+import { createApiKey, listApiKeys, revokeApiKey, verifyApiKey } from '@/lib/api-key-service';
+import { authenticateRequest, canAccessPartnerData, type AuthUser } from '@/lib/auth';
+import { RateLimitConfigs } from '@/lib/rate-limit';
+import type { ApiKeyScope } from '@/lib/db';
+import { GET as getStats } from '@/app/api/partners/[id]/stats/route';
+import { createPartner } from './fixtures';
+
+async function issueKey(partnerId: string, scopes: ApiKeyScope[]): Promise<string> {
+  const result = await createApiKey(partnerId, { name: 'Reporting script', scopes });
+  expect(result.success).toBe(true);
+  return result.key!;
+}
+
+function keyRequest(url: string, key: string): NextRequest {
+  return new NextRequest(url, { headers: { Authorization: `Bearer ${key}` } });
+}
+
+describe('API Key Format', () => {
+  it('should generate prefixed keys with a matching hash', () => {
+    const { key, keyHash, prefix } = generateApiKey();
+
+    expect(key).toMatch(/^icp_[A-Za-z0-9_-]{32}$/);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+
+  it('should only read API keys from bearer headers', () => {
+    expect(parseApiKeyHeader('Bearer icp_abc')).toBe('icp_abc');
+    expect(parseApiKeyHeader('bearer icp_abc')).toBe('icp_abc');
+    expect(parseApiKeyHeader('Bearer eyJhbGciOi')).toBeNull();
+    expect(parseApiKeyHeader('icp_abc')).toBeNull();
+    expect(parseApiKeyHeader(null)).toBeNull();
+  });
+});
+
+describe('API Key Service', () => {
+  it('should store only the hash and verify the key', async () => {
+    const { id: partnerId } = await createPartner();
+    const result = await createApiKey(partnerId, { name: 'CI', scopes: ['stats:read', 'stats:read'] });
+
+    expect(result.apiKey?.keyHash).toBe(hashApiKey(result.key!));
+    expect(result.apiKey?.scopes).toEqual(['stats:read']);
+    expect(toApiKeyView(result.apiKey!)).not.toHaveProperty('keyHash');
+
+    const verified = await verifyApiKey(result.key!);
+    expect(verified?.id).toBe(result.apiKey?.id);
+    expect(verified?.lastUsedAt).toBeInstanceOf(Date);
+
+    expect(await verifyApiKey(`${result.key!}x`)).toBeNull();
+  });
+
+  it('should stop verifying revoked keys', async () => {
+    const { id: partnerId } = await createPartner();
+    const key = await issueKey(partnerId, ['payouts:read']);
+    const [apiKey] = await listApiKeys(partnerId);
+
+    const revoked = await revokeApiKey(partnerId, apiKey!.id);
+
+    expect(revoked.apiKey?.revokedAt).toBeInstanceOf(Date);
+    expect(await verifyApiKey(key)).toBeNull();
+    expect(await listApiKeys(partnerId)).toHaveLength(0);
+    expect(await listApiKeys(partnerId, { includeRevoked: true })).toHaveLength(1);
+    expect((await revokeApiKey('other-partner', apiKey!.id)).errorCode).toBe('NOT_FOUND');
+  });
+
+  it('should reject keys of suspended partners', async () => {
+    const { id: partnerId } = await createPartner({ status: 'SUSPENDED' });
+    const key = await issueKey(partnerId, ['stats:read']);
+
+    expect(await verifyApiKey(key)).toBeNull();
+  });
+
+  it('should cap active keys per partner', async () => {
+    const { id: partnerId } = await createPartner();
+    for (let i = 0; i < MAX_ACTIVE_API_KEYS; i++) {
+      await issueKey(partnerId, ['stats:read']);
+    }
+
+    const result = await createApiKey(partnerId, { name: 'One too many', scopes: ['stats:read'] });
+    expect(result.errorCode).toBe('LIMIT_REACHED');
+
+    expect((await createApiKey('missing-partner', { name: 'x', scopes: ['stats:read'] })).errorCode).toBe('NOT_FOUND');
+  });
+});
+
+describe('API Key Authentication', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should authenticate key requests as the partner with the key scopes', async () => {
+    const { id: partnerId } = await createPartner();
+    const key = await issueKey(partnerId, ['campaigns:read']);
+
+    const result = await authenticateRequest(keyRequest('http://localhost/api', key));
+
+    expect(result.authenticated).toBe(true);
+    expect(result.user).toMatchObject({ role: 'PARTNER', partnerId, scopes: ['campaigns:read'] });
+
+    const invalid = await authenticateRequest(keyRequest('http://localhost/api', 'icp_unknown'));
+    expect(invalid.authenticated).toBe(false);
+    expect(invalid.error).toBe('Invalid API key');
+  });
+
+  it('should limit key users to their partner and scopes', () => {
+    const user: AuthUser = {
+      id: 'apikey-1',
+      clerkId: '',
+      email: '',
+      role: 'PARTNER',
+      partnerId: 'partner-1',
+      scopes: ['stats:read'],
+    };
+
+    expect(canAccessPartnerData(user, 'partner-1', 'stats:read')).toBe(true);
+    expect(canAccessPartnerData(user, 'partner-1', 'payouts:read')).toBe(false);
+    expect(canAccessPartnerData(user, 'partner-2', 'stats:read')).toBe(false);
+    // Routes that name no scope are session-only
+    expect(canAccessPartnerData(user, 'partner-1')).toBe(false);
+  });
+
+  it('should rate limit each key separately', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { id: partnerId } = await createPartner();
+    const key = await issueKey(partnerId, ['stats:read']);
+    const otherKey = await issueKey(partnerId, ['stats:read']);
+
+    for (let i = 0; i < RateLimitConfigs.API_KEY.requests; i++) {
+      expect((await authenticateRequest(keyRequest('http://localhost/api', key))).authenticated).toBe(true);
+    }
+
+    const limited = await authenticateRequest(keyRequest('http://localhost/api', key));
+    expect(limited.authenticated).toBe(false);
+    expect(limited.rateLimit?.success).toBe(false);
+    expect(limited.rateLimit?.retryAfter).toBeGreaterThan(0);
+
+    expect((await authenticateRequest(keyRequest('http://localhost/api', otherKey))).authenticated).toBe(true);
+  });
+
+  it('should enforce scopes on partner routes', async () => {
+    const { id: partnerId } = await createPartner();
+    const statsKey = await issueKey(partnerId, ['stats:read']);
+    const payoutsKey = await issueKey(partnerId, ['payouts:read']);
+    const url = `http://localhost/api/partners/${partnerId}/stats`;
+    const params = { params: Promise.resolve({ id: partnerId }) };
+
+    expect((await getStats(keyRequest(url, statsKey), params)).status).toBe(200);
+    expect((await getStats(keyRequest(url, payoutsKey), params)).status).toBe(403);
+    expect((await getStats(keyRequest(url, 'icp_revoked'), params)).status).toBe(401);
+
+    const { id: otherPartner } = await createPartner();
+    const otherParams = { params: Promise.resolve({ id: otherPartner }) };
+    expect((await getStats(keyRequest(url, statsKey), otherParams)).status).toBe(403);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Partner Application Tests
+ * Tests for submission, the review queue and approval into a partner
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { generateReferralCode, toPublicApplication } from '@/lib/applications';
+import {
+  getApplicationByEmail,
+  listApplications,
+  reviewApplication,
+  submitApplication,
+} from '@/lib/application-service';
+import { systemAuditContext } from '@/lib/audit';
+import { listAuditLog } from '@/lib/audit-service';
+import { inMemoryPartnerRepo } from '@/lib/data-store';
+import { POST as submitInterest, GET as getInterest } from '@/app/api/partners/interest/route';
+import { POST as reviewRoute } from '@/app/api/admin/applications/[id]/review/route';
+
+const { sendWelcomeEmail, sendApplicationLinkEmail } = vi.hoisted(() => ({
+  sendWelcomeEmail: vi.fn(),
+  sendApplicationLinkEmail: vi.fn(async () => ({ success: true })),
+}));
+
+vi.mock('@/lib/email-service', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/email-service')>()),
+  sendWelcomeEmail,
+  sendApplicationLinkEmail,
+}));
+
+const reviewer = systemAuditContext('test-admin');
+
+function uniqueEmail(): string {
+  return `applicant-${Math.random().toString(36).slice(2, 10)}@example.com`;
+}
+
+function interestRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest('http://localhost/api/partners/interest', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+function statusRequest(email: string, token?: string): NextRequest {
+  const params = new URLSearchParams({ email, ...(token && { token }) });
+  return new NextRequest(`http://localhost/api/partners/interest?${params.toString()}`);
+}
+
+// Token from the most recent status link emailed to an address
+function lastEmailedToken(email: string): string {
+  const calls = sendApplicationLinkEmail.mock.calls as unknown as [{ email: string; token: string }][];
+  const call = calls.filter(([params]) => params.email === email).at(-1);
+  expect(call).toBeDefined();
+  return call![0].token;
+}
+
+describe('Application Helpers', () => {
+  it('should build referral codes from the name', () => {
+    expect(generateReferralCode('Jane O\'Neil-Smith')).toMatch(/^JANEON[A-Z0-9]{4}$/);
+    expect(generateReferralCode('李')).toMatch(/^PARTNER[A-Z0-9]{4}$/);
+  });
+
+  it('should only show review notes when info is requested', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+    const rejected = { ...application, status: 'REJECTED' as const, reviewNotes: 'Internal note' };
+    const infoRequested = { ...application, status: 'INFO_REQUESTED' as const, reviewNotes: 'Share your stats' };
+
+    expect(toPublicApplication(rejected)).not.toHaveProperty('reviewNotes');
+    expect(toPublicApplication(infoRequested).reviewNotes).toBe('Share your stats');
+  });
+});
+
+describe('Application Submission', () => {
+  it('should store applications with audience details', async () => {
+    const email = uniqueEmail();
+    const { application, created } = await submitApplication({
+      email: email.toUpperCase(),
+      name: 'Sam Rivera',
+      company: 'Growth Weekly',
+      audienceSize: 12000,
+      channels: ['NEWSLETTER', 'LINKEDIN'],
+    });
+
+    expect(created).toBe(true);
+    expect(application).toMatchObject({
+      email,
+      status: 'WAITLIST',
+      company: 'Growth Weekly',
+      audienceSize: 12000,
+      channels: ['NEWSLETTER', 'LINKEDIN'],
+    });
+  });
+
+  it('should grant instant access for a valid invite code, also on resubmission', async () => {
+    const email = uniqueEmail();
+    await submitApplication({ email, inviteCode: 'NOTACODE' });
+
+    const { application, created } = await submitApplication({ email, inviteCode: 'founder' });
+
+    expect(created).toBe(false);
+    expect(application.status).toBe('INSTANT_ACCESS');
+    expect(application.inviteCode).toBe('FOUNDER');
+  });
+
+  it('should return to the queue when the applicant answers an info request', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+    await reviewApplication(application.id, { action: 'request_info', notes: 'Audience size?', partnerStatus: 'ACTIVE' }, reviewer);
+
+    const { application: resubmitted } = await submitApplication({ email: application.email, audienceSize: 5000 });
+
+    expect(resubmitted.status).toBe('WAITLIST');
+    expect(resubmitted.audienceSize).toBe(5000);
+  });
+});
+
+describe('Application Review', () => {
+  beforeEach(() => {
+    sendWelcomeEmail.mockReset();
+    sendWelcomeEmail.mockResolvedValue({ success: true, id: 'email-1' });
+  });
+
+  it('should create a partner on approval and send the welcome email', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail(), name: 'Alex Chen', website: 'https://alex.dev' });
+
+    const result = await reviewApplication(application.id, { action: 'approve', partnerStatus: 'PENDING' }, reviewer);
+
+    expect(result.success).toBe(true);
+    expect(result.partner).toMatchObject({
+      email: application.email,
+      name: 'Alex Chen',
+      status: 'PENDING',
+      tier: 'STANDARD',
+      website: 'https://alex.dev',
+    });
+    expect(result.partner?.referralCode).toMatch(/^ALEXCH[A-Z0-9]{4}$/);
+    expect(result.application).toMatchObject({ status: 'APPROVED', partnerId: result.partner?.id, reviewedBy: 'test-admin' });
+    expect(sendWelcomeEmail).toHaveBeenCalledWith({ partner: result.partner });
+
+    const { entries } = await listAuditLog({ targetType: 'APPLICATION', targetId: application.id });
+    expect(entries[0]?.action).toBe('application.approve');
+  });
+
+  it('should not review an application twice', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+    await reviewApplication(application.id, { action: 'reject', partnerStatus: 'ACTIVE' }, reviewer);
+
+    const result = await reviewApplication(application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, reviewer);
+
+    expect(result.errorCode).toBe('ALREADY_REVIEWED');
+    expect(sendWelcomeEmail).not.toHaveBeenCalled();
+  });
+
+  it('should refuse approval when a partner already has the email', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+    await inMemoryPartnerRepo.create({
+      email: application.email,
+      name: 'Existing',
+      referralCode: `EX${Math.random().toString(36).slice(2, 8).toUpperCase()}`,
+      status: 'ACTIVE',
+      tier: 'STANDARD',
+      emailDigest: false,
+      timezone: 'UTC',
+    });
+
+    const result = await reviewApplication(application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, reviewer);
+
+    expect(result.errorCode).toBe('PARTNER_EXISTS');
+  });
+
+  it('should list the review queue oldest first', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+    const { applications, total } = await listApplications(['WAITLIST', 'INSTANT_ACCESS', 'INFO_REQUESTED'], { limit: 100 });
+
+    expect(total).toBeGreaterThan(0);
+    expect(applications.map(a => a.id)).toContain(application.id);
+    const times = applications.map(a => new Date(a.createdAt).getTime());
+    expect([...times].sort((a, b) => a - b)).toEqual(times);
+  });
+});
+
+describe('Application API', () => {
+  it('should accept submissions and report their status only with the emailed link', async () => {
+    const email = uniqueEmail();
+    const response = await submitInterest(interestRequest({ email, channels: ['PODCAST'], audienceSize: 800 }));
+
+    expect(response.status).toBe(201);
+    const token = lastEmailedToken(email);
+
+    expect((await getInterest(statusRequest(email))).status).toBe(400);
+    expect((await getInterest(statusRequest(email, 'not-the-token'))).status).toBe(401);
+
+    const statusResponse = await getInterest(statusRequest(email, token));
+    const body = await statusResponse.json();
+    expect(statusResponse.status).toBe(200);
+    expect(body.data).toMatchObject({ email, status: 'WAITLIST' });
+    expect(body.data).not.toHaveProperty('channels');
+  });
+
+  it('should email a new link instead of changing an application without its token', async () => {
+    const email = uniqueEmail();
+    await submitInterest(interestRequest({ email }));
+    const firstToken = lastEmailedToken(email);
+
+    const retry = await submitInterest(interestRequest({ email, inviteCode: 'FOUNDER' }));
+    const retryBody = await retry.json();
+
+    expect(retry.status).toBe(202);
+    expect(retryBody.data).toEqual({ email, linkSent: true });
+    expect((await getApplicationByEmail(email))).toMatchObject({ status: 'WAITLIST', inviteCode: null });
+
+    // Only the newest link works
+    const token = lastEmailedToken(email);
+    expect(token).not.toBe(firstToken);
+    expect((await getInterest(statusRequest(email, firstToken))).status).toBe(401);
+
+    const resubmit = await submitInterest(interestRequest({ email, inviteCode: 'FOUNDER', token }));
+    const resubmitBody = await resubmit.json();
+    expect(resubmit.status).toBe(200);
+    expect(resubmitBody.data).toMatchObject({ status: 'INSTANT_ACCESS', inviteCode: 'FOUNDER' });
+  });
+
+  it('should require notes to request more info', async () => {
+    const { application } = await submitApplication({ email: uniqueEmail() });
+
+    const response = await reviewRoute(
+      new NextRequest(`http://localhost/api/admin/applications/${application.id}/review`, {
+        method: 'POST',
+        body: JSON.stringify({ action: 'request_info' }),
+      }),
+      { params: Promise.resolve({ id: application.id }) }
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown applications', async () => {
+    const response = await reviewRoute(
+      new NextRequest('http://localhost/api/admin/applications/missing/review', {
+        method: 'POST',
+        body: JSON.stringify({ action: 'reject' }),
+      }),
+      { params: Promise.resolve({ id: 'missing' }) }
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Attribution Tests
+ * Tests for touchpoint paths, attribution models and the attribution endpoint
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  buildAttribution,
+  buildConversionPaths,
+  getTouchWeights,
+  splitCents,
+  type AttributionClick,
+  type AttributionReferral,
+} from '@/lib/attribution';
+import { getPartnerAttribution } from '@/lib/attribution-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import {
+  ATTRIBUTION_COOKIE_NAME,
+  createAttributionToken,
+  parseAttributionToken,
+  recordReferralClick,
+} from '@/lib/tracking';
+import { inMemoryCampaignRepo } from '@/lib/data-store';
+import { GET as attributionRoute } from '@/app/api/partners/[id]/attribution/route';
+import { GET as redirectRoute } from '@/app/r/[code]/route';
+import { createPartner } from './fixtures';
+
+const campaigns = [
+  { id: 'campaign-li', name: 'LinkedIn Launch', source: 'LINKEDIN' as const },
+  { id: 'campaign-email', name: 'Newsletter', source: 'EMAIL' as const },
+];
+
+function click(createdAt: string, campaignId: string | null, visitorId = 'v_1'): AttributionClick {
+  return { campaignId, visitorId, createdAt: new Date(createdAt) };
+}
+
+function conversion(convertedAt: string, orderAmountCents: number, visitorId: string | null = 'v_1'): AttributionReferral {
+  return {
+    campaignId: 'campaign-email',
+    visitorId,
+    status: 'CONVERTED',
+    orderAmountCents,
+    commissionCents: orderAmountCents / 5,
+    clickedAt: null,
+    convertedAt: new Date(convertedAt),
+    createdAt: new Date(convertedAt),
+  };
+}
+
+describe('Attribution Models', () => {
+  const convertedAt = new Date('2026-06-15T00:00:00Z');
+  const touches = [
+    { at: new Date('2026-06-01T00:00:00Z') },
+    { at: new Date('2026-06-08T00:00:00Z') },
+    { at: new Date('2026-06-15T00:00:00Z') },
+  ];
+
+  it('should credit the first, last or every touch', () => {
+    expect(getTouchWeights('first_touch', touches, convertedAt)).toEqual([1, 0, 0]);
+    expect(getTouchWeights('last_touch', touches, convertedAt)).toEqual([0, 0, 1]);
+    expect(getTouchWeights('linear', touches, convertedAt)).toEqual([1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it('should halve time decay credit every 7 days', () => {
+    const weights = getTouchWeights('time_decay', touches, convertedAt);
+
+    expect(weights[2]! / weights[1]!).toBeCloseTo(2);
+    expect(weights[1]! / weights[0]!).toBeCloseTo(2);
+    expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1);
+  });
+
+  it('should split cents without losing any', () => {
+    expect(splitCents(10000, [1 / 3, 1 / 3, 1 / 3])).toEqual([3334, 3333, 3333]);
+    expect(splitCents(999, [0.5, 0.5]).reduce((sum, c) => sum + c, 0)).toBe(999);
+  });
+});
+
+describe('Conversion Paths', () => {
+  it('should join a visitor\'s clicks inside the attribution window', () => {
+    const [path] = buildConversionPaths(
+      [conversion('2026-06-15T00:00:00Z', 10000)],
+      [
+        click('2026-05-01T00:00:00Z', 'campaign-li'),
+        click('2026-06-10T00:00:00Z', 'campaign-email'),
+        click('2026-06-01T00:00:00Z', 'campaign-li'),
+        click('2026-06-12T00:00:00Z', null, 'v_other'),
+      ],
+      campaigns,
+      30
+    );
+
+    expect(path?.touches.map(t => t.source)).toEqual(['LinkedIn', 'Email']);
+  });
+
+  it('should fall back to the referral\'s own campaign without cookie clicks', () => {
+    const [path] = buildConversionPaths([conversion('2026-06-15T00:00:00Z', 10000, null)], [], campaigns, 30);
+
+    expect(path?.touches).toEqual([
+      expect.objectContaining({ campaignId: 'campaign-email', source: 'Email' }),
+    ]);
+  });
+
+  it('should split revenue across sources and rank paths', () => {
+    const paths = buildConversionPaths(
+      [
+        conversion('2026-06-15T00:00:00Z', 30000),
+        conversion('2026-06-15T00:00:00Z', 10000, 'v_2'),
+      ],
+      [
+        click('2026-06-01T00:00:00Z', 'campaign-li'),
+        click('2026-06-02T00:00:00Z', 'campaign-li'),
+        click('2026-06-10T00:00:00Z', 'campaign-email'),
+        click('2026-06-11T00:00:00Z', 'campaign-email', 'v_2'),
+      ],
+      campaigns,
+      30
+    );
+    const clicks = [click('2026-06-01T00:00:00Z', 'campaign-li'), click('2026-06-10T00:00:00Z', 'campaign-email')];
+
+    const firstTouch = buildAttribution('first_touch', paths, clicks, campaigns);
+    const linear = buildAttribution('linear', paths, clicks, campaigns);
+
+    expect(firstTouch.sources.map(s => [s.source, s.attributedRevenue])).toEqual([['LinkedIn', 30000], ['Email', 10000]]);
+    expect(linear.sources.find(s => s.source === 'Email')).toMatchObject({
+      conversions: 1.33,
+      revenue: 40000,
+      attributedRevenue: 20000,
+    });
+    expect(linear.campaigns.find(c => c.campaignId === 'campaign-li')?.commission).toBe(4000);
+    expect(linear.topPaths).toEqual([
+      { path: ['LinkedIn', 'Email'], conversions: 1, revenue: 30000, percentage: 50 },
+      { path: ['Email'], conversions: 1, revenue: 10000, percentage: 50 },
+    ]);
+    expect(linear).toMatchObject({ totalConversions: 2, totalRevenue: 40000 });
+  });
+});
+
+describe('Partner Attribution', () => {
+  it('should keep the visitor id across referral clicks', async () => {
+    const partner = await createPartner();
+    const first = await redirectRoute(
+      new NextRequest(`http://localhost/r/${partner.referralCode}`),
+      { params: Promise.resolve({ code: partner.referralCode }) }
+    );
+    const token = first.cookies.get(ATTRIBUTION_COOKIE_NAME)?.value ?? '';
+
+    const second = await redirectRoute(
+      new NextRequest(`http://localhost/r/${partner.referralCode}`, {
+        headers: { cookie: `${ATTRIBUTION_COOKIE_NAME}=${token}` },
+      }),
+      { params: Promise.resolve({ code: partner.referralCode }) }
+    );
+    const visitorId = parseAttributionToken(token)?.visitorId;
+
+    expect(visitorId).toMatch(/^v_/);
+    expect(parseAttributionToken(second.cookies.get(ATTRIBUTION_COOKIE_NAME)?.value ?? '')?.visitorId).toBe(visitorId);
+  });
+
+  it('should attribute a conversion across the customer\'s clicks', async () => {
+    const partner = await createPartner();
+    const campaign = await inMemoryCampaignRepo.create({
+      partnerId: partner.id,
+      name: 'Launch Post',
+      source: 'LINKEDIN',
+      slug: `launch-${partner.id}`,
+      isActive: true,
+    });
+    const visitorId = `v_${partner.id}`;
+
+    await recordReferralClick(partner, campaign, { ip: '192.0.2.1', visitorId });
+    const lastClick = await recordReferralClick(partner, null, { ip: '192.0.2.1', visitorId });
+    await ingestConversion({
+      type: 'purchase',
+      customerEmail: `customer-${partner.id}@example.com`,
+      orderAmountCents: 20000,
+      attributionToken: createAttributionToken({
+        partnerId: partner.id,
+        campaignId: null,
+        clickId: lastClick.id,
+        clickedAt: lastClick.createdAt,
+        visitorId,
+      }),
+    });
+
+    const attribution = await getPartnerAttribution(partner, 'linear');
+
+    expect(attribution.topPaths).toEqual([
+      { path: ['LinkedIn', 'Direct'], conversions: 1, revenue: 20000, percentage: 100 },
+    ]);
+    expect(attribution.sources.map(s => s.attributedRevenue)).toEqual([10000, 10000]);
+  });
+
+  it('should serve attribution from the endpoint', async () => {
+    const partner = await createPartner();
+    const request = (id: string, model = 'time_decay') => attributionRoute(
+      new NextRequest(`http://localhost/api/partners/${id}/attribution?model=${model}`),
+      { params: Promise.resolve({ id }) }
+    );
+
+    const response = await request(partner.id);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ sources: [], campaigns: [], topPaths: [], totalConversions: 0, totalRevenue: 0 });
+    expect((await request(partner.id, 'u_shaped')).status).toBe(400);
+    expect((await request('partner-missing')).status).toBe(404);
+  });
+});
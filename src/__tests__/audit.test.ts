@@ -0,0 +1,193 @@
+/**
+ * Audit Log Tests
+ * Tests for change diffs, request context, append-only storage and audited routes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { diffChanges, getRequestAuditContext, systemAuditContext } from '@/lib/audit';
+import { listAuditLog, recordAuditEvent } from '@/lib/audit-service';
+import { completePayout } from '@/lib/payment-service';
+import { inMemoryAuditLogRepo, inMemoryPayoutRepo } from '@/lib/data-store';
+import type { AuditLogEntry } from '@/lib/db';
+import { POST as partnerAction } from '@/app/api/admin/partners/[id]/action/route';
+import { GET as getAuditLog } from '@/app/api/admin/audit/route';
+import { createPartner } from './fixtures';
+
+function uniqueId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+describe('Audit Diffs', () => {
+  it('should keep only changed fields', () => {
+    const changes = diffChanges(
+      { status: 'PENDING', tier: 'STANDARD', updatedAt: new Date('2026-01-01') },
+      { status: 'ACTIVE', tier: 'STANDARD', updatedAt: new Date('2026-01-02') }
+    );
+
+    expect(changes).toEqual({ status: { before: 'PENDING', after: 'ACTIVE' } });
+  });
+
+  it('should record creations and deletions against null', () => {
+    const completedAt = new Date('2026-03-01T10:00:00Z');
+
+    expect(diffChanges(null, { amountCents: 5000, completedAt })).toEqual({
+      amountCents: { before: null, after: 5000 },
+      completedAt: { before: null, after: '2026-03-01T10:00:00.000Z' },
+    });
+    expect(diffChanges({ name: 'Rule' }, null)).toEqual({ name: { before: 'Rule', after: null } });
+  });
+
+  it('should redact secrets but still record that they changed', () => {
+    const changes = diffChanges({ secret: 'whsec_old' }, { secret: 'whsec_new' });
+
+    expect(changes.secret).toEqual({ before: '[redacted]', after: '[redacted]' });
+    expect(JSON.stringify(changes)).not.toContain('whsec_');
+  });
+});
+
+describe('Audit Context', () => {
+  it('should read the request id and client IP from headers', () => {
+    const request = new Request('http://localhost/api', {
+      headers: {
+        'x-request-id': 'req-123',
+        'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        'user-agent': 'vitest',
+      },
+    });
+
+    expect(getRequestAuditContext(request, 'user-1')).toEqual({
+      actorType: 'ADMIN',
+      actorId: 'user-1',
+      requestId: 'req-123',
+      ipAddress: '203.0.113.7',
+      userAgent: 'vitest',
+    });
+  });
+
+  it('should generate a request id when the platform sends none', () => {
+    const context = getRequestAuditContext(new Request('http://localhost/api'), null, 'PARTNER');
+
+    expect(context.requestId).toMatch(/^req_/);
+    expect(context.ipAddress).toBeNull();
+    expect(context.actorType).toBe('PARTNER');
+  });
+});
+
+describe('Audit Log Storage', () => {
+  it('should be append-only', async () => {
+    const targetId = uniqueId('setting');
+    const entry = await recordAuditEvent(systemAuditContext('test'), {
+      action: 'settings.update',
+      targetType: 'PROGRAM_SETTING',
+      targetId,
+      before: { holdDays: 30 },
+      after: { holdDays: 14 },
+    });
+
+    expect(entry).not.toBeNull();
+    expect(Object.isFrozen(entry)).toBe(true);
+    expect(() => {
+      (entry as { action: string }).action = 'tampered';
+    }).toThrow();
+    expect(inMemoryAuditLogRepo).not.toHaveProperty('update');
+    expect(inMemoryAuditLogRepo).not.toHaveProperty('delete');
+
+    const { entries } = await listAuditLog({ targetId });
+    expect(entries[0]?.changes).toEqual({ holdDays: { before: 30, after: 14 } });
+  });
+
+  it('should filter and paginate newest first', async () => {
+    const targetId = uniqueId('partner');
+    for (const action of ['partner.approve', 'partner.suspend', 'partner.activate']) {
+      await recordAuditEvent(systemAuditContext('test'), { action, targetType: 'PARTNER', targetId });
+    }
+
+    const firstPage = await listAuditLog({ targetId }, { limit: 2 });
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.entries.map(e => e.action)).toEqual(['partner.activate', 'partner.suspend']);
+
+    const secondPage = await listAuditLog({ targetId }, { limit: 2, offset: 2 });
+    expect(secondPage.entries.map(e => e.action)).toEqual(['partner.approve']);
+
+    const suspensions = await listAuditLog({ targetId, action: 'partner.suspend' });
+    expect(suspensions.total).toBe(1);
+  });
+});
+
+describe('Audited Changes', () => {
+  it('should audit admin partner actions with the request context', async () => {
+    const { id: partnerId } = await createPartner({ status: 'PENDING' });
+    const request = new NextRequest(`http://localhost/api/admin/partners/${partnerId}/action`, {
+      method: 'POST',
+      headers: { 'x-request-id': 'req-approve', 'x-real-ip': '198.51.100.4' },
+      body: JSON.stringify({ action: 'approve' }),
+    });
+
+    const response = await partnerAction(request, { params: Promise.resolve({ id: partnerId }) });
+    expect(response.status).toBe(200);
+
+    const { entries } = await listAuditLog({ targetType: 'PARTNER', targetId: partnerId });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      actorType: 'ADMIN',
+      action: 'partner.approve',
+      changes: { status: { before: 'PENDING', after: 'ACTIVE' } },
+      requestId: 'req-approve',
+      ipAddress: '198.51.100.4',
+    });
+  });
+
+  it('should audit payout transitions made by Stripe webhooks', async () => {
+    const { id: partnerId } = await createPartner({ status: 'PENDING' });
+    const payout = await inMemoryPayoutRepo.create({
+      partnerId,
+      status: 'PROCESSING',
+      amountCents: 10000,
+      feeCents: 100,
+      adjustmentCents: 0,
+      netCents: 9900,
+      paymentMethod: 'stripe',
+      transactionId: null,
+      payoutRunId: null,
+      processedAt: new Date(),
+      completedAt: null,
+    });
+
+    expect((await completePayout(payout.id, 'po_audit')).success).toBe(true);
+
+    const { entries } = await listAuditLog({ targetType: 'PAYOUT', targetId: payout.id });
+    const entry = entries[0] as AuditLogEntry;
+    expect(entry.action).toBe('payout.completed');
+    expect(entry.actorType).toBe('SYSTEM');
+    expect(entry.actorId).toBe('stripe');
+    expect(entry.changes.status).toEqual({ before: 'PROCESSING', after: 'COMPLETED' });
+    expect(entry.changes.transactionId).toEqual({ before: null, after: 'po_audit' });
+  });
+});
+
+describe('Audit Log API', () => {
+  it('should list filtered entries', async () => {
+    const targetId = uniqueId('rule');
+    await recordAuditEvent(systemAuditContext('test'), {
+      action: 'commission_rule.delete',
+      targetType: 'COMMISSION_RULE',
+      targetId,
+    });
+
+    const response = await getAuditLog(
+      new NextRequest(`http://localhost/api/admin/audit?targetType=COMMISSION_RULE&targetId=${targetId}`)
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.total).toBe(1);
+    expect(body.data.entries[0].action).toBe('commission_rule.delete');
+  });
+
+  it('should reject invalid filters', async () => {
+    const response = await getAuditLog(new NextRequest('http://localhost/api/admin/audit?targetType=USER&limit=500'));
+
+    expect(response.status).toBe(400);
+  });
+});
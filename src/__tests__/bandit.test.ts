@@ -0,0 +1,162 @@
+/**
+ * Bandit Tests
+ * Tests for Thompson sampling allocation and the bandit experiment lifecycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyExplorationFloor,
+  computeBanditAllocation,
+  createSeededRandom,
+  sampleBeta,
+  thompsonShares,
+} from '@/lib/bandit';
+import { experimentInputSchema } from '@/lib/experiments';
+import {
+  createExperiment,
+  listPartnerExperiments,
+  updateBanditAllocations,
+  updateExperiment,
+} from '@/lib/experiment-service';
+import { inMemoryExperimentResultRepo } from '@/lib/data-store';
+import type { Partner } from '@/lib/db';
+import { createPartner } from './fixtures';
+
+async function createBandit(partner: Partner) {
+  return createExperiment(partner.id, experimentInputSchema.parse({
+    name: 'Bandit Message',
+    allocationMode: 'BANDIT',
+    explorationFloor: 0.1,
+    variants: [
+      { name: 'Control', content: 'Join me', isControl: true },
+      { name: 'Casual', content: 'Come along', isControl: false },
+      { name: 'Urgent', content: 'Last chance', isControl: false },
+    ],
+  }));
+}
+
+describe('Thompson Sampling', () => {
+  it('should sample Beta distributions with the right mean', () => {
+    const random = createSeededRandom(42);
+    const samples = Array.from({ length: 5000 }, () => sampleBeta(3, 7, random));
+    const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+
+    expect(mean).toBeCloseTo(0.3, 1);
+    expect(samples.every(x => x > 0 && x < 1)).toBe(true);
+  });
+
+  it('should favour the arm most likely to be best', () => {
+    const shares = thompsonShares([
+      { id: 'a', impressions: 1000, clicks: 50 },
+      { id: 'b', impressions: 1000, clicks: 100 },
+    ], 2000, createSeededRandom(7));
+
+    expect(shares[1]).toBeGreaterThan(0.99);
+    expect(shares[0]! + shares[1]!).toBeCloseTo(1);
+  });
+
+  it('should split evenly without results', () => {
+    const shares = thompsonShares([
+      { id: 'a', impressions: 0, clicks: 0 },
+      { id: 'b', impressions: 0, clicks: 0 },
+    ], 4000, createSeededRandom(3));
+
+    expect(shares[0]).toBeGreaterThan(0.45);
+    expect(shares[0]).toBeLessThan(0.55);
+  });
+
+  it('should keep every arm at the exploration floor', () => {
+    expect(applyExplorationFloor([1, 0, 0], 0.05)).toEqual([0.9, 0.05, 0.05]);
+    expect(applyExplorationFloor([1, 0], 0.8)).toEqual([0.5, 0.5]);
+
+    const allocation = computeBanditAllocation([
+      { id: 'a', impressions: 500, clicks: 10 },
+      { id: 'b', impressions: 500, clicks: 90 },
+    ], { explorationFloor: 0.1, draws: 1000, random: createSeededRandom(11) });
+
+    expect(allocation.a).toBeCloseTo(0.1);
+    expect(allocation.b).toBeCloseTo(0.9);
+  });
+
+  it('should reject exploration floors five variants cannot meet', () => {
+    const result = experimentInputSchema.safeParse({
+      name: 'Too much exploration',
+      allocationMode: 'BANDIT',
+      explorationFloor: 0.3,
+      variants: [
+        { name: 'A', content: 'A', isControl: true },
+        { name: 'B', content: 'B' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Bandit Experiments', () => {
+  it('should start with an equal split and record it', async () => {
+    const partner = await createPartner();
+    const bandit = await createBandit(partner);
+    const started = await updateExperiment(bandit.id, { status: 'RUNNING' }, new Date('2026-06-01T00:00:00Z'));
+
+    expect(started.experiment?.variants.map(v => v.weight)).toEqual([1 / 3, 1 / 3, 1 / 3]);
+    expect(started.experiment?.allocations).toHaveLength(1);
+  });
+
+  it('should move traffic toward the best variant while running', async () => {
+    const partner = await createPartner();
+    const bandit = await createBandit(partner);
+    await updateExperiment(bandit.id, { status: 'RUNNING' });
+
+    const [control, casual, urgent] = bandit.variants;
+    const at = new Date();
+    await inMemoryExperimentResultRepo.increment(bandit.id, control!.id, at, { impressions: 400, clicks: 20 });
+    await inMemoryExperimentResultRepo.increment(bandit.id, casual!.id, at, { impressions: 400, clicks: 60 });
+    await inMemoryExperimentResultRepo.increment(bandit.id, urgent!.id, at, { impressions: 400, clicks: 22 });
+
+    const summary = await updateBanditAllocations(new Date(), createSeededRandom(5));
+    const saved = (await listPartnerExperiments(partner.id))[0]!;
+    const latest = saved.allocations[saved.allocations.length - 1]!;
+
+    expect(summary.updated).toBeGreaterThanOrEqual(1);
+    expect(summary.failed).toBe(0);
+    expect(saved.allocations).toHaveLength(2);
+    expect(latest.weights[casual!.id]).toBeGreaterThan(0.75);
+    expect(latest.weights[control!.id]).toBeGreaterThanOrEqual(0.1);
+    expect(saved.variants[1]?.weight).toBe(latest.weights[casual!.id]);
+  });
+
+  it('should freeze the allocation while paused or completed', async () => {
+    const partner = await createPartner();
+    const bandit = await createBandit(partner);
+    await updateExperiment(bandit.id, { status: 'RUNNING' });
+    await updateExperiment(bandit.id, { status: 'PAUSED' });
+
+    await updateBanditAllocations(new Date(), createSeededRandom(9));
+    const [paused] = await listPartnerExperiments(partner.id);
+
+    expect(paused?.allocations).toHaveLength(1);
+
+    await updateExperiment(bandit.id, { status: 'RUNNING' });
+    await updateExperiment(bandit.id, { status: 'COMPLETED' });
+    await updateBanditAllocations(new Date(), createSeededRandom(9));
+    const [completed] = await listPartnerExperiments(partner.id);
+
+    expect(completed?.allocations).toHaveLength(1);
+  });
+
+  it('should not record allocations for fixed split experiments', async () => {
+    const partner = await createPartner();
+    const fixed = await createExperiment(partner.id, experimentInputSchema.parse({
+      name: 'Fixed',
+      variants: [
+        { name: 'A', content: 'A', isControl: true },
+        { name: 'B', content: 'B' },
+      ],
+    }));
+    const started = await updateExperiment(fixed.id, { status: 'RUNNING' });
+
+    expect(started.experiment?.allocations).toEqual([]);
+    expect(started.experiment?.variants.every(v => v.weight === null)).toBe(true);
+  });
+});
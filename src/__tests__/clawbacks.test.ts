@@ -0,0 +1,226 @@
+/**
+ * Clawback Tests
+ * Tests for refund/chargeback commission reversal and payout adjustments
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  cancelPayoutClawbacks,
+  getChargeCustomerEmail,
+  isCommissionPaidOut,
+  reverseCustomerReferral,
+} from '@/lib/clawback-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import { failPayout, requestPayout } from '@/lib/payment-service';
+import {
+  inMemoryBalanceAdjustmentRepo,
+  inMemoryCampaignRepo,
+  inMemoryNotificationRepo,
+  inMemoryReferralRepo,
+  seedStore,
+} from '@/lib/data-store';
+import { createAttributionToken, hashCustomerEmail } from '@/lib/tracking';
+import { createPartner } from './fixtures';
+
+function uniqueEmail(): string {
+  return `customer-${Math.random().toString(36).slice(2)}@example.com`;
+}
+
+async function createPaidReferral(partnerId: string, email: string, commissionCents: number) {
+  return inMemoryReferralRepo.create({
+    partnerId,
+    status: 'PAID',
+    customerHash: hashCustomerEmail(email),
+    orderAmountCents: commissionCents * 10,
+    commissionCents,
+    commissionRate: 0.1,
+    convertedAt: new Date(),
+    payoutId: null,
+  });
+}
+
+// Converted long enough ago to be past the payout hold period
+async function createAvailableReferral(partnerId: string, commissionCents: number) {
+  return inMemoryReferralRepo.create({
+    partnerId,
+    status: 'CONVERTED',
+    customerHash: hashCustomerEmail(uniqueEmail()),
+    orderAmountCents: commissionCents * 10,
+    commissionCents,
+    commissionRate: 0.1,
+    convertedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
+    payoutId: null,
+  });
+}
+
+describe('Clawback Helpers', () => {
+  it('should treat paid or payout-linked referrals as paid out', () => {
+    expect(isCommissionPaidOut({ status: 'PAID', payoutId: null })).toBe(true);
+    expect(isCommissionPaidOut({ status: 'CONVERTED', payoutId: 'payout-1' })).toBe(true);
+    expect(isCommissionPaidOut({ status: 'CONVERTED', payoutId: null })).toBe(false);
+  });
+
+  it('should read the customer email from a charge', () => {
+    expect(getChargeCustomerEmail({
+      billing_details: { email: 'billing@example.com' } as never,
+      receipt_email: 'receipt@example.com',
+    })).toBe('billing@example.com');
+    expect(getChargeCustomerEmail({
+      billing_details: { email: null } as never,
+      receipt_email: 'receipt@example.com',
+    })).toBe('receipt@example.com');
+  });
+});
+
+describe('Commission Reversal', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should void unpaid commission without an adjustment', async () => {
+    const email = uniqueEmail();
+    const before = await inMemoryCampaignRepo.findById('campaign-001');
+    const attributionToken = createAttributionToken({
+      partnerId: 'partner-demo-123',
+      campaignId: 'campaign-001',
+      clickId: 'click-clawback',
+      clickedAt: new Date(),
+    });
+    await ingestConversion({ type: 'purchase', customerEmail: email, orderAmountCents: 50000, attributionToken });
+
+    const result = await ingestConversion({ type: 'refund', customerEmail: email });
+
+    expect(result.success).toBe(true);
+    expect(result.referral?.status).toBe('REFUNDED');
+    expect(result.referral?.refundedAt).toBeInstanceOf(Date);
+    expect(result.adjustment).toBeUndefined();
+
+    const after = await inMemoryCampaignRepo.findById('campaign-001');
+    expect(after?.conversions).toBe(before?.conversions);
+    expect(after?.revenue).toBe(before?.revenue);
+  });
+
+  it('should create a negative adjustment for paid commission', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await createPaidReferral(partner.id, email, 4000);
+
+    const result = await reverseCustomerReferral(email, 'CHARGEBACK');
+
+    expect(result.success).toBe(true);
+    expect(result.adjustment).toMatchObject({
+      partnerId: partner.id,
+      amountCents: -4000,
+      reason: 'CHARGEBACK',
+      payoutId: null,
+    });
+
+    const [notification] = await inMemoryNotificationRepo.findByPartnerId(partner.id);
+    expect(notification).toMatchObject({ type: 'PAYOUT', title: 'Commission Reversed' });
+  });
+
+  it('should treat repeated reversals as duplicates', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await createPaidReferral(partner.id, email, 2500);
+
+    await reverseCustomerReferral(email, 'REFUND');
+    const again = await reverseCustomerReferral(email, 'CHARGEBACK');
+
+    expect(again.duplicate).toBe(true);
+    expect(await inMemoryBalanceAdjustmentRepo.findByPartnerId(partner.id)).toHaveLength(1);
+  });
+
+  it('should reject reversals without a converted referral', async () => {
+    const email = uniqueEmail();
+    expect((await reverseCustomerReferral(email, 'REFUND')).errorCode).toBe('REFERRAL_NOT_FOUND');
+
+    await ingestConversion({ type: 'signup', customerEmail: email, referralCode: 'SARAH2024' });
+    expect((await reverseCustomerReferral(email, 'REFUND')).errorCode).toBe('REFERRAL_NOT_CONVERTED');
+  });
+});
+
+describe('Payout Adjustments', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should deduct outstanding adjustments from the next payout', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await createPaidReferral(partner.id, email, 3000);
+    await createAvailableReferral(partner.id, 10000);
+    const { adjustment } = await reverseCustomerReferral(email, 'REFUND');
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+
+    expect(result.success).toBe(true);
+    expect(result.payout).toMatchObject({
+      amountCents: 10000,
+      feeCents: 125,
+      adjustmentCents: -3000,
+      netCents: 6875,
+    });
+
+    const applied = await inMemoryBalanceAdjustmentRepo.findByPayoutId(result.payout!.id);
+    expect(applied.map(a => a.id)).toEqual([adjustment!.id]);
+    expect(await inMemoryBalanceAdjustmentRepo.findByPartnerId(partner.id, { outstanding: true })).toHaveLength(0);
+  });
+
+  it('should carry adjustments over when a payout fails', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await createPaidReferral(partner.id, email, 3000);
+    await createAvailableReferral(partner.id, 10000);
+    await reverseCustomerReferral(email, 'REFUND');
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+    await failPayout(result.payout!.id, 'Bank account closed');
+
+    const outstanding = await inMemoryBalanceAdjustmentRepo.findByPartnerId(partner.id, { outstanding: true });
+    expect(outstanding).toHaveLength(1);
+    expect(outstanding[0]?.appliedAt).toBeNull();
+  });
+
+  it('should cancel the clawback when the payout holding the refunded commission fails', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await inMemoryReferralRepo.create({
+      partnerId: partner.id,
+      status: 'CONVERTED',
+      customerHash: hashCustomerEmail(email),
+      orderAmountCents: 30000,
+      commissionCents: 3000,
+      commissionRate: 0.1,
+      convertedAt: new Date(Date.now() - 61 * 24 * 60 * 60 * 1000),
+      payoutId: null,
+    });
+    await createAvailableReferral(partner.id, 10000);
+
+    const first = await requestPayout({ partnerId: partner.id, amountCents: 3000, method: 'manual' });
+    const { adjustment } = await reverseCustomerReferral(email, 'REFUND');
+    expect(adjustment?.amountCents).toBe(-3000);
+    await failPayout(first.payout!.id, 'Bank account closed');
+
+    const next = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+
+    expect(next.success).toBe(true);
+    expect(next.payout).toMatchObject({ amountCents: 10000, adjustmentCents: 0, netCents: 9875 });
+
+    // A released payout's clawbacks are only cancelled once
+    expect(await cancelPayoutClawbacks({ id: first.payout!.id, partnerId: partner.id })).toEqual([]);
+  });
+
+  it('should refuse payouts smaller than outstanding adjustments', async () => {
+    const partner = await createPartner();
+    const email = uniqueEmail();
+    await createPaidReferral(partner.id, email, 50000);
+    await createAvailableReferral(partner.id, 10000);
+    await reverseCustomerReferral(email, 'CHARGEBACK');
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('ADJUSTMENTS_EXCEED_PAYOUT');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Commission Rules Engine Tests
+ * Tests for rule matching, payout types, overrides and validation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  applyCommissionRule,
+  buildCommissionRule,
+  buildDefaultCommissionRules,
+  evaluateCommission,
+  getHeadlineCommissionRate,
+  isTierBaseRule,
+  selectCommissionRule,
+  validateCommissionRule,
+  type CommissionContext,
+} from '@/lib/commissions';
+import { calculateCommission, getPartnerCommissionRate } from '@/lib/commission-service';
+import { inMemoryCommissionRuleRepo, getPartnerStats, seedStore } from '@/lib/data-store';
+import type { CommissionRule } from '@/lib/db';
+
+let nextId = 0;
+
+function rule(overrides: Partial<CommissionRule> & Pick<CommissionRule, 'type'>): CommissionRule {
+  return {
+    ...buildCommissionRule({ name: 'Test rule', ...overrides }),
+    id: overrides.id ?? `rule-test-${nextId++}`,
+    createdAt: overrides.createdAt ?? new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+const goldContext: CommissionContext = {
+  partnerId: 'partner-1',
+  tier: 'GOLD',
+  source: 'LINKEDIN',
+  orderAmountCents: 100000,
+  occurredAt: new Date('2026-06-15'),
+};
+
+describe('Commission Payout Types', () => {
+  it('should pay a flat amount regardless of order size', () => {
+    const flat = rule({ type: 'FLAT', flatAmountCents: 2500 });
+    expect(applyCommissionRule(flat, 100000)).toBe(2500);
+    expect(applyCommissionRule(flat, 100)).toBe(2500);
+  });
+
+  it('should pay a percentage of the order', () => {
+    expect(applyCommissionRule(rule({ type: 'PERCENTAGE', rate: 0.2 }), 12345)).toBe(2469);
+  });
+
+  it('should apply tiered percentages to each band', () => {
+    const tiered = rule({
+      type: 'TIERED_PERCENTAGE',
+      bands: [
+        { upToCents: null, rate: 0.2 },
+        { upToCents: 10000, rate: 0.1 },
+        { upToCents: 50000, rate: 0.15 },
+      ],
+    });
+
+    // 10% of $100 + 15% of $400 + 20% of $500
+    expect(applyCommissionRule(tiered, 100000)).toBe(1000 + 6000 + 10000);
+    expect(applyCommissionRule(tiered, 5000)).toBe(500);
+  });
+
+  it('should never pay commission on negative amounts', () => {
+    expect(applyCommissionRule(rule({ type: 'PERCENTAGE', rate: 0.25 }), -500)).toBe(0);
+  });
+});
+
+describe('Commission Rule Matching', () => {
+  it('should match on tier, source, amount band and date range', () => {
+    const specific = rule({
+      type: 'PERCENTAGE',
+      rate: 0.3,
+      tiers: ['GOLD'],
+      sources: ['LINKEDIN'],
+      minOrderCents: 50000,
+      maxOrderCents: 200000,
+      startsAt: new Date('2026-06-01'),
+      endsAt: new Date('2026-07-01'),
+    });
+
+    expect(selectCommissionRule([specific], goldContext)?.id).toBe(specific.id);
+    expect(selectCommissionRule([specific], { ...goldContext, tier: 'SILVER' })).toBeNull();
+    expect(selectCommissionRule([specific], { ...goldContext, source: 'EMAIL' })).toBeNull();
+    expect(selectCommissionRule([specific], { ...goldContext, source: null })).toBeNull();
+    expect(selectCommissionRule([specific], { ...goldContext, orderAmountCents: 200000 })).toBeNull();
+    expect(selectCommissionRule([specific], { ...goldContext, occurredAt: new Date('2026-07-01') })).toBeNull();
+  });
+
+  it('should ignore inactive rules', () => {
+    expect(selectCommissionRule([rule({ type: 'PERCENTAGE', rate: 0.1, isActive: false })], goldContext)).toBeNull();
+  });
+
+  it('should prefer higher priority rules', () => {
+    const base = rule({ type: 'PERCENTAGE', rate: 0.22, tiers: ['GOLD'] });
+    const promo = rule({ type: 'PERCENTAGE', rate: 0.3, sources: ['LINKEDIN'], priority: 10 });
+
+    expect(selectCommissionRule([base, promo], goldContext)?.id).toBe(promo.id);
+  });
+
+  it('should let partner overrides win over global rules', () => {
+    const promo = rule({ type: 'PERCENTAGE', rate: 0.3, priority: 100 });
+    const override = rule({ type: 'FLAT', flatAmountCents: 5000, partnerId: 'partner-1' });
+
+    expect(selectCommissionRule([promo, override], goldContext)?.id).toBe(override.id);
+    expect(selectCommissionRule([promo, override], { ...goldContext, partnerId: 'partner-2' })?.id).toBe(promo.id);
+  });
+});
+
+describe('Commission Evaluation', () => {
+  it('should report the effective rate for non-percentage rules', () => {
+    const result = evaluateCommission([rule({ type: 'FLAT', flatAmountCents: 5000 })], goldContext);
+    expect(result.commissionCents).toBe(5000);
+    expect(result.commissionRate).toBe(0.05);
+  });
+
+  it('should return zero commission when no rule matches', () => {
+    expect(evaluateCommission([], goldContext)).toEqual({ commissionCents: 0, commissionRate: 0, ruleId: null });
+  });
+
+  it('should derive headline rates from the default tier rules', () => {
+    const rules = buildDefaultCommissionRules();
+    expect(getHeadlineCommissionRate(rules, { tier: 'STANDARD' })).toBe(0.15);
+    expect(getHeadlineCommissionRate(rules, { tier: 'PLATINUM' })).toBe(0.25);
+    expect(rules.every(r => isTierBaseRule(r, r.tiers[0]!))).toBe(true);
+  });
+});
+
+describe('Commission Rule Validation', () => {
+  it('should require a payout value for the rule type', () => {
+    expect(validateCommissionRule(buildCommissionRule({ name: 'x', type: 'FLAT' }))).toMatch(/flatAmountCents/);
+    expect(validateCommissionRule(buildCommissionRule({ name: 'x', type: 'PERCENTAGE' }))).toMatch(/rate/);
+    expect(validateCommissionRule(buildCommissionRule({ name: 'x', type: 'TIERED_PERCENTAGE' }))).toMatch(/bands/);
+  });
+
+  it('should reject inverted ranges', () => {
+    expect(validateCommissionRule(buildCommissionRule({
+      name: 'x', type: 'PERCENTAGE', rate: 0.1, minOrderCents: 500, maxOrderCents: 100,
+    }))).toMatch(/minOrderCents/);
+    expect(validateCommissionRule(buildCommissionRule({
+      name: 'x', type: 'PERCENTAGE', rate: 0.1, startsAt: new Date('2026-02-01'), endsAt: new Date('2026-01-01'),
+    }))).toMatch(/startsAt/);
+  });
+
+  it('should accept a complete rule', () => {
+    expect(validateCommissionRule(buildCommissionRule({ name: 'x', type: 'PERCENTAGE', rate: 0.1 }))).toBeNull();
+  });
+});
+
+describe('Commission Service', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should apply per-partner overrides stored in the repository', async () => {
+    const override = await inMemoryCommissionRuleRepo.create(buildCommissionRule({
+      name: 'VIP override',
+      type: 'PERCENTAGE',
+      rate: 0.4,
+      partnerId: 'partner-demo-789',
+    }));
+
+    const result = await calculateCommission({ id: 'partner-demo-789', tier: 'SILVER' }, { orderAmountCents: 10000 });
+    expect(result).toEqual({ commissionCents: 4000, commissionRate: 0.4, ruleId: override.id });
+    expect(await getPartnerCommissionRate({ id: 'partner-demo-789', tier: 'SILVER' })).toBe(0.4);
+
+    await inMemoryCommissionRuleRepo.delete(override.id);
+  });
+
+  it('should report the partner commission rate in stats', async () => {
+    const stats = await getPartnerStats('partner-demo-123');
+    expect(stats.commissionRate).toBe(0.22);
+  });
+
+  it('should update tier rates through the repository', async () => {
+    await inMemoryCommissionRuleRepo.update('rule-tier-silver', { rate: 0.2 });
+    expect(await getPartnerCommissionRate({ tier: 'SILVER' })).toBe(0.2);
+
+    await inMemoryCommissionRuleRepo.update('rule-tier-silver', { rate: 0.18 });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Conversion Ingestion Tests
+ * Tests for request signing, attribution and referral conversion
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ingestConversion,
+  signConversionPayload,
+  verifyConversionSignature,
+} from '@/lib/conversion-service';
+import { calculateCommission } from '@/lib/commission-service';
+import { createAttributionToken, hashCustomerEmail } from '@/lib/tracking';
+import {
+  inMemoryCampaignRepo,
+  inMemoryNotificationRepo,
+  inMemoryReferralRepo,
+  seedStore,
+} from '@/lib/data-store';
+
+const SECRET = 'test-conversion-secret';
+
+function uniqueEmail(): string {
+  return `customer-${Math.random().toString(36).slice(2)}@example.com`;
+}
+
+describe('Conversion Request Signing', () => {
+  const body = JSON.stringify({ type: 'signup', customerEmail: 'a@example.com' });
+  const now = 1_800_000_000;
+
+  it('should verify a valid signature', () => {
+    const header = signConversionPayload(body, now, SECRET);
+    expect(verifyConversionSignature(body, header, now, SECRET)).toBe(true);
+  });
+
+  it('should reject a modified body', () => {
+    const header = signConversionPayload(body, now, SECRET);
+    expect(verifyConversionSignature(body.replace('a@', 'b@'), header, now, SECRET)).toBe(false);
+  });
+
+  it('should reject a wrong secret', () => {
+    const header = signConversionPayload(body, now, 'other-secret');
+    expect(verifyConversionSignature(body, header, now, SECRET)).toBe(false);
+  });
+
+  it('should reject stale timestamps', () => {
+    const header = signConversionPayload(body, now - 10 * 60, SECRET);
+    expect(verifyConversionSignature(body, header, now, SECRET)).toBe(false);
+  });
+
+  it('should reject missing or malformed headers', () => {
+    expect(verifyConversionSignature(body, null, now, SECRET)).toBe(false);
+    expect(verifyConversionSignature(body, 'garbage', now, SECRET)).toBe(false);
+  });
+});
+
+describe('Commission Calculation', () => {
+  it('should apply the tier rate', async () => {
+    expect(await calculateCommission({ id: 'partner-demo-123', tier: 'GOLD' }, { orderAmountCents: 100000 }))
+      .toEqual({ commissionCents: 22000, commissionRate: 0.22, ruleId: 'rule-tier-gold' });
+    expect((await calculateCommission({ id: 'p', tier: 'STANDARD' }, { orderAmountCents: 100000 })).commissionCents)
+      .toBe(15000);
+  });
+
+  it('should never return negative commission', async () => {
+    expect((await calculateCommission({ id: 'p', tier: 'PLATINUM' }, { orderAmountCents: -500 })).commissionCents)
+      .toBe(0);
+  });
+});
+
+describe('Conversion Ingestion', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should create a pending referral on signup', async () => {
+    const email = uniqueEmail();
+    const result = await ingestConversion({
+      type: 'signup',
+      customerEmail: email,
+      referralCode: 'ALEX2024',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.referral?.status).toBe('PENDING');
+    expect(result.referral?.partnerId).toBe('partner-demo-123');
+    expect(result.referral?.customerHash).toBe(hashCustomerEmail(email));
+    expect(result.referral?.commissionCents).toBe(0);
+  });
+
+  it('should convert a pending referral on purchase', async () => {
+    const email = uniqueEmail();
+    const signup = await ingestConversion({ type: 'signup', customerEmail: email, referralCode: 'ALEX2024' });
+
+    const purchase = await ingestConversion({
+      type: 'purchase',
+      customerEmail: email.toUpperCase(),
+      orderAmountCents: 50000,
+    });
+
+    expect(purchase.success).toBe(true);
+    expect(purchase.referral?.id).toBe(signup.referral?.id);
+    expect(purchase.referral?.status).toBe('CONVERTED');
+    expect(purchase.referral?.commissionCents).toBe(11000); // GOLD 22%
+    expect(purchase.referral?.convertedAt).toBeInstanceOf(Date);
+  });
+
+  it('should dedupe repeated events for the same customer', async () => {
+    const email = uniqueEmail();
+    await ingestConversion({ type: 'purchase', customerEmail: email, orderAmountCents: 10000, referralCode: 'SARAH2024' });
+
+    const again = await ingestConversion({ type: 'purchase', customerEmail: email, orderAmountCents: 10000, referralCode: 'ALEX2024' });
+
+    expect(again.success).toBe(true);
+    expect(again.duplicate).toBe(true);
+    expect(again.referral?.partnerId).toBe('partner-demo-456');
+  });
+
+  it('should attribute via token and credit the campaign', async () => {
+    const before = await inMemoryCampaignRepo.findById('campaign-001');
+    const token = createAttributionToken({
+      partnerId: 'partner-demo-123',
+      campaignId: 'campaign-001',
+      clickId: 'click-test',
+      clickedAt: new Date(),
+    });
+
+    const result = await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 20000,
+      attributionToken: token,
+    });
+
+    expect(result.referral?.campaignId).toBe('campaign-001');
+    expect(result.referral?.clickedAt).toBeInstanceOf(Date);
+
+    const after = await inMemoryCampaignRepo.findById('campaign-001');
+    expect(after?.conversions).toBe((before?.conversions ?? 0) + 1);
+    expect(after?.revenue).toBe((before?.revenue ?? 0) + 20000);
+  });
+
+  it('should fall back to referral code when the token is invalid', async () => {
+    const result = await ingestConversion({
+      type: 'signup',
+      customerEmail: uniqueEmail(),
+      attributionToken: 'forged.token',
+      referralCode: 'marcus24',
+    });
+
+    expect(result.referral?.partnerId).toBe('partner-demo-789');
+  });
+
+  it('should reject events without attribution', async () => {
+    const result = await ingestConversion({ type: 'signup', customerEmail: uniqueEmail() });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('ATTRIBUTION_NOT_FOUND');
+  });
+
+  it('should reject inactive partners', async () => {
+    const result = await ingestConversion({
+      type: 'signup',
+      customerEmail: uniqueEmail(),
+      referralCode: 'JORDAN24',
+    });
+
+    expect(result.errorCode).toBe('PARTNER_INACTIVE');
+  });
+
+  it('should reject self-referrals', async () => {
+    const result = await ingestConversion({
+      type: 'purchase',
+      customerEmail: 'demo@innercircle.co',
+      orderAmountCents: 10000,
+      referralCode: 'ALEX2024',
+    });
+
+    expect(result.errorCode).toBe('SELF_REFERRAL');
+  });
+
+  it('should create a conversion notification', async () => {
+    const unreadBefore = await inMemoryNotificationRepo.countUnread('partner-demo-456');
+
+    await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 40000,
+      referralCode: 'SARAH2024',
+    });
+
+    const notifications = await inMemoryNotificationRepo.findByPartnerId('partner-demo-456', { unreadOnly: true });
+    expect(notifications.length).toBe(unreadBefore + 1);
+    expect(notifications[0]?.type).toBe('CONVERSION');
+  });
+
+  it('should find referrals by customer hash', async () => {
+    const referral = await inMemoryReferralRepo.findByCustomerHash('hash_abc123');
+    expect(referral?.id).toBe('referral-001');
+  });
+});
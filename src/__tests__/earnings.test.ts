@@ -0,0 +1,195 @@
+/**
+ * Earnings Tests
+ * Tests for the commission hold period and payout balance enforcement
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  computeEarningsBuckets,
+  getEarningsBucket,
+  getHoldCutoff,
+  selectPayoutReferrals,
+} from '@/lib/earnings';
+import { completePayout, failPayout, requestPayout } from '@/lib/payment-service';
+import { recordCommissionEarned } from '@/lib/ledger-service';
+import { getPayoutSettings, updatePayoutSettings } from '@/lib/program-settings';
+import { getPartnerStats } from '@/lib/repositories';
+import {
+  inMemoryPayoutRepo,
+  inMemoryReferralRepo,
+  seedStore,
+} from '@/lib/data-store';
+import type { Referral } from '@/lib/db';
+import { createPartner } from './fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+async function createReferral(
+  partnerId: string,
+  commissionCents: number,
+  convertedDaysAgo: number
+): Promise<Referral> {
+  const referral = await inMemoryReferralRepo.create({
+    partnerId,
+    status: 'CONVERTED',
+    customerHash: `hash-${Math.random().toString(36).slice(2)}`,
+    orderAmountCents: commissionCents * 10,
+    commissionCents,
+    commissionRate: 0.1,
+    convertedAt: daysAgo(convertedDaysAgo),
+    payoutId: null,
+  });
+  await recordCommissionEarned(referral);
+  return referral;
+}
+
+describe('Earnings Buckets', () => {
+  const now = new Date('2026-06-30T12:00:00Z');
+  const cutoff = getHoldCutoff(30, now);
+
+  it('should bucket referrals by hold period and payout', () => {
+    expect(getEarningsBucket({ status: 'CONVERTED', commissionCents: 100, convertedAt: daysAgo(31, now) }, cutoff)).toBe('available');
+    expect(getEarningsBucket({ status: 'CONVERTED', commissionCents: 100, convertedAt: daysAgo(29, now) }, cutoff)).toBe('pending');
+    expect(getEarningsBucket({ status: 'CONVERTED', commissionCents: 100, convertedAt: null }, cutoff)).toBe('pending');
+    expect(getEarningsBucket({ status: 'CONVERTED', commissionCents: 100, convertedAt: daysAgo(31, now), payoutId: 'p1' }, cutoff)).toBe('paid');
+    expect(getEarningsBucket({ status: 'PAID', commissionCents: 100, convertedAt: daysAgo(1, now) }, cutoff)).toBe('paid');
+    expect(getEarningsBucket({ status: 'REFUNDED', commissionCents: 100, convertedAt: daysAgo(40, now) }, cutoff)).toBeNull();
+  });
+
+  it('should total each bucket', () => {
+    expect(computeEarningsBuckets([
+      { status: 'CONVERTED', commissionCents: 1000, convertedAt: daysAgo(45, now) },
+      { status: 'CONVERTED', commissionCents: 2000, convertedAt: daysAgo(10, now) },
+      { status: 'PAID', commissionCents: 4000, convertedAt: daysAgo(60, now) },
+      { status: 'CANCELLED', commissionCents: 8000, convertedAt: daysAgo(60, now) },
+    ], 30, now)).toEqual({ pendingCents: 2000, availableCents: 1000, paidCents: 4000 });
+  });
+
+  it('should make everything available without a hold period', () => {
+    expect(computeEarningsBuckets([
+      { status: 'CONVERTED', commissionCents: 2000, convertedAt: now },
+    ], 0, now).availableCents).toBe(2000);
+  });
+
+  it('should select the oldest available referrals covering an amount', () => {
+    const referrals = [
+      { id: 'new', status: 'CONVERTED' as const, commissionCents: 3000, convertedAt: daysAgo(35, now) },
+      { id: 'old', status: 'CONVERTED' as const, commissionCents: 3000, convertedAt: daysAgo(50, now) },
+      { id: 'held', status: 'CONVERTED' as const, commissionCents: 9000, convertedAt: daysAgo(5, now) },
+    ];
+
+    expect(selectPayoutReferrals(referrals, 2000, 30, now)?.map(r => r.id)).toEqual(['old']);
+    expect(selectPayoutReferrals(referrals, 5000, 30, now)?.map(r => r.id)).toEqual(['old', 'new']);
+    expect(selectPayoutReferrals(referrals, 7000, 30, now)).toBeNull();
+  });
+});
+
+describe('Payout Hold Enforcement', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should refuse payouts above the available balance', async () => {
+    const partner = await createPartner();
+    await createReferral(partner.id, 50000, 3);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('INSUFFICIENT_BALANCE');
+    expect(result.error).toContain('30-day hold period');
+  });
+
+  it('should settle whole available referrals and leave held ones', async () => {
+    const partner = await createPartner();
+    const available = await createReferral(partner.id, 12000, 40);
+    const held = await createReferral(partner.id, 8000, 10);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+
+    expect(result.success).toBe(true);
+    expect(result.payout?.amountCents).toBe(12000);
+    expect((await inMemoryReferralRepo.findById(available.id))?.payoutId).toBe(result.payout?.id);
+    expect((await inMemoryReferralRepo.findById(held.id))?.payoutId).toBeNull();
+
+    const stats = await getPartnerStats(partner.id);
+    expect(stats).toMatchObject({ totalEarned: 12000, availableBalance: 0, pendingPayout: 8000 });
+
+    const again = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+    expect(again.errorCode).toBe('INSUFFICIENT_BALANCE');
+  });
+
+  it('should only pay referrals out once across concurrent requests', async () => {
+    const partner = await createPartner();
+    const referral = await createReferral(partner.id, 15000, 45);
+
+    const results = await Promise.all([
+      requestPayout({ partnerId: partner.id, amountCents: 15000, method: 'manual' }),
+      requestPayout({ partnerId: partner.id, amountCents: 15000, method: 'manual' }),
+    ]);
+    const succeeded = results.filter(r => r.success);
+    const failed = results.find(r => !r.success);
+
+    expect(succeeded).toHaveLength(1);
+    expect(failed?.errorCode).toBe('REFERRALS_UNAVAILABLE');
+    expect((await inMemoryReferralRepo.findById(referral.id))?.payoutId).toBe(succeeded[0]?.payout?.id);
+
+    const payouts = await inMemoryPayoutRepo.findByPartnerId(partner.id);
+    expect(payouts.map(p => p.status).sort()).toEqual(['CANCELLED', 'PENDING']);
+  });
+
+  it('should find payable referrals oldest conversion first', async () => {
+    const partner = await createPartner();
+    const newer = await createReferral(partner.id, 10000, 35);
+    const older = await createReferral(partner.id, 10000, 60);
+    const paid = await createReferral(partner.id, 10000, 90);
+    await inMemoryReferralRepo.update(paid.id, { payoutId: 'payout-other' });
+
+    const payable = await inMemoryReferralRepo.findPayable(partner.id, { limit: 1 });
+
+    expect(payable.map(r => r.id)).toEqual([older.id]);
+    expect((await inMemoryReferralRepo.findPayable(partner.id)).map(r => r.id)).toEqual([older.id, newer.id]);
+  });
+
+  it('should return referrals to the balance when a payout fails', async () => {
+    const partner = await createPartner();
+    const referral = await createReferral(partner.id, 15000, 45);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 15000, method: 'manual' });
+    await failPayout(result.payout!.id, 'Bank account closed');
+
+    expect((await inMemoryReferralRepo.findById(referral.id))?.payoutId).toBeNull();
+    expect((await getPartnerStats(partner.id)).availableBalance).toBe(15000);
+  });
+
+  it('should mark settled referrals paid when a payout completes', async () => {
+    const partner = await createPartner();
+    const referral = await createReferral(partner.id, 15000, 45);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 15000 });
+    const payout = await inMemoryPayoutRepo.findById(result.payout!.id);
+    await completePayout(payout!.id, 'txn_earnings');
+
+    expect((await inMemoryReferralRepo.findById(referral.id))?.status).toBe('PAID');
+  });
+
+  it('should use the configured hold period', async () => {
+    const partner = await createPartner();
+    await createReferral(partner.id, 20000, 10);
+    const { holdDays } = await getPayoutSettings();
+
+    try {
+      await updatePayoutSettings({ holdDays: 7 });
+
+      expect((await getPartnerStats(partner.id)).availableBalance).toBe(20000);
+      const result = await requestPayout({ partnerId: partner.id, amountCents: 20000, method: 'manual' });
+      expect(result.success).toBe(true);
+    } finally {
+      await updatePayoutSettings({ holdDays });
+    }
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Partner Event Stream Tests
+ * Tests for SSE formatting, Last-Event-ID resume, event publishing, the
+ * shared client stream and the dashboard's fallback to polling when the
+ * stream drops
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { NextRequest } from 'next/server';
+import { GET as eventsRoute } from '@/app/api/partners/[id]/events/route';
+import { formatServerSentEvent, parseLastEventId } from '@/lib/partner-events';
+import { openPartnerEventStream, prunePartnerEvents, publishPartnerEvent } from '@/lib/event-service';
+import { notifyPartner } from '@/lib/notification-service';
+import { recordPayoutTransition } from '@/lib/payment-service';
+import { systemAuditContext } from '@/lib/audit';
+import { inMemoryPartnerEventRepo, inMemoryPayoutRepo } from '@/lib/data-store';
+import { usePartnerEvents, usePartnerStats } from '@/hooks';
+import { createPartner } from './fixtures';
+
+const fetchMock = vi.mocked(globalThis.fetch);
+
+// Read a stream until it has sent `count` events, then cancel it
+async function readEvents(stream: ReadableStream<Uint8Array>, count: number): Promise<string[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while ((text.match(/^event: /gm) ?? []).length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  await reader.cancel();
+
+  return text.split('\n\n').filter(message => message.includes('event: '));
+}
+
+describe('Event Format', () => {
+  it('should write events as SSE messages named by type', () => {
+    expect(formatServerSentEvent({ id: 7, type: 'payout', data: { payoutId: 'payout-1', status: 'COMPLETED' } }))
+      .toBe('id: 7\nevent: payout\ndata: {"payoutId":"payout-1","status":"COMPLETED"}\n\n');
+  });
+
+  it('should only accept event ids as Last-Event-ID', () => {
+    expect(parseLastEventId('42')).toBe(42);
+    expect(parseLastEventId(' 0 ')).toBe(0);
+    expect(parseLastEventId(null)).toBeNull();
+    expect(parseLastEventId('abc')).toBeNull();
+    expect(parseLastEventId('-1')).toBeNull();
+  });
+});
+
+describe('Event Stream', () => {
+  it('should resume after Last-Event-ID', async () => {
+    const partner = await createPartner();
+    const other = await createPartner();
+    await publishPartnerEvent(partner.id, 'conversion', { referralId: 'ref-1' });
+    const seen = await inMemoryPartnerEventRepo.findLatestId(partner.id);
+    await publishPartnerEvent(other.id, 'conversion', { referralId: 'ref-other' });
+    await publishPartnerEvent(partner.id, 'conversion', { referralId: 'ref-2' });
+    await publishPartnerEvent(partner.id, 'milestone', { type: 'FIRST_CONVERSION' });
+
+    const controller = new AbortController();
+    const response = await eventsRoute(
+      new NextRequest(`http://localhost/api/partners/${partner.id}/events`, {
+        headers: { 'Last-Event-ID': String(seen) },
+        signal: controller.signal,
+      }),
+      { params: Promise.resolve({ id: partner.id }) }
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const messages = await readEvents(response.body!, 2);
+    controller.abort();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toContain('event: conversion\ndata: {"referralId":"ref-2"}');
+    expect(messages[1]).toContain('event: milestone');
+    expect(messages[1]).toContain(`id: ${seen + 3}`);
+  });
+
+  it('should start at the newest event and send new ones as they are recorded', async () => {
+    const partner = await createPartner();
+    await publishPartnerEvent(partner.id, 'conversion', { referralId: 'ref-old' });
+
+    const stream = await openPartnerEventStream(partner.id, { pollIntervalMs: 10 });
+    const reading = readEvents(stream, 1);
+    await notifyPartner({
+      partnerId: partner.id,
+      type: 'CONVERSION',
+      title: 'New Conversion!',
+      message: 'You earned $25.00 from a new referral',
+      link: '/dashboard',
+    });
+
+    const messages = await reading;
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain('event: notification');
+    expect(messages[0]).toContain('"title":"New Conversion!"');
+  });
+
+  it('should reject unknown partners', async () => {
+    const response = await eventsRoute(
+      new NextRequest('http://localhost/api/partners/partner-missing/events'),
+      { params: Promise.resolve({ id: 'partner-missing' }) }
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Event Publishing', () => {
+  it('should record payout status changes but not other transitions', async () => {
+    const partner = await createPartner();
+    const payout = await inMemoryPayoutRepo.create({
+      partnerId: partner.id,
+      amountCents: 25000,
+      feeCents: 25,
+      adjustmentCents: 0,
+      netCents: 24975,
+      status: 'PROCESSING',
+    });
+    const completed = await inMemoryPayoutRepo.update(payout.id, { status: 'COMPLETED', completedAt: new Date() });
+    const audit = systemAuditContext('stripe');
+
+    await recordPayoutTransition(audit, 'payout.reconciled', payout, payout);
+    await recordPayoutTransition(audit, 'payout.completed', payout, completed);
+
+    const events = await inMemoryPartnerEventRepo.findAfter(partner.id, 0);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'payout', data: { payoutId: payout.id, status: 'COMPLETED' } });
+  });
+
+  it('should delete events older than the retention window', async () => {
+    const partner = await createPartner();
+    await publishPartnerEvent(partner.id, 'milestone', { type: 'FIRST_SHARE' });
+
+    expect(await prunePartnerEvents(new Date(Date.now() + 23 * 60 * 60 * 1000))).toBe(0);
+    expect(await prunePartnerEvents(new Date(Date.now() + 25 * 60 * 60 * 1000))).toBeGreaterThan(0);
+    expect(await inMemoryPartnerEventRepo.findAfter(partner.id, 0)).toHaveLength(0);
+  });
+});
+
+describe('Polling Fallback', () => {
+  class FakeEventSource {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 2;
+    static instances: FakeEventSource[] = [];
+
+    readyState = FakeEventSource.CONNECTING;
+    onopen: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    listeners = new Map<string, (message: MessageEvent<string>) => void>();
+
+    constructor(readonly url: string) {
+      FakeEventSource.instances.push(this);
+    }
+
+    addEventListener(type: string, listener: (message: MessageEvent<string>) => void) {
+      this.listeners.set(type, listener);
+    }
+
+    close() {
+      this.readyState = FakeEventSource.CLOSED;
+    }
+
+    emit(type: string, data: Record<string, unknown>) {
+      this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data), lastEventId: '1' }));
+    }
+  }
+
+  const statsUrl = '/api/partners/partner-123/stats';
+  const statsCalls = () => fetchMock.mock.calls.filter(([url]) => url === statsUrl).length;
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ success: true, data: {} }), { status: 200 })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should refetch stats on stream events and poll only while the stream is down', async () => {
+    const { result } = renderHook(() => usePartnerStats('partner-123'));
+    await waitFor(() => expect(result.current.status).toBe('success'));
+
+    const source = FakeEventSource.instances[0]!;
+    expect(source.url).toBe('/api/partners/partner-123/events');
+
+    act(() => {
+      source.readyState = FakeEventSource.OPEN;
+      source.onopen?.();
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(60000);
+    });
+    expect(statsCalls()).toBe(1);
+
+    await act(async () => {
+      source.emit('conversion', { referralId: 'ref-1' });
+    });
+    await waitFor(() => expect(statsCalls()).toBe(2));
+
+    act(() => {
+      source.readyState = FakeEventSource.CONNECTING;
+      source.onerror?.();
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30000);
+    });
+    expect(statsCalls()).toBe(3);
+  });
+
+  it('should share one stream between the hooks of a partner', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const a = renderHook(() => usePartnerEvents('partner-123', first));
+    const b = renderHook(() => usePartnerEvents('partner-123', second));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    const source = FakeEventSource.instances[0]!;
+
+    act(() => {
+      source.readyState = FakeEventSource.OPEN;
+      source.onopen?.();
+      source.emit('payout', { payoutId: 'payout-1' });
+    });
+    expect(a.result.current.connected).toBe(true);
+    expect(b.result.current.connected).toBe(true);
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ type: 'payout' }));
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ type: 'payout' }));
+
+    a.unmount();
+    expect(source.readyState).toBe(FakeEventSource.OPEN);
+    b.unmount();
+    expect(source.readyState).toBe(FakeEventSource.CLOSED);
+
+    renderHook(() => usePartnerEvents('partner-123', first));
+    expect(FakeEventSource.instances).toHaveLength(2);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Experiment Statistics Tests
+ * Tests for significance testing, intervals and the experiments endpoint
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  analyzeExperiment,
+  criticalZ,
+  estimateRate,
+  normalCdf,
+  probabilityToBeatControl,
+  twoProportionZTest,
+  type VariantCounts,
+} from '@/lib/experiment-stats';
+import { GET as experimentsRoute, POST as createExperimentRoute } from '@/app/api/experiments/route';
+
+function variants(control: [number, number, number], variant: [number, number, number]): VariantCounts[] {
+  return [
+    { id: 'control', impressions: control[0], clicks: control[1], conversions: control[2], isControl: true },
+    { id: 'variant', impressions: variant[0], clicks: variant[1], conversions: variant[2], isControl: false },
+  ];
+}
+
+describe('Distributions', () => {
+  it('should match standard normal values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(criticalZ(95)).toBeCloseTo(1.96, 3);
+    expect(criticalZ(90)).toBeCloseTo(1.645, 3);
+  });
+});
+
+describe('Significance Tests', () => {
+  it('should run a two-proportion z-test', () => {
+    const { zScore, pValue } = twoProportionZTest(78, 520, 103, 515);
+
+    expect(zScore).toBeCloseTo(2.12, 2);
+    expect(pValue).toBeCloseTo(0.034, 3);
+    expect(twoProportionZTest(0, 0, 5, 10)).toEqual({ zScore: 0, pValue: 1 });
+  });
+
+  it('should estimate rates with Wilson intervals', () => {
+    const estimate = estimateRate(10, 100, 95);
+
+    expect(estimate.rate).toBe(10);
+    expect(estimate.lower).toBeCloseTo(5.52, 1);
+    expect(estimate.upper).toBeCloseTo(17.4, 1);
+    expect(estimateRate(0, 0, 95)).toEqual({ rate: 0, lower: 0, upper: 0 });
+  });
+
+  it('should compute the probability to beat control', () => {
+    expect(probabilityToBeatControl(10, 100, 10, 100)).toBeCloseTo(0.5, 2);
+    expect(probabilityToBeatControl(78, 520, 103, 515)).toBeCloseTo(0.983, 2);
+    // Large counts use the normal approximation
+    expect(probabilityToBeatControl(10000, 100000, 10300, 100000)).toBeCloseTo(0.985, 2);
+  });
+});
+
+describe('Experiment Analysis', () => {
+  it('should declare a winner once significant with enough samples', () => {
+    const stats = analyzeExperiment(variants([520, 78, 15], [515, 103, 24]), { minSampleSize: 200, confidenceLevel: 95 });
+    const variant = stats.variants[1];
+
+    expect(stats).toMatchObject({ hasMinSampleSize: true, samplesNeeded: 0, winnerId: 'variant' });
+    expect(stats.variants[0]?.ctrComparison).toBeNull();
+    expect(variant?.ctrComparison).toMatchObject({ significant: true });
+    expect(variant?.ctrComparison?.lift).toBeCloseTo(33.3, 1);
+    expect(variant?.ctrComparison?.differenceLower).toBeGreaterThan(0);
+    expect(variant?.conversionComparison?.significant).toBe(false);
+  });
+
+  it('should not declare a winner below the confidence level or sample size', () => {
+    const counts = variants([520, 78, 15], [515, 103, 24]);
+
+    expect(analyzeExperiment(counts, { minSampleSize: 200, confidenceLevel: 99 }).winnerId).toBeNull();
+    expect(analyzeExperiment(counts, { minSampleSize: 1000, confidenceLevel: 95 })).toMatchObject({
+      hasMinSampleSize: false,
+      samplesNeeded: 485,
+      winnerId: null,
+    });
+  });
+
+  it('should not declare a losing variant the winner', () => {
+    const stats = analyzeExperiment(variants([515, 103, 24], [520, 78, 15]), { minSampleSize: 200, confidenceLevel: 95 });
+
+    expect(stats.variants[1]?.ctrComparison?.significant).toBe(true);
+    expect(stats.winnerId).toBeNull();
+  });
+});
+
+describe('Experiments Endpoint', () => {
+  it('should return experiments with their statistics', async () => {
+    const response = await experimentsRoute(new NextRequest('http://localhost/api/experiments?partnerId=partner-demo-123'));
+    const body = await response.json();
+    const completed = body.data.find((e: { status: string }) => e.status === 'COMPLETED');
+
+    expect(response.status).toBe(200);
+    expect(completed.stats).toMatchObject({ hasMinSampleSize: true, winnerId: 'var-2b' });
+  });
+
+  it('should return statistics for created experiments', async () => {
+    const response = await createExperimentRoute(new NextRequest('http://localhost/api/experiments', {
+      method: 'POST',
+      body: JSON.stringify({
+        partnerId: 'partner-demo-123',
+        name: 'CTA Test',
+        variants: [
+          { name: 'Control', content: 'Get started', isControl: true },
+          { name: 'Variant', content: 'Try it now', isControl: false },
+        ],
+      }),
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.stats).toMatchObject({ hasMinSampleSize: false, samplesNeeded: 100, winnerId: null });
+  });
+});
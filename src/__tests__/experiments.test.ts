@@ -0,0 +1,173 @@
+/**
+ * Experiment Tests
+ * Tests for variant assignment, exposure logging and crediting clicks and conversions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  assignVariant,
+  canTransition,
+  experimentInputSchema,
+  getVariantWeights,
+  parseExperimentParam,
+  withExperimentParam,
+} from '@/lib/experiments';
+import {
+  assignShareVariants,
+  createExperiment,
+  listPartnerExperiments,
+  updateExperiment,
+} from '@/lib/experiment-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import { ATTRIBUTION_COOKIE_NAME, parseAttributionToken } from '@/lib/tracking';
+import type { ExperimentVariant, Partner } from '@/lib/db';
+import { PATCH as updateRoute } from '@/app/api/experiments/[id]/route';
+import { POST as exposuresRoute } from '@/app/api/experiments/exposures/route';
+import { GET as redirectRoute } from '@/app/r/[code]/route';
+import { createPartner } from './fixtures';
+
+const variants: ExperimentVariant[] = [
+  { id: 'var-a', name: 'Control', content: 'Join me', isControl: true },
+  { id: 'var-b', name: 'Casual', content: 'Come along', isControl: false },
+];
+
+async function createRunningExperiment(partner: Partner) {
+  const experiment = await createExperiment(partner.id, experimentInputSchema.parse({
+    name: 'Share Message',
+    variants: [
+      { name: 'Control', content: 'Join me', isControl: true },
+      { name: 'Casual', content: 'Come along', isControl: false },
+    ],
+  }));
+  await updateExperiment(experiment.id, { status: 'RUNNING' });
+  return experiment;
+}
+
+describe('Variant Assignment', () => {
+  it('should assign the same unit the same variant', () => {
+    const experiment = { id: 'exp-1', variants, targetRatio: 0.5 };
+
+    expect(assignVariant(experiment, 'share-123')).toEqual(assignVariant(experiment, 'share-123'));
+  });
+
+  it('should split traffic by targetRatio or variant weights', () => {
+    expect(getVariantWeights({ variants, targetRatio: 0.2 })).toEqual([0.8, 0.2]);
+    expect(getVariantWeights({
+      variants: variants.map((v, i) => ({ ...v, weight: i === 0 ? 1 : 3 })),
+      targetRatio: 0.5,
+    })).toEqual([0.25, 0.75]);
+
+    const experiment = { id: 'exp-2', variants, targetRatio: 0.2 };
+    const treated = Array.from({ length: 2000 }, (_, i) => assignVariant(experiment, `unit-${i}`))
+      .filter(v => v?.id === 'var-b').length;
+
+    expect(treated / 2000).toBeGreaterThan(0.16);
+    expect(treated / 2000).toBeLessThan(0.24);
+  });
+
+  it('should only allow forward status transitions', () => {
+    expect(canTransition('DRAFT', 'RUNNING')).toBe(true);
+    expect(canTransition('PAUSED', 'RUNNING')).toBe(true);
+    expect(canTransition('COMPLETED', 'RUNNING')).toBe(false);
+    expect(canTransition('DRAFT', 'COMPLETED')).toBe(false);
+  });
+
+  it('should carry the variant on share links', () => {
+    const link = withExperimentParam('https://example.com/r/CODE', { experimentId: 'exp-1', variantId: 'var-b' });
+
+    expect(link).toBe('https://example.com/r/CODE?x=exp-1.var-b');
+    expect(parseExperimentParam(new URL(link).searchParams.get('x'))).toEqual({ experimentId: 'exp-1', variantId: 'var-b' });
+    expect(parseExperimentParam('exp-1')).toBeNull();
+  });
+});
+
+describe('Experiment Results', () => {
+  it('should log impressions only for running experiments', async () => {
+    const partner = await createPartner();
+    const draft = await createExperiment(partner.id, experimentInputSchema.parse({
+      name: 'Draft',
+      variants: [
+        { name: 'Control', content: 'A', isControl: true },
+        { name: 'Variant', content: 'B', isControl: false },
+      ],
+    }));
+
+    expect(await assignShareVariants(partner.id, 'share-draft')).toEqual([]);
+
+    await updateExperiment(draft.id, { status: 'RUNNING' });
+    const response = await exposuresRoute(new NextRequest('http://localhost/api/experiments/exposures', {
+      method: 'POST',
+      body: JSON.stringify({ partnerId: partner.id, shareId: 'share-running' }),
+    }));
+    const body = await response.json();
+    const [saved] = await listPartnerExperiments(partner.id);
+
+    expect(response.status).toBe(200);
+    expect(body.data).toHaveLength(1);
+    expect(saved?.variants.find(v => v.id === body.data[0].variantId)?.impressions).toBe(1);
+  });
+
+  it('should credit clicks and conversions to the variant on the link', async () => {
+    const partner = await createPartner();
+    const experiment = await createRunningExperiment(partner);
+    const variant = experiment.variants[1]!;
+
+    const response = await redirectRoute(
+      new NextRequest(`http://localhost/r/${partner.referralCode}?x=${experiment.id}.${variant.id}`),
+      { params: Promise.resolve({ code: partner.referralCode }) }
+    );
+    const token = response.cookies.get(ATTRIBUTION_COOKIE_NAME)?.value ?? '';
+
+    expect(parseAttributionToken(token)?.experiment).toEqual({ experimentId: experiment.id, variantId: variant.id });
+
+    const customerEmail = `customer-${partner.id}@example.com`;
+    await ingestConversion({ type: 'signup', customerEmail, attributionToken: token });
+    const result = await ingestConversion({ type: 'purchase', customerEmail, orderAmountCents: 10000 });
+    const [saved] = await listPartnerExperiments(partner.id);
+
+    expect(result.referral).toMatchObject({ experimentId: experiment.id, experimentVariant: variant.id });
+    expect(saved?.variants[1]).toMatchObject({ clicks: 1, conversions: 1 });
+    expect(saved?.variants[0]).toMatchObject({ clicks: 0, conversions: 0 });
+  });
+
+  it('should ignore links to another partner\'s experiment', async () => {
+    const owner = await createPartner();
+    const other = await createPartner();
+    const experiment = await createRunningExperiment(owner);
+
+    const response = await redirectRoute(
+      new NextRequest(`http://localhost/r/${other.referralCode}?x=${experiment.id}.${experiment.variants[0]!.id}`),
+      { params: Promise.resolve({ code: other.referralCode }) }
+    );
+    const token = response.cookies.get(ATTRIBUTION_COOKIE_NAME)?.value ?? '';
+
+    expect(parseAttributionToken(token)?.experiment).toBeUndefined();
+  });
+});
+
+describe('Experiment Endpoint', () => {
+  it('should reject invalid transitions and unknown experiments', async () => {
+    const partner = await createPartner();
+    const experiment = await createRunningExperiment(partner);
+    await updateExperiment(experiment.id, { winnerId: experiment.variants[1]!.id });
+
+    const conflict = await updateRoute(
+      new NextRequest(`http://localhost/api/experiments/${experiment.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'RUNNING' }),
+      }),
+      { params: Promise.resolve({ id: experiment.id }) }
+    );
+    const missing = await updateRoute(
+      new NextRequest('http://localhost/api/experiments/exp-missing', {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'PAUSED' }),
+      }),
+      { params: Promise.resolve({ id: 'exp-missing' }) }
+    );
+
+    expect(conflict.status).toBe(409);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Test Fixtures
+ * Shared factories for records tests create in the in-memory store
+ */
+
+import { inMemoryPartnerRepo } from '@/lib/data-store';
+import type { Partner } from '@/lib/db';
+
+type NewPartner = Omit<Partner, 'id' | 'createdAt' | 'updatedAt'>;
+
+export function uniqueSuffix(): string {
+  return Math.random().toString(36).slice(2, 8).toUpperCase();
+}
+
+/**
+ * An active STANDARD partner with a unique email and referral code
+ */
+export async function createPartner(overrides: Partial<NewPartner> = {}): Promise<Partner> {
+  const suffix = uniqueSuffix();
+  return inMemoryPartnerRepo.create({
+    email: `partner-${suffix}@example.com`,
+    name: `Partner ${suffix}`,
+    referralCode: `TP${suffix}`,
+    status: 'ACTIVE',
+    tier: 'STANDARD',
+    emailDigest: false,
+    timezone: 'UTC',
+    ...overrides,
+  });
+}
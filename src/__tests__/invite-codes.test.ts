@@ -0,0 +1,172 @@
+/**
+ * Invite Code Tests
+ * Tests for code state, redemption limits, signup tracking and the admin API
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getInviteCodeState, normalizeInviteCode } from '@/lib/invite-codes';
+import {
+  createInviteCode,
+  getInviteCodeDetails,
+  listInviteCodes,
+  redeemInviteCode,
+} from '@/lib/invite-code-service';
+import { reviewApplication, submitApplication } from '@/lib/application-service';
+import { systemAuditContext } from '@/lib/audit';
+import { inMemoryInviteCodeRepo } from '@/lib/data-store';
+import type { InviteCode } from '@/lib/db';
+import { POST as createRoute } from '@/app/api/admin/invite-codes/route';
+import { DELETE as deleteRoute } from '@/app/api/admin/invite-codes/[id]/route';
+
+vi.mock('@/lib/email-service', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/email-service')>()),
+  sendWelcomeEmail: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+const admin = systemAuditContext('test-admin');
+
+function uniqueCode(): string {
+  return `T${Math.random().toString(36).slice(2, 9)}`.toUpperCase();
+}
+
+function uniqueEmail(): string {
+  return `invitee-${Math.random().toString(36).slice(2, 10)}@example.com`;
+}
+
+async function createCode(overrides: Partial<Parameters<typeof createInviteCode>[0]> = {}): Promise<InviteCode> {
+  const result = await createInviteCode({ code: uniqueCode(), defaultTier: 'STANDARD', ...overrides }, admin);
+  if (!result.inviteCode) throw new Error(result.error);
+  return result.inviteCode;
+}
+
+describe('Invite Code State', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const base = { isActive: true, expiresAt: null, maxUses: null, useCount: 0 };
+
+  it('should be active until disabled, expired or used up', () => {
+    expect(getInviteCodeState(base, now)).toBe('ACTIVE');
+    expect(getInviteCodeState({ ...base, isActive: false }, now)).toBe('DISABLED');
+    expect(getInviteCodeState({ ...base, expiresAt: new Date('2026-05-31T23:59:59Z') }, now)).toBe('EXPIRED');
+    expect(getInviteCodeState({ ...base, maxUses: 3, useCount: 3 }, now)).toBe('EXHAUSTED');
+    expect(getInviteCodeState({ ...base, maxUses: 3, useCount: 2 }, now)).toBe('ACTIVE');
+  });
+
+  it('should match codes case-insensitively', () => {
+    expect(normalizeInviteCode(' launch50 ')).toBe('LAUNCH50');
+  });
+});
+
+describe('Invite Code Redemption', () => {
+  it('should count uses on approval and stop redeeming at the use limit', async () => {
+    const inviteCode = await createCode({ maxUses: 2 });
+
+    const first = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code.toLowerCase() });
+    const second = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code });
+
+    expect(first.application.status).toBe('INSTANT_ACCESS');
+    expect(second.application.status).toBe('INSTANT_ACCESS');
+    expect((await inMemoryInviteCodeRepo.findById(inviteCode.id))?.useCount).toBe(0);
+
+    await reviewApplication(first.application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+    await reviewApplication(second.application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+    expect((await inMemoryInviteCodeRepo.findById(inviteCode.id))?.useCount).toBe(2);
+
+    const third = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code });
+    expect(third.application.status).toBe('WAITLIST');
+    expect(third.application.inviteCode).toBeNull();
+  });
+
+  it('should not count rejected applications or codes used up before approval', async () => {
+    const inviteCode = await createCode({ maxUses: 1, defaultTier: 'SILVER' });
+
+    const rejected = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code });
+    const first = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code });
+    const late = await submitApplication({ email: uniqueEmail(), inviteCode: inviteCode.code });
+
+    await reviewApplication(rejected.application.id, { action: 'reject', partnerStatus: 'ACTIVE' }, admin);
+    const approved = await reviewApplication(first.application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+    const approvedLate = await reviewApplication(late.application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+
+    expect(approved.partner?.tier).toBe('SILVER');
+    expect(approvedLate.partner?.tier).toBe('STANDARD');
+    expect((await inMemoryInviteCodeRepo.findById(inviteCode.id))?.useCount).toBe(1);
+    expect((await getInviteCodeDetails(inviteCode.id))?.inviteCode).toMatchObject({ redemptions: 3, signups: 1 });
+  });
+
+  it('should not redeem expired or disabled codes', async () => {
+    const expired = await createCode({ expiresAt: new Date(Date.now() - 1000) });
+    const disabled = await createCode();
+    await inMemoryInviteCodeRepo.update(disabled.id, { isActive: false });
+
+    expect(await redeemInviteCode(expired.code, { id: 'application-x', email: uniqueEmail() })).toBeNull();
+    expect(await redeemInviteCode(disabled.code, { id: 'application-y', email: uniqueEmail() })).toBeNull();
+  });
+
+  it('should not count a lost race against the limit', async () => {
+    const inviteCode = await createCode({ maxUses: 1 });
+
+    expect(await inMemoryInviteCodeRepo.incrementUseCount(inviteCode.id, 0)).toBe(true);
+    expect(await inMemoryInviteCodeRepo.incrementUseCount(inviteCode.id, 0)).toBe(false);
+  });
+
+  it('should grant the default tier on approval and count the signup', async () => {
+    const inviteCode = await createCode({ defaultTier: 'SILVER' });
+    const { application } = await submitApplication({ email: uniqueEmail(), name: 'Invited Partner', inviteCode: inviteCode.code });
+
+    const result = await reviewApplication(application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+
+    expect(result.partner?.tier).toBe('SILVER');
+
+    const details = await getInviteCodeDetails(inviteCode.id);
+    expect(details?.inviteCode).toMatchObject({ redemptions: 1, signups: 1, state: 'ACTIVE' });
+    expect(details?.redemptions[0]).toMatchObject({ applicationId: application.id, partnerId: result.partner?.id });
+  });
+
+  it('should list the seeded launch codes', async () => {
+    const codes = (await listInviteCodes({ limit: 100 })).map(c => c.code);
+
+    expect(codes).toEqual(expect.arrayContaining(['INNER2026', 'FOUNDER']));
+  });
+});
+
+describe('Invite Code API', () => {
+  it('should create codes and reject duplicates', async () => {
+    const code = uniqueCode();
+    const create = () => createRoute(new NextRequest('http://localhost/api/admin/invite-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code: code.toLowerCase(), maxUses: 10, defaultTier: 'GOLD' }),
+    }));
+
+    const response = await create();
+    const body = await response.json();
+    expect(response.status).toBe(201);
+    expect(body.data.inviteCode).toMatchObject({ code, maxUses: 10, defaultTier: 'GOLD', useCount: 0 });
+
+    expect((await create()).status).toBe(409);
+  });
+
+  it('should reject an unknown inviting partner', async () => {
+    const response = await createRoute(new NextRequest('http://localhost/api/admin/invite-codes', {
+      method: 'POST',
+      body: JSON.stringify({ invitedByPartnerId: 'partner-missing' }),
+    }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should only delete codes that were never redeemed', async () => {
+    const used = await createCode();
+    await submitApplication({ email: uniqueEmail(), inviteCode: used.code });
+    const unused = await createCode();
+
+    const deleteCode = (id: string) => deleteRoute(
+      new NextRequest(`http://localhost/api/admin/invite-codes/${id}`, { method: 'DELETE' }),
+      { params: Promise.resolve({ id }) }
+    );
+
+    expect((await deleteCode(used.id)).status).toBe(409);
+    expect((await deleteCode(unused.id)).status).toBe(200);
+    expect(await inMemoryInviteCodeRepo.findById(unused.id)).toBeNull();
+  });
+});
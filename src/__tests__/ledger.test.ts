@@ -0,0 +1,307 @@
+/**
+ * Ledger Tests
+ * Tests for double-entry postings, ledger balances and partner statements
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildLedgerEntries,
+  buildLedgerHistory,
+  buildPayoutPostings,
+  buildStatement,
+  isBalanced,
+  summarizeLedger,
+  totalLedgerEntries,
+} from '@/lib/ledger';
+import {
+  getLedgerSummary,
+  getPartnerStatement,
+  postBalanceAdjustment,
+  recordCommissionEarned,
+} from '@/lib/ledger-service';
+import { reverseCustomerReferral } from '@/lib/clawback-service';
+import { failPayout, getPartnerPayoutStats, requestPayout } from '@/lib/payment-service';
+import { getPartnerStats } from '@/lib/repositories';
+import {
+  buildSeedData,
+  inMemoryLedgerRepo,
+  inMemoryReferralRepo,
+  seedStore,
+} from '@/lib/data-store';
+import { hashCustomerEmail } from '@/lib/tracking';
+import type { LedgerEntry, Payout, Referral } from '@/lib/db';
+import { createPartner } from './fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Converted past the hold period and posted to the ledger
+async function createEarnedReferral(
+  partnerId: string,
+  commissionCents: number,
+  customerEmail = `customer-${Math.random().toString(36).slice(2)}@example.com`
+): Promise<Referral> {
+  const referral = await inMemoryReferralRepo.create({
+    partnerId,
+    status: 'CONVERTED',
+    customerHash: hashCustomerEmail(customerEmail),
+    orderAmountCents: commissionCents * 10,
+    commissionCents,
+    commissionRate: 0.1,
+    convertedAt: new Date(Date.now() - 45 * DAY_MS),
+    payoutId: null,
+  });
+  await recordCommissionEarned(referral);
+  return referral;
+}
+
+function toEntries(
+  postings: Parameters<typeof buildLedgerEntries>[0],
+  createdAt: Date
+): LedgerEntry[] {
+  return postings.flatMap((posting, i) =>
+    buildLedgerEntries([posting]).map((entry, j) => ({
+      ...entry,
+      id: `entry-${i}-${j}`,
+      transactionId: `txn-${i}`,
+      createdAt,
+    }))
+  );
+}
+
+describe('Ledger Postings', () => {
+  it('should post each event against its program account', () => {
+    const entries = buildLedgerEntries([
+      { type: 'COMMISSION_EARNED', partnerId: 'p1', amountCents: 5000, description: 'Earned', referralId: 'r1' },
+      { type: 'BONUS', partnerId: 'p1', amountCents: 1000, description: 'Bonus' },
+    ]);
+
+    expect(entries.map(e => [e.account, e.amountCents])).toEqual([
+      ['PARTNER_BALANCE', 5000],
+      ['COMMISSION_EXPENSE', -5000],
+      ['PARTNER_BALANCE', 1000],
+      ['BONUS_EXPENSE', -1000],
+    ]);
+    expect(entries[1]?.referralId).toBe('r1');
+    expect(isBalanced(entries)).toBe(true);
+  });
+
+  it('should drop postings with no amount', () => {
+    expect(buildLedgerEntries([
+      { type: 'FEE', partnerId: 'p1', amountCents: 0, description: 'No fee' },
+    ])).toEqual([]);
+  });
+
+  it('should debit a payout and its fee, and return both on reversal', () => {
+    const payout = { id: 'po1', partnerId: 'p1', netCents: 9875, feeCents: 125 };
+
+    const debit = summarizeLedger(totalLedgerEntries(buildLedgerEntries(buildPayoutPostings(payout))));
+    expect(debit.totals.PAYOUT_DEBIT).toBe(-9875);
+    expect(debit.totals.FEE).toBe(-125);
+    expect(debit.paidOutCents).toBe(10000);
+
+    const returned = buildLedgerEntries([
+      ...buildPayoutPostings(payout),
+      ...buildPayoutPostings(payout, { reverse: true, description: 'Bank rejected' }),
+    ]);
+    expect(summarizeLedger(totalLedgerEntries(returned)).balanceCents).toBe(0);
+    expect(returned[4]?.description).toBe('Payout returned: Bank rejected');
+  });
+
+  it('should rebuild history from referrals and live payouts', () => {
+    const now = new Date();
+    const referral = (id: string, status: Referral['status'], payoutId: string | null = null): Referral => ({
+      id,
+      partnerId: 'p1',
+      status,
+      customerHash: id,
+      orderAmountCents: 0,
+      commissionCents: 1000,
+      commissionRate: 0.1,
+      convertedAt: status === 'PENDING' ? null : now,
+      payoutId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const payout = (id: string, status: Payout['status']): Payout => ({
+      id,
+      partnerId: 'p1',
+      status,
+      amountCents: 1000,
+      feeCents: 35,
+      adjustmentCents: 0,
+      netCents: 965,
+      requestedAt: now,
+    });
+
+    const summary = summarizeLedger(totalLedgerEntries(buildLedgerEntries(buildLedgerHistory({
+      referrals: [
+        referral('r1', 'PAID', 'po1'),
+        referral('r2', 'CONVERTED'),
+        referral('r3', 'REFUNDED'),
+        referral('r4', 'PENDING'),
+      ],
+      payouts: [payout('po1', 'COMPLETED'), payout('po2', 'FAILED')],
+      adjustments: [],
+    }))));
+
+    expect(summary.totals.COMMISSION_EARNED).toBe(3000);
+    expect(summary.totals.COMMISSION_REVERSED).toBe(-1000);
+    expect(summary.paidOutCents).toBe(1000);
+    expect(summary.balanceCents).toBe(1000);
+  });
+});
+
+describe('Ledger Statements', () => {
+  const now = new Date('2026-06-30T12:00:00Z');
+
+  it('should run the balance forward and reconcile', () => {
+    const entries = toEntries([
+      { type: 'COMMISSION_EARNED', partnerId: 'p1', amountCents: 5000, description: 'Earned' },
+      { type: 'PAYOUT_DEBIT', partnerId: 'p1', amountCents: -3000, description: 'Payout' },
+    ], now);
+
+    const statement = buildStatement({
+      partnerId: 'p1',
+      since: null,
+      until: now,
+      openingBalanceCents: 1000,
+      closingBalanceCents: 3000,
+      entries,
+    });
+
+    expect(statement.lines.map(l => l.balanceCents)).toEqual([6000, 3000]);
+    expect(statement.reconciliation).toEqual({
+      differenceCents: 0,
+      unbalancedTransactionIds: [],
+      reconciled: true,
+    });
+  });
+
+  it('should flag unbalanced transactions and balance drift', () => {
+    const [earned] = toEntries([
+      { type: 'COMMISSION_EARNED', partnerId: 'p1', amountCents: 5000, description: 'Earned' },
+    ], now);
+
+    const statement = buildStatement({
+      partnerId: 'p1',
+      since: null,
+      until: now,
+      openingBalanceCents: 0,
+      closingBalanceCents: 4000,
+      entries: [earned!],
+    });
+
+    expect(statement.reconciliation.differenceCents).toBe(1000);
+    expect(statement.reconciliation.unbalancedTransactionIds).toEqual(['txn-0']);
+    expect(statement.reconciliation.reconciled).toBe(false);
+  });
+});
+
+describe('Ledger Repository', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should refuse transactions that do not sum to zero', async () => {
+    await expect(inMemoryLedgerRepo.createTransaction([{
+      partnerId: 'partner-demo-123',
+      account: 'PARTNER_BALANCE',
+      type: 'BONUS',
+      amountCents: 500,
+      referralId: null,
+      payoutId: null,
+      description: 'One-sided',
+      createdBy: null,
+    }])).rejects.toThrow('sum to zero');
+  });
+
+  it('should seed a balanced ledger matching the demo payouts', async () => {
+    const seed = buildSeedData();
+    expect(isBalanced(seed.ledgerEntries)).toBe(true);
+
+    const stats = await getPartnerStats('partner-demo-123');
+    expect(stats).toMatchObject({
+      totalEarned: 140000,
+      pendingPayout: 50000,
+      availableBalance: 30000,
+    });
+
+    const statement = await getPartnerStatement('partner-demo-123');
+    expect(statement.closingBalanceCents).toBe(80000);
+    expect(statement.reconciliation.reconciled).toBe(true);
+  });
+});
+
+describe('Ledger Service', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should debit payouts and return them once when they fail', async () => {
+    const partner = await createPartner();
+    await createEarnedReferral(partner.id, 20000);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 20000, method: 'manual' });
+    expect((await getLedgerSummary(partner.id)).balanceCents).toBe(0);
+
+    await failPayout(result.payout!.id, 'Account closed');
+    await failPayout(result.payout!.id, 'Account closed');
+
+    expect((await getLedgerSummary(partner.id)).balanceCents).toBe(20000);
+    expect((await getPartnerPayoutStats(partner.id)).balance).toBe(20000);
+
+    const statement = await getPartnerStatement(partner.id);
+    expect(statement.lines.map(l => l.type)).toEqual([
+      'COMMISSION_EARNED',
+      'PAYOUT_DEBIT',
+      'FEE',
+      'PAYOUT_DEBIT',
+      'FEE',
+    ]);
+    expect(statement.reconciliation.reconciled).toBe(true);
+  });
+
+  it('should reverse commission on a refund', async () => {
+    const partner = await createPartner();
+    const email = `refund-${Math.random().toString(36).slice(2)}@example.com`;
+    const referral = await createEarnedReferral(partner.id, 8000, email);
+
+    await reverseCustomerReferral(email, 'REFUND');
+
+    const entries = await inMemoryLedgerRepo.findByReference({ referralId: referral.id });
+    expect(entries.filter(e => e.account === 'PARTNER_BALANCE').map(e => e.amountCents)).toEqual([8000, -8000]);
+    expect((await getPartnerStats(partner.id)).availableBalance).toBe(0);
+  });
+
+  it('should credit bonuses and settle them with the next payout', async () => {
+    const partner = await createPartner();
+    await createEarnedReferral(partner.id, 10000);
+
+    const { adjustment } = await postBalanceAdjustment({
+      partnerId: partner.id,
+      type: 'BONUS',
+      amountCents: 2500,
+      description: 'Launch bonus',
+      createdBy: 'admin-1',
+    });
+
+    expect(adjustment.reason).toBe('BONUS');
+    expect((await getPartnerStats(partner.id)).availableBalance).toBe(12500);
+
+    const result = await requestPayout({ partnerId: partner.id, amountCents: 10000, method: 'manual' });
+    expect(result.payout?.adjustmentCents).toBe(2500);
+    expect((await getLedgerSummary(partner.id)).balanceCents).toBe(0);
+  });
+
+  it('should open a statement at the balance before the period', async () => {
+    const partner = await createPartner();
+    await createEarnedReferral(partner.id, 4000);
+    const since = new Date(Date.now() + 1);
+
+    const statement = await getPartnerStatement(partner.id, { since });
+
+    expect(statement.openingBalanceCents).toBe(4000);
+    expect(statement.lines).toEqual([]);
+    expect(statement.closingBalanceCents).toBe(4000);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Partner Milestone Tests
+ * Tests for milestone checks against a partner's recorded activity
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as checkMilestones } from '@/app/api/partners/[id]/milestones/route';
+import { createApiKey } from '@/lib/api-key-service';
+import { recordCommissionEarned } from '@/lib/ledger-service';
+import {
+  inMemoryClickEventRepo,
+  inMemoryMilestoneRepo,
+  inMemoryReferralRepo,
+} from '@/lib/data-store';
+import { createPartner } from './fixtures';
+
+function milestoneRequest(partnerId: string, key?: string): NextRequest {
+  return new NextRequest(`http://localhost/api/partners/${partnerId}/milestones`, {
+    method: 'POST',
+    headers: key ? { Authorization: `Bearer ${key}` } : {},
+  });
+}
+
+describe('Milestone Checks', () => {
+  it('should award milestones from the partner\'s clicks, conversions and earnings', async () => {
+    const partner = await createPartner();
+    await inMemoryClickEventRepo.create({ partnerId: partner.id, ipHash: 'ip-hash-1' });
+    const referral = await inMemoryReferralRepo.create({
+      partnerId: partner.id,
+      status: 'CONVERTED',
+      customerHash: 'hash-milestone-1',
+      orderAmountCents: 1200000,
+      commissionCents: 120000,
+      commissionRate: 0.1,
+      convertedAt: new Date(),
+      payoutId: null,
+    });
+    await recordCommissionEarned(referral);
+
+    const params = { params: Promise.resolve({ id: partner.id }) };
+    const response = await checkMilestones(milestoneRequest(partner.id), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.newMilestones.map((m: { type: string }) => m.type).sort())
+      .toEqual(['FIRST_CLICK', 'FIRST_CONVERSION', 'THOUSAND_EARNED']);
+
+    const again = await (await checkMilestones(milestoneRequest(partner.id), params)).json();
+    expect(again.data.newMilestones).toHaveLength(0);
+  });
+
+  it('should reject callers without access before recording anything', async () => {
+    const partner = await createPartner();
+    const other = await createPartner();
+    await inMemoryClickEventRepo.create({ partnerId: partner.id, ipHash: 'ip-hash-2' });
+    const otherKey = (await createApiKey(other.id, { name: 'Reporting', scopes: ['milestones:write'] })).key!;
+    const params = { params: Promise.resolve({ id: partner.id }) };
+
+    expect((await checkMilestones(milestoneRequest(partner.id, otherKey), params)).status).toBe(403);
+    expect((await checkMilestones(milestoneRequest(partner.id, 'icp_unknown'), params)).status).toBe(401);
+    expect(await inMemoryMilestoneRepo.findByPartnerId(partner.id)).toHaveLength(0);
+  });
+
+  it('should require the milestones:write scope to record milestones', async () => {
+    const partner = await createPartner();
+    await inMemoryClickEventRepo.create({ partnerId: partner.id, ipHash: 'ip-hash-3' });
+    const readKey = (await createApiKey(partner.id, { name: 'Reporting', scopes: ['stats:read'] })).key!;
+    const writeKey = (await createApiKey(partner.id, { name: 'Automation', scopes: ['milestones:write'] })).key!;
+    const params = { params: Promise.resolve({ id: partner.id }) };
+
+    expect((await checkMilestones(milestoneRequest(partner.id, readKey), params)).status).toBe(403);
+    expect(await inMemoryMilestoneRepo.findByPartnerId(partner.id)).toHaveLength(0);
+
+    expect((await checkMilestones(milestoneRequest(partner.id, writeKey), params)).status).toBe(200);
+    expect((await inMemoryMilestoneRepo.findByPartnerId(partner.id)).map(m => m.type)).toEqual(['FIRST_CLICK']);
+  });
+
+  it('should reject unknown partners', async () => {
+    const response = await checkMilestones(
+      milestoneRequest('partner-missing'),
+      { params: Promise.resolve({ id: 'partner-missing' }) }
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
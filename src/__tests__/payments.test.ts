@@ -8,6 +8,7 @@ import {
   calculatePayoutFees,
   getPaymentServiceStatus,
 } from '@/lib/payment-service';
+import { createPartner } from './fixtures';
 
 // Mock Stripe
 vi.mock('stripe', () => ({
@@ -266,3 +267,55 @@ describe('Payout Statistics', () => {
     expect(typeof stats.totalPaid).toBe('number');
   });
 });
+
+describe('Connect Account Linkage', () => {
+  it('should store the account and resume onboarding instead of creating another', async () => {
+    const { setupPartnerPayments } = await import('@/lib/payment-service');
+    const { inMemoryPartnerRepo } = await import('@/lib/data-store');
+    const { id: partnerId } = await createPartner();
+
+    const first = await setupPartnerPayments(partnerId);
+    const second = await setupPartnerPayments(partnerId);
+    const partner = await inMemoryPartnerRepo.findById(partnerId);
+
+    expect(first).toMatchObject({ success: true, resumed: false });
+    expect(second).toMatchObject({ success: true, resumed: true, accountId: first.accountId });
+    expect(partner).toMatchObject({
+      stripeAccountId: first.accountId,
+      stripeOnboardingStatus: 'PENDING',
+      stripePayoutsEnabled: false,
+    });
+  });
+
+  it('should sync onboarding state from account updates', async () => {
+    const { setupPartnerPayments, syncStripeAccount, getPartnerPaymentStatus } = await import('@/lib/payment-service');
+    const { inMemoryPartnerRepo } = await import('@/lib/data-store');
+    const { id: partnerId } = await createPartner();
+    const { accountId } = await setupPartnerPayments(partnerId);
+
+    const result = await syncStripeAccount({ accountId: accountId!, detailsSubmitted: true, payoutsEnabled: true });
+    const status = await getPartnerPaymentStatus(partnerId);
+
+    expect(result).toEqual({ success: true, partnerId });
+    expect(await inMemoryPartnerRepo.findById(partnerId)).toMatchObject({
+      stripeOnboardingStatus: 'COMPLETE',
+      stripePayoutsEnabled: true,
+    });
+    expect(status).toMatchObject({ hasStripeAccount: true, stripeAccountId: accountId, onboardingStatus: 'COMPLETE' });
+    expect(await syncStripeAccount({ accountId: 'acct_unknown', detailsSubmitted: true, payoutsEnabled: true }))
+      .toMatchObject({ success: false });
+  });
+
+  it('should unlink deauthorized accounts so partners onboard a new one', async () => {
+    const { setupPartnerPayments, disconnectStripeAccount, getPartnerPaymentStatus } = await import('@/lib/payment-service');
+    const { id: partnerId } = await createPartner();
+    const { accountId } = await setupPartnerPayments(partnerId);
+
+    await disconnectStripeAccount(accountId!);
+    const status = await getPartnerPaymentStatus(partnerId);
+    const resumed = await setupPartnerPayments(partnerId);
+
+    expect(status).toMatchObject({ hasStripeAccount: false, onboardingStatus: 'DEAUTHORIZED', payoutsEnabled: false });
+    expect(resumed.resumed).toBe(false);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Payout Run Tests
+ * Tests for batch payout runs, auto-approval and retries
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Stripe from 'stripe';
+import { isAutoApproved, mergeRetriedItems, summarizePayoutRun } from '@/lib/payout-runs';
+import { retryPayoutRun, runPayouts } from '@/lib/payout-run-service';
+import { updatePayoutSettings } from '@/lib/program-settings';
+import { recordCommissionEarned } from '@/lib/ledger-service';
+import { isRetryableStripeError } from '@/lib/stripe';
+import {
+  inMemoryPartnerRepo,
+  inMemoryPayoutRepo,
+  inMemoryPayoutRunRepo,
+  inMemoryReferralRepo,
+  seedStore,
+} from '@/lib/data-store';
+import { hashCustomerEmail } from '@/lib/tracking';
+import type { Partner, PayoutRun, PayoutRunItem } from '@/lib/db';
+
+const createTransfer = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/stripe', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/stripe')>()),
+  createTransfer,
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Partner with commission past the hold period
+async function createEarningPartner(commissionCents: number): Promise<Partner> {
+  const suffix = Math.random().toString(36).slice(2, 8).toUpperCase();
+  const partner = await inMemoryPartnerRepo.create({
+    email: `run-${suffix}@example.com`,
+    name: `Run ${suffix}`,
+    referralCode: `RN${suffix}`,
+    status: 'ACTIVE',
+    tier: 'STANDARD',
+    emailDigest: false,
+    timezone: 'UTC',
+  });
+
+  const referral = await inMemoryReferralRepo.create({
+    partnerId: partner.id,
+    status: 'CONVERTED',
+    customerHash: hashCustomerEmail(`customer-${suffix}@example.com`),
+    orderAmountCents: commissionCents * 10,
+    commissionCents,
+    commissionRate: 0.1,
+    convertedAt: new Date(Date.now() - 45 * DAY_MS),
+    payoutId: null,
+  });
+  await recordCommissionEarned(referral);
+
+  return partner;
+}
+
+function itemFor(run: PayoutRun | undefined, partnerId: string): PayoutRunItem | undefined {
+  return run?.items.find(item => item.partnerId === partnerId);
+}
+
+describe('Payout Run Helpers', () => {
+  it('should auto-approve payouts under the threshold', () => {
+    expect(isAutoApproved(49999, 50000)).toBe(true);
+    expect(isAutoApproved(50000, 50000)).toBe(false);
+    expect(isAutoApproved(100, 0)).toBe(false);
+  });
+
+  it('should summarize items by outcome', () => {
+    const item = (status: PayoutRunItem['status'], netCents: number, retryable = false): PayoutRunItem => ({
+      partnerId: `p-${Math.random()}`,
+      payoutId: null,
+      amountCents: netCents,
+      netCents,
+      status,
+      retryable,
+    });
+
+    expect(summarizePayoutRun([
+      item('TRANSFERRED', 1000),
+      item('TRANSFERRED', 2500),
+      item('AWAITING_APPROVAL', 90000),
+      item('FAILED', 500, true),
+      item('FAILED', 700),
+    ])).toEqual({
+      transferredCount: 2,
+      awaitingApprovalCount: 1,
+      failedCount: 2,
+      retryableCount: 1,
+      transferredCents: 3500,
+    });
+  });
+
+  it('should replace retried items and drop partners with nothing left to pay', () => {
+    const base = { payoutId: null, amountCents: 0, netCents: 0, retryable: true } as const;
+    const items: PayoutRunItem[] = [
+      { ...base, partnerId: 'a', status: 'FAILED' },
+      { ...base, partnerId: 'b', status: 'FAILED' },
+      { ...base, partnerId: 'c', status: 'FAILED' },
+    ];
+
+    const merged = mergeRetriedItems(items, new Map([
+      ['a', { ...base, partnerId: 'a', status: 'TRANSFERRED', retryable: false }],
+      ['b', null],
+    ]));
+
+    expect(merged.map(i => [i.partnerId, i.status])).toEqual([['a', 'TRANSFERRED'], ['c', 'FAILED']]);
+  });
+
+  it('should treat connection and rate limit errors as retryable', () => {
+    expect(isRetryableStripeError(new Stripe.errors.StripeConnectionError({ type: 'api_error', message: 'down' }))).toBe(true);
+    expect(isRetryableStripeError(new Stripe.errors.StripeRateLimitError({ type: 'rate_limit_error', message: 'slow' }))).toBe(true);
+    expect(isRetryableStripeError(new Stripe.errors.StripeInvalidRequestError({ type: 'invalid_request_error', message: 'bad' }))).toBe(false);
+    expect(isRetryableStripeError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('Payout Runs', () => {
+  beforeEach(async () => {
+    seedStore();
+    await updatePayoutSettings({ holdDays: 30, autoApproveThreshold: 50000 });
+    createTransfer.mockReset();
+    createTransfer.mockImplementation(async (_accountId: string, amountCents: number) => ({
+      success: true,
+      transferId: `tr_${Math.random().toString(36).slice(2)}`,
+      amount: amountCents,
+    }));
+  });
+
+  it('should transfer payouts under the threshold and hold larger ones for approval', async () => {
+    const small = await createEarningPartner(20000);
+    const large = await createEarningPartner(80000);
+    const tooLittle = await createEarningPartner(500);
+
+    const result = await runPayouts({ trigger: 'MANUAL', triggeredBy: 'admin-1' });
+    const run = result.run;
+
+    expect(result.success).toBe(true);
+    expect(run?.status).toBe('COMPLETED');
+    expect(run?.triggeredBy).toBe('admin-1');
+    expect(itemFor(run, tooLittle.id)).toBeUndefined();
+
+    const transferred = itemFor(run, small.id);
+    expect(transferred).toMatchObject({ status: 'TRANSFERRED', amountCents: 20000, retryable: false });
+    const payout = await inMemoryPayoutRepo.findById(transferred!.payoutId!);
+    expect(payout).toMatchObject({
+      status: 'PROCESSING',
+      payoutRunId: run?.id,
+      transactionId: transferred?.transferId,
+    });
+    expect(createTransfer).toHaveBeenCalledWith('', payout?.netCents, 'usd', expect.objectContaining({
+      payoutId: payout?.id,
+    }), { idempotencyKey: `payout_${payout?.id}_transfer` });
+
+    const referrals = await inMemoryReferralRepo.findByPartnerId(small.id);
+    expect(referrals.every(r => r.payoutId === payout?.id)).toBe(true);
+
+    const held = itemFor(run, large.id);
+    expect(held?.status).toBe('AWAITING_APPROVAL');
+    expect((await inMemoryPayoutRepo.findById(held!.payoutId!))?.status).toBe('PENDING');
+  });
+
+  it('should skip partners that already have a payout on its way', async () => {
+    const partner = await createEarningPartner(20000);
+
+    await runPayouts({ trigger: 'SCHEDULED' });
+    const second = await runPayouts({ trigger: 'SCHEDULED' });
+
+    expect(itemFor(second.run, partner.id)).toBeUndefined();
+    expect(await inMemoryPayoutRepo.countByPartnerId(partner.id)).toBe(1);
+  });
+
+  it('should refuse to start while another run is in progress', async () => {
+    const running = await inMemoryPayoutRunRepo.create({ trigger: 'SCHEDULED', triggeredBy: null });
+
+    const result = await runPayouts({ trigger: 'MANUAL' });
+    await inMemoryPayoutRunRepo.update(running.id, { status: 'COMPLETED' });
+
+    expect(result).toMatchObject({ success: false, errorCode: 'RUN_IN_PROGRESS' });
+  });
+
+  it('should keep retryable failures pending and transfer them on retry', async () => {
+    const partner = await createEarningPartner(30000);
+    createTransfer.mockResolvedValueOnce({ success: false, error: 'Stripe unavailable', retryable: true });
+
+    const { run } = await runPayouts({ trigger: 'SCHEDULED' });
+    const failed = itemFor(run, partner.id);
+
+    expect(failed).toMatchObject({ status: 'FAILED', retryable: true, error: 'Stripe unavailable' });
+    expect(run?.retryableCount).toBeGreaterThanOrEqual(1);
+    expect((await inMemoryPayoutRepo.findById(failed!.payoutId!))?.status).toBe('PENDING');
+
+    const retried = await retryPayoutRun(run!.id);
+
+    expect(itemFor(retried.run, partner.id)).toMatchObject({
+      status: 'TRANSFERRED',
+      payoutId: failed?.payoutId,
+    });
+    expect(retried.run?.status).toBe('COMPLETED');
+    expect((await inMemoryPayoutRepo.findById(failed!.payoutId!))?.status).toBe('PROCESSING');
+  });
+
+  it('should fail the payout and return the balance on a permanent transfer failure', async () => {
+    const partner = await createEarningPartner(30000);
+    createTransfer.mockResolvedValueOnce({ success: false, error: 'Account closed', retryable: false });
+
+    const { run } = await runPayouts({ trigger: 'SCHEDULED' });
+    const failed = itemFor(run, partner.id);
+
+    expect(failed).toMatchObject({ status: 'FAILED', retryable: false });
+    expect((await inMemoryPayoutRepo.findById(failed!.payoutId!))?.status).toBe('FAILED');
+
+    const referrals = await inMemoryReferralRepo.findByPartnerId(partner.id);
+    expect(referrals.every(r => r.payoutId === null)).toBe(true);
+  });
+
+  it('should report unknown runs when retrying', async () => {
+    expect(await retryPayoutRun('payout-run-missing')).toMatchObject({
+      success: false,
+      errorCode: 'NOT_FOUND',
+    });
+  });
+});
@@ -20,10 +20,12 @@ import type { PartnerStats } from '@/types';
 const mockStats: PartnerStats = {
   totalEarned: 1245000,
   pendingPayout: 234000,
+  availableBalance: 180000,
   totalReferrals: 156,
   referralsThisMonth: 47,
   clicksThisMonth: 892,
   conversionRate: 5.27,
+  commissionRate: 0.22,
   recentActivity: [
     {
       id: 'act-1',
@@ -339,12 +341,12 @@ describe('OnboardingWizard Component', () => {
     expect(screen.getByLabelText('Invite Code (optional)')).toBeInTheDocument();
   });
 
-  it('should proceed to setup after valid submission', async () => {
+  it('should proceed to setup after an approved submission', async () => {
     (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
       ok: true,
       json: async () => ({
         success: true,
-        data: { id: '1', email: 'test@example.com', status: 'INSTANT_ACCESS' },
+        data: { id: '1', email: 'test@example.com', status: 'APPROVED' },
       }),
     });
 
@@ -360,6 +362,30 @@ describe('OnboardingWizard Component', () => {
       expect(screen.getByText("What's your name?")).toBeInTheDocument();
     });
   });
+
+  it('should confirm a pending application instead of starting setup', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { id: '1', email: 'test@example.com', status: 'INSTANT_ACCESS' },
+      }),
+    });
+
+    render(<OnboardingWizard />);
+    
+    fireEvent.click(screen.getByText('Get Started →'));
+    fireEvent.click(screen.getByText('Have an invite code?'));
+    fireEvent.change(screen.getByLabelText('Email Address'), { target: { value: 'test@example.com' } });
+    fireEvent.change(screen.getByLabelText('Invite Code (optional)'), { target: { value: 'INNER2026' } });
+    fireEvent.click(screen.getByText('Apply with Invite Code'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Application received')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/next in line for review/)).toBeInTheDocument();
+    expect(screen.queryByText("What's your name?")).not.toBeInTheDocument();
+  });
 });
 
 // ============================================
@@ -450,7 +476,7 @@ describe('Phase 2 Integration', () => {
       ok: true,
       json: async () => ({
         success: true,
-        data: { id: '1', email: 'test@example.com', status: 'INSTANT_ACCESS' },
+        data: { id: '1', email: 'test@example.com', status: 'APPROVED' },
       }),
     });
 
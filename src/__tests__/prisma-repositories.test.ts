@@ -0,0 +1,351 @@
+/**
+ * Prisma Repository Tests
+ * Tests query shapes and not-found semantics against a mocked client
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const delegate = () => ({
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    upsert: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+    aggregate: vi.fn(),
+  });
+
+  const client = {
+    partner: delegate(),
+    campaign: delegate(),
+    referral: delegate(),
+    clickEvent: delegate(),
+    payout: delegate(),
+    milestone: delegate(),
+    notification: delegate(),
+    pushSubscription: delegate(),
+    partnerEvent: delegate(),
+    experiment: delegate(),
+    experimentResult: delegate(),
+    experimentAllocation: delegate(),
+    commissionRule: delegate(),
+    tierChange: delegate(),
+    programSetting: delegate(),
+    balanceAdjustment: delegate(),
+    ledgerEntry: delegate(),
+    payoutRun: delegate(),
+    webhookEndpoint: delegate(),
+    webhookDelivery: delegate(),
+    apiKey: delegate(),
+    auditLog: delegate(),
+    partnerApplication: delegate(),
+    inviteCode: delegate(),
+    inviteCodeRedemption: delegate(),
+    overrideCommission: delegate(),
+    dailyRollup: delegate(),
+    $transaction: vi.fn(),
+  };
+
+  return { mockPrisma: client };
+});
+
+vi.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+  isRecordNotFoundError: (error: unknown) =>
+    (error as { code?: string } | null)?.code === 'P2025',
+}));
+
+import {
+  prismaPartnerRepo,
+  prismaCampaignRepo,
+  prismaReferralRepo,
+  prismaClickEventRepo,
+  prismaPayoutRepo,
+  prismaNotificationRepo,
+  prismaWebhookDeliveryRepo,
+  getPrismaPartnerStats,
+  getPrismaLeaderboard,
+  seedDatabase,
+} from '@/lib/prisma-repositories';
+import { computePartnerStats, rankLeaderboard } from '@/lib/data-store';
+import { buildDefaultCommissionRules } from '@/lib/commissions';
+
+const notFound = Object.assign(new Error('Record to update not found.'), { code: 'P2025' });
+
+describe('Prisma Partner Repository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should look up partners by unique fields', async () => {
+    mockPrisma.partner.findUnique.mockResolvedValue(null);
+
+    await prismaPartnerRepo.findByReferralCode('ALEX2024');
+    expect(mockPrisma.partner.findUnique).toHaveBeenCalledWith({ where: { referralCode: 'ALEX2024' } });
+  });
+
+  it('should filter, sort and paginate findAll', async () => {
+    mockPrisma.partner.findMany.mockResolvedValue([]);
+
+    await prismaPartnerRepo.findAll({ status: 'ACTIVE', offset: 10 });
+    expect(mockPrisma.partner.findMany).toHaveBeenCalledWith({
+      where: { status: 'ACTIVE' },
+      orderBy: { createdAt: 'desc' },
+      skip: 10,
+      take: 20,
+    });
+  });
+
+  it('should return null when updating a missing partner', async () => {
+    mockPrisma.partner.update.mockRejectedValue(notFound);
+    expect(await prismaPartnerRepo.update('missing', { name: 'X' })).toBeNull();
+  });
+
+  it('should return false when deleting a missing partner', async () => {
+    mockPrisma.partner.delete.mockRejectedValue(notFound);
+    expect(await prismaPartnerRepo.delete('missing')).toBe(false);
+  });
+
+  it('should rethrow other errors', async () => {
+    mockPrisma.partner.update.mockRejectedValue(new Error('connection lost'));
+    await expect(prismaPartnerRepo.update('p1', { name: 'X' })).rejects.toThrow('connection lost');
+  });
+});
+
+describe('Prisma Campaign Repository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should increment stats atomically', async () => {
+    mockPrisma.campaign.update.mockResolvedValue({ id: 'c1' });
+
+    await prismaCampaignRepo.incrementStats('c1', { conversions: 1, revenue: 5000 });
+    expect(mockPrisma.campaign.update).toHaveBeenCalledWith({
+      where: { id: 'c1' },
+      data: {
+        clicks: { increment: 0 },
+        conversions: { increment: 1 },
+        revenue: { increment: 5000 },
+      },
+    });
+  });
+
+  it('should filter by active flag', async () => {
+    mockPrisma.campaign.count.mockResolvedValue(2);
+
+    expect(await prismaCampaignRepo.countByPartnerId('p1', { isActive: false })).toBe(2);
+    expect(mockPrisma.campaign.count).toHaveBeenCalledWith({ where: { partnerId: 'p1', isActive: false } });
+  });
+});
+
+describe('Prisma Referral, Click and Payout Repositories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the newest referral for a customer hash', async () => {
+    mockPrisma.referral.findFirst.mockResolvedValue(null);
+
+    await prismaReferralRepo.findByCustomerHash('hash');
+    expect(mockPrisma.referral.findFirst).toHaveBeenCalledWith({
+      where: { customerHash: 'hash' },
+      orderBy: { createdAt: 'desc' },
+    });
+  });
+
+  it('should find unassigned converted referrals oldest conversion first', async () => {
+    mockPrisma.referral.findMany.mockResolvedValue([]);
+
+    await prismaReferralRepo.findPayable('p1', { limit: 500 });
+    expect(mockPrisma.referral.findMany).toHaveBeenCalledWith({
+      where: { partnerId: 'p1', status: 'CONVERTED', payoutId: null },
+      orderBy: { convertedAt: 'asc' },
+      skip: 0,
+      take: 500,
+    });
+  });
+
+  it('should find a payout\'s referrals by status', async () => {
+    mockPrisma.referral.findMany.mockResolvedValue([]);
+
+    await prismaReferralRepo.findByPayoutId('payout-1', { status: 'REFUNDED' });
+    expect(mockPrisma.referral.findMany).toHaveBeenCalledWith({
+      where: { payoutId: 'payout-1', status: 'REFUNDED' },
+    });
+  });
+
+  it('should total converted and paid referrals in a date range', async () => {
+    const since = new Date('2026-01-01');
+    mockPrisma.referral.aggregate.mockResolvedValue({ _count: 3, _sum: { orderAmountCents: 45000 } });
+
+    expect(await prismaReferralRepo.getConversionTotals('p1', { since })).toEqual({
+      conversions: 3,
+      revenueCents: 45000,
+    });
+    expect(mockPrisma.referral.aggregate).toHaveBeenCalledWith({
+      where: {
+        partnerId: 'p1',
+        status: { in: ['CONVERTED', 'PAID'] },
+        convertedAt: { gte: since },
+      },
+      _count: true,
+      _sum: { orderAmountCents: true },
+    });
+  });
+
+  it('should apply click date range filters', async () => {
+    const since = new Date('2026-01-01');
+    const until = new Date('2026-02-01');
+    mockPrisma.clickEvent.count.mockResolvedValue(0);
+
+    await prismaClickEventRepo.countByPartnerId('p1', { since, until });
+    expect(mockPrisma.clickEvent.count).toHaveBeenCalledWith({
+      where: { partnerId: 'p1', createdAt: { gte: since, lt: until } },
+    });
+  });
+
+  it('should sort payouts by request date', async () => {
+    mockPrisma.payout.findMany.mockResolvedValue([]);
+
+    await prismaPayoutRepo.findByPartnerId('p1', { limit: 5 });
+    expect(mockPrisma.payout.findMany).toHaveBeenCalledWith({
+      where: { partnerId: 'p1' },
+      orderBy: { requestedAt: 'desc' },
+      skip: 0,
+      take: 5,
+    });
+  });
+});
+
+describe('Prisma Notification Repository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should mark all unread notifications as read', async () => {
+    mockPrisma.notification.updateMany.mockResolvedValue({ count: 3 });
+
+    expect(await prismaNotificationRepo.markAllAsRead('p1')).toBe(3);
+    expect(mockPrisma.notification.updateMany).toHaveBeenCalledWith({
+      where: { partnerId: 'p1', read: false },
+      data: { read: true, readAt: expect.any(Date) },
+    });
+  });
+
+  it('should return null when marking a missing notification', async () => {
+    mockPrisma.notification.update.mockRejectedValue(notFound);
+    expect(await prismaNotificationRepo.markAsRead('missing')).toBeNull();
+  });
+});
+
+describe('Prisma Webhook Delivery Repository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only claim deliveries that are still due', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const until = new Date('2026-03-01T12:01:00Z');
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await prismaWebhookDeliveryRepo.claim('delivery-1', now, until)).toBe(false);
+    expect(mockPrisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: 'delivery-1', status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: until },
+    });
+  });
+});
+
+describe('Shared Stats Helpers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should compute stats from campaigns and referrals', () => {
+    const now = new Date('2026-03-15');
+    const stats = computePartnerStats(
+      { id: 'p1', tier: 'GOLD' },
+      [{ clicks: 100, conversions: 5 }],
+      [
+        { status: 'PAID', commissionCents: 1000, convertedAt: new Date('2026-03-02') },
+        { status: 'CONVERTED', commissionCents: 500, convertedAt: new Date('2026-02-20') },
+      ],
+      buildDefaultCommissionRules(),
+      now
+    );
+
+    expect(stats.totalEarned).toBe(1000);
+    expect(stats.pendingPayout).toBe(500);
+    expect(stats.referralsThisMonth).toBe(1);
+    expect(stats.conversionRate).toBe(5);
+    expect(stats.commissionRate).toBe(0.22);
+  });
+
+  it('should rank leaderboard entries by earnings', () => {
+    const ranked = rankLeaderboard([
+      { partnerId: 'a', partnerName: 'A', tier: 'GOLD', totalEarned: 100, referralsThisMonth: 0 },
+      { partnerId: 'b', partnerName: 'B', tier: 'GOLD', totalEarned: 300, referralsThisMonth: 0 },
+    ], 1);
+
+    expect(ranked).toEqual([expect.objectContaining({ partnerId: 'b', rank: 1 })]);
+  });
+
+  it('should compute partner stats from the database', async () => {
+    mockPrisma.partner.findUnique.mockResolvedValue({ id: 'p1', tier: 'SILVER' });
+    mockPrisma.commissionRule.findMany.mockResolvedValue(buildDefaultCommissionRules());
+    mockPrisma.campaign.findMany.mockResolvedValue([{ clicks: 10, conversions: 1 }]);
+    mockPrisma.referral.findMany.mockResolvedValue([
+      { status: 'CONVERTED', commissionCents: 2500, convertedAt: null },
+    ]);
+    mockPrisma.overrideCommission.findMany.mockResolvedValue([
+      { id: 'o1', status: 'EARNED', amountCents: 500, createdAt: new Date(), payoutId: null },
+    ]);
+
+    const stats = await getPrismaPartnerStats('p1');
+    expect(stats.pendingPayout).toBe(3000);
+    expect(mockPrisma.overrideCommission.findMany).toHaveBeenCalledWith({ where: { recruiterId: 'p1' } });
+    expect(stats.conversionRate).toBe(10);
+    expect(stats.commissionRate).toBe(0.18);
+  });
+
+  it('should only rank active partners', async () => {
+    mockPrisma.partner.findMany.mockResolvedValue([{ id: 'p1', name: 'One', tier: 'GOLD' }]);
+    mockPrisma.campaign.findMany.mockResolvedValue([]);
+    mockPrisma.referral.findMany.mockResolvedValue([]);
+    mockPrisma.commissionRule.findMany.mockResolvedValue([]);
+    mockPrisma.overrideCommission.findMany.mockResolvedValue([]);
+
+    const leaderboard = await getPrismaLeaderboard();
+    expect(mockPrisma.partner.findMany).toHaveBeenCalledWith({ where: { status: 'ACTIVE' } });
+    expect(leaderboard[0]?.rank).toBe(1);
+  });
+});
+
+describe('Database Seeding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should skip seeding when demo data exists', async () => {
+    mockPrisma.partner.findUnique.mockResolvedValue({ id: 'partner-demo-123' });
+
+    expect(await seedDatabase()).toBe(false);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should insert demo data in a transaction', async () => {
+    mockPrisma.partner.findUnique.mockResolvedValue(null);
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+
+    expect(await seedDatabase()).toBe(true);
+    expect(mockPrisma.partner.create).toHaveBeenCalled();
+    expect(mockPrisma.referral.create).toHaveBeenCalled();
+    expect(mockPrisma.tierChange.create).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Web Push Tests
+ * Tests for payload encryption, VAPID signing and push delivery by preference
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createDecipheriv, createECDH, createPublicKey, verify } from 'crypto';
+import {
+  acceptsPush,
+  createVapidToken,
+  derivePushKeys,
+  encryptPushPayload,
+  generateVapidKeys,
+  isPushServiceEndpoint,
+  pushSubscriptionSchema,
+  vapidAuthorization,
+  type VapidKeys,
+} from '@/lib/web-push';
+import { mergeNotificationPreferences } from '@/lib/notifications';
+import {
+  removePushSubscription,
+  savePushSubscription,
+  sendPendingPushNotifications,
+  sendPushNotification,
+} from '@/lib/push-service';
+import { notifyPartner, updateNotificationPreferences } from '@/lib/notification-service';
+import { inMemoryNotificationRepo, inMemoryPushSubscriptionRepo } from '@/lib/data-store';
+import type { Notification, Partner } from '@/lib/db';
+import { createPartner } from './fixtures';
+
+const fetchMock = vi.mocked(globalThis.fetch);
+
+// A browser's subscription keys, kept so tests can decrypt what was sent
+function createBrowserKeys() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    ecdh,
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: Buffer.from('0123456789abcdef').toString('base64url'),
+  };
+}
+
+function decryptPushBody(body: Buffer, browser: ReturnType<typeof createBrowserKeys>): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const senderKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const { contentKey, nonce } = derivePushKeys(
+    browser.ecdh.computeSecret(senderKey),
+    Buffer.from(browser.auth, 'base64url'),
+    browser.ecdh.getPublicKey(),
+    senderKey,
+    salt
+  );
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+
+  expect(padded[padded.length - 1]).toBe(0x02);
+  return padded.subarray(0, -1).toString('utf8');
+}
+
+function createVapidKeys(): VapidKeys {
+  return { ...generateVapidKeys(), subject: 'mailto:partners@example.com' };
+}
+
+function notification(partnerId: string, type: Notification['type']): Notification {
+  return {
+    id: `notif-${type.toLowerCase()}`,
+    partnerId,
+    type,
+    title: 'New Conversion!',
+    message: 'You earned $25.00 from a new referral',
+    link: '/dashboard',
+    read: false,
+    createdAt: new Date(),
+  };
+}
+
+describe('Payload Encryption', () => {
+  it('should encrypt a payload only the subscribed browser can read', () => {
+    const browser = createBrowserKeys();
+    const body = encryptPushPayload('{"title":"Payout Sent"}', browser);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body.readUInt8(20)).toBe(65);
+    expect(decryptPushBody(body, browser)).toBe('{"title":"Payout Sent"}');
+
+    const other = createBrowserKeys();
+    expect(() => decryptPushBody(body, { ...other, auth: browser.auth })).toThrow();
+  });
+
+  it('should match the RFC 8291 example message', () => {
+    const senderKeys = createECDH('prime256v1');
+    senderKeys.setPrivateKey(Buffer.from('yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw', 'base64url'));
+
+    const body = encryptPushPayload(
+      'When I grow up, I want to be a watermelon',
+      {
+        p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      },
+      { salt: Buffer.from('DGv6ra1nlYgDCS1FRnbzlw', 'base64url'), senderKeys }
+    );
+
+    expect(body.toString('base64url')).toBe(
+      'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN'
+    );
+  });
+
+  it('should reject payloads larger than one record', () => {
+    expect(() => encryptPushPayload('x'.repeat(4000), createBrowserKeys())).toThrow(/exceeds/);
+  });
+});
+
+describe('VAPID', () => {
+  it('should sign a token the application server key verifies', () => {
+    const keys = createVapidKeys();
+    const now = new Date('2026-03-01T12:00:00Z');
+    const token = createVapidToken('https://push.example.com', keys, now);
+    const [header = '', claims = '', signature = ''] = token.split('.');
+
+    const publicKey = Buffer.from(keys.publicKey, 'base64url');
+    const verified = verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      {
+        key: createPublicKey({
+          key: {
+            kty: 'EC',
+            crv: 'P-256',
+            x: publicKey.subarray(1, 33).toString('base64url'),
+            y: publicKey.subarray(33).toString('base64url'),
+          },
+          format: 'jwk',
+        }),
+        dsaEncoding: 'ieee-p1363',
+      },
+      Buffer.from(signature, 'base64url')
+    );
+
+    expect(verified).toBe(true);
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ typ: 'JWT', alg: 'ES256' });
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual({
+      aud: 'https://push.example.com',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:partners@example.com',
+    });
+  });
+
+  it('should scope the authorization header to the endpoint origin', () => {
+    const keys = createVapidKeys();
+    const header = vapidAuthorization('https://fcm.googleapis.com/fcm/send/abc123', keys);
+    const token = header.match(/^vapid t=([^,]+), k=(.+)$/);
+
+    expect(token?.[2]).toBe(keys.publicKey);
+    const claims = JSON.parse(Buffer.from(token?.[1]?.split('.')[1] ?? '', 'base64url').toString());
+    expect(claims.aud).toBe('https://fcm.googleapis.com');
+  });
+});
+
+describe('Push Preferences', () => {
+  it('should push only conversion, payout and milestone notifications the partner allows', () => {
+    expect(acceptsPush(null, 'CONVERSION')).toBe(true);
+    expect(acceptsPush(null, 'SYSTEM')).toBe(false);
+
+    const prefs = mergeNotificationPreferences(null, { types: { PAYOUT: false } });
+    expect(acceptsPush(prefs, 'PAYOUT')).toBe(false);
+    expect(acceptsPush(prefs, 'MILESTONE')).toBe(true);
+    expect(acceptsPush({ ...prefs, push: false }, 'MILESTONE')).toBe(false);
+  });
+
+  it('should keep types an update does not name', () => {
+    const saved = mergeNotificationPreferences(null, { types: { PAYOUT: false } });
+    const updated = mergeNotificationPreferences(saved, { email: false, types: { CONVERSION: false } });
+
+    expect(updated).toEqual({
+      email: false,
+      push: true,
+      inApp: true,
+      types: { PAYOUT: false, CONVERSION: false },
+    });
+  });
+});
+
+describe('Push Subscriptions', () => {
+  it('should only accept endpoints on known push services', () => {
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+    expect(isPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+    expect(isPushServiceEndpoint('https://web.push.apple.com/abc')).toBe(true);
+    expect(isPushServiceEndpoint('https://wns2-par02p.notify.windows.com/w/?token=abc')).toBe(true);
+
+    expect(isPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com:8443/fcm/send/abc')).toBe(false);
+    expect(isPushServiceEndpoint('https://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isPushServiceEndpoint('https://internal.example.com/admin')).toBe(false);
+    expect(isPushServiceEndpoint('https://notify.windows.com.evil.test/abc')).toBe(false);
+    expect(isPushServiceEndpoint('not a url')).toBe(false);
+  });
+});
+
+describe('Push Delivery', () => {
+  const keys = createVapidKeys();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', keys.publicKey);
+    vi.stubEnv('VAPID_PRIVATE_KEY', keys.privateKey);
+    vi.stubEnv('VAPID_SUBJECT', keys.subject);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function subscribe(partner: Partner, endpoint: string) {
+    const browser = createBrowserKeys();
+    const input = pushSubscriptionSchema.parse({ endpoint, keys: { p256dh: browser.p256dh, auth: browser.auth } });
+    await savePushSubscription(partner.id, input, 'Vitest');
+    return browser;
+  }
+
+  it('should send encrypted notifications and prune subscriptions the push service reports gone', async () => {
+    const partner = await createPartner();
+    const browser = await subscribe(partner, `https://fcm.googleapis.com/fcm/send/${partner.id}/live`);
+    await subscribe(partner, `https://fcm.googleapis.com/fcm/send/${partner.id}/gone`);
+    fetchMock.mockImplementation(async url =>
+      new Response(null, { status: String(url).endsWith('/gone') ? 410 : 201 })
+    );
+
+    const summary = await sendPushNotification(notification(partner.id, 'CONVERSION'));
+
+    expect(summary).toEqual({ sent: 1, pruned: 1, failed: 0 });
+    const remaining = await inMemoryPushSubscriptionRepo.findByPartnerId(partner.id);
+    expect(remaining.map(s => s.endpoint)).toEqual([`https://fcm.googleapis.com/fcm/send/${partner.id}/live`]);
+    expect(remaining[0]?.lastUsedAt).toBeInstanceOf(Date);
+
+    const call = fetchMock.mock.calls.find(([url]) => String(url).endsWith('/live'));
+    const init = call?.[1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers['Content-Encoding']).toBe('aes128gcm');
+    expect(headers.Authorization).toMatch(/^vapid t=/);
+    expect(JSON.parse(decryptPushBody(Buffer.from(init.body as Uint8Array), browser))).toMatchObject({
+      type: 'CONVERSION',
+      title: 'New Conversion!',
+      url: '/dashboard',
+    });
+  });
+
+  it('should follow the partner notification preferences', async () => {
+    const partner = await createPartner();
+    await subscribe(partner, `https://fcm.googleapis.com/fcm/send/${partner.id}`);
+    await updateNotificationPreferences(partner.id, { types: { CONVERSION: false } });
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+
+    expect(await sendPushNotification(notification(partner.id, 'CONVERSION'))).toEqual({ sent: 0, pruned: 0, failed: 0 });
+    expect(await sendPushNotification(notification(partner.id, 'SYSTEM'))).toEqual({ sent: 0, pruned: 0, failed: 0 });
+    expect(await sendPushNotification(notification(partner.id, 'PAYOUT'))).toEqual({ sent: 1, pruned: 0, failed: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should queue notifications and push them from the delivery job once', async () => {
+    const partner = await createPartner();
+    await subscribe(partner, `https://fcm.googleapis.com/fcm/send/${partner.id}`);
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+
+    const created = await notifyPartner({
+      partnerId: partner.id,
+      type: 'PAYOUT',
+      title: 'Payout Sent',
+      message: 'Your payout of $249.75 is on its way',
+      link: '/dashboard',
+    });
+    const system = await notifyPartner({ partnerId: partner.id, type: 'SYSTEM', title: 'Welcome', message: 'Hello' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(created.pushPending).toBe(true);
+    expect(system.pushPending).toBe(false);
+
+    const [first, second] = await Promise.all([sendPendingPushNotifications(), sendPendingPushNotifications()]);
+    expect(first.sent + second.sent).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await inMemoryNotificationRepo.findById(created.id)).toMatchObject({ pushPending: false });
+  });
+
+  it('should store notifications even when the push service is down', async () => {
+    const partner = await createPartner();
+    await subscribe(partner, `https://fcm.googleapis.com/fcm/send/${partner.id}`);
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const created = await notifyPartner({
+      partnerId: partner.id,
+      type: 'MILESTONE',
+      title: 'Tier Upgrade!',
+      message: "You've been upgraded to Silver tier",
+      link: '/dashboard',
+    });
+    const summary = await sendPendingPushNotifications();
+
+    expect(summary).toMatchObject({ failed: 1, sent: 0 });
+    expect(await inMemoryNotificationRepo.findById(created.id)).toMatchObject({ read: false, type: 'MILESTONE' });
+    expect(await inMemoryPushSubscriptionRepo.findByPartnerId(partner.id)).toHaveLength(1);
+  });
+
+  it('should only let a partner remove their own subscriptions', async () => {
+    const partner = await createPartner();
+    const other = await createPartner();
+    const endpoint = `https://fcm.googleapis.com/fcm/send/${partner.id}/own`;
+    await subscribe(partner, endpoint);
+
+    expect(await removePushSubscription(other.id, endpoint)).toBe(false);
+    expect(await removePushSubscription(partner.id, endpoint)).toBe(true);
+    expect(await inMemoryPushSubscriptionRepo.findByEndpoint(endpoint)).toBeNull();
+  });
+
+  it('should not move another partner\'s subscription', async () => {
+    const partner = await createPartner();
+    const other = await createPartner();
+    const endpoint = `https://fcm.googleapis.com/fcm/send/${partner.id}/taken`;
+    const browser = await subscribe(partner, endpoint);
+
+    const result = await savePushSubscription(
+      other.id,
+      { endpoint, keys: { p256dh: browser.p256dh, auth: browser.auth } },
+      'Vitest'
+    );
+
+    expect(result).toMatchObject({ success: false, errorCode: 'ENDPOINT_TAKEN' });
+    expect(await inMemoryPushSubscriptionRepo.findByEndpoint(endpoint)).toMatchObject({ partnerId: partner.id });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Reconciliation Tests
+ * Tests for payout reconciliation against Stripe and idempotency keys
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { reconcilePayouts } from '@/lib/reconciliation';
+import { runPayoutReconciliation, type ReconciliationStripeClient } from '@/lib/reconciliation-service';
+import { getPayoutIdempotencyKey } from '@/lib/stripe';
+import type { StripePayoutRecord, StripeTransferRecord } from '@/lib/stripe';
+import { inMemoryPartnerRepo, inMemoryPayoutRepo, seedStore } from '@/lib/data-store';
+import type { Payout } from '@/lib/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function payout(overrides: Partial<Payout> = {}): Payout {
+  return {
+    id: 'po-1',
+    partnerId: 'partner-1',
+    amountCents: 10000,
+    feeCents: 125,
+    adjustmentCents: 0,
+    netCents: 9875,
+    status: 'PROCESSING',
+    transactionId: 'tr_1',
+    requestedAt: new Date(NOW.getTime() - DAY_MS),
+    processedAt: new Date(NOW.getTime() - DAY_MS),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+function transfer(overrides: Partial<StripeTransferRecord> = {}): StripeTransferRecord {
+  return {
+    id: 'tr_1',
+    amountCents: 9875,
+    destination: 'acct_1',
+    payoutId: 'po-1',
+    reversed: false,
+    createdAt: new Date(NOW.getTime() - DAY_MS),
+    ...overrides,
+  };
+}
+
+function stripePayout(overrides: Partial<StripePayoutRecord> = {}): StripePayoutRecord {
+  return {
+    id: 'po_stripe_1',
+    accountId: 'acct_1',
+    amountCents: 9875,
+    payoutId: 'po-1',
+    status: 'in_transit',
+    failureMessage: null,
+    createdAt: new Date(NOW.getTime() - DAY_MS),
+    ...overrides,
+  };
+}
+
+describe('Payout Idempotency Keys', () => {
+  it('should give each payout step its own stable key', () => {
+    expect(getPayoutIdempotencyKey('po-1', 'transfer')).toBe('payout_po-1_transfer');
+    expect(getPayoutIdempotencyKey('po-1', 'payout')).toBe('payout_po-1_payout');
+    expect(getPayoutIdempotencyKey('po-1', 'transfer')).toBe(getPayoutIdempotencyKey('po-1', 'transfer'));
+  });
+});
+
+describe('Payout Reconciliation Rules', () => {
+  it('should report nothing when Stripe matches', () => {
+    expect(reconcilePayouts({
+      payouts: [payout()],
+      transfers: [transfer()],
+      stripePayouts: [stripePayout()],
+      now: NOW,
+    })).toEqual([]);
+  });
+
+  it('should complete processing payouts whose bank payout was paid', () => {
+    const issues = reconcilePayouts({
+      payouts: [payout()],
+      transfers: [transfer()],
+      stripePayouts: [stripePayout({ status: 'paid' })],
+      now: NOW,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      type: 'STUCK_PROCESSING',
+      fix: { action: 'COMPLETE', stripePayoutId: 'po_stripe_1' },
+    });
+  });
+
+  it('should fail processing payouts whose bank payout failed or transfer was reversed', () => {
+    const failed = reconcilePayouts({
+      payouts: [payout()],
+      transfers: [transfer()],
+      stripePayouts: [stripePayout({ status: 'failed', failureMessage: 'Account closed' })],
+      now: NOW,
+    });
+    const reversed = reconcilePayouts({
+      payouts: [payout()],
+      transfers: [transfer({ reversed: true })],
+      stripePayouts: [],
+      now: NOW,
+    });
+
+    expect(failed[0]?.fix).toEqual({ action: 'FAIL', reason: 'Account closed' });
+    expect(reversed[0]?.fix).toEqual({ action: 'FAIL', reason: 'Transfer was reversed' });
+  });
+
+  it('should report payouts processing too long without a fix', () => {
+    const old = new Date(NOW.getTime() - 10 * DAY_MS);
+
+    const issues = reconcilePayouts({
+      payouts: [payout({ requestedAt: old, processedAt: old })],
+      transfers: [],
+      stripePayouts: [],
+      now: NOW,
+    });
+
+    expect(issues).toEqual([expect.objectContaining({
+      type: 'STUCK_PROCESSING',
+      detail: 'Processing with no matching Stripe transfer',
+      fix: null,
+    })]);
+  });
+
+  it('should record transfers missing from the payout and report amount drift', () => {
+    const issues = reconcilePayouts({
+      payouts: [payout({ status: 'PENDING', transactionId: null, processedAt: null })],
+      transfers: [transfer({ amountCents: 9000 })],
+      stripePayouts: [],
+      now: NOW,
+    });
+
+    expect(issues.map(issue => issue.type)).toEqual(['MISSING_TRANSACTION_ID', 'AMOUNT_DRIFT']);
+    expect(issues[0]?.fix).toEqual({ action: 'SET_TRANSACTION_ID', transactionId: 'tr_1' });
+    expect(issues[1]).toMatchObject({ expectedCents: 9875, actualCents: 9000, fix: null });
+  });
+
+  it('should skip failed and cancelled payouts', () => {
+    expect(reconcilePayouts({
+      payouts: [payout({ status: 'FAILED' }), payout({ id: 'po-2', status: 'CANCELLED' })],
+      transfers: [transfer({ amountCents: 1 })],
+      stripePayouts: [stripePayout({ status: 'paid' })],
+      now: NOW,
+    })).toEqual([]);
+  });
+});
+
+describe('Payout Reconciliation Service', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should apply fixes only when asked', async () => {
+    const partner = await inMemoryPartnerRepo.create({
+      email: 'reconcile@example.com',
+      name: 'Reconcile Partner',
+      referralCode: 'RECON1',
+      status: 'ACTIVE',
+      tier: 'STANDARD',
+      emailDigest: false,
+      timezone: 'UTC',
+      stripeAccountId: 'acct_reconcile',
+    });
+    const created = await inMemoryPayoutRepo.create({
+      partnerId: partner.id,
+      amountCents: 10000,
+      feeCents: 125,
+      adjustmentCents: 0,
+      netCents: 9875,
+      status: 'PROCESSING',
+      transactionId: 'tr_reconcile',
+      processedAt: new Date(),
+      completedAt: null,
+    });
+
+    const client: ReconciliationStripeClient = {
+      listTransfers: async () => [transfer({ id: 'tr_reconcile', payoutId: created.id })],
+      listPayouts: async accountId => accountId === 'acct_reconcile'
+        ? [stripePayout({ accountId, payoutId: created.id, status: 'paid' })]
+        : [],
+    };
+    const range = { since: new Date(Date.now() - DAY_MS), until: new Date(Date.now() + DAY_MS) };
+
+    const report = await runPayoutReconciliation({ ...range, client });
+    expect(report.issues.filter(issue => issue.payoutId === created.id)).toEqual([
+      expect.objectContaining({ type: 'STUCK_PROCESSING', fixed: false }),
+    ]);
+    expect((await inMemoryPayoutRepo.findById(created.id))?.status).toBe('PROCESSING');
+
+    const fixed = await runPayoutReconciliation({ ...range, client, autoFix: true });
+    expect(fixed.fixedCount).toBe(1);
+    expect((await inMemoryPayoutRepo.findById(created.id))?.status).toBe('COMPLETED');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Recruitment Tests
+ * Tests for recruiter capture, override commissions and their reversal
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { calculateOverride, getOverrideEndsAt } from '@/lib/commissions';
+import { getApplicationByEmail, reviewApplication, submitApplication } from '@/lib/application-service';
+import { createInviteCode } from '@/lib/invite-code-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import { buildRecruitmentLink, getRecruitsOverview } from '@/lib/recruitment-service';
+import { markPayoutEarningsPaid, requestPayout } from '@/lib/payment-service';
+import { getPayoutSettings, updatePayoutSettings } from '@/lib/program-settings';
+import { getPartnerStats } from '@/lib/repositories';
+import { systemAuditContext } from '@/lib/audit';
+import {
+  inMemoryBalanceAdjustmentRepo,
+  inMemoryLedgerRepo,
+  inMemoryOverrideCommissionRepo,
+} from '@/lib/data-store';
+import type { Partner } from '@/lib/db';
+import { GET as recruitsRoute } from '@/app/api/partners/[id]/recruits/route';
+import { POST as interestRoute } from '@/app/api/partners/interest/route';
+import ApplyPage from '@/app/apply/page';
+import { createPartner, uniqueSuffix } from './fixtures';
+
+vi.mock('@/lib/email-service', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/email-service')>()),
+  sendWelcomeEmail: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+const admin = systemAuditContext('test-admin');
+
+function uniqueEmail(): string {
+  return `recruit-${Math.random().toString(36).slice(2, 10)}@example.com`;
+}
+
+async function approve(input: Parameters<typeof submitApplication>[0]): Promise<Partner> {
+  const { application } = await submitApplication(input);
+  const result = await reviewApplication(application.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+  if (!result.partner) throw new Error(result.error);
+  return result.partner;
+}
+
+describe('Override Calculation', () => {
+  const settings = { overrideRate: 0.05, overrideMonths: 12 };
+  const recruit = { recruitedById: 'partner-recruiter', recruitedAt: new Date('2026-01-31T00:00:00Z') };
+
+  it('should pay the override rate within the window', () => {
+    expect(calculateOverride(settings, recruit, 2000, new Date('2026-06-01T00:00:00Z'))).toEqual({
+      amountCents: 100,
+      rate: 0.05,
+    });
+  });
+
+  it('should stop paying when the window ends', () => {
+    const endsAt = getOverrideEndsAt(recruit.recruitedAt, 12);
+
+    expect(endsAt.toISOString()).toBe('2027-01-31T00:00:00.000Z');
+    expect(calculateOverride(settings, recruit, 2000, endsAt)).toBeNull();
+  });
+
+  it('should not pay without a recruiter or commission', () => {
+    const now = new Date('2026-02-01T00:00:00Z');
+
+    expect(calculateOverride(settings, { recruitedById: null, recruitedAt: null }, 2000, now)).toBeNull();
+    expect(calculateOverride(settings, recruit, 0, now)).toBeNull();
+    expect(calculateOverride({ ...settings, overrideRate: 0 }, recruit, 2000, now)).toBeNull();
+  });
+});
+
+describe('Recruiter Capture', () => {
+  it('should record the recruiter from a recruitment link', async () => {
+    const recruiter = await createPartner();
+
+    const recruit = await approve({ email: uniqueEmail(), name: 'Linked Recruit', recruiterCode: recruiter.referralCode.toLowerCase() });
+
+    expect(recruit.recruitedById).toBe(recruiter.id);
+    expect(recruit.recruitedAt).toBeInstanceOf(Date);
+  });
+
+  it('should attribute partners who apply through a recruitment link', async () => {
+    const recruiter = await createPartner();
+    const email = uniqueEmail();
+    const link = new URL(buildRecruitmentLink(recruiter.referralCode));
+    vi.mocked(globalThis.fetch).mockImplementationOnce(async (url, init) =>
+      interestRoute(new NextRequest(new URL(String(url), link), init as ConstructorParameters<typeof NextRequest>[1]))
+    );
+
+    expect(link.pathname).toBe('/apply');
+    render(await ApplyPage({ searchParams: Promise.resolve(Object.fromEntries(link.searchParams)) }));
+    fireEvent.click(screen.getByText('Get Started →'));
+    fireEvent.change(screen.getByLabelText('Email Address'), { target: { value: email } });
+    fireEvent.click(screen.getByText('Join Waitlist'));
+
+    await waitFor(async () => {
+      expect((await getApplicationByEmail(email))?.recruitedById).toBe(recruiter.id);
+    });
+
+    const application = await getApplicationByEmail(email);
+    const result = await reviewApplication(application!.id, { action: 'approve', partnerStatus: 'ACTIVE' }, admin);
+    expect(result.partner?.recruitedById).toBe(recruiter.id);
+  });
+
+  it('should fall back to the partner who issued the invite code', async () => {
+    const recruiter = await createPartner();
+    const { inviteCode } = await createInviteCode(
+      { code: `R${uniqueSuffix()}`, defaultTier: 'STANDARD', invitedByPartnerId: recruiter.id },
+      admin
+    );
+
+    const recruit = await approve({ email: uniqueEmail(), name: 'Invited Recruit', inviteCode: inviteCode!.code });
+
+    expect(recruit.recruitedById).toBe(recruiter.id);
+  });
+
+  it('should ignore links from inactive partners', async () => {
+    const recruiter = await createPartner({ status: 'SUSPENDED' });
+
+    const recruit = await approve({ email: uniqueEmail(), name: 'Orphan Recruit', recruiterCode: recruiter.referralCode });
+
+    expect(recruit.recruitedById).toBeNull();
+    expect(recruit.recruitedAt).toBeNull();
+  });
+});
+
+describe('Override Commissions', () => {
+  async function createRecruit(recruiter: Partner): Promise<Partner> {
+    return createPartner({ recruitedById: recruiter.id, recruitedAt: new Date() });
+  }
+
+  it('should credit the recruiter when a recruit converts a referral', async () => {
+    const recruiter = await createPartner();
+    const recruit = await createRecruit(recruiter);
+
+    const result = await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 50000,
+      referralCode: recruit.referralCode,
+    });
+
+    const override = await inMemoryOverrideCommissionRepo.findByReferralId(result.referral!.id);
+    expect(override).toMatchObject({
+      recruiterId: recruiter.id,
+      recruitId: recruit.id,
+      baseCommissionCents: result.referral!.commissionCents,
+      amountCents: Math.round(result.referral!.commissionCents * 0.05),
+      status: 'EARNED',
+    });
+
+    const entries = await inMemoryLedgerRepo.findByPartnerId(recruiter.id, { account: 'PARTNER_BALANCE' });
+    expect(entries.map(e => e.type)).toEqual(['OVERRIDE_EARNED']);
+    expect(await inMemoryLedgerRepo.getBalance(recruiter.id)).toBe(override!.amountCents);
+
+    expect(await inMemoryBalanceAdjustmentRepo.findByPartnerId(recruiter.id, { outstanding: true })).toHaveLength(0);
+    expect(await getPartnerStats(recruiter.id)).toMatchObject({
+      pendingPayout: override!.amountCents,
+      availableBalance: 0,
+    });
+  });
+
+  it('should let a recruiter withdraw overrides alone once past the hold period', async () => {
+    const recruiter = await createPartner();
+    const recruit = await createRecruit(recruiter);
+    const email = uniqueEmail();
+    const { referral } = await ingestConversion({
+      type: 'purchase',
+      customerEmail: email,
+      orderAmountCents: 2000000,
+      referralCode: recruit.referralCode,
+    });
+    const override = await inMemoryOverrideCommissionRepo.findByReferralId(referral!.id);
+    const request = { partnerId: recruiter.id, amountCents: override!.amountCents, method: 'manual' as const };
+
+    expect((await requestPayout(request)).errorCode).toBe('INSUFFICIENT_BALANCE');
+
+    const { holdDays } = await getPayoutSettings();
+    try {
+      await updatePayoutSettings({ holdDays: 0 });
+
+      const result = await requestPayout(request);
+      expect(result.success).toBe(true);
+      expect(result.payout?.amountCents).toBe(override!.amountCents);
+      expect(await inMemoryOverrideCommissionRepo.findByReferralId(referral!.id))
+        .toMatchObject({ status: 'EARNED', payoutId: result.payout?.id });
+
+      await markPayoutEarningsPaid(result.payout!.id);
+      expect(await inMemoryOverrideCommissionRepo.findByReferralId(referral!.id)).toMatchObject({ status: 'PAID' });
+    } finally {
+      await updatePayoutSettings({ holdDays });
+    }
+
+    await ingestConversion({ type: 'refund', customerEmail: email });
+
+    const [clawback] = await inMemoryBalanceAdjustmentRepo.findByPartnerId(recruiter.id, { outstanding: true });
+    expect(clawback).toMatchObject({ reason: 'OVERRIDE', amountCents: -override!.amountCents, referralId: referral!.id });
+  });
+
+  it('should reverse the override when the recruit\'s referral is refunded', async () => {
+    const recruiter = await createPartner();
+    const recruit = await createRecruit(recruiter);
+    const email = uniqueEmail();
+    const { referral } = await ingestConversion({
+      type: 'purchase',
+      customerEmail: email,
+      orderAmountCents: 30000,
+      referralCode: recruit.referralCode,
+    });
+
+    await ingestConversion({ type: 'refund', customerEmail: email });
+
+    expect(await inMemoryOverrideCommissionRepo.findByReferralId(referral!.id)).toMatchObject({ status: 'REVERSED' });
+    expect(await inMemoryLedgerRepo.getBalance(recruiter.id)).toBe(0);
+
+    expect(await inMemoryBalanceAdjustmentRepo.findByPartnerId(recruiter.id, { outstanding: true })).toHaveLength(0);
+    expect((await getPartnerStats(recruiter.id)).pendingPayout).toBe(0);
+  });
+
+  it('should not credit partners without a recruiter', async () => {
+    const partner = await createPartner();
+
+    const { referral } = await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 20000,
+      referralCode: partner.referralCode,
+    });
+
+    expect(await inMemoryOverrideCommissionRepo.findByReferralId(referral!.id)).toBeNull();
+  });
+});
+
+describe('My Recruits', () => {
+  it('should total the override earned from each recruit', async () => {
+    const recruiter = await createPartner();
+    const recruit = await createPartner({ recruitedById: recruiter.id, recruitedAt: new Date() });
+    await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 40000,
+      referralCode: recruit.referralCode,
+    });
+
+    const overview = await getRecruitsOverview(recruiter);
+
+    expect(overview.recruitmentLink).toBe(buildRecruitmentLink(recruiter.referralCode));
+    expect(overview.totals).toMatchObject({ recruits: 1, activeOverrides: 1 });
+    expect(overview.recruits[0]).toMatchObject({ id: recruit.id, overrideCount: 1, overrideActive: true });
+    expect(overview.totals.earnedCents).toBe(overview.recruits[0]?.overrideEarnedCents);
+    expect(overview.totals.earnedCents).toBeGreaterThan(0);
+  });
+
+  it('should serve the overview from the recruits endpoint', async () => {
+    const recruiter = await createPartner();
+    await createPartner({ recruitedById: recruiter.id, recruitedAt: new Date() });
+
+    const response = await recruitsRoute(
+      new NextRequest(`http://localhost/api/partners/${recruiter.id}/recruits`),
+      { params: Promise.resolve({ id: recruiter.id }) }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.totals.recruits).toBe(1);
+    expect((await recruitsRoute(
+      new NextRequest('http://localhost/api/partners/partner-missing/recruits'),
+      { params: Promise.resolve({ id: 'partner-missing' }) }
+    )).status).toBe(404);
+  });
+});
@@ -1,9 +1,15 @@
 /**
  * Repository Tests
- * Tests for the data access layer (in-memory implementation)
+ * Tests for the data access layer, run against the in-memory store and,
+ * when DATABASE_URL points at a database, the Prisma repositories
+ *
+ * The Prisma run empties every table and reloads the demo data before each
+ * test, so point it at a scratch database. CI does not set DATABASE_URL, so
+ * only the in-memory run happens there:
+ *   DATABASE_URL=mysql://... npx vitest run src/__tests__/repositories.test.ts
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
 import {
   inMemoryPartnerRepo,
   inMemoryCampaignRepo,
@@ -12,222 +18,303 @@ import {
   seedStore,
   getPartnerStats,
   getLeaderboard,
+  type CampaignRepository,
+  type LeaderboardEntry,
+  type NotificationRepository,
+  type PartnerRepository,
+  type PartnerStatsSummary,
+  type PayoutRepository,
 } from '@/lib/data-store';
+import {
+  prismaPartnerRepo,
+  prismaCampaignRepo,
+  prismaPayoutRepo,
+  prismaNotificationRepo,
+  getPrismaPartnerStats,
+  getPrismaLeaderboard,
+  seedDatabase,
+} from '@/lib/prisma-repositories';
+import { isPrismaAvailable, prisma } from '@/lib/db';
+
+interface RepositoryBackend {
+  name: string;
+  partnerRepo: PartnerRepository;
+  campaignRepo: CampaignRepository;
+  payoutRepo: PayoutRepository;
+  notificationRepo: NotificationRepository;
+  getPartnerStats: (partnerId: string) => Promise<PartnerStatsSummary>;
+  getLeaderboard: (limit: number) => Promise<LeaderboardEntry[]>;
+  setup: () => Promise<void>;
+}
 
-describe('Partner Repository', () => {
-  beforeEach(() => {
-    seedStore();
-  });
-
-  it('should find partner by ID', async () => {
-    const partner = await inMemoryPartnerRepo.findById('partner-demo-123');
-    expect(partner).not.toBeNull();
-    expect(partner?.name).toBe('Alex Morgan');
-    expect(partner?.tier).toBe('GOLD');
-  });
-
-  it('should find partner by email', async () => {
-    const partner = await inMemoryPartnerRepo.findByEmail('demo@innercircle.co');
-    expect(partner).not.toBeNull();
-    expect(partner?.name).toBe('Alex Morgan');
-  });
-
-  it('should find partner by referral code', async () => {
-    const partner = await inMemoryPartnerRepo.findByReferralCode('ALEX2024');
-    expect(partner).not.toBeNull();
-    expect(partner?.name).toBe('Alex Morgan');
-  });
-
-  it('should return null for non-existent partner', async () => {
-    const partner = await inMemoryPartnerRepo.findById('non-existent');
-    expect(partner).toBeNull();
-  });
-
-  it('should list all partners with pagination', async () => {
-    const partners = await inMemoryPartnerRepo.findAll({ limit: 2 });
-    expect(partners).toHaveLength(2);
-  });
+/**
+ * Empty every table, children first, and reload the demo data
+ */
+async function resetDatabase(): Promise<void> {
+  const tables = [
+    prisma.webhookDelivery,
+    prisma.webhookEndpoint,
+    prisma.inviteCodeRedemption,
+    prisma.inviteCode,
+    prisma.partnerApplication,
+    prisma.auditLog,
+    prisma.apiKey,
+    prisma.ledgerEntry,
+    prisma.dailyRollup,
+    prisma.overrideCommission,
+    prisma.balanceAdjustment,
+    prisma.programSetting,
+    prisma.tierChange,
+    prisma.commissionRule,
+    prisma.experimentAllocation,
+    prisma.experimentResult,
+    prisma.experiment,
+    prisma.partnerEvent,
+    prisma.pushSubscription,
+    prisma.notification,
+    prisma.milestone,
+    prisma.clickEvent,
+    prisma.referral,
+    prisma.payout,
+    prisma.payoutRun,
+    prisma.campaign,
+  ];
+  for (const table of tables) await table.deleteMany({ where: {} });
+  // Recruits reference their recruiter, so unlink them before deleting partners
+  await prisma.partner.updateMany({ where: {}, data: { recruitedById: null } });
+  await prisma.partner.deleteMany({ where: {} });
+  await seedDatabase();
+}
+
+const backends: RepositoryBackend[] = [
+  {
+    name: 'In-memory',
+    partnerRepo: inMemoryPartnerRepo,
+    campaignRepo: inMemoryCampaignRepo,
+    payoutRepo: inMemoryPayoutRepo,
+    notificationRepo: inMemoryNotificationRepo,
+    getPartnerStats: partnerId => getPartnerStats(partnerId),
+    getLeaderboard,
+    setup: async () => seedStore(),
+  },
+  ...(isPrismaAvailable
+    ? [{
+        name: 'Prisma',
+        partnerRepo: prismaPartnerRepo,
+        campaignRepo: prismaCampaignRepo,
+        payoutRepo: prismaPayoutRepo,
+        notificationRepo: prismaNotificationRepo,
+        getPartnerStats: (partnerId: string) => getPrismaPartnerStats(partnerId),
+        getLeaderboard: getPrismaLeaderboard,
+        setup: resetDatabase,
+      }]
+    : []),
+];
+
+describe.each(backends)('$name', backend => {
+  beforeEach(async () => {
+    await backend.setup();
+  }, 30000);
+
+  describe('Partner Repository', () => {
+    it('should find partner by ID', async () => {
+      const partner = await backend.partnerRepo.findById('partner-demo-123');
+      expect(partner).not.toBeNull();
+      expect(partner?.name).toBe('Alex Morgan');
+      expect(partner?.tier).toBe('GOLD');
+    });
 
-  it('should filter partners by status', async () => {
-    const activePartners = await inMemoryPartnerRepo.findAll({ status: 'ACTIVE' });
-    expect(activePartners.every(p => p.status === 'ACTIVE')).toBe(true);
-  });
+    it('should find partner by email', async () => {
+      const partner = await backend.partnerRepo.findByEmail('demo@innercircle.co');
+      expect(partner).not.toBeNull();
+      expect(partner?.name).toBe('Alex Morgan');
+    });
 
-  it('should filter partners by tier', async () => {
-    const goldPartners = await inMemoryPartnerRepo.findAll({ tier: 'GOLD' });
-    expect(goldPartners.every(p => p.tier === 'GOLD')).toBe(true);
-  });
+    it('should find partner by referral code', async () => {
+      const partner = await backend.partnerRepo.findByReferralCode('ALEX2024');
+      expect(partner).not.toBeNull();
+      expect(partner?.name).toBe('Alex Morgan');
+    });
 
-  it('should count partners', async () => {
-    const count = await inMemoryPartnerRepo.count();
-    expect(count).toBeGreaterThan(0);
-  });
+    it('should return null for non-existent partner', async () => {
+      const partner = await backend.partnerRepo.findById('non-existent');
+      expect(partner).toBeNull();
+    });
 
-  it('should create a new partner', async () => {
-    const newPartner = await inMemoryPartnerRepo.create({
-      email: 'new@example.com',
-      name: 'New Partner',
-      referralCode: 'NEW2024',
-      status: 'PENDING',
-      tier: 'STANDARD',
-      phone: null,
-      company: null,
-      website: null,
-      bio: null,
-      avatarUrl: null,
-      emailDigest: true,
-      timezone: 'UTC',
-    });
-
-    expect(newPartner.id).toBeDefined();
-    expect(newPartner.email).toBe('new@example.com');
-    expect(newPartner.createdAt).toBeInstanceOf(Date);
-  });
+    it('should list all partners with pagination', async () => {
+      const partners = await backend.partnerRepo.findAll({ limit: 2 });
+      expect(partners).toHaveLength(2);
+    });
 
-  it('should update a partner', async () => {
-    const updated = await inMemoryPartnerRepo.update('partner-demo-123', {
-      tier: 'PLATINUM',
+    it('should filter partners by status', async () => {
+      const activePartners = await backend.partnerRepo.findAll({ status: 'ACTIVE' });
+      expect(activePartners.every(p => p.status === 'ACTIVE')).toBe(true);
     });
 
-    expect(updated).not.toBeNull();
-    expect(updated?.tier).toBe('PLATINUM');
-  });
-});
+    it('should filter partners by tier', async () => {
+      const goldPartners = await backend.partnerRepo.findAll({ tier: 'GOLD' });
+      expect(goldPartners.every(p => p.tier === 'GOLD')).toBe(true);
+    });
 
-describe('Campaign Repository', () => {
-  beforeEach(() => {
-    seedStore();
-  });
+    it('should count partners', async () => {
+      const count = await backend.partnerRepo.count();
+      expect(count).toBeGreaterThan(0);
+    });
 
-  it('should find campaign by ID', async () => {
-    const campaign = await inMemoryCampaignRepo.findById('campaign-001');
-    expect(campaign).not.toBeNull();
-    expect(campaign?.name).toBe('LinkedIn Q1 Push');
-  });
+    it('should create a new partner', async () => {
+      const newPartner = await backend.partnerRepo.create({
+        email: 'new@example.com',
+        name: 'New Partner',
+        referralCode: 'NEW2024',
+        status: 'PENDING',
+        tier: 'STANDARD',
+        phone: null,
+        company: null,
+        website: null,
+        bio: null,
+        avatarUrl: null,
+        emailDigest: true,
+        timezone: 'UTC',
+      });
+
+      expect(newPartner.id).toBeDefined();
+      expect(newPartner.email).toBe('new@example.com');
+      expect(newPartner.createdAt).toBeInstanceOf(Date);
+    });
 
-  it('should find campaigns by partner ID', async () => {
-    const campaigns = await inMemoryCampaignRepo.findByPartnerId('partner-demo-123');
-    expect(campaigns.length).toBeGreaterThan(0);
-    expect(campaigns.every(c => c.partnerId === 'partner-demo-123')).toBe(true);
-  });
+    it('should update a partner', async () => {
+      const updated = await backend.partnerRepo.update('partner-demo-123', {
+        tier: 'PLATINUM',
+      });
 
-  it('should create a new campaign', async () => {
-    const newCampaign = await inMemoryCampaignRepo.create({
-      partnerId: 'partner-demo-123',
-      name: 'Test Campaign',
-      source: 'EMAIL',
-      slug: 'test-campaign',
-      isActive: true,
+      expect(updated).not.toBeNull();
+      expect(updated?.tier).toBe('PLATINUM');
     });
-
-    expect(newCampaign.id).toBeDefined();
-    expect(newCampaign.clicks).toBe(0);
-    expect(newCampaign.conversions).toBe(0);
   });
 
-  it('should increment campaign stats', async () => {
-    const before = await inMemoryCampaignRepo.findById('campaign-001');
-    const initialClicks = before?.clicks ?? 0;
+  describe('Campaign Repository', () => {
+    it('should find campaign by ID', async () => {
+      const campaign = await backend.campaignRepo.findById('campaign-001');
+      expect(campaign).not.toBeNull();
+      expect(campaign?.name).toBe('LinkedIn Q1 Push');
+    });
 
-    await inMemoryCampaignRepo.incrementStats('campaign-001', { clicks: 10 });
+    it('should find campaigns by partner ID', async () => {
+      const campaigns = await backend.campaignRepo.findByPartnerId('partner-demo-123');
+      expect(campaigns.length).toBeGreaterThan(0);
+      expect(campaigns.every(c => c.partnerId === 'partner-demo-123')).toBe(true);
+    });
 
-    const after = await inMemoryCampaignRepo.findById('campaign-001');
-    expect(after?.clicks).toBe(initialClicks + 10);
-  });
-});
+    it('should create a new campaign', async () => {
+      const newCampaign = await backend.campaignRepo.create({
+        partnerId: 'partner-demo-123',
+        name: 'Test Campaign',
+        source: 'EMAIL',
+        slug: 'test-campaign',
+        isActive: true,
+      });
+
+      expect(newCampaign.id).toBeDefined();
+      expect(newCampaign.clicks).toBe(0);
+      expect(newCampaign.conversions).toBe(0);
+    });
 
-describe('Payout Repository', () => {
-  beforeEach(() => {
-    seedStore();
-  });
+    it('should increment campaign stats', async () => {
+      const before = await backend.campaignRepo.findById('campaign-001');
+      const initialClicks = before?.clicks ?? 0;
 
-  it('should find payout by ID', async () => {
-    const payout = await inMemoryPayoutRepo.findById('payout-001');
-    expect(payout).not.toBeNull();
-    expect(payout?.status).toBe('COMPLETED');
-  });
+      await backend.campaignRepo.incrementStats('campaign-001', { clicks: 10 });
 
-  it('should find payouts by partner ID', async () => {
-    const payouts = await inMemoryPayoutRepo.findByPartnerId('partner-demo-123');
-    expect(payouts.length).toBeGreaterThan(0);
+      const after = await backend.campaignRepo.findById('campaign-001');
+      expect(after?.clicks).toBe(initialClicks + 10);
+    });
   });
 
-  it('should filter payouts by status', async () => {
-    const pendingPayouts = await inMemoryPayoutRepo.findByPartnerId('partner-demo-123', {
-      status: 'PENDING',
+  describe('Payout Repository', () => {
+    it('should find payout by ID', async () => {
+      const payout = await backend.payoutRepo.findById('payout-001');
+      expect(payout).not.toBeNull();
+      expect(payout?.status).toBe('COMPLETED');
     });
-    expect(pendingPayouts.every(p => p.status === 'PENDING')).toBe(true);
-  });
-});
 
-describe('Notification Repository', () => {
-  beforeEach(() => {
-    seedStore();
-  });
+    it('should find payouts by partner ID', async () => {
+      const payouts = await backend.payoutRepo.findByPartnerId('partner-demo-123');
+      expect(payouts.length).toBeGreaterThan(0);
+    });
 
-  it('should find notifications by partner ID', async () => {
-    const notifications = await inMemoryNotificationRepo.findByPartnerId('partner-demo-123');
-    expect(notifications.length).toBeGreaterThan(0);
+    it('should filter payouts by status', async () => {
+      const pendingPayouts = await backend.payoutRepo.findByPartnerId('partner-demo-123', {
+        status: 'PENDING',
+      });
+      expect(pendingPayouts.every(p => p.status === 'PENDING')).toBe(true);
+    });
   });
 
-  it('should count unread notifications', async () => {
-    const count = await inMemoryNotificationRepo.countUnread('partner-demo-123');
-    expect(count).toBeGreaterThan(0);
-  });
+  describe('Notification Repository', () => {
+    it('should find notifications by partner ID', async () => {
+      const notifications = await backend.notificationRepo.findByPartnerId('partner-demo-123');
+      expect(notifications.length).toBeGreaterThan(0);
+    });
 
-  it('should mark notification as read', async () => {
-    const before = await inMemoryNotificationRepo.findById('notif-001');
-    expect(before?.read).toBe(false);
+    it('should count unread notifications', async () => {
+      const count = await backend.notificationRepo.countUnread('partner-demo-123');
+      expect(count).toBeGreaterThan(0);
+    });
 
-    await inMemoryNotificationRepo.markAsRead('notif-001');
+    it('should mark notification as read', async () => {
+      const before = await backend.notificationRepo.findById('notif-001');
+      expect(before?.read).toBe(false);
 
-    const after = await inMemoryNotificationRepo.findById('notif-001');
-    expect(after?.read).toBe(true);
-  });
+      await backend.notificationRepo.markAsRead('notif-001');
 
-  it('should mark all notifications as read', async () => {
-    const count = await inMemoryNotificationRepo.markAllAsRead('partner-demo-123');
-    expect(count).toBeGreaterThan(0);
+      const after = await backend.notificationRepo.findById('notif-001');
+      expect(after?.read).toBe(true);
+    });
 
-    const unread = await inMemoryNotificationRepo.countUnread('partner-demo-123');
-    expect(unread).toBe(0);
-  });
-});
+    it('should mark all notifications as read', async () => {
+      const count = await backend.notificationRepo.markAllAsRead('partner-demo-123');
+      expect(count).toBeGreaterThan(0);
 
-describe('Stats Functions', () => {
-  beforeEach(() => {
-    seedStore();
+      const unread = await backend.notificationRepo.countUnread('partner-demo-123');
+      expect(unread).toBe(0);
+    });
   });
 
-  it('should get partner stats', async () => {
-    const stats = await getPartnerStats('partner-demo-123');
+  describe('Stats Functions', () => {
+    it('should get partner stats', async () => {
+      const stats = await backend.getPartnerStats('partner-demo-123');
     
-    expect(stats).toHaveProperty('totalEarned');
-    expect(stats).toHaveProperty('pendingPayout');
-    expect(stats).toHaveProperty('totalReferrals');
-    expect(stats).toHaveProperty('conversionRate');
-    expect(typeof stats.conversionRate).toBe('number');
-  });
+      expect(stats).toHaveProperty('totalEarned');
+      expect(stats).toHaveProperty('pendingPayout');
+      expect(stats).toHaveProperty('totalReferrals');
+      expect(stats).toHaveProperty('conversionRate');
+      expect(typeof stats.conversionRate).toBe('number');
+    });
 
-  it('should get leaderboard', async () => {
-    const leaderboard = await getLeaderboard(5);
+    it('should get leaderboard', async () => {
+      const leaderboard = await backend.getLeaderboard(5);
     
-    expect(leaderboard.length).toBeLessThanOrEqual(5);
-    expect(leaderboard[0]).toHaveProperty('rank');
-    expect(leaderboard[0]).toHaveProperty('partnerName');
-    expect(leaderboard[0]).toHaveProperty('totalEarned');
-    expect(leaderboard[0]?.rank).toBe(1);
-  });
+      expect(leaderboard.length).toBeLessThanOrEqual(5);
+      expect(leaderboard[0]).toHaveProperty('rank');
+      expect(leaderboard[0]).toHaveProperty('partnerName');
+      expect(leaderboard[0]).toHaveProperty('totalEarned');
+      expect(leaderboard[0]?.rank).toBe(1);
+    });
 
-  it('should sort leaderboard by earnings', async () => {
-    const leaderboard = await getLeaderboard(10);
+    it('should sort leaderboard by earnings', async () => {
+      const leaderboard = await backend.getLeaderboard(10);
     
-    for (let i = 1; i < leaderboard.length; i++) {
-      const current = leaderboard[i];
-      const previous = leaderboard[i - 1];
-      if (current && previous) {
-        expect(previous.totalEarned).toBeGreaterThanOrEqual(current.totalEarned);
+      for (let i = 1; i < leaderboard.length; i++) {
+        const current = leaderboard[i];
+        const previous = leaderboard[i - 1];
+        if (current && previous) {
+          expect(previous.totalEarned).toBeGreaterThanOrEqual(current.totalEarned);
+        }
       }
-    }
+    });
   });
 });
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
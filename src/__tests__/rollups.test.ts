@@ -0,0 +1,187 @@
+/**
+ * Rollup Tests
+ * Tests for daily rollups, their ingestion, rebuilds and the leaderboard
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  buildDailyRollups,
+  dailyRollupKey,
+  getLeaderboardSinceDay,
+  sumRollups,
+} from '@/lib/rollups';
+import {
+  getRollupLeaderboard,
+  rebuildRollups,
+} from '@/lib/rollup-service';
+import { ingestConversion } from '@/lib/conversion-service';
+import { recordReferralClick } from '@/lib/tracking';
+import { getDayKey } from '@/lib/analytics';
+import {
+  inMemoryCampaignRepo,
+  inMemoryDailyRollupRepo,
+} from '@/lib/data-store';
+import { POST as rebuildRoute } from '@/app/api/admin/rollups/route';
+import { GET as leaderboardRoute } from '@/app/api/leaderboard/route';
+import { createPartner } from './fixtures';
+
+const campaigns = [{ id: 'campaign-sms', source: 'SMS' as const }];
+
+function uniqueEmail(): string {
+  return `customer-${Math.random().toString(36).slice(2)}@example.com`;
+}
+
+describe('Daily Rollups', () => {
+  it('should key rollups by day, partner, campaign and source', () => {
+    expect(dailyRollupKey({ day: '2026-06-01', partnerId: 'p1', campaignId: null, source: 'DIRECT' }))
+      .toBe('2026-06-01:p1:-:DIRECT');
+  });
+
+  it('should count unique clicks per visitor, day and link', () => {
+    const rollups = buildDailyRollups('p1', 'UTC', {
+      clicks: [
+        { campaignId: 'campaign-sms', ipHash: 'a', createdAt: new Date('2026-06-01T09:00:00Z') },
+        { campaignId: 'campaign-sms', ipHash: 'a', createdAt: new Date('2026-06-01T10:00:00Z') },
+        { campaignId: 'campaign-sms', ipHash: 'a', createdAt: new Date('2026-06-02T10:00:00Z') },
+        { campaignId: null, ipHash: 'a', createdAt: new Date('2026-06-02T11:00:00Z') },
+      ],
+      referrals: [],
+      campaigns,
+    });
+
+    expect(rollups.map(r => [r.day, r.source, r.clicks, r.uniqueClicks])).toEqual([
+      ['2026-06-01', 'SMS', 2, 1],
+      ['2026-06-02', 'SMS', 1, 1],
+      ['2026-06-02', 'DIRECT', 1, 1],
+    ]);
+  });
+
+  it('should count signups when created and conversions when converted', () => {
+    const rollups = buildDailyRollups('p1', 'America/New_York', {
+      clicks: [],
+      referrals: [
+        {
+          campaignId: 'campaign-sms',
+          status: 'CONVERTED',
+          orderAmountCents: 50000,
+          commissionCents: 10000,
+          createdAt: new Date('2026-06-01T12:00:00Z'),
+          convertedAt: new Date('2026-06-04T02:00:00Z'),
+        },
+        {
+          campaignId: null,
+          status: 'REFUNDED',
+          orderAmountCents: 20000,
+          commissionCents: 4000,
+          createdAt: new Date('2026-06-02T12:00:00Z'),
+          convertedAt: new Date('2026-06-02T12:00:00Z'),
+        },
+      ],
+      campaigns,
+    }, '2026-06-02');
+
+    expect(rollups).toEqual([
+      expect.objectContaining({ day: '2026-06-02', source: 'DIRECT', signups: 1, conversions: 0 }),
+      expect.objectContaining({ day: '2026-06-03', source: 'SMS', signups: 0, conversions: 1, revenueCents: 50000, commissionCents: 10000 }),
+    ]);
+  });
+
+  it('should start leaderboard periods on calendar months and quarters', () => {
+    expect(getLeaderboardSinceDay('monthly', '2026-08-19')).toBe('2026-08-01');
+    expect(getLeaderboardSinceDay('quarterly', '2026-08-19')).toBe('2026-07-01');
+    expect(getLeaderboardSinceDay('quarterly', '2026-12-31')).toBe('2026-10-01');
+    expect(getLeaderboardSinceDay('alltime', '2026-08-19')).toBeUndefined();
+  });
+});
+
+describe('Rollup Ingestion', () => {
+  it('should roll up clicks, conversions and refunds as they are ingested', async () => {
+    const partner = await createPartner({ timezone: 'Asia/Tokyo' });
+    const campaign = await inMemoryCampaignRepo.create({
+      partnerId: partner.id,
+      name: 'Texts',
+      source: 'SMS',
+      slug: `texts-${partner.id}`,
+      isActive: true,
+    });
+    const customerEmail = uniqueEmail();
+
+    await recordReferralClick(partner, campaign, { ip: '198.51.100.7' });
+    await recordReferralClick(partner, campaign, { ip: '198.51.100.7' });
+    await ingestConversion({ type: 'signup', customerEmail, referralCode: partner.referralCode });
+    await ingestConversion({ type: 'purchase', customerEmail, orderAmountCents: 30000, referralCode: partner.referralCode });
+
+    const rollups = await inMemoryDailyRollupRepo.findByPartnerId(partner.id);
+    const sms = rollups.find(r => r.source === 'SMS');
+    const direct = rollups.find(r => r.source === 'DIRECT');
+    expect(sms).toMatchObject({ day: getDayKey(new Date(), 'Asia/Tokyo'), clicks: 2, uniqueClicks: 1 });
+    expect(direct).toMatchObject({ signups: 1, conversions: 1, revenueCents: 30000 });
+
+    await ingestConversion({ type: 'refund', customerEmail });
+
+    const totals = sumRollups(await inMemoryDailyRollupRepo.findByPartnerId(partner.id));
+    expect(totals).toMatchObject({ clicks: 2, signups: 1, conversions: 0, revenueCents: 0, commissionCents: 0 });
+  });
+
+  it('should rebuild the same rollups from raw events', async () => {
+    const partner = await createPartner({ timezone: 'Europe/Berlin' });
+    await recordReferralClick(partner, null, { ip: '198.51.100.8' });
+    await ingestConversion({
+      type: 'purchase',
+      customerEmail: uniqueEmail(),
+      orderAmountCents: 12000,
+      referralCode: partner.referralCode,
+    });
+    const incremental = await inMemoryDailyRollupRepo.findByPartnerId(partner.id);
+
+    const summary = await rebuildRollups({ partnerId: partner.id });
+    const rebuilt = await inMemoryDailyRollupRepo.findByPartnerId(partner.id);
+
+    expect(summary).toEqual({ partners: 1, rollups: 1, failed: 0 });
+    expect(rebuilt.map(({ id: _id, updatedAt: _updatedAt, ...r }) => r))
+      .toEqual(incremental.map(({ id: _id, updatedAt: _updatedAt, ...r }) => r));
+  });
+});
+
+describe('Rollup Leaderboard', () => {
+  it('should rank partners by commission earned in the period', async () => {
+    const partner = await createPartner();
+    await inMemoryDailyRollupRepo.increment(
+      { day: '2020-01-15', partnerId: partner.id, campaignId: null, source: 'DIRECT' },
+      { signups: 1, conversions: 1, revenueCents: 900000000, commissionCents: 90000000 }
+    );
+
+    const allTime = await getRollupLeaderboard('alltime', 5);
+    const monthly = await getRollupLeaderboard('monthly', 100);
+
+    expect(allTime[0]).toMatchObject({ rank: 1, partnerId: partner.id, referrals: 1, earnings: 90000000 });
+    expect(monthly.find(e => e.partnerId === partner.id)?.earnings).toBe(0);
+  });
+
+  it('should validate the leaderboard period', async () => {
+    const response = await leaderboardRoute(new NextRequest('http://localhost/api/leaderboard?period=weekly'));
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Rollup Rebuild Endpoint', () => {
+  const rebuild = (body: unknown) => rebuildRoute(new NextRequest('http://localhost/api/admin/rollups', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+
+  it('should rebuild a partner from a date', async () => {
+    const partner = await createPartner();
+    const response = await rebuild({ partnerId: partner.id, since: new Date().toISOString() });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ partners: 1, failed: 0 });
+  });
+
+  it('should reject unknown partners and invalid dates', async () => {
+    expect((await rebuild({ partnerId: 'partner-missing' })).status).toBe(404);
+    expect((await rebuild({ since: 'not-a-date' })).status).toBe(400);
+  });
+});
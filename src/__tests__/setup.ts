@@ -1,4 +1,5 @@
 import '@testing-library/jest-dom';
+import { randomUUID } from 'node:crypto';
 import { vi, beforeEach } from 'vitest';
 
 // Mock window.matchMedia
@@ -31,7 +32,7 @@ Object.defineProperty(navigator, 'clipboard', {
   },
 });
 
-// Mock crypto.getRandomValues
+// Mock crypto.getRandomValues; randomUUID is kept for Prisma transactions
 Object.defineProperty(globalThis, 'crypto', {
   value: {
     getRandomValues: (arr: Uint32Array) => {
@@ -40,6 +41,7 @@ Object.defineProperty(globalThis, 'crypto', {
       }
       return arr;
     },
+    randomUUID,
   },
 });
 
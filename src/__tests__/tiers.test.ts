@@ -0,0 +1,212 @@
+/**
+ * Partner Tier Tests
+ * Tests for tier qualification, demotion grace periods and the evaluation job
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_TIER_SETTINGS,
+  compareTiers,
+  evaluateTier,
+  getQualifyingTier,
+  type TierSettings,
+} from '@/lib/tiers';
+import {
+  changePartnerTier,
+  evaluatePartnerTier,
+  getTierMetrics,
+  runTierEvaluation,
+} from '@/lib/tier-service';
+import { getTierSettings, updateTierSettings } from '@/lib/program-settings';
+import {
+  inMemoryMilestoneRepo,
+  inMemoryNotificationRepo,
+  inMemoryPartnerRepo,
+  inMemoryReferralRepo,
+  inMemoryTierChangeRepo,
+  seedStore,
+} from '@/lib/data-store';
+import { createPartner } from './fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const settings: TierSettings = {
+  requirements: [
+    { tier: 'STANDARD', minConversions: 0, minRevenueCents: 0 },
+    { tier: 'SILVER', minConversions: 5, minRevenueCents: 100000 },
+    { tier: 'GOLD', minConversions: 20, minRevenueCents: 500000 },
+  ],
+  windowDays: 90,
+  gracePeriodDays: 30,
+};
+
+async function addConversions(partnerId: string, count: number, orderAmountCents: number, convertedAt: Date): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await inMemoryReferralRepo.create({
+      partnerId,
+      status: 'CONVERTED',
+      customerHash: `hash-${partnerId}-${i}`,
+      orderAmountCents,
+      commissionCents: Math.round(orderAmountCents * 0.15),
+      commissionRate: 0.15,
+      convertedAt,
+    });
+  }
+}
+
+describe('Tier Qualification', () => {
+  it('should order tiers', () => {
+    expect(compareTiers('GOLD', 'SILVER')).toBeGreaterThan(0);
+    expect(compareTiers('STANDARD', 'PLATINUM')).toBeLessThan(0);
+  });
+
+  it('should require both conversions and revenue', () => {
+    const { requirements } = settings;
+    expect(getQualifyingTier({ conversions: 25, revenueCents: 600000 }, requirements)).toBe('GOLD');
+    expect(getQualifyingTier({ conversions: 25, revenueCents: 200000 }, requirements)).toBe('SILVER');
+    expect(getQualifyingTier({ conversions: 4, revenueCents: 900000 }, requirements)).toBe('STANDARD');
+  });
+
+  it('should never award tiers without a requirement', () => {
+    expect(getQualifyingTier({ conversions: 1000, revenueCents: 1e9 }, settings.requirements)).toBe('GOLD');
+  });
+});
+
+describe('Tier Evaluation', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const gold = { conversions: 20, revenueCents: 500000 };
+  const silver = { conversions: 5, revenueCents: 100000 };
+
+  it('should upgrade as soon as the partner qualifies', () => {
+    expect(evaluateTier({ tier: 'SILVER' }, gold, settings, now)).toMatchObject({
+      action: 'UPGRADE',
+      qualifiedTier: 'GOLD',
+    });
+  });
+
+  it('should start a grace period instead of demoting', () => {
+    const decision = evaluateTier({ tier: 'GOLD' }, silver, settings, now);
+    expect(decision.action).toBe('GRACE_STARTED');
+    expect(decision.graceEndsAt).toEqual(new Date(now.getTime() + 30 * DAY_MS));
+  });
+
+  it('should keep the tier during the grace period', () => {
+    const partner = { tier: 'GOLD' as const, tierGraceStartedAt: new Date(now.getTime() - 29 * DAY_MS) };
+    expect(evaluateTier(partner, silver, settings, now).action).toBe('NONE');
+  });
+
+  it('should demote when the grace period ends', () => {
+    const partner = { tier: 'GOLD' as const, tierGraceStartedAt: new Date(now.getTime() - 30 * DAY_MS) };
+    expect(evaluateTier(partner, silver, settings, now)).toMatchObject({
+      action: 'DOWNGRADE',
+      qualifiedTier: 'SILVER',
+    });
+  });
+
+  it('should clear the grace period when the partner requalifies', () => {
+    const partner = { tier: 'GOLD' as const, tierGraceStartedAt: new Date(now.getTime() - 10 * DAY_MS) };
+    expect(evaluateTier(partner, gold, settings, now).action).toBe('GRACE_CLEARED');
+  });
+
+  it('should demote immediately without a grace period', () => {
+    expect(evaluateTier({ tier: 'GOLD' }, silver, { ...settings, gracePeriodDays: 0 }, now).action).toBe('DOWNGRADE');
+  });
+});
+
+describe('Tier Service', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should only count conversions inside the rolling window', async () => {
+    const now = new Date();
+    const partner = await createPartner();
+    await addConversions(partner.id, 2, 10000, new Date(now.getTime() - 10 * DAY_MS));
+    await addConversions(partner.id, 3, 10000, new Date(now.getTime() - 100 * DAY_MS));
+
+    expect(await getTierMetrics(partner.id, settings, now)).toEqual({ conversions: 2, revenueCents: 20000 });
+  });
+
+  it('should record history, a milestone and a notification on upgrade', async () => {
+    const now = new Date();
+    const partner = await createPartner();
+    await addConversions(partner.id, 6, 20000, new Date(now.getTime() - DAY_MS));
+
+    const result = await evaluatePartnerTier(partner, settings, now);
+    expect(result).toMatchObject({ action: 'UPGRADE', fromTier: 'STANDARD', toTier: 'SILVER' });
+
+    expect((await inMemoryPartnerRepo.findById(partner.id))?.tier).toBe('SILVER');
+
+    const [change] = await inMemoryTierChangeRepo.findByPartnerId(partner.id);
+    expect(change).toMatchObject({
+      fromTier: 'STANDARD',
+      toTier: 'SILVER',
+      reason: 'AUTOMATIC',
+      conversions: 6,
+      revenueCents: 120000,
+    });
+
+    const milestones = await inMemoryMilestoneRepo.findByPartnerId(partner.id);
+    expect(milestones).toHaveLength(1);
+    expect(milestones[0]).toMatchObject({ type: 'TIER_UPGRADE', title: 'Silver Partner!', celebrationShown: false });
+
+    const [notification] = await inMemoryNotificationRepo.findByPartnerId(partner.id);
+    expect(notification).toMatchObject({ type: 'MILESTONE', title: 'Tier Upgrade!' });
+  });
+
+  it('should demote only after the grace period', async () => {
+    const now = new Date();
+    const partner = await createPartner({ tier: 'GOLD' });
+
+    const first = await evaluatePartnerTier(partner, settings, now);
+    expect(first.action).toBe('GRACE_STARTED');
+
+    const inGrace = (await inMemoryPartnerRepo.findById(partner.id))!;
+    expect(inGrace.tier).toBe('GOLD');
+    expect(inGrace.tierGraceStartedAt).toEqual(now);
+
+    const later = new Date(now.getTime() + 31 * DAY_MS);
+    const second = await evaluatePartnerTier(inGrace, settings, later);
+    expect(second).toMatchObject({ action: 'DOWNGRADE', toTier: 'STANDARD' });
+
+    const demoted = (await inMemoryPartnerRepo.findById(partner.id))!;
+    expect(demoted.tier).toBe('STANDARD');
+    expect(demoted.tierGraceStartedAt).toBeNull();
+    expect(await inMemoryMilestoneRepo.findByPartnerId(partner.id)).toHaveLength(0);
+  });
+
+  it('should record manual changes with the admin', async () => {
+    const partner = await createPartner({ tier: 'SILVER' });
+
+    await changePartnerTier(partner, 'PLATINUM', {
+      reason: 'MANUAL',
+      metrics: { conversions: 0, revenueCents: 0 },
+      changedBy: 'admin-1',
+    });
+
+    const [change] = await inMemoryTierChangeRepo.findByPartnerId(partner.id);
+    expect(change).toMatchObject({ toTier: 'PLATINUM', reason: 'MANUAL', changedBy: 'admin-1' });
+    expect(await changePartnerTier({ ...partner, tier: 'PLATINUM' }, 'PLATINUM', {
+      reason: 'MANUAL',
+      metrics: { conversions: 0, revenueCents: 0 },
+    })).toBeNull();
+  });
+
+  it('should evaluate all active partners with the saved settings', async () => {
+    await updateTierSettings({ requirements: settings.requirements, gracePeriodDays: 0 });
+    expect((await getTierSettings()).windowDays).toBe(DEFAULT_TIER_SETTINGS.windowDays);
+
+    const partner = await createPartner();
+    await addConversions(partner.id, 25, 30000, new Date(Date.now() - DAY_MS));
+
+    const summary = await runTierEvaluation();
+    expect(summary.failed).toBe(0);
+    expect(summary.evaluated).toBeGreaterThan(0);
+    expect(summary.changes).toContainEqual(
+      expect.objectContaining({ partnerId: partner.id, action: 'UPGRADE', toTier: 'GOLD' })
+    );
+    expect(summary.upgraded + summary.downgraded).toBe(summary.changes.length);
+
+    await updateTierSettings(DEFAULT_TIER_SETTINGS);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Referral Tracking Tests
+ * Tests for click logging, device detection and attribution tokens
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  hashIpAddress,
+  detectDevice,
+  createAttributionToken,
+  parseAttributionToken,
+  getReferralDestination,
+  recordReferralClick,
+  ATTRIBUTION_WINDOW_DAYS,
+} from '@/lib/tracking';
+import {
+  inMemoryCampaignRepo,
+  inMemoryClickEventRepo,
+  seedStore,
+} from '@/lib/data-store';
+
+describe('IP Hashing', () => {
+  it('should hash IPs deterministically', () => {
+    expect(hashIpAddress('192.168.1.1')).toBe(hashIpAddress('192.168.1.1'));
+  });
+
+  it('should not contain the raw IP', () => {
+    const hash = hashIpAddress('192.168.1.1');
+    expect(hash).not.toContain('192.168');
+    expect(hash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should produce different hashes for different IPs', () => {
+    expect(hashIpAddress('10.0.0.1')).not.toBe(hashIpAddress('10.0.0.2'));
+  });
+});
+
+describe('Device Detection', () => {
+  it('should detect desktop browsers', () => {
+    expect(detectDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0')).toBe('desktop');
+  });
+
+  it('should detect mobile browsers', () => {
+    expect(detectDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).toBe('mobile');
+    expect(detectDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8) Mobile Safari/537.36')).toBe('mobile');
+  });
+
+  it('should detect tablets', () => {
+    expect(detectDevice('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)')).toBe('tablet');
+    expect(detectDevice('Mozilla/5.0 (Linux; Android 14; SM-X710) Safari/537.36')).toBe('tablet');
+  });
+
+  it('should detect link preview bots', () => {
+    expect(detectDevice('LinkedInBot/1.0')).toBe('bot');
+    expect(detectDevice('facebookexternalhit/1.1')).toBe('bot');
+  });
+
+  it('should return unknown without a user agent', () => {
+    expect(detectDevice(null)).toBe('unknown');
+  });
+});
+
+describe('Attribution Tokens', () => {
+  const payload = {
+    partnerId: 'partner-demo-123',
+    campaignId: 'campaign-001',
+    clickId: 'click-abc',
+    clickedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  it('should round-trip a payload', () => {
+    const token = createAttributionToken(payload);
+    const parsed = parseAttributionToken(token, new Date('2026-01-02T00:00:00Z'));
+
+    expect(parsed).toEqual(payload);
+  });
+
+  it('should reject tampered tokens', () => {
+    const token = createAttributionToken(payload);
+    const [, signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({
+      p: 'partner-demo-456',
+      c: null,
+      k: null,
+      t: payload.clickedAt.getTime(),
+    })).toString('base64url');
+
+    expect(parseAttributionToken(`${forgedBody}.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(parseAttributionToken('not-a-token')).toBeNull();
+    expect(parseAttributionToken('')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createAttributionToken(payload);
+    const afterWindow = new Date(
+      payload.clickedAt.getTime() + (ATTRIBUTION_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000
+    );
+
+    expect(parseAttributionToken(token, afterWindow)).toBeNull();
+  });
+});
+
+describe('Referral Destination', () => {
+  it('should append the referral code', () => {
+    const url = getReferralDestination('ALEX2024');
+    expect(url.searchParams.get('ref')).toBe('ALEX2024');
+  });
+
+  it('should pass through utm parameters only', () => {
+    const params = new URLSearchParams('c=linkedin-q1&utm_source=linkedin&utm_medium=social');
+    const url = getReferralDestination('ALEX2024', params);
+
+    expect(url.searchParams.get('utm_source')).toBe('linkedin');
+    expect(url.searchParams.get('utm_medium')).toBe('social');
+    expect(url.searchParams.has('c')).toBe(false);
+  });
+
+  it('should omit ref for unknown codes', () => {
+    expect(getReferralDestination(null).searchParams.has('ref')).toBe(false);
+  });
+});
+
+describe('Click Recording', () => {
+  beforeEach(() => {
+    seedStore();
+  });
+
+  it('should write a click event with hashed IP and device', async () => {
+    const event = await recordReferralClick(
+      { id: 'partner-demo-123' },
+      { id: 'campaign-002' },
+      {
+        ip: '203.0.113.7',
+        userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148',
+        referer: 'https://www.linkedin.com/',
+        country: 'US',
+      }
+    );
+
+    expect(event.partnerId).toBe('partner-demo-123');
+    expect(event.campaignId).toBe('campaign-002');
+    expect(event.ipHash).toBe(hashIpAddress('203.0.113.7'));
+    expect(event.device).toBe('mobile');
+    expect(event.referer).toBe('https://www.linkedin.com/');
+
+    const events = await inMemoryClickEventRepo.findByPartnerId('partner-demo-123', {
+      campaignId: 'campaign-002',
+    });
+    expect(events.some(e => e.id === event.id)).toBe(true);
+  });
+
+  it('should increment campaign click stats', async () => {
+    const before = await inMemoryCampaignRepo.findById('campaign-003');
+
+    await recordReferralClick(
+      { id: 'partner-demo-123' },
+      { id: 'campaign-003' },
+      { ip: '203.0.113.8' }
+    );
+
+    const after = await inMemoryCampaignRepo.findById('campaign-003');
+    expect(after?.clicks).toBe((before?.clicks ?? 0) + 1);
+  });
+
+  it('should record clicks without a campaign', async () => {
+    const event = await recordReferralClick(
+      { id: 'partner-demo-456' },
+      null,
+      { ip: '203.0.113.9' }
+    );
+
+    expect(event.campaignId).toBeNull();
+    const count = await inMemoryClickEventRepo.countByPartnerId('partner-demo-456');
+    expect(count).toBeGreaterThan(0);
+  });
+
+  it('should find campaigns by slug', async () => {
+    const campaign = await inMemoryCampaignRepo.findBySlug('partner-demo-123', 'linkedin-q1');
+    expect(campaign?.id).toBe('campaign-001');
+
+    const other = await inMemoryCampaignRepo.findBySlug('partner-demo-456', 'linkedin-q1');
+    expect(other).toBeNull();
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Webhook Tests
+ * Tests for outbound webhook signing, retry schedule and delivery
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  endpointAcceptsEvent,
+  getRetryDelayMs,
+  MAX_DELIVERY_ATTEMPTS,
+  nextDeliveryState,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookEndpointInputSchema,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '@/lib/webhooks';
+import {
+  createWebhookEndpoint,
+  emitWebhookEvent,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  sendDueDeliveries,
+  toWebhookEndpointView,
+  updateWebhookEndpoint,
+} from '@/lib/webhook-service';
+import { inMemoryWebhookDeliveryRepo } from '@/lib/data-store';
+import type { WebhookDelivery } from '@/lib/db';
+
+const fetchMock = vi.mocked(globalThis.fetch);
+const MINUTE_MS = 60 * 1000;
+
+function respondWith(status: number): void {
+  fetchMock.mockResolvedValue(new Response(null, { status }));
+}
+
+async function onlyDelivery(endpointId: string): Promise<WebhookDelivery> {
+  const deliveries = await listWebhookDeliveries(endpointId);
+  expect(deliveries).toHaveLength(1);
+  return deliveries[0] as WebhookDelivery;
+}
+
+describe('Webhook Signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'evt_1', type: 'payout.completed' });
+
+  it('should verify a signature it produced', () => {
+    const header = signWebhookPayload(body, secret, 1_700_000_000);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, secret, 1_700_000_010)).toBe(true);
+  });
+
+  it('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+    const header = signWebhookPayload(body, secret, 1_700_000_000);
+
+    expect(verifyWebhookSignature(`${body} `, header, secret, 1_700_000_000)).toBe(false);
+    expect(verifyWebhookSignature(body, header, 'whsec_other', 1_700_000_000)).toBe(false);
+    expect(verifyWebhookSignature(body, header, secret, 1_700_000_000 + 301)).toBe(false);
+    expect(verifyWebhookSignature(body, null, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, 't=abc', secret)).toBe(false);
+  });
+});
+
+describe('Webhook Retry Schedule', () => {
+  it('should back off by a factor of four', () => {
+    expect(getRetryDelayMs(1)).toBe(MINUTE_MS);
+    expect(getRetryDelayMs(2)).toBe(4 * MINUTE_MS);
+    expect(getRetryDelayMs(3)).toBe(16 * MINUTE_MS);
+  });
+
+  it('should schedule a retry after a failed attempt', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const state = nextDeliveryState({ attempts: 0 }, { responseStatus: 500, error: null }, now);
+
+    expect(state.status).toBe('PENDING');
+    expect(state.attempts).toBe(1);
+    expect(state.error).toBe('Endpoint responded with 500');
+    expect(state.nextAttemptAt).toEqual(new Date(now.getTime() + MINUTE_MS));
+  });
+
+  it('should give up once attempts run out', () => {
+    const state = nextDeliveryState(
+      { attempts: MAX_DELIVERY_ATTEMPTS - 1 },
+      { responseStatus: null, error: 'ECONNREFUSED' }
+    );
+
+    expect(state.status).toBe('FAILED');
+    expect(state.error).toBe('ECONNREFUSED');
+    expect(state.nextAttemptAt).toBeNull();
+  });
+
+  it('should mark 2xx responses delivered', () => {
+    const state = nextDeliveryState({ attempts: 2 }, { responseStatus: 204, error: null });
+
+    expect(state.status).toBe('SUCCEEDED');
+    expect(state.deliveredAt).not.toBeNull();
+    expect(state.nextAttemptAt).toBeNull();
+  });
+});
+
+describe('Webhook Endpoints', () => {
+  it('should match events by subscription and partner filter', () => {
+    const endpoint = { isActive: true, events: ['payout.completed' as const], partnerId: 'partner-1' };
+
+    expect(endpointAcceptsEvent(endpoint, 'payout.completed', 'partner-1')).toBe(true);
+    expect(endpointAcceptsEvent(endpoint, 'payout.completed', 'partner-2')).toBe(false);
+    expect(endpointAcceptsEvent(endpoint, 'payout.failed', 'partner-1')).toBe(false);
+    expect(endpointAcceptsEvent({ ...endpoint, partnerId: null }, 'payout.completed', 'partner-2')).toBe(true);
+    expect(endpointAcceptsEvent({ ...endpoint, isActive: false }, 'payout.completed', 'partner-1')).toBe(false);
+  });
+
+  it('should require HTTPS URLs and known events', () => {
+    const base = { description: null, partnerId: null, isActive: true };
+
+    expect(webhookEndpointInputSchema.safeParse({ ...base, url: 'https://example.com/hook', events: ['payout.failed'] }).success).toBe(true);
+    expect(webhookEndpointInputSchema.safeParse({ ...base, url: 'http://example.com/hook', events: ['payout.failed'] }).success).toBe(false);
+    expect(webhookEndpointInputSchema.safeParse({ ...base, url: 'https://example.com/hook', events: [] }).success).toBe(false);
+    expect(webhookEndpointInputSchema.safeParse({ ...base, url: 'https://example.com/hook', events: ['payout.sent'] }).success).toBe(false);
+  });
+
+  it('should hide secrets in listings and rotate them on request', async () => {
+    const endpoint = await createWebhookEndpoint({ url: 'https://example.com/rotate', events: ['payout.failed'] });
+    const view = toWebhookEndpointView(endpoint);
+
+    expect(endpoint.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(view).not.toHaveProperty('secret');
+    expect(view.secretHint).toBe(`whsec_…${endpoint.secret.slice(-4)}`);
+
+    const rotated = await updateWebhookEndpoint(endpoint.id, { rotateSecret: true });
+    expect(rotated?.secret).not.toBe(endpoint.secret);
+  });
+});
+
+describe('Webhook Delivery', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should deliver signed events to subscribed endpoints only', async () => {
+    respondWith(200);
+    const subscribed = await createWebhookEndpoint({
+      url: 'https://example.com/subscribed',
+      events: ['referral.converted'],
+      partnerId: 'partner-wh-1',
+    });
+    const other = await createWebhookEndpoint({
+      url: 'https://example.com/other',
+      events: ['referral.converted'],
+      partnerId: 'partner-wh-2',
+    });
+
+    await emitWebhookEvent('referral.converted', 'partner-wh-1', { referralId: 'ref-1' });
+
+    // Emitting only queues the delivery
+    const queued = await onlyDelivery(subscribed.id);
+    expect(queued).toMatchObject({ status: 'PENDING', attempts: 0 });
+    expect(fetchMock.mock.calls.some(([url]) => url === subscribed.url)).toBe(false);
+
+    await sendDueDeliveries();
+
+    const delivery = await onlyDelivery(subscribed.id);
+    expect(delivery.status).toBe('SUCCEEDED');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.payload).toMatchObject({ type: 'referral.converted', partnerId: 'partner-wh-1', data: { referralId: 'ref-1' } });
+    expect(await listWebhookDeliveries(other.id)).toHaveLength(0);
+
+    const call = fetchMock.mock.calls.find(([url]) => url === subscribed.url);
+    const init = call?.[1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(verifyWebhookSignature(init.body as string, headers[WEBHOOK_SIGNATURE_HEADER] ?? null, subscribed.secret)).toBe(true);
+  });
+
+  it('should not throw when an endpoint is unreachable', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/down',
+      events: ['payout.failed'],
+      partnerId: 'partner-wh-3',
+    });
+
+    await expect(emitWebhookEvent('payout.failed', 'partner-wh-3', {})).resolves.toBeUndefined();
+    await sendDueDeliveries();
+
+    const delivery = await onlyDelivery(endpoint.id);
+    expect(delivery.status).toBe('PENDING');
+    expect(delivery.error).toBe('ECONNREFUSED');
+    expect(delivery.nextAttemptAt).not.toBeNull();
+  });
+
+  it('should retry due deliveries until they succeed', async () => {
+    respondWith(503);
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/flaky',
+      events: ['milestone.achieved'],
+      partnerId: 'partner-wh-4',
+    });
+
+    await emitWebhookEvent('milestone.achieved', 'partner-wh-4', { type: 'FIRST_CONVERSION' });
+    await sendDueDeliveries();
+    const pending = await onlyDelivery(endpoint.id);
+    expect(pending.status).toBe('PENDING');
+
+    // Not due yet
+    await sendDueDeliveries(new Date());
+    expect((await inMemoryWebhookDeliveryRepo.findById(pending.id))?.attempts).toBe(1);
+
+    respondWith(200);
+    await sendDueDeliveries(new Date(Date.now() + 2 * MINUTE_MS));
+
+    const retried = await inMemoryWebhookDeliveryRepo.findById(pending.id);
+    expect(retried?.status).toBe('SUCCEEDED');
+    expect(retried?.attempts).toBe(2);
+  });
+
+  it('should send a delivery once when job runs overlap', async () => {
+    respondWith(200);
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/overlap',
+      events: ['referral.converted'],
+      partnerId: 'partner-wh-7',
+    });
+
+    await emitWebhookEvent('referral.converted', 'partner-wh-7', {});
+    await Promise.all([sendDueDeliveries(), sendDueDeliveries()]);
+
+    const delivery = await onlyDelivery(endpoint.id);
+    expect(delivery.status).toBe('SUCCEEDED');
+    expect(delivery.attempts).toBe(1);
+    expect(fetchMock.mock.calls.filter(([url]) => url === endpoint.url)).toHaveLength(1);
+  });
+
+  it('should treat redirects as failed attempts', async () => {
+    respondWith(302);
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/moved',
+      events: ['payout.completed'],
+      partnerId: 'partner-wh-8',
+    });
+
+    await emitWebhookEvent('payout.completed', 'partner-wh-8', {});
+    await sendDueDeliveries();
+
+    const call = fetchMock.mock.calls.find(([url]) => url === endpoint.url);
+    expect((call?.[1] as RequestInit).redirect).toBe('manual');
+    const delivery = await onlyDelivery(endpoint.id);
+    expect(delivery).toMatchObject({ status: 'PENDING', responseStatus: 302 });
+  });
+
+  it('should fail pending deliveries to disabled endpoints', async () => {
+    respondWith(200);
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/disabled',
+      events: ['payout.completed'],
+      partnerId: 'partner-wh-5',
+    });
+
+    await emitWebhookEvent('payout.completed', 'partner-wh-5', {});
+    await updateWebhookEndpoint(endpoint.id, { isActive: false });
+
+    await sendDueDeliveries();
+
+    const delivery = await onlyDelivery(endpoint.id);
+    expect(delivery.status).toBe('FAILED');
+    expect(delivery.error).toBe('Endpoint disabled');
+    expect(fetchMock.mock.calls.some(([url]) => url === endpoint.url)).toBe(false);
+  });
+
+  it('should redeliver an event as a new delivery', async () => {
+    respondWith(500);
+    const endpoint = await createWebhookEndpoint({
+      url: 'https://example.com/redeliver',
+      events: ['partner.tier_changed'],
+      partnerId: 'partner-wh-6',
+    });
+
+    await emitWebhookEvent('partner.tier_changed', 'partner-wh-6', { toTier: 'GOLD' });
+    await sendDueDeliveries();
+    const original = await onlyDelivery(endpoint.id);
+
+    respondWith(200);
+    const result = await redeliverWebhook(endpoint.id, original.id);
+
+    expect(result.success).toBe(true);
+    expect(result.delivery?.id).not.toBe(original.id);
+    expect(result.delivery?.eventId).toBe(original.eventId);
+    expect(result.delivery?.status).toBe('SUCCEEDED');
+    expect((await inMemoryWebhookDeliveryRepo.findById(original.id))?.status).toBe('PENDING');
+
+    expect((await redeliverWebhook('missing', original.id)).errorCode).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,348 @@
+'use client';
+
+/**
+ * Applications Client Component
+ * Review queue: approve, reject or request more info on partner applications
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { cn, formatDate, formatNumber } from '@/lib/utils';
+import type { ApiResponse } from '@/types';
+import type { ApplicationChannel, ApplicationStatus, PartnerApplication } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+type RawApplication = Omit<PartnerApplication, 'createdAt' | 'updatedAt' | 'reviewedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt?: string | null;
+};
+
+interface ApplicationPage {
+  applications: RawApplication[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+type StatusFilter = ApplicationStatus | 'PENDING_REVIEW';
+
+type ReviewAction = 'approve' | 'reject' | 'request_info';
+
+// ============================================
+// Configuration
+// ============================================
+
+const PAGE_SIZE = 50;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'PENDING_REVIEW', label: 'Needs Review' },
+  { value: 'INFO_REQUESTED', label: 'Info Requested' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+];
+
+const STATUS_STYLES: Record<ApplicationStatus, { label: string; className: string }> = {
+  WAITLIST: { label: 'Waitlist', className: 'bg-gray-100 text-gray-700' },
+  INSTANT_ACCESS: { label: 'Invite code', className: 'bg-purple-100 text-purple-700' },
+  INFO_REQUESTED: { label: 'Info requested', className: 'bg-yellow-100 text-yellow-700' },
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-700' },
+};
+
+const CHANNEL_LABELS: Record<ApplicationChannel, string> = {
+  LINKEDIN: 'LinkedIn',
+  TWITTER: 'Twitter',
+  NEWSLETTER: 'Newsletter',
+  PODCAST: 'Podcast',
+  YOUTUBE: 'YouTube',
+  BLOG: 'Blog',
+  COMMUNITY: 'Community',
+  EVENTS: 'Events',
+  OTHER: 'Other',
+};
+
+const REVIEWABLE: ApplicationStatus[] = ['WAITLIST', 'INSTANT_ACCESS', 'INFO_REQUESTED'];
+
+// ============================================
+// Applications Client Component
+// ============================================
+
+export function ApplicationsClient(): React.ReactElement {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('PENDING_REVIEW');
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<ApplicationPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [partnerStatus, setPartnerStatus] = useState<'ACTIVE' | 'PENDING'>('ACTIVE');
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  // Fetch a page of applications
+  const fetchApplications = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        status: statusFilter,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      const response = await fetch(`/api/admin/applications?${params}`);
+      const result: ApiResponse<ApplicationPage> = await response.json();
+
+      if (result.success && result.data) {
+        setPage(result.data);
+      } else {
+        setError(result.error?.message ?? 'Failed to load applications');
+      }
+    } catch (err) {
+      console.error('Failed to load applications:', err);
+      setError('Failed to load applications');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, offset]);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  const selectApplication = (application: RawApplication) => {
+    if (selectedId === application.id) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(application.id);
+    setNotes('');
+    setPartnerStatus('ACTIVE');
+    setReviewError(null);
+  };
+
+  // Submit a review decision
+  const submitReview = async (applicationId: string, action: ReviewAction) => {
+    setReviewing(true);
+    setReviewError(null);
+
+    try {
+      const response = await fetch(`/api/admin/applications/${applicationId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, notes: notes.trim() || undefined, partnerStatus }),
+      });
+      const result: ApiResponse<{ application: RawApplication }> = await response.json();
+
+      if (result.success) {
+        setSelectedId(null);
+        await fetchApplications();
+      } else {
+        setReviewError(result.error?.message ?? 'Review failed');
+      }
+    } catch (err) {
+      console.error('Failed to review application:', err);
+      setReviewError('Review failed');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const total = page?.total ?? 0;
+  const applications = page?.applications ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Applications</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Review partner applications. Approving one creates the partner and sends their welcome email.
+        </p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUS_FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            type="button"
+            onClick={() => {
+              setStatusFilter(filter.value);
+              setOffset(0);
+              setSelectedId(null);
+            }}
+            className={cn(
+              'px-3 py-1.5 text-sm font-medium rounded-lg',
+              statusFilter === filter.value
+                ? 'bg-primary-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+            )}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Applications */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-4 border-primary-200 border-t-primary-600 rounded-full animate-spin mx-auto" />
+            <p className="text-sm text-gray-500 mt-2">Loading applications...</p>
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center text-sm text-red-600">{error}</div>
+        ) : applications.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">No applications here</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {applications.map(application => {
+              const status = STATUS_STYLES[application.status];
+              const isSelected = selectedId === application.id;
+              const canReview = REVIEWABLE.includes(application.status);
+
+              return (
+                <li key={application.id} className="p-4">
+                  <button
+                    type="button"
+                    onClick={() => selectApplication(application)}
+                    className="w-full flex items-start justify-between gap-4 text-left"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {application.name ?? application.email}
+                        {application.company && (
+                          <span className="text-gray-500 font-normal"> · {application.company}</span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">{application.email}</p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {application.channels.map(channel => (
+                          <span key={channel} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">
+                            {CHANNEL_LABELS[channel]}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <span className={cn('inline-flex px-2 py-0.5 text-xs font-medium rounded-full', status.className)}>
+                        {status.label}
+                      </span>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {application.audienceSize != null ? `${formatNumber(application.audienceSize)} audience` : 'Audience not given'}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {formatDate(new Date(application.createdAt), { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </p>
+                    </div>
+                  </button>
+
+                  {isSelected && (
+                    <div className="mt-4 space-y-3 border-t border-gray-100 pt-4">
+                      {application.website && (
+                        <p className="text-sm">
+                          <span className="text-gray-500">Website: </span>
+                          <a href={application.website} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+                            {application.website}
+                          </a>
+                        </p>
+                      )}
+                      {application.inviteCode && (
+                        <p className="text-sm"><span className="text-gray-500">Invite code: </span>{application.inviteCode}</p>
+                      )}
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                        {application.message ?? <span className="text-gray-400">No message</span>}
+                      </p>
+                      {application.reviewNotes && (
+                        <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+                          <span className="font-medium">Review notes: </span>{application.reviewNotes}
+                        </p>
+                      )}
+
+                      {canReview && (
+                        <>
+                          <textarea
+                            value={notes}
+                            onChange={e => setNotes(e.target.value)}
+                            rows={3}
+                            placeholder="Notes (required when requesting info; shown to the applicant)"
+                            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              value={partnerStatus}
+                              onChange={e => setPartnerStatus(e.target.value as 'ACTIVE' | 'PENDING')}
+                              className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              aria-label="Partner status on approval"
+                            >
+                              <option value="ACTIVE">Approve as active</option>
+                              <option value="PENDING">Approve as pending</option>
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => submitReview(application.id, 'approve')}
+                              disabled={reviewing}
+                              className="px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                            >
+                              Approve
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => submitReview(application.id, 'request_info')}
+                              disabled={reviewing || !notes.trim()}
+                              className="px-3 py-2 text-sm font-medium text-yellow-800 bg-yellow-100 rounded-lg hover:bg-yellow-200 disabled:opacity-50"
+                            >
+                              Request Info
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => submitReview(application.id, 'reject')}
+                              disabled={reviewing}
+                              className="px-3 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 disabled:opacity-50"
+                            >
+                              Reject
+                            </button>
+                          </div>
+                          {reviewError && <p className="text-sm text-red-600">{reviewError}</p>}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-500">
+            {total === 0 ? 'No applications' : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || loading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
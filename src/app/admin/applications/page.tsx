@@ -0,0 +1,10 @@
+/**
+ * Admin Applications Page
+ * Review queue for partner program applications
+ */
+
+import { ApplicationsClient } from './ApplicationsClient';
+
+export default function AdminApplicationsPage(): React.ReactElement {
+  return <ApplicationsClient />;
+}
@@ -0,0 +1,294 @@
+'use client';
+
+/**
+ * Audit Log Client Component
+ * Filterable, paginated view of admin mutations and payout transitions
+ */
+
+import React, { useState, useEffect } from 'react';
+import { cn, formatDate } from '@/lib/utils';
+import type { ApiResponse } from '@/types';
+import type { AuditLogEntry, AuditTargetType } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+type RawAuditLogEntry = Omit<AuditLogEntry, 'createdAt'> & { createdAt: string };
+
+interface AuditLogPage {
+  entries: RawAuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface AuditFilters {
+  targetType: AuditTargetType | 'ALL';
+  action: string;
+  actorId: string;
+  targetId: string;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const PAGE_SIZE = 50;
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  PARTNER: 'Partner',
+  APPLICATION: 'Application',
+  INVITE_CODE: 'Invite code',
+  PAYOUT: 'Payout',
+  PAYOUT_RUN: 'Payout run',
+  COMMISSION_RULE: 'Commission rule',
+  PROGRAM_SETTING: 'Setting',
+  WEBHOOK_ENDPOINT: 'Webhook endpoint',
+};
+
+const EMPTY_FILTERS: AuditFilters = { targetType: 'ALL', action: '', actorId: '', targetId: '' };
+
+// ============================================
+// Helpers
+// ============================================
+
+function buildQuery(filters: AuditFilters, offset: number): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  if (filters.targetType !== 'ALL') params.set('targetType', filters.targetType);
+  if (filters.action.trim()) params.set('action', filters.action.trim());
+  if (filters.actorId.trim()) params.set('actorId', filters.actorId.trim());
+  if (filters.targetId.trim()) params.set('targetId', filters.targetId.trim());
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// ============================================
+// Audit Client Component
+// ============================================
+
+export function AuditClient(): React.ReactElement {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<AuditLogPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch a page of the audit log
+  useEffect(() => {
+    async function fetchAuditLog() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/admin/audit?${buildQuery(appliedFilters, offset)}`);
+        const result: ApiResponse<AuditLogPage> = await response.json();
+
+        if (result.success && result.data) {
+          setPage(result.data);
+        } else {
+          setError(result.error?.message ?? 'Failed to load audit log');
+        }
+      } catch (err) {
+        console.error('Failed to load audit log:', err);
+        setError('Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAuditLog();
+  }, [appliedFilters, offset]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setAppliedFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setOffset(0);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const total = page?.total ?? 0;
+  const entries = page?.entries ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Every admin change, settings update and payout status transition. Entries cannot be edited or deleted.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-3"
+      >
+        <select
+          value={filters.targetType}
+          onChange={e => setFilters({ ...filters, targetType: e.target.value as AuditFilters['targetType'] })}
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          aria-label="Target type"
+        >
+          <option value="ALL">All Targets</option>
+          {(Object.keys(TARGET_TYPE_LABELS) as AuditTargetType[]).map(type => (
+            <option key={type} value={type}>{TARGET_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.action}
+          onChange={e => setFilters({ ...filters, action: e.target.value })}
+          placeholder="Action, e.g. payout.approve"
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <input
+          type="text"
+          value={filters.actorId}
+          onChange={e => setFilters({ ...filters, actorId: e.target.value })}
+          placeholder="Actor ID"
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <input
+          type="text"
+          value={filters.targetId}
+          onChange={e => setFilters({ ...filters, targetId: e.target.value })}
+          placeholder="Target ID"
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700"
+        >
+          Filter
+        </button>
+        <button
+          type="button"
+          onClick={resetFilters}
+          className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+        >
+          Reset
+        </button>
+      </form>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-4 border-primary-200 border-t-primary-600 rounded-full animate-spin mx-auto" />
+            <p className="text-sm text-gray-500 mt-2">Loading audit log...</p>
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center text-sm text-red-600">{error}</div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">No audit entries match these filters</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Request</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="align-top hover:bg-gray-50">
+                    <td className="px-4 py-4 text-sm text-gray-600 whitespace-nowrap">
+                      {formatDate(new Date(entry.createdAt), {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                        second: '2-digit',
+                      })}
+                    </td>
+                    <td className="px-4 py-4 text-sm">
+                      <span className={cn(
+                        'inline-flex px-2 py-0.5 text-xs font-medium rounded-full',
+                        entry.actorType === 'ADMIN' && 'bg-purple-100 text-purple-700',
+                        entry.actorType === 'PARTNER' && 'bg-blue-100 text-blue-700',
+                        entry.actorType === 'SYSTEM' && 'bg-gray-100 text-gray-700'
+                      )}>
+                        {entry.actorType}
+                      </span>
+                      <p className="text-gray-900 mt-1 font-mono text-xs">{entry.actorId ?? '—'}</p>
+                    </td>
+                    <td className="px-4 py-4 text-sm font-mono text-gray-900">{entry.action}</td>
+                    <td className="px-4 py-4 text-sm">
+                      <p className="text-gray-900">{TARGET_TYPE_LABELS[entry.targetType]}</p>
+                      <p className="text-gray-500 font-mono text-xs">{entry.targetId ?? '—'}</p>
+                    </td>
+                    <td className="px-4 py-4 text-xs text-gray-700">
+                      {Object.keys(entry.changes).length === 0 ? (
+                        <span className="text-gray-400">No field changes</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <li key={field}>
+                              <span className="font-medium">{field}</span>:{' '}
+                              <span className="text-red-600 line-through">{formatValue(change.before)}</span>{' '}
+                              → <span className="text-green-700">{formatValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {entry.metadata && (
+                        <p className="text-gray-400 mt-1 break-all">{JSON.stringify(entry.metadata)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 text-xs text-gray-500 font-mono">
+                      <p>{entry.requestId ?? '—'}</p>
+                      <p>{entry.ipAddress ?? ''}</p>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-500">
+            {total === 0 ? 'No entries' : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || loading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
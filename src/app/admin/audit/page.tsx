@@ -0,0 +1,10 @@
+/**
+ * Admin Audit Log Page
+ * Append-only record of admin changes and payout transitions
+ */
+
+import { AuditClient } from './AuditClient';
+
+export default function AdminAuditPage(): React.ReactElement {
+  return <AuditClient />;
+}
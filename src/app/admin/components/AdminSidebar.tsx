@@ -39,6 +39,15 @@ const navigation: NavItem[] = [
       </svg>
     ),
   },
+  {
+    name: 'Applications',
+    href: '/admin/applications',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+      </svg>
+    ),
+  },
   {
     name: 'Payouts',
     href: '/admin/payouts',
@@ -57,6 +66,15 @@ const navigation: NavItem[] = [
       </svg>
     ),
   },
+  {
+    name: 'Audit Log',
+    href: '/admin/audit',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+      </svg>
+    ),
+  },
   {
     name: 'Settings',
     href: '/admin/settings',
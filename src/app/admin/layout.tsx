@@ -4,7 +4,7 @@
  */
 
 import { redirect } from 'next/navigation';
-import { getAuthUser } from '@/lib/auth';
+import { getAuthUser, isAdmin } from '@/lib/auth';
 import { AdminSidebar } from './components/AdminSidebar';
 import { AdminHeader } from './components/AdminHeader';
 
@@ -23,7 +23,7 @@ export default async function AdminLayout({ children }: AdminLayoutProps): Promi
   }
 
   // Check admin role
-  if (user.role !== 'ADMIN') {
+  if (!isAdmin(user)) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     redirect('/dashboard' as any);
   }
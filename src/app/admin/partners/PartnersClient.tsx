@@ -28,6 +28,18 @@ interface Partner {
   createdAt: string;
 }
 
+interface TierChange {
+  id: string;
+  partnerId: string;
+  fromTier: PartnerTier;
+  toTier: PartnerTier;
+  reason: 'AUTOMATIC' | 'MANUAL';
+  conversions: number;
+  revenueCents: number;
+  changedBy?: string | null;
+  createdAt: string;
+}
+
 type FilterStatus = PartnerStatus | 'ALL';
 type FilterTier = PartnerTier | 'ALL';
 
@@ -47,6 +59,8 @@ export function PartnersClient(): React.ReactElement {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPartners, setSelectedPartners] = useState<Set<string>>(new Set());
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [tierChanges, setTierChanges] = useState<TierChange[]>([]);
+  const [historyPartnerId, setHistoryPartnerId] = useState<string | null>(null);
 
   // Fetch partners
   useEffect(() => {
@@ -127,6 +141,24 @@ export function PartnersClient(): React.ReactElement {
     fetchPartners();
   }, []);
 
+  // Fetch tier history
+  useEffect(() => {
+    async function fetchTierChanges() {
+      try {
+        const query = historyPartnerId ? `?partnerId=${encodeURIComponent(historyPartnerId)}` : '';
+        const response = await fetch(`/api/admin/tier-changes${query}`);
+        const result: ApiResponse<{ changes: TierChange[] }> = await response.json();
+
+        setTierChanges(result.success && result.data ? result.data.changes : []);
+      } catch (err) {
+        console.error('Failed to load tier history:', err);
+        setTierChanges([]);
+      }
+    }
+
+    fetchTierChanges();
+  }, [historyPartnerId]);
+
   // Filter partners
   const filteredPartners = partners.filter(partner => {
     if (statusFilter !== 'ALL' && partner.status !== statusFilter) return false;
@@ -409,9 +441,14 @@ export function PartnersClient(): React.ReactElement {
                       </span>
                     </td>
                     <td className="px-4 py-4">
-                      <span className={cn('text-sm font-medium', tierColors[partner.tier])}>
+                      <button
+                        type="button"
+                        title="Show tier history"
+                        onClick={() => setHistoryPartnerId(partner.id)}
+                        className={cn('text-sm font-medium hover:underline', tierColors[partner.tier])}
+                      >
                         {partner.tier}
-                      </span>
+                      </button>
                     </td>
                     <td className="px-4 py-4 text-right text-sm text-gray-900">
                       {partner.totalReferrals}
@@ -498,6 +535,65 @@ export function PartnersClient(): React.ReactElement {
           </button>
         </div>
       </div>
+
+      {/* Tier History */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-900">
+            Tier History
+            {historyPartnerId && (
+              <span className="ml-2 font-normal text-gray-500">
+                {partners.find(p => p.id === historyPartnerId)?.name ?? historyPartnerId}
+              </span>
+            )}
+          </h2>
+          {historyPartnerId && (
+            <button
+              type="button"
+              onClick={() => setHistoryPartnerId(null)}
+              className="text-xs text-primary-600 hover:text-primary-700"
+            >
+              Show all
+            </button>
+          )}
+        </div>
+
+        {tierChanges.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No tier changes yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tierChanges.map(change => (
+              <li key={change.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {partners.find(p => p.id === change.partnerId)?.name ?? change.partnerId}
+                    </span>
+                    {' '}
+                    <span className={tierColors[change.fromTier]}>{change.fromTier}</span>
+                    {' → '}
+                    <span className={cn('font-medium', tierColors[change.toTier])}>{change.toTier}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {change.conversions} conversions · {formatCurrency(change.revenueCents)} revenue
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className={cn(
+                    'px-2 py-1 text-xs font-medium rounded-full',
+                    change.reason === 'AUTOMATIC' ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-700'
+                  )}>
+                    {change.reason === 'AUTOMATIC' ? 'Automatic' : 'Manual'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatRelativeTime(new Date(change.createdAt))}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
@@ -21,11 +21,25 @@ interface Payout {
   amount: number;
   fee: number;
   netAmount: number;
+  partnerBalance: number;
   status: PayoutStatus;
   requestedAt: string;
   processedAt?: string | null;
 }
 
+interface PayoutRunSummary {
+  id: string;
+  trigger: 'SCHEDULED' | 'MANUAL';
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  transferredCount: number;
+  awaitingApprovalCount: number;
+  failedCount: number;
+  retryableCount: number;
+  transferredCents: number;
+  error?: string | null;
+  startedAt: string;
+}
+
 type FilterStatus = PayoutStatus | 'ALL';
 
 // ============================================
@@ -34,12 +48,34 @@ type FilterStatus = PayoutStatus | 'ALL';
 
 export function PayoutsClient(): React.ReactElement {
   const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [outstandingBalance, setOutstandingBalance] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<FilterStatus>('ALL');
   const [selectedPayouts, setSelectedPayouts] = useState<Set<string>>(new Set());
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [processingBulk, setProcessingBulk] = useState(false);
+  const [lastRun, setLastRun] = useState<PayoutRunSummary | null>(null);
+  const [runLoading, setRunLoading] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Fetch the latest payout run
+  useEffect(() => {
+    async function fetchLastRun() {
+      try {
+        const response = await fetch('/api/admin/payout-runs?limit=1');
+        const result: ApiResponse<{ runs: PayoutRunSummary[] }> = await response.json();
+        if (result.success && result.data) {
+          setLastRun(result.data.runs[0] ?? null);
+        }
+      } catch (err) {
+        console.error('Failed to load payout runs:', err);
+      }
+    }
+
+    fetchLastRun();
+  }, []);
 
   // Fetch payouts
   useEffect(() => {
@@ -47,10 +83,11 @@ export function PayoutsClient(): React.ReactElement {
       try {
         setLoading(true);
         const response = await fetch('/api/admin/payouts');
-        const result: ApiResponse<{ payouts: Payout[] }> = await response.json();
+        const result: ApiResponse<{ payouts: Payout[]; outstandingBalance: number }> = await response.json();
 
         if (result.success && result.data) {
           setPayouts(result.data.payouts);
+          setOutstandingBalance(result.data.outstandingBalance);
         } else {
           // Use demo data if API fails
           setPayouts([
@@ -62,6 +99,7 @@ export function PayoutsClient(): React.ReactElement {
               amount: 125000,
               fee: 1500,
               netAmount: 123500,
+              partnerBalance: 184500,
               status: 'PENDING',
               requestedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
             },
@@ -73,6 +111,7 @@ export function PayoutsClient(): React.ReactElement {
               amount: 250000,
               fee: 2750,
               netAmount: 247250,
+              partnerBalance: 62000,
               status: 'PROCESSING',
               requestedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
             },
@@ -84,6 +123,7 @@ export function PayoutsClient(): React.ReactElement {
               amount: 75000,
               fee: 1000,
               netAmount: 74000,
+              partnerBalance: 41000,
               status: 'COMPLETED',
               requestedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
               processedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
@@ -96,10 +136,12 @@ export function PayoutsClient(): React.ReactElement {
               amount: 50000,
               fee: 750,
               netAmount: 49250,
+              partnerBalance: 50000,
               status: 'FAILED',
               requestedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
             },
           ]);
+          setOutstandingBalance(337500);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load payouts');
@@ -109,6 +151,30 @@ export function PayoutsClient(): React.ReactElement {
     }
 
     fetchPayouts();
+  }, [refreshKey]);
+
+  // Start a payout run, or retry the last run's retryable items
+  const handleRunPayouts = useCallback(async (retryRunId?: string) => {
+    setRunLoading(true);
+    setRunError(null);
+    try {
+      const response = await fetch(
+        retryRunId ? `/api/admin/payout-runs/${retryRunId}/retry` : '/api/admin/payout-runs',
+        { method: 'POST' }
+      );
+      const result: ApiResponse<PayoutRunSummary> = await response.json();
+
+      if (result.success && result.data) {
+        setLastRun(result.data);
+        setRefreshKey(key => key + 1);
+      } else {
+        setRunError(result.error?.message ?? 'Payout run failed');
+      }
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : 'Payout run failed');
+    } finally {
+      setRunLoading(false);
+    }
   }, []);
 
   // Filter payouts
@@ -284,13 +350,57 @@ export function PayoutsClient(): React.ReactElement {
   return (
     <div className="space-y-6">
       {/* Page Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">Payouts</h1>
-        <p className="text-sm text-gray-500 mt-1">
-          Review and process partner payout requests
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payouts</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Review and process partner payout requests
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => handleRunPayouts()}
+          disabled={runLoading}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {runLoading ? 'Running...' : 'Run Payouts'}
+        </button>
       </div>
 
+      {/* Last Payout Run */}
+      {(lastRun || runError) && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          {runError && <p className="text-sm text-red-600">{runError}</p>}
+          {lastRun && (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Last {lastRun.trigger === 'SCHEDULED' ? 'scheduled' : 'manual'} run{' '}
+                  {formatRelativeTime(new Date(lastRun.startedAt))}
+                  {lastRun.status === 'RUNNING' && ' (in progress)'}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {lastRun.transferredCount} transferred ({formatCurrency(lastRun.transferredCents)}) ·{' '}
+                  {lastRun.awaitingApprovalCount} awaiting approval ·{' '}
+                  {lastRun.failedCount} failed
+                </p>
+                {lastRun.error && <p className="text-sm text-red-600 mt-1">{lastRun.error}</p>}
+              </div>
+              {lastRun.retryableCount > 0 && lastRun.status !== 'RUNNING' && (
+                <button
+                  type="button"
+                  onClick={() => handleRunPayouts(lastRun.id)}
+                  disabled={runLoading}
+                  className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Retry {lastRun.retryableCount} failed
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Error Banner */}
       {error && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -301,7 +411,7 @@ export function PayoutsClient(): React.ReactElement {
       )}
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
           <div className="flex items-center justify-between">
             <div>
@@ -341,6 +451,19 @@ export function PayoutsClient(): React.ReactElement {
             </div>
           </div>
         </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">Owed to Partners</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(outstandingBalance)}</p>
+            </div>
+            <div className="w-12 h-12 rounded-lg bg-gray-100 flex items-center justify-center">
+              <svg className="w-6 h-6 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+              </svg>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Filters & Bulk Actions */}
@@ -414,6 +537,7 @@ export function PayoutsClient(): React.ReactElement {
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fee</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -447,6 +571,9 @@ export function PayoutsClient(): React.ReactElement {
                     <td className="px-4 py-4 text-right text-sm font-medium text-green-600">
                       {formatCurrency(payout.netAmount)}
                     </td>
+                    <td className={cn('px-4 py-4 text-right text-sm', payout.partnerBalance < 0 ? 'text-red-600' : 'text-gray-700')}>
+                      {formatCurrency(payout.partnerBalance)}
+                    </td>
                     <td className="px-4 py-4">
                       <span className={cn('px-2 py-1 text-xs font-medium rounded-full', statusColors[payout.status])}>
                         {payout.status}
@@ -5,42 +5,402 @@
  * System configuration and settings management
  */
 
-import React, { useState } from 'react';
-import { cn } from '@/lib/utils';
+import React, { useState, useEffect, useCallback } from 'react';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  buildDefaultCommissionRules,
+  DEFAULT_RECRUITMENT_SETTINGS,
+  isTierBaseRule,
+  type RecruitmentSettings,
+} from '@/lib/commissions';
+import {
+  DEFAULT_TIER_SETTINGS,
+  type TierRequirement,
+  type TierSettings,
+} from '@/lib/tiers';
+import { DEFAULT_PAYOUT_SETTINGS, type PayoutSettings } from '@/lib/earnings';
+import type { InviteCodeState, InviteCodeWithStats } from '@/lib/invite-codes';
+import type {
+  ApiResponse,
+  CampaignSource,
+  PartnerTier,
+} from '@/types';
+import type { CommissionRule, CommissionRuleType } from '@/lib/db';
 
 // ============================================
 // Types
 // ============================================
 
 interface TierConfig {
+  tier: PartnerTier;
   name: string;
-  minReferrals: number;
-  commissionRate: number;
   color: string;
 }
 
+type RawCommissionRule = Omit<CommissionRule, 'startsAt' | 'endsAt' | 'createdAt' | 'updatedAt'> & {
+  startsAt?: string | null;
+  endsAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface RuleDraft {
+  name: string;
+  type: CommissionRuleType;
+  tier: PartnerTier | '';
+  source: CampaignSource | '';
+  partnerId: string;
+  minOrder: string;
+  maxOrder: string;
+  startsAt: string;
+  endsAt: string;
+  value: string;
+  priority: string;
+}
+
+type RawInviteCode = Omit<InviteCodeWithStats, 'expiresAt' | 'createdAt' | 'updatedAt'> & {
+  expiresAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface InviteDraft {
+  code: string;
+  description: string;
+  maxUses: string;
+  expiresAt: string;
+  defaultTier: PartnerTier;
+  invitedByPartnerId: string;
+}
+
+const EMPTY_INVITE_DRAFT: InviteDraft = {
+  code: '',
+  description: '',
+  maxUses: '',
+  expiresAt: '',
+  defaultTier: 'STANDARD',
+  invitedByPartnerId: '',
+};
+
+const INVITE_STATE_STYLES: Record<InviteCodeState, string> = {
+  ACTIVE: 'bg-green-100 text-green-700',
+  DISABLED: 'bg-gray-100 text-gray-600',
+  EXPIRED: 'bg-yellow-100 text-yellow-700',
+  EXHAUSTED: 'bg-red-100 text-red-700',
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  type: 'PERCENTAGE',
+  tier: '',
+  source: '',
+  partnerId: '',
+  minOrder: '',
+  maxOrder: '',
+  startsAt: '',
+  endsAt: '',
+  value: '',
+  priority: '10',
+};
+
+const TIERS: TierConfig[] = [
+  { tier: 'STANDARD', name: 'Standard', color: 'blue' },
+  { tier: 'SILVER', name: 'Silver', color: 'gray' },
+  { tier: 'GOLD', name: 'Gold', color: 'yellow' },
+  { tier: 'PLATINUM', name: 'Platinum', color: 'purple' },
+];
+
+const TIER_OPTIONS: PartnerTier[] = ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'];
+const SOURCE_OPTIONS: CampaignSource[] = ['LINKEDIN', 'TWITTER', 'FACEBOOK', 'EMAIL', 'SMS', 'WHATSAPP', 'WEBSITE', 'OTHER'];
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseRule(raw: RawCommissionRule): CommissionRule {
+  return {
+    ...raw,
+    startsAt: raw.startsAt ? new Date(raw.startsAt) : null,
+    endsAt: raw.endsAt ? new Date(raw.endsAt) : null,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+function toPercent(rate: number | null | undefined): number {
+  return Math.round((rate ?? 0) * 10000) / 100;
+}
+
+/**
+ * Parse "1000:10, 5000:15, *:20" into bands ($ upper bound : rate %)
+ */
+function parseBands(value: string): CommissionRule['bands'] {
+  const bands = value.split(',').map(part => {
+    const [upTo, rate] = part.split(':').map(v => v.trim());
+    return {
+      upToCents: !upTo || upTo === '*' ? null : Math.round(parseFloat(upTo) * 100),
+      rate: (parseFloat(rate ?? '') || 0) / 100,
+    };
+  });
+  return bands.length > 0 ? bands : null;
+}
+
+function describePayout(rule: CommissionRule): string {
+  switch (rule.type) {
+    case 'FLAT':
+      return `${formatCurrency(rule.flatAmountCents ?? 0)} flat`;
+    case 'PERCENTAGE':
+      return `${toPercent(rule.rate)}%`;
+    case 'TIERED_PERCENTAGE':
+      return (rule.bands ?? [])
+        .map(b => `${toPercent(b.rate)}%${b.upToCents !== null ? ` to ${formatCurrency(b.upToCents)}` : ' above'}`)
+        .join(', ');
+  }
+}
+
+function describeConditions(rule: CommissionRule): string {
+  const parts: string[] = [];
+  if (rule.partnerId) parts.push(`Partner ${rule.partnerId}`);
+  parts.push(rule.tiers.length > 0 ? rule.tiers.join('/') : 'All tiers');
+  if (rule.sources.length > 0) parts.push(rule.sources.join('/'));
+  if (rule.minOrderCents != null) parts.push(`≥ ${formatCurrency(rule.minOrderCents)}`);
+  if (rule.maxOrderCents != null) parts.push(`< ${formatCurrency(rule.maxOrderCents)}`);
+  if (rule.startsAt) parts.push(`from ${rule.startsAt.toLocaleDateString()}`);
+  if (rule.endsAt) parts.push(`until ${rule.endsAt.toLocaleDateString()}`);
+  return parts.join(' · ');
+}
+
 // ============================================
 // Settings Client Component
 // ============================================
 
 export function SettingsClient(): React.ReactElement {
-  const [activeSection, setActiveSection] = useState<'general' | 'tiers' | 'payouts' | 'notifications'>('general');
+  const [activeSection, setActiveSection] = useState<'general' | 'tiers' | 'commissions' | 'invites' | 'payouts' | 'notifications'>('general');
   const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Tier requirements used by the tier evaluation job
+  const [tierSettings, setTierSettings] = useState<TierSettings>(DEFAULT_TIER_SETTINGS);
+  const [tierSettingsDirty, setTierSettingsDirty] = useState(false);
+
+  // Payout hold period enforced when partners request payouts
+  const [payoutHoldSettings, setPayoutHoldSettings] = useState<PayoutSettings>(DEFAULT_PAYOUT_SETTINGS);
+  const [payoutHoldDirty, setPayoutHoldDirty] = useState(false);
+
+  // Override recruiters earn on their recruits' commission
+  const [recruitmentSettings, setRecruitmentSettings] = useState<RecruitmentSettings>(DEFAULT_RECRUITMENT_SETTINGS);
+  const [recruitmentDirty, setRecruitmentDirty] = useState(false);
+
+  // Commission rules (tier rates are the per-tier base rules)
+  const [rules, setRules] = useState<CommissionRule[]>(() => buildDefaultCommissionRules());
+  const [dirtyRuleIds, setDirtyRuleIds] = useState<Set<string>>(new Set());
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  // Invite codes with redemption and signup counts
+  const [inviteCodes, setInviteCodes] = useState<RawInviteCode[]>([]);
+  const [inviteDraft, setInviteDraft] = useState<InviteDraft>(EMPTY_INVITE_DRAFT);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const fetchInviteCodes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/invite-codes');
+      const result: ApiResponse<{ inviteCodes: RawInviteCode[] }> = await response.json();
+
+      if (result.success && result.data) {
+        setInviteCodes(result.data.inviteCodes);
+      }
+    } catch (err) {
+      console.error('Failed to load invite codes:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInviteCodes();
+  }, [fetchInviteCodes]);
+
+  // Fetch commission rules
+  useEffect(() => {
+    async function fetchRules() {
+      try {
+        const response = await fetch('/api/admin/commission-rules');
+        const result: ApiResponse<{ rules: RawCommissionRule[] }> = await response.json();
+
+        if (result.success && result.data) {
+          setRules(result.data.rules.map(parseRule));
+        }
+      } catch (err) {
+        // Keep the default tier rules
+        console.error('Failed to load commission rules:', err);
+      }
+    }
+
+    fetchRules();
+  }, []);
+
+  // Fetch tier and payout settings
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch('/api/admin/settings');
+        const result: ApiResponse<{
+          tiers: TierSettings;
+          payouts: PayoutSettings;
+          recruitment: RecruitmentSettings;
+        }> = await response.json();
+
+        if (result.success && result.data) {
+          setTierSettings(result.data.tiers);
+          setPayoutHoldSettings(result.data.payouts);
+          setRecruitmentSettings(result.data.recruitment);
+        }
+      } catch (err) {
+        // Keep the default requirements
+        console.error('Failed to load settings:', err);
+      }
+    }
+
+    fetchSettings();
+  }, []);
+
+  const updateTierSettings = useCallback((update: Partial<TierSettings>) => {
+    setTierSettings(prev => ({ ...prev, ...update }));
+    setTierSettingsDirty(true);
+  }, []);
+
+  const updateTierRequirement = useCallback((tier: PartnerTier, update: Partial<TierRequirement>) => {
+    setTierSettings(prev => {
+      const existing = prev.requirements.find(r => r.tier === tier)
+        ?? { tier, minConversions: 0, minRevenueCents: 0 };
+      return {
+        ...prev,
+        requirements: [
+          ...prev.requirements.filter(r => r.tier !== tier),
+          { ...existing, ...update },
+        ],
+      };
+    });
+    setTierSettingsDirty(true);
+  }, []);
+
+  const updateTierRate = useCallback((tier: PartnerTier, percent: number) => {
+    const rule = rules.find(r => isTierBaseRule(r, tier));
+    if (!rule) return;
+
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, rate: percent / 100 } : r));
+    setDirtyRuleIds(prev => new Set(prev).add(rule.id));
+  }, [rules]);
+
+  const handleToggleRule = useCallback(async (rule: CommissionRule) => {
+    const response = await fetch(`/api/admin/commission-rules/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
 
-  // Demo tier configuration
-  const [tiers, setTiers] = useState<TierConfig[]>([
-    { name: 'Standard', minReferrals: 0, commissionRate: 10, color: 'blue' },
-    { name: 'Silver', minReferrals: 10, commissionRate: 12, color: 'gray' },
-    { name: 'Gold', minReferrals: 50, commissionRate: 15, color: 'yellow' },
-    { name: 'Platinum', minReferrals: 100, commissionRate: 20, color: 'purple' },
-  ]);
+    if (response.ok) {
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, isActive: !r.isActive } : r));
+    }
+  }, []);
+
+  const handleDeleteRule = useCallback(async (ruleId: string) => {
+    const response = await fetch(`/api/admin/commission-rules/${ruleId}`, { method: 'DELETE' });
+
+    if (response.ok) {
+      setRules(prev => prev.filter(r => r.id !== ruleId));
+    }
+  }, []);
+
+  const handleCreateRule = useCallback(async () => {
+    setRuleError(null);
+    const value = ruleDraft.value.trim();
+
+    const response = await fetch('/api/admin/commission-rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: ruleDraft.name,
+        type: ruleDraft.type,
+        priority: parseInt(ruleDraft.priority) || 0,
+        partnerId: ruleDraft.partnerId.trim() || null,
+        tiers: ruleDraft.tier ? [ruleDraft.tier] : [],
+        sources: ruleDraft.source ? [ruleDraft.source] : [],
+        minOrderCents: ruleDraft.minOrder ? Math.round(parseFloat(ruleDraft.minOrder) * 100) : null,
+        maxOrderCents: ruleDraft.maxOrder ? Math.round(parseFloat(ruleDraft.maxOrder) * 100) : null,
+        startsAt: ruleDraft.startsAt || null,
+        endsAt: ruleDraft.endsAt || null,
+        flatAmountCents: ruleDraft.type === 'FLAT' ? Math.round((parseFloat(value) || 0) * 100) : null,
+        rate: ruleDraft.type === 'PERCENTAGE' ? (parseFloat(value) || 0) / 100 : null,
+        bands: ruleDraft.type === 'TIERED_PERCENTAGE' ? parseBands(value) : null,
+      }),
+    });
+
+    const result: ApiResponse<{ rule: RawCommissionRule }> = await response.json();
+
+    if (result.success && result.data) {
+      const created = parseRule(result.data.rule);
+      setRules(prev => [created, ...prev]);
+      setRuleDraft(EMPTY_DRAFT);
+    } else {
+      setRuleError(result.error?.message ?? 'Failed to create rule');
+    }
+  }, [ruleDraft]);
+
+  const handleCreateInviteCode = useCallback(async () => {
+    setInviteError(null);
+
+    const response = await fetch('/api/admin/invite-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code: inviteDraft.code.trim() || undefined,
+        description: inviteDraft.description.trim() || null,
+        maxUses: inviteDraft.maxUses ? parseInt(inviteDraft.maxUses) : null,
+        expiresAt: inviteDraft.expiresAt || null,
+        defaultTier: inviteDraft.defaultTier,
+        invitedByPartnerId: inviteDraft.invitedByPartnerId.trim() || null,
+      }),
+    });
+
+    const result: ApiResponse<{ inviteCode: RawInviteCode }> = await response.json();
+
+    if (result.success) {
+      setInviteDraft(EMPTY_INVITE_DRAFT);
+      await fetchInviteCodes();
+    } else {
+      setInviteError(result.error?.message ?? 'Failed to create invite code');
+    }
+  }, [inviteDraft, fetchInviteCodes]);
+
+  const handleToggleInviteCode = useCallback(async (inviteCode: RawInviteCode) => {
+    const response = await fetch(`/api/admin/invite-codes/${inviteCode.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !inviteCode.isActive }),
+    });
+
+    if (response.ok) {
+      await fetchInviteCodes();
+    }
+  }, [fetchInviteCodes]);
+
+  const handleDeleteInviteCode = useCallback(async (inviteCodeId: string) => {
+    setInviteError(null);
+    const response = await fetch(`/api/admin/invite-codes/${inviteCodeId}`, { method: 'DELETE' });
+
+    if (response.ok) {
+      setInviteCodes(prev => prev.filter(c => c.id !== inviteCodeId));
+    } else {
+      const result: ApiResponse<never> = await response.json();
+      setInviteError(result.error?.message ?? 'Failed to delete invite code');
+    }
+  }, []);
 
   // Demo payout settings
   const [payoutSettings, setPayoutSettings] = useState({
     minimumPayout: 1000, // $10 in cents
     platformFeePercent: 1,
     processingFee: 25, // $0.25 in cents
-    autoApproveThreshold: 50000, // $500 auto-approve
   });
 
   // Demo notification settings
@@ -53,7 +413,50 @@ export function SettingsClient(): React.ReactElement {
     slackWebhookUrl: '',
   });
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    setSaveError(null);
+
+    // Persist edited tier rates
+    const dirtyRules = rules.filter(r => dirtyRuleIds.has(r.id));
+    const responses = await Promise.all(
+      dirtyRules.map(rule =>
+        fetch(`/api/admin/commission-rules/${rule.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rate: rule.rate }),
+        }).catch(() => null)
+      )
+    );
+
+    if (responses.some(r => !r?.ok)) {
+      setSaveError('Some commission rates could not be saved');
+      return;
+    }
+
+    setDirtyRuleIds(new Set());
+
+    // Persist tier requirements, the payout hold period and recruiter overrides
+    if (tierSettingsDirty || payoutHoldDirty || recruitmentDirty) {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(tierSettingsDirty && { tiers: tierSettings }),
+          ...(payoutHoldDirty && { payouts: payoutHoldSettings }),
+          ...(recruitmentDirty && { recruitment: recruitmentSettings }),
+        }),
+      }).catch(() => null);
+
+      if (!response?.ok) {
+        setSaveError('Program settings could not be saved');
+        return;
+      }
+
+      setTierSettingsDirty(false);
+      setPayoutHoldDirty(false);
+      setRecruitmentDirty(false);
+    }
+
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
@@ -61,6 +464,8 @@ export function SettingsClient(): React.ReactElement {
   const sections = [
     { key: 'general', label: 'General', icon: '⚙️' },
     { key: 'tiers', label: 'Partner Tiers', icon: '🏆' },
+    { key: 'commissions', label: 'Commission Rules', icon: '📐' },
+    { key: 'invites', label: 'Invite Codes', icon: '🎟️' },
     { key: 'payouts', label: 'Payouts', icon: '💰' },
     { key: 'notifications', label: 'Notifications', icon: '🔔' },
   ] as const;
@@ -168,64 +573,411 @@ export function SettingsClient(): React.ReactElement {
               <div className="space-y-6">
                 <h2 className="text-lg font-semibold text-gray-900">Partner Tiers</h2>
                 <p className="text-sm text-gray-500">
-                  Configure commission rates and requirements for each tier
+                  Configure commission rates and requirements for each tier. Partners are
+                  promoted as soon as they qualify and demoted after the grace period.
                 </p>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rolling Window (days)
+                    </label>
+                    <input
+                      type="number"
+                      value={tierSettings.windowDays}
+                      onChange={(e) => updateTierSettings({ windowDays: parseInt(e.target.value) || 1 })}
+                      className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Period conversions and revenue are measured over
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Demotion Grace Period (days)
+                    </label>
+                    <input
+                      type="number"
+                      value={tierSettings.gracePeriodDays}
+                      onChange={(e) => updateTierSettings({ gracePeriodDays: parseInt(e.target.value) || 0 })}
+                      className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Time below requirements before a partner is demoted
+                    </p>
+                  </div>
+                </div>
+
                 <div className="space-y-4">
-                  {tiers.map((tier, index) => (
-                    <div key={tier.name} className="p-4 border border-gray-200 rounded-lg">
-                      <div className="flex items-center justify-between mb-4">
-                        <h3 className={cn(
-                          'font-semibold',
-                          tier.color === 'blue' && 'text-amber-600',
-                          tier.color === 'gray' && 'text-gray-500',
-                          tier.color === 'yellow' && 'text-yellow-500',
-                          tier.color === 'purple' && 'text-purple-600'
-                        )}>
-                          {tier.name}
-                        </h3>
-                      </div>
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-xs font-medium text-gray-500 mb-1">
-                            Min Referrals
-                          </label>
-                          <input
-                            type="number"
-                            value={tier.minReferrals}
-                            onChange={(e) => {
-                              const newTiers = [...tiers];
-                              const tierToUpdate = newTiers[index];
-                              if (tierToUpdate) {
-                                tierToUpdate.minReferrals = parseInt(e.target.value) || 0;
-                                setTiers(newTiers);
-                              }
-                            }}
-                            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          />
+                  {TIERS.map((tier) => {
+                    const requirement = tierSettings.requirements.find(r => r.tier === tier.tier);
+
+                    return (
+                      <div key={tier.name} className="p-4 border border-gray-200 rounded-lg">
+                        <div className="flex items-center justify-between mb-4">
+                          <h3 className={cn(
+                            'font-semibold',
+                            tier.color === 'blue' && 'text-amber-600',
+                            tier.color === 'gray' && 'text-gray-500',
+                            tier.color === 'yellow' && 'text-yellow-500',
+                            tier.color === 'purple' && 'text-purple-600'
+                          )}>
+                            {tier.name}
+                          </h3>
                         </div>
-                        <div>
-                          <label className="block text-xs font-medium text-gray-500 mb-1">
-                            Commission Rate (%)
-                          </label>
-                          <input
-                            type="number"
-                            value={tier.commissionRate}
-                            onChange={(e) => {
-                              const newTiers = [...tiers];
-                              const tierToUpdate = newTiers[index];
-                              if (tierToUpdate) {
-                                tierToUpdate.commissionRate = parseInt(e.target.value) || 0;
-                                setTiers(newTiers);
-                              }
-                            }}
-                            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          />
+                        <div className="grid grid-cols-3 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">
+                              Min Conversions
+                            </label>
+                            <input
+                              type="number"
+                              value={requirement?.minConversions ?? 0}
+                              onChange={(e) => updateTierRequirement(tier.tier, {
+                                minConversions: parseInt(e.target.value) || 0,
+                              })}
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">
+                              Min Revenue ($)
+                            </label>
+                            <input
+                              type="number"
+                              value={(requirement?.minRevenueCents ?? 0) / 100}
+                              onChange={(e) => updateTierRequirement(tier.tier, {
+                                minRevenueCents: Math.round((parseFloat(e.target.value) || 0) * 100),
+                              })}
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">
+                              Commission Rate (%)
+                            </label>
+                            <input
+                              type="number"
+                              step="0.1"
+                              value={toPercent(rules.find(r => isTierBaseRule(r, tier.tier))?.rate)}
+                              onChange={(e) => updateTierRate(tier.tier, parseFloat(e.target.value) || 0)}
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                          </div>
                         </div>
                       </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Commission Rules */}
+            {activeSection === 'commissions' && (
+              <div className="space-y-6">
+                <h2 className="text-lg font-semibold text-gray-900">Commission Rules</h2>
+                <p className="text-sm text-gray-500">
+                  The matching rule with a partner override, then the highest priority, sets the commission
+                </p>
+
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {rules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-4 p-4">
+                      <div className="min-w-0">
+                        <p className={cn('font-medium', rule.isActive ? 'text-gray-900' : 'text-gray-400')}>
+                          {rule.name}
+                          <span className="ml-2 text-xs text-gray-500">priority {rule.priority}</span>
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{describeConditions(rule)}</p>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span className="text-sm font-semibold text-gray-900">{describePayout(rule)}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleToggleRule(rule)}
+                          className="text-xs text-primary-600 hover:text-primary-700"
+                        >
+                          {rule.isActive ? 'Disable' : 'Enable'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteRule(rule.id)}
+                          className="text-xs text-red-600 hover:text-red-700"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+                  <h3 className="font-semibold text-gray-900">Add Rule</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="text"
+                      placeholder="Rule name"
+                      value={ruleDraft.name}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, name: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <select
+                      aria-label="Payout type"
+                      value={ruleDraft.type}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, type: e.target.value as CommissionRuleType })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="PERCENTAGE">Percentage</option>
+                      <option value="FLAT">Flat amount</option>
+                      <option value="TIERED_PERCENTAGE">Tiered percentage</option>
+                    </select>
+                    <select
+                      aria-label="Tier"
+                      value={ruleDraft.tier}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, tier: e.target.value as PartnerTier | '' })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="">Any tier</option>
+                      {TIER_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <select
+                      aria-label="Campaign source"
+                      value={ruleDraft.source}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, source: e.target.value as CampaignSource | '' })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="">Any source</option>
+                      {SOURCE_OPTIONS.map(src => <option key={src} value={src}>{src}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      placeholder="Min order ($)"
+                      value={ruleDraft.minOrder}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, minOrder: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Max order ($)"
+                      value={ruleDraft.maxOrder}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, maxOrder: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="date"
+                      aria-label="Starts"
+                      value={ruleDraft.startsAt}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, startsAt: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="date"
+                      aria-label="Ends"
+                      value={ruleDraft.endsAt}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, endsAt: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Partner ID override (optional)"
+                      value={ruleDraft.partnerId}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, partnerId: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Priority"
+                      value={ruleDraft.priority}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, priority: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="text"
+                      placeholder={
+                        ruleDraft.type === 'FLAT'
+                          ? 'Amount ($)'
+                          : ruleDraft.type === 'PERCENTAGE'
+                            ? 'Rate (%)'
+                            : 'Bands, e.g. 1000:10, *:15'
+                      }
+                      value={ruleDraft.value}
+                      onChange={(e) => setRuleDraft({ ...ruleDraft, value: e.target.value })}
+                      className="col-span-2 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  {ruleError && <p className="text-sm text-red-600">{ruleError}</p>}
+                  <button
+                    type="button"
+                    onClick={handleCreateRule}
+                    disabled={!ruleDraft.name.trim() || !ruleDraft.value.trim()}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    Add Rule
+                  </button>
+                </div>
+
+                <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+                  <h3 className="font-semibold text-gray-900">Recruiter Override</h3>
+                  <p className="text-sm text-gray-500">
+                    Partners who recruit another partner earn a share of that partner&apos;s commission
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Override (% of recruit&apos;s commission)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step="0.5"
+                        value={Math.round(recruitmentSettings.overrideRate * 1000) / 10}
+                        onChange={(e) => {
+                          setRecruitmentSettings({
+                            ...recruitmentSettings,
+                            overrideRate: (parseFloat(e.target.value) || 0) / 100,
+                          });
+                          setRecruitmentDirty(true);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Paid for (months after joining)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={120}
+                        value={recruitmentSettings.overrideMonths}
+                        onChange={(e) => {
+                          setRecruitmentSettings({
+                            ...recruitmentSettings,
+                            overrideMonths: parseInt(e.target.value) || 0,
+                          });
+                          setRecruitmentDirty(true);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Invite Codes */}
+            {activeSection === 'invites' && (
+              <div className="space-y-6">
+                <h2 className="text-lg font-semibold text-gray-900">Invite Codes</h2>
+                <p className="text-sm text-gray-500">
+                  Applicants with a valid code skip the waitlist and start at the code&apos;s tier when approved
+                </p>
+
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {inviteCodes.length === 0 && (
+                    <p className="p-4 text-sm text-gray-500">No invite codes yet</p>
+                  )}
+                  {inviteCodes.map((inviteCode) => (
+                    <div key={inviteCode.id} className="flex items-center justify-between gap-4 p-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900">
+                          <span className="font-mono">{inviteCode.code}</span>
+                          <span className={cn('ml-2 px-2 py-0.5 text-xs rounded-full', INVITE_STATE_STYLES[inviteCode.state])}>
+                            {inviteCode.state.toLowerCase()}
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {[
+                            inviteCode.description,
+                            inviteCode.defaultTier,
+                            inviteCode.invitedByPartnerId && `Invited by ${inviteCode.invitedByPartnerId}`,
+                            inviteCode.expiresAt && `expires ${new Date(inviteCode.expiresAt).toLocaleDateString()}`,
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span className="text-sm text-gray-900">
+                          {inviteCode.useCount}{inviteCode.maxUses != null ? ` / ${inviteCode.maxUses}` : ''} used
+                        </span>
+                        <span className="text-sm font-semibold text-gray-900">{inviteCode.signups} signups</span>
+                        <button
+                          type="button"
+                          onClick={() => handleToggleInviteCode(inviteCode)}
+                          className="text-xs text-primary-600 hover:text-primary-700"
+                        >
+                          {inviteCode.isActive ? 'Disable' : 'Enable'}
+                        </button>
+                        {inviteCode.redemptions === 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteInviteCode(inviteCode.id)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </div>
+
+                <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+                  <h3 className="font-semibold text-gray-900">Add Invite Code</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="text"
+                      placeholder="Code (generated if empty)"
+                      value={inviteDraft.code}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, code: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Description"
+                      value={inviteDraft.description}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, description: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Max uses (unlimited if empty)"
+                      value={inviteDraft.maxUses}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, maxUses: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="date"
+                      aria-label="Expires"
+                      value={inviteDraft.expiresAt}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, expiresAt: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <select
+                      aria-label="Default tier"
+                      value={inviteDraft.defaultTier}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, defaultTier: e.target.value as PartnerTier })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {TIER_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      placeholder="Inviting partner ID (optional)"
+                      value={inviteDraft.invitedByPartnerId}
+                      onChange={(e) => setInviteDraft({ ...inviteDraft, invitedByPartnerId: e.target.value })}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  {inviteError && <p className="text-sm text-red-600">{inviteError}</p>}
+                  <button
+                    type="button"
+                    onClick={handleCreateInviteCode}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-600 text-white hover:bg-primary-700"
+                  >
+                    Add Invite Code
+                  </button>
+                </div>
               </div>
             )}
 
@@ -235,6 +987,29 @@ export function SettingsClient(): React.ReactElement {
                 <h2 className="text-lg font-semibold text-gray-900">Payout Settings</h2>
                 
                 <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Commission Hold Period (days)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={365}
+                      value={payoutHoldSettings.holdDays}
+                      onChange={(e) => {
+                        setPayoutHoldSettings({
+                          ...payoutHoldSettings,
+                          holdDays: parseInt(e.target.value) || 0,
+                        });
+                        setPayoutHoldDirty(true);
+                      }}
+                      className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Commission can be paid out this many days after conversion, once the refund window has passed
+                    </p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Minimum Payout Amount ($)
@@ -289,16 +1064,20 @@ export function SettingsClient(): React.ReactElement {
                     </label>
                     <input
                       type="number"
-                      value={payoutSettings.autoApproveThreshold / 100}
-                      onChange={(e) => setPayoutSettings({
-                        ...payoutSettings,
-                        autoApproveThreshold: (parseFloat(e.target.value) || 0) * 100,
-                      })}
+                      min={0}
+                      value={payoutHoldSettings.autoApproveThreshold / 100}
+                      onChange={(e) => {
+                        setPayoutHoldSettings({
+                          ...payoutHoldSettings,
+                          autoApproveThreshold: Math.round((parseFloat(e.target.value) || 0) * 100),
+                        });
+                        setPayoutHoldDirty(true);
+                      }}
                       step="1"
                       className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Payouts under this amount are auto-approved
+                      Payout runs transfer amounts under this straight away; larger payouts wait for approval
                     </p>
                   </div>
                 </div>
@@ -395,7 +1174,8 @@ export function SettingsClient(): React.ReactElement {
             )}
 
             {/* Save Button */}
-            <div className="mt-6 pt-6 border-t border-gray-200 flex justify-end">
+            <div className="mt-6 pt-6 border-t border-gray-200 flex items-center justify-end gap-4">
+              {saveError && <p className="text-sm text-red-600">{saveError}</p>}
               <button
                 type="button"
                 onClick={handleSave}
@@ -0,0 +1,107 @@
+/**
+ * Admin Application Review API Endpoint
+ * POST /api/admin/applications/[id]/review
+ *
+ * Approve, reject or request more info on a partner application.
+ * Approval creates the partner and sends the welcome email; every review is audited
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { applicationReviewSchema } from '@/lib/applications';
+import { reviewApplication } from '@/lib/application-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { logger } from '@/lib/monitoring';
+import type { Partner, PartnerApplication } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ReviewResponse {
+  application: PartnerApplication;
+  partner?: Partner;
+}
+
+const ERROR_STATUS = {
+  NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  ALREADY_REVIEWED: { code: ErrorCodes.CONFLICT, status: 409 },
+  PARTNER_EXISTS: { code: ErrorCodes.CONFLICT, status: 409 },
+} as const;
+
+// ============================================
+// Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<ReviewResponse>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id: applicationId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'),
+        { status: 400 }
+      );
+    }
+
+    const validation = applicationReviewSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid review',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewApplication(
+      applicationId,
+      validation.data,
+      getRequestAuditContext(request, adminId)
+    );
+
+    if (!result.success || !result.application) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(
+        errorResponse(code, result.error ?? 'Review failed'),
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      successResponse({ application: result.application, partner: result.partner }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminApplicationReview] Error', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Admin Applications API Endpoint
+ * GET /api/admin/applications - Partner applications, oldest first
+ *
+ * Query: status (an application status, or PENDING_REVIEW for the review queue),
+ * limit (default 50, max 100), offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { applicationListQuerySchema, PENDING_REVIEW_STATUSES } from '@/lib/applications';
+import { listApplications } from '@/lib/application-service';
+import { logger } from '@/lib/monitoring';
+import type { PartnerApplication } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface ApplicationListResponse {
+  applications: PartnerApplication[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ApplicationListResponse>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const validation = applicationListQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { status, limit, offset } = validation.data;
+    const statuses = status === 'PENDING_REVIEW' ? PENDING_REVIEW_STATUSES : [status];
+    const { applications, total } = await listApplications(statuses, { limit, offset });
+
+    return NextResponse.json(
+      successResponse({ applications, total, limit, offset }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminApplications] Error listing applications', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
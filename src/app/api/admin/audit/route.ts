@@ -0,0 +1,75 @@
+/**
+ * Admin Audit Log API Endpoint
+ * GET /api/admin/audit - Audit log entries, newest first
+ *
+ * Query: actorId, action, targetType, targetId, since, until (ISO dates),
+ * limit (default 50, max 100), offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { auditLogQuerySchema } from '@/lib/audit';
+import { listAuditLog } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { AuditLogEntry } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<AuditLogResponse>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const validation = auditLogQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { limit, offset, ...filter } = validation.data;
+    const { entries, total } = await listAuditLog(filter, { limit, offset });
+
+    return NextResponse.json(
+      successResponse({ entries, total, limit, offset }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminAudit] Error listing audit log', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
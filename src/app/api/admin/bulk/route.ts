@@ -2,16 +2,22 @@
  * Admin Bulk Operations API Endpoint
  * POST /api/admin/bulk
  * 
- * Perform bulk actions on partners and payouts
+ * Perform bulk actions on partners and payouts; each changed record is audited
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse, PartnerStatus, PartnerTier } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import { getPartnerRepository, getPayoutRepository } from '@/lib/repositories';
+import {
+  markPayoutEarningsPaid,
+  recordPayoutTransition,
+  releasePayoutBalance,
+} from '@/lib/payment-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -53,25 +59,7 @@ export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<BulkResult>>> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    const adminId = await requireAdminId();
 
     // Parse body
     const body = await request.json();
@@ -89,6 +77,9 @@ export async function POST(
     }
 
     const { action, ids, tier } = validation.data;
+    const auditContext = getRequestAuditContext(request, adminId);
+    // e.g. suspend_partners is audited as partner.suspend
+    const auditVerb = action.slice(0, action.indexOf('_'));
     const result: BulkResult = {
       total: ids.length,
       successful: 0,
@@ -159,6 +150,14 @@ export async function POST(
 
           if (Object.keys(updateData).length > 0) {
             await partnerRepo.update(id, updateData);
+            await recordAuditEvent(auditContext, {
+              action: `partner.${auditVerb}`,
+              targetType: 'PARTNER',
+              targetId: id,
+              before: { status: partner.status, tier: partner.tier },
+              after: { status: newStatus ?? partner.status, tier: newTier ?? partner.tier },
+              metadata: { bulk: true },
+            });
           }
 
           result.successful++;
@@ -203,10 +202,19 @@ export async function POST(
 
           // Update payout
           if (newStatus) {
-            await payoutRepo.update(id, { 
+            const updated = await payoutRepo.update(id, { 
               status: newStatus,
               processedAt: new Date(),
             });
+            await recordPayoutTransition(auditContext, `payout.${auditVerb}`, payout, updated, { bulk: true });
+          }
+
+          if (newStatus === 'COMPLETED') {
+            await markPayoutEarningsPaid(id);
+          }
+
+          if (newStatus === 'FAILED') {
+            await releasePayoutBalance(payout, 'Rejected by an admin');
           }
 
           result.successful++;
@@ -0,0 +1,174 @@
+/**
+ * Admin Commission Rule API Endpoint
+ * PATCH  /api/admin/commission-rules/[id] - Update a rule
+ * DELETE /api/admin/commission-rules/[id] - Delete a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getCommissionRuleRepository, getPartnerRepository } from '@/lib/repositories';
+import { commissionRuleInputSchema, validateCommissionRule } from '@/lib/commissions';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { CommissionRule } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const updateRuleSchema = commissionRuleInputSchema.partial();
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// PATCH Handler
+// ============================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ rule: CommissionRule }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateRuleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid commission rule',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const ruleRepo = getCommissionRuleRepository();
+    const existing = await ruleRepo.findById(id);
+
+    if (!existing) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Commission rule not found'),
+        { status: 404 }
+      );
+    }
+
+    // Validate the rule as it will be after the update
+    const ruleError = validateCommissionRule({ ...existing, ...validation.data });
+    if (ruleError) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, ruleError),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId } = validation.data;
+    if (partnerId && !(await getPartnerRepository().findById(partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const rule = await ruleRepo.update(id, validation.data);
+
+    if (!rule) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Commission rule not found'),
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'commission_rule.update',
+      targetType: 'COMMISSION_RULE',
+      targetId: id,
+      before: existing,
+      after: rule,
+    });
+
+    logger.info('[AdminCommissionRules] Rule updated', {
+      ruleId: id,
+      fields: Object.keys(validation.data),
+    });
+
+    return NextResponse.json(successResponse({ rule }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminCommissionRules] Error updating rule', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// DELETE Handler
+// ============================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+    const ruleRepo = getCommissionRuleRepository();
+    const existing = await ruleRepo.findById(id);
+
+    if (!existing || !(await ruleRepo.delete(id))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Commission rule not found'),
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'commission_rule.delete',
+      targetType: 'COMMISSION_RULE',
+      targetId: id,
+      before: existing,
+      after: null,
+    });
+
+    logger.info('[AdminCommissionRules] Rule deleted', { ruleId: id });
+
+    return NextResponse.json(successResponse({ deleted: true }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminCommissionRules] Error deleting rule', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
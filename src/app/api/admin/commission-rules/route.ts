@@ -0,0 +1,133 @@
+/**
+ * Admin Commission Rules API Endpoint
+ * GET  /api/admin/commission-rules - List all rules
+ * POST /api/admin/commission-rules - Create a rule
+ *
+ * Rules are evaluated by the commission engine for every conversion
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getCommissionRuleRepository, getPartnerRepository } from '@/lib/repositories';
+import {
+  buildCommissionRule,
+  commissionRuleInputSchema,
+  validateCommissionRule,
+} from '@/lib/commissions';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { CommissionRule } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const createRuleSchema = commissionRuleInputSchema
+  .partial()
+  .required({ name: true, type: true });
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(): Promise<NextResponse<ApiResponse<{ rules: CommissionRule[] }>>> {
+  try {
+    await requireAdminId();
+
+    const rules = await getCommissionRuleRepository().findAll();
+
+    return NextResponse.json(successResponse({ rules }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminCommissionRules] Error listing rules', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ rule: CommissionRule }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const body = await request.json();
+    const validation = createRuleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid commission rule',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const data = buildCommissionRule(validation.data);
+
+    const ruleError = validateCommissionRule(data);
+    if (ruleError) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, ruleError),
+        { status: 400 }
+      );
+    }
+
+    if (data.partnerId && !(await getPartnerRepository().findById(data.partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const rule = await getCommissionRuleRepository().create(data);
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'commission_rule.create',
+      targetType: 'COMMISSION_RULE',
+      targetId: rule.id,
+      before: null,
+      after: rule,
+    });
+
+    logger.info('[AdminCommissionRules] Rule created', {
+      ruleId: rule.id,
+      type: rule.type,
+      partnerId: rule.partnerId,
+    });
+
+    return NextResponse.json(successResponse({ rule }), { status: 201 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminCommissionRules] Error creating rule', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -8,8 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import { getPartnerRepository, getPayoutRepository, getReferralRepository } from '@/lib/repositories';
 import { logger } from '@/lib/monitoring';
 import type { Referral, Payout } from '@/lib/db';
@@ -56,25 +55,7 @@ export async function GET(
   request: NextRequest
 ): Promise<NextResponse> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    await requireAdminId();
 
     // Parse query params
     const { searchParams } = new URL(request.url);
@@ -0,0 +1,163 @@
+/**
+ * Admin Invite Code API Endpoint
+ * GET    /api/admin/invite-codes/[id] - Code with stats and its latest redemptions
+ * PATCH  /api/admin/invite-codes/[id] - Update or deactivate a code
+ * DELETE /api/admin/invite-codes/[id] - Delete a code that was never redeemed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { inviteCodeUpdateSchema, type InviteCodeWithStats } from '@/lib/invite-codes';
+import {
+  deleteInviteCode,
+  getInviteCodeDetails,
+  updateInviteCode,
+} from '@/lib/invite-code-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { logger } from '@/lib/monitoring';
+import type { InviteCode, InviteCodeRedemption } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS = {
+  NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  PARTNER_NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  DUPLICATE_CODE: { code: ErrorCodes.CONFLICT, status: 409 },
+  IN_USE: { code: ErrorCodes.CONFLICT, status: 409 },
+} as const;
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ inviteCode: InviteCodeWithStats; redemptions: InviteCodeRedemption[] }>>> {
+  try {
+    await requireAdminId();
+
+    const { id } = await params;
+    const details = await getInviteCodeDetails(id);
+
+    if (!details) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Invite code not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(successResponse(details), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminInviteCodes] Error fetching invite code', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// PATCH Handler
+// ============================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ inviteCode: InviteCode }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = inviteCodeUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid invite code',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await updateInviteCode(id, validation.data, getRequestAuditContext(request, adminId));
+
+    if (!result.success || !result.inviteCode) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(errorResponse(code, result.error ?? 'Could not update invite code'), { status });
+    }
+
+    return NextResponse.json(successResponse({ inviteCode: result.inviteCode }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminInviteCodes] Error updating invite code', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// DELETE Handler
+// ============================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+    const result = await deleteInviteCode(id, getRequestAuditContext(request, adminId));
+
+    if (!result.success) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(errorResponse(code, result.error ?? 'Could not delete invite code'), { status });
+    }
+
+    return NextResponse.json(successResponse({ deleted: true }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminInviteCodes] Error deleting invite code', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Admin Invite Codes API Endpoint
+ * GET  /api/admin/invite-codes - List codes with redemption and signup counts
+ * POST /api/admin/invite-codes - Create a code
+ *
+ * Applicants who redeem a code skip the waitlist and start at its default tier when approved
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { inviteCodeInputSchema, type InviteCodeWithStats } from '@/lib/invite-codes';
+import { createInviteCode, listInviteCodes } from '@/lib/invite-code-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { logger } from '@/lib/monitoring';
+import type { InviteCode } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+const ERROR_STATUS = {
+  NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  PARTNER_NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  DUPLICATE_CODE: { code: ErrorCodes.CONFLICT, status: 409 },
+  IN_USE: { code: ErrorCodes.CONFLICT, status: 409 },
+} as const;
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ inviteCodes: InviteCodeWithStats[] }>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const isActive = searchParams.get('isActive');
+
+    const inviteCodes = await listInviteCodes({
+      isActive: isActive === null ? undefined : isActive === 'true',
+      limit: 100,
+    });
+
+    return NextResponse.json(successResponse({ inviteCodes }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminInviteCodes] Error listing invite codes', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ inviteCode: InviteCode }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const body = await request.json();
+    const validation = inviteCodeInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid invite code',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await createInviteCode(validation.data, getRequestAuditContext(request, adminId));
+
+    if (!result.success || !result.inviteCode) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(errorResponse(code, result.error ?? 'Could not create invite code'), { status });
+    }
+
+    return NextResponse.json(successResponse({ inviteCode: result.inviteCode }), { status: 201 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminInviteCodes] Error creating invite code', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -2,16 +2,20 @@
  * Admin Partner Action API Endpoint
  * POST /api/admin/partners/[id]/action
  * 
- * Perform actions on partners (approve, suspend, activate)
+ * Perform actions on partners (approve, suspend, activate, upgrade, downgrade)
+ * Tier changes are recorded in the tier history as MANUAL; every action is audited
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse, PartnerStatus, PartnerTier } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import { getPartnerRepository } from '@/lib/repositories';
+import { getTierSettings } from '@/lib/program-settings';
+import { changePartnerTier, getTierMetrics } from '@/lib/tier-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -40,25 +44,7 @@ export async function POST(
   { params }: RouteParams
 ): Promise<NextResponse<ApiResponse<{ success: boolean; newStatus?: PartnerStatus }>>> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    const adminId = await requireAdminId();
 
     // Get partner ID
     const { id: partnerId } = await params;
@@ -139,14 +125,27 @@ export async function POST(
     }
 
     // Update partner
-    const updateData: { status?: PartnerStatus; tier?: PartnerTier } = {};
-    if (newStatus) updateData.status = newStatus;
-    if (newTier !== partner.tier) updateData.tier = newTier;
+    if (newStatus) {
+      await partnerRepo.update(partnerId, { status: newStatus });
+    }
 
-    if (Object.keys(updateData).length > 0) {
-      await partnerRepo.update(partnerId, updateData);
+    if (newTier !== partner.tier) {
+      const metrics = await getTierMetrics(partnerId, await getTierSettings());
+      await changePartnerTier(partner, newTier, {
+        reason: 'MANUAL',
+        metrics,
+        changedBy: adminId,
+      });
     }
 
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: `partner.${action}`,
+      targetType: 'PARTNER',
+      targetId: partnerId,
+      before: { status: partner.status, tier: partner.tier },
+      after: { status: newStatus ?? partner.status, tier: newTier },
+    });
+
     logger.info('[AdminPartnerAction] Action performed', {
       partnerId,
       action,
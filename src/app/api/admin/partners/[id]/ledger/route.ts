@@ -0,0 +1,122 @@
+/**
+ * Admin Partner Ledger API Endpoint
+ * POST /api/admin/partners/[id]/ledger
+ *
+ * Post a bonus or manual adjustment to a partner's balance
+ * It is settled with the partner's next payout
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPartnerRepository } from '@/lib/repositories';
+import { getLedgerSummary, postBalanceAdjustment } from '@/lib/ledger-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { BalanceAdjustment, LedgerEntry } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const adjustmentSchema = z
+  .object({
+    type: z.enum(['BONUS', 'MANUAL_ADJUSTMENT']),
+    amountCents: z.number().int().refine(n => n !== 0, 'Amount cannot be zero'),
+    description: z.string().trim().min(1).max(200),
+  })
+  .refine(a => a.type !== 'BONUS' || a.amountCents > 0, {
+    message: 'Bonuses must be positive',
+    path: ['amountCents'],
+  });
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{
+  adjustment: BalanceAdjustment;
+  entries: LedgerEntry[];
+  balanceCents: number;
+}>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id: partnerId } = await params;
+
+    const body = await request.json();
+    const validation = adjustmentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid adjustment',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const { adjustment, entries } = await postBalanceAdjustment({
+      partnerId,
+      ...validation.data,
+      createdBy: adminId,
+    });
+    const { balanceCents } = await getLedgerSummary(partnerId);
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'partner.balance_adjustment',
+      targetType: 'PARTNER',
+      targetId: partnerId,
+      metadata: {
+        adjustmentId: adjustment.id,
+        reason: adjustment.reason,
+        amountCents: adjustment.amountCents,
+        description: adjustment.description,
+        balanceCents,
+      },
+    });
+
+    return NextResponse.json(
+      successResponse({ adjustment, entries, balanceCents }),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPartnerLedger] Error', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
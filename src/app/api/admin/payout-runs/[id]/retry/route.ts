@@ -0,0 +1,79 @@
+/**
+ * Admin Payout Run Retry API Endpoint
+ * POST /api/admin/payout-runs/[id]/retry
+ *
+ * Retries the run's retryable items, such as transfers that failed
+ * because Stripe was unavailable
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { retryPayoutRun } from '@/lib/payout-run-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { PayoutRun } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<PayoutRun>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+    const result = await retryPayoutRun(id);
+
+    if (!result.success || !result.run) {
+      const notFound = result.errorCode === 'NOT_FOUND';
+      return NextResponse.json(
+        errorResponse(
+          notFound ? ErrorCodes.NOT_FOUND : ErrorCodes.CONFLICT,
+          result.error ?? 'Payout run could not be retried'
+        ),
+        { status: notFound ? 404 : 409 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'payout_run.retry',
+      targetType: 'PAYOUT_RUN',
+      targetId: id,
+      metadata: {
+        transferredCount: result.run.transferredCount,
+        failedCount: result.run.failedCount,
+        retryableCount: result.run.retryableCount,
+      },
+    });
+
+    return NextResponse.json(successResponse(result.run), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPayoutRunRetry] Error', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Admin Payout Run API Endpoint
+ * GET /api/admin/payout-runs/[id]
+ *
+ * Returns a payout run's summary and one item per partner considered
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPayoutRun } from '@/lib/payout-run-service';
+import { logger } from '@/lib/monitoring';
+import type { PayoutRun } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<PayoutRun>>> {
+  try {
+    await requireAdminId();
+
+    const { id } = await params;
+    const run = await getPayoutRun(id);
+
+    if (!run) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Payout run not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(successResponse(run), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPayoutRun] Error', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
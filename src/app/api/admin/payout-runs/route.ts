@@ -0,0 +1,122 @@
+/**
+ * Admin Payout Runs API Endpoint
+ * GET  /api/admin/payout-runs - List payout runs, newest first
+ * POST /api/admin/payout-runs - Start a payout run now
+ *
+ * Query (GET): limit (default 20, max 100), offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPayoutRuns, runPayouts } from '@/lib/payout-run-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { PayoutRun } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ runs: PayoutRun[] }>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const runs = await getPayoutRuns(validation.data);
+
+    return NextResponse.json(successResponse({ runs }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPayoutRuns] Error listing runs', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PayoutRun>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const result = await runPayouts({ trigger: 'MANUAL', triggeredBy: adminId });
+
+    if (!result.success || !result.run) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.CONFLICT, result.error ?? 'Payout run could not start'),
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'payout_run.start',
+      targetType: 'PAYOUT_RUN',
+      targetId: result.run.id,
+      before: null,
+      after: { status: result.run.status, trigger: result.run.trigger },
+      metadata: {
+        transferredCount: result.run.transferredCount,
+        awaitingApprovalCount: result.run.awaitingApprovalCount,
+        failedCount: result.run.failedCount,
+        transferredCents: result.run.transferredCents,
+      },
+    });
+
+    return NextResponse.json(successResponse(result.run), { status: 201 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPayoutRuns] Error starting run', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -2,16 +2,22 @@
  * Admin Payout Action API Endpoint
  * POST /api/admin/payouts/[id]/action
  * 
- * Perform actions on payouts (approve, process, reject)
+ * Perform actions on payouts (approve, process, reject); every action is audited
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse, PayoutStatus } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import { getPayoutRepository } from '@/lib/repositories';
+import {
+  markPayoutEarningsPaid,
+  reclaimPayoutBalance,
+  recordPayoutTransition,
+  releasePayoutBalance,
+} from '@/lib/payment-service';
+import { getRequestAuditContext } from '@/lib/audit';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -40,25 +46,7 @@ export async function POST(
   { params }: RouteParams
 ): Promise<NextResponse<ApiResponse<{ success: boolean; newStatus: PayoutStatus }>>> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    const adminId = await requireAdminId();
 
     // Get payout ID
     const { id: payoutId } = await params;
@@ -78,7 +66,7 @@ export async function POST(
       );
     }
 
-    const { action } = validation.data;
+    const { action, reason } = validation.data;
 
     // Get payout
     const payoutRepo = getPayoutRepository();
@@ -102,6 +90,23 @@ export async function POST(
             { status: 400 }
           );
         }
+        // A failed payout's clawbacks were released to the partner's next payout
+        if (payout.status === 'FAILED' && payout.adjustmentCents !== 0) {
+          return NextResponse.json(
+            errorResponse(ErrorCodes.VALIDATION_ERROR, 'Payout adjustments were released; a new payout must be requested'),
+            { status: 400 }
+          );
+        }
+        // A failed payout's referrals went back to the partner's balance
+        if (payout.status === 'FAILED') {
+          const reclaimed = await reclaimPayoutBalance(payout);
+          if (!reclaimed.success) {
+            return NextResponse.json(
+              errorResponse(ErrorCodes.VALIDATION_ERROR, reclaimed.error ?? 'Payout balance is no longer available'),
+              { status: 400 }
+            );
+          }
+        }
         newStatus = 'PROCESSING';
         break;
 
@@ -133,11 +138,27 @@ export async function POST(
     }
 
     // Update payout
-    await payoutRepo.update(payoutId, {
+    const updated = await payoutRepo.update(payoutId, {
       status: newStatus,
       processedAt: newStatus === 'COMPLETED' ? new Date() : undefined,
     });
 
+    if (newStatus === 'COMPLETED') {
+      await markPayoutEarningsPaid(payoutId);
+    }
+
+    if (newStatus === 'FAILED') {
+      await releasePayoutBalance(payout, reason ?? 'Rejected by an admin');
+    }
+
+    await recordPayoutTransition(
+      getRequestAuditContext(request, adminId),
+      `payout.${action}`,
+      payout,
+      updated,
+      reason ? { reason } : undefined
+    );
+
     logger.info('[AdminPayoutAction] Action performed', {
       payoutId,
       action,
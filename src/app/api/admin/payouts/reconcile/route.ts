@@ -0,0 +1,91 @@
+/**
+ * Admin Payout Reconciliation API Endpoint
+ * POST /api/admin/payouts/reconcile - Check payouts in a range against Stripe
+ *
+ * Body: since, until (ISO dates, default last 7 days), autoFix (default false)
+ * Fixes are audited as made by the requesting admin
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { isStripeConfigured } from '@/lib/stripe';
+import { runPayoutReconciliation, type ReconciliationReport } from '@/lib/reconciliation-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const reconcileSchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  autoFix: z.boolean().default(false),
+}).refine(
+  data => !data.since || !data.until || data.since < data.until,
+  { message: 'since must be before until', path: ['since'] }
+);
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ReconciliationReport>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const body = await request.json().catch(() => ({}));
+    const validation = reconcileSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request body',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    if (!isStripeConfigured) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Stripe not configured'),
+        { status: 503 }
+      );
+    }
+
+    const until = validation.data.until ?? new Date();
+    const since = validation.data.since ?? new Date(until.getTime() - DEFAULT_RANGE_MS);
+
+    const report = await runPayoutReconciliation({
+      since,
+      until,
+      autoFix: validation.data.autoFix,
+      auditContext: getRequestAuditContext(request, adminId),
+    });
+
+    return NextResponse.json(successResponse(report), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminPayoutReconcile] Error reconciling payouts', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
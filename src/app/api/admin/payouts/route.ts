@@ -8,9 +8,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { ApiResponse, PayoutStatus } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import { getPartnerRepository, getPayoutRepository } from '@/lib/repositories';
+import { getPartnerBalances } from '@/lib/ledger-service';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -25,6 +25,7 @@ interface AdminPayout {
   amount: number;
   fee: number;
   netAmount: number;
+  partnerBalance: number; // partner's current ledger balance
   status: PayoutStatus;
   requestedAt: string;
   processedAt?: string | null;
@@ -36,27 +37,9 @@ interface AdminPayout {
 
 export async function GET(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<{ payouts: AdminPayout[] }>>> {
+): Promise<NextResponse<ApiResponse<{ payouts: AdminPayout[]; outstandingBalance: number }>>> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    await requireAdminId();
 
     // Get query params
     const { searchParams } = new URL(request.url);
@@ -83,6 +66,10 @@ export async function GET(
     // Sort by requestedAt (newest first)
     allPayouts.sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime());
 
+    // Balances come from the ledger, across all partners
+    const balances = await getPartnerBalances(allPartners.map(p => p.id));
+    const outstandingBalance = Array.from(balances.values()).reduce((sum, b) => sum + b, 0);
+
     // Build response with partner info
     const payouts: AdminPayout[] = await Promise.all(
       allPayouts.map(async (payout) => {
@@ -95,6 +82,7 @@ export async function GET(
           amount: payout.amountCents,
           fee: payout.feeCents,
           netAmount: payout.netCents,
+          partnerBalance: balances.get(payout.partnerId) ?? 0,
           status: payout.status,
           requestedAt: payout.requestedAt.toISOString(),
           processedAt: payout.processedAt?.toISOString() ?? null,
@@ -106,7 +94,7 @@ export async function GET(
       count: payouts.length,
     });
 
-    return NextResponse.json(successResponse({ payouts }), { status: 200 });
+    return NextResponse.json(successResponse({ payouts, outstandingBalance }), { status: 200 });
   } catch (error) {
     if (isAuthError(error)) {
       return NextResponse.json(
@@ -0,0 +1,77 @@
+/**
+ * Admin Rollups API Endpoint
+ * POST /api/admin/rollups - Rebuild daily rollups from raw clicks and referrals
+ *
+ * Body: partnerId (default: every partner), since (ISO date; default: all time)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPartnerRepository } from '@/lib/repositories';
+import { rebuildRollups, type RollupRebuildSummary } from '@/lib/rollup-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const rebuildSchema = z.object({
+  partnerId: z.string().min(1).optional(),
+  since: z.coerce.date().optional(),
+});
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RollupRebuildSummary>>> {
+  try {
+    await requireAdminId();
+
+    const body = await request.json().catch(() => ({}));
+    const validation = rebuildSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid rebuild options',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, since } = validation.data;
+
+    if (partnerId && !(await getPartnerRepository().findById(partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const summary = await rebuildRollups({ partnerId, since });
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminRollups] Error rebuilding rollups', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
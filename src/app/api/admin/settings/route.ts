@@ -0,0 +1,155 @@
+/**
+ * Admin Program Settings API Endpoint
+ * GET   /api/admin/settings - Get program settings
+ * PATCH /api/admin/settings - Update program settings (audited per section)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import {
+  getPayoutSettings,
+  getRecruitmentSettings,
+  getTierSettings,
+  updatePayoutSettings,
+  updateRecruitmentSettings,
+  updateTierSettings,
+} from '@/lib/program-settings';
+import { tierSettingsSchema, type TierSettings } from '@/lib/tiers';
+import { payoutSettingsSchema, type PayoutSettings } from '@/lib/earnings';
+import { recruitmentSettingsSchema, type RecruitmentSettings } from '@/lib/commissions';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const updateSettingsSchema = z.object({
+  tiers: tierSettingsSchema.partial().optional(),
+  payouts: payoutSettingsSchema.partial().optional(),
+  recruitment: recruitmentSettingsSchema.partial().optional(),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface ProgramSettingsResponse {
+  tiers: TierSettings;
+  payouts: PayoutSettings;
+  recruitment: RecruitmentSettings;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(): Promise<NextResponse<ApiResponse<ProgramSettingsResponse>>> {
+  try {
+    await requireAdminId();
+
+    const [tiers, payouts, recruitment] = await Promise.all([
+      getTierSettings(),
+      getPayoutSettings(),
+      getRecruitmentSettings(),
+    ]);
+
+    return NextResponse.json(successResponse({ tiers, payouts, recruitment }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminSettings] Error loading settings', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// PATCH Handler
+// ============================================
+
+export async function PATCH(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ProgramSettingsResponse>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const body = await request.json();
+    const validation = updateSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid settings',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const [previousTiers, previousPayouts, previousRecruitment] = await Promise.all([
+      getTierSettings(),
+      getPayoutSettings(),
+      getRecruitmentSettings(),
+    ]);
+    const tiers = validation.data.tiers
+      ? await updateTierSettings(validation.data.tiers)
+      : previousTiers;
+    const payouts = validation.data.payouts
+      ? await updatePayoutSettings(validation.data.payouts)
+      : previousPayouts;
+    const recruitment = validation.data.recruitment
+      ? await updateRecruitmentSettings(validation.data.recruitment)
+      : previousRecruitment;
+
+    const auditContext = getRequestAuditContext(request, adminId);
+    const sections = [
+      { key: 'tiers', before: previousTiers, after: tiers },
+      { key: 'payouts', before: previousPayouts, after: payouts },
+      { key: 'recruitment', before: previousRecruitment, after: recruitment },
+    ];
+    for (const section of sections) {
+      if (section.before === section.after) continue;
+      await recordAuditEvent(auditContext, {
+        action: 'settings.update',
+        targetType: 'PROGRAM_SETTING',
+        targetId: section.key,
+        before: section.before,
+        after: section.after,
+      });
+    }
+
+    logger.info('[AdminSettings] Settings updated', {
+      sections: Object.keys(validation.data),
+    });
+
+    return NextResponse.json(successResponse({ tiers, payouts, recruitment }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminSettings] Error updating settings', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -3,20 +3,20 @@
  * GET /api/admin/stats
  * 
  * Returns aggregate statistics for admin dashboard
+ * Revenue, conversion rate and the chart come from daily rollups
  */
 
 import { NextResponse } from 'next/server';
 import type { ApiResponse } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getAuthUser, isAuthError } from '@/lib/auth';
-import { features } from '@/lib/env';
+import { isAuthError, requireAdminId } from '@/lib/auth';
 import {
   getPartnerRepository,
-  getReferralRepository,
   getPayoutRepository,
 } from '@/lib/repositories';
+import { getProgramRollupSummary } from '@/lib/rollup-service';
 import { logger } from '@/lib/monitoring';
-import type { Referral, Payout } from '@/lib/db';
+import type { Payout } from '@/lib/db';
 
 // ============================================
 // Types
@@ -63,29 +63,10 @@ interface AdminStatsResponse {
 
 export async function GET(): Promise<NextResponse<ApiResponse<AdminStatsResponse>>> {
   try {
-    // Authentication check
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
-      if (!authResult.authenticated) {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
-          { status: 401 }
-        );
-      }
-
-      // Admin role check
-      if (authResult.user?.role !== 'ADMIN') {
-        return NextResponse.json(
-          errorResponse(ErrorCodes.FORBIDDEN, 'Admin access required'),
-          { status: 403 }
-        );
-      }
-    }
+    await requireAdminId();
 
     // Get repositories
     const partnerRepo = getPartnerRepository();
-    const referralRepo = getReferralRepository();
     const payoutRepo = getPayoutRepository();
 
     // Get partner stats
@@ -93,23 +74,10 @@ export async function GET(): Promise<NextResponse<ApiResponse<AdminStatsResponse
     const activePartners = await partnerRepo.findAll({ status: 'ACTIVE' });
     const pendingPartners = await partnerRepo.findAll({ status: 'PENDING' });
 
-    // Get referral stats by collecting from all partners
-    const allReferralsLists = await Promise.all(
-      allPartners.map(p => referralRepo.findByPartnerId(p.id, {}))
-    );
-    const allReferrals: Referral[] = allReferralsLists.flat();
-    const convertedReferrals = allReferrals.filter(r => r.status === 'CONVERTED');
-    
-    // Calculate revenue (sum of converted referral commissions)
-    const totalRevenue = convertedReferrals.reduce((sum: number, r: Referral) => sum + r.commissionCents, 0);
-    
-    // Get monthly revenue (last 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const monthlyReferrals = convertedReferrals.filter(
-      (r: Referral) => new Date(r.convertedAt ?? 0) >= thirtyDaysAgo
-    );
-    const monthlyRevenue = monthlyReferrals.reduce((sum: number, r: Referral) => sum + r.commissionCents, 0);
+    // Revenue is commission earned, net of reversals
+    const rollups = await getProgramRollupSummary();
+    const totalRevenue = rollups.total.commissionCents;
+    const monthlyRevenue = rollups.last30Days.commissionCents;
 
     // Get payout stats
     const totalPayoutsList = await Promise.all(
@@ -123,9 +91,9 @@ export async function GET(): Promise<NextResponse<ApiResponse<AdminStatsResponse
     const pendingPayoutAmount = pendingPayoutsList.reduce((sum: number, p: Payout) => sum + p.amountCents, 0);
 
     // Calculate conversion rate
-    const totalClicks = allReferrals.length;
-    const conversionRate = totalClicks > 0 
-      ? (convertedReferrals.length / totalClicks) * 100 
+    const totalClicks = rollups.total.clicks;
+    const conversionRate = totalClicks > 0
+      ? (rollups.total.conversions / totalClicks) * 100
       : 0;
 
     // Build recent partners list
@@ -158,23 +126,8 @@ export async function GET(): Promise<NextResponse<ApiResponse<AdminStatsResponse
       })
     );
 
-    // Generate chart data (last 30 days)
-    const chartData: Array<{ date: string; earnings: number }> = [];
-    for (let i = 29; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0] ?? '';
-      
-      // Sum earnings for this day
-      const dayEarnings = convertedReferrals
-        .filter((r: Referral) => {
-          const convertDate = r.convertedAt ? (new Date(r.convertedAt).toISOString().split('T')[0] ?? '') : '';
-          return convertDate === dateStr;
-        })
-        .reduce((sum: number, r: Referral) => sum + r.commissionCents, 0);
-      
-      chartData.push({ date: dateStr, earnings: dayEarnings });
-    }
+    // Chart data (last 30 days)
+    const chartData = rollups.daily.map(day => ({ date: day.date, earnings: day.commissionCents }));
 
     const response: AdminStatsResponse = {
       stats: {
@@ -0,0 +1,74 @@
+/**
+ * Admin Tier History API Endpoint
+ * GET /api/admin/tier-changes - List tier changes, newest first
+ *
+ * Query: partnerId (optional), limit (default 20, max 100), offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getTierChangeRepository } from '@/lib/repositories';
+import { logger } from '@/lib/monitoring';
+import type { TierChange } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const querySchema = z.object({
+  partnerId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ changes: TierChange[] }>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, limit, offset } = validation.data;
+    const tierChangeRepo = getTierChangeRepository();
+
+    const changes = partnerId
+      ? await tierChangeRepo.findByPartnerId(partnerId, { limit, offset })
+      : await tierChangeRepo.findRecent({ limit, offset });
+
+    return NextResponse.json(successResponse({ changes }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminTierChanges] Error listing tier changes', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Admin Webhook Redelivery API
+ * POST /api/admin/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ *
+ * Sends a logged event to the endpoint again as a new delivery.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { redeliverWebhook } from '@/lib/webhook-service';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { WebhookDelivery } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ delivery: WebhookDelivery }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id, deliveryId } = await params;
+    const result = await redeliverWebhook(id, deliveryId);
+
+    if (!result.success || !result.delivery) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, result.error || 'Delivery not found'),
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'webhook_endpoint.redeliver',
+      targetType: 'WEBHOOK_ENDPOINT',
+      targetId: id,
+      metadata: {
+        deliveryId,
+        redeliveryId: result.delivery.id,
+        eventId: result.delivery.eventId,
+      },
+    });
+
+    return NextResponse.json(successResponse({ delivery: result.delivery }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error redelivering event', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Admin Webhook Delivery Log API
+ * GET /api/admin/webhooks/[id]/deliveries - An endpoint's deliveries, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getWebhookEndpoint, listWebhookDeliveries } from '@/lib/webhook-service';
+import { logger } from '@/lib/monitoring';
+import type { WebhookDelivery } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const querySchema = z.object({
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ deliveries: WebhookDelivery[] }>>> {
+  try {
+    await requireAdminId();
+
+    const { id } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    if (!(await getWebhookEndpoint(id))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Webhook endpoint not found'),
+        { status: 404 }
+      );
+    }
+
+    const deliveries = await listWebhookDeliveries(id, validation.data);
+
+    return NextResponse.json(successResponse({ deliveries }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error listing deliveries', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
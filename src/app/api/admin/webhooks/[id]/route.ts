@@ -0,0 +1,213 @@
+/**
+ * Admin Webhook Endpoint API
+ * GET    /api/admin/webhooks/[id] - Get an endpoint
+ * PATCH  /api/admin/webhooks/[id] - Update an endpoint or rotate its secret
+ * DELETE /api/admin/webhooks/[id] - Delete an endpoint and its delivery log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPartnerRepository } from '@/lib/repositories';
+import {
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  toWebhookEndpointView,
+  updateWebhookEndpoint,
+} from '@/lib/webhook-service';
+import { webhookEndpointInputSchema } from '@/lib/webhooks';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { WebhookEndpoint } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const updateEndpointSchema = webhookEndpointInputSchema.partial().extend({
+  rotateSecret: z.boolean().optional(),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+type WebhookEndpointView = ReturnType<typeof toWebhookEndpointView>;
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ endpoint: WebhookEndpointView }>>> {
+  try {
+    await requireAdminId();
+
+    const { id } = await params;
+    const endpoint = await getWebhookEndpoint(id);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Webhook endpoint not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      successResponse({ endpoint: toWebhookEndpointView(endpoint) }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error fetching endpoint', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// PATCH Handler
+// ============================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ endpoint: WebhookEndpoint | WebhookEndpointView }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateEndpointSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid webhook endpoint',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, rotateSecret } = validation.data;
+    if (partnerId && !(await getPartnerRepository().findById(partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const existing = await getWebhookEndpoint(id);
+    const endpoint = existing && await updateWebhookEndpoint(id, validation.data);
+
+    if (!existing || !endpoint) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Webhook endpoint not found'),
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: rotateSecret ? 'webhook_endpoint.rotate_secret' : 'webhook_endpoint.update',
+      targetType: 'WEBHOOK_ENDPOINT',
+      targetId: id,
+      before: existing,
+      after: endpoint,
+    });
+
+    logger.info('[AdminWebhooks] Endpoint updated', {
+      endpointId: id,
+      fields: Object.keys(validation.data),
+    });
+
+    // A rotated secret is shown once so it can be copied to the receiver
+    return NextResponse.json(
+      successResponse({ endpoint: rotateSecret ? endpoint : toWebhookEndpointView(endpoint) }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error updating endpoint', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// DELETE Handler
+// ============================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const { id } = await params;
+    const existing = await getWebhookEndpoint(id);
+
+    if (!existing || !(await deleteWebhookEndpoint(id))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Webhook endpoint not found'),
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'webhook_endpoint.delete',
+      targetType: 'WEBHOOK_ENDPOINT',
+      targetId: id,
+      before: existing,
+      after: null,
+    });
+
+    logger.info('[AdminWebhooks] Endpoint deleted', { endpointId: id });
+
+    return NextResponse.json(successResponse({ deleted: true }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error deleting endpoint', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Admin Webhook Endpoints API
+ * GET  /api/admin/webhooks - List endpoints and the event catalog
+ * POST /api/admin/webhooks - Create an endpoint
+ *
+ * The signing secret is only returned when an endpoint is created
+ * or its secret rotated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isAuthError, requireAdminId } from '@/lib/auth';
+import { getPartnerRepository } from '@/lib/repositories';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  toWebhookEndpointView,
+} from '@/lib/webhook-service';
+import { WEBHOOK_EVENT_CATALOG, webhookEndpointInputSchema } from '@/lib/webhooks';
+import { getRequestAuditContext } from '@/lib/audit';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { logger } from '@/lib/monitoring';
+import type { WebhookEndpoint, WebhookEventType } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const querySchema = z.object({
+  partnerId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const createEndpointSchema = webhookEndpointInputSchema.partial({
+  description: true,
+  partnerId: true,
+  isActive: true,
+});
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{
+  endpoints: ReturnType<typeof toWebhookEndpointView>[];
+  eventTypes: Record<WebhookEventType, string>;
+}>>> {
+  try {
+    await requireAdminId();
+
+    const { searchParams } = new URL(request.url);
+    const validation = querySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const endpoints = await listWebhookEndpoints(validation.data);
+
+    return NextResponse.json(
+      successResponse({
+        endpoints: endpoints.map(toWebhookEndpointView),
+        eventTypes: WEBHOOK_EVENT_CATALOG,
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error listing endpoints', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ endpoint: WebhookEndpoint }>>> {
+  try {
+    const adminId = await requireAdminId();
+
+    const body = await request.json();
+    const validation = createEndpointSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid webhook endpoint',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId } = validation.data;
+    if (partnerId && !(await getPartnerRepository().findById(partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const endpoint = await createWebhookEndpoint(validation.data);
+
+    await recordAuditEvent(getRequestAuditContext(request, adminId), {
+      action: 'webhook_endpoint.create',
+      targetType: 'WEBHOOK_ENDPOINT',
+      targetId: endpoint.id,
+      before: null,
+      after: endpoint,
+    });
+
+    return NextResponse.json(successResponse({ endpoint }), { status: 201 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[AdminWebhooks] Error creating endpoint', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
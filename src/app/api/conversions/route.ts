@@ -0,0 +1,151 @@
+/**
+ * Conversion Ingestion API Endpoint
+ * POST /api/conversions
+ *
+ * Server-to-server endpoint for the product backend to report
+ * signups and purchases made by referred customers, and refunds or
+ * chargebacks that reverse their commission.
+ *
+ * Security: Requests must be signed with CONVERSION_API_SECRET
+ * Header: X-InnerCircle-Signature: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import {
+  ingestConversion,
+  isConversionApiConfigured,
+  verifyConversionSignature,
+  CONVERSION_SIGNATURE_HEADER,
+  type ConversionErrorCode,
+} from '@/lib/conversion-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const conversionSchema = z.object({
+  type: z.enum(['signup', 'purchase', 'refund', 'chargeback']),
+  customerEmail: z.string().email('Please provide a valid customer email'),
+  orderAmountCents: z.number().int().nonnegative().optional(),
+  attributionToken: z.string().min(1).max(2048).optional(),
+  referralCode: z.string().min(4).max(20).optional(),
+  occurredAt: z.coerce.date().optional(),
+}).refine(
+  data => data.type !== 'purchase' || data.orderAmountCents !== undefined,
+  { message: 'orderAmountCents is required for purchases', path: ['orderAmountCents'] }
+);
+
+// ============================================
+// Types
+// ============================================
+
+interface ConversionResponse {
+  referralId: string;
+  partnerId: string;
+  status: string;
+  commissionCents: number;
+  adjustmentCents: number; // clawback carried into the next payout
+  duplicate: boolean;
+}
+
+const ERROR_STATUS: Record<ConversionErrorCode, { status: number; code: string }> = {
+  ATTRIBUTION_NOT_FOUND: { status: 404, code: ErrorCodes.NOT_FOUND },
+  PARTNER_NOT_FOUND: { status: 404, code: ErrorCodes.NOT_FOUND },
+  PARTNER_INACTIVE: { status: 409, code: ErrorCodes.CONFLICT },
+  SELF_REFERRAL: { status: 400, code: ErrorCodes.VALIDATION_ERROR },
+  REFERRAL_NOT_FOUND: { status: 404, code: ErrorCodes.NOT_FOUND },
+  REFERRAL_NOT_CONVERTED: { status: 409, code: ErrorCodes.CONFLICT },
+};
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ConversionResponse>>> {
+  try {
+    if (!isConversionApiConfigured) {
+      logger.warn('[ConversionAPI] CONVERSION_API_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Conversion API not configured'),
+        { status: 503 }
+      );
+    }
+
+    // Raw body is needed for signature verification
+    const rawBody = await request.text();
+    const signature = request.headers.get(CONVERSION_SIGNATURE_HEADER);
+
+    if (!verifyConversionSignature(rawBody, signature)) {
+      logger.warn('[ConversionAPI] Signature verification failed');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid or missing request signature'),
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'),
+        { status: 400 }
+      );
+    }
+
+    const validation = conversionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid conversion data',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await ingestConversion(validation.data);
+
+    if (!result.success || !result.referral) {
+      const mapped = ERROR_STATUS[result.errorCode ?? 'ATTRIBUTION_NOT_FOUND'];
+      logger.warn('[ConversionAPI] Conversion rejected', {
+        type: validation.data.type,
+        error: result.error,
+        errorCode: result.errorCode,
+      });
+      return NextResponse.json(
+        errorResponse(mapped.code, result.error ?? 'Conversion rejected'),
+        { status: mapped.status }
+      );
+    }
+
+    const { referral } = result;
+    const created = validation.data.type === 'signup' || validation.data.type === 'purchase';
+
+    return NextResponse.json(
+      successResponse({
+        referralId: referral.id,
+        partnerId: referral.partnerId,
+        status: referral.status,
+        commissionCents: referral.commissionCents,
+        adjustmentCents: result.adjustment?.amountCents ?? 0,
+        duplicate: result.duplicate ?? false,
+      }),
+      { status: created && !result.duplicate ? 201 : 200 }
+    );
+  } catch (error) {
+    logger.error('[ConversionAPI] Exception', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Event Retention Job
+ * GET /api/cron/event-retention
+ *
+ * Deletes partner stream events older than the retention window
+ * (see lib/event-service.ts). Intended to run daily.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { prunePartnerEvents } from '@/lib/event-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Types
+// ============================================
+
+interface EventRetentionSummary {
+  deleted: number;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<EventRetentionSummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[EventRetentionJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const deleted = await prunePartnerEvents();
+
+    return NextResponse.json(successResponse({ deleted }), { status: 200 });
+  } catch (error) {
+    logger.error('[EventRetentionJob] Error deleting events', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Experiment Allocation Job
+ * GET /api/cron/experiment-allocation
+ *
+ * Reallocates the traffic of every RUNNING bandit experiment by Thompson
+ * sampling over its results so far, and records the allocation history.
+ * Intended to run hourly.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { updateBanditAllocations, type BanditAllocationSummary } from '@/lib/experiment-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<BanditAllocationSummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[ExperimentAllocationJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await updateBanditAllocations();
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    logger.error('[ExperimentAllocationJob] Error updating allocations', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Payout Reconciliation Job
+ * GET /api/cron/payout-reconciliation
+ *
+ * Checks the last week's payouts against Stripe and applies safe
+ * fixes. Intended to run daily.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { isStripeConfigured } from '@/lib/stripe';
+import { runPayoutReconciliation, type ReconciliationReport } from '@/lib/reconciliation-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Payouts requested this many days back are checked
+const LOOKBACK_DAYS = 7;
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ReconciliationReport>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[PayoutReconciliationJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    if (!isStripeConfigured) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Stripe not configured'),
+        { status: 503 }
+      );
+    }
+
+    const until = new Date();
+    const since = new Date(until.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const report = await runPayoutReconciliation({ since, until, autoFix: true });
+
+    return NextResponse.json(successResponse(report), { status: 200 });
+  } catch (error) {
+    logger.error('[PayoutReconciliationJob] Error reconciling payouts', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Payout Run Job
+ * GET /api/cron/payout-run
+ *
+ * Pays every active partner whose available commission meets the
+ * minimum. Intended to run monthly.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { runPayouts } from '@/lib/payout-run-service';
+import { logger } from '@/lib/monitoring';
+import type { PayoutRun } from '@/lib/db';
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PayoutRun>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[PayoutRunJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const result = await runPayouts({ trigger: 'SCHEDULED' });
+
+    if (!result.success || !result.run) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.CONFLICT, result.error ?? 'Payout run could not start'),
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(successResponse(result.run), { status: 200 });
+  } catch (error) {
+    logger.error('[PayoutRunJob] Error running payouts', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Push Delivery Job
+ * GET /api/cron/push-deliveries
+ *
+ * Sends queued notifications as Web Push messages, so the actions that
+ * create notifications never wait on push services. Intended to run
+ * every minute.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { sendPendingPushNotifications, type PushJobSummary } from '@/lib/push-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PushJobSummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[PushDeliveryJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await sendPendingPushNotifications();
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    logger.error('[PushDeliveryJob] Error sending push notifications', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
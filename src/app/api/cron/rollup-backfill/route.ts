@@ -0,0 +1,56 @@
+/**
+ * Rollup Backfill Job
+ * GET /api/cron/rollup-backfill
+ *
+ * Rebuilds every partner's daily rollups for yesterday and today from
+ * raw clicks and referrals, repairing any increments that were missed.
+ * Intended to run daily.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { rebuildRollups, type RollupRebuildSummary } from '@/lib/rollup-service';
+import { logger } from '@/lib/monitoring';
+
+// Covers yesterday in every time zone
+const BACKFILL_MS = 2 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<RollupRebuildSummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[RollupBackfillJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await rebuildRollups({ since: new Date(Date.now() - BACKFILL_MS) });
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    logger.error('[RollupBackfillJob] Error rebuilding rollups', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Tier Evaluation Job
+ * GET /api/cron/tier-evaluation
+ *
+ * Recomputes every active partner's tier from rolling conversions and
+ * revenue. Intended to run daily.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { runTierEvaluation, type TierEvaluationSummary } from '@/lib/tier-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<TierEvaluationSummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[TierEvaluationJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await runTierEvaluation();
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    logger.error('[TierEvaluationJob] Error running tier evaluation', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Webhook Delivery Job
+ * GET /api/cron/webhook-deliveries
+ *
+ * Sends queued webhook deliveries and retries failed ones whose backoff
+ * has elapsed. Intended to run every minute.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { isCronConfigured, verifyCronAuthorization } from '@/lib/cron';
+import { sendDueDeliveries, type WebhookDeliverySummary } from '@/lib/webhook-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<WebhookDeliverySummary>>> {
+  try {
+    if (!isCronConfigured) {
+      logger.warn('[WebhookDeliveryJob] CRON_SECRET not configured');
+      return NextResponse.json(
+        errorResponse(ErrorCodes.INTERNAL_ERROR, 'Scheduled jobs not configured'),
+        { status: 503 }
+      );
+    }
+
+    if (!verifyCronAuthorization(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron authorization'),
+        { status: 401 }
+      );
+    }
+
+    const summary = await sendDueDeliveries();
+
+    return NextResponse.json(successResponse(summary), { status: 200 });
+  } catch (error) {
+    logger.error('[WebhookDeliveryJob] Error sending deliveries', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Experiment API Endpoint
+ * PATCH /api/experiments/[id] - Start, pause, resume or complete an experiment, or declare a winner
+ *
+ * Security: Requires authentication (placeholder)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { experimentUpdateSchema, type ExperimentWithResults } from '@/lib/experiments';
+import { updateExperiment } from '@/lib/experiment-service';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS = {
+  NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  VARIANT_NOT_FOUND: { code: ErrorCodes.VALIDATION_ERROR, status: 400 },
+  INVALID_TRANSITION: { code: ErrorCodes.CONFLICT, status: 409 },
+} as const;
+
+// ============================================
+// PATCH Handler
+// ============================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<ExperimentWithResults>>> {
+  try {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const validation = experimentUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request data',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await updateExperiment(id, validation.data);
+
+    if (!result.success || !result.experiment) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(errorResponse(code, result.error ?? 'Could not update experiment'), { status });
+    }
+
+    return NextResponse.json(successResponse(result.experiment), { status: 200 });
+  } catch (error) {
+    logger.error('[Experiments] Error updating experiment', error);
+
+    return NextResponse.json(
+      errorResponse(
+        ErrorCodes.INTERNAL_ERROR,
+        'An unexpected error occurred. Please try again.'
+      ),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Experiment Exposures API Endpoint
+ * POST /api/experiments/exposures - Assign a share its variants and log the impressions
+ *
+ * Called when ShareKit renders a partner's share templates. Each running
+ * experiment of the partner assigns the share a variant from its share id,
+ * so re-rendering the same share shows the same message.
+ *
+ * Security: Requires authentication (placeholder)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { assignShareVariants } from '@/lib/experiment-service';
+import type { ShareAssignment } from '@/lib/experiments';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const exposureSchema = z.object({
+  partnerId: z.string().min(1, 'Partner ID is required'),
+  shareId: z.string().regex(/^[A-Za-z0-9_-]{8,64}$/, 'Invalid share ID'),
+});
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ShareAssignment[]>>> {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const validation = exposureSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request data',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, shareId } = validation.data;
+    const assignments = await assignShareVariants(partnerId, shareId);
+
+    return NextResponse.json(successResponse(assignments), { status: 200 });
+  } catch (error) {
+    logger.error('[Experiments] Error logging exposures', error);
+
+    return NextResponse.json(
+      errorResponse(
+        ErrorCodes.INTERNAL_ERROR,
+        'An unexpected error occurred. Please try again.'
+      ),
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 /**
  * Experiments API Endpoint
- * GET /api/experiments - List experiments
- * POST /api/experiments - Create experiment
+ * GET /api/experiments - List a partner's experiments
+ * POST /api/experiments - Create a DRAFT experiment
  * 
- * Manages A/B testing experiments for share templates.
+ * Manages A/B testing experiments for share templates. Each experiment is
+ * returned with its variants' impressions, clicks and conversions and
+ * their significance results (see lib/experiment-stats.ts).
  * 
  * Security: Requires authentication (placeholder)
  */
@@ -11,36 +13,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse } from '@/types';
-import { successResponse, errorResponse, ErrorCodes, generateRandomString } from '@/lib/utils';
-
-// ============================================
-// Types
-// ============================================
-
-type ExperimentStatus = 'DRAFT' | 'RUNNING' | 'PAUSED' | 'COMPLETED';
-
-interface Variant {
-  id: string;
-  name: string;
-  content: string;
-  impressions: number;
-  clicks: number;
-  conversions: number;
-  isControl: boolean;
-  isWinner?: boolean;
-}
-
-interface Experiment {
-  id: string;
-  name: string;
-  description: string;
-  status: ExperimentStatus;
-  variants: Variant[];
-  startedAt?: Date;
-  endedAt?: Date;
-  minSampleSize: number;
-  confidenceLevel: number;
-}
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import {
+  EXPERIMENT_STATUSES,
+  experimentInputSchema,
+  type ExperimentWithResults,
+} from '@/lib/experiments';
+import { createExperiment, listPartnerExperiments } from '@/lib/experiment-service';
+import { getPartnerRepository } from '@/lib/repositories';
+import { logger } from '@/lib/monitoring';
 
 // ============================================
 // Validation
@@ -48,108 +29,20 @@ interface Experiment {
 
 const querySchema = z.object({
   partnerId: z.string().min(1, 'Partner ID is required'),
-  status: z.enum(['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED']).optional(),
+  status: z.enum(EXPERIMENT_STATUSES).optional(),
 });
 
-const createSchema = z.object({
+const createSchema = experimentInputSchema.extend({
   partnerId: z.string().min(1, 'Partner ID is required'),
-  name: z.string().min(1, 'Name is required').max(100),
-  description: z.string().max(500).optional(),
-  variants: z.array(z.object({
-    name: z.string().min(1),
-    content: z.string().min(1),
-    isControl: z.boolean(),
-  })).min(2, 'At least 2 variants required'),
-  minSampleSize: z.number().int().min(50).max(10000).optional().default(100),
-  confidenceLevel: z.number().int().min(80).max(99).optional().default(95),
 });
 
-// ============================================
-// In-Memory Store
-// ============================================
-
-const experimentStore = new Map<string, Experiment[]>();
-
-function getExperiments(partnerId: string): Experiment[] {
-  if (!experimentStore.has(partnerId)) {
-    // Initialize with mock data
-    experimentStore.set(partnerId, generateMockExperiments());
-  }
-  return experimentStore.get(partnerId) ?? [];
-}
-
-function generateMockExperiments(): Experiment[] {
-  return [
-    {
-      id: 'exp-1',
-      name: 'LinkedIn Share Message',
-      description: 'Testing professional vs casual tone',
-      status: 'RUNNING',
-      startedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-      minSampleSize: 100,
-      confidenceLevel: 95,
-      variants: [
-        {
-          id: 'var-1a',
-          name: 'Professional (Control)',
-          content: 'Discover how leading companies are transforming...',
-          impressions: 450,
-          clicks: 45,
-          conversions: 12,
-          isControl: true,
-        },
-        {
-          id: 'var-1b',
-          name: 'Casual & Personal',
-          content: 'Just found this amazing tool...',
-          impressions: 438,
-          clicks: 62,
-          conversions: 18,
-          isControl: false,
-        },
-      ],
-    },
-    {
-      id: 'exp-2',
-      name: 'Email Subject Line',
-      description: 'Question vs statement',
-      status: 'COMPLETED',
-      startedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-      endedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-      minSampleSize: 200,
-      confidenceLevel: 95,
-      variants: [
-        {
-          id: 'var-2a',
-          name: 'Statement (Control)',
-          content: 'This will change how you work',
-          impressions: 520,
-          clicks: 78,
-          conversions: 15,
-          isControl: true,
-        },
-        {
-          id: 'var-2b',
-          name: 'Question',
-          content: 'Want to 10x your productivity?',
-          impressions: 515,
-          clicks: 103,
-          conversions: 24,
-          isControl: false,
-          isWinner: true,
-        },
-      ],
-    },
-  ];
-}
-
 // ============================================
 // GET Handler
 // ============================================
 
 export async function GET(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<Experiment[]>>> {
+): Promise<NextResponse<ApiResponse<ExperimentWithResults[]>>> {
   try {
     const { searchParams } = new URL(request.url);
     const queryResult = querySchema.safeParse({
@@ -169,18 +62,14 @@ export async function GET(
     }
 
     const { partnerId, status } = queryResult.data;
-    let experiments = getExperiments(partnerId);
-
-    if (status) {
-      experiments = experiments.filter(e => e.status === status);
-    }
+    const experiments = await listPartnerExperiments(partnerId, status);
 
     return NextResponse.json(
       successResponse(experiments),
       { status: 200 }
     );
   } catch (error) {
-    console.error('GET /api/experiments error:', error);
+    logger.error('[Experiments] Error listing experiments', error);
 
     return NextResponse.json(
       errorResponse(
@@ -198,7 +87,7 @@ export async function GET(
 
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<Experiment>>> {
+): Promise<NextResponse<ApiResponse<ExperimentWithResults>>> {
   try {
     let body: unknown;
     try {
@@ -222,36 +111,23 @@ export async function POST(
       );
     }
 
-    const { partnerId, name, description, variants, minSampleSize, confidenceLevel } = validation.data;
+    const { partnerId, ...input } = validation.data;
 
-    const experiment: Experiment = {
-      id: `exp_${generateRandomString(8)}`,
-      name,
-      description: description ?? '',
-      status: 'DRAFT',
-      variants: variants.map((v, i) => ({
-        id: `var_${generateRandomString(8)}`,
-        name: v.name,
-        content: v.content,
-        impressions: 0,
-        clicks: 0,
-        conversions: 0,
-        isControl: v.isControl || i === 0,
-      })),
-      minSampleSize,
-      confidenceLevel,
-    };
+    if (!(await getPartnerRepository().findById(partnerId))) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
 
-    const experiments = getExperiments(partnerId);
-    experiments.unshift(experiment);
-    experimentStore.set(partnerId, experiments);
+    const experiment = await createExperiment(partnerId, input);
 
     return NextResponse.json(
       successResponse(experiment),
       { status: 201 }
     );
   } catch (error) {
-    console.error('POST /api/experiments error:', error);
+    logger.error('[Experiments] Error creating experiment', error);
 
     return NextResponse.json(
       errorResponse(
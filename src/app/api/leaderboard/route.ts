@@ -2,7 +2,8 @@
  * Leaderboard API Endpoint
  * GET /api/leaderboard
  * 
- * Returns partner leaderboard rankings for different time periods.
+ * Returns partner leaderboard rankings for different time periods,
+ * ranked by commission earned in the period (from daily rollups).
  * 
  * Query params:
  * - period: 'monthly' | 'quarterly' | 'alltime' (default: 'monthly')
@@ -15,7 +16,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
-import { getLeaderboard } from '@/lib/repositories';
+import { getRollupLeaderboard } from '@/lib/rollup-service';
+import { LEADERBOARD_PERIODS } from '@/lib/rollups';
 import { getAuthUser } from '@/lib/auth';
 
 // ============================================
@@ -37,7 +39,7 @@ interface LeaderboardEntry {
 // ============================================
 
 const querySchema = z.object({
-  period: z.enum(['monthly', 'quarterly', 'alltime']).default('monthly'),
+  period: z.enum(LEADERBOARD_PERIODS).default('monthly'),
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
@@ -67,14 +69,14 @@ export async function GET(
       );
     }
 
-    const { limit } = queryResult.data;
+    const { period, limit } = queryResult.data;
 
     // Get current user to mark their entry
     const authResult = await getAuthUser();
     const currentPartnerId = authResult.user?.partnerId;
 
-    // Get leaderboard from repository
-    const leaderboardData = await getLeaderboard(limit);
+    // Rank partners over the period
+    const leaderboardData = await getRollupLeaderboard(period, limit);
 
     // Transform to response format
     const leaderboard: LeaderboardEntry[] = leaderboardData.map(entry => ({
@@ -82,8 +84,8 @@ export async function GET(
       partnerId: entry.partnerId,
       displayName: entry.partnerName.split(' ')[0] + ' ' + (entry.partnerName.split(' ')[1]?.[0] ?? '') + '.',
       tier: entry.tier,
-      referrals: entry.referralsThisMonth,
-      earnings: entry.totalEarned,
+      referrals: entry.referrals,
+      earnings: entry.earnings,
       isCurrentUser: entry.partnerId === currentPartnerId,
     }));
 
@@ -0,0 +1,86 @@
+/**
+ * Partner API Key Endpoint
+ * DELETE /api/partners/[id]/api-keys/[keyId] - Revoke a key
+ *
+ * Revoked keys stop authenticating immediately and stay listed with
+ * includeRevoked=true.
+ *
+ * Security: Requires a signed-in session and partner ownership validation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import { features } from '@/lib/env';
+import { revokeApiKey } from '@/lib/api-key-service';
+import { toApiKeyView } from '@/lib/api-keys';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string; keyId: string }>;
+}
+
+// ============================================
+// DELETE Handler
+// ============================================
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ apiKey: ReturnType<typeof toApiKeyView> }>>> {
+  try {
+    const { id: partnerId, keyId } = await params;
+
+    // Authentication check (skip if auth not configured)
+    if (features.hasAuth) {
+      const authResult = await getAuthUser();
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      if (!canAccessPartnerData(authResult.user, partnerId)) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const result = await revokeApiKey(partnerId, keyId);
+
+    if (!result.success || !result.apiKey) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, result.error || 'API key not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      successResponse({ apiKey: toApiKeyView(result.apiKey) }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[ApiKeys] Error revoking key', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
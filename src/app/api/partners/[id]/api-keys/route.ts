@@ -0,0 +1,195 @@
+/**
+ * Partner API Keys Endpoint
+ * GET  /api/partners/[id]/api-keys - List keys (without the secret part)
+ * POST /api/partners/[id]/api-keys - Create a key; the key is returned once
+ *
+ * Security: Requires a signed-in session and partner ownership validation.
+ * API keys cannot manage API keys.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import { features } from '@/lib/env';
+import { createApiKey, listApiKeys } from '@/lib/api-key-service';
+import { API_KEY_SCOPE_CATALOG, apiKeyInputSchema, toApiKeyView } from '@/lib/api-keys';
+import { logger } from '@/lib/monitoring';
+import type { ApiKeyScope } from '@/lib/db';
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+type ApiKeyView = ReturnType<typeof toApiKeyView>;
+
+// ============================================
+// Helpers
+// ============================================
+
+async function checkAccess(partnerId: string): Promise<NextResponse<ApiResponse<never>> | null> {
+  if (!features.hasAuth) return null;
+
+  const authResult = await getAuthUser();
+
+  if (!authResult.authenticated) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+      { status: 401 }
+    );
+  }
+
+  if (!canAccessPartnerData(authResult.user, partnerId)) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{
+  apiKeys: ApiKeyView[];
+  scopes: Record<ApiKeyScope, string>;
+}>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const apiKeys = await listApiKeys(partnerId, {
+      includeRevoked: searchParams.get('includeRevoked') === 'true',
+    });
+
+    return NextResponse.json(
+      successResponse({
+        apiKeys: apiKeys.map(toApiKeyView),
+        scopes: API_KEY_SCOPE_CATALOG,
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[ApiKeys] Error listing keys', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ apiKey: ApiKeyView; key: string }>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    const body = await request.json();
+    const bodyValidation = apiKeyInputSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid API key',
+          { errors: bodyValidation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const result = await createApiKey(partnerId, bodyValidation.data);
+
+    if (!result.success || !result.apiKey || !result.key) {
+      const notFound = result.errorCode === 'NOT_FOUND';
+      return NextResponse.json(
+        errorResponse(
+          notFound ? ErrorCodes.NOT_FOUND : ErrorCodes.CONFLICT,
+          result.error || 'Failed to create API key'
+        ),
+        { status: notFound ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json(
+      successResponse({ apiKey: toApiKeyView(result.apiKey), key: result.key }),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[ApiKeys] Error creating key', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
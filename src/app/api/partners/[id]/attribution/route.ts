@@ -0,0 +1,155 @@
+/**
+ * Partner Attribution API Endpoint
+ * GET /api/partners/[id]/attribution?model=
+ * 
+ * Returns the last 90 days of conversions attributed under a model
+ * (first_touch, last_touch, linear or time_decay; default last_touch):
+ * - Attributed revenue and conversions by source and campaign
+ * - Top touchpoint paths
+ * 
+ * Security: Requires authentication and partner ownership validation
+ * API keys need the stats:read scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getPartnerRepository } from '@/lib/repositories';
+import { ATTRIBUTION_MODELS, type AttributionData } from '@/lib/attribution';
+import { getPartnerAttribution } from '@/lib/attribution-service';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
+import { features } from '@/lib/env';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+const querySchema = z.object({
+  model: z.enum(ATTRIBUTION_MODELS).optional().default('last_touch'),
+});
+
+// ============================================
+// Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<AttributionData>>> {
+  try {
+    // Await and validate route params
+    const params = await context.params;
+    const paramsResult = paramsSchema.safeParse(params);
+
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: paramsResult.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = paramsResult.data;
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const queryResult = querySchema.safeParse({
+      model: searchParams.get('model') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: queryResult.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { model } = queryResult.data;
+
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'stats:read')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const attribution = await getPartnerAttribution(partner, model);
+
+    return NextResponse.json(
+      successResponse(attribution),
+      { 
+        status: 200,
+        headers: {
+          'Cache-Control': 'private, s-maxage=60, stale-while-revalidate=30',
+        },
+      }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[Attribution] Error building attribution report', error);
+
+    return NextResponse.json(
+      errorResponse(
+        ErrorCodes.INTERNAL_ERROR,
+        'An unexpected error occurred. Please try again.'
+      ),
+      { status: 500 }
+    );
+  }
+}
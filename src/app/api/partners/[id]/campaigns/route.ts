@@ -5,7 +5,8 @@
  * POST /api/partners/[id]/campaigns - Create campaign
  * 
  * Security: Requires authentication and partner ownership validation
- * Rate limiting: Applied per endpoint
+ * API keys need campaigns:read to list and campaigns:write to create
+ * Rate limiting: Applied per endpoint, and per key for API keys
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -27,8 +28,9 @@ import {
   shouldEnforceRateLimit,
 } from '@/lib/rate-limit';
 import {
-  getAuthUser,
+  authenticateRequest,
   canAccessPartnerData,
+  isApiKeyRequest,
   isAuthError,
   AuthError,
 } from '@/lib/auth';
@@ -123,9 +125,24 @@ export async function GET(
 
     const { id: partnerId } = paramsValidation.data;
 
-    // Authentication check (skip if auth not configured)
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: [],
+            pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0, hasMore: false, hasPrevious: false },
+            error: {
+              code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+              message: `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`,
+            },
+          },
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
       
       if (!authResult.authenticated) {
         return NextResponse.json(
@@ -135,7 +152,7 @@ export async function GET(
             pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0, hasMore: false, hasPrevious: false },
             error: {
               code: ErrorCodes.UNAUTHORIZED,
-              message: 'Authentication required',
+              message: authResult.error ?? 'Authentication required',
             },
           },
           { status: 401 }
@@ -143,7 +160,7 @@ export async function GET(
       }
 
       // Authorization check
-      if (!canAccessPartnerData(authResult.user, partnerId)) {
+      if (!canAccessPartnerData(authResult.user, partnerId, 'campaigns:read')) {
         return NextResponse.json(
           {
             success: false,
@@ -270,19 +287,29 @@ export async function POST(
 
     const { id: partnerId } = paramsValidation.data;
 
-    // Authentication check (skip if auth not configured)
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
       if (!authResult.authenticated) {
         return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
           { status: 401 }
         );
       }
 
       // Authorization check
-      if (!canAccessPartnerData(authResult.user, partnerId)) {
+      if (!canAccessPartnerData(authResult.user, partnerId, 'campaigns:write')) {
         return NextResponse.json(
           errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
           { status: 403 }
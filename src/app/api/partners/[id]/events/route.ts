@@ -0,0 +1,139 @@
+/**
+ * Partner Event Stream Endpoint
+ * GET /api/partners/[id]/events - Server-sent events for the partner dashboard
+ *
+ * Streams `notification`, `conversion`, `payout` and `milestone` events as
+ * they are recorded. Each event's id is its stream position; reconnecting
+ * with Last-Event-ID resumes after it. Streams end after a few minutes and
+ * EventSource reconnects on its own (see lib/event-service.ts).
+ *
+ * Security: Requires authentication and partner ownership validation
+ * API keys need the stats:read scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, ErrorCodes } from '@/lib/utils';
+import { getPartnerRepository } from '@/lib/repositories';
+import { openPartnerEventStream } from '@/lib/event-service';
+import { parseLastEventId } from '@/lib/partner-events';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { features } from '@/lib/env';
+import { logger } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<Response> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'stats:read')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const stream = await openPartnerEventStream(partnerId, {
+      lastEventId: parseLastEventId(request.headers.get('last-event-id')),
+      signal: request.signal,
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PartnerEvents] Exception', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
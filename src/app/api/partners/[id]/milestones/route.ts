@@ -4,7 +4,12 @@
  * GET  /api/partners/[id]/milestones - List milestones
  * POST /api/partners/[id]/milestones - Check for new milestones
  * 
+ * Progress is read from the partner's campaigns, clicks, referrals and
+ * ledger. TIER_UPGRADE is recorded by the tier service when a tier changes.
+ *
  * Security: Requires authentication and partner ownership validation
+ * API keys need stats:read to list and milestones:write to check, since
+ * checking records newly achieved milestones
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -23,6 +28,24 @@ import {
   ErrorCodes,
   generateRandomString,
 } from '@/lib/utils';
+import {
+  getCampaignRepository,
+  getClickEventRepository,
+  getMilestoneRepository,
+  getPartnerRepository,
+  getReferralRepository,
+} from '@/lib/repositories';
+import { getLedgerSummary } from '@/lib/ledger-service';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+} from '@/lib/auth';
+import { features } from '@/lib/env';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { emitWebhookEvent } from '@/lib/webhook-service';
+import { publishPartnerEvent } from '@/lib/event-service';
+import { milestoneEventData } from '@/lib/webhooks';
 
 // ============================================
 // Validation
@@ -45,8 +68,6 @@ interface PartnerProgress {
   totalClicks: number;
   totalConversions: number;
   totalEarned: number; // in cents
-  currentTier: string;
-  previousTier: string;
 }
 
 // ============================================
@@ -68,7 +89,6 @@ function checkMilestones(
     { type: 'HUNDRED_CONVERSION', condition: progress.totalConversions >= 100 },
     { type: 'THOUSAND_EARNED', condition: progress.totalEarned >= 100000 }, // $1,000
     { type: 'TEN_THOUSAND_EARNED', condition: progress.totalEarned >= 1000000 }, // $10,000
-    { type: 'TIER_UPGRADE', condition: progress.currentTier !== progress.previousTier },
   ];
 
   for (const check of milestoneChecks) {
@@ -90,30 +110,49 @@ function checkMilestones(
 }
 
 // ============================================
-// In-Memory Store (Replace with database)
+// Storage
 // ============================================
 
-const milestoneStore = new Map<string, Milestone[]>();
-
-function getMilestonesForPartner(partnerId: string): Milestone[] {
-  return milestoneStore.get(partnerId) ?? [];
+async function getMilestonesForPartner(partnerId: string): Promise<Milestone[]> {
+  const milestones = await getMilestoneRepository().findByPartnerId(partnerId, { limit: 100 });
+  return milestones.map(m => ({ ...m, description: m.description ?? '' }));
 }
 
-function addMilestonesForPartner(partnerId: string, milestones: Milestone[]): void {
-  const existing = milestoneStore.get(partnerId) ?? [];
-  milestoneStore.set(partnerId, [...milestones, ...existing]);
+async function addMilestonesForPartner(milestones: Milestone[]): Promise<void> {
+  const milestoneRepo = getMilestoneRepository();
+  for (const { id: _id, ...milestone } of milestones) {
+    await milestoneRepo.upsert(milestone);
+    await emitWebhookEvent('milestone.achieved', milestone.partnerId, milestoneEventData(milestone));
+    await publishPartnerEvent(milestone.partnerId, 'milestone', milestoneEventData(milestone));
+  }
 }
 
-// Mock progress fetcher (replace with database query)
-function getPartnerProgress(_partnerId: string): PartnerProgress {
-  // In production, this would query the database
+/**
+ * Count a partner's shares, clicks and conversions and total their earnings
+ * Earnings are commissions and overrides net of reversals
+ */
+async function getPartnerProgress(partnerId: string): Promise<PartnerProgress> {
+  const referralRepo = getReferralRepository();
+
+  const [totalShares, totalClicks, converted, paid, ledger] = await Promise.all([
+    getCampaignRepository().countByPartnerId(partnerId),
+    getClickEventRepository().countByPartnerId(partnerId),
+    referralRepo.countByPartnerId(partnerId, { status: 'CONVERTED' }),
+    referralRepo.countByPartnerId(partnerId, { status: 'PAID' }),
+    getLedgerSummary(partnerId),
+  ]);
+
+  const { totals } = ledger;
+
   return {
-    totalShares: 15,
-    totalClicks: 892,
-    totalConversions: 47,
-    totalEarned: 1245000, // $12,450.00
-    currentTier: 'GOLD',
-    previousTier: 'GOLD',
+    totalShares,
+    totalClicks,
+    totalConversions: converted + paid,
+    totalEarned:
+      totals.COMMISSION_EARNED +
+      totals.COMMISSION_REVERSED +
+      totals.OVERRIDE_EARNED +
+      totals.OVERRIDE_REVERSED,
   };
 }
 
@@ -122,7 +161,7 @@ function getPartnerProgress(_partnerId: string): PartnerProgress {
 // ============================================
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse<PaginatedResponse<Milestone>>> {
   try {
@@ -148,10 +187,59 @@ export async function GET(
 
     const { id: partnerId } = paramsValidation.data;
 
-    // TODO: Authenticate and authorize request
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: [],
+            pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0, hasMore: false, hasPrevious: false },
+            error: {
+              code: ErrorCodes.RATE_LIMIT_EXCEEDED,
+              message: `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`,
+            },
+          },
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: [],
+            pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0, hasMore: false, hasPrevious: false },
+            error: {
+              code: ErrorCodes.UNAUTHORIZED,
+              message: authResult.error ?? 'Authentication required',
+            },
+          },
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'stats:read')) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: [],
+            pagination: { page: 1, pageSize: 20, total: 0, totalPages: 0, hasMore: false, hasPrevious: false },
+            error: {
+              code: ErrorCodes.FORBIDDEN,
+              message: 'Access denied to this partner data',
+            },
+          },
+          { status: 403 }
+        );
+      }
+    }
 
     // Get milestones
-    const milestones = getMilestonesForPartner(partnerId);
+    const milestones = await getMilestonesForPartner(partnerId);
 
     return NextResponse.json(
       {
@@ -191,7 +279,7 @@ export async function GET(
 // ============================================
 
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: RouteParams
 ): Promise<NextResponse<ApiResponse<MilestoneCheck>>> {
   try {
@@ -213,11 +301,47 @@ export async function POST(
 
     const { id: partnerId } = paramsValidation.data;
 
-    // TODO: Authenticate and authorize request
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'milestones:write')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
 
     // Get current progress and existing milestones
-    const progress = getPartnerProgress(partnerId);
-    const existingMilestones = getMilestonesForPartner(partnerId);
+    const progress = await getPartnerProgress(partnerId);
+    const existingMilestones = await getMilestonesForPartner(partnerId);
     const existingTypes = new Set(existingMilestones.map(m => m.type));
 
     // Check for new milestones
@@ -225,7 +349,7 @@ export async function POST(
 
     // Store new milestones
     if (newMilestones.length > 0) {
-      addMilestonesForPartner(partnerId, newMilestones);
+      await addMilestonesForPartner(newMilestones);
     }
 
     // Build response
@@ -0,0 +1,191 @@
+/**
+ * Partner Notification Preferences Endpoint
+ * GET /api/partners/[id]/notification-preferences - Channels and types the partner receives
+ * PUT /api/partners/[id]/notification-preferences - Switch channels or types on or off
+ *
+ * Push messages follow these preferences (see lib/push-service.ts).
+ *
+ * Security: Requires a signed-in session and partner ownership validation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import type { NotificationPreferences } from '@/lib/db';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import { features } from '@/lib/env';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notification-service';
+import { notificationPreferencesUpdateSchema } from '@/lib/notifications';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function checkAccess(partnerId: string): Promise<NextResponse<ApiResponse<never>> | null> {
+  if (!features.hasAuth) return null;
+
+  const authResult = await getAuthUser();
+
+  if (!authResult.authenticated) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+      { status: 401 }
+    );
+  }
+
+  if (!canAccessPartnerData(authResult.user, partnerId)) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<NotificationPreferences>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    const preferences = await getNotificationPreferences(partnerId);
+    if (!preferences) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(successResponse(preferences), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[NotificationPreferences] Error loading preferences', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// PUT Handler
+// ============================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<NotificationPreferences>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const bodyValidation = notificationPreferencesUpdateSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request data',
+          { errors: bodyValidation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const preferences = await updateNotificationPreferences(partnerId, bodyValidation.data);
+    if (!preferences) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(successResponse(preferences), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[NotificationPreferences] Error saving preferences', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
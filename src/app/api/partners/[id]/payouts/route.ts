@@ -3,32 +3,65 @@
  * GET /api/partners/[id]/payouts
  * 
  * Returns payout history with:
- * - Upcoming payouts
+ * - Upcoming payouts (commission past the hold period, bonuses and outstanding clawbacks)
  * - Past payouts
- * - Breakdown details
+ * - Breakdown details, including refund/chargeback adjustments
  * 
- * Security: Requires authentication (placeholder)
+ * Security: Requires authentication and partner ownership validation
+ * API keys need the payouts:read scope
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { ApiResponse } from '@/types';
-import { successResponse, errorResponse, ErrorCodes, generateRandomString } from '@/lib/utils';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import {
+  getBalanceAdjustmentRepository,
+  getPartnerRepository,
+  getPayoutRepository,
+  getReferralRepository,
+} from '@/lib/repositories';
+import { getPayoutSettings } from '@/lib/program-settings';
+import { getEarningsBucket, getHoldCutoff } from '@/lib/earnings';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
+import { features } from '@/lib/env';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { logger } from '@/lib/monitoring';
+import type {
+  BalanceAdjustment,
+  BalanceAdjustmentReason,
+  Payout as PayoutRecord,
+  Referral,
+} from '@/lib/db';
 
 // ============================================
 // Types
 // ============================================
 
-type PayoutStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+type PayoutStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 type PayoutMethod = 'BANK_TRANSFER' | 'PAYPAL' | 'CHECK';
 
 interface PayoutBreakdown {
   referrals: number;
   conversionAmount: number;
   bonuses: number;
+  fees: number;
   adjustments: number;
 }
 
+interface PayoutAdjustment {
+  id: string;
+  reason: BalanceAdjustmentReason;
+  description: string;
+  amount: number;
+  createdAt: Date;
+}
+
 interface Payout {
   id: string;
   amount: number;
@@ -38,6 +71,7 @@ interface Payout {
   scheduledDate?: Date;
   processedDate?: Date;
   breakdown: PayoutBreakdown;
+  adjustmentItems: PayoutAdjustment[];
   method: PayoutMethod;
   transactionId?: string;
 }
@@ -51,69 +85,110 @@ const paramsSchema = z.object({
 });
 
 const querySchema = z.object({
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED']).optional(),
+  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
   limit: z.coerce.number().int().min(1).max(50).optional().default(12),
   offset: z.coerce.number().int().min(0).optional().default(0),
 });
 
 // ============================================
-// Mock Data Generator
+// Mapping
 // ============================================
 
-function generateMockPayouts(_partnerId: string): Payout[] {
-  const now = new Date();
-  
-  const payouts: Payout[] = [
-    // Upcoming payout
-    {
-      id: `payout_${generateRandomString(8)}`,
-      amount: 124500,
-      status: 'PENDING',
-      periodStart: new Date(now.getFullYear(), now.getMonth(), 1),
-      periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 0),
-      scheduledDate: new Date(now.getFullYear(), now.getMonth() + 1, 5),
-      breakdown: {
-        referrals: 47,
-        conversionAmount: 118500,
-        bonuses: 10000,
-        adjustments: -4000,
-      },
-      method: 'BANK_TRANSFER',
+const HISTORY_LIMIT = 100;
+
+function toPayoutMethod(paymentMethod?: string | null): PayoutMethod {
+  if (paymentMethod === 'paypal') return 'PAYPAL';
+  if (paymentMethod === 'check') return 'CHECK';
+  return 'BANK_TRANSFER';
+}
+
+/**
+ * Split adjustments into bonuses and everything else
+ */
+function sumAdjustments(adjustments: BalanceAdjustment[]): { bonuses: number; adjustments: number } {
+  return adjustments.reduce(
+    (sums, a) => a.reason === 'BONUS'
+      ? { ...sums, bonuses: sums.bonuses + a.amountCents }
+      : { ...sums, adjustments: sums.adjustments + a.amountCents },
+    { bonuses: 0, adjustments: 0 }
+  );
+}
+
+function toAdjustmentItem(adjustment: BalanceAdjustment): PayoutAdjustment {
+  return {
+    id: adjustment.id,
+    reason: adjustment.reason,
+    description: adjustment.description,
+    amount: adjustment.amountCents,
+    createdAt: adjustment.createdAt,
+  };
+}
+
+function toPayout(
+  record: PayoutRecord,
+  periodStart: Date,
+  referrals: Referral[],
+  adjustments: BalanceAdjustment[]
+): Payout {
+  const { bonuses } = sumAdjustments(adjustments);
+
+  return {
+    id: record.id,
+    amount: record.netCents,
+    status: record.status,
+    periodStart,
+    periodEnd: record.requestedAt,
+    scheduledDate: record.requestedAt,
+    processedDate: record.completedAt ?? record.processedAt ?? undefined,
+    breakdown: {
+      referrals: referrals.filter(r => r.payoutId === record.id).length,
+      conversionAmount: record.amountCents,
+      bonuses,
+      fees: -record.feeCents,
+      adjustments: record.adjustmentCents - bonuses,
     },
-  ];
-
-  // Generate past 6 months of payouts
-  for (let i = 1; i <= 6; i++) {
-    const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
-    const monthEnd = new Date(now.getFullYear(), now.getMonth() - i + 1, 0);
-    const scheduledDate = new Date(now.getFullYear(), now.getMonth() - i + 1, 5);
-    const processedDate = new Date(scheduledDate.getTime() + Math.random() * 24 * 60 * 60 * 1000);
-
-    const referrals = Math.floor(25 + Math.random() * 50);
-    const conversionAmount = referrals * (2000 + Math.floor(Math.random() * 1500));
-    const bonuses = Math.random() > 0.5 ? Math.floor(Math.random() * 15000) : 0;
-    const adjustments = Math.random() > 0.8 ? -Math.floor(Math.random() * 5000) : 0;
-
-    payouts.push({
-      id: `payout_${generateRandomString(8)}`,
-      amount: conversionAmount + bonuses + adjustments,
-      status: 'COMPLETED',
-      periodStart: monthStart,
-      periodEnd: monthEnd,
-      scheduledDate,
-      processedDate,
-      breakdown: {
-        referrals,
-        conversionAmount,
-        bonuses,
-        adjustments,
-      },
-      method: Math.random() > 0.2 ? 'BANK_TRANSFER' : 'PAYPAL',
-      transactionId: `TXN-${monthStart.getFullYear()}-${String(Math.floor(Math.random() * 1000000)).padStart(6, '0')}`,
-    });
-  }
+    adjustmentItems: adjustments.map(toAdjustmentItem),
+    method: toPayoutMethod(record.paymentMethod),
+    transactionId: record.transactionId ?? undefined,
+  };
+}
 
-  return payouts;
+/**
+ * Payouts are processed on the 5th of each month
+ */
+function getNextPayoutDate(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth() + 1, 5);
+}
+
+/**
+ * Preview the next payout from unpaid commission and outstanding adjustments
+ */
+function buildUpcomingPayout(
+  periodStart: Date,
+  unpaid: Referral[],
+  outstanding: BalanceAdjustment[],
+  now: Date = new Date()
+): Payout {
+  const conversionAmount = unpaid.reduce((sum, r) => sum + r.commissionCents, 0);
+  const { bonuses, adjustments } = sumAdjustments(outstanding);
+
+  return {
+    id: 'upcoming',
+    amount: conversionAmount + bonuses + adjustments,
+    status: 'PENDING',
+    periodStart,
+    periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 0),
+    scheduledDate: getNextPayoutDate(now),
+    breakdown: {
+      referrals: unpaid.length,
+      conversionAmount,
+      bonuses,
+      fees: 0,
+      adjustments,
+    },
+    adjustmentItems: outstanding.map(toAdjustmentItem),
+    method: 'BANK_TRANSFER',
+  };
 }
 
 // ============================================
@@ -163,28 +238,75 @@ export async function GET(
 
     const { status: statusFilter, limit, offset } = queryResult.data;
 
-    // TODO: Authenticate request
-    // const authResult = await authenticateRequest(request);
-    // if (!authResult || authResult.partnerId !== partnerId) {
-    //   return NextResponse.json(
-    //     errorResponse(ErrorCodes.UNAUTHORIZED, 'Unauthorized'),
-    //     { status: 401 }
-    //   );
-    // }
-
-    // TODO: Query database
-    // const payouts = await prisma.payout.findMany({
-    //   where: {
-    //     partnerId,
-    //     ...(statusFilter && { status: statusFilter }),
-    //   },
-    //   orderBy: { periodStart: 'desc' },
-    //   skip: offset,
-    //   take: limit,
-    // });
-
-    // For now, generate mock data
-    let payouts = generateMockPayouts(partnerId);
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'payouts:read')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const adjustmentRepo = getBalanceAdjustmentRepository();
+    const [records, referrals, outstanding] = await Promise.all([
+      getPayoutRepository().findByPartnerId(partnerId, { limit: HISTORY_LIMIT }),
+      getReferralRepository().findByPartnerId(partnerId, { limit: 1000 }),
+      adjustmentRepo.findByPartnerId(partnerId, { outstanding: true, limit: HISTORY_LIMIT }),
+    ]);
+
+    // Records are newest first; each period starts where the previous payout ended
+    let payouts: Payout[] = await Promise.all(
+      records.map(async (record, i) =>
+        toPayout(
+          record,
+          records[i + 1]?.requestedAt ?? partner.createdAt,
+          referrals,
+          await adjustmentRepo.findByPayoutId(record.id)
+        )
+      )
+    );
+
+    // Only commission past the hold period by the payout date is included
+    const { holdDays } = await getPayoutSettings();
+    const cutoff = getHoldCutoff(holdDays, getNextPayoutDate());
+    const unpaid = referrals.filter(r => getEarningsBucket(r, cutoff) === 'available');
+    const hasPendingPayout = records.some(r => r.status === 'PENDING');
+
+    if (!hasPendingPayout && (unpaid.length > 0 || outstanding.length > 0)) {
+      payouts = [
+        buildUpcomingPayout(records[0]?.requestedAt ?? partner.createdAt, unpaid, outstanding),
+        ...payouts,
+      ];
+    }
 
     // Apply filters
     if (statusFilter) {
@@ -199,7 +321,14 @@ export async function GET(
       { status: 200 }
     );
   } catch (error) {
-    console.error('GET /api/partners/[id]/payouts error:', error);
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PartnerPayouts] Exception', error);
 
     return NextResponse.json(
       errorResponse(
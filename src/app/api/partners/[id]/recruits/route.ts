@@ -0,0 +1,125 @@
+/**
+ * Partner Recruits API Endpoint
+ * GET /api/partners/[id]/recruits
+ *
+ * Returns the partners this partner recruited:
+ * - The recruitment link and the override rate and window
+ * - Each recruit with the override earned from them so far
+ * - Totals across all recruits
+ *
+ * Security: Requires authentication and partner ownership validation
+ * API keys need the stats:read scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getPartnerRepository } from '@/lib/repositories';
+import { getRecruitsOverview, type RecruitsOverview } from '@/lib/recruitment-service';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { features } from '@/lib/env';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<RecruitsOverview>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'stats:read')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const overview = await getRecruitsOverview(partner);
+
+    return NextResponse.json(successResponse(overview), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PartnerRecruits] Exception', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Partner Statement API Endpoint
+ * GET /api/partners/[id]/statement
+ *
+ * Returns the partner's ledger statement for a period:
+ * - Opening and closing balance
+ * - Every entry with a running balance
+ * - Totals by entry type
+ * - A reconciliation that is zero when the ledger is consistent
+ *
+ * Query: since (inclusive), until (exclusive, defaults to now)
+ *
+ * Security: Requires authentication and partner ownership validation
+ * API keys need the payouts:read scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { getPartnerRepository } from '@/lib/repositories';
+import { getPartnerStatement } from '@/lib/ledger-service';
+import type { LedgerStatement } from '@/lib/ledger';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { features } from '@/lib/env';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const paramsSchema = z.object({
+  id: z.string().min(1, 'Partner ID is required'),
+});
+
+const querySchema = z
+  .object({
+    since: z.coerce.date().optional(),
+    until: z.coerce.date().optional(),
+  })
+  .refine(q => !q.since || !q.until || q.since < q.until, {
+    message: 'since must be before until',
+    path: ['since'],
+  });
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<LedgerStatement>>> {
+  try {
+    const validation = paramsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid partner ID',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { id: partnerId } = validation.data;
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = querySchema.safeParse({
+      since: searchParams.get('since') ?? undefined,
+      until: searchParams.get('until') ?? undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid query parameters',
+          { errors: queryResult.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
+      if (!authResult.authenticated) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
+          { status: 401 }
+        );
+      }
+
+      // Authorization check
+      if (!canAccessPartnerData(authResult.user, partnerId, 'payouts:read')) {
+        return NextResponse.json(
+          errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+          { status: 403 }
+        );
+      }
+    }
+
+    const partner = await getPartnerRepository().findById(partnerId);
+    if (!partner) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.NOT_FOUND, 'Partner not found'),
+        { status: 404 }
+      );
+    }
+
+    const statement = await getPartnerStatement(partnerId, queryResult.data);
+
+    return NextResponse.json(successResponse(statement), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PartnerStatement] Exception', error);
+
+    return NextResponse.json(
+      errorResponse(ErrorCodes.INTERNAL_ERROR, 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -7,9 +7,11 @@
  * - Pending payout amount
  * - Referral counts
  * - Conversion rates
+ * - Current commission rate
  * - Recent activity
  * 
  * Security: Requires authentication and partner ownership validation
+ * API keys need the stats:read scope
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -17,7 +19,12 @@ import { z } from 'zod';
 import type { PartnerStats, ApiResponse } from '@/types';
 import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
 import { getPartnerStats, getNotificationRepository } from '@/lib/repositories';
-import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import {
+  authenticateRequest,
+  canAccessPartnerData,
+  isApiKeyRequest,
+  isAuthError,
+} from '@/lib/auth';
 import { features } from '@/lib/env';
 import {
   checkRateLimit,
@@ -87,19 +94,29 @@ export async function GET(
 
     const { id: partnerId } = validation.data;
 
-    // Authentication check (skip if auth not configured)
-    if (features.hasAuth) {
-      const authResult = await getAuthUser();
-      
+    // Authentication check (skip if auth not configured, unless an API key is presented)
+    if (features.hasAuth || isApiKeyRequest(request)) {
+      const authResult = await authenticateRequest(request);
+
+      if (authResult.rateLimit) {
+        return NextResponse.json(
+          errorResponse(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Rate limit exceeded. Retry after ${authResult.rateLimit.retryAfter} seconds.`
+          ),
+          { status: 429, headers: rateLimitHeaders(authResult.rateLimit) }
+        );
+      }
+
       if (!authResult.authenticated) {
         return NextResponse.json(
-          errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+          errorResponse(ErrorCodes.UNAUTHORIZED, authResult.error ?? 'Authentication required'),
           { status: 401 }
         );
       }
 
       // Authorization check
-      if (!canAccessPartnerData(authResult.user, partnerId)) {
+      if (!canAccessPartnerData(authResult.user, partnerId, 'stats:read')) {
         return NextResponse.json(
           errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
           { status: 403 }
@@ -128,10 +145,12 @@ export async function GET(
     const response: PartnerStats = {
       totalEarned: stats.totalEarned,
       pendingPayout: stats.pendingPayout,
+      availableBalance: stats.availableBalance,
       totalReferrals: stats.totalReferrals,
       referralsThisMonth: stats.referralsThisMonth,
       clicksThisMonth: stats.clicksThisMonth,
       conversionRate: Math.round(stats.conversionRate * 100) / 100,
+      commissionRate: stats.commissionRate,
       recentActivity: recentNotifications
         .map(n => {
           const activityType = notificationToActivityType[n.type];
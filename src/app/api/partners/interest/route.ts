@@ -1,63 +1,70 @@
 /**
  * Partner Interest API Endpoint
  * POST /api/partners/interest
- * 
- * Handles partner program interest submissions:
- * - Email capture for waitlist
- * - Instant access with valid invite code
- * - Status tracking
- * 
+ *
+ * Handles partner program applications:
+ * - Application capture for the review queue
+ * - Instant access with valid invite code (counted against the code on approval)
+ * - Resubmission when more info is requested
+ * - Status tracking (GET ?email=&token=)
+ *
+ * Viewing or updating an existing application needs the token from the
+ * status link emailed to the applicant. Submitting an email that has
+ * already applied without it sends a new link instead.
+ *
  * Security: Public endpoint with rate limiting
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import type { ApiResponse } from '@/types';
-import { 
-  successResponse, 
-  errorResponse, 
-  ErrorCodes,
-  generateRandomString 
-} from '@/lib/utils';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import {
+  applicationStatusQuerySchema,
+  applicationSubmissionSchema,
+  applicationTokenMatches,
+  toPublicApplication,
+  type ApplicationLinkSent,
+  type PublicApplication,
+} from '@/lib/applications';
+import {
+  getApplicationByEmail,
+  getApplicationWithToken,
+  sendApplicationLink,
+  submitApplication,
+} from '@/lib/application-service';
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitHeaders,
+  RateLimitConfigs,
+  shouldEnforceRateLimit,
+  type RateLimitConfig,
+} from '@/lib/rate-limit';
+import { logger } from '@/lib/monitoring';
 
 // ============================================
-// Types
+// Helpers
 // ============================================
 
-interface PartnerInterest {
-  id: string;
-  email: string;
-  status: 'WAITLIST' | 'APPROVED' | 'INSTANT_ACCESS';
-  inviteCode?: string;
-  createdAt: Date;
-}
-
-// ============================================
-// Validation
-// ============================================
-
-const interestSchema = z.object({
-  email: z.string().email('Please provide a valid email address'),
-  inviteCode: z.string().min(4).max(20).optional(),
-});
-
-// ============================================
-// In-Memory Store (Replace with database)
-// ============================================
-
-const interestStore = new Map<string, PartnerInterest>();
-
-// Valid invite codes (in production, this would be in database)
-const VALID_INVITE_CODES = new Set([
-  'INNER2026',
-  'PARTNER100',
-  'EARLYBIRD',
-  'VIP2026',
-  'FOUNDER',
-]);
-
-function isValidInviteCode(code: string): boolean {
-  return VALID_INVITE_CODES.has(code.toUpperCase());
+/**
+ * Rate limit by client IP; returns the 429 response once the limit is reached
+ */
+async function checkClientRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig
+): Promise<NextResponse<ApiResponse<never>> | null> {
+  if (!shouldEnforceRateLimit()) return null;
+
+  const rateLimitResult = await checkRateLimit(getClientIdentifier(request), config);
+  if (rateLimitResult.success) return null;
+
+  return NextResponse.json(
+    errorResponse(
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      `Rate limit exceeded. Retry after ${rateLimitResult.retryAfter} seconds.`
+    ),
+    { status: 429, headers: rateLimitHeaders(rateLimitResult) }
+  );
 }
 
 // ============================================
@@ -66,8 +73,11 @@ function isValidInviteCode(code: string): boolean {
 
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<PartnerInterest>>> {
+): Promise<NextResponse<ApiResponse<PublicApplication | ApplicationLinkSent>>> {
   try {
+    const rateLimited = await checkClientRateLimit(request, RateLimitConfigs.APPLICATION);
+    if (rateLimited) return rateLimited;
+
     // Parse request body
     let body: unknown;
     try {
@@ -83,7 +93,7 @@ export async function POST(
     }
 
     // Validate request body
-    const validation = interestSchema.safeParse(body);
+    const validation = applicationSubmissionSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         errorResponse(
@@ -95,73 +105,37 @@ export async function POST(
       );
     }
 
-    const { email, inviteCode } = validation.data;
-    const normalizedEmail = email.toLowerCase().trim();
-
-    // Check for existing submission
-    const existing = interestStore.get(normalizedEmail);
-    if (existing) {
-      // If already has instant access or approved, return existing
-      if (existing.status !== 'WAITLIST') {
-        return NextResponse.json(
-          successResponse(existing),
-          { status: 200 }
-        );
-      }
-      
-      // If on waitlist but now has invite code, upgrade
-      if (inviteCode && isValidInviteCode(inviteCode)) {
-        existing.status = 'INSTANT_ACCESS';
-        existing.inviteCode = inviteCode.toUpperCase();
-        interestStore.set(normalizedEmail, existing);
-        
-        return NextResponse.json(
-          successResponse(existing),
-          { status: 200 }
-        );
-      }
-
-      // Return existing waitlist entry
-      return NextResponse.json(
-        successResponse(existing),
-        { status: 200 }
-      );
-    }
+    const { token, ...submission } = validation.data;
 
-    // Determine status based on invite code
-    let status: PartnerInterest['status'] = 'WAITLIST';
-    if (inviteCode && isValidInviteCode(inviteCode)) {
-      status = 'INSTANT_ACCESS';
+    // Invite codes get a tighter limit so they cannot be guessed
+    if (submission.inviteCode) {
+      const inviteLimited = await checkClientRateLimit(request, RateLimitConfigs.INVITE_CODE);
+      if (inviteLimited) return inviteLimited;
     }
 
-    // Create new interest record
-    const interest: PartnerInterest = {
-      id: `interest_${generateRandomString(12)}`,
-      email: normalizedEmail,
-      status,
-      inviteCode: inviteCode?.toUpperCase(),
-      createdAt: new Date(),
-    };
+    // Only the inbox owner can change an existing application
+    const existing = await getApplicationByEmail(submission.email);
+    if (existing && !(token && applicationTokenMatches(existing, token))) {
+      await sendApplicationLink(existing);
 
-    // Store interest
-    interestStore.set(normalizedEmail, interest);
+      return NextResponse.json(
+        successResponse({ email: existing.email, linkSent: true as const }),
+        { status: 202 }
+      );
+    }
 
-    // TODO: Save to database
-    // await prisma.partnerInterest.create({ data: interest });
+    const { application, created } = await submitApplication(submission);
 
-    // TODO: Send confirmation email
-    // if (status === 'INSTANT_ACCESS') {
-    //   await sendWelcomeEmail(email);
-    // } else {
-    //   await sendWaitlistEmail(email);
-    // }
+    if (created) {
+      await sendApplicationLink(application);
+    }
 
     return NextResponse.json(
-      successResponse(interest),
-      { status: 201 }
+      successResponse(toPublicApplication(application)),
+      { status: created ? 201 : 200 }
     );
   } catch (error) {
-    console.error('POST /api/partners/interest error:', error);
+    logger.error('[PartnerInterest] Error submitting application', error);
 
     return NextResponse.json(
       errorResponse(
@@ -174,54 +148,48 @@ export async function POST(
 }
 
 // ============================================
-// GET Handler - Check interest status
+// GET Handler - Check application status
 // ============================================
 
 export async function GET(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<PartnerInterest | null>>> {
+): Promise<NextResponse<ApiResponse<PublicApplication>>> {
   try {
+    const rateLimited = await checkClientRateLimit(request, RateLimitConfigs.APPLICATION);
+    if (rateLimited) return rateLimited;
+
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const validation = applicationStatusQuerySchema.safeParse(Object.fromEntries(searchParams));
 
-    if (!email) {
+    if (!validation.success) {
       return NextResponse.json(
         errorResponse(
           ErrorCodes.VALIDATION_ERROR,
-          'Email parameter is required'
+          'Invalid query parameters',
+          { errors: validation.error.flatten().fieldErrors }
         ),
         { status: 400 }
       );
     }
 
-    // Validate email format
-    const emailValidation = z.string().email().safeParse(email);
-    if (!emailValidation.success) {
+    const application = await getApplicationWithToken(validation.data.email, validation.data.token);
+
+    if (!application) {
       return NextResponse.json(
         errorResponse(
-          ErrorCodes.VALIDATION_ERROR,
-          'Invalid email format'
+          ErrorCodes.UNAUTHORIZED,
+          'This link is invalid or has expired'
         ),
-        { status: 400 }
-      );
-    }
-
-    const normalizedEmail = email.toLowerCase().trim();
-    const interest = interestStore.get(normalizedEmail);
-
-    if (!interest) {
-      return NextResponse.json(
-        successResponse(null),
-        { status: 200 }
+        { status: 401 }
       );
     }
 
     return NextResponse.json(
-      successResponse(interest),
+      successResponse(toPublicApplication(application)),
       { status: 200 }
     );
   } catch (error) {
-    console.error('GET /api/partners/interest error:', error);
+    logger.error('[PartnerInterest] Error fetching application', error);
 
     return NextResponse.json(
       errorResponse(
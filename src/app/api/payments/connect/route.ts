@@ -3,7 +3,8 @@
  * POST /api/payments/connect
  * GET /api/payments/connect
  * 
- * Manage Stripe Connect account setup for partners
+ * Manage Stripe Connect account setup for partners. Partners who
+ * already have an account resume its onboarding.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -34,7 +35,7 @@ const setupSchema = z.object({
 
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<ApiResponse<{ onboardingUrl: string }>>> {
+): Promise<NextResponse<ApiResponse<{ accountId: string; onboardingUrl: string; resumed: boolean }>>> {
   try {
     // Authentication check
     if (features.hasAuth) {
@@ -68,7 +69,7 @@ export async function POST(
     // Setup partner payments
     const result = await setupPartnerPayments(partnerId);
     
-    if (!result.success || !result.onboardingUrl) {
+    if (!result.success || !result.onboardingUrl || !result.accountId) {
       logger.warn('[ConnectAPI] Setup failed', {
         partnerId,
         error: result.error,
@@ -83,10 +84,14 @@ export async function POST(
       );
     }
     
-    logger.info('[ConnectAPI] Onboarding initiated', { partnerId });
+    logger.info('[ConnectAPI] Onboarding initiated', { partnerId, resumed: result.resumed });
     
     return NextResponse.json(
-      successResponse({ onboardingUrl: result.onboardingUrl }),
+      successResponse({
+        accountId: result.accountId,
+        onboardingUrl: result.onboardingUrl,
+        resumed: Boolean(result.resumed),
+      }),
       { status: 200 }
     );
   } catch (error) {
@@ -118,7 +123,6 @@ export async function GET(
   try {
     const { searchParams } = new URL(request.url);
     const partnerId = searchParams.get('partnerId');
-    const stripeAccountId = searchParams.get('stripeAccountId') || undefined;
     const statusOnly = searchParams.get('status') === 'true';
     
     // If just checking service status
@@ -142,7 +146,7 @@ export async function GET(
     }
     
     // Get partner payment status
-    const status = await getPartnerPaymentStatus(partnerId, stripeAccountId);
+    const status = await getPartnerPaymentStatus(partnerId);
     
     return NextResponse.json(
       successResponse(status),
@@ -16,6 +16,7 @@ import {
   getPartnerPayoutStats,
   type PayoutResponse,
 } from '@/lib/payment-service';
+import { getRequestAuditContext } from '@/lib/audit';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -72,6 +73,7 @@ export async function POST(
       partnerId,
       amountCents,
       method,
+      auditContext: getRequestAuditContext(request, partnerId, 'PARTNER'),
     });
     
     if (!result.success) {
@@ -130,6 +132,7 @@ export async function POST(
 export async function GET(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<{
+  balance: number;
   totalPaid: number;
   totalPending: number;
   totalProcessing: number;
@@ -164,6 +167,7 @@ export async function GET(
     
     return NextResponse.json(
       successResponse({
+        balance: stats.balance,
         totalPaid: stats.totalPaid,
         totalPending: stats.totalPending,
         totalProcessing: stats.totalProcessing,
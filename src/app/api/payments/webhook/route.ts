@@ -2,16 +2,25 @@
  * Stripe Webhook Handler
  * POST /api/payments/webhook
  * 
- * Handles Stripe webhook events for payouts, transfers, and account updates
+ * Handles Stripe webhook events for payouts, transfers, account updates,
+ * and customer refunds/disputes (commission clawbacks)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { headers } from 'next/headers';
 import {
   constructWebhookEvent,
+  getCharge,
   hasWebhookSecret,
+  toConnectAccountInfo,
 } from '@/lib/stripe';
-import { completePayout, failPayout } from '@/lib/payment-service';
+import {
+  completePayout,
+  disconnectStripeAccount,
+  failPayout,
+  syncStripeAccount,
+} from '@/lib/payment-service';
+import { reverseStripeCharge } from '@/lib/clawback-service';
 import { logger } from '@/lib/monitoring';
 
 // ============================================
@@ -77,8 +86,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         const payoutId = payout.metadata?.internalPayoutId;
         
         if (payoutId) {
-          await completePayout(payoutId, payout.id);
-          logger.info('[StripeWebhook] Payout completed', {
+          const result = await completePayout(payoutId, payout.id);
+          logPayoutEventResult('Payout completed', result, {
             payoutId,
             stripePayoutId: payout.id,
           });
@@ -92,8 +101,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         const failureMessage = payout.failure_message || 'Payout failed';
         
         if (payoutId) {
-          await failPayout(payoutId, failureMessage);
-          logger.warn('[StripeWebhook] Payout failed', {
+          const result = await failPayout(payoutId, failureMessage);
+          logPayoutEventResult('Payout failed', result, {
             payoutId,
             stripePayoutId: payout.id,
             reason: failureMessage,
@@ -107,8 +116,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         const payoutId = payout.metadata?.internalPayoutId;
         
         if (payoutId) {
-          await failPayout(payoutId, 'Payout was canceled');
-          logger.warn('[StripeWebhook] Payout canceled', {
+          const result = await failPayout(payoutId, 'Payout was canceled');
+          logPayoutEventResult('Payout canceled', result, {
             payoutId,
             stripePayoutId: payout.id,
           });
@@ -140,30 +149,86 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         break;
       }
       
+      // ============================================
+      // Charge Events (commission clawbacks)
+      // ============================================
+      
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        
+        // Partial refunds keep the commission
+        if (!charge.refunded) {
+          logger.info('[StripeWebhook] Partial refund ignored', {
+            chargeId: charge.id,
+            amountRefunded: charge.amount_refunded,
+          });
+          break;
+        }
+        
+        const result = await reverseStripeCharge(charge, 'REFUND');
+        logger.info('[StripeWebhook] Charge refunded', {
+          chargeId: charge.id,
+          referralId: result?.referral?.id,
+          adjustmentId: result?.adjustment?.id,
+          error: result?.error,
+        });
+        break;
+      }
+      
+      case 'charge.dispute.created': {
+        const dispute = event.data.object;
+        const charge = typeof dispute.charge === 'string'
+          ? (await getCharge(dispute.charge)).charge
+          : dispute.charge;
+        
+        if (!charge) {
+          logger.warn('[StripeWebhook] Disputed charge not found', {
+            disputeId: dispute.id,
+          });
+          break;
+        }
+        
+        const result = await reverseStripeCharge(charge, 'CHARGEBACK');
+        logger.warn('[StripeWebhook] Charge disputed', {
+          disputeId: dispute.id,
+          chargeId: charge.id,
+          referralId: result?.referral?.id,
+          adjustmentId: result?.adjustment?.id,
+          error: result?.error,
+        });
+        break;
+      }
+      
       // ============================================
       // Account Events
       // ============================================
       
       case 'account.updated': {
         const account = event.data.object;
+        const result = await syncStripeAccount(toConnectAccountInfo(account));
         logger.info('[StripeWebhook] Account updated', {
           accountId: account.id,
+          partnerId: result.partnerId,
           chargesEnabled: account.charges_enabled,
           payoutsEnabled: account.payouts_enabled,
           detailsSubmitted: account.details_submitted,
+          error: result.error,
         });
-        
-        // Could update partner record with onboarding status
-        // In production, you'd look up the partner by stripeAccountId
         break;
       }
       
       case 'account.application.deauthorized': {
-        const account = event.data.object;
-        logger.warn('[StripeWebhook] Account deauthorized', {
-          accountId: account.id,
-        });
-        // Handle deauthorization - disable payouts for partner
+        // The event's object is our platform application; the account is on the event
+        const accountId = event.account;
+        
+        if (accountId) {
+          const result = await disconnectStripeAccount(accountId);
+          logger.warn('[StripeWebhook] Account deauthorized', {
+            accountId,
+            partnerId: result.partnerId,
+            error: result.error,
+          });
+        }
         break;
       }
       
@@ -194,11 +259,30 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   } catch (error) {
     logger.error('[StripeWebhook] Handler error', error);
     
-    // Return 200 to prevent Stripe from retrying
-    // Log the error but don't fail the webhook
+    // Stripe redelivers on failure; event handlers are idempotent
     return NextResponse.json(
-      { error: 'Webhook handler error', received: true },
-      { status: 200 }
+      { error: 'Webhook handler error' },
+      { status: 500 }
     );
   }
 }
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Log the outcome of applying a payout event to our payout
+ * Events for payouts we cannot update are logged, not retried
+ */
+function logPayoutEventResult(
+  message: string,
+  result: { success: boolean; error?: string },
+  context: Record<string, unknown>
+): void {
+  if (result.success) {
+    logger.info(`[StripeWebhook] ${message}`, context);
+  } else {
+    logger.warn(`[StripeWebhook] ${message} event not applied`, { ...context, error: result.error });
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Push Subscribe API Endpoint
+ * POST /api/push/subscribe - Save a browser's Web Push subscription for a partner
+ *
+ * Called by usePushNotifications after the browser subscribes with the
+ * VAPID public key. Subscribing the same browser again replaces its keys;
+ * endpoints must be a known browser push service and not belong to
+ * another partner.
+ *
+ * Security: Requires a signed-in session and partner ownership validation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { pushSubscriptionSchema } from '@/lib/web-push';
+import { savePushSubscription } from '@/lib/push-service';
+import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import { features } from '@/lib/env';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const subscribeSchema = z.object({
+  partnerId: z.string().min(1, 'Partner ID is required'),
+  subscription: pushSubscriptionSchema,
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface SubscribeResponse {
+  subscriptionId: string;
+}
+
+const ERROR_STATUS = {
+  NOT_FOUND: { code: ErrorCodes.NOT_FOUND, status: 404 },
+  ENDPOINT_TAKEN: { code: ErrorCodes.CONFLICT, status: 409 },
+} as const;
+
+// ============================================
+// Helpers
+// ============================================
+
+async function checkAccess(partnerId: string): Promise<NextResponse<ApiResponse<never>> | null> {
+  if (!features.hasAuth) return null;
+
+  const authResult = await getAuthUser();
+
+  if (!authResult.authenticated) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+      { status: 401 }
+    );
+  }
+
+  if (!canAccessPartnerData(authResult.user, partnerId)) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<SubscribeResponse>>> {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const validation = subscribeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request data',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, subscription } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    const result = await savePushSubscription(
+      partnerId,
+      subscription,
+      request.headers.get('user-agent')
+    );
+
+    if (!result.success || !result.subscription) {
+      const { code, status } = ERROR_STATUS[result.errorCode ?? 'NOT_FOUND'];
+      return NextResponse.json(
+        errorResponse(code, result.error ?? 'Partner not found'),
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      successResponse({ subscriptionId: result.subscription.id }),
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PushSubscribe] Error saving subscription', error);
+
+    return NextResponse.json(
+      errorResponse(
+        ErrorCodes.INTERNAL_ERROR,
+        'An unexpected error occurred. Please try again.'
+      ),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Push Unsubscribe API Endpoint
+ * POST /api/push/unsubscribe - Remove a browser's Web Push subscription
+ *
+ * Called by usePushNotifications after the browser unsubscribes. Removing
+ * an endpoint the partner has no subscription at is not an error.
+ *
+ * Security: Requires a signed-in session and partner ownership validation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types';
+import { successResponse, errorResponse, ErrorCodes } from '@/lib/utils';
+import { removePushSubscription } from '@/lib/push-service';
+import { getAuthUser, canAccessPartnerData, isAuthError } from '@/lib/auth';
+import { features } from '@/lib/env';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Validation
+// ============================================
+
+const unsubscribeSchema = z.object({
+  partnerId: z.string().min(1, 'Partner ID is required'),
+  endpoint: z.string().url().max(700),
+});
+
+// ============================================
+// Types
+// ============================================
+
+interface UnsubscribeResponse {
+  removed: boolean;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function checkAccess(partnerId: string): Promise<NextResponse<ApiResponse<never>> | null> {
+  if (!features.hasAuth) return null;
+
+  const authResult = await getAuthUser();
+
+  if (!authResult.authenticated) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.UNAUTHORIZED, 'Authentication required'),
+      { status: 401 }
+    );
+  }
+
+  if (!canAccessPartnerData(authResult.user, partnerId)) {
+    return NextResponse.json(
+      errorResponse(ErrorCodes.FORBIDDEN, 'Access denied to this partner data'),
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<UnsubscribeResponse>>> {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON'),
+        { status: 400 }
+      );
+    }
+
+    const validation = unsubscribeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          'Invalid request data',
+          { errors: validation.error.flatten().fieldErrors }
+        ),
+        { status: 400 }
+      );
+    }
+
+    const { partnerId, endpoint } = validation.data;
+
+    const authError = await checkAccess(partnerId);
+    if (authError) return authError;
+
+    const removed = await removePushSubscription(partnerId, endpoint);
+
+    return NextResponse.json(successResponse({ removed }), { status: 200 });
+  } catch (error) {
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        errorResponse(ErrorCodes.UNAUTHORIZED, error.message),
+        { status: error.statusCode }
+      );
+    }
+
+    logger.error('[PushUnsubscribe] Error removing subscription', error);
+
+    return NextResponse.json(
+      errorResponse(
+        ErrorCodes.INTERNAL_ERROR,
+        'An unexpected error occurred. Please try again.'
+      ),
+      { status: 500 }
+    );
+  }
+}
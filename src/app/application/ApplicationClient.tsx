@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * Application Status Client Component
+ * Shows an application's status and answers info requests, using the
+ * email and token from the status link
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import type { ApiResponse } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface Application {
+  id: string;
+  email: string;
+  status: 'WAITLIST' | 'INSTANT_ACCESS' | 'INFO_REQUESTED' | 'APPROVED' | 'REJECTED';
+  inviteCode?: string | null;
+  reviewNotes?: string | null;
+  createdAt: string;
+}
+
+const STATUS_MESSAGES: Record<Application['status'], string> = {
+  WAITLIST: 'Your application is on the waitlist. We review applications in the order they arrive.',
+  INSTANT_ACCESS: 'Your invite code was accepted. Your application is next in line for review.',
+  INFO_REQUESTED: 'We need a little more information before we can review your application.',
+  APPROVED: 'You\'re in! Check your inbox for your welcome email.',
+  REJECTED: 'Thanks for applying. We aren\'t able to offer you a place in the program right now.',
+};
+
+// ============================================
+// Application Client Component
+// ============================================
+
+export function ApplicationClient(): React.ReactElement {
+  const searchParams = useSearchParams();
+  const email = searchParams.get('email') ?? '';
+  const token = searchParams.get('token') ?? '';
+
+  const [application, setApplication] = useState<Application | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchApplication = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ email, token });
+      const response = await fetch(`/api/partners/interest?${params.toString()}`);
+      const json: ApiResponse<Application> = await response.json();
+
+      if (!json.success || !json.data) {
+        throw new Error(json.error?.message ?? 'Failed to load application');
+      }
+
+      setApplication(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load application');
+    } finally {
+      setLoading(false);
+    }
+  }, [email, token]);
+
+  useEffect(() => {
+    fetchApplication();
+  }, [fetchApplication]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/partners/interest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, token, message }),
+      });
+      const json: ApiResponse<Application> = await response.json();
+
+      if (!json.success || !json.data) {
+        throw new Error(json.error?.message ?? 'Failed to update application');
+      }
+
+      setApplication(json.data);
+      setMessage('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update application');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">Your Application</h1>
+
+        {loading && <p className="text-gray-500">Loading...</p>}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {application && (
+          <>
+            <p className="text-sm text-gray-500">{application.email}</p>
+            <p className="text-gray-700">{STATUS_MESSAGES[application.status]}</p>
+
+            {application.inviteCode && (
+              <p className="text-sm text-gray-600">
+                Invite code: <span className="font-mono">{application.inviteCode}</span>
+              </p>
+            )}
+
+            {application.status === 'INFO_REQUESTED' && (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                {application.reviewNotes && (
+                  <p className="p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+                    {application.reviewNotes}
+                  </p>
+                )}
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={5}
+                  maxLength={2000}
+                  required
+                  placeholder="Tell us more about your audience and how you'd promote us"
+                  className="w-full px-4 py-3 rounded-xl border border-gray-200 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className={cn(
+                    'w-full px-6 py-3 rounded-xl font-semibold',
+                    'bg-primary-600 text-white hover:bg-primary-700 transition-colors',
+                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                  )}
+                >
+                  {submitting ? 'Sending...' : 'Send Details'}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
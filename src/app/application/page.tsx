@@ -0,0 +1,15 @@
+/**
+ * Application Status Page
+ * Opened from the status link emailed to partner applicants
+ */
+
+import { Suspense } from 'react';
+import { ApplicationClient } from './ApplicationClient';
+
+export default function ApplicationPage(): React.ReactElement {
+  return (
+    <Suspense>
+      <ApplicationClient />
+    </Suspense>
+  );
+}
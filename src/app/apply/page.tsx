@@ -0,0 +1,24 @@
+/**
+ * Partner Application Page
+ * Program overview and application form for new partners. Recruitment
+ * links land here with the recruiter's referral code, which is sent with
+ * the application so the approved partner is attributed to them.
+ */
+
+import { OnboardingWizard } from '@/components/features/OnboardingWizard';
+import { RECRUITER_PARAM } from '@/lib/recruitment-service';
+
+interface ApplyPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ApplyPage({ searchParams }: ApplyPageProps): Promise<React.ReactElement> {
+  const recruiter = (await searchParams)[RECRUITER_PARAM];
+  const recruiterCode = typeof recruiter === 'string' && recruiter.trim() ? recruiter.trim() : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <OnboardingWizard recruiterCode={recruiterCode} />
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { ShareKit } from '@/components/features/ShareKit';
 import { CampaignCreator } from '@/components/features/CampaignCreator';
 import { StatsDashboard } from '@/components/features/StatsDashboard';
+import { MyRecruits } from '@/components/features/MyRecruits';
 import { QRCodeGenerator, QRCodeModal } from '@/components/features/QRCodeGenerator';
 import { EarningsChart, ConversionsChart, SourceChart } from '@/components/charts';
 import { StatsCard, StatsGrid, StatsIcons } from '@/components/ui/StatsCard';
@@ -66,13 +67,14 @@ type StatsModalType = 'earnings' | 'payout' | 'referrals' | 'conversion' | null;
 // Tab Types
 // ============================================
 
-type TabKey = 'overview' | 'analytics' | 'share' | 'campaigns' | 'settings';
+type TabKey = 'overview' | 'analytics' | 'share' | 'campaigns' | 'recruits' | 'settings';
 
 const TABS: Array<{ key: TabKey; label: string; icon: string; mobileIcon: string }> = [
   { key: 'overview', label: 'Overview', icon: '📊', mobileIcon: '📊' },
   { key: 'analytics', label: 'Analytics', icon: '📈', mobileIcon: '📈' },
   { key: 'share', label: 'Share', icon: '📤', mobileIcon: '📤' },
   { key: 'campaigns', label: 'Campaigns', icon: '🎯', mobileIcon: '🎯' },
+  { key: 'recruits', label: 'My Recruits', icon: '🤝', mobileIcon: '🤝' },
   { key: 'settings', label: 'Settings', icon: '⚙️', mobileIcon: '⚙️' },
 ];
 
@@ -390,16 +392,20 @@ function StatsDetailModal({ isOpen, onClose, type, stats, analytics: _analytics,
       ),
     },
     payout: {
-      title: 'Pending Payout',
+      title: 'Available Balance',
       icon: '💸',
       content: (
         <div className="space-y-4">
           <div className="text-center py-4">
-            <p className="text-4xl font-bold text-indigo-600">{formatCurrency(stats?.pendingPayout ?? 0)}</p>
+            <p className="text-4xl font-bold text-indigo-600">{formatCurrency(stats?.availableBalance ?? 0)}</p>
             <p className="text-gray-500 mt-1">Available to withdraw</p>
           </div>
           <div className="bg-gray-50 rounded-lg p-4 space-y-3">
             <h4 className="font-semibold text-gray-900">Payout Details</h4>
+            <div className="flex justify-between">
+              <span className="text-gray-600">On Hold</span>
+              <span className="font-medium">{formatCurrency(stats?.pendingPayout ?? 0)}</span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Minimum Payout</span>
               <span className="font-medium">$50.00</span>
@@ -545,7 +551,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
   // Fetch data
   const { data: stats, status: statsStatus } = usePartnerStats(partnerId);
   const { campaigns: apiCampaigns, createCampaign, isCreating } = useCampaigns(partnerId);
-  const { data: analytics, loading: analyticsLoading } = useAnalytics(partnerId, { days: 30 });
+  const { data: analytics, loading: analyticsLoading } = useAnalytics(partnerId, { range: '30d' });
 
   // Combine local and API campaigns
   const allCampaigns = [...localCampaigns, ...apiCampaigns];
@@ -653,8 +659,14 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
   const isAnalyticsLoading = analyticsLoading;
 
   // Transform analytics data for charts
-  const chartData = analytics?.daily ?? [];
-  const sourceData = analytics?.bySource ?? [];
+  const chartData = (analytics?.timeSeries ?? []).map(point => ({
+    date: point.date,
+    clicks: point.clicks,
+    conversions: point.conversions,
+    earnings: point.commission,
+  }));
+  const sourceData = analytics?.sourceBreakdown ?? [];
+  const hasAnalytics = Boolean(analytics?.overview.clicks || analytics?.overview.conversions);
 
   return (
     <div className="min-h-screen bg-gray-50 pb-20 lg:pb-0">
@@ -734,7 +746,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
                 )}
               </div>
 
-              {user.role === 'ADMIN' && (
+              {(user.role === 'ADMIN' || user.role === 'SUPER_ADMIN') && (
                 <span className="px-2 py-1 text-xs font-medium bg-purple-100 text-purple-700 rounded-full hidden sm:inline">
                   Admin
                 </span>
@@ -828,9 +840,9 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
             onClick={() => setStatsModalType('earnings')}
           />
           <StatsCard
-            title="Pending Payout"
-            value={formatCurrency(stats?.pendingPayout ?? 0)}
-            subtitle="Available to withdraw"
+            title="Available Balance"
+            value={formatCurrency(stats?.availableBalance ?? 0)}
+            subtitle={`${formatCurrency(stats?.pendingPayout ?? 0)} on hold`}
             icon={StatsIcons.payout}
             color="success"
             loading={isLoading}
@@ -901,7 +913,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
           {/* Analytics Tab */}
           {activeTab === 'analytics' && (
             <div className="space-y-6">
-              {isNewUser && !chartData.length ? (
+              {isNewUser && !hasAnalytics ? (
                 <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8">
                   <EmptyState
                     icon="📊"
@@ -950,6 +962,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
                 <ShareKit
                   referralCode={referralCode}
                   referralLink={referralLink}
+                  partnerId={partnerId}
                   partnerName={user.name}
                   onShareComplete={handleShareComplete}
                 />
@@ -1013,6 +1026,14 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
             </div>
           )}
 
+          {/* Recruits Tab */}
+          {activeTab === 'recruits' && (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">My Recruits</h2>
+              <MyRecruits partnerId={partnerId} />
+            </div>
+          )}
+
           {/* Settings Tab */}
           {activeTab === 'settings' && (
             <div className="space-y-6">
@@ -1139,7 +1160,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
       {/* Mobile Bottom Navigation */}
       <nav className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 lg:hidden z-20">
         <div className="flex justify-around py-2">
-          {TABS.slice(0, 5).map((tab) => (
+          {TABS.map((tab) => (
             <button
               key={tab.key}
               onClick={() => setActiveTab(tab.key)}
@@ -1170,7 +1191,7 @@ export function DashboardClient({ user }: DashboardClientProps): React.ReactElem
         onClose={() => setStatsModalType(null)}
         type={statsModalType}
         stats={stats ?? null}
-        analytics={analytics}
+        analytics={analytics ? { daily: chartData } : null}
         company={selectedCompany}
       />
 
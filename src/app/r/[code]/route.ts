@@ -0,0 +1,150 @@
+/**
+ * Referral Redirect Handler
+ * GET /r/[code]?c=[campaignSlug]&x=[experimentId].[variantId]
+ *
+ * Resolves the partner and campaign, logs the click, sets the
+ * attribution cookie and redirects to the configured destination.
+ * A returning visitor keeps the visitor id from their existing cookie.
+ * Links shared from a running experiment credit the click to its variant.
+ *
+ * Security: Public endpoint. Always redirects, even when the code is
+ * unknown or tracking fails, so shared links never break for visitors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCampaignRepository, getPartnerRepository } from '@/lib/repositories';
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  RateLimitConfigs,
+  shouldEnforceRateLimit,
+} from '@/lib/rate-limit';
+import {
+  ATTRIBUTION_COOKIE_NAME,
+  ATTRIBUTION_PARAM,
+  ATTRIBUTION_WINDOW_DAYS,
+  createAttributionToken,
+  detectDevice,
+  generateVisitorId,
+  getReferralDestination,
+  parseAttributionToken,
+  recordReferralClick,
+} from '@/lib/tracking';
+import { creditExperimentClick } from '@/lib/experiment-service';
+import { EXPERIMENT_PARAM } from '@/lib/experiments';
+import { logger } from '@/lib/monitoring';
+
+// ============================================
+// Types
+// ============================================
+
+interface RouteParams {
+  params: Promise<{ code: string }>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function redirectTo(url: URL): NextResponse {
+  const response = NextResponse.redirect(url, 302);
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
+
+function decodeHeader(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const { code } = await params;
+  const referralCode = code.trim().toUpperCase();
+
+  try {
+    const partner = await getPartnerRepository().findByReferralCode(referralCode);
+
+    if (!partner || partner.status !== 'ACTIVE') {
+      logger.info('[Referral] Unknown or inactive referral code', { referralCode });
+      return redirectTo(getReferralDestination(null, searchParams));
+    }
+
+    const destination = getReferralDestination(partner.referralCode, searchParams);
+    const userAgent = request.headers.get('user-agent');
+
+    // Link previews and crawlers are redirected but not counted
+    if (detectDevice(userAgent) === 'bot') {
+      return redirectTo(destination);
+    }
+
+    // Excessive clicks from one client are redirected but not counted
+    const clientId = getClientIdentifier(request);
+    if (shouldEnforceRateLimit()) {
+      const rateLimitResult = await checkRateLimit(clientId, RateLimitConfigs.REFERRAL_CLICK);
+      if (!rateLimitResult.success) {
+        return redirectTo(destination);
+      }
+    }
+
+    // Resolve campaign by slug (inactive campaigns still credit the partner)
+    const campaignSlug = searchParams.get('c');
+    const campaign = campaignSlug
+      ? await getCampaignRepository().findBySlug(partner.id, campaignSlug)
+      : null;
+    const activeCampaign = campaign?.isActive ? campaign : null;
+
+    // Keep the visitor id of an earlier click, even one for another partner
+    const existingToken = request.cookies.get(ATTRIBUTION_COOKIE_NAME)?.value;
+    const visitorId = (existingToken && parseAttributionToken(existingToken)?.visitorId) || generateVisitorId();
+
+    const clickEvent = await recordReferralClick(partner, activeCampaign, {
+      ip: clientId,
+      visitorId,
+      userAgent,
+      referer: request.headers.get('referer'),
+      country: request.headers.get('x-vercel-ip-country'),
+      city: decodeHeader(request.headers.get('x-vercel-ip-city')),
+    });
+
+    const experiment = await creditExperimentClick(partner.id, searchParams.get(EXPERIMENT_PARAM));
+
+    const attributionToken = createAttributionToken({
+      partnerId: partner.id,
+      campaignId: activeCampaign?.id ?? null,
+      clickId: clickEvent.id,
+      clickedAt: clickEvent.createdAt,
+      visitorId,
+      experiment,
+    });
+
+    // The destination may live on another domain, so the token also travels
+    // in the URL for the product backend to echo back on conversion
+    destination.searchParams.set(ATTRIBUTION_PARAM, attributionToken);
+
+    const response = redirectTo(destination);
+    response.cookies.set(ATTRIBUTION_COOKIE_NAME, attributionToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: ATTRIBUTION_WINDOW_DAYS * 24 * 60 * 60,
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('[Referral] Failed to track referral click', error, { referralCode });
+    return redirectTo(getReferralDestination(referralCode, searchParams));
+  }
+}
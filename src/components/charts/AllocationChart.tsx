@@ -0,0 +1,133 @@
+/**
+ * Allocation Chart Component
+ * Displays how a bandit experiment's traffic moved between variants over time
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { format } from 'date-fns';
+
+// ============================================
+// Types
+// ============================================
+
+interface AllocationVariant {
+  id: string;
+  name: string;
+}
+
+interface AllocationPoint {
+  createdAt: Date | string;
+  weights: Record<string, number>; // traffic share by variant id
+}
+
+interface AllocationChartProps {
+  variants: AllocationVariant[];
+  allocations: AllocationPoint[];
+  height?: number;
+}
+
+// ============================================
+// Colors
+// ============================================
+
+const COLORS = [
+  '#6366f1', // Indigo
+  '#10b981', // Emerald
+  '#f97316', // Orange
+  '#ec4899', // Pink
+  '#06b6d4', // Cyan
+];
+
+// ============================================
+// Allocation Chart Component
+// ============================================
+
+export function AllocationChart({
+  variants,
+  allocations,
+  height = 200,
+}: AllocationChartProps): React.ReactElement {
+  if (allocations.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center bg-gray-50 rounded-lg text-gray-500"
+        style={{ height }}
+      >
+        No allocations yet
+      </div>
+    );
+  }
+
+  // One row per allocation, with each variant's share in percent
+  const data = allocations.map(allocation => ({
+    at: new Date(allocation.createdAt).getTime(),
+    ...Object.fromEntries(
+      variants.map(v => [v.id, Math.round((allocation.weights[v.id] ?? 0) * 1000) / 10])
+    ),
+  }));
+
+  return (
+    <div style={{ width: '100%', height }}>
+      <ResponsiveContainer>
+        <AreaChart
+          data={data}
+          margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+          <XAxis
+            dataKey="at"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(at: number) => format(at, 'MMM d')}
+            tick={{ fontSize: 12, fill: '#6b7280' }}
+            tickLine={false}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <YAxis
+            domain={[0, 100]}
+            tickFormatter={(value: number) => `${value}%`}
+            tick={{ fontSize: 12, fill: '#6b7280' }}
+            tickLine={false}
+            axisLine={false}
+            width={40}
+          />
+          <Tooltip
+            labelFormatter={(at) => format(Number(at), 'MMM d, HH:mm')}
+            formatter={(value) => `${value}%`}
+          />
+          <Legend
+            formatter={(value: string) => (
+              <span className="text-sm text-gray-600">{value}</span>
+            )}
+          />
+          {variants.map((variant, i) => (
+            <Area
+              key={variant.id}
+              type="stepAfter"
+              dataKey={variant.id}
+              name={variant.name}
+              stackId="allocation"
+              stroke={COLORS[i % COLORS.length]}
+              fill={COLORS[i % COLORS.length]}
+              fillOpacity={0.6}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default AllocationChart;
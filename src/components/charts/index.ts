@@ -6,3 +6,4 @@
 export { EarningsChart } from './EarningsChart';
 export { ConversionsChart } from './ConversionsChart';
 export { SourceChart } from './SourceChart';
+export { AllocationChart } from './AllocationChart';
@@ -8,6 +8,8 @@
  * - Variant performance comparison
  * - Statistical significance indicators
  * - Winner selection
+ * - Bandit mode that shifts traffic to the best variant, with its
+ *   allocation history charted
  * 
  * Features:
  * - Create new experiments
@@ -18,6 +20,13 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { cn, formatNumber, generateRandomString } from '@/lib/utils';
+import {
+  analyzeExperiment,
+  type ExperimentStats,
+  type RateEstimate,
+  type VariantStats,
+} from '@/lib/experiment-stats';
+import { AllocationChart } from '@/components/charts/AllocationChart';
 import type { ApiResponse } from '@/types';
 
 // ============================================
@@ -26,6 +35,13 @@ import type { ApiResponse } from '@/types';
 
 export type ExperimentStatus = 'DRAFT' | 'RUNNING' | 'PAUSED' | 'COMPLETED';
 
+export type AllocationMode = 'FIXED' | 'BANDIT';
+
+export interface Allocation {
+  createdAt: Date | string;
+  weights: Record<string, number>; // traffic share by variant id
+}
+
 export interface Variant {
   id: string;
   name: string;
@@ -35,6 +51,7 @@ export interface Variant {
   conversions: number;
   isControl: boolean;
   isWinner?: boolean;
+  weight?: number | null;
 }
 
 export interface Experiment {
@@ -47,6 +64,10 @@ export interface Experiment {
   endedAt?: Date;
   minSampleSize: number;
   confidenceLevel: number;
+  allocationMode?: AllocationMode;
+  explorationFloor?: number;
+  allocations?: Allocation[];
+  stats?: ExperimentStats;
 }
 
 interface ABTestManagerProps {
@@ -155,35 +176,13 @@ function generateMockExperiments(): Experiment[] {
 // Utility Functions
 // ============================================
 
-function calculateCTR(variant: Variant): number {
-  if (variant.impressions === 0) return 0;
-  return (variant.clicks / variant.impressions) * 100;
-}
-
-function calculateConversionRate(variant: Variant): number {
-  if (variant.clicks === 0) return 0;
-  return (variant.conversions / variant.clicks) * 100;
-}
-
-function calculateLift(control: Variant, variant: Variant): number {
-  const controlCTR = calculateCTR(control);
-  const variantCTR = calculateCTR(variant);
-  if (controlCTR === 0) return 0;
-  return ((variantCTR - controlCTR) / controlCTR) * 100;
+function getExperimentStats(experiment: Experiment): ExperimentStats {
+  // Demo and locally created experiments are analyzed the same way as the API's
+  return experiment.stats ?? analyzeExperiment(experiment.variants, experiment);
 }
 
-function calculateSignificance(control: Variant, variant: Variant): number {
-  // Simplified significance calculation (in production, use proper statistical tests)
-  const totalSamples = control.impressions + variant.impressions;
-  if (totalSamples < 100) return 0;
-  
-  const controlRate = calculateCTR(control);
-  const variantRate = calculateCTR(variant);
-  const diff = Math.abs(variantRate - controlRate);
-  
-  // Mock significance based on sample size and difference
-  const significance = Math.min(99, diff * 10 + (totalSamples / 100) * 5);
-  return significance;
+function formatInterval(estimate: RateEstimate): string {
+  return `${estimate.lower.toFixed(1)}–${estimate.upper.toFixed(1)}%`;
 }
 
 // ============================================
@@ -207,17 +206,18 @@ function StatusBadge({ status }: { status: ExperimentStatus }): React.ReactEleme
 
 function VariantCard({
   variant,
-  control,
+  stats,
+  confidenceLevel,
   isRunning,
 }: {
   variant: Variant;
-  control?: Variant;
+  stats?: VariantStats;
+  confidenceLevel: number;
   isRunning: boolean;
 }): React.ReactElement {
-  const ctr = calculateCTR(variant);
-  const convRate = calculateConversionRate(variant);
-  const lift = control && !variant.isControl ? calculateLift(control, variant) : 0;
-  const significance = control && !variant.isControl ? calculateSignificance(control, variant) : 0;
+  const comparison = stats?.ctrComparison;
+  const lift = comparison?.lift ?? 0;
+  const confidence = comparison?.confidence ?? 0;
 
   return (
     <div className={cn(
@@ -250,15 +250,21 @@ function VariantCard({
         </div>
         <div>
           <p className="text-xs text-gray-500">CTR</p>
-          <p className="text-lg font-semibold text-gray-900">{ctr.toFixed(1)}%</p>
+          <p className="text-lg font-semibold text-gray-900">{(stats?.ctr.rate ?? 0).toFixed(1)}%</p>
+          {stats && variant.impressions > 0 && (
+            <p className="text-xs text-gray-400">{formatInterval(stats.ctr)}</p>
+          )}
         </div>
         <div>
           <p className="text-xs text-gray-500">Conv. Rate</p>
-          <p className="text-lg font-semibold text-gray-900">{convRate.toFixed(1)}%</p>
+          <p className="text-lg font-semibold text-gray-900">{(stats?.conversionRate.rate ?? 0).toFixed(1)}%</p>
+          {stats && variant.clicks > 0 && (
+            <p className="text-xs text-gray-400">{formatInterval(stats.conversionRate)}</p>
+          )}
         </div>
       </div>
 
-      {!variant.isControl && control && variant.impressions > 0 && (
+      {comparison && variant.impressions > 0 && (
         <div className="mt-3 pt-3 border-t border-gray-100 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div>
@@ -274,13 +280,19 @@ function VariantCard({
               <span className="text-xs text-gray-500">Confidence: </span>
               <span className={cn(
                 'text-sm font-medium',
-                significance >= 95 ? 'text-green-600' : significance >= 80 ? 'text-yellow-600' : 'text-gray-500'
+                confidence >= confidenceLevel ? 'text-green-600' : confidence >= 80 ? 'text-yellow-600' : 'text-gray-500'
               )}>
-                {significance.toFixed(0)}%
+                {confidence.toFixed(0)}%
+              </span>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Beats control: </span>
+              <span className="text-sm font-medium text-gray-900">
+                {comparison.probabilityToBeatControl.toFixed(0)}%
               </span>
             </div>
           </div>
-          {significance >= 95 && lift > 0 && isRunning && (
+          {comparison.significant && lift > 0 && isRunning && (
             <span className="text-xs text-green-600 font-medium">
               ✓ Statistically significant
             </span>
@@ -301,17 +313,10 @@ function ExperimentCard({
   onDeclareWinner: (experimentId: string, variantId: string) => void;
 }): React.ReactElement {
   const [isExpanded, setIsExpanded] = useState(experiment.status === 'RUNNING');
-  const control = experiment.variants.find(v => v.isControl);
   const isRunning = experiment.status === 'RUNNING';
-
-  // Find best performing non-control variant
-  const bestVariant = experiment.variants
-    .filter(v => !v.isControl)
-    .sort((a, b) => calculateCTR(b) - calculateCTR(a))[0];
-
-  const canDeclareWinner = bestVariant && control && 
-    calculateSignificance(control, bestVariant) >= 95 &&
-    calculateLift(control, bestVariant) > 0;
+  const stats = getExperimentStats(experiment);
+  const winnerId = stats.winnerId;
+  const isBandit = experiment.allocationMode === 'BANDIT';
 
   return (
     <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
@@ -325,6 +330,11 @@ function ExperimentCard({
           <div className="flex items-center gap-2 mb-1">
             <h3 className="font-semibold text-gray-900">{experiment.name}</h3>
             <StatusBadge status={experiment.status} />
+            {isBandit && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                Bandit
+              </span>
+            )}
           </div>
           <p className="text-sm text-gray-500 truncate">{experiment.description}</p>
         </div>
@@ -345,12 +355,31 @@ function ExperimentCard({
               <VariantCard
                 key={variant.id}
                 variant={variant}
-                control={control}
+                stats={stats.variants.find(s => s.variantId === variant.id)}
+                confidenceLevel={experiment.confidenceLevel}
                 isRunning={isRunning}
               />
             ))}
           </div>
 
+          {isBandit && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Traffic Allocation</h4>
+              <AllocationChart variants={experiment.variants} allocations={experiment.allocations ?? []} />
+              <p className="text-xs text-gray-500 mt-1">
+                {isRunning
+                  ? `Traffic shifts hourly toward the best variant; each keeps at least ${((experiment.explorationFloor ?? 0) * 100).toFixed(0)}%.`
+                  : 'Allocation is frozen until the experiment runs.'}
+              </p>
+            </div>
+          )}
+
+          {isRunning && !stats.hasMinSampleSize && (
+            <p className="text-xs text-gray-500">
+              Each variant needs {formatNumber(stats.samplesNeeded)} more impressions before results are significant.
+            </p>
+          )}
+
           {/* Actions */}
           <div className="flex items-center gap-3 pt-3 border-t border-gray-100">
             {experiment.status === 'DRAFT' && (
@@ -371,10 +400,10 @@ function ExperimentCard({
                 >
                   Pause
                 </button>
-                {canDeclareWinner && bestVariant && (
+                {winnerId && (
                   <button
                     type="button"
-                    onClick={() => onDeclareWinner(experiment.id, bestVariant.id)}
+                    onClick={() => onDeclareWinner(experiment.id, winnerId)}
                     className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 transition-colors"
                   >
                     Declare Winner
@@ -421,6 +450,8 @@ function CreateExperimentModal({
   const [description, setDescription] = useState('');
   const [controlContent, setControlContent] = useState('');
   const [variantContent, setVariantContent] = useState('');
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>('FIXED');
+  const [explorationFloor, setExplorationFloor] = useState(5);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -432,6 +463,9 @@ function CreateExperimentModal({
       status: 'DRAFT',
       minSampleSize: 100,
       confidenceLevel: 95,
+      allocationMode,
+      explorationFloor: explorationFloor / 100,
+      allocations: [],
       variants: [
         {
           id: `var-${generateRandomString(8)}`,
@@ -519,6 +553,36 @@ function CreateExperimentModal({
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Traffic Allocation
+            </label>
+            <select
+              value={allocationMode}
+              onChange={(e) => setAllocationMode(e.target.value as AllocationMode)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="FIXED">Fixed split (classic A/B test)</option>
+              <option value="BANDIT">Bandit (shift traffic to the best message)</option>
+            </select>
+          </div>
+
+          {allocationMode === 'BANDIT' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Minimum traffic per variant (%)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={explorationFloor}
+                onChange={(e) => setExplorationFloor(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          )}
+
           <div className="flex items-center gap-3 pt-4">
             <button
               type="button"
@@ -615,6 +679,34 @@ export function ABTestManager({
     void fetchExperiments();
   }, [fetchExperiments]);
 
+  // Persist a status change or winner; local state stays as-is in demo mode
+  const updateExperiment = useCallback(async (
+    id: string,
+    update: { status?: ExperimentStatus; winnerId?: string }
+  ) => {
+    try {
+      const response = await fetch(`/api/experiments/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        // Rejected (e.g. an invalid transition); reload the saved state
+        void fetchExperiments();
+        return;
+      }
+
+      const json: ApiResponse<Experiment> = await response.json();
+      const updated = json.data;
+      if (json.success && updated) {
+        setExperiments(prev => prev.map(exp => (exp.id === updated.id ? updated : exp)));
+      }
+    } catch {
+      // API unavailable; keep the local update
+    }
+  }, [fetchExperiments]);
+
   const handleStatusChange = useCallback((id: string, newStatus: ExperimentStatus) => {
     setExperiments(prev =>
       prev.map(exp =>
@@ -627,7 +719,8 @@ export function ABTestManager({
           : exp
       )
     );
-  }, []);
+    void updateExperiment(id, { status: newStatus });
+  }, [updateExperiment]);
 
   const handleDeclareWinner = useCallback((experimentId: string, variantId: string) => {
     setExperiments(prev =>
@@ -645,11 +738,38 @@ export function ABTestManager({
           : exp
       )
     );
-  }, []);
+    void updateExperiment(experimentId, { winnerId: variantId });
+  }, [updateExperiment]);
+
+  const handleCreateExperiment = useCallback(async (experiment: Experiment) => {
+    let created = experiment;
 
-  const handleCreateExperiment = useCallback((experiment: Experiment) => {
-    setExperiments(prev => [experiment, ...prev]);
-  }, []);
+    try {
+      const response = await fetch('/api/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          partnerId,
+          name: experiment.name,
+          description: experiment.description || undefined,
+          minSampleSize: experiment.minSampleSize,
+          confidenceLevel: experiment.confidenceLevel,
+          allocationMode: experiment.allocationMode,
+          explorationFloor: experiment.explorationFloor,
+          variants: experiment.variants.map(({ name, content, isControl }) => ({ name, content, isControl })),
+        }),
+      });
+
+      if (response.ok) {
+        const json: ApiResponse<Experiment> = await response.json();
+        if (json.success && json.data) created = json.data;
+      }
+    } catch {
+      // API unavailable; keep the experiment locally for the demo
+    }
+
+    setExperiments(prev => [created, ...prev]);
+  }, [partnerId]);
 
   const isLoading = status === 'loading' || status === 'idle';
 
@@ -711,7 +831,7 @@ export function ABTestManager({
       {showCreateModal && (
         <CreateExperimentModal
           onClose={() => setShowCreateModal(false)}
-          onCreate={handleCreateExperiment}
+          onCreate={(experiment) => void handleCreateExperiment(experiment)}
         />
       )}
     </div>
@@ -19,48 +19,25 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { cn, formatCurrency, formatNumber } from '@/lib/utils';
 import type { ApiResponse } from '@/types';
+import type {
+  AttributionData,
+  AttributionModel,
+  CampaignAttribution,
+  SourceAttribution,
+  TouchpointPath,
+} from '@/lib/attribution';
 
 // ============================================
 // Types
 // ============================================
 
-export type AttributionModel = 'first_touch' | 'last_touch' | 'linear' | 'time_decay';
-
-export interface SourceAttribution {
-  source: string;
-  touchpoints: number;
-  conversions: number;
-  revenue: number;
-  attributedRevenue: number;
-  avgTimeToConvert: number; // in hours
-  conversionRate: number;
-}
-
-export interface CampaignAttribution {
-  campaignId: string;
-  campaignName: string;
-  source: string;
-  impressions: number;
-  clicks: number;
-  conversions: number;
-  revenue: number;
-  roi: number;
-}
-
-export interface TouchpointPath {
-  path: string[];
-  conversions: number;
-  revenue: number;
-  percentage: number;
-}
-
-export interface AttributionData {
-  sources: SourceAttribution[];
-  campaigns: CampaignAttribution[];
-  topPaths: TouchpointPath[];
-  totalConversions: number;
-  totalRevenue: number;
-}
+export type {
+  AttributionData,
+  AttributionModel,
+  CampaignAttribution,
+  SourceAttribution,
+  TouchpointPath,
+};
 
 interface AttributionReportProps {
   partnerId: string;
@@ -68,7 +45,7 @@ interface AttributionReportProps {
 }
 
 // ============================================
-// Mock Data Generator
+// Demo Data Generator
 // ============================================
 
 function generateMockAttributionData(model: AttributionModel): AttributionData {
@@ -125,11 +102,11 @@ function generateMockAttributionData(model: AttributionModel): AttributionData {
       },
     ],
     campaigns: [
-      { campaignId: 'c1', campaignName: 'Q1 LinkedIn Push', source: 'LinkedIn', impressions: 4500, clicks: 380, conversions: 18, revenue: 475000, roi: 342 },
-      { campaignId: 'c2', campaignName: 'Newsletter Feature', source: 'Email', impressions: 3200, clicks: 245, conversions: 12, revenue: 315000, roi: 287 },
-      { campaignId: 'c3', campaignName: 'Twitter Thread', source: 'Twitter/X', impressions: 8900, clicks: 198, conversions: 8, revenue: 210000, roi: 198 },
-      { campaignId: 'c4', campaignName: 'WhatsApp Blast', source: 'WhatsApp', impressions: 890, clicks: 156, conversions: 9, revenue: 237000, roi: 456 },
-      { campaignId: 'c5', campaignName: 'Podcast Mention', source: 'Direct', impressions: 2300, clicks: 134, conversions: 6, revenue: 158000, roi: 178 },
+      { campaignId: 'c1', campaignName: 'Q1 LinkedIn Push', source: 'LinkedIn', clicks: 380, conversions: 18, revenue: Math.floor(475000 * baseMultiplier), commission: Math.floor(95000 * baseMultiplier) },
+      { campaignId: 'c2', campaignName: 'Newsletter Feature', source: 'Email', clicks: 245, conversions: 12, revenue: Math.floor(315000 * baseMultiplier), commission: Math.floor(63000 * baseMultiplier) },
+      { campaignId: 'c3', campaignName: 'Twitter Thread', source: 'Twitter/X', clicks: 198, conversions: 8, revenue: Math.floor(210000 * baseMultiplier), commission: Math.floor(42000 * baseMultiplier) },
+      { campaignId: 'c4', campaignName: 'WhatsApp Blast', source: 'WhatsApp', clicks: 156, conversions: 9, revenue: Math.floor(237000 * baseMultiplier), commission: Math.floor(47400 * baseMultiplier) },
+      { campaignId: 'c5', campaignName: 'Podcast Mention', source: 'Direct', clicks: 134, conversions: 6, revenue: Math.floor(158000 * baseMultiplier), commission: Math.floor(31600 * baseMultiplier) },
     ],
     topPaths: [
       { path: ['LinkedIn', 'Email', 'Direct'], conversions: 24, revenue: 632000, percentage: 15.4 },
@@ -198,7 +175,7 @@ function SourceChart({
     );
   }
 
-  const maxRevenue = Math.max(...data.map(d => d.attributedRevenue));
+  const maxRevenue = Math.max(1, ...data.map(d => d.attributedRevenue));
 
   return (
     <div className="space-y-4">
@@ -309,7 +286,7 @@ function CampaignTable({
             <th className="text-right py-3 px-2 text-gray-500 font-medium">Clicks</th>
             <th className="text-right py-3 px-2 text-gray-500 font-medium">Conv.</th>
             <th className="text-right py-3 px-2 text-gray-500 font-medium">Revenue</th>
-            <th className="text-right py-3 px-2 text-gray-500 font-medium">ROI</th>
+            <th className="text-right py-3 px-2 text-gray-500 font-medium">Commission</th>
           </tr>
         </thead>
         <tbody>
@@ -324,16 +301,7 @@ function CampaignTable({
               <td className="py-3 px-2 text-right text-gray-600">{formatNumber(campaign.clicks)}</td>
               <td className="py-3 px-2 text-right text-gray-600">{formatNumber(campaign.conversions)}</td>
               <td className="py-3 px-2 text-right text-gray-600">{formatCurrency(campaign.revenue)}</td>
-              <td className="py-3 px-2 text-right">
-                <span className={cn(
-                  'px-2 py-0.5 rounded-full text-xs font-medium',
-                  campaign.roi >= 300 ? 'bg-green-100 text-green-700' :
-                  campaign.roi >= 200 ? 'bg-yellow-100 text-yellow-700' :
-                  'bg-gray-100 text-gray-600'
-                )}>
-                  {campaign.roi}%
-                </span>
-              </td>
+              <td className="py-3 px-2 text-right font-medium text-green-600">{formatCurrency(campaign.commission)}</td>
             </tr>
           ))}
         </tbody>
@@ -415,7 +383,7 @@ export function AttributionReport({
 
     try {
       const response = await fetch(
-        `/api/reports/attribution?partnerId=${partnerId}&model=${model}`
+        `/api/partners/${partnerId}/attribution?model=${model}`
       );
 
       if (!response.ok) {
@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * MyRecruits Component
+ *
+ * The partners a partner has recruited:
+ * - Recruitment link to share with prospective partners
+ * - Override rate and how long it is paid
+ * - Each recruit with the override earned from them
+ *
+ * Features:
+ * - Loading skeleton states
+ * - Error handling with retry
+ * - Empty state
+ */
+
+import React, { useState } from 'react';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useRecruits, type Recruit } from '@/hooks/useDashboardData';
+
+// ============================================
+// Types
+// ============================================
+
+interface MyRecruitsProps {
+  partnerId: string;
+  className?: string;
+}
+
+// ============================================
+// Sub-Components
+// ============================================
+
+function RecruitmentLink({ link }: { link: string }): React.ReactElement {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable; the link stays selectable
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-2">
+      <span className="text-sm text-gray-600 truncate flex-1 font-mono">{link}</span>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className={cn(
+          'px-3 py-1 rounded text-xs font-medium transition-colors',
+          copied ? 'bg-green-100 text-green-700' : 'bg-white text-gray-700 hover:bg-gray-200'
+        )}
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
+
+function RecruitRow({ recruit }: { recruit: Recruit }): React.ReactElement {
+  return (
+    <div className="flex items-center justify-between gap-4 p-4">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{recruit.name}</p>
+        <p className="text-xs text-gray-500">
+          {recruit.tier} · joined {recruit.recruitedAt ? formatDate(new Date(recruit.recruitedAt)) : '—'}
+        </p>
+      </div>
+      <div className="text-right shrink-0">
+        <p className="text-sm font-semibold text-gray-900">{formatCurrency(recruit.overrideEarnedCents)}</p>
+        <p className={cn('text-xs', recruit.overrideActive ? 'text-green-600' : 'text-gray-400')}>
+          {recruit.overrideActive && recruit.overrideEndsAt
+            ? `Earning until ${formatDate(new Date(recruit.overrideEndsAt))}`
+            : 'Override ended'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+export function MyRecruits({ partnerId, className }: MyRecruitsProps): React.ReactElement {
+  const { data, loading, error, refetch } = useRecruits(partnerId);
+
+  if (loading && !data) {
+    return (
+      <div className={cn('space-y-4', className)}>
+        <div className="h-10 bg-gray-100 rounded-lg animate-pulse" />
+        <div className="h-32 bg-gray-100 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={cn('text-center py-8', className)}>
+        <p className="text-sm text-red-600 mb-3">{error ?? 'Failed to load recruits'}</p>
+        <button
+          type="button"
+          onClick={refetch}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const ratePercent = Math.round(data.overrideRate * 1000) / 10;
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div>
+        <p className="text-sm text-gray-500 mb-3">
+          Partners who join through your recruitment link earn you {ratePercent}% of their commission
+          for {data.overrideMonths} months.
+        </p>
+        <RecruitmentLink link={data.recruitmentLink} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="p-4 bg-gray-50 rounded-xl">
+          <p className="text-xs text-gray-500">Recruits</p>
+          <p className="text-xl font-bold text-gray-900">{data.totals.recruits}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-xl">
+          <p className="text-xs text-gray-500">Still earning</p>
+          <p className="text-xl font-bold text-gray-900">{data.totals.activeOverrides}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-xl">
+          <p className="text-xs text-gray-500">Override earned</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(data.totals.earnedCents)}</p>
+        </div>
+      </div>
+
+      {data.recruits.length === 0 ? (
+        <div className="text-center py-8 border border-dashed border-gray-200 rounded-xl">
+          <p className="text-3xl mb-2">🤝</p>
+          <p className="font-medium text-gray-900">No recruits yet</p>
+          <p className="text-sm text-gray-500">Share your recruitment link with people who could become partners.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+          {data.recruits.map(recruit => (
+            <RecruitRow key={recruit.id} recruit={recruit} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MyRecruits;
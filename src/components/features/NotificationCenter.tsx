@@ -4,7 +4,7 @@
  * NotificationCenter Component
  * 
  * In-app notification system with:
- * - Real-time updates via polling (SSE-ready)
+ * - Real-time updates via server-sent events, polling while the stream is down
  * - Read/unread state management
  * - Notification preferences
  * - Grouped by date
@@ -20,6 +20,7 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { cn, formatRelativeTime } from '@/lib/utils';
+import { usePartnerEvents, type PartnerStreamEvent } from '@/hooks/usePartnerEvents';
 import type { ApiResponse } from '@/types';
 
 // ============================================
@@ -54,6 +55,11 @@ export interface NotificationPreferences {
   };
 }
 
+// Preferences as saved on the server, which may list other types
+interface SavedPreferences extends Omit<NotificationPreferences, 'types'> {
+  types: Partial<Record<string, boolean>>;
+}
+
 interface NotificationCenterProps {
   partnerId: string;
   className?: string;
@@ -155,6 +161,24 @@ function generateMockNotifications(): Notification[] {
   ];
 }
 
+// ============================================
+// Stream Events
+// ============================================
+
+// A `notification` event's data as a notification to show
+function notificationFromEvent(data: Record<string, unknown>): Notification {
+  const type = String(data.type);
+  return {
+    id: String(data.notificationId),
+    type: type in NOTIFICATION_ICONS ? (type as NotificationType) : 'SYSTEM',
+    title: String(data.title ?? ''),
+    message: String(data.message ?? ''),
+    read: false,
+    createdAt: new Date(String(data.createdAt)),
+    actionUrl: typeof data.link === 'string' ? data.link : undefined,
+  };
+}
+
 // ============================================
 // Sub-Components
 // ============================================
@@ -287,6 +311,11 @@ function PreferencesPanel({
 }): React.ReactElement {
   const [localPrefs, setLocalPrefs] = useState(preferences);
 
+  // Pick up saved preferences that load after the panel opens
+  useEffect(() => {
+    setLocalPrefs(preferences);
+  }, [preferences]);
+
   const handleToggle = (
     category: 'email' | 'push' | 'inApp' | NotificationType
   ) => {
@@ -440,14 +469,27 @@ export function NotificationCenter({
     void fetchNotifications();
   }, [fetchNotifications]);
 
-  // Poll for new notifications (every 30s)
+  // Show notifications from the event stream as they arrive
+  const handleStreamEvent = useCallback((event: PartnerStreamEvent) => {
+    if (event.type !== 'notification') return;
+    const notification = notificationFromEvent(event.data);
+    setNotifications(prev =>
+      prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]
+    );
+  }, []);
+
+  const { connected } = usePartnerEvents(partnerId, handleStreamEvent);
+
+  // Poll for new notifications (every 30s) while the stream is down
   useEffect(() => {
+    if (connected) return;
+
     const interval = setInterval(() => {
       void fetchNotifications();
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [fetchNotifications]);
+  }, [connected, fetchNotifications]);
 
   // Mark notification as read
   const handleMarkAsRead = useCallback(async (id: string) => {
@@ -476,6 +518,55 @@ export function NotificationCenter({
     }
   }, [partnerId]);
 
+  // Load saved preferences when the settings panel opens
+  useEffect(() => {
+    if (!showPreferences) return;
+    let cancelled = false;
+
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch(`/api/partners/${partnerId}/notification-preferences`);
+        if (!response.ok) return;
+
+        const json: ApiResponse<SavedPreferences> = await response.json();
+        const saved = json.data;
+        if (cancelled || !json.success || !saved) return;
+
+        // Only types this panel shows; missing types keep their current setting
+        setPreferences(prev => ({
+          email: saved.email,
+          push: saved.push,
+          inApp: saved.inApp,
+          types: Object.fromEntries(
+            Object.entries(prev.types).map(([type, on]) => [type, saved.types[type] ?? on])
+          ) as NotificationPreferences['types'],
+        }));
+      } catch {
+        // Keep the current preferences
+      }
+    };
+
+    void loadPreferences();
+    return () => {
+      cancelled = true;
+    };
+  }, [showPreferences, partnerId]);
+
+  // Save preferences
+  const handleUpdatePreferences = useCallback(async (prefs: NotificationPreferences) => {
+    setPreferences(prefs);
+
+    try {
+      await fetch(`/api/partners/${partnerId}/notification-preferences`, {
+        method: 'PUT',
+        body: JSON.stringify(prefs),
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch {
+      // Silent fail - UI already updated optimistically
+    }
+  }, [partnerId]);
+
   // Group notifications by date
   const groupedNotifications = useMemo(() => {
     const groups: { [key: string]: Notification[] } = {};
@@ -558,7 +649,7 @@ export function NotificationCenter({
       {showPreferences && (
         <PreferencesPanel
           preferences={preferences}
-          onUpdate={setPreferences}
+          onUpdate={handleUpdatePreferences}
           onClose={() => setShowPreferences(false)}
         />
       )}
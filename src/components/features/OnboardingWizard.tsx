@@ -5,8 +5,9 @@
  * 
  * Progressive onboarding flow with three stages:
  * 1. Landing - Value preview, success stories, commission calculator
- * 2. Interest - Email capture, waitlist/instant access
- * 3. Setup - 4-step guided wizard
+ * 2. Interest - Email capture, waitlist or invite code
+ * 3. Setup - 4-step guided wizard, once the application is approved;
+ *    pending applications see a confirmation instead
  * 
  * Features:
  * - Step progress indicator
@@ -19,17 +20,18 @@
 import React, { useState, useMemo } from 'react';
 import { z } from 'zod';
 import { cn, formatCurrency } from '@/lib/utils';
-import { usePartnerInterest } from '@/hooks';
+import { usePartnerInterest, type PartnerInterest } from '@/hooks';
 
 // ============================================
 // Types
 // ============================================
 
-type OnboardingStage = 'landing' | 'interest' | 'setup';
+type OnboardingStage = 'landing' | 'interest' | 'submitted' | 'setup';
 type SetupStep = 1 | 2 | 3 | 4;
 
 interface OnboardingWizardProps {
   onComplete?: (data: OnboardingData) => void;
+  recruiterCode?: string; // from a partner's recruitment link
   className?: string;
 }
 
@@ -302,19 +304,23 @@ function LandingStage({
 function InterestStage({ 
   onContinue,
   onBack,
+  recruiterCode,
 }: { 
-  onContinue: (email: string, hasInvite: boolean) => void;
+  onContinue: (email: string, status: PartnerInterest['status']) => void;
   onBack: () => void;
+  recruiterCode?: string;
 }): React.ReactElement {
   const [email, setEmail] = useState('');
   const [inviteCode, setInviteCode] = useState('');
   const [showInviteField, setShowInviteField] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
   const { submitInterest, isSubmitting, error: apiError } = usePartnerInterest();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setLinkSent(false);
 
     // Validate email
     const result = emailSchema.safeParse(email);
@@ -324,11 +330,16 @@ function InterestStage({
     }
 
     // Submit interest
-    const interest = await submitInterest(email, inviteCode || undefined);
+    const interest = await submitInterest(email, inviteCode || undefined, recruiterCode);
     
+    // Already applied: the applicant continues from the emailed link
+    if (interest && 'linkSent' in interest) {
+      setLinkSent(true);
+      return;
+    }
+
     if (interest) {
-      const hasInstantAccess = interest.status === 'INSTANT_ACCESS' || interest.status === 'APPROVED';
-      onContinue(email, hasInstantAccess);
+      onContinue(email, interest.status);
     }
   };
 
@@ -349,7 +360,7 @@ function InterestStage({
         </h2>
         <p className="text-gray-600">
           Enter your email to get started. Have an invite code? 
-          Skip the waitlist!
+          Your application goes to the front of the queue.
         </p>
       </div>
 
@@ -375,6 +386,11 @@ function InterestStage({
           {(error || apiError) && (
             <p className="mt-1 text-sm text-red-600">{error || apiError}</p>
           )}
+          {linkSent && (
+            <p className="mt-1 text-sm text-gray-600">
+              You&apos;ve already applied. We&apos;ve emailed you a link to view or update your application.
+            </p>
+          )}
         </div>
 
         {!showInviteField ? (
@@ -421,7 +437,7 @@ function InterestStage({
               Processing...
             </span>
           ) : (
-            inviteCode ? 'Get Instant Access' : 'Join Waitlist'
+            inviteCode ? 'Apply with Invite Code' : 'Join Waitlist'
           )}
         </button>
       </form>
@@ -433,6 +449,32 @@ function InterestStage({
   );
 }
 
+function SubmittedStage({ 
+  email,
+  hasInviteCode,
+}: { 
+  email: string;
+  hasInviteCode: boolean;
+}): React.ReactElement {
+  return (
+    <div className="max-w-md mx-auto text-center space-y-4">
+      <div className="text-5xl">📬</div>
+      <h2 className="text-2xl font-bold text-gray-900">
+        Application received
+      </h2>
+      <p className="text-gray-600">
+        {hasInviteCode
+          ? 'Your invite code was accepted, so your application is next in line for review.'
+          : 'You\'re on the waitlist. We review applications in the order they arrive.'}
+      </p>
+      <p className="text-sm text-gray-500">
+        We&apos;ll email <span className="font-medium text-gray-700">{email}</span> as soon
+        as you&apos;re approved, with a link to set up your account.
+      </p>
+    </div>
+  );
+}
+
 function SetupStage({ 
   email,
   onComplete,
@@ -699,19 +741,18 @@ function SetupStage({
 
 export function OnboardingWizard({
   onComplete,
+  recruiterCode,
   className,
 }: OnboardingWizardProps): React.ReactElement {
   const [stage, setStage] = useState<OnboardingStage>('landing');
   const [email, setEmail] = useState('');
+  const [hasInviteCode, setHasInviteCode] = useState(false);
 
-  const handleInterestSubmit = (submittedEmail: string, hasInstantAccess: boolean) => {
+  const handleInterestSubmit = (submittedEmail: string, status: PartnerInterest['status']) => {
     setEmail(submittedEmail);
-    if (hasInstantAccess) {
-      setStage('setup');
-    } else {
-      // Show waitlist confirmation (could be a separate stage)
-      setStage('setup'); // For demo, proceed to setup
-    }
+    setHasInviteCode(status === 'INSTANT_ACCESS');
+    // Only approved partners can finish setup; everyone else waits for review
+    setStage(status === 'APPROVED' ? 'setup' : 'submitted');
   };
 
   const handleSetupComplete = (data: OnboardingData) => {
@@ -727,8 +768,12 @@ export function OnboardingWizard({
         <InterestStage 
           onContinue={handleInterestSubmit}
           onBack={() => setStage('landing')}
+          recruiterCode={recruiterCode}
         />
       )}
+      {stage === 'submitted' && (
+        <SubmittedStage email={email} hasInviteCode={hasInviteCode} />
+      )}
       {stage === 'setup' && (
         <SetupStage 
           email={email}
@@ -7,7 +7,7 @@
  * - Upcoming payout preview
  * - Payout history timeline
  * - Status indicators
- * - Breakdown details
+ * - Breakdown details, including refund/chargeback clawbacks
  * 
  * Features:
  * - Loading skeleton states
@@ -29,15 +29,25 @@ export type PayoutStatus =
   | 'PENDING'
   | 'PROCESSING'
   | 'COMPLETED'
-  | 'FAILED';
+  | 'FAILED'
+  | 'CANCELLED';
 
 export interface PayoutBreakdown {
   referrals: number;
   conversionAmount: number;
   bonuses: number;
+  fees: number; // zero or negative
   adjustments: number;
 }
 
+export interface PayoutAdjustment {
+  id: string;
+  reason: 'REFUND' | 'CHARGEBACK' | 'BONUS' | 'MANUAL' | 'OVERRIDE';
+  description: string;
+  amount: number; // in cents, negative for clawbacks
+  createdAt: Date;
+}
+
 export interface Payout {
   id: string;
   amount: number; // in cents
@@ -47,6 +57,7 @@ export interface Payout {
   scheduledDate?: Date;
   processedDate?: Date;
   breakdown: PayoutBreakdown;
+  adjustmentItems: PayoutAdjustment[];
   method: 'BANK_TRANSFER' | 'PAYPAL' | 'CHECK';
   transactionId?: string;
 }
@@ -95,6 +106,20 @@ const STATUS_CONFIG: Record<PayoutStatus, {
     bgColor: 'bg-red-100',
     icon: '❌',
   },
+  CANCELLED: { 
+    label: 'Cancelled', 
+    color: 'text-gray-700', 
+    bgColor: 'bg-gray-100',
+    icon: '🚫',
+  },
+};
+
+const ADJUSTMENT_LABELS: Record<PayoutAdjustment['reason'], string> = {
+  REFUND: 'Refund',
+  CHARGEBACK: 'Chargeback',
+  BONUS: 'Bonus',
+  MANUAL: 'Adjustment',
+  OVERRIDE: 'Recruit override reversed',
 };
 
 const METHOD_LABELS: Record<Payout['method'], string> = {
@@ -122,8 +147,18 @@ function generateMockPayouts(): Payout[] {
         referrals: 47,
         conversionAmount: 118500,
         bonuses: 10000,
+        fees: 0,
         adjustments: -4000,
       },
+      adjustmentItems: [
+        {
+          id: 'adjustment-upcoming',
+          reason: 'REFUND',
+          description: 'Commission reversed after a refund',
+          amount: -4000,
+          createdAt: new Date(now.getFullYear(), now.getMonth(), 3),
+        },
+      ],
       method: 'BANK_TRANSFER',
     },
     {
@@ -138,8 +173,18 @@ function generateMockPayouts(): Payout[] {
         referrals: 38,
         conversionAmount: 95200,
         bonuses: 5000,
+        fees: 0,
         adjustments: -1500,
       },
+      adjustmentItems: [
+        {
+          id: 'adjustment-1',
+          reason: 'CHARGEBACK',
+          description: 'Commission reversed after a chargeback',
+          amount: -1500,
+          createdAt: new Date(now.getFullYear(), now.getMonth() - 1, 18),
+        },
+      ],
       method: 'BANK_TRANSFER',
       transactionId: 'TXN-2026-001234',
     },
@@ -155,8 +200,10 @@ function generateMockPayouts(): Payout[] {
         referrals: 62,
         conversionAmount: 148800,
         bonuses: 7500,
+        fees: 0,
         adjustments: 0,
       },
+      adjustmentItems: [],
       method: 'BANK_TRANSFER',
       transactionId: 'TXN-2025-012345',
     },
@@ -172,8 +219,18 @@ function generateMockPayouts(): Payout[] {
         referrals: 34,
         conversionAmount: 85700,
         bonuses: 2500,
+        fees: 0,
         adjustments: -1000,
       },
+      adjustmentItems: [
+        {
+          id: 'adjustment-2',
+          reason: 'REFUND',
+          description: 'Commission reversed after a refund',
+          amount: -1000,
+          createdAt: new Date(now.getFullYear(), now.getMonth() - 3, 21),
+        },
+      ],
       method: 'PAYPAL',
       transactionId: 'PP-2025-098765',
     },
@@ -347,6 +404,14 @@ function PayoutCard({ payout, isUpcoming }: PayoutCardProps): React.ReactElement
                   </span>
                 </div>
               )}
+              {payout.breakdown.fees < 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Fees</span>
+                  <span className="text-gray-900 font-medium">
+                    {formatCurrency(payout.breakdown.fees)}
+                  </span>
+                </div>
+              )}
               {payout.breakdown.adjustments !== 0 && (
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Adjustments</span>
@@ -359,6 +424,24 @@ function PayoutCard({ payout, isUpcoming }: PayoutCardProps): React.ReactElement
                   </span>
                 </div>
               )}
+              {payout.adjustmentItems.length > 0 && (
+                <ul className="pl-3 space-y-1 border-l-2 border-red-100">
+                  {payout.adjustmentItems.map((item) => (
+                    <li key={item.id} className="flex justify-between text-xs">
+                      <span className="text-gray-500">
+                        {ADJUSTMENT_LABELS[item.reason]}
+                        {' · '}
+                        {item.description}
+                        {' · '}
+                        {formatDate(new Date(item.createdAt), { month: 'short', day: 'numeric' })}
+                      </span>
+                      <span className={item.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {formatCurrency(item.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
                 <span className="text-gray-700 font-medium">Total</span>
                 <span className="text-gray-900 font-bold">
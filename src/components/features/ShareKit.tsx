@@ -10,14 +10,16 @@
  * - Native Web Share API with fallback
  * - Platform-specific share buttons
  * - QR code for mobile sharing
- * - Pre-written message templates
+ * - Pre-written message templates, including the partner's running
+ *   share template experiments (each share is assigned a variant)
  * - Copy to clipboard with feedback
  * - Loading and error states
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import type { 
+  ApiResponse,
   SharePlatform, 
   ShareTemplate, 
   ShareResult
@@ -28,8 +30,10 @@ import {
   canUseWebShare, 
   canUseClipboard,
   cn,
+  generateRandomString,
   isMobileDevice 
 } from '@/lib/utils';
+import { withExperimentParam, type ShareAssignment } from '@/lib/experiments';
 
 // ============================================
 // Types
@@ -38,6 +42,7 @@ import {
 interface ShareKitProps {
   referralCode: string;
   referralLink: string;
+  partnerId?: string; // loads the partner's experiment variants when set
   partnerName?: string;
   onShareComplete?: (result: ShareResult) => void;
   onError?: (error: Error) => void;
@@ -202,6 +207,7 @@ function MessageTemplate({
 
 export function ShareKit({
   referralLink,
+  partnerId,
   partnerName,
   onShareComplete,
   onError,
@@ -210,6 +216,37 @@ export function ShareKit({
   const [loadingPlatform, setLoadingPlatform] = useState<SharePlatform | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showQR, setShowQR] = useState(false);
+  const [shareId] = useState(() => generateRandomString(16));
+  const [assignments, setAssignments] = useState<ShareAssignment[]>([]);
+
+  // Assign this share its experiment variants; logged as impressions
+  useEffect(() => {
+    if (!partnerId) return;
+    let cancelled = false;
+
+    const loadAssignments = async () => {
+      try {
+        const response = await fetch('/api/experiments/exposures', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ partnerId, shareId }),
+        });
+        if (!response.ok) return;
+
+        const json: ApiResponse<ShareAssignment[]> = await response.json();
+        if (!cancelled && json.success && json.data) {
+          setAssignments(json.data);
+        }
+      } catch {
+        // Experiments are optional; the standard templates still render
+      }
+    };
+
+    void loadAssignments();
+    return () => {
+      cancelled = true;
+    };
+  }, [partnerId, shareId]);
 
   // Track share for analytics
   const trackShare = useCallback(
@@ -373,6 +410,19 @@ export function ShareKit({
           Pre-written messages
         </label>
         <div className="space-y-3">
+          {assignments.map((assignment) => (
+            <MessageTemplate
+              key={assignment.experimentId}
+              template={{
+                id: assignment.variantId,
+                name: assignment.variantName,
+                platform: 'copy',
+                message: assignment.content,
+              }}
+              referralLink={withExperimentParam(referralLink, assignment)}
+              onUse={handleUseTemplate}
+            />
+          ))}
           {SHARE_TEMPLATES.map((template) => (
             <MessageTemplate
               key={template.id}
@@ -370,16 +370,23 @@ export function StatsDashboard({
       )}
 
       {/* Key Metrics */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
         <StatCard
           icon="💰"
           label="Total Earned"
           value={isLoading ? '—' : formatCurrency(stats?.totalEarned ?? 0)}
-          subValue={isLoading ? undefined : `${formatCurrencyCompact(stats?.pendingPayout ?? 0)} pending`}
+          subValue={isLoading ? undefined : 'Paid out'}
           trend="up"
           trendValue="+12%"
           isLoading={isLoading}
         />
+        <StatCard
+          icon="🏦"
+          label="Available Balance"
+          value={isLoading ? '—' : formatCurrency(stats?.availableBalance ?? 0)}
+          subValue={isLoading ? undefined : `${formatCurrencyCompact(stats?.pendingPayout ?? 0)} on hold`}
+          isLoading={isLoading}
+        />
         <StatCard
           icon="👥"
           label="Referrals This Month"
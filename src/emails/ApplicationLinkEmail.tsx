@@ -0,0 +1,61 @@
+/**
+ * Application Link Email Template
+ * Sent to applicants with a link to view or update their application
+ */
+
+import {
+  Button,
+  Section,
+  Text,
+} from '@react-email/components';
+import * as React from 'react';
+import { BaseEmailLayout, emailStyles } from './BaseEmailLayout';
+
+// ============================================
+// Types
+// ============================================
+
+interface ApplicationLinkEmailProps {
+  statusLink: string;
+  expiresInHours: number;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ApplicationLinkEmail({
+  statusLink,
+  expiresInHours,
+}: ApplicationLinkEmailProps): React.ReactElement {
+  return (
+    <BaseEmailLayout preview="View or update your Inner Circle partner application">
+      <Text style={emailStyles.heading}>
+        Your partner application
+      </Text>
+
+      <Text style={emailStyles.paragraph}>
+        Use the link below to check the status of your Inner Circle partner application,
+        or to send us more details if we asked for them.
+      </Text>
+
+      {/* CTA */}
+      <Section style={{ textAlign: 'center' as const, margin: '32px 0' }}>
+        <Button href={statusLink} style={emailStyles.button}>
+          View Your Application
+        </Button>
+      </Section>
+
+      <Text style={emailStyles.smallText}>
+        This link works for {expiresInHours} hours. If you didn&apos;t apply to Inner Circle,
+        you can ignore this email.
+      </Text>
+    </BaseEmailLayout>
+  );
+}
+
+// ============================================
+// Default Export
+// ============================================
+
+export default ApplicationLinkEmail;
@@ -19,6 +19,7 @@ import type {
   PaginatedResponse,
   AsyncState
 } from '@/types';
+import { usePartnerEvents } from './usePartnerEvents';
 
 // ============================================
 // Generic Fetch Hook
@@ -144,10 +145,19 @@ export function usePartnerStats(
   options: UsePartnerStatsOptions = {}
 ): UseFetchResult<PartnerStats> {
   const url = partnerId ? `/api/partners/${partnerId}/stats` : null;
-  return useFetch<PartnerStats>(url, {
+
+  // Conversions, payouts and milestones change the stats; notifications don't
+  const { connected } = usePartnerEvents(options.enabled === false ? null : partnerId, event => {
+    if (event.type !== 'notification') void stats.refetch();
+  });
+
+  const stats = useFetch<PartnerStats>(url, {
     ...options,
-    refetchInterval: options.refetchInterval ?? 30000, // 30s default
+    // Poll only while the event stream is down
+    refetchInterval: connected ? undefined : options.refetchInterval ?? 30000, // 30s default
   });
+
+  return stats;
 }
 
 // ============================================
@@ -308,13 +318,24 @@ export function useLeaderboard(
 export interface PartnerInterest {
   id: string;
   email: string;
-  status: 'WAITLIST' | 'APPROVED' | 'INSTANT_ACCESS';
-  inviteCode?: string;
+  status: 'WAITLIST' | 'INSTANT_ACCESS' | 'INFO_REQUESTED' | 'APPROVED' | 'REJECTED';
+  inviteCode?: string | null;
+  reviewNotes?: string | null; // what the reviewer asked for, while INFO_REQUESTED
   createdAt: Date;
 }
 
+// Returned when the email has already applied; a status link is emailed instead
+export interface PartnerInterestLinkSent {
+  email: string;
+  linkSent: true;
+}
+
 interface UsePartnerInterestResult {
-  submitInterest: (email: string, inviteCode?: string) => Promise<PartnerInterest | null>;
+  submitInterest: (
+    email: string,
+    inviteCode?: string,
+    recruiterCode?: string
+  ) => Promise<PartnerInterest | PartnerInterestLinkSent | null>;
   isSubmitting: boolean;
   error: string | null;
 }
@@ -325,8 +346,9 @@ export function usePartnerInterest(): UsePartnerInterestResult {
 
   const submitInterest = useCallback(async (
     email: string,
-    inviteCode?: string
-  ): Promise<PartnerInterest | null> => {
+    inviteCode?: string,
+    recruiterCode?: string
+  ): Promise<PartnerInterest | PartnerInterestLinkSent | null> => {
     setIsSubmitting(true);
     setError(null);
 
@@ -334,10 +356,10 @@ export function usePartnerInterest(): UsePartnerInterestResult {
       const response = await fetch('/api/partners/interest', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, inviteCode }),
+        body: JSON.stringify({ email, inviteCode, recruiterCode }),
       });
 
-      const json: ApiResponse<PartnerInterest> = await response.json();
+      const json: ApiResponse<PartnerInterest | PartnerInterestLinkSent> = await response.json();
 
       if (!json.success || !json.data) {
         throw new Error(json.error?.message ?? 'Failed to submit interest');
@@ -365,3 +387,4 @@ export function usePartnerInterest(): UsePartnerInterestResult {
 // ============================================
 
 export * from './useDashboardData';
+export * from './usePartnerEvents';
@@ -127,8 +127,13 @@ export function usePWAInstall(): UsePWAInstallResult {
 // usePushNotifications Hook
 // ============================================
 
+/**
+ * Subscribe the browser to Web Push and register it for a partner
+ * Without a partnerId the subscription is not sent to the server
+ */
 export function usePushNotifications(
-  vapidPublicKey?: string
+  vapidPublicKey?: string,
+  partnerId?: string
 ): UsePushNotificationsResult {
   const [isSupported, setIsSupported] = useState(false);
   const [isSubscribed, setIsSubscribed] = useState(false);
@@ -171,6 +176,20 @@ export function usePushNotifications(
     }
   }, [isSupported]);
 
+  // Register the subscription so the server can push to this browser
+  const saveSubscription = useCallback(async (subscription: PushSubscription): Promise<void> => {
+    if (!partnerId) return;
+
+    const response = await fetch('/api/push/subscribe', {
+      method: 'POST',
+      body: JSON.stringify({ partnerId, subscription: subscription.toJSON() }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      console.error('Push subscription was not saved:', response.status);
+    }
+  }, [partnerId]);
+
   const subscribe = useCallback(async (): Promise<PushSubscription | null> => {
     if (!isSupported || !vapidPublicKey) return null;
 
@@ -187,6 +206,7 @@ export function usePushNotifications(
       const existingSubscription = await registration.pushManager.getSubscription();
       if (existingSubscription) {
         setIsSubscribed(true);
+        await saveSubscription(existingSubscription);
         return existingSubscription;
       }
 
@@ -197,20 +217,14 @@ export function usePushNotifications(
       });
 
       setIsSubscribed(true);
-
-      // TODO: Send subscription to server
-      // await fetch('/api/push/subscribe', {
-      //   method: 'POST',
-      //   body: JSON.stringify(subscription),
-      //   headers: { 'Content-Type': 'application/json' },
-      // });
+      await saveSubscription(subscription);
 
       return subscription;
     } catch (error) {
       console.error('Push subscription error:', error);
       return null;
     }
-  }, [isSupported, vapidPublicKey, requestPermission]);
+  }, [isSupported, vapidPublicKey, requestPermission, saveSubscription]);
 
   const unsubscribe = useCallback(async (): Promise<boolean> => {
     if (!isSupported) return false;
@@ -228,13 +242,14 @@ export function usePushNotifications(
       
       if (success) {
         setIsSubscribed(false);
-        
-        // TODO: Remove subscription from server
-        // await fetch('/api/push/unsubscribe', {
-        //   method: 'POST',
-        //   body: JSON.stringify({ endpoint: subscription.endpoint }),
-        //   headers: { 'Content-Type': 'application/json' },
-        // });
+
+        if (partnerId) {
+          await fetch('/api/push/unsubscribe', {
+            method: 'POST',
+            body: JSON.stringify({ partnerId, endpoint: subscription.endpoint }),
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
       }
 
       return success;
@@ -242,7 +257,7 @@ export function usePushNotifications(
       console.error('Push unsubscription error:', error);
       return false;
     }
-  }, [isSupported]);
+  }, [isSupported, partnerId]);
 
   return {
     isSupported,
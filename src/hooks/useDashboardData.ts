@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { ApiResponse } from '@/types';
+import { usePartnerEvents } from './usePartnerEvents';
 
 // ============================================
 // Types
@@ -15,6 +16,7 @@ import type { ApiResponse } from '@/types';
 export interface PartnerStats {
   totalEarnings: number;
   pendingPayout: number;
+  availableBalance: number;
   totalClicks: number;
   totalConversions: number;
   conversionRate: number;
@@ -22,24 +24,46 @@ export interface PartnerStats {
   commissionRate: number;
 }
 
+export type AnalyticsRange = '7d' | '30d' | '90d' | 'ytd' | 'all';
+
 export interface AnalyticsData {
-  daily: Array<{
+  overview: {
+    clicks: number;
+    clicksTrend: number;
+    conversions: number;
+    conversionsTrend: number;
+    revenue: number;
+    revenueTrend: number;
+    conversionRate: number;
+    conversionRateTrend: number;
+  };
+  funnel: Array<{
+    stage: string;
+    count: number;
+    percentage: number;
+  }>;
+  timeSeries: Array<{
     date: string;
     clicks: number;
     conversions: number;
-    earnings: number;
+    revenue: number;
+    commission: number;
   }>;
-  bySource: Array<{
+  sourceBreakdown: Array<{
     source: string;
     clicks: number;
     conversions: number;
+    revenue: number;
+    commission: number;
+    conversionRate: number;
   }>;
   topCampaigns: Array<{
     id: string;
     name: string;
     clicks: number;
     conversions: number;
-    earnings: number;
+    revenue: number;
+    commission: number;
   }>;
 }
 
@@ -68,6 +92,7 @@ export interface Milestone {
 }
 
 export interface PayoutSummary {
+  balance: number; // ledger balance, held commission included
   totalPaid: number;
   totalPending: number;
   totalProcessing: number;
@@ -75,6 +100,30 @@ export interface PayoutSummary {
   lastPayoutDate: string | null;
 }
 
+export interface Recruit {
+  id: string;
+  name: string;
+  tier: string;
+  status: string;
+  recruitedAt: string | null;
+  overrideEndsAt: string | null;
+  overrideActive: boolean;
+  overrideCount: number;
+  overrideEarnedCents: number;
+}
+
+export interface RecruitsOverview {
+  recruitmentLink: string;
+  overrideRate: number; // fraction of each recruit's commission
+  overrideMonths: number;
+  totals: {
+    recruits: number;
+    activeOverrides: number;
+    earnedCents: number;
+  };
+  recruits: Recruit[];
+}
+
 export interface Notification {
   id: string;
   type: string;
@@ -147,16 +196,10 @@ export function usePartnerStats(partnerId: string): FetchState<PartnerStats> {
 
 export function useAnalytics(
   partnerId: string,
-  options?: { days?: number; groupBy?: 'day' | 'week' | 'month' }
+  options?: { range?: AnalyticsRange }
 ): FetchState<AnalyticsData> {
-  const params = new URLSearchParams();
-  if (options?.days) params.set('days', String(options.days));
-  if (options?.groupBy) params.set('groupBy', options.groupBy);
-  
-  const queryString = params.toString();
-  const url = `/api/partners/${partnerId}/analytics${queryString ? `?${queryString}` : ''}`;
-  
-  return useFetch<AnalyticsData>(url, [options?.days, options?.groupBy]);
+  const range = options?.range ?? '30d';
+  return useFetch<AnalyticsData>(`/api/partners/${partnerId}/analytics?range=${range}`, [range]);
 }
 
 // ============================================
@@ -253,6 +296,14 @@ export function usePayouts(partnerId: string): PayoutsState {
   return { ...state, requestPayout };
 }
 
+// ============================================
+// Recruits Hook
+// ============================================
+
+export function useRecruits(partnerId: string): FetchState<RecruitsOverview> {
+  return useFetch<RecruitsOverview>(`/api/partners/${partnerId}/recruits`);
+}
+
 // ============================================
 // Notifications Hook
 // ============================================
@@ -262,10 +313,24 @@ interface NotificationsState extends FetchState<{ notifications: Notification[];
   markAllAsRead: () => Promise<boolean>;
 }
 
+// Polling interval while the event stream is down
+const NOTIFICATIONS_POLL_INTERVAL_MS = 30 * 1000;
+
 export function useNotifications(partnerId: string): NotificationsState {
   const state = useFetch<{ notifications: Notification[]; unreadCount: number }>(
     `/api/notifications?partnerId=${partnerId}`
   );
+  const { refetch } = state;
+
+  const { connected } = usePartnerEvents(partnerId, event => {
+    if (event.type === 'notification') void refetch();
+  });
+
+  useEffect(() => {
+    if (connected) return;
+    const interval = setInterval(() => void refetch(), NOTIFICATIONS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connected, refetch]);
 
   const markAsRead = useCallback(async (id: string) => {
     try {
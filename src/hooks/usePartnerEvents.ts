@@ -0,0 +1,147 @@
+/**
+ * Partner Event Stream Hook
+ * Subscribes to /api/partners/[id]/events with EventSource
+ *
+ * Every hook on a page shares one stream per partner: the first subscriber
+ * opens it, events are fanned out to all subscribers and the last one to
+ * unmount closes it.
+ *
+ * `connected` is false until the stream opens and whenever it drops, so
+ * callers can poll in the meantime. Browsers reconnect dropped streams on
+ * their own with Last-Event-ID; a stream the server refuses is retried later.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { PARTNER_EVENT_TYPES } from '@/lib/partner-events';
+import type { PartnerEventType } from '@/lib/db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PartnerStreamEvent {
+  id: string;
+  type: PartnerEventType;
+  data: Record<string, unknown>;
+}
+
+interface PartnerEventsState {
+  connected: boolean;
+}
+
+interface StreamSubscriber {
+  onEvent: (event: PartnerStreamEvent) => void;
+  onConnectedChange: (connected: boolean) => void;
+}
+
+interface SharedStream {
+  source: EventSource | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  connected: boolean;
+  subscribers: Set<StreamSubscriber>;
+}
+
+// Wait before opening a new stream after the server refused one
+const STREAM_RETRY_DELAY_MS = 30 * 1000;
+
+// ============================================
+// Shared Streams
+// ============================================
+
+const streams = new Map<string, SharedStream>();
+
+function setStreamConnected(stream: SharedStream, connected: boolean): void {
+  stream.connected = connected;
+  stream.subscribers.forEach(subscriber => subscriber.onConnectedChange(connected));
+}
+
+function openStream(partnerId: string, stream: SharedStream): void {
+  const handleMessage = (message: MessageEvent<string>) => {
+    let event: PartnerStreamEvent;
+    try {
+      event = {
+        id: message.lastEventId,
+        type: message.type as PartnerEventType,
+        data: JSON.parse(message.data) as Record<string, unknown>,
+      };
+    } catch {
+      // Ignore malformed events
+      return;
+    }
+    stream.subscribers.forEach(subscriber => subscriber.onEvent(event));
+  };
+
+  const source = new EventSource(`/api/partners/${partnerId}/events`);
+  stream.source = source;
+
+  source.onopen = () => setStreamConnected(stream, true);
+  source.onerror = () => {
+    setStreamConnected(stream, false);
+    // CLOSED means the server refused the stream; EventSource retries anything else itself
+    if (source.readyState === EventSource.CLOSED) {
+      source.close();
+      stream.retryTimer = setTimeout(() => openStream(partnerId, stream), STREAM_RETRY_DELAY_MS);
+    }
+  };
+  PARTNER_EVENT_TYPES.forEach(type => source.addEventListener(type, handleMessage));
+}
+
+/**
+ * Add a subscriber to the partner's stream, opening it if needed
+ * Returns the unsubscribe function, which closes the stream after the last one
+ */
+function subscribeToPartnerEvents(partnerId: string, subscriber: StreamSubscriber): () => void {
+  let stream = streams.get(partnerId);
+  if (!stream) {
+    stream = { source: null, retryTimer: null, connected: false, subscribers: new Set() };
+    streams.set(partnerId, stream);
+    openStream(partnerId, stream);
+  }
+
+  const shared = stream;
+  shared.subscribers.add(subscriber);
+  subscriber.onConnectedChange(shared.connected);
+
+  return () => {
+    shared.subscribers.delete(subscriber);
+    if (shared.subscribers.size > 0) return;
+
+    if (shared.retryTimer) clearTimeout(shared.retryTimer);
+    shared.source?.close();
+    streams.delete(partnerId);
+  };
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function usePartnerEvents(
+  partnerId: string | null,
+  onEvent: (event: PartnerStreamEvent) => void
+): PartnerEventsState {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!partnerId || typeof EventSource === 'undefined') return;
+
+    const unsubscribe = subscribeToPartnerEvents(partnerId, {
+      onEvent: event => onEventRef.current(event),
+      onConnectedChange: setConnected,
+    });
+
+    return () => {
+      unsubscribe();
+      setConnected(false);
+    };
+  }, [partnerId]);
+
+  return { connected };
+}
@@ -0,0 +1,49 @@
+/**
+ * Analytics Service
+ * Loads a partner's daily rollups and campaigns for the analytics dashboard
+ */
+
+import { getCampaignRepository, getDailyRollupRepository } from './repositories';
+import {
+  addDays,
+  buildAnalytics,
+  getAnalyticsPeriod,
+  resolveTimeZone,
+  type AnalyticsData,
+  type AnalyticsRange,
+} from './analytics';
+import type { Partner } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Most campaigns a partner's activity is attributed to
+const MAX_CAMPAIGNS = 500;
+
+// ============================================
+// Analytics
+// ============================================
+
+/**
+ * A partner's analytics for a range, in the partner's time zone
+ */
+export async function getPartnerAnalytics(
+  partner: Pick<Partner, 'id' | 'timezone' | 'createdAt'>,
+  range: AnalyticsRange,
+  now: Date = new Date()
+): Promise<AnalyticsData> {
+  const timeZone = resolveTimeZone(partner.timezone);
+  const period = getAnalyticsPeriod(range, timeZone, now, partner.createdAt);
+  const lastDay = period.days.at(-1);
+
+  const [rollups, campaigns] = await Promise.all([
+    getDailyRollupRepository().findByPartnerId(partner.id, {
+      since: period.previousFirstDay ?? period.days[0],
+      until: lastDay ? addDays(lastDay, 1) : undefined,
+    }),
+    getCampaignRepository().findByPartnerId(partner.id, { limit: MAX_CAMPAIGNS }),
+  ]);
+
+  return buildAnalytics(period, rollups, campaigns);
+}
@@ -0,0 +1,355 @@
+/**
+ * Partner Analytics
+ * Aggregates a partner's daily rollups into the analytics dashboard
+ *
+ * Rollups are days in the partner's time zone (see rollups.ts). Each range
+ * is compared with the period of the same length just before it; trends
+ * are the percentage change between the two.
+ *
+ * This module is pure; rollups are loaded by analytics-service.ts.
+ */
+
+import { calculatePercentageChange } from './utils';
+import type { Campaign, CampaignSource } from './db';
+import type { RollupRow } from './rollups';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const ANALYTICS_RANGES = ['7d', '30d', '90d', 'ytd', 'all'] as const;
+
+const RANGE_DAYS: Partial<Record<AnalyticsRange, number>> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+// Used when a partner's time zone is not recognised
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Source of clicks and referrals that did not come through a campaign
+export const DIRECT_SOURCE = 'Direct';
+
+export const SOURCE_LABELS: Record<CampaignSource, string> = {
+  LINKEDIN: 'LinkedIn',
+  TWITTER: 'Twitter/X',
+  FACEBOOK: 'Facebook',
+  EMAIL: 'Email',
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+  WEBSITE: 'Website',
+  OTHER: 'Other',
+};
+
+const TOP_CAMPAIGNS = 5;
+
+// ============================================
+// Types
+// ============================================
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+export interface AnalyticsPeriod {
+  since: Date; // start of the first day
+  until: Date; // start of the day after the last (exclusive)
+  previousSince: Date | null; // the previous period runs up to `since`; null for all time
+  days: string[]; // YYYY-MM-DD in the partner's time zone
+  previousFirstDay: string | null; // first day of the previous period
+}
+
+export interface AnalyticsData {
+  overview: {
+    clicks: number;
+    clicksTrend: number;
+    conversions: number;
+    conversionsTrend: number;
+    revenue: number;
+    revenueTrend: number;
+    conversionRate: number;
+    conversionRateTrend: number;
+  };
+  funnel: {
+    stage: string;
+    count: number;
+    percentage: number;
+  }[];
+  timeSeries: {
+    date: string;
+    clicks: number;
+    conversions: number;
+    revenue: number;
+    commission: number;
+  }[];
+  sourceBreakdown: {
+    source: string;
+    clicks: number;
+    conversions: number;
+    revenue: number;
+    commission: number;
+    conversionRate: number;
+  }[];
+  topCampaigns: {
+    id: string;
+    name: string;
+    clicks: number;
+    conversions: number;
+    revenue: number;
+    commission: number;
+  }[];
+}
+
+export type AnalyticsCampaign = Pick<Campaign, 'id' | 'name' | 'source'>;
+
+interface Totals {
+  clicks: number;
+  conversions: number;
+  revenue: number;
+  commission: number;
+}
+
+// ============================================
+// Time Zones
+// ============================================
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The partner's time zone, or UTC when it is not a valid IANA zone
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in a time zone
+ */
+export function getDayKey(date: Date, timeZone: string): string {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(date);
+}
+
+/**
+ * Day key a number of days after another
+ */
+export function addDays(dayKey: string, days: number): string {
+  const date = new Date(`${dayKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function getOffsetMs(date: Date, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year ?? 0,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant a calendar day starts in a time zone
+ */
+export function startOfDay(dayKey: string, timeZone: string): Date {
+  const midnightUtc = Date.parse(`${dayKey}T00:00:00Z`);
+  const guess = midnightUtc - getOffsetMs(new Date(midnightUtc), timeZone);
+  // The offset can differ at the guess when midnight falls near a DST change
+  return new Date(midnightUtc - getOffsetMs(new Date(guess), timeZone));
+}
+
+// ============================================
+// Periods
+// ============================================
+
+/**
+ * Days covered by a range, ending today in the partner's time zone
+ * All time starts on the day the partner joined and has no previous period
+ */
+export function getAnalyticsPeriod(
+  range: AnalyticsRange,
+  timeZone: string,
+  now: Date = new Date(),
+  joinedAt: Date = now
+): AnalyticsPeriod {
+  const today = getDayKey(now, timeZone);
+
+  let firstDay: string;
+  if (range === 'ytd') {
+    firstDay = `${today.slice(0, 4)}-01-01`;
+  } else if (range === 'all') {
+    const joined = getDayKey(joinedAt, timeZone);
+    firstDay = joined < today ? joined : today;
+  } else {
+    firstDay = addDays(today, 1 - (RANGE_DAYS[range] ?? 30));
+  }
+
+  const days: string[] = [];
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const previousFirstDay = range === 'all' ? null : addDays(firstDay, -days.length);
+
+  return {
+    since: startOfDay(firstDay, timeZone),
+    until: startOfDay(addDays(today, 1), timeZone),
+    previousSince: previousFirstDay ? startOfDay(previousFirstDay, timeZone) : null,
+    days,
+    previousFirstDay,
+  };
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+function emptyTotals(): Totals {
+  return { clicks: 0, conversions: 0, revenue: 0, commission: 0 };
+}
+
+function addRollup(totals: Totals, rollup: RollupRow): void {
+  totals.clicks += rollup.clicks;
+  totals.conversions += rollup.conversions;
+  totals.revenue += rollup.revenueCents;
+  totals.commission += rollup.commissionCents;
+}
+
+function rate(part: number, whole: number, decimals: number): number {
+  if (whole === 0) return 0;
+  const factor = 10 ** decimals;
+  return Math.round((part / whole) * 100 * factor) / factor;
+}
+
+function trend(previous: number, current: number): number {
+  return Math.round(calculatePercentageChange(previous, current) * 10) / 10;
+}
+
+function getOrCreate<K>(map: Map<K, Totals>, key: K): Totals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+/**
+ * Build the analytics dashboard for a period
+ * Rollups may include the previous period; unique visitors are counted per
+ * day and link, so a visitor returning on another day counts again
+ */
+export function buildAnalytics(
+  period: AnalyticsPeriod,
+  rollups: RollupRow[],
+  campaigns: AnalyticsCampaign[]
+): AnalyticsData {
+  const campaignsById = new Map(campaigns.map(c => [c.id, c]));
+  const firstDay = period.days[0] ?? '';
+  const endDay = addDays(period.days.at(-1) ?? firstDay, 1);
+
+  const current = emptyTotals();
+  const previous = emptyTotals();
+  const byDay = new Map<string, Totals>(period.days.map(day => [day, emptyTotals()]));
+  const bySource = new Map<string, Totals>();
+  const byCampaign = new Map<string, Totals>();
+  let visitors = 0;
+  let signups = 0;
+
+  for (const rollup of rollups) {
+    if (period.previousFirstDay !== null && rollup.day >= period.previousFirstDay && rollup.day < firstDay) {
+      addRollup(previous, rollup);
+      continue;
+    }
+    if (rollup.day < firstDay || rollup.day >= endDay) continue;
+
+    visitors += rollup.uniqueClicks;
+    signups += rollup.signups;
+
+    const source = rollup.source === 'DIRECT' ? DIRECT_SOURCE : SOURCE_LABELS[rollup.source];
+    const buckets = [
+      current,
+      getOrCreate(byDay, rollup.day),
+      getOrCreate(bySource, source),
+      ...(rollup.campaignId ? [getOrCreate(byCampaign, rollup.campaignId)] : []),
+    ];
+    for (const totals of buckets) addRollup(totals, rollup);
+  }
+
+  const conversionRate = rate(current.conversions, current.clicks, 2);
+  const previousConversionRate = rate(previous.conversions, previous.clicks, 2);
+  const hasPrevious = period.previousSince !== null;
+
+  const funnel = [
+    { stage: 'Link Clicks', count: current.clicks },
+    { stage: 'Unique Visitors', count: visitors },
+    { stage: 'Sign-ups', count: signups },
+    { stage: 'Converted', count: current.conversions },
+  ].map(stage => ({ ...stage, percentage: rate(stage.count, current.clicks, 1) }));
+
+  return {
+    overview: {
+      clicks: current.clicks,
+      clicksTrend: hasPrevious ? trend(previous.clicks, current.clicks) : 0,
+      conversions: current.conversions,
+      conversionsTrend: hasPrevious ? trend(previous.conversions, current.conversions) : 0,
+      revenue: current.revenue,
+      revenueTrend: hasPrevious ? trend(previous.revenue, current.revenue) : 0,
+      conversionRate,
+      conversionRateTrend: hasPrevious ? trend(previousConversionRate, conversionRate) : 0,
+    },
+    funnel,
+    timeSeries: Array.from(byDay, ([date, totals]) => ({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    sourceBreakdown: Array.from(bySource, ([source, totals]) => ({
+      source,
+      ...totals,
+      conversionRate: rate(totals.conversions, totals.clicks, 1),
+    }))
+      .filter(s => s.clicks > 0 || s.conversions > 0 || s.revenue !== 0)
+      .sort((a, b) => b.clicks - a.clicks || b.conversions - a.conversions),
+    topCampaigns: Array.from(byCampaign)
+      .flatMap(([id, totals]) => {
+        const campaign = campaignsById.get(id);
+        return campaign ? [{ id, name: campaign.name, ...totals }] : [];
+      })
+      .sort((a, b) => b.revenue - a.revenue || b.clicks - a.clicks)
+      .slice(0, TOP_CAMPAIGNS),
+  };
+}
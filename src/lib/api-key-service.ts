@@ -0,0 +1,138 @@
+/**
+ * API Key Service
+ * Issues, lists, revokes and verifies partner API keys
+ */
+
+import { getApiKeyRepository, getPartnerRepository } from './repositories';
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  hashApiKey,
+  MAX_ACTIVE_API_KEYS,
+} from './api-keys';
+import { logger } from './monitoring';
+import type { ApiKey, ApiKeyScope } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// lastUsedAt is only rewritten when older than this, to spare a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface CreateApiKeyResult {
+  success: boolean;
+  apiKey?: ApiKey;
+  key?: string; // shown once
+  error?: string;
+  errorCode?: 'NOT_FOUND' | 'LIMIT_REACHED';
+}
+
+// ============================================
+// Management
+// ============================================
+
+/**
+ * Issue a new key for a partner
+ */
+export async function createApiKey(
+  partnerId: string,
+  input: { name: string; scopes: ApiKeyScope[] }
+): Promise<CreateApiKeyResult> {
+  const partner = await getPartnerRepository().findById(partnerId);
+  if (!partner) {
+    return { success: false, error: 'Partner not found', errorCode: 'NOT_FOUND' };
+  }
+
+  const apiKeyRepo = getApiKeyRepository();
+  const active = await apiKeyRepo.findByPartnerId(partnerId);
+  if (active.length >= MAX_ACTIVE_API_KEYS) {
+    return {
+      success: false,
+      error: `A partner can have at most ${MAX_ACTIVE_API_KEYS} active API keys`,
+      errorCode: 'LIMIT_REACHED',
+    };
+  }
+
+  const { key, keyHash, prefix } = generateApiKey();
+  const apiKey = await apiKeyRepo.create({
+    partnerId,
+    name: input.name,
+    prefix,
+    keyHash,
+    scopes: [...new Set(input.scopes)],
+  });
+
+  logger.info('[ApiKeyService] Key created', {
+    partnerId,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes,
+  });
+
+  return { success: true, apiKey, key };
+}
+
+/**
+ * A partner's keys, newest first
+ */
+export async function listApiKeys(
+  partnerId: string,
+  options?: { includeRevoked?: boolean }
+): Promise<ApiKey[]> {
+  return getApiKeyRepository().findByPartnerId(partnerId, options);
+}
+
+/**
+ * Revoke a partner's key; revoking twice is a no-op
+ */
+export async function revokeApiKey(
+  partnerId: string,
+  apiKeyId: string
+): Promise<{ success: boolean; apiKey?: ApiKey; error?: string; errorCode?: 'NOT_FOUND' }> {
+  const apiKeyRepo = getApiKeyRepository();
+  const existing = await apiKeyRepo.findById(apiKeyId);
+
+  if (!existing || existing.partnerId !== partnerId) {
+    return { success: false, error: 'API key not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (existing.revokedAt) {
+    return { success: true, apiKey: existing };
+  }
+
+  const apiKey = await apiKeyRepo.update(apiKeyId, { revokedAt: new Date() });
+
+  logger.info('[ApiKeyService] Key revoked', { partnerId, apiKeyId });
+
+  return { success: true, apiKey: apiKey ?? existing };
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Look up the key a request presented and record its use
+ * Returns null for unknown or revoked keys and for suspended partners
+ */
+export async function verifyApiKey(key: string, now: Date = new Date()): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const apiKeyRepo = getApiKeyRepository();
+  const apiKey = await apiKeyRepo.findByHash(hashApiKey(key));
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const partner = await getPartnerRepository().findById(apiKey.partnerId);
+  if (!partner || partner.status === 'SUSPENDED' || partner.status === 'INACTIVE') return null;
+
+  const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+  if (now.getTime() - lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+    return (await apiKeyRepo.update(apiKey.id, { lastUsedAt: now })) ?? apiKey;
+  }
+
+  return apiKey;
+}
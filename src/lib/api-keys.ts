@@ -0,0 +1,78 @@
+/**
+ * Partner API Keys
+ * Key format, hashing, scopes and request parsing
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import type { ApiKey, ApiKeyScope } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Every key starts with this, so keys are recognisable in headers and leaks
+export const API_KEY_PREFIX = 'icp_';
+
+// Characters of the key kept in plain text to identify it in listings
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Active keys a partner can hold at once
+export const MAX_ACTIVE_API_KEYS = 10;
+
+// ============================================
+// Scopes
+// ============================================
+
+export const API_KEY_SCOPE_CATALOG: Record<ApiKeyScope, string> = {
+  'campaigns:read': 'List campaigns and their performance',
+  'campaigns:write': 'Create campaigns',
+  'stats:read': 'Read stats, analytics and milestones',
+  'milestones:write': 'Check for and record new milestones',
+  'payouts:read': 'Read payout history and earnings statements',
+};
+
+export const API_KEY_SCOPES = Object.keys(API_KEY_SCOPE_CATALOG) as ApiKeyScope[];
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]])).min(1, 'Grant at least one scope'),
+});
+
+// ============================================
+// Keys
+// ============================================
+
+/**
+ * SHA-256 of a key, as stored
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new key with its hash and display prefix
+ * The key itself is returned to the partner once and never stored
+ */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * Extract an API key from an Authorization header
+ * Returns null for missing headers and non-key bearer tokens
+ */
+export function parseApiKeyHeader(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  const token = match?.[1];
+  return token?.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+/**
+ * A key without its hash, for listing
+ */
+export function toApiKeyView(apiKey: ApiKey): Omit<ApiKey, 'keyHash'> {
+  const { keyHash: _keyHash, ...view } = apiKey;
+  return view;
+}
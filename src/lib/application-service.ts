@@ -0,0 +1,328 @@
+/**
+ * Application Service
+ * Partner applications from submission through review to a new partner
+ */
+
+import { getPartnerApplicationRepository, getPartnerRepository } from './repositories';
+import {
+  APPLICATION_LINK_TTL_HOURS,
+  applicantName,
+  applicationTokenMatches,
+  generateApplicationToken,
+  generateReferralCode,
+  PENDING_REVIEW_STATUSES,
+  type ApplicationReview,
+  type ApplicationSubmission,
+} from './applications';
+import { recordAuditEvent } from './audit-service';
+import type { AuditContext } from './audit';
+import { sendApplicationLinkEmail, sendWelcomeEmail } from './email-service';
+import { recordInviteSignup, redeemInviteCode, useRedeemedInviteCode } from './invite-code-service';
+import { resolveRecruiter } from './recruitment-service';
+import { logger } from './monitoring';
+import type { ApplicationStatus, Partner, PartnerApplication } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Attempts at a referral code that no partner has yet
+const REFERRAL_CODE_ATTEMPTS = 5;
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReviewApplicationResult {
+  success: boolean;
+  application?: PartnerApplication;
+  partner?: Partner;
+  error?: string;
+  errorCode?: 'NOT_FOUND' | 'ALREADY_REVIEWED' | 'PARTNER_EXISTS';
+}
+
+// ============================================
+// Submission
+// ============================================
+
+/**
+ * Redeem an invite code for an application that has none yet
+ * A redeemed code moves the application to instant access
+ */
+async function applyInviteCode(
+  application: PartnerApplication,
+  code: string | undefined
+): Promise<PartnerApplication> {
+  if (!code || application.inviteCode) return application;
+
+  const inviteCode = await redeemInviteCode(code, application);
+  if (!inviteCode) return application;
+
+  const updated = await getPartnerApplicationRepository().update(application.id, {
+    inviteCode: inviteCode.code,
+    status: 'INSTANT_ACCESS',
+  });
+  return updated ?? application;
+}
+
+/**
+ * Partner whose recruitment link an applicant followed, if still active
+ */
+async function resolveRecruitedById(recruiterCode: string | undefined): Promise<string | null> {
+  if (!recruiterCode) return null;
+  return (await resolveRecruiter(recruiterCode))?.id ?? null;
+}
+
+/**
+ * Submit an application, or update one awaiting review
+ * Decided applications are returned unchanged
+ */
+export async function submitApplication(
+  input: ApplicationSubmission
+): Promise<{ application: PartnerApplication; created: boolean }> {
+  const repo = getPartnerApplicationRepository();
+  const email = input.email.toLowerCase().trim();
+
+  const existing = await repo.findByEmail(email);
+
+  if (existing) {
+    if (!PENDING_REVIEW_STATUSES.includes(existing.status)) {
+      return { application: existing, created: false };
+    }
+
+    // A resubmission answers an info request, and a valid code upgrades the waitlist
+    const updated = await repo.update(existing.id, {
+      name: input.name ?? existing.name,
+      company: input.company ?? existing.company,
+      website: input.website ?? existing.website,
+      audienceSize: input.audienceSize ?? existing.audienceSize,
+      channels: input.channels ?? existing.channels,
+      message: input.message ?? existing.message,
+      recruitedById: existing.recruitedById ?? await resolveRecruitedById(input.recruiterCode),
+      status: existing.inviteCode ? 'INSTANT_ACCESS' : 'WAITLIST',
+    });
+
+    return { application: await applyInviteCode(updated ?? existing, input.inviteCode), created: false };
+  }
+
+  const created = await repo.create({
+    email,
+    name: input.name ?? null,
+    company: input.company ?? null,
+    website: input.website ?? null,
+    audienceSize: input.audienceSize ?? null,
+    channels: input.channels ?? [],
+    message: input.message ?? null,
+    status: 'WAITLIST',
+    inviteCode: null,
+    recruitedById: await resolveRecruitedById(input.recruiterCode),
+    reviewNotes: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    partnerId: null,
+  });
+  const application = await applyInviteCode(created, input.inviteCode);
+
+  logger.info('[ApplicationService] Application submitted', {
+    applicationId: application.id,
+    status: application.status,
+  });
+
+  return { application, created: true };
+}
+
+/**
+ * An applicant's application, by email
+ */
+export async function getApplicationByEmail(email: string): Promise<PartnerApplication | null> {
+  return getPartnerApplicationRepository().findByEmail(email.toLowerCase().trim());
+}
+
+// ============================================
+// Status Links
+// ============================================
+
+/**
+ * Email the applicant a new link to view and update their application
+ * The new link replaces any earlier one; send failures are logged
+ */
+export async function sendApplicationLink(application: PartnerApplication): Promise<void> {
+  const { token, tokenHash, expiresAt } = generateApplicationToken();
+
+  await getPartnerApplicationRepository().update(application.id, {
+    accessTokenHash: tokenHash,
+    accessTokenExpiresAt: expiresAt,
+  });
+
+  const emailResult = await sendApplicationLinkEmail({
+    email: application.email,
+    token,
+    expiresInHours: APPLICATION_LINK_TTL_HOURS,
+  });
+  if (!emailResult.success) {
+    logger.warn('[ApplicationService] Application link email failed', {
+      applicationId: application.id,
+      error: emailResult.error,
+    });
+  }
+}
+
+/**
+ * An applicant's application, if the token is from its current status link
+ */
+export async function getApplicationWithToken(
+  email: string,
+  token: string
+): Promise<PartnerApplication | null> {
+  const application = await getApplicationByEmail(email);
+  return application && applicationTokenMatches(application, token) ? application : null;
+}
+
+// ============================================
+// Review
+// ============================================
+
+async function uniqueReferralCode(name: string): Promise<string> {
+  const partnerRepo = getPartnerRepository();
+
+  for (let attempt = 0; attempt < REFERRAL_CODE_ATTEMPTS; attempt++) {
+    const code = generateReferralCode(name);
+    if (!(await partnerRepo.findByReferralCode(code))) return code;
+  }
+
+  throw new Error('Could not generate a unique referral code');
+}
+
+async function approveApplication(
+  application: PartnerApplication,
+  partnerStatus: ApplicationReview['partnerStatus']
+): Promise<{ partner?: Partner; error?: string }> {
+  const partnerRepo = getPartnerRepository();
+
+  if (await partnerRepo.findByEmail(application.email)) {
+    return { error: 'A partner with this email already exists' };
+  }
+
+  // Partners who applied with an invite code start at the code's tier; approval counts the use
+  const inviteCode = await useRedeemedInviteCode(application.id);
+
+  // A recruitment link wins over the partner who issued the invite code
+  const recruitedById = application.recruitedById ?? inviteCode?.invitedByPartnerId ?? null;
+
+  const name = applicantName(application);
+  const partner = await partnerRepo.create({
+    email: application.email,
+    name,
+    referralCode: await uniqueReferralCode(name),
+    status: partnerStatus,
+    tier: inviteCode?.defaultTier ?? 'STANDARD',
+    company: application.company ?? null,
+    website: application.website ?? null,
+    emailDigest: true,
+    timezone: 'America/New_York',
+    recruitedById,
+    recruitedAt: recruitedById ? new Date() : null,
+  });
+
+  if (inviteCode) {
+    await recordInviteSignup(application.id, partner.id);
+  }
+
+  const emailResult = await sendWelcomeEmail({ partner });
+  if (!emailResult.success) {
+    logger.warn('[ApplicationService] Welcome email failed', {
+      partnerId: partner.id,
+      error: emailResult.error,
+    });
+  }
+
+  return { partner };
+}
+
+const REVIEW_STATUS: Record<ApplicationReview['action'], ApplicationStatus> = {
+  approve: 'APPROVED',
+  reject: 'REJECTED',
+  request_info: 'INFO_REQUESTED',
+};
+
+/**
+ * Approve, reject or ask an applicant for more information
+ * Approval creates the partner and sends the welcome email
+ */
+export async function reviewApplication(
+  applicationId: string,
+  review: ApplicationReview,
+  auditContext: AuditContext
+): Promise<ReviewApplicationResult> {
+  const repo = getPartnerApplicationRepository();
+  const existing = await repo.findById(applicationId);
+
+  if (!existing) {
+    return { success: false, error: 'Application not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (!PENDING_REVIEW_STATUSES.includes(existing.status)) {
+    return {
+      success: false,
+      error: `Application has already been ${existing.status.toLowerCase()}`,
+      errorCode: 'ALREADY_REVIEWED',
+    };
+  }
+
+  let partner: Partner | undefined;
+  if (review.action === 'approve') {
+    const approval = await approveApplication(existing, review.partnerStatus);
+    if (!approval.partner) {
+      return { success: false, error: approval.error, errorCode: 'PARTNER_EXISTS' };
+    }
+    partner = approval.partner;
+  }
+
+  const application = await repo.update(applicationId, {
+    status: REVIEW_STATUS[review.action],
+    reviewNotes: review.notes ?? null,
+    reviewedBy: auditContext.actorId,
+    reviewedAt: new Date(),
+    partnerId: partner?.id ?? null,
+  });
+
+  if (!application) {
+    return { success: false, error: 'Application not found', errorCode: 'NOT_FOUND' };
+  }
+
+  await recordAuditEvent(auditContext, {
+    action: `application.${review.action}`,
+    targetType: 'APPLICATION',
+    targetId: applicationId,
+    before: { status: existing.status, reviewNotes: existing.reviewNotes ?? null, partnerId: null },
+    after: { status: application.status, reviewNotes: application.reviewNotes, partnerId: application.partnerId },
+  });
+
+  logger.info('[ApplicationService] Application reviewed', {
+    applicationId,
+    action: review.action,
+    partnerId: partner?.id,
+  });
+
+  return { success: true, application, partner };
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Applications in the review queue, oldest first
+ */
+export async function listApplications(
+  statuses: ApplicationStatus[],
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ applications: PartnerApplication[]; total: number }> {
+  const repo = getPartnerApplicationRepository();
+  const [applications, total] = await Promise.all([
+    repo.findAll({ statuses, ...options }),
+    repo.count({ statuses }),
+  ]);
+
+  return { applications, total };
+}
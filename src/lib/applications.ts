@@ -0,0 +1,178 @@
+/**
+ * Partner Applications
+ * Submission and review validation, referral codes, status links and the
+ * applicant's view
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { ApplicationChannel, ApplicationStatus, PartnerApplication } from './db';
+import { generateRandomString } from './utils';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const APPLICATION_CHANNELS: ApplicationChannel[] = [
+  'LINKEDIN',
+  'TWITTER',
+  'NEWSLETTER',
+  'PODCAST',
+  'YOUTUBE',
+  'BLOG',
+  'COMMUNITY',
+  'EVENTS',
+  'OTHER',
+];
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'WAITLIST',
+  'INSTANT_ACCESS',
+  'INFO_REQUESTED',
+  'APPROVED',
+  'REJECTED',
+];
+
+// Awaiting an admin decision
+export const PENDING_REVIEW_STATUSES: ApplicationStatus[] = ['WAITLIST', 'INSTANT_ACCESS', 'INFO_REQUESTED'];
+
+// How long an emailed status link works
+export const APPLICATION_LINK_TTL_HOURS = 24;
+
+// ============================================
+// Validation
+// ============================================
+
+export const applicationSubmissionSchema = z.object({
+  email: z.string().email('Please provide a valid email address'),
+  inviteCode: z.string().min(4).max(20).optional(),
+  // Referral code from a partner's recruitment link
+  recruiterCode: z.string().trim().min(1).max(50).optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  company: z.string().trim().min(1).max(100).optional(),
+  website: z.string().url('Please provide a valid URL').optional(),
+  audienceSize: z.number().int().min(0).optional(),
+  channels: z.array(z.enum(APPLICATION_CHANNELS as [ApplicationChannel, ...ApplicationChannel[]])).max(9).optional(),
+  message: z.string().trim().max(2000).optional(),
+  // Token from the emailed status link, required to update an existing application
+  token: z.string().min(1).max(100).optional(),
+});
+
+export type ApplicationSubmission = z.infer<typeof applicationSubmissionSchema>;
+
+export const applicationReviewSchema = z.object({
+  action: z.enum(['approve', 'reject', 'request_info']),
+  notes: z.string().trim().max(2000).optional(),
+  // Status of the partner created on approval
+  partnerStatus: z.enum(['ACTIVE', 'PENDING']).default('ACTIVE'),
+}).refine(
+  data => data.action !== 'request_info' || Boolean(data.notes),
+  { message: 'Tell the applicant what information is needed', path: ['notes'] }
+);
+
+export type ApplicationReview = z.infer<typeof applicationReviewSchema>;
+
+export const applicationStatusQuerySchema = z.object({
+  email: z.string().email('Invalid email format'),
+  token: z.string().min(1, 'Status link token is required').max(100),
+});
+
+export const applicationListQuerySchema = z.object({
+  // PENDING_REVIEW lists every application still awaiting a decision
+  status: z.union([
+    z.enum(APPLICATION_STATUSES as [ApplicationStatus, ...ApplicationStatus[]]),
+    z.literal('PENDING_REVIEW'),
+  ]).default('PENDING_REVIEW'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================
+// Referral Codes
+// ============================================
+
+/**
+ * Referral code for a new partner: up to six letters of their name and a random suffix
+ */
+export function generateReferralCode(name: string): string {
+  const letters = name.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 6) || 'PARTNER';
+  return `${letters}${generateRandomString(4).toUpperCase()}`;
+}
+
+/**
+ * Display name for a partner created from an application
+ */
+export function applicantName(application: Pick<PartnerApplication, 'email' | 'name'>): string {
+  return application.name || application.email.split('@')[0] || application.email;
+}
+
+// ============================================
+// Status Links
+// ============================================
+
+/**
+ * SHA-256 of a status link token, as stored
+ */
+export function hashApplicationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a status link token with its hash and expiry
+ * The token is only sent to the applicant's inbox and never stored
+ */
+export function generateApplicationToken(
+  now: Date = new Date()
+): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = randomBytes(24).toString('base64url');
+  return {
+    token,
+    tokenHash: hashApplicationToken(token),
+    expiresAt: new Date(now.getTime() + APPLICATION_LINK_TTL_HOURS * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Whether a token is the application's current, unexpired status link token
+ */
+export function applicationTokenMatches(
+  application: Pick<PartnerApplication, 'accessTokenHash' | 'accessTokenExpiresAt'>,
+  token: string,
+  now: Date = new Date()
+): boolean {
+  const { accessTokenHash, accessTokenExpiresAt } = application;
+  if (!accessTokenHash || !accessTokenExpiresAt || accessTokenExpiresAt <= now) return false;
+
+  const expected = Buffer.from(accessTokenHash);
+  const actual = Buffer.from(hashApplicationToken(token));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// Applicant View
+// ============================================
+
+export type PublicApplication = Pick<PartnerApplication, 'id' | 'email' | 'status' | 'inviteCode' | 'createdAt'> & {
+  reviewNotes?: string | null;
+};
+
+// Sent instead of the application when the email has already applied
+export interface ApplicationLinkSent {
+  email: string;
+  linkSent: true;
+}
+
+/**
+ * What an applicant sees of their application
+ * Review notes are only shared when the reviewer asked for more information
+ */
+export function toPublicApplication(application: PartnerApplication): PublicApplication {
+  return {
+    id: application.id,
+    email: application.email,
+    status: application.status,
+    inviteCode: application.inviteCode ?? null,
+    createdAt: application.createdAt,
+    ...(application.status === 'INFO_REQUESTED' && { reviewNotes: application.reviewNotes ?? null }),
+  };
+}
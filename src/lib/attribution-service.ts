@@ -0,0 +1,61 @@
+/**
+ * Attribution Service
+ * Loads a partner's clicks, conversions and campaigns for the attribution report
+ */
+
+import {
+  getCampaignRepository,
+  getClickEventRepository,
+  getReferralRepository,
+} from './repositories';
+import {
+  buildAttribution,
+  buildConversionPaths,
+  type AttributionData,
+  type AttributionModel,
+} from './attribution';
+import { ATTRIBUTION_WINDOW_DAYS } from './tracking';
+import type { Partner } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Conversions in the report
+export const ATTRIBUTION_PERIOD_DAYS = 90;
+
+// Most clicks and referrals read for one report
+const MAX_EVENTS = 100000;
+
+// Most campaigns a partner's activity is attributed to
+const MAX_CAMPAIGNS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Attribution
+// ============================================
+
+/**
+ * A partner's attribution report for conversions in the last 90 days
+ * Clicks up to the attribution window before the period still count as touches
+ */
+export async function getPartnerAttribution(
+  partner: Pick<Partner, 'id'>,
+  model: AttributionModel,
+  now: Date = new Date()
+): Promise<AttributionData> {
+  const since = new Date(now.getTime() - ATTRIBUTION_PERIOD_DAYS * DAY_MS);
+  const clicksSince = new Date(since.getTime() - ATTRIBUTION_WINDOW_DAYS * DAY_MS);
+
+  const [clicks, referrals, campaigns] = await Promise.all([
+    getClickEventRepository().findByPartnerId(partner.id, { since: clicksSince, until: now, limit: MAX_EVENTS }),
+    getReferralRepository().findInRange(partner.id, { since, until: now, limit: MAX_EVENTS }),
+    getCampaignRepository().findByPartnerId(partner.id, { limit: MAX_CAMPAIGNS }),
+  ]);
+
+  const conversions = referrals.filter(r => r.convertedAt && r.convertedAt >= since);
+  const paths = buildConversionPaths(conversions, clicks, campaigns, ATTRIBUTION_WINDOW_DAYS);
+
+  return buildAttribution(model, paths, clicks.filter(c => c.createdAt >= since), campaigns);
+}
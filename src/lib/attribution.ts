@@ -0,0 +1,332 @@
+/**
+ * Multi-Touch Attribution
+ * Splits conversion revenue across the campaigns and sources a customer
+ * clicked before converting
+ *
+ * A customer's touchpoint path is the partner's clicks that share the
+ * visitor id of the referral's attribution cookie, within the attribution
+ * window before the conversion. Referrals without cookie clicks (such as
+ * referral code conversions) have a single touch: their attributed
+ * campaign, or Direct.
+ *
+ * This module is pure; clicks and referrals are loaded by attribution-service.ts.
+ */
+
+import { DIRECT_SOURCE, SOURCE_LABELS } from './analytics';
+import { isConvertedReferral } from './rollups';
+import type { Campaign, ClickEvent, Referral } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const ATTRIBUTION_MODELS = ['first_touch', 'last_touch', 'linear', 'time_decay'] as const;
+
+// A touch this long before the conversion gets half the credit of one at conversion
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+const TOP_PATHS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================
+// Types
+// ============================================
+
+export type AttributionModel = (typeof ATTRIBUTION_MODELS)[number];
+
+export interface SourceAttribution {
+  source: string;
+  touchpoints: number; // clicks in the report period
+  conversions: number; // credited conversions (fractional for multi-touch models)
+  revenue: number; // revenue of conversions the source took part in
+  attributedRevenue: number;
+  avgTimeToConvert: number; // hours from the source's last touch to conversion
+  conversionRate: number;
+}
+
+export interface CampaignAttribution {
+  campaignId: string;
+  campaignName: string;
+  source: string;
+  clicks: number;
+  conversions: number;
+  revenue: number; // attributed revenue
+  commission: number; // attributed commission
+}
+
+export interface TouchpointPath {
+  path: string[]; // sources in order, repeats in a row collapsed
+  conversions: number;
+  revenue: number;
+  percentage: number;
+}
+
+export interface AttributionData {
+  sources: SourceAttribution[];
+  campaigns: CampaignAttribution[];
+  topPaths: TouchpointPath[];
+  totalConversions: number;
+  totalRevenue: number;
+}
+
+export type AttributionClick = Pick<ClickEvent, 'campaignId' | 'visitorId' | 'createdAt'>;
+
+export type AttributionReferral = Pick<
+  Referral,
+  'campaignId' | 'visitorId' | 'status' | 'orderAmountCents' | 'commissionCents' | 'clickedAt' | 'convertedAt' | 'createdAt'
+>;
+
+export type AttributionCampaign = Pick<Campaign, 'id' | 'name' | 'source'>;
+
+export interface Touchpoint {
+  campaignId: string | null;
+  source: string;
+  at: Date;
+}
+
+export interface ConversionPath {
+  touches: Touchpoint[]; // oldest first; never empty
+  convertedAt: Date;
+  revenueCents: number;
+  commissionCents: number;
+}
+
+// ============================================
+// Paths
+// ============================================
+
+/**
+ * Each converted referral's touchpoint path
+ * Clicks are matched on the referral's visitor id within `windowDays` before conversion
+ */
+export function buildConversionPaths(
+  referrals: AttributionReferral[],
+  clicks: AttributionClick[],
+  campaigns: AttributionCampaign[],
+  windowDays: number
+): ConversionPath[] {
+  const campaignsById = new Map(campaigns.map(c => [c.id, c]));
+  const sourceOf = (campaignId: string | null | undefined): string => {
+    const campaign = campaignId ? campaignsById.get(campaignId) : undefined;
+    return campaign ? SOURCE_LABELS[campaign.source] : DIRECT_SOURCE;
+  };
+
+  const clicksByVisitor = new Map<string, AttributionClick[]>();
+  for (const click of clicks) {
+    if (!click.visitorId) continue;
+    const visitorClicks = clicksByVisitor.get(click.visitorId) ?? [];
+    visitorClicks.push(click);
+    clicksByVisitor.set(click.visitorId, visitorClicks);
+  }
+
+  return referrals.filter(isConvertedReferral).map(referral => {
+    const convertedAt = referral.convertedAt as Date;
+    const windowStart = convertedAt.getTime() - windowDays * DAY_MS;
+
+    const touches: Touchpoint[] = (referral.visitorId ? clicksByVisitor.get(referral.visitorId) ?? [] : [])
+      .filter(c => c.createdAt.getTime() >= windowStart && c.createdAt <= convertedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(c => ({ campaignId: c.campaignId ?? null, source: sourceOf(c.campaignId), at: c.createdAt }));
+
+    if (touches.length === 0) {
+      touches.push({
+        campaignId: referral.campaignId ?? null,
+        source: sourceOf(referral.campaignId),
+        at: referral.clickedAt ?? referral.createdAt,
+      });
+    }
+
+    return {
+      touches,
+      convertedAt,
+      revenueCents: referral.orderAmountCents,
+      commissionCents: referral.commissionCents,
+    };
+  });
+}
+
+// ============================================
+// Models
+// ============================================
+
+/**
+ * Share of a conversion's credit each touch receives under a model (sums to 1)
+ */
+export function getTouchWeights(model: AttributionModel, touches: Pick<Touchpoint, 'at'>[], convertedAt: Date): number[] {
+  const count = touches.length;
+  if (count === 0) return [];
+
+  switch (model) {
+    case 'first_touch':
+      return touches.map((_, i) => (i === 0 ? 1 : 0));
+    case 'last_touch':
+      return touches.map((_, i) => (i === count - 1 ? 1 : 0));
+    case 'linear':
+      return touches.map(() => 1 / count);
+    case 'time_decay': {
+      const raw = touches.map(t =>
+        0.5 ** (Math.max(0, convertedAt.getTime() - t.at.getTime()) / (TIME_DECAY_HALF_LIFE_DAYS * DAY_MS))
+      );
+      const total = raw.reduce((sum, w) => sum + w, 0);
+      return raw.map(w => w / total);
+    }
+  }
+}
+
+/**
+ * Split whole cents by weight; rounding remainders go to the largest fractions
+ */
+export function splitCents(totalCents: number, weights: number[]): number[] {
+  const exact = weights.map(w => totalCents * w);
+  const shares = exact.map(Math.floor);
+  let remainder = totalCents - shares.reduce((sum, s) => sum + s, 0);
+
+  const byFraction = exact
+    .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { i } of byFraction) {
+    if (remainder <= 0) break;
+    shares[i] = (shares[i] ?? 0) + 1;
+    remainder--;
+  }
+  return shares;
+}
+
+// ============================================
+// Report
+// ============================================
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function collapsePath(touches: Touchpoint[]): string[] {
+  return touches
+    .map(t => t.source)
+    .filter((source, i, sources) => i === 0 || sources[i - 1] !== source);
+}
+
+/**
+ * Build the attribution report from conversion paths
+ * `clicks` are the period's clicks, counted as touchpoints per source and campaign
+ */
+export function buildAttribution(
+  model: AttributionModel,
+  paths: ConversionPath[],
+  clicks: AttributionClick[],
+  campaigns: AttributionCampaign[]
+): AttributionData {
+  const campaignsById = new Map(campaigns.map(c => [c.id, c]));
+  const sourceOf = (campaignId: string | null | undefined): string => {
+    const campaign = campaignId ? campaignsById.get(campaignId) : undefined;
+    return campaign ? SOURCE_LABELS[campaign.source] : DIRECT_SOURCE;
+  };
+
+  const sources = new Map<string, SourceAttribution & { hoursToConvert: number[] }>();
+  const sourceFor = (source: string) => {
+    let entry = sources.get(source);
+    if (!entry) {
+      entry = {
+        source,
+        touchpoints: 0,
+        conversions: 0,
+        revenue: 0,
+        attributedRevenue: 0,
+        avgTimeToConvert: 0,
+        conversionRate: 0,
+        hoursToConvert: [],
+      };
+      sources.set(source, entry);
+    }
+    return entry;
+  };
+
+  const campaignStats = new Map<string, CampaignAttribution>();
+  const campaignFor = (campaignId: string) => {
+    let entry = campaignStats.get(campaignId);
+    if (!entry) {
+      const campaign = campaignsById.get(campaignId);
+      entry = {
+        campaignId,
+        campaignName: campaign?.name ?? 'Unknown campaign',
+        source: sourceOf(campaignId),
+        clicks: 0,
+        conversions: 0,
+        revenue: 0,
+        commission: 0,
+      };
+      campaignStats.set(campaignId, entry);
+    }
+    return entry;
+  };
+
+  for (const click of clicks) {
+    sourceFor(sourceOf(click.campaignId)).touchpoints++;
+    if (click.campaignId) campaignFor(click.campaignId).clicks++;
+  }
+
+  const pathStats = new Map<string, TouchpointPath>();
+  let totalRevenue = 0;
+
+  for (const path of paths) {
+    totalRevenue += path.revenueCents;
+
+    const weights = getTouchWeights(model, path.touches, path.convertedAt);
+    const revenueShares = splitCents(path.revenueCents, weights);
+    const commissionShares = splitCents(path.commissionCents, weights);
+
+    path.touches.forEach((touch, i) => {
+      const source = sourceFor(touch.source);
+      source.conversions += weights[i] ?? 0;
+      source.attributedRevenue += revenueShares[i] ?? 0;
+
+      if (touch.campaignId) {
+        const campaign = campaignFor(touch.campaignId);
+        campaign.conversions += weights[i] ?? 0;
+        campaign.revenue += revenueShares[i] ?? 0;
+        campaign.commission += commissionShares[i] ?? 0;
+      }
+    });
+
+    // Full revenue and time to convert count once per source in the path
+    const lastTouchBySource = new Map(path.touches.map(t => [t.source, t.at]));
+    for (const [name, at] of lastTouchBySource) {
+      const source = sourceFor(name);
+      source.revenue += path.revenueCents;
+      source.hoursToConvert.push((path.convertedAt.getTime() - at.getTime()) / HOUR_MS);
+    }
+
+    const sequence = collapsePath(path.touches);
+    const key = sequence.join(' > ');
+    const entry = pathStats.get(key) ?? { path: sequence, conversions: 0, revenue: 0, percentage: 0 };
+    entry.conversions++;
+    entry.revenue += path.revenueCents;
+    pathStats.set(key, entry);
+  }
+
+  return {
+    sources: Array.from(sources.values())
+      .map(({ hoursToConvert, ...source }) => ({
+        ...source,
+        conversions: round(source.conversions, 2),
+        avgTimeToConvert: hoursToConvert.length > 0
+          ? Math.round(hoursToConvert.reduce((sum, h) => sum + h, 0) / hoursToConvert.length)
+          : 0,
+        conversionRate: source.touchpoints > 0 ? round((source.conversions / source.touchpoints) * 100, 1) : 0,
+      }))
+      .sort((a, b) => b.attributedRevenue - a.attributedRevenue || b.touchpoints - a.touchpoints),
+    campaigns: Array.from(campaignStats.values())
+      .map(campaign => ({ ...campaign, conversions: round(campaign.conversions, 2) }))
+      .sort((a, b) => b.revenue - a.revenue || b.clicks - a.clicks),
+    topPaths: Array.from(pathStats.values())
+      .map(entry => ({ ...entry, percentage: round((entry.conversions / paths.length) * 100, 1) }))
+      .sort((a, b) => b.conversions - a.conversions || b.revenue - a.revenue)
+      .slice(0, TOP_PATHS),
+    totalConversions: paths.length,
+    totalRevenue,
+  };
+}
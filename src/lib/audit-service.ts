@@ -0,0 +1,81 @@
+/**
+ * Audit Service
+ * Records admin mutations and payout state transitions in the audit log
+ */
+
+import { getAuditLogRepository, type AuditLogFilter } from './repositories';
+import { diffChanges, type AuditContext } from './audit';
+import { logger } from './monitoring';
+import type { AuditChanges, AuditLogEntry, AuditTargetType } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AuditEvent {
+  action: string;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  // Diffed into field-level changes; pass null before for creations, after for deletions
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Append an entry to the audit log
+ * Never throws: the change it records has already been made
+ */
+export async function recordAuditEvent(
+  context: AuditContext,
+  event: AuditEvent
+): Promise<AuditLogEntry | null> {
+  const changes: AuditChanges = diffChanges(event.before, event.after);
+
+  try {
+    return await getAuditLogRepository().append({
+      actorType: context.actorType,
+      actorId: context.actorId,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      changes,
+      metadata: event.metadata ?? null,
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  } catch (error) {
+    logger.error('[AuditService] Failed to record audit event', error, {
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId,
+      actorId: context.actorId,
+    });
+    return null;
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Audit log entries matching a filter, newest first
+ */
+export async function listAuditLog(
+  filter: AuditLogFilter,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const repo = getAuditLogRepository();
+  const [entries, total] = await Promise.all([
+    repo.findMany(filter, options),
+    repo.count(filter),
+  ]);
+
+  return { entries, total };
+}
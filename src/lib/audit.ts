@@ -0,0 +1,142 @@
+/**
+ * Audit Log
+ * Change diffs, request context and query validation for the audit log
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { AuditActorType, AuditChanges, AuditTargetType } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = [
+  'PARTNER',
+  'APPLICATION',
+  'INVITE_CODE',
+  'PAYOUT',
+  'PAYOUT_RUN',
+  'COMMISSION_RULE',
+  'PROGRAM_SETTING',
+  'WEBHOOK_ENDPOINT',
+];
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+// Recorded as changed, but never with their values
+const REDACTED_FIELDS = new Set(['secret', 'keyHash']);
+
+const REDACTED = '[redacted]';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Who made a change, and the request it came in on
+ */
+export interface AuditContext {
+  actorType: AuditActorType;
+  actorId: string | null;
+  requestId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// ============================================
+// Context
+// ============================================
+
+/**
+ * Context of a change made through an API request
+ * Uses the platform's request id when there is one
+ */
+export function getRequestAuditContext(
+  request: Request,
+  actorId: string | null,
+  actorType: AuditActorType = 'ADMIN'
+): AuditContext {
+  const headers = request.headers;
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+
+  return {
+    actorType,
+    actorId,
+    requestId: headers.get('x-request-id') ?? headers.get('x-vercel-id') ?? `req_${randomUUID()}`,
+    ipAddress: forwardedFor || headers.get('x-real-ip') || null,
+    userAgent: headers.get('user-agent'),
+  };
+}
+
+/**
+ * Context of a change made by a background job or webhook
+ */
+export function systemAuditContext(source: string): AuditContext {
+  return {
+    actorType: 'SYSTEM',
+    actorId: source,
+    requestId: null,
+    ipAddress: null,
+    userAgent: null,
+  };
+}
+
+// ============================================
+// Diffs
+// ============================================
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields that differ between two versions of a record
+ * Pass null as `before` for creations and as `after` for deletions
+ */
+export function diffChanges(
+  before: object | null | undefined,
+  after: object | null | undefined
+): AuditChanges {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const beforeValue = normalizeValue(beforeRecord[field]);
+    const afterValue = normalizeValue(afterRecord[field]);
+    if (isEqualValue(beforeValue, afterValue)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: beforeValue === null ? null : REDACTED, after: afterValue === null ? null : REDACTED }
+      : { before: beforeValue, after: afterValue };
+  }
+
+  return changes;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export const auditLogQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES as [AuditTargetType, ...AuditTargetType[]]).optional(),
+  targetId: z.string().min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
@@ -2,10 +2,20 @@
  * Authentication Middleware
  * Integrates with Clerk for production authentication
  * Falls back to mock auth for development without Clerk
+ * Partner API keys are accepted by authenticateRequest
  */
 
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { features } from './env';
+import { parseApiKeyHeader } from './api-keys';
+import { verifyApiKey } from './api-key-service';
+import {
+  checkRateLimit,
+  RateLimitConfigs,
+  shouldEnforceRateLimit,
+  type RateLimitResult,
+} from './rate-limit';
+import type { ApiKey, ApiKeyScope } from './db';
 
 // ============================================
 // Types
@@ -19,6 +29,7 @@ export interface AuthUser {
   role: UserRole;
   partnerId?: string;
   imageUrl?: string;
+  scopes?: ApiKeyScope[]; // set only for API key requests, which are limited to these
 }
 
 export type UserRole = 'PARTNER' | 'ADMIN' | 'SUPER_ADMIN';
@@ -27,6 +38,7 @@ export interface AuthResult {
   authenticated: boolean;
   user: AuthUser | null;
   error?: string;
+  rateLimit?: RateLimitResult; // set when an API key is over its rate limit
 }
 
 // ============================================
@@ -136,19 +148,84 @@ export async function requireAdmin(): Promise<AuthUser> {
   return user;
 }
 
+/**
+ * Require admin role for admin API routes - throws if not admin
+ * Returns the admin's id, or null when auth is not configured
+ */
+export async function requireAdminId(): Promise<string | null> {
+  if (!features.hasAuth) return null;
+
+  const user = await requireAdmin();
+  return user.id;
+}
+
+// ============================================
+// API Key Authentication
+// ============================================
+
+/**
+ * Whether a request presents a partner API key
+ */
+export function isApiKeyRequest(request: Request): boolean {
+  return parseApiKeyHeader(request.headers.get('authorization')) !== null;
+}
+
+function toApiKeyUser(apiKey: ApiKey): AuthUser {
+  return {
+    id: apiKey.id,
+    clerkId: '',
+    email: '',
+    name: apiKey.name,
+    role: 'PARTNER',
+    partnerId: apiKey.partnerId,
+    scopes: apiKey.scopes,
+  };
+}
+
+/**
+ * Authenticate a route handler request
+ * A partner API key (Authorization: Bearer icp_...) is used when present,
+ * rate limited per key; otherwise the Clerk session is
+ */
+export async function authenticateRequest(request?: Request): Promise<AuthResult> {
+  const key = request ? parseApiKeyHeader(request.headers.get('authorization')) : null;
+  if (!key) return getAuthUser();
+
+  const apiKey = await verifyApiKey(key);
+  if (!apiKey) {
+    return { authenticated: false, user: null, error: 'Invalid API key' };
+  }
+
+  if (shouldEnforceRateLimit()) {
+    const rateLimit = await checkRateLimit(apiKey.id, RateLimitConfigs.API_KEY);
+    if (!rateLimit.success) {
+      return { authenticated: false, user: null, error: 'API key rate limit exceeded', rateLimit };
+    }
+  }
+
+  return { authenticated: true, user: toApiKeyUser(apiKey) };
+}
+
 // ============================================
 // Authorization Helpers
 // ============================================
 
 /**
  * Check if user can access partner data
+ * API key users also need the scope the route requires; routes that
+ * name no scope are closed to API keys
  */
 export function canAccessPartnerData(
   user: AuthUser | null,
-  partnerId: string
+  partnerId: string,
+  scope?: ApiKeyScope
 ): boolean {
   if (!user) return false;
 
+  if (user.scopes) {
+    return user.partnerId === partnerId && scope !== undefined && user.scopes.includes(scope);
+  }
+
   // Admins can access all partner data
   if (user.role === 'ADMIN' || user.role === 'SUPER_ADMIN') {
     return true;
@@ -225,15 +302,3 @@ export class AuthError extends Error {
 export function isAuthError(error: unknown): error is AuthError {
   return error instanceof AuthError;
 }
-
-// ============================================
-// Legacy compatibility (for existing code)
-// ============================================
-
-/**
- * @deprecated Use getAuthUser() instead
- * Kept for backward compatibility with existing API routes
- */
-export async function authenticateRequest(): Promise<AuthResult> {
-  return getAuthUser();
-}
@@ -0,0 +1,157 @@
+/**
+ * Bandit Allocation
+ * Thompson sampling over share template variants
+ *
+ * Each variant's click-through rate gets a Beta(1 + clicks, 1 + misses)
+ * posterior. Drawing once from every posterior and counting how often each
+ * variant draws highest estimates the probability it is best; that becomes
+ * its traffic share, lifted so no variant falls below the exploration floor.
+ *
+ * A shared link can be clicked more often than it was rendered, so misses
+ * are floored at zero rather than letting clicks exceed impressions.
+ *
+ * This module is pure; allocations are recorded by experiment-service.ts.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+// Posterior draws per allocation; enough for shares within ~1%
+export const ALLOCATION_DRAWS = 10000;
+
+export const DEFAULT_EXPLORATION_FLOOR = 0.05;
+
+// ============================================
+// Types
+// ============================================
+
+// Returns a uniform value in [0, 1)
+export type RandomSource = () => number;
+
+export interface BanditArm {
+  id: string;
+  impressions: number;
+  clicks: number;
+}
+
+export interface BanditOptions {
+  explorationFloor: number;
+  draws?: number;
+  random?: RandomSource;
+}
+
+// ============================================
+// Sampling
+// ============================================
+
+/**
+ * Seeded mulberry32 generator, for reproducible allocations
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+function sampleStandardNormal(random: RandomSource): number {
+  // Box-Muller; 1 - u keeps the logarithm finite
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) sample (Marsaglia-Tsang)
+ */
+export function sampleGamma(shape: number, random: RandomSource): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleStandardNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: RandomSource): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+// ============================================
+// Allocation
+// ============================================
+
+/**
+ * Probability each arm has the highest click-through rate, in arm order
+ */
+export function thompsonShares(
+  arms: BanditArm[],
+  draws: number = ALLOCATION_DRAWS,
+  random: RandomSource = Math.random
+): number[] {
+  if (arms.length === 0) return [];
+
+  const wins = arms.map(() => 0);
+  for (let i = 0; i < draws; i++) {
+    let best = 0;
+    let bestDraw = -1;
+    arms.forEach((arm, index) => {
+      const draw = sampleBeta(1 + arm.clicks, 1 + Math.max(0, arm.impressions - arm.clicks), random);
+      if (draw > bestDraw) {
+        best = index;
+        bestDraw = draw;
+      }
+    });
+    wins[best] = (wins[best] ?? 0) + 1;
+  }
+
+  return wins.map(w => w / draws);
+}
+
+/**
+ * Give every arm at least `floor` of the traffic, scaling the rest
+ * Shares must sum to 1; the floor is capped at an equal split
+ */
+export function applyExplorationFloor(shares: number[], floor: number): number[] {
+  if (shares.length === 0) return [];
+
+  const cappedFloor = Math.min(Math.max(floor, 0), 1 / shares.length);
+  const remaining = 1 - cappedFloor * shares.length;
+  return shares.map(share => cappedFloor + remaining * share);
+}
+
+/**
+ * Equal traffic for every variant, used when a bandit starts
+ */
+export function equalAllocation(variantIds: string[]): Record<string, number> {
+  return Object.fromEntries(variantIds.map(id => [id, 1 / variantIds.length]));
+}
+
+/**
+ * Traffic share by variant id from the variants' results so far
+ */
+export function computeBanditAllocation(
+  arms: BanditArm[],
+  options: BanditOptions
+): Record<string, number> {
+  const shares = applyExplorationFloor(
+    thompsonShares(arms, options.draws, options.random),
+    options.explorationFloor
+  );
+  return Object.fromEntries(arms.map((arm, i) => [arm.id, shares[i] ?? 0]));
+}
@@ -0,0 +1,294 @@
+/**
+ * Clawback Service
+ * Reverses referral commissions when the customer's purchase is
+ * refunded or charged back
+ *
+ * The commission is always reversed in the partner's ledger, along with
+ * any override it earned the partner's recruiter. Beyond that:
+ * - Commission not yet paid out: the referral is marked REFUNDED and
+ *   its commission no longer counts towards the partner's balance
+ * - Commission already paid out: a negative balance adjustment is
+ *   created and deducted from the partner's next payout
+ *
+ * Commission in a payout that later fails was never paid, so the
+ * adjustments for it are cancelled when the payout's balance is released.
+ */
+
+import type Stripe from 'stripe';
+import {
+  getBalanceAdjustmentRepository,
+  getCampaignRepository,
+  getOverrideCommissionRepository,
+  getReferralRepository,
+} from './repositories';
+import { recordCommissionReversed } from './ledger-service';
+import { reverseRecruiterOverride } from './recruitment-service';
+import { recordConversionRollup } from './rollup-service';
+import { hashCustomerEmail } from './tracking';
+import { emitWebhookEvent } from './webhook-service';
+import { notifyPartner } from './notification-service';
+import { referralEventData } from './webhooks';
+import { logger } from './monitoring';
+import { formatCurrency } from './utils';
+import type { BalanceAdjustment, BalanceAdjustmentReason, Payout, Referral } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export type ClawbackErrorCode = 'REFERRAL_NOT_FOUND' | 'REFERRAL_NOT_CONVERTED';
+
+export type ClawbackReason = Extract<BalanceAdjustmentReason, 'REFUND' | 'CHARGEBACK'>;
+
+export interface ClawbackResult {
+  success: boolean;
+  duplicate?: boolean;
+  referral?: Referral;
+  adjustment?: BalanceAdjustment; // set when the commission was already paid out
+  error?: string;
+  errorCode?: ClawbackErrorCode;
+}
+
+const REASON_LABELS: Record<ClawbackReason, string> = {
+  REFUND: 'refund',
+  CHARGEBACK: 'chargeback',
+};
+
+// Adjustments that claw back a reversed commission or recruiter override
+const CLAWBACK_REASONS: BalanceAdjustmentReason[] = ['REFUND', 'CHARGEBACK', 'OVERRIDE'];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Whether a referral's commission has left the partner's unpaid balance
+ * Referrals attached to a payout count as paid even before it completes;
+ * if that payout fails, cancelPayoutClawbacks offsets the clawback
+ */
+export function isCommissionPaidOut(referral: Pick<Referral, 'status' | 'payoutId'>): boolean {
+  return referral.status === 'PAID' || Boolean(referral.payoutId);
+}
+
+/**
+ * Get the customer email Stripe recorded for a charge
+ */
+export function getChargeCustomerEmail(
+  charge: Pick<Stripe.Charge, 'billing_details' | 'receipt_email'>
+): string | null {
+  return charge.billing_details?.email ?? charge.receipt_email ?? null;
+}
+
+// ============================================
+// Reversal
+// ============================================
+
+/**
+ * Reverse a referral's commission
+ * Reversing an already refunded or cancelled referral is a no-op
+ */
+export async function reverseReferral(
+  referral: Referral,
+  reason: ClawbackReason,
+  occurredAt: Date = new Date()
+): Promise<ClawbackResult> {
+  if (referral.status === 'REFUNDED' || referral.status === 'CANCELLED') {
+    logger.info('[ClawbackService] Duplicate reversal', {
+      referralId: referral.id,
+      status: referral.status,
+    });
+    return { success: true, duplicate: true, referral };
+  }
+
+  if (referral.status === 'PENDING') {
+    return {
+      success: false,
+      error: 'Referral has not converted',
+      errorCode: 'REFERRAL_NOT_CONVERTED',
+    };
+  }
+
+  const paidOut = isCommissionPaidOut(referral);
+
+  const reversed = await getReferralRepository().update(referral.id, {
+    status: 'REFUNDED',
+    refundedAt: occurredAt,
+  });
+
+  if (!reversed) {
+    throw new Error(`Referral ${referral.id} disappeared during reversal`);
+  }
+
+  const description = `Commission reversed after a ${REASON_LABELS[reason]}`;
+  await recordCommissionReversed(referral, description);
+  await reverseRecruiterOverride(
+    referral,
+    `Override reversed after a ${REASON_LABELS[reason]}`,
+    occurredAt
+  );
+
+  if (referral.campaignId) {
+    await getCampaignRepository().incrementStats(referral.campaignId, {
+      conversions: -1,
+      revenue: -referral.orderAmountCents,
+    });
+  }
+  await recordConversionRollup(referral, -1);
+
+  const adjustment = paidOut && referral.commissionCents > 0
+    ? await getBalanceAdjustmentRepository().create({
+        partnerId: referral.partnerId,
+        referralId: referral.id,
+        amountCents: -referral.commissionCents,
+        reason,
+        description,
+      })
+    : undefined;
+
+  logger.info('[ClawbackService] Commission reversed', {
+    referralId: referral.id,
+    partnerId: referral.partnerId,
+    reason,
+    commissionCents: referral.commissionCents,
+    adjustmentId: adjustment?.id,
+  });
+
+  await notifyReversal(reversed, reason, paidOut);
+  await emitWebhookEvent('referral.refunded', reversed.partnerId, {
+    ...referralEventData(reversed),
+    reason,
+    clawbackCents: adjustment ? -adjustment.amountCents : 0,
+  });
+
+  return { success: true, referral: reversed, adjustment };
+}
+
+/**
+ * Reverse the referral for a customer, identified by email
+ */
+export async function reverseCustomerReferral(
+  customerEmail: string,
+  reason: ClawbackReason,
+  occurredAt?: Date
+): Promise<ClawbackResult> {
+  const referral = await getReferralRepository().findByCustomerHash(
+    hashCustomerEmail(customerEmail)
+  );
+
+  if (!referral) {
+    return {
+      success: false,
+      error: 'No referral found for this customer',
+      errorCode: 'REFERRAL_NOT_FOUND',
+    };
+  }
+
+  return reverseReferral(referral, reason, occurredAt);
+}
+
+/**
+ * Reverse the referral for a refunded or disputed Stripe charge
+ * Returns null when the charge has no customer email to match on
+ */
+export async function reverseStripeCharge(
+  charge: Stripe.Charge,
+  reason: ClawbackReason
+): Promise<ClawbackResult | null> {
+  const customerEmail = getChargeCustomerEmail(charge);
+
+  if (!customerEmail) {
+    logger.warn('[ClawbackService] Charge has no customer email', {
+      chargeId: charge.id,
+      reason,
+    });
+    return null;
+  }
+
+  return reverseCustomerReferral(customerEmail, reason);
+}
+
+/**
+ * Cancel the clawbacks for commission a failed or rejected payout never paid
+ * Referrals refunded and overrides reversed while in the payout were
+ * deducted again as adjustments; the payout debit is reversed on failure,
+ * so each outstanding clawback is offset by an equal positive adjustment
+ */
+export async function cancelPayoutClawbacks(
+  payout: Pick<Payout, 'id' | 'partnerId'>
+): Promise<BalanceAdjustment[]> {
+  const [referrals, overrides] = await Promise.all([
+    getReferralRepository().findByPayoutId(payout.id, { status: 'REFUNDED' }),
+    getOverrideCommissionRepository().findByPayoutId(payout.id, { status: 'REVERSED' }),
+  ]);
+  const referralIds = [...referrals.map(r => r.id), ...overrides.map(o => o.referralId)];
+  if (referralIds.length === 0) return [];
+
+  const repo = getBalanceAdjustmentRepository();
+  const clawbacks = (await repo.findByReferralIds(referralIds))
+    .filter(a => a.partnerId === payout.partnerId && CLAWBACK_REASONS.includes(a.reason));
+
+  // Net per referral and reason, so a payout failing twice cancels once
+  const outstanding = new Map<string, Pick<BalanceAdjustment, 'referralId' | 'reason' | 'amountCents'>>();
+  for (const adjustment of clawbacks) {
+    const key = `${adjustment.referralId}:${adjustment.reason}`;
+    const net = outstanding.get(key)?.amountCents ?? 0;
+    outstanding.set(key, { ...adjustment, amountCents: net + adjustment.amountCents });
+  }
+
+  const cancelled: BalanceAdjustment[] = [];
+  for (const { referralId, reason, amountCents } of outstanding.values()) {
+    if (amountCents >= 0) continue;
+    cancelled.push(await repo.create({
+      partnerId: payout.partnerId,
+      referralId,
+      amountCents: -amountCents,
+      reason,
+      description: 'Clawback cancelled because the payout with this commission failed',
+    }));
+  }
+
+  if (cancelled.length > 0) {
+    logger.info('[ClawbackService] Clawbacks cancelled for failed payout', {
+      payoutId: payout.id,
+      partnerId: payout.partnerId,
+      adjustments: cancelled.length,
+    });
+  }
+
+  return cancelled;
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Tell the partner their commission was reversed
+ * Failures are logged but never fail the reversal
+ */
+async function notifyReversal(
+  referral: Referral,
+  reason: ClawbackReason,
+  paidOut: boolean
+): Promise<void> {
+  if (referral.commissionCents <= 0) return;
+
+  try {
+    const amount = formatCurrency(referral.commissionCents);
+
+    await notifyPartner({
+      partnerId: referral.partnerId,
+      type: 'PAYOUT',
+      title: 'Commission Reversed',
+      message: paidOut
+        ? `A customer ${REASON_LABELS[reason]} reversed ${amount} in commission. It will be deducted from your next payout.`
+        : `A customer ${REASON_LABELS[reason]} reversed ${amount} in pending commission.`,
+      link: '/dashboard',
+    });
+  } catch (error) {
+    logger.error('[ClawbackService] Failed to send reversal notification', error, {
+      partnerId: referral.partnerId,
+      referralId: referral.id,
+    });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Commission Service
+ * Loads the configured commission rules and evaluates them
+ *
+ * Single entry point for commission amounts and rates used by
+ * conversion ingestion, partner stats and emails, and for the
+ * override recruiters earn on their recruits' commission.
+ */
+
+import { getCommissionRuleRepository } from './repositories';
+import {
+  calculateOverride,
+  evaluateCommission,
+  getHeadlineCommissionRate,
+  type CommissionResult,
+  type OverrideResult,
+} from './commissions';
+import { getRecruitmentSettings } from './program-settings';
+import { logger } from './monitoring';
+import type { CampaignSource, CommissionRule, Partner, PartnerTier } from './db';
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Get all active commission rules
+ */
+export async function getActiveCommissionRules(): Promise<CommissionRule[]> {
+  return getCommissionRuleRepository().findAll({ isActive: true });
+}
+
+// ============================================
+// Calculation
+// ============================================
+
+export interface CommissionOrder {
+  orderAmountCents: number;
+  source?: CampaignSource | null;
+  occurredAt?: Date;
+}
+
+/**
+ * Calculate the commission for a partner's order
+ */
+export async function calculateCommission(
+  partner: Pick<Partner, 'id' | 'tier'>,
+  order: CommissionOrder
+): Promise<CommissionResult> {
+  const rules = await getActiveCommissionRules();
+  const result = evaluateCommission(rules, {
+    partnerId: partner.id,
+    tier: partner.tier,
+    source: order.source ?? null,
+    orderAmountCents: order.orderAmountCents,
+    occurredAt: order.occurredAt,
+  });
+
+  if (!result.ruleId) {
+    logger.warn('[CommissionService] No commission rule matched', {
+      partnerId: partner.id,
+      tier: partner.tier,
+      source: order.source,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Get a partner's headline commission rate (fraction)
+ * Partner overrides apply when an id is given
+ */
+export async function getPartnerCommissionRate(
+  partner: { id?: string; tier: PartnerTier }
+): Promise<number> {
+  return getHeadlineCommissionRate(await getActiveCommissionRules(), partner);
+}
+
+/**
+ * Calculate the override a recruit's recruiter earns on a commission
+ * Null when the recruit has no recruiter or the override window has closed
+ */
+export async function calculateRecruiterOverride(
+  recruit: Pick<Partner, 'recruitedById' | 'recruitedAt'>,
+  commissionCents: number,
+  occurredAt?: Date
+): Promise<OverrideResult | null> {
+  return calculateOverride(await getRecruitmentSettings(), recruit, commissionCents, occurredAt);
+}
@@ -0,0 +1,364 @@
+/**
+ * Commission Rules Engine
+ * Evaluates configurable commission rules for a conversion
+ *
+ * Rules match on partner tier, campaign source, order amount band and
+ * date range, and pay a flat amount, a percentage or tiered percentages.
+ * Rules with a partnerId override the global rules for that partner.
+ *
+ * Recruiters also earn an override: a share of the commission of the
+ * partners they recruited, for a period after each recruit joined.
+ *
+ * This module is pure; rules are loaded by commission-service.ts.
+ */
+
+import { z } from 'zod';
+import { campaignSourceSchema } from './utils';
+import type {
+  CampaignSource,
+  CommissionBand,
+  CommissionRule,
+  PartnerTier,
+} from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Default commission rates by tier (fraction of order amount)
+// Used to seed the tier rules; edit the rules to change live rates
+export const DEFAULT_TIER_COMMISSION_RATES: Record<PartnerTier, number> = {
+  STANDARD: 0.15,
+  SILVER: 0.18,
+  GOLD: 0.22,
+  PLATINUM: 0.25,
+};
+
+// Order amount used to express any rule as a headline rate ($100)
+export const REFERENCE_ORDER_CENTS = 10000;
+
+// Used until an admin saves recruitment settings
+export const DEFAULT_RECRUITMENT_SETTINGS: RecruitmentSettings = {
+  overrideRate: 0.05,
+  overrideMonths: 12,
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface CommissionContext {
+  partnerId?: string;
+  tier: PartnerTier;
+  source?: CampaignSource | null;
+  orderAmountCents: number;
+  occurredAt?: Date;
+}
+
+export interface CommissionResult {
+  commissionCents: number;
+  commissionRate: number; // effective fraction of the order amount
+  ruleId: string | null;
+}
+
+export interface RecruitmentSettings {
+  overrideRate: number; // fraction of the recruit's commission paid to the recruiter
+  overrideMonths: number; // how long after recruitment the override is paid
+}
+
+export interface OverrideResult {
+  amountCents: number;
+  rate: number;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+const commissionBandSchema = z.object({
+  upToCents: z.number().int().positive().nullable(),
+  rate: z.number().min(0).max(1),
+});
+
+// Fields an admin can set on a rule; defaults are applied on create
+export const commissionRuleInputSchema = z.object({
+  name: z.string().trim().min(1, 'Rule name is required').max(100),
+  type: z.enum(['FLAT', 'PERCENTAGE', 'TIERED_PERCENTAGE']),
+  priority: z.number().int().min(-1000).max(1000),
+  isActive: z.boolean(),
+  partnerId: z.string().min(1).nullable(),
+  tiers: z.array(z.enum(['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'])),
+  sources: z.array(campaignSourceSchema),
+  minOrderCents: z.number().int().nonnegative().nullable(),
+  maxOrderCents: z.number().int().positive().nullable(),
+  startsAt: z.coerce.date().nullable(),
+  endsAt: z.coerce.date().nullable(),
+  flatAmountCents: z.number().int().nonnegative().nullable(),
+  rate: z.number().min(0).max(1).nullable(),
+  bands: z.array(commissionBandSchema).min(1).nullable(),
+});
+
+export type CommissionRuleInput = z.infer<typeof commissionRuleInputSchema>;
+
+export const recruitmentSettingsSchema = z.object({
+  overrideRate: z.number().min(0).max(0.5),
+  overrideMonths: z.number().int().min(0).max(120),
+});
+
+/**
+ * Check that a complete rule is internally consistent
+ * Returns an error message, or null when the rule is valid
+ */
+export function validateCommissionRule(
+  rule: Omit<CommissionRule, 'id' | 'createdAt' | 'updatedAt'>
+): string | null {
+  if (rule.type === 'FLAT' && rule.flatAmountCents == null) {
+    return 'flatAmountCents is required for FLAT rules';
+  }
+  if (rule.type === 'PERCENTAGE' && rule.rate == null) {
+    return 'rate is required for PERCENTAGE rules';
+  }
+  if (rule.type === 'TIERED_PERCENTAGE') {
+    if (!rule.bands || rule.bands.length === 0) {
+      return 'bands are required for TIERED_PERCENTAGE rules';
+    }
+    if (rule.bands.filter(b => b.upToCents === null).length > 1) {
+      return 'Only one band can be open-ended';
+    }
+  }
+  if (rule.minOrderCents != null && rule.maxOrderCents != null && rule.minOrderCents >= rule.maxOrderCents) {
+    return 'minOrderCents must be less than maxOrderCents';
+  }
+  if (rule.startsAt && rule.endsAt && rule.startsAt >= rule.endsAt) {
+    return 'startsAt must be before endsAt';
+  }
+  return null;
+}
+
+// ============================================
+// Rule Matching
+// ============================================
+
+/**
+ * Check whether a rule applies to a conversion
+ */
+export function ruleMatches(rule: CommissionRule, context: CommissionContext): boolean {
+  const occurredAt = context.occurredAt ?? new Date();
+
+  if (!rule.isActive) return false;
+  if (rule.partnerId && rule.partnerId !== context.partnerId) return false;
+  if (rule.tiers.length > 0 && !rule.tiers.includes(context.tier)) return false;
+  if (rule.sources.length > 0 && (!context.source || !rule.sources.includes(context.source))) return false;
+  if (rule.minOrderCents != null && context.orderAmountCents < rule.minOrderCents) return false;
+  if (rule.maxOrderCents != null && context.orderAmountCents >= rule.maxOrderCents) return false;
+  if (rule.startsAt && occurredAt < rule.startsAt) return false;
+  if (rule.endsAt && occurredAt >= rule.endsAt) return false;
+
+  return true;
+}
+
+/**
+ * Pick the rule for a conversion
+ * Partner overrides win over global rules, then higher priority, then newest
+ */
+export function selectCommissionRule(
+  rules: CommissionRule[],
+  context: CommissionContext
+): CommissionRule | null {
+  return rules
+    .filter(rule => ruleMatches(rule, context))
+    .sort((a, b) =>
+      Number(Boolean(b.partnerId)) - Number(Boolean(a.partnerId)) ||
+      b.priority - a.priority ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    )[0] ?? null;
+}
+
+// ============================================
+// Calculation
+// ============================================
+
+/**
+ * Apply tiered percentage bands to an order amount
+ * Each band's rate applies only to the portion of the order inside it
+ */
+function applyBands(bands: CommissionBand[], orderAmountCents: number): number {
+  const sorted = [...bands].sort(
+    (a, b) => (a.upToCents ?? Infinity) - (b.upToCents ?? Infinity)
+  );
+
+  let commission = 0;
+  let lower = 0;
+
+  for (const band of sorted) {
+    const upper = Math.min(band.upToCents ?? Infinity, orderAmountCents);
+    if (upper > lower) {
+      commission += (upper - lower) * band.rate;
+    }
+    lower = Math.max(lower, band.upToCents ?? Infinity);
+    if (lower >= orderAmountCents) break;
+  }
+
+  return commission;
+}
+
+/**
+ * Calculate the commission a single rule pays for an order amount (integer cents)
+ */
+export function applyCommissionRule(rule: CommissionRule, orderAmountCents: number): number {
+  const amount = Math.max(0, orderAmountCents);
+
+  switch (rule.type) {
+    case 'FLAT':
+      return Math.max(0, rule.flatAmountCents ?? 0);
+    case 'PERCENTAGE':
+      return Math.round(amount * (rule.rate ?? 0));
+    case 'TIERED_PERCENTAGE':
+      return Math.round(applyBands(rule.bands ?? [], amount));
+  }
+}
+
+/**
+ * Evaluate the rules for a conversion
+ * Returns zero commission when no rule matches
+ */
+export function evaluateCommission(
+  rules: CommissionRule[],
+  context: CommissionContext
+): CommissionResult {
+  const rule = selectCommissionRule(rules, context);
+  if (!rule) {
+    return { commissionCents: 0, commissionRate: 0, ruleId: null };
+  }
+
+  const commissionCents = applyCommissionRule(rule, context.orderAmountCents);
+  const commissionRate = rule.type === 'PERCENTAGE'
+    ? rule.rate ?? 0
+    : context.orderAmountCents > 0
+      ? Math.round((commissionCents / context.orderAmountCents) * 10000) / 10000
+      : 0;
+
+  return { commissionCents, commissionRate, ruleId: rule.id };
+}
+
+/**
+ * Get a partner's headline commission rate
+ * The effective rate on a reference order with no campaign source
+ */
+export function getHeadlineCommissionRate(
+  rules: CommissionRule[],
+  partner: { id?: string; tier: PartnerTier },
+  now: Date = new Date()
+): number {
+  return evaluateCommission(rules, {
+    partnerId: partner.id,
+    tier: partner.tier,
+    source: null,
+    orderAmountCents: REFERENCE_ORDER_CENTS,
+    occurredAt: now,
+  }).commissionRate;
+}
+
+// ============================================
+// Recruitment Overrides
+// ============================================
+
+/**
+ * End of a recruiter's override window, in calendar months after recruitment
+ */
+export function getOverrideEndsAt(recruitedAt: Date, overrideMonths: number): Date {
+  const endsAt = new Date(recruitedAt);
+  endsAt.setUTCMonth(endsAt.getUTCMonth() + overrideMonths);
+  return endsAt;
+}
+
+/**
+ * Calculate a recruiter's override on a recruit's commission
+ * Returns null when the recruit has no recruiter or the window has closed
+ */
+export function calculateOverride(
+  settings: RecruitmentSettings,
+  recruit: { recruitedById?: string | null; recruitedAt?: Date | null },
+  commissionCents: number,
+  occurredAt: Date = new Date()
+): OverrideResult | null {
+  if (!recruit.recruitedById || !recruit.recruitedAt) return null;
+  if (occurredAt >= getOverrideEndsAt(recruit.recruitedAt, settings.overrideMonths)) return null;
+
+  const amountCents = Math.round(Math.max(0, commissionCents) * settings.overrideRate);
+  if (amountCents <= 0) return null;
+
+  return { amountCents, rate: settings.overrideRate };
+}
+
+// ============================================
+// Default Rules
+// ============================================
+
+/**
+ * Check if a rule is the plain percentage rule for a single tier
+ * These are the rates edited under Partner Tiers in admin settings
+ */
+export function isTierBaseRule(rule: CommissionRule, tier: PartnerTier): boolean {
+  return (
+    rule.type === 'PERCENTAGE' &&
+    !rule.partnerId &&
+    rule.tiers.length === 1 &&
+    rule.tiers[0] === tier &&
+    rule.sources.length === 0 &&
+    rule.minOrderCents == null &&
+    rule.maxOrderCents == null &&
+    !rule.startsAt &&
+    !rule.endsAt
+  );
+}
+
+/**
+ * Fill in defaults for a new rule
+ */
+export function buildCommissionRule(
+  input: Partial<CommissionRuleInput> & Pick<CommissionRuleInput, 'name' | 'type'>
+): Omit<CommissionRule, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    priority: 0,
+    isActive: true,
+    partnerId: null,
+    tiers: [],
+    sources: [],
+    minOrderCents: null,
+    maxOrderCents: null,
+    startsAt: null,
+    endsAt: null,
+    flatAmountCents: null,
+    rate: null,
+    bands: null,
+    ...input,
+  };
+}
+
+/**
+ * Build the default per-tier percentage rules
+ */
+export function buildDefaultCommissionRules(
+  now: Date = new Date()
+): CommissionRule[] {
+  return (Object.keys(DEFAULT_TIER_COMMISSION_RATES) as PartnerTier[]).map(tier => ({
+    id: `rule-tier-${tier.toLowerCase()}`,
+    name: `${tier.charAt(0)}${tier.slice(1).toLowerCase()} tier`,
+    type: 'PERCENTAGE',
+    priority: 0,
+    isActive: true,
+    partnerId: null,
+    tiers: [tier],
+    sources: [],
+    minOrderCents: null,
+    maxOrderCents: null,
+    startsAt: null,
+    endsAt: null,
+    flatAmountCents: null,
+    rate: DEFAULT_TIER_COMMISSION_RATES[tier],
+    bands: null,
+    createdAt: now,
+    updatedAt: now,
+  }));
+}
@@ -0,0 +1,390 @@
+/**
+ * Conversion Service
+ * Turns signup and purchase events reported by the product backend
+ * into Referral records, commissions and partner notifications
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  getCampaignRepository,
+  getPartnerRepository,
+  getReferralRepository,
+  getPartnerStats,
+} from './repositories';
+import { calculateCommission, getPartnerCommissionRate } from './commission-service';
+import { reverseCustomerReferral, type ClawbackErrorCode } from './clawback-service';
+import { recordCommissionEarned } from './ledger-service';
+import { creditRecruiterOverride } from './recruitment-service';
+import { recordConversionRollup, recordSignupRollup } from './rollup-service';
+import { creditExperimentConversion } from './experiment-service';
+import { hashCustomerEmail, parseAttributionToken } from './tracking';
+import type { ExperimentRef } from './experiments';
+import { sendConversionEmail } from './email-service';
+import { emitWebhookEvent } from './webhook-service';
+import { publishPartnerEvent } from './event-service';
+import { notifyPartner } from './notification-service';
+import { referralEventData } from './webhooks';
+import { logger } from './monitoring';
+import { formatCurrency } from './utils';
+import type { BalanceAdjustment, Partner, Referral } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONVERSION_API_SECRET = process.env.CONVERSION_API_SECRET;
+
+// Check if the conversion API is configured
+export const isConversionApiConfigured = Boolean(CONVERSION_API_SECRET);
+
+// Signed requests older than this are rejected (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const CONVERSION_SIGNATURE_HEADER = 'x-innercircle-signature';
+
+// ============================================
+// Types
+// ============================================
+
+export type ConversionEventType = 'signup' | 'purchase' | 'refund' | 'chargeback';
+
+export interface ConversionEvent {
+  type: ConversionEventType;
+  customerEmail: string;
+  orderAmountCents?: number;
+  attributionToken?: string;
+  referralCode?: string;
+  occurredAt?: Date;
+}
+
+export type ConversionErrorCode =
+  | 'ATTRIBUTION_NOT_FOUND'
+  | 'PARTNER_NOT_FOUND'
+  | 'PARTNER_INACTIVE'
+  | 'SELF_REFERRAL'
+  | ClawbackErrorCode;
+
+export interface ConversionResult {
+  success: boolean;
+  duplicate?: boolean;
+  referral?: Referral;
+  adjustment?: BalanceAdjustment;
+  error?: string;
+  errorCode?: ConversionErrorCode;
+}
+
+interface ResolvedAttribution {
+  partnerId: string;
+  campaignId: string | null;
+  clickedAt: Date | null;
+  visitorId: string | null;
+  experiment: ExperimentRef | null;
+}
+
+// ============================================
+// Request Signing
+// ============================================
+
+/**
+ * Sign a conversion request body
+ * Header format: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}
+ */
+export function signConversionPayload(
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  secret: string | undefined = CONVERSION_API_SECRET
+): string {
+  if (!secret) {
+    throw new Error('CONVERSION_API_SECRET is not configured');
+  }
+
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a conversion request signature header
+ */
+export function verifyConversionSignature(
+  body: string,
+  header: string | null,
+  now: number = Math.floor(Date.now() / 1000),
+  secret: string | undefined = CONVERSION_API_SECRET
+): boolean {
+  if (!secret || !header) return false;
+
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// Attribution
+// ============================================
+
+async function resolveAttribution(
+  event: ConversionEvent
+): Promise<ResolvedAttribution | null> {
+  // A signed attribution token from the referral redirect wins
+  if (event.attributionToken) {
+    const payload = parseAttributionToken(event.attributionToken);
+    if (payload) {
+      return {
+        partnerId: payload.partnerId,
+        campaignId: payload.campaignId,
+        clickedAt: payload.clickedAt,
+        visitorId: payload.visitorId ?? null,
+        experiment: payload.experiment ?? null,
+      };
+    }
+    logger.warn('[ConversionService] Invalid or expired attribution token');
+  }
+
+  if (event.referralCode) {
+    const partner = await getPartnerRepository().findByReferralCode(
+      event.referralCode.trim().toUpperCase()
+    );
+    if (partner) {
+      return { partnerId: partner.id, campaignId: null, clickedAt: null, visitorId: null, experiment: null };
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+/**
+ * Ingest a conversion event
+ *
+ * - signup: creates a PENDING referral (no commission yet)
+ * - purchase: moves the customer's PENDING referral to CONVERTED,
+ *   creating it first if the signup was never reported, and credits
+ *   the partner's recruiter with an override (see recruitment-service.ts)
+ *   and the experiment variant the customer clicked (see experiment-service.ts)
+ * - refund / chargeback: reverses the customer's commission
+ *   (see clawback-service.ts)
+ *
+ * Customers are deduplicated on customerHash: the first partner to
+ * refer a customer keeps the attribution.
+ */
+export async function ingestConversion(
+  event: ConversionEvent
+): Promise<ConversionResult> {
+  if (event.type === 'refund' || event.type === 'chargeback') {
+    return reverseCustomerReferral(
+      event.customerEmail,
+      event.type === 'refund' ? 'REFUND' : 'CHARGEBACK',
+      event.occurredAt
+    );
+  }
+
+  const referralRepo = getReferralRepository();
+  const partnerRepo = getPartnerRepository();
+
+  const customerHash = hashCustomerEmail(event.customerEmail);
+  const existing = await referralRepo.findByCustomerHash(customerHash);
+
+  // Anything but a purchase on a pending referral is a duplicate
+  if (existing && (event.type === 'signup' || existing.status !== 'PENDING')) {
+    logger.info('[ConversionService] Duplicate conversion event', {
+      referralId: existing.id,
+      type: event.type,
+      status: existing.status,
+    });
+    return { success: true, duplicate: true, referral: existing };
+  }
+
+  const attribution: ResolvedAttribution | null = existing
+    ? {
+        partnerId: existing.partnerId,
+        campaignId: existing.campaignId ?? null,
+        clickedAt: existing.clickedAt ?? null,
+        visitorId: existing.visitorId ?? null,
+        experiment: existing.experimentId && existing.experimentVariant
+          ? { experimentId: existing.experimentId, variantId: existing.experimentVariant }
+          : null,
+      }
+    : await resolveAttribution(event);
+
+  if (!attribution) {
+    return {
+      success: false,
+      error: 'No valid attribution token or referral code',
+      errorCode: 'ATTRIBUTION_NOT_FOUND',
+    };
+  }
+
+  const partner = await partnerRepo.findById(attribution.partnerId);
+  if (!partner) {
+    return { success: false, error: 'Partner not found', errorCode: 'PARTNER_NOT_FOUND' };
+  }
+
+  if (partner.status !== 'ACTIVE') {
+    return { success: false, error: 'Partner is not active', errorCode: 'PARTNER_INACTIVE' };
+  }
+
+  if (hashCustomerEmail(partner.email) === customerHash) {
+    return { success: false, error: 'Partners cannot refer themselves', errorCode: 'SELF_REFERRAL' };
+  }
+
+  if (event.type === 'signup') {
+    const referral = await referralRepo.create({
+      partnerId: partner.id,
+      campaignId: attribution.campaignId,
+      status: 'PENDING',
+      customerHash,
+      visitorId: attribution.visitorId,
+      experimentId: attribution.experiment?.experimentId ?? null,
+      experimentVariant: attribution.experiment?.variantId ?? null,
+      orderAmountCents: 0,
+      commissionCents: 0,
+      commissionRate: await getPartnerCommissionRate(partner),
+      clickedAt: attribution.clickedAt,
+      convertedAt: null,
+      payoutId: null,
+    });
+    await recordSignupRollup(referral);
+
+    logger.info('[ConversionService] Signup recorded', {
+      referralId: referral.id,
+      partnerId: partner.id,
+    });
+
+    return { success: true, referral };
+  }
+
+  const campaignRepo = getCampaignRepository();
+  const attributedCampaign = attribution.campaignId
+    ? await campaignRepo.findById(attribution.campaignId)
+    : null;
+
+  const orderAmountCents = event.orderAmountCents ?? 0;
+  const convertedAt = event.occurredAt ?? new Date();
+  const { commissionCents, commissionRate } = await calculateCommission(partner, {
+    orderAmountCents,
+    source: attributedCampaign?.source,
+    occurredAt: convertedAt,
+  });
+
+  const converted = existing
+    ? await referralRepo.update(existing.id, {
+        status: 'CONVERTED',
+        orderAmountCents,
+        commissionCents,
+        commissionRate,
+        convertedAt,
+      })
+    : await referralRepo.create({
+        partnerId: partner.id,
+        campaignId: attribution.campaignId,
+        status: 'CONVERTED',
+        customerHash,
+        visitorId: attribution.visitorId,
+        experimentId: attribution.experiment?.experimentId ?? null,
+        experimentVariant: attribution.experiment?.variantId ?? null,
+        orderAmountCents,
+        commissionCents,
+        commissionRate,
+        clickedAt: attribution.clickedAt,
+        convertedAt,
+        payoutId: null,
+      });
+
+  if (!converted) {
+    throw new Error(`Referral ${existing?.id} disappeared during conversion`);
+  }
+
+  await recordCommissionEarned(converted);
+  await creditRecruiterOverride(partner, converted);
+
+  if (!existing) await recordSignupRollup(converted);
+  await recordConversionRollup(converted);
+  await creditExperimentConversion(converted);
+
+  const campaign = converted.campaignId
+    ? await campaignRepo.incrementStats(converted.campaignId, {
+        conversions: 1,
+        revenue: orderAmountCents,
+      })
+    : null;
+
+  logger.info('[ConversionService] Conversion recorded', {
+    referralId: converted.id,
+    partnerId: partner.id,
+    commissionCents,
+  });
+
+  await notifyConversion(partner, converted, campaign?.name);
+  await emitWebhookEvent('referral.converted', partner.id, referralEventData(converted));
+  await publishPartnerEvent(partner.id, 'conversion', referralEventData(converted));
+
+  return { success: true, referral: converted };
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Email the partner and create an in-app CONVERSION notification
+ * Failures are logged but never fail the ingestion
+ */
+async function notifyConversion(
+  partner: Partner,
+  referral: Referral,
+  campaignName?: string
+): Promise<void> {
+  try {
+    const referralRepo = getReferralRepository();
+    const [stats, convertedCount, paidCount] = await Promise.all([
+      getPartnerStats(partner.id),
+      referralRepo.countByPartnerId(partner.id, { status: 'CONVERTED' }),
+      referralRepo.countByPartnerId(partner.id, { status: 'PAID' }),
+    ]);
+
+    await sendConversionEmail({
+      partner,
+      campaignName,
+      commissionAmount: referral.commissionCents,
+      totalEarnings: stats.totalEarned + stats.availableBalance + stats.pendingPayout,
+      totalConversions: convertedCount + paidCount,
+    });
+
+    await notifyPartner({
+      partnerId: partner.id,
+      type: 'CONVERSION',
+      title: 'New Conversion!',
+      message: campaignName
+        ? `You earned ${formatCurrency(referral.commissionCents)} from your ${campaignName} campaign`
+        : `You earned ${formatCurrency(referral.commissionCents)} from a new referral`,
+      link: '/dashboard',
+    });
+  } catch (error) {
+    logger.error('[ConversionService] Failed to send conversion notifications', error, {
+      partnerId: partner.id,
+      referralId: referral.id,
+    });
+  }
+}
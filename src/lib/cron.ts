@@ -0,0 +1,37 @@
+/**
+ * Scheduled Jobs
+ * Authentication for /api/cron/* endpoints
+ *
+ * Schedulers (e.g. Vercel Cron) call the job endpoints with
+ * `Authorization: Bearer {CRON_SECRET}`.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Whether scheduled job endpoints are enabled
+export const isCronConfigured = Boolean(CRON_SECRET);
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Verify a scheduler's Authorization header
+ */
+export function verifyCronAuthorization(
+  header: string | null,
+  secret: string | undefined = CRON_SECRET
+): boolean {
+  if (!secret || !header?.startsWith('Bearer ')) return false;
+
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
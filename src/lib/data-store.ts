@@ -8,16 +8,73 @@ import type {
   Partner,
   Campaign,
   Referral,
+  ClickEvent,
   Payout,
   Milestone,
   Notification,
+  PushSubscription,
+  PartnerEvent,
   Experiment,
+  ExperimentAllocation,
+  ExperimentResult,
+  CommissionRule,
+  TierChange,
+  ProgramSetting,
+  BalanceAdjustment,
+  LedgerAccount,
+  LedgerEntry,
+  PayoutRun,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  ApiKey,
+  AuditLogEntry,
+  AuditTargetType,
+  ApplicationStatus,
+  PartnerApplication,
+  InviteCode,
+  InviteCodeRedemption,
+  OverrideCommission,
+  OverrideCommissionStatus,
+  DailyRollup,
   PartnerStatus,
   PartnerTier,
   ReferralStatus,
   PayoutStatus,
+  ExperimentStatus,
 } from './db';
 import { generateRandomString } from './utils';
+import { buildDefaultCommissionRules, getHeadlineCommissionRate } from './commissions';
+import {
+  computeEarningsBuckets,
+  DEFAULT_PAYOUT_SETTINGS,
+  toOverrideEarning,
+  type EarningOverride,
+} from './earnings';
+import {
+  buildLedgerEntries,
+  buildLedgerHistory,
+  isBalanced,
+  PARTNER_ACCOUNT,
+  totalLedgerEntries,
+  type LedgerTotals,
+  type NewLedgerEntry,
+} from './ledger';
+import { resolveTimeZone } from './analytics';
+import {
+  addRollupMetrics,
+  buildDailyRollups,
+  dailyRollupKey,
+  emptyRollupMetrics,
+  type NewDailyRollup,
+  type RollupDimensions,
+  type RollupMetrics,
+} from './rollups';
+import {
+  experimentResultKey,
+  getResultDay,
+  type ExperimentCounts,
+} from './experiments';
 
 // ============================================
 // Store Types
@@ -27,10 +84,30 @@ interface DataStore {
   partners: Map<string, Partner>;
   campaigns: Map<string, Campaign>;
   referrals: Map<string, Referral>;
+  clickEvents: Map<string, ClickEvent>;
   payouts: Map<string, Payout>;
   milestones: Map<string, Milestone>;
   notifications: Map<string, Notification>;
+  pushSubscriptions: Map<string, PushSubscription>; // by endpoint
+  partnerEvents: Map<number, PartnerEvent>;
   experiments: Map<string, Experiment>;
+  commissionRules: Map<string, CommissionRule>;
+  tierChanges: Map<string, TierChange>;
+  settings: Map<string, ProgramSetting>;
+  balanceAdjustments: Map<string, BalanceAdjustment>;
+  ledgerEntries: Map<string, LedgerEntry>;
+  payoutRuns: Map<string, PayoutRun>;
+  webhookEndpoints: Map<string, WebhookEndpoint>;
+  webhookDeliveries: Map<string, WebhookDelivery>;
+  apiKeys: Map<string, ApiKey>;
+  auditLog: Map<string, AuditLogEntry>;
+  applications: Map<string, PartnerApplication>;
+  inviteCodes: Map<string, InviteCode>;
+  inviteCodeRedemptions: Map<string, InviteCodeRedemption>;
+  overrideCommissions: Map<string, OverrideCommission>;
+  dailyRollups: Map<string, DailyRollup>; // by rollup key
+  experimentResults: Map<string, ExperimentResult>; // by result key
+  experimentAllocations: Map<string, ExperimentAllocation>;
 }
 
 // ============================================
@@ -41,10 +118,30 @@ const store: DataStore = {
   partners: new Map(),
   campaigns: new Map(),
   referrals: new Map(),
+  clickEvents: new Map(),
   payouts: new Map(),
   milestones: new Map(),
   notifications: new Map(),
+  pushSubscriptions: new Map(),
+  partnerEvents: new Map(),
   experiments: new Map(),
+  commissionRules: new Map(),
+  tierChanges: new Map(),
+  settings: new Map(),
+  balanceAdjustments: new Map(),
+  ledgerEntries: new Map(),
+  payoutRuns: new Map(),
+  webhookEndpoints: new Map(),
+  webhookDeliveries: new Map(),
+  apiKeys: new Map(),
+  auditLog: new Map(),
+  applications: new Map(),
+  inviteCodes: new Map(),
+  inviteCodeRedemptions: new Map(),
+  overrideCommissions: new Map(),
+  dailyRollups: new Map(),
+  experimentResults: new Map(),
+  experimentAllocations: new Map(),
 };
 
 // ============================================
@@ -179,6 +276,7 @@ const DEMO_REFERRALS: Omit<Referral, 'createdAt' | 'updatedAt'>[] = [
     campaignId: 'campaign-001',
     status: 'CONVERTED',
     customerHash: 'hash_abc123',
+    orderAmountCents: 227273,
     commissionCents: 50000,
     commissionRate: 0.22,
     clickedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
@@ -191,6 +289,7 @@ const DEMO_REFERRALS: Omit<Referral, 'createdAt' | 'updatedAt'>[] = [
     campaignId: 'campaign-002',
     status: 'PAID',
     customerHash: 'hash_def456',
+    orderAmountCents: 204545,
     commissionCents: 45000,
     commissionRate: 0.22,
     clickedAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000),
@@ -203,6 +302,7 @@ const DEMO_REFERRALS: Omit<Referral, 'createdAt' | 'updatedAt'>[] = [
     campaignId: 'campaign-001',
     status: 'PENDING',
     customerHash: 'hash_ghi789',
+    orderAmountCents: 0,
     commissionCents: 0,
     commissionRate: 0.22,
     clickedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
@@ -215,12 +315,52 @@ const DEMO_REFERRALS: Omit<Referral, 'createdAt' | 'updatedAt'>[] = [
     campaignId: 'campaign-004',
     status: 'CONVERTED',
     customerHash: 'hash_jkl012',
+    orderAmountCents: 250000,
     commissionCents: 62500,
     commissionRate: 0.25,
     clickedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
     convertedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
     payoutId: null,
   },
+  {
+    id: 'referral-005',
+    partnerId: 'partner-demo-123',
+    campaignId: 'campaign-002',
+    status: 'CONVERTED',
+    customerHash: 'hash_mno345',
+    orderAmountCents: 136364,
+    commissionCents: 30000,
+    commissionRate: 0.22,
+    clickedAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000),
+    convertedAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000),
+    payoutId: null,
+  },
+  {
+    id: 'referral-006',
+    partnerId: 'partner-demo-123',
+    campaignId: 'campaign-001',
+    status: 'CONVERTED',
+    customerHash: 'hash_pqr678',
+    orderAmountCents: 431818,
+    commissionCents: 95000,
+    commissionRate: 0.22,
+    clickedAt: new Date(Date.now() - 38 * 24 * 60 * 60 * 1000),
+    convertedAt: new Date(Date.now() - 35 * 24 * 60 * 60 * 1000),
+    payoutId: 'payout-002',
+  },
+  {
+    id: 'referral-007',
+    partnerId: 'partner-demo-456',
+    campaignId: 'campaign-004',
+    status: 'CONVERTED',
+    customerHash: 'hash_stu901',
+    orderAmountCents: 3120000,
+    commissionCents: 780000,
+    commissionRate: 0.25,
+    clickedAt: new Date(Date.now() - 50 * 24 * 60 * 60 * 1000),
+    convertedAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000),
+    payoutId: 'payout-003',
+  },
 ];
 
 const DEMO_PAYOUTS: Omit<Payout, 'requestedAt'>[] = [
@@ -228,9 +368,10 @@ const DEMO_PAYOUTS: Omit<Payout, 'requestedAt'>[] = [
     id: 'payout-001',
     partnerId: 'partner-demo-123',
     status: 'COMPLETED',
-    amountCents: 250000,
-    feeCents: 2500,
-    netCents: 247500,
+    amountCents: 45000,
+    feeCents: 450,
+    adjustmentCents: 0,
+    netCents: 44550,
     paymentMethod: 'bank_transfer',
     transactionId: 'txn_abc123xyz',
     processedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
@@ -242,6 +383,7 @@ const DEMO_PAYOUTS: Omit<Payout, 'requestedAt'>[] = [
     status: 'PENDING',
     amountCents: 95000,
     feeCents: 950,
+    adjustmentCents: 0,
     netCents: 94050,
     paymentMethod: null,
     transactionId: null,
@@ -254,6 +396,7 @@ const DEMO_PAYOUTS: Omit<Payout, 'requestedAt'>[] = [
     status: 'PROCESSING',
     amountCents: 780000,
     feeCents: 7800,
+    adjustmentCents: 0,
     netCents: 772200,
     paymentMethod: 'bank_transfer',
     transactionId: 'txn_pending_456',
@@ -305,6 +448,38 @@ const DEMO_MILESTONES: Omit<Milestone, 'achievedAt'>[] = [
   },
 ];
 
+const DEMO_TIER_CHANGES: Omit<TierChange, 'createdAt'>[] = [
+  {
+    id: 'tier-change-001',
+    partnerId: 'partner-demo-123',
+    fromTier: 'SILVER',
+    toTier: 'GOLD',
+    reason: 'AUTOMATIC',
+    conversions: 52,
+    revenueCents: 2600000,
+    changedBy: null,
+  },
+];
+
+// The launch codes, open to anyone who has one
+const DEMO_INVITE_CODES: Omit<InviteCode, 'createdAt' | 'updatedAt'>[] = [
+  'INNER2026',
+  'PARTNER100',
+  'EARLYBIRD',
+  'VIP2026',
+  'FOUNDER',
+].map(code => ({
+  id: `invite-${code.toLowerCase()}`,
+  code,
+  description: 'Launch invite code',
+  maxUses: null,
+  useCount: 0,
+  expiresAt: null,
+  defaultTier: 'STANDARD',
+  invitedByPartnerId: null,
+  isActive: true,
+}));
+
 const DEMO_NOTIFICATIONS: Omit<Notification, 'createdAt'>[] = [
   {
     id: 'notif-001',
@@ -351,96 +526,264 @@ const DEMO_NOTIFICATIONS: Omit<Notification, 'createdAt'>[] = [
 const DEMO_EXPERIMENTS: Omit<Experiment, 'createdAt' | 'updatedAt'>[] = [
   {
     id: 'exp-001',
-    name: 'Landing Page CTA',
-    description: 'Testing different CTA button colors',
+    partnerId: 'partner-demo-123',
+    name: 'LinkedIn Share Message',
+    description: 'Testing professional vs casual tone in LinkedIn shares',
     status: 'RUNNING',
-    variants: { control: 'blue', variant_a: 'green', variant_b: 'orange' },
+    variants: [
+      {
+        id: 'var-1a',
+        name: 'Professional (Control)',
+        content: 'Discover how leading companies are transforming their operations with Inner Circle: {link}',
+        isControl: true,
+      },
+      {
+        id: 'var-1b',
+        name: 'Casual & Personal',
+        content: 'Just found this amazing tool that\'s been a game-changer for me. Try it: {link}',
+        isControl: false,
+      },
+    ],
     targetRatio: 0.5,
+    allocationMode: 'FIXED',
+    explorationFloor: 0.05,
+    minSampleSize: 100,
+    confidenceLevel: 95,
     startedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
     endedAt: null,
   },
   {
     id: 'exp-002',
-    name: 'Commission Display',
-    description: 'Show commission rate vs dollar amount',
+    partnerId: 'partner-demo-123',
+    name: 'Email Subject Line',
+    description: 'Comparing question vs statement openers',
     status: 'COMPLETED',
-    variants: { control: 'percentage', variant_a: 'dollar_amount' },
+    variants: [
+      {
+        id: 'var-2a',
+        name: 'Statement (Control)',
+        content: 'This will change how you work: {link}',
+        isControl: true,
+      },
+      {
+        id: 'var-2b',
+        name: 'Question',
+        content: 'Want to 10x your productivity? {link}',
+        isControl: false,
+        isWinner: true,
+      },
+    ],
     targetRatio: 0.5,
+    allocationMode: 'FIXED',
+    explorationFloor: 0.05,
+    minSampleSize: 200,
+    confidenceLevel: 95,
     startedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-    endedAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000),
+    endedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+  },
+  {
+    id: 'exp-003',
+    partnerId: 'partner-demo-123',
+    name: 'WhatsApp Invite',
+    description: 'Letting the bandit find the best WhatsApp opener',
+    status: 'RUNNING',
+    variants: [
+      {
+        id: 'var-3a',
+        name: 'Direct (Control)',
+        content: 'I use Inner Circle every day. Sign up here: {link}',
+        isControl: true,
+        weight: 0.2,
+      },
+      {
+        id: 'var-3b',
+        name: 'Social Proof',
+        content: 'Half my team switched to Inner Circle this month. See why: {link}',
+        isControl: false,
+        weight: 0.65,
+      },
+      {
+        id: 'var-3c',
+        name: 'Discount',
+        content: 'Here\'s a link for a discount on Inner Circle: {link}',
+        isControl: false,
+        weight: 0.15,
+      },
+    ],
+    targetRatio: 0.5,
+    allocationMode: 'BANDIT',
+    explorationFloor: 0.05,
+    minSampleSize: 100,
+    confidenceLevel: 95,
+    startedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+    endedAt: null,
   },
 ];
 
+// Totals per variant, counted on the experiment's start day
+const DEMO_EXPERIMENT_RESULTS: Pick<ExperimentResult, 'experimentId' | 'variant' | 'impressions' | 'clicks' | 'conversions'>[] = [
+  { experimentId: 'exp-001', variant: 'var-1a', impressions: 450, clicks: 45, conversions: 12 },
+  { experimentId: 'exp-001', variant: 'var-1b', impressions: 438, clicks: 62, conversions: 18 },
+  { experimentId: 'exp-002', variant: 'var-2a', impressions: 520, clicks: 78, conversions: 15 },
+  { experimentId: 'exp-002', variant: 'var-2b', impressions: 515, clicks: 103, conversions: 24 },
+  { experimentId: 'exp-003', variant: 'var-3a', impressions: 220, clicks: 18, conversions: 4 },
+  { experimentId: 'exp-003', variant: 'var-3b', impressions: 260, clicks: 34, conversions: 9 },
+  { experimentId: 'exp-003', variant: 'var-3c', impressions: 180, clicks: 12, conversions: 2 },
+];
+
+// Daily bandit allocations since the experiment started
+const DEMO_EXPERIMENT_ALLOCATIONS: { experimentId: string; daysAgo: number; weights: Record<string, number> }[] = [
+  { experimentId: 'exp-003', daysAgo: 3, weights: { 'var-3a': 1 / 3, 'var-3b': 1 / 3, 'var-3c': 1 / 3 } },
+  { experimentId: 'exp-003', daysAgo: 2, weights: { 'var-3a': 0.3, 'var-3b': 0.42, 'var-3c': 0.28 } },
+  { experimentId: 'exp-003', daysAgo: 1, weights: { 'var-3a': 0.2, 'var-3b': 0.65, 'var-3c': 0.15 } },
+];
+
 // ============================================
 // Seed Function
 // ============================================
 
-let isSeeded = false;
+export interface SeedData {
+  partners: Partner[];
+  campaigns: Campaign[];
+  referrals: Referral[];
+  payouts: Payout[];
+  milestones: Milestone[];
+  notifications: Notification[];
+  experiments: Experiment[];
+  experimentResults: ExperimentResult[];
+  experimentAllocations: ExperimentAllocation[];
+  commissionRules: CommissionRule[];
+  tierChanges: TierChange[];
+  ledgerEntries: LedgerEntry[];
+  inviteCodes: InviteCode[];
+  dailyRollups: DailyRollup[];
+}
 
-export function seedStore(): void {
-  if (isSeeded) return;
-  
-  const now = new Date();
-  
-  // Seed partners
-  DEMO_PARTNERS.forEach(p => {
-    store.partners.set(p.id, {
+/**
+ * Post the demo referrals and payouts to the ledger
+ */
+function buildSeedLedger(referrals: Referral[], payouts: Payout[]): LedgerEntry[] {
+  return buildLedgerHistory({ referrals, payouts, adjustments: [] }).flatMap((posting, i) =>
+    buildLedgerEntries([posting]).map((entry, j) => ({
+      ...entry,
+      id: `ledger-seed-${i + 1}-${j + 1}`,
+      transactionId: `ledger-txn-seed-${i + 1}`,
+      createdAt: entry.createdAt ?? new Date(),
+    }))
+  );
+}
+
+/**
+ * Roll up the demo referrals by day in each partner's time zone
+ */
+function buildSeedRollups(
+  partners: Pick<Partner, 'id' | 'timezone'>[],
+  campaigns: Campaign[],
+  referrals: Referral[],
+  now: Date
+): DailyRollup[] {
+  return partners
+    .flatMap(p => buildDailyRollups(p.id, resolveTimeZone(p.timezone), {
+      clicks: [],
+      referrals: referrals.filter(r => r.partnerId === p.id),
+      campaigns,
+    }))
+    .map((rollup, i) => ({ ...rollup, id: `rollup-seed-${i + 1}`, key: dailyRollupKey(rollup), updatedAt: now }));
+}
+
+/**
+ * Build the demo data set with timestamps relative to `now`
+ * Shared by the in-memory store and `seedDatabase`
+ */
+export function buildSeedData(now: Date = new Date()): SeedData {
+  const referrals = DEMO_REFERRALS.map(r => ({
+    ...r,
+    createdAt: r.clickedAt ?? now,
+    updatedAt: now,
+  }));
+  const payouts = DEMO_PAYOUTS.map(p => ({
+    ...p,
+    requestedAt: p.processedAt ?? new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000),
+  }));
+  const campaigns = DEMO_CAMPAIGNS.map(c => ({
+    ...c,
+    createdAt: new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000),
+    updatedAt: now,
+  }));
+
+  return {
+    partners: DEMO_PARTNERS.map(p => ({
       ...p,
       createdAt: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000),
       updatedAt: now,
-    });
-  });
-  
-  // Seed campaigns
-  DEMO_CAMPAIGNS.forEach(c => {
-    store.campaigns.set(c.id, {
-      ...c,
-      createdAt: new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000),
-      updatedAt: now,
-    });
-  });
-  
-  // Seed referrals
-  DEMO_REFERRALS.forEach(r => {
-    store.referrals.set(r.id, {
-      ...r,
-      createdAt: r.clickedAt ?? now,
-      updatedAt: now,
-    });
-  });
-  
-  // Seed payouts
-  DEMO_PAYOUTS.forEach(p => {
-    store.payouts.set(p.id, {
-      ...p,
-      requestedAt: p.processedAt ?? new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000),
-    });
-  });
-  
-  // Seed milestones
-  DEMO_MILESTONES.forEach(m => {
-    store.milestones.set(m.id, {
+    })),
+    campaigns,
+    referrals,
+    payouts,
+    milestones: DEMO_MILESTONES.map(m => ({
       ...m,
       achievedAt: new Date(now.getTime() - Math.random() * 60 * 24 * 60 * 60 * 1000),
-    });
-  });
-  
-  // Seed notifications
-  DEMO_NOTIFICATIONS.forEach(n => {
-    store.notifications.set(n.id, {
+    })),
+    notifications: DEMO_NOTIFICATIONS.map(n => ({
       ...n,
       createdAt: new Date(now.getTime() - Math.random() * 7 * 24 * 60 * 60 * 1000),
-    });
-  });
-  
-  // Seed experiments
-  DEMO_EXPERIMENTS.forEach(e => {
-    store.experiments.set(e.id, {
+    })),
+    experiments: DEMO_EXPERIMENTS.map(e => ({
       ...e,
       createdAt: e.startedAt ?? now,
       updatedAt: now,
-    });
-  });
+    })),
+    experimentResults: DEMO_EXPERIMENT_RESULTS.map((r, i) => {
+      const startedAt = DEMO_EXPERIMENTS.find(e => e.id === r.experimentId)?.startedAt ?? now;
+      return {
+        ...r,
+        id: `exp-result-seed-${i + 1}`,
+        key: experimentResultKey(r.experimentId, r.variant, startedAt),
+        recordedAt: getResultDay(startedAt),
+      };
+    }),
+    experimentAllocations: DEMO_EXPERIMENT_ALLOCATIONS.map((a, i) => ({
+      id: `exp-allocation-seed-${i + 1}`,
+      experimentId: a.experimentId,
+      weights: a.weights,
+      createdAt: new Date(now.getTime() - a.daysAgo * 24 * 60 * 60 * 1000),
+    })),
+    commissionRules: buildDefaultCommissionRules(new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)),
+    tierChanges: DEMO_TIER_CHANGES.map(t => ({
+      ...t,
+      createdAt: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+    })),
+    ledgerEntries: buildSeedLedger(referrals, payouts),
+    inviteCodes: DEMO_INVITE_CODES.map(c => ({
+      ...c,
+      createdAt: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000),
+      updatedAt: now,
+    })),
+    dailyRollups: buildSeedRollups(DEMO_PARTNERS, campaigns, referrals, now),
+  };
+}
+
+let isSeeded = false;
+
+export function seedStore(): void {
+  if (isSeeded) return;
+  
+  const seed = buildSeedData();
+  
+  seed.partners.forEach(p => store.partners.set(p.id, p));
+  seed.campaigns.forEach(c => store.campaigns.set(c.id, c));
+  seed.referrals.forEach(r => store.referrals.set(r.id, r));
+  seed.payouts.forEach(p => store.payouts.set(p.id, p));
+  seed.milestones.forEach(m => store.milestones.set(m.id, m));
+  seed.notifications.forEach(n => store.notifications.set(n.id, n));
+  seed.experiments.forEach(e => store.experiments.set(e.id, e));
+  seed.experimentResults.forEach(r => store.experimentResults.set(r.key, r));
+  seed.experimentAllocations.forEach(a => store.experimentAllocations.set(a.id, a));
+  seed.commissionRules.forEach(r => store.commissionRules.set(r.id, r));
+  seed.tierChanges.forEach(t => store.tierChanges.set(t.id, t));
+  seed.ledgerEntries.forEach(e => store.ledgerEntries.set(e.id, e));
+  seed.inviteCodes.forEach(c => store.inviteCodes.set(c.id, c));
+  seed.dailyRollups.forEach(r => store.dailyRollups.set(r.key, r));
   
   isSeeded = true;
   console.log('[DataStore] Seeded with demo data');
@@ -454,8 +797,9 @@ export interface PartnerRepository {
   findById(id: string): Promise<Partner | null>;
   findByEmail(email: string): Promise<Partner | null>;
   findByReferralCode(code: string): Promise<Partner | null>;
-  findAll(options?: { status?: PartnerStatus; tier?: PartnerTier; limit?: number; offset?: number }): Promise<Partner[]>;
-  count(options?: { status?: PartnerStatus; tier?: PartnerTier }): Promise<number>;
+  findByStripeAccountId(accountId: string): Promise<Partner | null>;
+  findAll(options?: { status?: PartnerStatus; tier?: PartnerTier; recruitedById?: string; limit?: number; offset?: number }): Promise<Partner[]>;
+  count(options?: { status?: PartnerStatus; tier?: PartnerTier; recruitedById?: string }): Promise<number>;
   create(data: Omit<Partner, 'id' | 'createdAt' | 'updatedAt'>): Promise<Partner>;
   update(id: string, data: Partial<Omit<Partner, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Partner | null>;
   delete(id: string): Promise<boolean>;
@@ -463,6 +807,7 @@ export interface PartnerRepository {
 
 export interface CampaignRepository {
   findById(id: string): Promise<Campaign | null>;
+  findBySlug(partnerId: string, slug: string): Promise<Campaign | null>;
   findByPartnerId(partnerId: string, options?: { isActive?: boolean; limit?: number; offset?: number }): Promise<Campaign[]>;
   countByPartnerId(partnerId: string, options?: { isActive?: boolean }): Promise<number>;
   create(data: Omit<Campaign, 'id' | 'createdAt' | 'updatedAt' | 'clicks' | 'conversions' | 'revenue'>): Promise<Campaign>;
@@ -473,16 +818,51 @@ export interface CampaignRepository {
 
 export interface ReferralRepository {
   findById(id: string): Promise<Referral | null>;
+  findByCustomerHash(customerHash: string): Promise<Referral | null>;
   findByPartnerId(partnerId: string, options?: { status?: ReferralStatus; limit?: number; offset?: number }): Promise<Referral[]>;
   countByPartnerId(partnerId: string, options?: { status?: ReferralStatus }): Promise<number>;
+  // Converted referrals not yet in a payout, oldest conversion first
+  findPayable(partnerId: string, options?: { limit?: number }): Promise<Referral[]>;
+  findByPayoutId(payoutId: string, options?: { status?: ReferralStatus }): Promise<Referral[]>;
+  getConversionTotals(partnerId: string, options: { since: Date; until?: Date }): Promise<ConversionTotals>;
+  // Referrals created or converted in a range (since inclusive, until exclusive)
+  findInRange(partnerId: string, options: { since: Date; until: Date; limit?: number; offset?: number }): Promise<Referral[]>;
   create(data: Omit<Referral, 'id' | 'createdAt' | 'updatedAt'>): Promise<Referral>;
   update(id: string, data: Partial<Omit<Referral, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Referral | null>;
+  // Only unassigned converted referrals are linked; returns the number linked
+  assignToPayout(ids: string[], payoutId: string): Promise<number>;
+  // Makes a failed payout's referrals available again
+  releaseFromPayout(payoutId: string): Promise<number>;
+  // Marks a completed payout's converted referrals as paid
+  markPaidByPayoutId(payoutId: string): Promise<number>;
+}
+
+// Converted and paid referrals in a date range
+export interface ConversionTotals {
+  conversions: number;
+  revenueCents: number;
+}
+
+// A null campaignId matches clicks outside any campaign
+export interface ClickEventQuery {
+  campaignId?: string | null;
+  ipHash?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface ClickEventRepository {
+  findByPartnerId(partnerId: string, options?: ClickEventQuery & { limit?: number; offset?: number }): Promise<ClickEvent[]>;
+  countByPartnerId(partnerId: string, options?: ClickEventQuery): Promise<number>;
+  create(data: Omit<ClickEvent, 'id' | 'createdAt'>): Promise<ClickEvent>;
 }
 
 export interface PayoutRepository {
   findById(id: string): Promise<Payout | null>;
   findByPartnerId(partnerId: string, options?: { status?: PayoutStatus; limit?: number; offset?: number }): Promise<Payout[]>;
   countByPartnerId(partnerId: string, options?: { status?: PayoutStatus }): Promise<number>;
+  // Every partner's payouts requested in a range (since inclusive, until exclusive), newest first
+  findAll(options?: { status?: PayoutStatus; since?: Date; until?: Date; limit?: number; offset?: number }): Promise<Payout[]>;
   create(data: Omit<Payout, 'id' | 'requestedAt'>): Promise<Payout>;
   update(id: string, data: Partial<Omit<Payout, 'id' | 'requestedAt'>>): Promise<Payout | null>;
 }
@@ -494,6 +874,229 @@ export interface NotificationRepository {
   create(data: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification>;
   markAsRead(id: string): Promise<Notification | null>;
   markAllAsRead(partnerId: string): Promise<number>;
+  // Notifications waiting to be pushed, oldest first
+  findPushPending(options?: { limit?: number }): Promise<Notification[]>;
+  // Takes a notification off the push queue; false if it was already taken
+  claimPush(id: string): Promise<boolean>;
+}
+
+export interface PushSubscriptionRepository {
+  findByPartnerId(partnerId: string): Promise<PushSubscription[]>;
+  findByEndpoint(endpoint: string): Promise<PushSubscription | null>;
+  // Creates or replaces the subscription for its endpoint
+  upsert(data: Omit<PushSubscription, 'id' | 'createdAt' | 'lastUsedAt'>): Promise<PushSubscription>;
+  markUsed(id: string, at: Date): Promise<void>;
+  deleteByEndpoint(endpoint: string): Promise<boolean>;
+}
+
+export interface PartnerEventRepository {
+  // A partner's events after the given id, oldest first
+  findAfter(partnerId: string, afterId: number, options?: { limit?: number }): Promise<PartnerEvent[]>;
+  // Id of the partner's newest event, 0 if they have none
+  findLatestId(partnerId: string): Promise<number>;
+  create(data: Omit<PartnerEvent, 'id' | 'createdAt'>): Promise<PartnerEvent>;
+  deleteOlderThan(before: Date): Promise<number>;
+}
+
+export interface MilestoneRepository {
+  findByPartnerId(partnerId: string, options?: { limit?: number; offset?: number }): Promise<Milestone[]>;
+  upsert(data: Omit<Milestone, 'id'>): Promise<Milestone>;
+}
+
+export interface CommissionRuleRepository {
+  findById(id: string): Promise<CommissionRule | null>;
+  findAll(options?: { isActive?: boolean; partnerId?: string }): Promise<CommissionRule[]>;
+  create(data: Omit<CommissionRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<CommissionRule>;
+  update(id: string, data: Partial<Omit<CommissionRule, 'id' | 'createdAt' | 'updatedAt'>>): Promise<CommissionRule | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface TierChangeRepository {
+  findByPartnerId(partnerId: string, options?: { limit?: number; offset?: number }): Promise<TierChange[]>;
+  findRecent(options?: { limit?: number; offset?: number }): Promise<TierChange[]>;
+  create(data: Omit<TierChange, 'id' | 'createdAt'>): Promise<TierChange>;
+}
+
+export interface ProgramSettingRepository {
+  get(key: string): Promise<ProgramSetting | null>;
+  set(key: string, value: unknown): Promise<ProgramSetting>;
+}
+
+export interface BalanceAdjustmentRepository {
+  findByPartnerId(partnerId: string, options?: { outstanding?: boolean; limit?: number; offset?: number }): Promise<BalanceAdjustment[]>;
+  findByPayoutId(payoutId: string): Promise<BalanceAdjustment[]>;
+  findByReferralIds(referralIds: string[]): Promise<BalanceAdjustment[]>;
+  create(data: Omit<BalanceAdjustment, 'id' | 'createdAt' | 'payoutId' | 'appliedAt'>): Promise<BalanceAdjustment>;
+  // Only outstanding adjustments are applied; returns the number applied
+  applyToPayout(ids: string[], payoutId: string): Promise<number>;
+  // Makes a failed payout's adjustments outstanding again
+  releaseFromPayout(payoutId: string): Promise<number>;
+}
+
+export interface LedgerQuery {
+  account?: LedgerAccount; // all accounts when omitted
+  since?: Date; // inclusive
+  until?: Date; // exclusive
+}
+
+// Ledger entries are append-only: there is no update or delete
+export interface LedgerRepository {
+  // Oldest first, so statements can run a balance forward
+  findByPartnerId(partnerId: string, options?: LedgerQuery & { limit?: number; offset?: number }): Promise<LedgerEntry[]>;
+  findByReference(reference: { referralId?: string; payoutId?: string }): Promise<LedgerEntry[]>;
+  // Sum of the partner's entries on an account (partner balance by default)
+  getBalance(partnerId: string, options?: Omit<LedgerQuery, 'since'>): Promise<number>;
+  // Partner balance movements by entry type
+  getTotalsByType(partnerId: string): Promise<LedgerTotals>;
+  // Throws unless the entries sum to zero
+  createTransaction(entries: NewLedgerEntry[]): Promise<LedgerEntry[]>;
+}
+
+export interface PayoutRunRepository {
+  findById(id: string): Promise<PayoutRun | null>;
+  // Newest first
+  findRecent(options?: { limit?: number; offset?: number }): Promise<PayoutRun[]>;
+  findRunning(): Promise<PayoutRun | null>;
+  create(data: Pick<PayoutRun, 'trigger' | 'triggeredBy'>): Promise<PayoutRun>;
+  update(id: string, data: Partial<Omit<PayoutRun, 'id' | 'trigger' | 'startedAt'>>): Promise<PayoutRun | null>;
+}
+
+export interface WebhookEndpointRepository {
+  findById(id: string): Promise<WebhookEndpoint | null>;
+  // Newest first
+  findAll(options?: { isActive?: boolean; partnerId?: string; limit?: number; offset?: number }): Promise<WebhookEndpoint[]>;
+  create(data: Omit<WebhookEndpoint, 'id' | 'createdAt' | 'updatedAt'>): Promise<WebhookEndpoint>;
+  update(id: string, data: Partial<Omit<WebhookEndpoint, 'id' | 'createdAt' | 'updatedAt'>>): Promise<WebhookEndpoint | null>;
+  // Deletes the endpoint's deliveries too
+  delete(id: string): Promise<boolean>;
+}
+
+export interface WebhookDeliveryRepository {
+  findById(id: string): Promise<WebhookDelivery | null>;
+  // Newest first
+  findByEndpointId(endpointId: string, options?: { status?: WebhookDeliveryStatus; limit?: number; offset?: number }): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  findDue(now: Date, options?: { limit?: number }): Promise<WebhookDelivery[]>;
+  // Moves a due delivery's next attempt to `until` so other job runs skip it; false if it was no longer due
+  claim(id: string, now: Date, until: Date): Promise<boolean>;
+  create(data: Omit<WebhookDelivery, 'id' | 'createdAt'>): Promise<WebhookDelivery>;
+  update(id: string, data: Partial<Omit<WebhookDelivery, 'id' | 'endpointId' | 'eventId' | 'eventType' | 'payload' | 'createdAt'>>): Promise<WebhookDelivery | null>;
+}
+
+export interface ApiKeyRepository {
+  findById(id: string): Promise<ApiKey | null>;
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+  // Newest first; revoked keys are excluded unless requested
+  findByPartnerId(partnerId: string, options?: { includeRevoked?: boolean }): Promise<ApiKey[]>;
+  create(data: Omit<ApiKey, 'id' | 'lastUsedAt' | 'revokedAt' | 'createdAt'>): Promise<ApiKey>;
+  update(id: string, data: Partial<Pick<ApiKey, 'name' | 'lastUsedAt' | 'revokedAt'>>): Promise<ApiKey | null>;
+}
+
+export interface PartnerApplicationRepository {
+  findById(id: string): Promise<PartnerApplication | null>;
+  findByEmail(email: string): Promise<PartnerApplication | null>;
+  // Oldest first, so the review queue is worked in order
+  findAll(options?: { statuses?: ApplicationStatus[]; limit?: number; offset?: number }): Promise<PartnerApplication[]>;
+  count(options?: { statuses?: ApplicationStatus[] }): Promise<number>;
+  create(data: Omit<PartnerApplication, 'id' | 'createdAt' | 'updatedAt'>): Promise<PartnerApplication>;
+  update(id: string, data: Partial<Omit<PartnerApplication, 'id' | 'email' | 'createdAt' | 'updatedAt'>>): Promise<PartnerApplication | null>;
+}
+
+export interface InviteCodeRepository {
+  findById(id: string): Promise<InviteCode | null>;
+  findByCode(code: string): Promise<InviteCode | null>;
+  // Newest first
+  findAll(options?: { isActive?: boolean; limit?: number; offset?: number }): Promise<InviteCode[]>;
+  create(data: Omit<InviteCode, 'id' | 'useCount' | 'createdAt' | 'updatedAt'>): Promise<InviteCode>;
+  update(id: string, data: Partial<Omit<InviteCode, 'id' | 'code' | 'useCount' | 'createdAt' | 'updatedAt'>>): Promise<InviteCode | null>;
+  // Counts a use only if useCount is still the value read, so concurrent redemptions cannot overshoot maxUses
+  incrementUseCount(id: string, expectedUseCount: number): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface InviteCodeRedemptionRepository {
+  findByApplicationId(applicationId: string): Promise<InviteCodeRedemption | null>;
+  // Newest first
+  findByInviteCodeId(inviteCodeId: string, options?: { limit?: number; offset?: number }): Promise<InviteCodeRedemption[]>;
+  count(options: { inviteCodeId: string; signedUp?: boolean }): Promise<number>;
+  create(data: Omit<InviteCodeRedemption, 'id' | 'createdAt'>): Promise<InviteCodeRedemption>;
+  update(id: string, data: Pick<InviteCodeRedemption, 'partnerId'>): Promise<InviteCodeRedemption | null>;
+}
+
+export interface OverrideCommissionRepository {
+  findByReferralId(referralId: string): Promise<OverrideCommission | null>;
+  // Newest first
+  findByRecruiterId(recruiterId: string, options?: { recruitId?: string; limit?: number; offset?: number }): Promise<OverrideCommission[]>;
+  // Earned overrides not yet in a payout, oldest first
+  findPayable(recruiterId: string, options?: { limit?: number }): Promise<OverrideCommission[]>;
+  findByPayoutId(payoutId: string, options?: { status?: OverrideCommissionStatus }): Promise<OverrideCommission[]>;
+  // Overrides earned or paid (not reversed)
+  getEarnedTotals(recruiterId: string, recruitId: string): Promise<{ count: number; amountCents: number }>;
+  create(data: Omit<OverrideCommission, 'id' | 'status' | 'payoutId' | 'reversedAt' | 'createdAt'>): Promise<OverrideCommission>;
+  markReversed(id: string, reversedAt: Date): Promise<OverrideCommission | null>;
+  // Only unassigned earned overrides are linked; returns the number linked
+  assignToPayout(ids: string[], payoutId: string): Promise<number>;
+  // Makes a failed payout's overrides available again
+  releaseFromPayout(payoutId: string): Promise<number>;
+  // Marks a completed payout's earned overrides as paid
+  markPaidByPayoutId(payoutId: string): Promise<number>;
+}
+
+// Days are YYYY-MM-DD; since inclusive, until exclusive
+export interface DailyRollupQuery {
+  since?: string;
+  until?: string;
+}
+
+export interface DailyRollupRepository {
+  // Oldest day first
+  findByPartnerId(partnerId: string, options?: DailyRollupQuery): Promise<DailyRollup[]>;
+  // Every partner's rollups, oldest day first
+  findAll(options?: DailyRollupQuery): Promise<DailyRollup[]>;
+  // Adds to a row's metrics, creating the row on first use
+  increment(dimensions: RollupDimensions, metrics: Partial<RollupMetrics>): Promise<DailyRollup>;
+  // Replaces a partner's rollups from `since` on (all of them without it); returns the rows written
+  replaceForPartner(partnerId: string, rollups: NewDailyRollup[], options?: { since?: string }): Promise<number>;
+}
+
+export interface ExperimentRepository {
+  findById(id: string): Promise<Experiment | null>;
+  // Newest first
+  findByPartnerId(partnerId: string, options?: { status?: ExperimentStatus }): Promise<Experiment[]>;
+  // Every partner's experiments in a status, oldest first
+  findByStatus(status: ExperimentStatus): Promise<Experiment[]>;
+  create(data: Omit<Experiment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Experiment>;
+  update(id: string, data: Partial<Pick<Experiment, 'status' | 'variants' | 'startedAt' | 'endedAt'>>): Promise<Experiment | null>;
+}
+
+export interface ExperimentResultRepository {
+  // Oldest day first
+  findByExperimentId(experimentId: string): Promise<ExperimentResult[]>;
+  // Adds to a variant's counts for the UTC day of `at`, creating the row on first use
+  increment(experimentId: string, variant: string, at: Date, metrics: Partial<ExperimentCounts>): Promise<ExperimentResult>;
+}
+
+export interface ExperimentAllocationRepository {
+  // Oldest first
+  findByExperimentId(experimentId: string): Promise<ExperimentAllocation[]>;
+  create(data: Omit<ExperimentAllocation, 'id'>): Promise<ExperimentAllocation>;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  action?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// Append-only: entries can be added and read, never changed or removed
+export interface AuditLogRepository {
+  append(data: Omit<AuditLogEntry, 'id' | 'createdAt'>): Promise<AuditLogEntry>;
+  // Newest first
+  findMany(filter?: AuditLogFilter, options?: { limit?: number; offset?: number }): Promise<AuditLogEntry[]>;
+  count(filter?: AuditLogFilter): Promise<number>;
 }
 
 // ============================================
@@ -516,6 +1119,11 @@ export const inMemoryPartnerRepo: PartnerRepository = {
     return Array.from(store.partners.values()).find(p => p.referralCode === code) ?? null;
   },
   
+  async findByStripeAccountId(accountId) {
+    seedStore();
+    return Array.from(store.partners.values()).find(p => p.stripeAccountId === accountId) ?? null;
+  },
+  
   async findAll(options = {}) {
     seedStore();
     let partners = Array.from(store.partners.values());
@@ -526,6 +1134,9 @@ export const inMemoryPartnerRepo: PartnerRepository = {
     if (options.tier) {
       partners = partners.filter(p => p.tier === options.tier);
     }
+    if (options.recruitedById) {
+      partners = partners.filter(p => p.recruitedById === options.recruitedById);
+    }
     
     partners.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
     
@@ -544,6 +1155,9 @@ export const inMemoryPartnerRepo: PartnerRepository = {
     if (options.tier) {
       partners = partners.filter(p => p.tier === options.tier);
     }
+    if (options.recruitedById) {
+      partners = partners.filter(p => p.recruitedById === options.recruitedById);
+    }
     
     return partners.length;
   },
@@ -588,6 +1202,12 @@ export const inMemoryCampaignRepo: CampaignRepository = {
     return store.campaigns.get(id) ?? null;
   },
   
+  async findBySlug(partnerId, slug) {
+    seedStore();
+    return Array.from(store.campaigns.values())
+      .find(c => c.partnerId === partnerId && c.slug === slug) ?? null;
+  },
+  
   async findByPartnerId(partnerId, options = {}) {
     seedStore();
     let campaigns = Array.from(store.campaigns.values())
@@ -675,6 +1295,13 @@ export const inMemoryReferralRepo: ReferralRepository = {
     return store.referrals.get(id) ?? null;
   },
   
+  async findByCustomerHash(customerHash) {
+    seedStore();
+    return Array.from(store.referrals.values())
+      .filter(r => r.customerHash === customerHash)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ?? null;
+  },
+  
   async findByPartnerId(partnerId, options = {}) {
     seedStore();
     let referrals = Array.from(store.referrals.values())
@@ -703,6 +1330,47 @@ export const inMemoryReferralRepo: ReferralRepository = {
     return referrals.length;
   },
   
+  async findPayable(partnerId, options = {}) {
+    seedStore();
+    return Array.from(store.referrals.values())
+      .filter(r => r.partnerId === partnerId && r.status === 'CONVERTED' && !r.payoutId)
+      .sort((a, b) => (a.convertedAt ?? a.createdAt).getTime() - (b.convertedAt ?? b.createdAt).getTime())
+      .slice(0, options.limit ?? 20);
+  },
+  
+  async findByPayoutId(payoutId, options = {}) {
+    seedStore();
+    return Array.from(store.referrals.values())
+      .filter(r => r.payoutId === payoutId && (!options.status || r.status === options.status));
+  },
+  
+  async getConversionTotals(partnerId, options) {
+    seedStore();
+    const converted = Array.from(store.referrals.values()).filter(r =>
+      r.partnerId === partnerId &&
+      (r.status === 'CONVERTED' || r.status === 'PAID') &&
+      r.convertedAt != null &&
+      r.convertedAt >= options.since &&
+      (!options.until || r.convertedAt < options.until)
+    );
+    
+    return {
+      conversions: converted.length,
+      revenueCents: converted.reduce((sum, r) => sum + r.orderAmountCents, 0),
+    };
+  },
+  
+  async findInRange(partnerId, options) {
+    seedStore();
+    const inRange = (date: Date | null | undefined) =>
+      date != null && date >= options.since && date < options.until;
+
+    return Array.from(store.referrals.values())
+      .filter(r => r.partnerId === partnerId && (inRange(r.createdAt) || inRange(r.convertedAt)))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(options.offset ?? 0, (options.offset ?? 0) + (options.limit ?? 20));
+  },
+  
   async create(data) {
     seedStore();
     const referral: Referral = {
@@ -730,6 +1398,88 @@ export const inMemoryReferralRepo: ReferralRepository = {
     store.referrals.set(id, updated);
     return updated;
   },
+  
+  async assignToPayout(ids, payoutId) {
+    seedStore();
+    let count = 0;
+    
+    for (const id of ids) {
+      const existing = store.referrals.get(id);
+      if (existing && existing.status === 'CONVERTED' && !existing.payoutId) {
+        store.referrals.set(id, { ...existing, payoutId, updatedAt: new Date() });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+  
+  async releaseFromPayout(payoutId) {
+    seedStore();
+    let count = 0;
+    
+    for (const referral of store.referrals.values()) {
+      if (referral.payoutId === payoutId && referral.status === 'CONVERTED') {
+        store.referrals.set(referral.id, { ...referral, payoutId: null, updatedAt: new Date() });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+  
+  async markPaidByPayoutId(payoutId) {
+    seedStore();
+    let count = 0;
+    
+    for (const referral of store.referrals.values()) {
+      if (referral.payoutId === payoutId && referral.status === 'CONVERTED') {
+        store.referrals.set(referral.id, { ...referral, status: 'PAID', updatedAt: new Date() });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+};
+
+function filterClickEvents(partnerId: string, options: ClickEventQuery): ClickEvent[] {
+  return Array.from(store.clickEvents.values()).filter(e =>
+    e.partnerId === partnerId &&
+    (options.campaignId === undefined || (e.campaignId ?? null) === options.campaignId) &&
+    (!options.ipHash || e.ipHash === options.ipHash) &&
+    (!options.since || e.createdAt >= options.since) &&
+    (!options.until || e.createdAt < options.until)
+  );
+}
+
+export const inMemoryClickEventRepo: ClickEventRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    const events = filterClickEvents(partnerId, options);
+    
+    events.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return events.slice(offset, offset + limit);
+  },
+  
+  async countByPartnerId(partnerId, options = {}) {
+    seedStore();
+    return filterClickEvents(partnerId, options).length;
+  },
+  
+  async create(data) {
+    seedStore();
+    const event: ClickEvent = {
+      ...data,
+      id: `click-${generateRandomString(12)}`,
+      createdAt: new Date(),
+    };
+    store.clickEvents.set(event.id, event);
+    return event;
+  },
 };
 
 export const inMemoryPayoutRepo: PayoutRepository = {
@@ -766,6 +1516,21 @@ export const inMemoryPayoutRepo: PayoutRepository = {
     return payouts.length;
   },
   
+  async findAll(options = {}) {
+    seedStore();
+    const payouts = Array.from(store.payouts.values())
+      .filter(p =>
+        (!options.status || p.status === options.status) &&
+        (!options.since || p.requestedAt >= options.since) &&
+        (!options.until || p.requestedAt < options.until)
+      )
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return payouts.slice(offset, offset + limit);
+  },
+  
   async create(data) {
     seedStore();
     const payout: Payout = {
@@ -858,29 +1623,1062 @@ export const inMemoryNotificationRepo: NotificationRepository = {
     });
     return count;
   },
+  
+  async findPushPending(options = {}) {
+    seedStore();
+    return Array.from(store.notifications.values())
+      .filter(n => n.pushPending)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, options.limit ?? 50);
+  },
+  
+  async claimPush(id) {
+    seedStore();
+    const existing = store.notifications.get(id);
+    if (!existing?.pushPending) return false;
+    
+    store.notifications.set(id, { ...existing, pushPending: false });
+    return true;
+  },
 };
 
-// ============================================
-// Stats Helpers
-// ============================================
+export const inMemoryPushSubscriptionRepo: PushSubscriptionRepository = {
+  async findByPartnerId(partnerId) {
+    seedStore();
+    return Array.from(store.pushSubscriptions.values())
+      .filter(s => s.partnerId === partnerId);
+  },
 
-export async function getPartnerStats(partnerId: string): Promise<{
-  totalEarned: number;
-  pendingPayout: number;
-  totalReferrals: number;
-  referralsThisMonth: number;
-  clicksThisMonth: number;
-  conversionRate: number;
-}> {
-  seedStore();
-  
-  const campaigns = Array.from(store.campaigns.values())
-    .filter(c => c.partnerId === partnerId);
-  
-  const referrals = Array.from(store.referrals.values())
-    .filter(r => r.partnerId === partnerId);
+  async findByEndpoint(endpoint) {
+    seedStore();
+    return store.pushSubscriptions.get(endpoint) ?? null;
+  },
+
+  async upsert(data) {
+    seedStore();
+    const existing = store.pushSubscriptions.get(data.endpoint);
+    const subscription: PushSubscription = {
+      ...data,
+      id: existing?.id ?? `push-${generateRandomString(12)}`,
+      createdAt: existing?.createdAt ?? new Date(),
+      lastUsedAt: existing?.lastUsedAt ?? null,
+    };
+    store.pushSubscriptions.set(subscription.endpoint, subscription);
+    return subscription;
+  },
+
+  async markUsed(id, at) {
+    seedStore();
+    for (const subscription of store.pushSubscriptions.values()) {
+      if (subscription.id === id) {
+        store.pushSubscriptions.set(subscription.endpoint, { ...subscription, lastUsedAt: at });
+        return;
+      }
+    }
+  },
+
+  async deleteByEndpoint(endpoint) {
+    seedStore();
+    return store.pushSubscriptions.delete(endpoint);
+  },
+};
+
+let lastPartnerEventId = 0;
+
+export const inMemoryPartnerEventRepo: PartnerEventRepository = {
+  async findAfter(partnerId, afterId, options = {}) {
+    seedStore();
+    return Array.from(store.partnerEvents.values())
+      .filter(e => e.partnerId === partnerId && e.id > afterId)
+      .slice(0, options.limit ?? 100);
+  },
+
+  async findLatestId(partnerId) {
+    seedStore();
+    let latest = 0;
+    store.partnerEvents.forEach(e => {
+      if (e.partnerId === partnerId) latest = e.id;
+    });
+    return latest;
+  },
+
+  async create(data) {
+    seedStore();
+    const event: PartnerEvent = { ...data, id: ++lastPartnerEventId, createdAt: new Date() };
+    store.partnerEvents.set(event.id, event);
+    return event;
+  },
+
+  async deleteOlderThan(before) {
+    seedStore();
+    let count = 0;
+    store.partnerEvents.forEach((e, id) => {
+      if (e.createdAt < before) {
+        store.partnerEvents.delete(id);
+        count++;
+      }
+    });
+    return count;
+  },
+};
+
+export const inMemoryMilestoneRepo: MilestoneRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    const milestones = Array.from(store.milestones.values())
+      .filter(m => m.partnerId === partnerId)
+      .sort((a, b) => b.achievedAt.getTime() - a.achievedAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return milestones.slice(offset, offset + limit);
+  },
+  
+  async upsert(data) {
+    seedStore();
+    // One milestone per partner and type; re-achieving replaces it
+    const existing = Array.from(store.milestones.values())
+      .find(m => m.partnerId === data.partnerId && m.type === data.type);
+    
+    const milestone: Milestone = {
+      ...data,
+      id: existing?.id ?? `milestone-${generateRandomString(12)}`,
+    };
+    store.milestones.set(milestone.id, milestone);
+    return milestone;
+  },
+};
+
+export const inMemoryCommissionRuleRepo: CommissionRuleRepository = {
+  async findById(id) {
+    seedStore();
+    return store.commissionRules.get(id) ?? null;
+  },
+  
+  async findAll(options = {}) {
+    seedStore();
+    let rules = Array.from(store.commissionRules.values());
+    
+    if (options.isActive !== undefined) {
+      rules = rules.filter(r => r.isActive === options.isActive);
+    }
+    if (options.partnerId !== undefined) {
+      rules = rules.filter(r => r.partnerId === options.partnerId);
+    }
+    
+    // Rule sets are small, so they are never paginated
+    return rules.sort((a, b) =>
+      b.priority - a.priority || b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  },
+  
+  async create(data) {
+    seedStore();
+    const rule: CommissionRule = {
+      ...data,
+      id: `rule-${generateRandomString(12)}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    store.commissionRules.set(rule.id, rule);
+    return rule;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.commissionRules.get(id);
+    if (!existing) return null;
+    
+    const updated: CommissionRule = {
+      ...existing,
+      ...data,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    };
+    store.commissionRules.set(id, updated);
+    return updated;
+  },
+  
+  async delete(id) {
+    seedStore();
+    return store.commissionRules.delete(id);
+  },
+};
+
+export const inMemoryTierChangeRepo: TierChangeRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    const changes = Array.from(store.tierChanges.values())
+      .filter(t => t.partnerId === partnerId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return changes.slice(offset, offset + limit);
+  },
+  
+  async findRecent(options = {}) {
+    seedStore();
+    const changes = Array.from(store.tierChanges.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return changes.slice(offset, offset + limit);
+  },
+  
+  async create(data) {
+    seedStore();
+    const change: TierChange = {
+      ...data,
+      id: `tier-change-${generateRandomString(12)}`,
+      createdAt: new Date(),
+    };
+    store.tierChanges.set(change.id, change);
+    return change;
+  },
+};
+
+export const inMemoryProgramSettingRepo: ProgramSettingRepository = {
+  async get(key) {
+    seedStore();
+    return store.settings.get(key) ?? null;
+  },
+  
+  async set(key, value) {
+    seedStore();
+    const setting: ProgramSetting = { key, value, updatedAt: new Date() };
+    store.settings.set(key, setting);
+    return setting;
+  },
+};
+
+export const inMemoryBalanceAdjustmentRepo: BalanceAdjustmentRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    let adjustments = Array.from(store.balanceAdjustments.values())
+      .filter(a => a.partnerId === partnerId);
+    
+    if (options.outstanding) {
+      adjustments = adjustments.filter(a => !a.payoutId);
+    }
+    
+    adjustments.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return adjustments.slice(offset, offset + limit);
+  },
+  
+  async findByPayoutId(payoutId) {
+    seedStore();
+    return Array.from(store.balanceAdjustments.values())
+      .filter(a => a.payoutId === payoutId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+  
+  async findByReferralIds(referralIds) {
+    seedStore();
+    return Array.from(store.balanceAdjustments.values())
+      .filter(a => a.referralId && referralIds.includes(a.referralId));
+  },
+  
+  async create(data) {
+    seedStore();
+    const adjustment: BalanceAdjustment = {
+      ...data,
+      id: `adjustment-${generateRandomString(12)}`,
+      payoutId: null,
+      appliedAt: null,
+      createdAt: new Date(),
+    };
+    store.balanceAdjustments.set(adjustment.id, adjustment);
+    return adjustment;
+  },
+  
+  async applyToPayout(ids, payoutId) {
+    seedStore();
+    let count = 0;
+    const appliedAt = new Date();
+    
+    for (const id of ids) {
+      const existing = store.balanceAdjustments.get(id);
+      if (existing && !existing.payoutId) {
+        store.balanceAdjustments.set(id, { ...existing, payoutId, appliedAt });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+  
+  async releaseFromPayout(payoutId) {
+    seedStore();
+    let count = 0;
+    
+    for (const adjustment of store.balanceAdjustments.values()) {
+      if (adjustment.payoutId === payoutId) {
+        store.balanceAdjustments.set(adjustment.id, { ...adjustment, payoutId: null, appliedAt: null });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+};
+
+function filterLedgerEntries(partnerId: string, query: LedgerQuery): LedgerEntry[] {
+  return Array.from(store.ledgerEntries.values()).filter(e =>
+    e.partnerId === partnerId &&
+    (!query.account || e.account === query.account) &&
+    (!query.since || e.createdAt >= query.since) &&
+    (!query.until || e.createdAt < query.until)
+  );
+}
+
+export const inMemoryLedgerRepo: LedgerRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    const entries = filterLedgerEntries(partnerId, options)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return entries.slice(offset, offset + limit);
+  },
+  
+  async findByReference(reference) {
+    seedStore();
+    return Array.from(store.ledgerEntries.values())
+      .filter(e =>
+        (!reference.referralId || e.referralId === reference.referralId) &&
+        (!reference.payoutId || e.payoutId === reference.payoutId)
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  },
+  
+  async getBalance(partnerId, options = {}) {
+    seedStore();
+    return filterLedgerEntries(partnerId, { account: PARTNER_ACCOUNT, ...options })
+      .reduce((sum, e) => sum + e.amountCents, 0);
+  },
+  
+  async getTotalsByType(partnerId) {
+    seedStore();
+    return totalLedgerEntries(filterLedgerEntries(partnerId, { account: PARTNER_ACCOUNT }));
+  },
+  
+  async createTransaction(entries) {
+    seedStore();
+    if (entries.length === 0 || !isBalanced(entries)) {
+      throw new Error('Ledger transaction entries must sum to zero');
+    }
+    
+    const transactionId = `ledger-txn-${generateRandomString(12)}`;
+    const createdAt = new Date();
+    const created = entries.map(entry => ({
+      ...entry,
+      id: `ledger-${generateRandomString(12)}`,
+      transactionId,
+      createdAt: entry.createdAt ?? createdAt,
+    }));
+    
+    created.forEach(e => store.ledgerEntries.set(e.id, e));
+    return created;
+  },
+};
+
+export const inMemoryPayoutRunRepo: PayoutRunRepository = {
+  async findById(id) {
+    seedStore();
+    return store.payoutRuns.get(id) ?? null;
+  },
+  
+  async findRecent(options = {}) {
+    seedStore();
+    const runs = Array.from(store.payoutRuns.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return runs.slice(offset, offset + limit);
+  },
+  
+  async findRunning() {
+    seedStore();
+    return Array.from(store.payoutRuns.values()).find(r => r.status === 'RUNNING') ?? null;
+  },
+  
+  async create(data) {
+    seedStore();
+    const run: PayoutRun = {
+      ...data,
+      id: `payout-run-${generateRandomString(12)}`,
+      status: 'RUNNING',
+      items: [],
+      transferredCount: 0,
+      awaitingApprovalCount: 0,
+      failedCount: 0,
+      retryableCount: 0,
+      transferredCents: 0,
+      error: null,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    store.payoutRuns.set(run.id, run);
+    return run;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.payoutRuns.get(id);
+    if (!existing) return null;
+    
+    const updated: PayoutRun = {
+      ...existing,
+      ...data,
+      id: existing.id,
+      trigger: existing.trigger,
+      startedAt: existing.startedAt,
+    };
+    store.payoutRuns.set(id, updated);
+    return updated;
+  },
+};
+
+export const inMemoryWebhookEndpointRepo: WebhookEndpointRepository = {
+  async findById(id) {
+    seedStore();
+    return store.webhookEndpoints.get(id) ?? null;
+  },
+  
+  async findAll(options = {}) {
+    seedStore();
+    let endpoints = Array.from(store.webhookEndpoints.values());
+    
+    if (options.isActive !== undefined) {
+      endpoints = endpoints.filter(e => e.isActive === options.isActive);
+    }
+    if (options.partnerId) {
+      endpoints = endpoints.filter(e => e.partnerId === options.partnerId);
+    }
+    
+    endpoints.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return endpoints.slice(offset, offset + limit);
+  },
+  
+  async create(data) {
+    seedStore();
+    const now = new Date();
+    const endpoint: WebhookEndpoint = {
+      ...data,
+      id: `webhook-${generateRandomString(12)}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.webhookEndpoints.set(endpoint.id, endpoint);
+    return endpoint;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.webhookEndpoints.get(id);
+    if (!existing) return null;
+    
+    const updated: WebhookEndpoint = {
+      ...existing,
+      ...data,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    };
+    store.webhookEndpoints.set(id, updated);
+    return updated;
+  },
+  
+  async delete(id) {
+    seedStore();
+    for (const delivery of store.webhookDeliveries.values()) {
+      if (delivery.endpointId === id) store.webhookDeliveries.delete(delivery.id);
+    }
+    return store.webhookEndpoints.delete(id);
+  },
+};
+
+export const inMemoryWebhookDeliveryRepo: WebhookDeliveryRepository = {
+  async findById(id) {
+    seedStore();
+    return store.webhookDeliveries.get(id) ?? null;
+  },
+  
+  async findByEndpointId(endpointId, options = {}) {
+    seedStore();
+    let deliveries = Array.from(store.webhookDeliveries.values())
+      .filter(d => d.endpointId === endpointId);
+    
+    if (options.status) {
+      deliveries = deliveries.filter(d => d.status === options.status);
+    }
+    
+    deliveries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 20;
+    return deliveries.slice(offset, offset + limit);
+  },
+  
+  async findDue(now, options = {}) {
+    seedStore();
+    return Array.from(store.webhookDeliveries.values())
+      .filter(d => d.status === 'PENDING' && d.nextAttemptAt && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, options.limit ?? 20);
+  },
+  
+  async claim(id, now, until) {
+    seedStore();
+    const existing = store.webhookDeliveries.get(id);
+    if (existing?.status !== 'PENDING' || !existing.nextAttemptAt || existing.nextAttemptAt > now) {
+      return false;
+    }
+    
+    store.webhookDeliveries.set(id, { ...existing, nextAttemptAt: until });
+    return true;
+  },
+  
+  async create(data) {
+    seedStore();
+    const delivery: WebhookDelivery = {
+      ...data,
+      id: `webhook-delivery-${generateRandomString(12)}`,
+      createdAt: new Date(),
+    };
+    store.webhookDeliveries.set(delivery.id, delivery);
+    return delivery;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.webhookDeliveries.get(id);
+    if (!existing) return null;
+    
+    const updated: WebhookDelivery = { ...existing, ...data, id: existing.id };
+    store.webhookDeliveries.set(id, updated);
+    return updated;
+  },
+};
+
+export const inMemoryApiKeyRepo: ApiKeyRepository = {
+  async findById(id) {
+    seedStore();
+    return store.apiKeys.get(id) ?? null;
+  },
+  
+  async findByHash(keyHash) {
+    seedStore();
+    return Array.from(store.apiKeys.values()).find(k => k.keyHash === keyHash) ?? null;
+  },
+  
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    return Array.from(store.apiKeys.values())
+      .filter(k => k.partnerId === partnerId && (options.includeRevoked || !k.revokedAt))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+  
+  async create(data) {
+    seedStore();
+    const apiKey: ApiKey = {
+      ...data,
+      id: `apikey-${generateRandomString(12)}`,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    store.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.apiKeys.get(id);
+    if (!existing) return null;
+    
+    const updated: ApiKey = { ...existing, ...data };
+    store.apiKeys.set(id, updated);
+    return updated;
+  },
+};
+
+function filterApplications(statuses?: ApplicationStatus[]): PartnerApplication[] {
+  return Array.from(store.applications.values())
+    .filter(a => !statuses || statuses.includes(a.status));
+}
+
+export const inMemoryPartnerApplicationRepo: PartnerApplicationRepository = {
+  async findById(id) {
+    return store.applications.get(id) ?? null;
+  },
+  
+  async findByEmail(email) {
+    return Array.from(store.applications.values()).find(a => a.email === email) ?? null;
+  },
+  
+  async findAll(options = {}) {
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+    return filterApplications(options.statuses)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(offset, offset + limit);
+  },
+  
+  async count(options = {}) {
+    return filterApplications(options.statuses).length;
+  },
+  
+  async create(data) {
+    const now = new Date();
+    const application: PartnerApplication = {
+      ...data,
+      id: `application-${generateRandomString(12)}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.applications.set(application.id, application);
+    return application;
+  },
+  
+  async update(id, data) {
+    const existing = store.applications.get(id);
+    if (!existing) return null;
+    
+    const updated: PartnerApplication = { ...existing, ...data, updatedAt: new Date() };
+    store.applications.set(id, updated);
+    return updated;
+  },
+};
+
+export const inMemoryInviteCodeRepo: InviteCodeRepository = {
+  async findById(id) {
+    seedStore();
+    return store.inviteCodes.get(id) ?? null;
+  },
+  
+  async findByCode(code) {
+    seedStore();
+    return Array.from(store.inviteCodes.values()).find(c => c.code === code) ?? null;
+  },
+  
+  async findAll(options = {}) {
+    seedStore();
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+    return Array.from(store.inviteCodes.values())
+      .filter(c => options.isActive === undefined || c.isActive === options.isActive)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit);
+  },
+  
+  async create(data) {
+    seedStore();
+    const now = new Date();
+    const inviteCode: InviteCode = {
+      ...data,
+      id: `invite-${generateRandomString(12)}`,
+      useCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.inviteCodes.set(inviteCode.id, inviteCode);
+    return inviteCode;
+  },
+  
+  async update(id, data) {
+    seedStore();
+    const existing = store.inviteCodes.get(id);
+    if (!existing) return null;
+    
+    const updated: InviteCode = { ...existing, ...data, updatedAt: new Date() };
+    store.inviteCodes.set(id, updated);
+    return updated;
+  },
+  
+  async incrementUseCount(id, expectedUseCount) {
+    seedStore();
+    const existing = store.inviteCodes.get(id);
+    if (!existing || existing.useCount !== expectedUseCount) return false;
+    
+    store.inviteCodes.set(id, { ...existing, useCount: existing.useCount + 1, updatedAt: new Date() });
+    return true;
+  },
+  
+  async delete(id) {
+    seedStore();
+    for (const [redemptionId, redemption] of store.inviteCodeRedemptions) {
+      if (redemption.inviteCodeId === id) store.inviteCodeRedemptions.delete(redemptionId);
+    }
+    return store.inviteCodes.delete(id);
+  },
+};
+
+export const inMemoryInviteCodeRedemptionRepo: InviteCodeRedemptionRepository = {
+  async findByApplicationId(applicationId) {
+    return Array.from(store.inviteCodeRedemptions.values()).find(r => r.applicationId === applicationId) ?? null;
+  },
+  
+  async findByInviteCodeId(inviteCodeId, options = {}) {
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+    return Array.from(store.inviteCodeRedemptions.values())
+      .filter(r => r.inviteCodeId === inviteCodeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit);
+  },
+  
+  async count(options) {
+    return Array.from(store.inviteCodeRedemptions.values())
+      .filter(r => r.inviteCodeId === options.inviteCodeId)
+      .filter(r => options.signedUp === undefined || Boolean(r.partnerId) === options.signedUp)
+      .length;
+  },
+  
+  async create(data) {
+    const redemption: InviteCodeRedemption = {
+      ...data,
+      id: `redemption-${generateRandomString(12)}`,
+      createdAt: new Date(),
+    };
+    store.inviteCodeRedemptions.set(redemption.id, redemption);
+    return redemption;
+  },
+  
+  async update(id, data) {
+    const existing = store.inviteCodeRedemptions.get(id);
+    if (!existing) return null;
+    
+    const updated: InviteCodeRedemption = { ...existing, ...data };
+    store.inviteCodeRedemptions.set(id, updated);
+    return updated;
+  },
+};
+
+export const inMemoryOverrideCommissionRepo: OverrideCommissionRepository = {
+  async findByReferralId(referralId) {
+    return Array.from(store.overrideCommissions.values()).find(o => o.referralId === referralId) ?? null;
+  },
+  
+  async findByRecruiterId(recruiterId, options = {}) {
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+    return Array.from(store.overrideCommissions.values())
+      .filter(o => o.recruiterId === recruiterId)
+      .filter(o => !options.recruitId || o.recruitId === options.recruitId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit);
+  },
+  
+  async findPayable(recruiterId, options = {}) {
+    return Array.from(store.overrideCommissions.values())
+      .filter(o => o.recruiterId === recruiterId && o.status === 'EARNED' && !o.payoutId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, options.limit ?? 50);
+  },
+  
+  async findByPayoutId(payoutId, options = {}) {
+    return Array.from(store.overrideCommissions.values())
+      .filter(o => o.payoutId === payoutId && (!options.status || o.status === options.status));
+  },
+  
+  async getEarnedTotals(recruiterId, recruitId) {
+    const earned = Array.from(store.overrideCommissions.values())
+      .filter(o => o.recruiterId === recruiterId && o.recruitId === recruitId && o.status !== 'REVERSED');
+    return {
+      count: earned.length,
+      amountCents: earned.reduce((sum, o) => sum + o.amountCents, 0),
+    };
+  },
+  
+  async create(data) {
+    const override: OverrideCommission = {
+      ...data,
+      id: `override-${generateRandomString(12)}`,
+      status: 'EARNED',
+      payoutId: null,
+      reversedAt: null,
+      createdAt: new Date(),
+    };
+    store.overrideCommissions.set(override.id, override);
+    return override;
+  },
+  
+  async markReversed(id, reversedAt) {
+    const existing = store.overrideCommissions.get(id);
+    if (!existing) return null;
+    
+    const updated: OverrideCommission = { ...existing, status: 'REVERSED', reversedAt };
+    store.overrideCommissions.set(id, updated);
+    return updated;
+  },
+  
+  async assignToPayout(ids, payoutId) {
+    let count = 0;
+    
+    for (const id of ids) {
+      const override = store.overrideCommissions.get(id);
+      if (override && override.status === 'EARNED' && !override.payoutId) {
+        store.overrideCommissions.set(id, { ...override, payoutId });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+  
+  async releaseFromPayout(payoutId) {
+    let count = 0;
+    
+    for (const override of store.overrideCommissions.values()) {
+      if (override.payoutId === payoutId && override.status === 'EARNED') {
+        store.overrideCommissions.set(override.id, { ...override, payoutId: null });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+  
+  async markPaidByPayoutId(payoutId) {
+    let count = 0;
+    
+    for (const override of store.overrideCommissions.values()) {
+      if (override.payoutId === payoutId && override.status === 'EARNED') {
+        store.overrideCommissions.set(override.id, { ...override, status: 'PAID' });
+        count++;
+      }
+    }
+    
+    return count;
+  },
+};
+
+function filterRollups(options: DailyRollupQuery & { partnerId?: string }): DailyRollup[] {
+  return Array.from(store.dailyRollups.values())
+    .filter(r =>
+      (!options.partnerId || r.partnerId === options.partnerId) &&
+      (!options.since || r.day >= options.since) &&
+      (!options.until || r.day < options.until)
+    )
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+export const inMemoryDailyRollupRepo: DailyRollupRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    return filterRollups({ ...options, partnerId });
+  },
+
+  async findAll(options = {}) {
+    seedStore();
+    return filterRollups(options);
+  },
+
+  async increment(dimensions, metrics) {
+    seedStore();
+    const key = dailyRollupKey(dimensions);
+    const existing = store.dailyRollups.get(key);
+    const rollup: DailyRollup = {
+      ...(existing ?? { id: `rollup-${generateRandomString(12)}`, key, ...dimensions, ...emptyRollupMetrics() }),
+      updatedAt: new Date(),
+    };
+    addRollupMetrics(rollup, metrics);
+    store.dailyRollups.set(key, rollup);
+    return rollup;
+  },
+
+  async replaceForPartner(partnerId, rollups, options = {}) {
+    seedStore();
+    for (const existing of filterRollups({ partnerId, since: options.since })) {
+      store.dailyRollups.delete(existing.key);
+    }
+    for (const rollup of rollups) {
+      const key = dailyRollupKey(rollup);
+      store.dailyRollups.set(key, { ...rollup, id: `rollup-${generateRandomString(12)}`, key, updatedAt: new Date() });
+    }
+    return rollups.length;
+  },
+};
+
+export const inMemoryExperimentRepo: ExperimentRepository = {
+  async findById(id) {
+    seedStore();
+    return store.experiments.get(id) ?? null;
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    seedStore();
+    return Array.from(store.experiments.values())
+      .filter(e => e.partnerId === partnerId && (!options.status || e.status === options.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+
+  async findByStatus(status) {
+    seedStore();
+    return Array.from(store.experiments.values())
+      .filter(e => e.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  },
+
+  async create(data) {
+    seedStore();
+    const experiment: Experiment = {
+      ...data,
+      id: `exp-${generateRandomString(12)}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    store.experiments.set(experiment.id, experiment);
+    return experiment;
+  },
+
+  async update(id, data) {
+    seedStore();
+    const existing = store.experiments.get(id);
+    if (!existing) return null;
+
+    const updated: Experiment = { ...existing, ...data, updatedAt: new Date() };
+    store.experiments.set(id, updated);
+    return updated;
+  },
+};
+
+export const inMemoryExperimentResultRepo: ExperimentResultRepository = {
+  async findByExperimentId(experimentId) {
+    seedStore();
+    return Array.from(store.experimentResults.values())
+      .filter(r => r.experimentId === experimentId)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  },
+
+  async increment(experimentId, variant, at, metrics) {
+    seedStore();
+    const key = experimentResultKey(experimentId, variant, at);
+    const existing = store.experimentResults.get(key);
+    const result: ExperimentResult = existing ? { ...existing } : {
+      id: `exp-result-${generateRandomString(12)}`,
+      key,
+      experimentId,
+      variant,
+      impressions: 0,
+      clicks: 0,
+      conversions: 0,
+      recordedAt: getResultDay(at),
+    };
+    result.impressions += metrics.impressions ?? 0;
+    result.clicks += metrics.clicks ?? 0;
+    result.conversions += metrics.conversions ?? 0;
+    store.experimentResults.set(key, result);
+    return result;
+  },
+};
+
+export const inMemoryExperimentAllocationRepo: ExperimentAllocationRepository = {
+  async findByExperimentId(experimentId) {
+    seedStore();
+    return Array.from(store.experimentAllocations.values())
+      .filter(a => a.experimentId === experimentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  },
+
+  async create(data) {
+    seedStore();
+    const allocation: ExperimentAllocation = {
+      ...data,
+      id: `exp-allocation-${generateRandomString(12)}`,
+    };
+    store.experimentAllocations.set(allocation.id, allocation);
+    return allocation;
+  },
+};
+
+function matchesAuditFilter(entry: AuditLogEntry, filter: AuditLogFilter): boolean {
+  return (
+    (!filter.actorId || entry.actorId === filter.actorId) &&
+    (!filter.action || entry.action === filter.action) &&
+    (!filter.targetType || entry.targetType === filter.targetType) &&
+    (!filter.targetId || entry.targetId === filter.targetId) &&
+    (!filter.since || entry.createdAt >= filter.since) &&
+    (!filter.until || entry.createdAt < filter.until)
+  );
+}
+
+export const inMemoryAuditLogRepo: AuditLogRepository = {
+  async append(data) {
+    const entry: AuditLogEntry = Object.freeze({
+      ...data,
+      id: `audit-${generateRandomString(12)}`,
+      changes: Object.freeze({ ...data.changes }),
+      createdAt: new Date(),
+    });
+    store.auditLog.set(entry.id, entry);
+    return entry;
+  },
+  
+  async findMany(filter = {}, options = {}) {
+    const entries = Array.from(store.auditLog.values())
+      .filter(e => matchesAuditFilter(e, filter))
+      .reverse(); // insertion order is chronological
+    
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+    return entries.slice(offset, offset + limit);
+  },
   
-  const now = new Date();
+  async count(filter = {}) {
+    return Array.from(store.auditLog.values()).filter(e => matchesAuditFilter(e, filter)).length;
+  },
+};
+
+// ============================================
+// Stats Helpers
+// ============================================
+
+export interface PartnerStatsSummary {
+  totalEarned: number; // paid, or part of a payout
+  pendingPayout: number; // converted but still in the hold period
+  availableBalance: number; // past the hold period and not yet paid out
+  totalReferrals: number;
+  referralsThisMonth: number;
+  clicksThisMonth: number;
+  conversionRate: number;
+  commissionRate: number;
+}
+
+export interface LeaderboardEntry {
+  partnerId: string;
+  partnerName: string;
+  tier: PartnerTier;
+  totalEarned: number;
+  referralsThisMonth: number;
+  rank: number;
+}
+
+/**
+ * Compute partner stats from their campaigns, referrals and overrides
+ * Shared by the in-memory and Prisma implementations
+ */
+export function computePartnerStats(
+  partner: Pick<Partner, 'id' | 'tier'> | null,
+  campaigns: Pick<Campaign, 'clicks' | 'conversions'>[],
+  referrals: (Pick<Referral, 'status' | 'commissionCents' | 'convertedAt'> & Partial<Pick<Referral, 'payoutId'>>)[],
+  commissionRules: CommissionRule[],
+  now: Date = new Date(),
+  holdDays: number = DEFAULT_PAYOUT_SETTINGS.holdDays,
+  overrides: EarningOverride[] = []
+): PartnerStatsSummary {
   const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
   
   const totalClicks = campaigns.reduce((sum, c) => sum + c.clicks, 0);
@@ -895,32 +2693,64 @@ export async function getPartnerStats(partnerId: string): Promise<{
     return sum + Math.floor(c.clicks * 0.3);
   }, 0);
   
-  const paidAmount = referrals
-    .filter(r => r.status === 'PAID')
-    .reduce((sum, r) => sum + r.commissionCents, 0);
-  
-  const pendingAmount = referrals
-    .filter(r => r.status === 'CONVERTED')
-    .reduce((sum, r) => sum + r.commissionCents, 0);
+  const earnings = computeEarningsBuckets(
+    [...referrals, ...overrides.map(toOverrideEarning)],
+    holdDays,
+    now
+  );
   
   return {
-    totalEarned: paidAmount,
-    pendingPayout: pendingAmount,
+    totalEarned: earnings.paidCents,
+    pendingPayout: earnings.pendingCents,
+    availableBalance: earnings.availableCents,
     totalReferrals: totalConversions,
     referralsThisMonth,
     clicksThisMonth,
     conversionRate: totalClicks > 0 ? (totalConversions / totalClicks) * 100 : 0,
+    commissionRate: partner ? getHeadlineCommissionRate(commissionRules, partner, now) : 0,
   };
 }
 
-export async function getLeaderboard(limit: number = 10): Promise<Array<{
-  partnerId: string;
-  partnerName: string;
-  tier: PartnerTier;
-  totalEarned: number;
-  referralsThisMonth: number;
-  rank: number;
-}>> {
+/**
+ * Sort partners by earnings and assign ranks
+ */
+export function rankLeaderboard(
+  entries: Omit<LeaderboardEntry, 'rank'>[],
+  limit: number
+): LeaderboardEntry[] {
+  return [...entries]
+    .sort((a, b) => b.totalEarned - a.totalEarned)
+    .slice(0, limit)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+}
+
+export async function getPartnerStats(
+  partnerId: string,
+  holdDays: number = DEFAULT_PAYOUT_SETTINGS.holdDays
+): Promise<PartnerStatsSummary> {
+  seedStore();
+  
+  const campaigns = Array.from(store.campaigns.values())
+    .filter(c => c.partnerId === partnerId);
+  
+  const referrals = Array.from(store.referrals.values())
+    .filter(r => r.partnerId === partnerId);
+  
+  const overrides = Array.from(store.overrideCommissions.values())
+    .filter(o => o.recruiterId === partnerId);
+  
+  return computePartnerStats(
+    store.partners.get(partnerId) ?? null,
+    campaigns,
+    referrals,
+    Array.from(store.commissionRules.values()),
+    new Date(),
+    holdDays,
+    overrides
+  );
+}
+
+export async function getLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
   seedStore();
   
   const partners = Array.from(store.partners.values())
@@ -939,8 +2769,5 @@ export async function getLeaderboard(limit: number = 10): Promise<Array<{
     })
   );
   
-  return stats
-    .sort((a, b) => b.totalEarned - a.totalEarned)
-    .slice(0, limit)
-    .map((s, i) => ({ ...s, rank: i + 1 }));
+  return rankLeaderboard(stats, limit);
 }
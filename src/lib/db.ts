@@ -3,10 +3,12 @@
  * Prisma client with connection pooling for serverless environments
  * 
  * NOTE: Run `npx prisma generate` after setting up DATABASE_URL
- * to generate the Prisma client types.
+ * to generate the Prisma client types. Prisma 7 connects through a
+ * driver adapter, so the connection URL is read here rather than from
+ * the schema.
  */
 
-import { features, isDevelopment } from './env';
+import { features, getDatabaseUrl, isDevelopment } from './env';
 
 // ============================================
 // Types (Manual definitions until Prisma generates)
@@ -23,6 +25,67 @@ export type PayoutStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | '
 export type MilestoneType = 'FIRST_SHARE' | 'FIRST_CLICK' | 'FIRST_CONVERSION' | 'TENTH_CONVERSION' | 'HUNDRED_CONVERSION' | 'THOUSAND_EARNED' | 'TEN_THOUSAND_EARNED' | 'TIER_UPGRADE';
 export type NotificationType = 'CONVERSION' | 'PAYOUT' | 'MILESTONE' | 'CAMPAIGN' | 'SYSTEM' | 'PROMOTION';
 export type ExperimentStatus = 'DRAFT' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'ARCHIVED';
+export type AllocationMode = 'FIXED' | 'BANDIT';
+export type CommissionRuleType = 'FLAT' | 'PERCENTAGE' | 'TIERED_PERCENTAGE';
+export type TierChangeReason = 'AUTOMATIC' | 'MANUAL';
+export type BalanceAdjustmentReason = 'REFUND' | 'CHARGEBACK' | 'BONUS' | 'MANUAL' | 'OVERRIDE';
+export type LedgerEntryType =
+  | 'COMMISSION_EARNED'
+  | 'COMMISSION_REVERSED'
+  | 'OVERRIDE_EARNED'
+  | 'OVERRIDE_REVERSED'
+  | 'PAYOUT_DEBIT'
+  | 'FEE'
+  | 'BONUS'
+  | 'MANUAL_ADJUSTMENT';
+export type OverrideCommissionStatus = 'EARNED' | 'PAID' | 'REVERSED';
+export type StripeOnboardingStatus = 'PENDING' | 'COMPLETE' | 'DEAUTHORIZED';
+export type PayoutRunTrigger = 'SCHEDULED' | 'MANUAL';
+export type PayoutRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+export type PayoutRunItemStatus = 'TRANSFERRED' | 'AWAITING_APPROVAL' | 'FAILED';
+export type WebhookEventType =
+  | 'referral.converted'
+  | 'referral.refunded'
+  | 'payout.completed'
+  | 'payout.failed'
+  | 'milestone.achieved'
+  | 'partner.tier_changed';
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+export type PartnerEventType = 'notification' | 'conversion' | 'payout' | 'milestone';
+export type ApiKeyScope = 'campaigns:read' | 'campaigns:write' | 'stats:read' | 'milestones:write' | 'payouts:read';
+export type ApplicationStatus =
+  | 'WAITLIST'
+  | 'INSTANT_ACCESS' // applied with a valid invite code
+  | 'INFO_REQUESTED'
+  | 'APPROVED'
+  | 'REJECTED';
+export type ApplicationChannel =
+  | 'LINKEDIN'
+  | 'TWITTER'
+  | 'NEWSLETTER'
+  | 'PODCAST'
+  | 'YOUTUBE'
+  | 'BLOG'
+  | 'COMMUNITY'
+  | 'EVENTS'
+  | 'OTHER';
+export type AuditActorType = 'ADMIN' | 'PARTNER' | 'SYSTEM';
+export type AuditTargetType =
+  | 'PARTNER'
+  | 'APPLICATION'
+  | 'INVITE_CODE'
+  | 'PAYOUT'
+  | 'PAYOUT_RUN'
+  | 'COMMISSION_RULE'
+  | 'PROGRAM_SETTING'
+  | 'WEBHOOK_ENDPOINT';
+export type LedgerAccount =
+  | 'PARTNER_BALANCE'
+  | 'COMMISSION_EXPENSE'
+  | 'BONUS_EXPENSE'
+  | 'PAYOUT_CLEARING'
+  | 'FEE_REVENUE'
+  | 'MANUAL_ADJUSTMENTS';
 
 export interface Partner {
   id: string;
@@ -38,6 +101,13 @@ export interface Partner {
   avatarUrl?: string | null;
   emailDigest: boolean;
   timezone: string;
+  notificationPreferences?: NotificationPreferences | null; // null = every channel and type on
+  tierGraceStartedAt?: Date | null; // set while below the current tier's requirements
+  stripeAccountId?: string | null; // Stripe Connect account that receives payouts
+  stripeOnboardingStatus?: StripeOnboardingStatus | null; // null until onboarding starts
+  stripePayoutsEnabled?: boolean; // Stripe allows payouts to the account
+  recruitedById?: string | null; // partner who recruited this one
+  recruitedAt?: Date | null; // start of the recruiter's override window
   createdAt: Date;
   updatedAt: Date;
 }
@@ -62,24 +132,45 @@ export interface Referral {
   campaignId?: string | null;
   status: ReferralStatus;
   customerHash: string;
+  visitorId?: string | null;
+  experimentId?: string | null; // share template experiment the customer clicked
+  experimentVariant?: string | null;
+  orderAmountCents: number;
   commissionCents: number;
   commissionRate: number;
   clickedAt?: Date | null;
   convertedAt?: Date | null;
+  refundedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
   payoutId?: string | null;
 }
 
+export interface ClickEvent {
+  id: string;
+  partnerId: string;
+  campaignId?: string | null;
+  ipHash: string;
+  visitorId?: string | null;
+  userAgent?: string | null;
+  referer?: string | null;
+  country?: string | null;
+  city?: string | null;
+  device?: string | null;
+  createdAt: Date;
+}
+
 export interface Payout {
   id: string;
   partnerId: string;
   status: PayoutStatus;
   amountCents: number;
   feeCents: number;
+  adjustmentCents: number; // clawbacks deducted from this payout (zero or negative)
   netCents: number;
   paymentMethod?: string | null;
   transactionId?: string | null;
+  payoutRunId?: string | null; // batch run that created this payout
   requestedAt: Date;
   processedAt?: Date | null;
   completedAt?: Date | null;
@@ -95,6 +186,14 @@ export interface Milestone {
   achievedAt: Date;
 }
 
+// Channels and types a partner receives notifications through
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  inApp: boolean;
+  types: Partial<Record<string, boolean>>; // by notification type; missing types are on
+}
+
 export interface Notification {
   id: string;
   partnerId: string;
@@ -103,17 +202,51 @@ export interface Notification {
   message: string;
   link?: string | null;
   read: boolean;
+  pushPending?: boolean; // waiting for the push-deliveries job
   createdAt: Date;
   readAt?: Date | null;
 }
 
+export interface PushSubscription {
+  id: string;
+  partnerId: string;
+  endpoint: string; // push service URL, unique per browser install
+  p256dh: string; // browser's P-256 public key (base64url)
+  auth: string; // browser's auth secret (base64url)
+  userAgent?: string | null;
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+}
+
+export interface PartnerEvent {
+  id: number; // increases with every event; sent as the SSE event id
+  partnerId: string;
+  type: PartnerEventType;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  content: string; // share message; {link} is replaced with the referral link
+  isControl: boolean;
+  weight?: number | null; // relative traffic share; overrides targetRatio when every variant has one
+  isWinner?: boolean;
+}
+
 export interface Experiment {
   id: string;
+  partnerId: string;
   name: string;
   description?: string | null;
   status: ExperimentStatus;
-  variants: unknown;
-  targetRatio: number;
+  variants: ExperimentVariant[];
+  targetRatio: number; // traffic share of the non-control variants
+  allocationMode: AllocationMode; // BANDIT moves variant weights toward the best performer while RUNNING
+  explorationFloor: number; // BANDIT: minimum traffic share of every variant
+  minSampleSize: number; // impressions per variant
+  confidenceLevel: number; // percent
   startedAt?: Date | null;
   endedAt?: Date | null;
   createdAt: Date;
@@ -122,54 +255,489 @@ export interface Experiment {
 
 export interface ExperimentResult {
   id: string;
+  key: string; // experiment, variant and day; one row each
   experimentId: string;
-  variant: string;
+  variant: string; // variant id
   impressions: number;
   clicks: number;
   conversions: number;
-  recordedAt: Date;
+  recordedAt: Date; // start of the UTC day
+}
+
+export interface ExperimentAllocation {
+  id: string;
+  experimentId: string;
+  weights: Record<string, number>; // traffic share by variant id; sums to 1
+  createdAt: Date;
+}
+
+export interface CommissionBand {
+  upToCents: number | null; // null = no upper bound
+  rate: number;
+}
+
+export interface CommissionRule {
+  id: string;
+  name: string;
+  type: CommissionRuleType;
+  priority: number;
+  isActive: boolean;
+  partnerId?: string | null;
+  tiers: PartnerTier[];
+  sources: CampaignSource[];
+  minOrderCents?: number | null;
+  maxOrderCents?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  flatAmountCents?: number | null;
+  rate?: number | null;
+  bands?: CommissionBand[] | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TierChange {
+  id: string;
+  partnerId: string;
+  fromTier: PartnerTier;
+  toTier: PartnerTier;
+  reason: TierChangeReason;
+  conversions: number; // rolling window metrics at the time of the change
+  revenueCents: number;
+  changedBy?: string | null;
+  createdAt: Date;
+}
+
+export interface ProgramSetting {
+  key: string;
+  value: unknown;
+  updatedAt: Date;
+}
+
+export interface BalanceAdjustment {
+  id: string;
+  partnerId: string;
+  referralId?: string | null;
+  payoutId?: string | null; // set once deducted from a payout
+  amountCents: number; // negative for clawbacks, positive for bonuses
+  reason: BalanceAdjustmentReason;
+  description: string;
+  createdAt: Date;
+  appliedAt?: Date | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  transactionId: string; // entries of one transaction sum to zero
+  partnerId: string;
+  account: LedgerAccount;
+  type: LedgerEntryType;
+  amountCents: number; // signed change to the account
+  referralId: string | null;
+  payoutId: string | null;
+  description: string;
+  createdBy: string | null; // admin user for bonuses and manual adjustments
+  createdAt: Date;
+}
+
+export interface PayoutRunItem {
+  partnerId: string;
+  payoutId: string | null; // null when no payout could be created
+  amountCents: number;
+  netCents: number;
+  status: PayoutRunItemStatus;
+  transferId?: string | null;
+  error?: string | null;
+  retryable: boolean;
+}
+
+export interface PayoutRun {
+  id: string;
+  trigger: PayoutRunTrigger;
+  status: PayoutRunStatus;
+  triggeredBy?: string | null; // admin user for manual runs
+  items: PayoutRunItem[];
+  transferredCount: number;
+  awaitingApprovalCount: number;
+  failedCount: number;
+  retryableCount: number;
+  transferredCents: number;
+  error?: string | null; // why the run itself stopped
+  startedAt: Date;
+  completedAt?: Date | null;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description?: string | null;
+  secret: string; // signs every delivery
+  events: WebhookEventType[];
+  partnerId?: string | null; // only this partner's events; null for every partner
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string; // ISO timestamp
+  partnerId: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null; // of the last attempt
+  error?: string | null; // of the last attempt
+  nextAttemptAt?: Date | null; // null once delivered or out of attempts
+  lastAttemptAt?: Date | null;
+  deliveredAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface ApiKey {
+  id: string;
+  partnerId: string;
+  name: string;
+  prefix: string; // leading characters of the key, shown to identify it
+  keyHash: string; // SHA-256 of the full key; the key itself is never stored
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface PartnerApplication {
+  id: string;
+  email: string; // lowercased
+  name?: string | null;
+  company?: string | null;
+  website?: string | null;
+  audienceSize?: number | null; // followers, subscribers or members across channels
+  channels: ApplicationChannel[];
+  message?: string | null; // why they want to join
+  status: ApplicationStatus;
+  inviteCode?: string | null;
+  recruitedById?: string | null; // partner whose recruitment link the applicant followed
+  reviewNotes?: string | null; // shown to the applicant when more info is requested
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  partnerId?: string | null; // set on approval
+  accessTokenHash?: string | null; // SHA-256 of the emailed status link token
+  accessTokenExpiresAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InviteCode {
+  id: string;
+  code: string; // uppercase
+  description?: string | null;
+  maxUses?: number | null; // null for unlimited
+  useCount: number; // approved applications that redeemed the code
+  expiresAt?: Date | null;
+  defaultTier: PartnerTier; // granted to partners approved with the code
+  invitedByPartnerId?: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InviteCodeRedemption {
+  id: string;
+  inviteCodeId: string;
+  applicationId: string;
+  email: string;
+  partnerId?: string | null; // set when the application is approved
+  createdAt: Date;
+}
+
+export interface OverrideCommission {
+  id: string;
+  recruiterId: string; // partner credited with the override
+  recruitId: string; // partner whose referral converted
+  referralId: string; // one override per referral
+  rate: number; // fraction of the recruit's commission
+  baseCommissionCents: number; // the recruit's commission
+  amountCents: number;
+  status: OverrideCommissionStatus;
+  payoutId?: string | null; // set once included in a payout
+  reversedAt?: Date | null;
+  createdAt: Date; // held for the payout hold period from here
+}
+
+// Campaign source of a rollup; DIRECT for activity outside a campaign
+export type RollupSource = CampaignSource | 'DIRECT';
+
+export interface DailyRollup {
+  id: string;
+  key: string; // day, partner, campaign and source; one row each
+  day: string; // YYYY-MM-DD in the partner's time zone
+  partnerId: string;
+  campaignId?: string | null;
+  source: RollupSource;
+  clicks: number;
+  uniqueClicks: number; // first click of the day from each visitor
+  signups: number; // referrals created
+  conversions: number; // referrals converted, less refunds and chargebacks
+  revenueCents: number;
+  commissionCents: number;
+  updatedAt: Date;
+}
+
+// Field-level changes of an audited mutation
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actorType: AuditActorType;
+  actorId?: string | null; // user id, partner id or job name
+  action: string; // e.g. partner.suspend, payout.completed
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  changes: AuditChanges;
+  metadata?: Record<string, unknown> | null;
+  requestId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
 }
 
 // ============================================
-// Mock Prisma Client (until database is configured)
+// Client Types (Structural subset of the generated Prisma client)
 // ============================================
 
-interface MockPrismaClient {
+// Only the delegate methods used by the repositories are declared, so the
+// app type-checks without `prisma generate` having run.
+
+type WhereInput = Record<string, unknown>;
+
+type OrderByInput = Record<string, 'asc' | 'desc'> | Array<Record<string, 'asc' | 'desc'>>;
+
+export interface FindManyArgs {
+  where?: WhereInput;
+  orderBy?: OrderByInput;
+  skip?: number;
+  take?: number;
+}
+
+export interface AggregateArgs {
+  where?: WhereInput;
+  _count?: true;
+  _sum?: Record<string, true>;
+}
+
+export interface AggregateResult {
+  _count?: number;
+  _sum?: Record<string, number | null>;
+}
+
+export interface ModelDelegate<T> {
+  findUnique(args: { where: WhereInput }): Promise<T | null>;
+  findFirst(args?: FindManyArgs): Promise<T | null>;
+  findMany(args?: FindManyArgs): Promise<T[]>;
+  count(args?: { where?: WhereInput }): Promise<number>;
+  create(args: { data: object }): Promise<T>;
+  update(args: { where: WhereInput; data: object }): Promise<T>;
+  upsert(args: { where: WhereInput; create: object; update: object }): Promise<T>;
+  updateMany(args: { where: WhereInput; data: object }): Promise<{ count: number }>;
+  delete(args: { where: WhereInput }): Promise<T>;
+  deleteMany(args: { where: WhereInput }): Promise<{ count: number }>;
+  aggregate(args: AggregateArgs): Promise<AggregateResult>;
+}
+
+export interface DatabaseClient {
+  partner: ModelDelegate<Partner>;
+  campaign: ModelDelegate<Campaign>;
+  referral: ModelDelegate<Referral>;
+  clickEvent: ModelDelegate<ClickEvent>;
+  payout: ModelDelegate<Payout>;
+  milestone: ModelDelegate<Milestone>;
+  notification: ModelDelegate<Notification>;
+  pushSubscription: ModelDelegate<PushSubscription>;
+  partnerEvent: ModelDelegate<PartnerEvent>;
+  experiment: ModelDelegate<Experiment>;
+  experimentResult: ModelDelegate<ExperimentResult>;
+  experimentAllocation: ModelDelegate<ExperimentAllocation>;
+  commissionRule: ModelDelegate<CommissionRule>;
+  tierChange: ModelDelegate<TierChange>;
+  programSetting: ModelDelegate<ProgramSetting>;
+  balanceAdjustment: ModelDelegate<BalanceAdjustment>;
+  ledgerEntry: ModelDelegate<LedgerEntry>;
+  payoutRun: ModelDelegate<PayoutRun>;
+  webhookEndpoint: ModelDelegate<WebhookEndpoint>;
+  webhookDelivery: ModelDelegate<WebhookDelivery>;
+  apiKey: ModelDelegate<ApiKey>;
+  auditLog: ModelDelegate<AuditLogEntry>;
+  partnerApplication: ModelDelegate<PartnerApplication>;
+  inviteCode: ModelDelegate<InviteCode>;
+  inviteCodeRedemption: ModelDelegate<InviteCodeRedemption>;
+  overrideCommission: ModelDelegate<OverrideCommission>;
+  dailyRollup: ModelDelegate<DailyRollup>;
   $queryRaw: <T>(query: TemplateStringsArray) => Promise<T>;
   $disconnect: () => Promise<void>;
-  $transaction: <T>(fn: (tx: MockPrismaClient) => Promise<T>, options?: { maxWait?: number; timeout?: number }) => Promise<T>;
+  $transaction: <T>(fn: (tx: DatabaseClient) => Promise<T>, options?: { maxWait?: number; timeout?: number }) => Promise<T>;
 }
 
-function createMockPrismaClient(): MockPrismaClient {
+// ============================================
+// Mock Prisma Client (until database is configured)
+// ============================================
+
+function createUnavailableDelegate<T>(): ModelDelegate<T> {
+  const unavailable = async (): Promise<never> => {
+    throw new Error('Database not configured');
+  };
+  
   return {
+    findUnique: unavailable,
+    findFirst: unavailable,
+    findMany: unavailable,
+    count: unavailable,
+    create: unavailable,
+    update: unavailable,
+    upsert: unavailable,
+    updateMany: unavailable,
+    delete: unavailable,
+    deleteMany: unavailable,
+    aggregate: unavailable,
+  };
+}
+
+function createMockPrismaClient(): DatabaseClient {
+  return {
+    partner: createUnavailableDelegate(),
+    campaign: createUnavailableDelegate(),
+    referral: createUnavailableDelegate(),
+    clickEvent: createUnavailableDelegate(),
+    payout: createUnavailableDelegate(),
+    milestone: createUnavailableDelegate(),
+    notification: createUnavailableDelegate(),
+    pushSubscription: createUnavailableDelegate(),
+    partnerEvent: createUnavailableDelegate(),
+    experiment: createUnavailableDelegate(),
+    experimentResult: createUnavailableDelegate(),
+    experimentAllocation: createUnavailableDelegate(),
+    commissionRule: createUnavailableDelegate(),
+    tierChange: createUnavailableDelegate(),
+    programSetting: createUnavailableDelegate(),
+    balanceAdjustment: createUnavailableDelegate(),
+    ledgerEntry: createUnavailableDelegate(),
+    payoutRun: createUnavailableDelegate(),
+    webhookEndpoint: createUnavailableDelegate(),
+    webhookDelivery: createUnavailableDelegate(),
+    apiKey: createUnavailableDelegate(),
+    auditLog: createUnavailableDelegate(),
+    partnerApplication: createUnavailableDelegate(),
+    inviteCode: createUnavailableDelegate(),
+    inviteCodeRedemption: createUnavailableDelegate(),
+    overrideCommission: createUnavailableDelegate(),
+    dailyRollup: createUnavailableDelegate(),
     $queryRaw: async <T>(_query: TemplateStringsArray): Promise<T> => {
       throw new Error('Database not configured');
     },
     $disconnect: async () => {
       // No-op
     },
-    $transaction: async <T>(fn: (tx: MockPrismaClient) => Promise<T>): Promise<T> => {
+    $transaction: async <T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T> => {
       return fn(createMockPrismaClient());
     },
   };
 }
 
+/**
+ * Driver adapter Prisma connects through
+ * `file:` URLs open a local SQLite database, used to test the Prisma
+ * repositories; any other URL is MySQL (PlanetScale)
+ */
+function createDriverAdapter(url: string): object {
+  if (url.startsWith('file:')) {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { PrismaBetterSqlite3 } = require('@prisma/adapter-better-sqlite3') as {
+      PrismaBetterSqlite3: new (config: { url: string }) => object;
+    };
+    return new PrismaBetterSqlite3({ url });
+  }
+  
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { PrismaMariaDb } = require('@prisma/adapter-mariadb') as {
+    PrismaMariaDb: new (config: string) => object;
+  };
+  return new PrismaMariaDb(url);
+}
+
+/**
+ * Load the generated Prisma client
+ * Returns null when `prisma generate` has not been run
+ */
+function createPrismaClient(): DatabaseClient | null {
+  if (!features.hasDatabase) {
+    return null;
+  }
+  
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { PrismaClient } = require('@prisma/client') as {
+      PrismaClient: new (options: { adapter: object; log: string[] }) => DatabaseClient;
+    };
+    
+    return new PrismaClient({
+      adapter: createDriverAdapter(getDatabaseUrl()),
+      log: isDevelopment() ? ['warn', 'error'] : ['error'],
+    });
+  } catch (error) {
+    console.warn(
+      '[DB] Prisma client not available, run `npx prisma generate`:',
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
 // ============================================
 // Global Client (Singleton Pattern)
 // ============================================
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: MockPrismaClient | undefined;
+  prisma: DatabaseClient | undefined;
+  prismaAvailable: boolean | undefined;
 };
 
+const generatedClient = globalForPrisma.prisma ? null : createPrismaClient();
+
+/**
+ * Whether a real Prisma client is connected
+ * Repositories fall back to the in-memory store when false
+ */
+export const isPrismaAvailable = globalForPrisma.prismaAvailable ?? generatedClient !== null;
+
 /**
  * Get the Prisma client instance
  * Uses singleton pattern to prevent multiple connections in development
  */
-export const prisma = globalForPrisma.prisma ?? createMockPrismaClient();
+export const prisma: DatabaseClient = globalForPrisma.prisma ?? generatedClient ?? createMockPrismaClient();
 
 if (isDevelopment()) {
   globalForPrisma.prisma = prisma;
+  globalForPrisma.prismaAvailable = isPrismaAvailable;
+}
+
+/**
+ * Check if an error is Prisma's "record not found" error (P2025)
+ */
+export function isRecordNotFoundError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: unknown }).code === 'P2025'
+  );
 }
 
 // ============================================
@@ -215,7 +783,7 @@ export async function checkDatabaseHealth(): Promise<{
  * Execute a transaction with automatic retry on deadlock
  */
 export async function withTransaction<T>(
-  fn: (tx: MockPrismaClient) => Promise<T>,
+  fn: (tx: DatabaseClient) => Promise<T>,
   maxRetries: number = 3
 ): Promise<T> {
   let lastError: Error | null = null;
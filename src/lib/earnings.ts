@@ -0,0 +1,148 @@
+/**
+ * Partner Earnings Buckets
+ * Splits commission into pending, available and paid amounts
+ *
+ * Converted commission is held for a refund window after `convertedAt`
+ * before it can be paid out. Commission linked to a payout, or already
+ * marked paid, counts as paid. Recruiter overrides are held and paid the
+ * same way, from when they were earned.
+ *
+ * This module is pure; payouts are created by payment-service.ts.
+ */
+
+import { z } from 'zod';
+import type { OverrideCommission, Referral, ReferralStatus } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PayoutSettings {
+  holdDays: number; // refund window before converted commission can be paid out
+  autoApproveThreshold: number; // payout runs transfer payouts under this many cents without approval
+}
+
+export type EarningsBucket = 'pending' | 'available' | 'paid';
+
+export interface EarningsBuckets {
+  pendingCents: number;
+  availableCents: number;
+  paidCents: number;
+}
+
+export type EarningReferral = Pick<Referral, 'status' | 'commissionCents' | 'convertedAt'> &
+  Partial<Pick<Referral, 'payoutId'>>;
+
+export type EarningOverride = Pick<OverrideCommission, 'id' | 'status' | 'amountCents' | 'createdAt'> &
+  Partial<Pick<OverrideCommission, 'payoutId'>>;
+
+// ============================================
+// Settings
+// ============================================
+
+// Used until an admin saves payout settings
+export const DEFAULT_PAYOUT_SETTINGS: PayoutSettings = {
+  holdDays: 30,
+  autoApproveThreshold: 50000,
+};
+
+export const payoutSettingsSchema = z.object({
+  holdDays: z.number().int().min(0).max(365),
+  autoApproveThreshold: z.number().int().min(0),
+});
+
+// ============================================
+// Buckets
+// ============================================
+
+// Referral status with the same bucket as each override status
+const OVERRIDE_EARNING_STATUS: Record<OverrideCommission['status'], ReferralStatus> = {
+  EARNED: 'CONVERTED',
+  PAID: 'PAID',
+  REVERSED: 'REFUNDED',
+};
+
+/**
+ * An override as commission earned when it was credited
+ */
+export function toOverrideEarning(override: EarningOverride): EarningReferral & { id: string } {
+  return {
+    id: override.id,
+    status: OVERRIDE_EARNING_STATUS[override.status],
+    commissionCents: override.amountCents,
+    convertedAt: override.createdAt,
+    payoutId: override.payoutId ?? null,
+  };
+}
+
+/**
+ * Latest conversion time that is past the hold period
+ */
+export function getHoldCutoff(holdDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - holdDays * DAY_MS);
+}
+
+/**
+ * Bucket for a referral's commission, or null if it earns nothing
+ */
+export function getEarningsBucket(
+  referral: EarningReferral,
+  cutoff: Date
+): EarningsBucket | null {
+  if (referral.status === 'PAID' || referral.payoutId) return 'paid';
+  if (referral.status !== 'CONVERTED') return null;
+
+  return referral.convertedAt && referral.convertedAt <= cutoff ? 'available' : 'pending';
+}
+
+/**
+ * Total commission in each bucket
+ */
+export function computeEarningsBuckets(
+  referrals: EarningReferral[],
+  holdDays: number,
+  now: Date = new Date()
+): EarningsBuckets {
+  const cutoff = getHoldCutoff(holdDays, now);
+  const buckets: EarningsBuckets = { pendingCents: 0, availableCents: 0, paidCents: 0 };
+
+  for (const referral of referrals) {
+    const bucket = getEarningsBucket(referral, cutoff);
+    if (bucket) buckets[`${bucket}Cents`] += referral.commissionCents;
+  }
+
+  return buckets;
+}
+
+/**
+ * Pick the oldest available referrals that cover an amount
+ * Returns null when the available commission falls short
+ */
+export function selectPayoutReferrals<T extends EarningReferral>(
+  referrals: T[],
+  amountCents: number,
+  holdDays: number,
+  now: Date = new Date()
+): T[] | null {
+  const cutoff = getHoldCutoff(holdDays, now);
+  const available = referrals
+    .filter(r => getEarningsBucket(r, cutoff) === 'available')
+    .sort((a, b) => a.convertedAt!.getTime() - b.convertedAt!.getTime());
+
+  const selected: T[] = [];
+  let coveredCents = 0;
+
+  for (const referral of available) {
+    if (coveredCents >= amountCents) break;
+    selected.push(referral);
+    coveredCents += referral.commissionCents;
+  }
+
+  return coveredCents >= amountCents ? selected : null;
+}
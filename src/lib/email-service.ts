@@ -8,8 +8,10 @@ import { WelcomeEmail } from '@/emails/WelcomeEmail';
 import { ConversionEmail } from '@/emails/ConversionEmail';
 import { PayoutEmail } from '@/emails/PayoutEmail';
 import { WeeklyDigestEmail } from '@/emails/WeeklyDigestEmail';
+import { ApplicationLinkEmail } from '@/emails/ApplicationLinkEmail';
 import { logger } from './monitoring';
-import type { Partner, PartnerTier } from './db';
+import { getPartnerCommissionRate } from './commission-service';
+import type { Partner } from './db';
 
 // ============================================
 // Configuration
@@ -17,26 +19,18 @@ import type { Partner, PartnerTier } from './db';
 
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://innercircle.co';
 
-// Commission rates by tier
-const COMMISSION_RATES: Record<PartnerTier, number> = {
-  STANDARD: 15,
-  SILVER: 18,
-  GOLD: 22,
-  PLATINUM: 25,
-};
-
 // ============================================
 // Welcome Email
 // ============================================
 
 export interface SendWelcomeEmailParams {
-  partner: Pick<Partner, 'email' | 'name' | 'referralCode' | 'tier'>;
+  partner: Pick<Partner, 'email' | 'name' | 'referralCode' | 'tier'> & Partial<Pick<Partner, 'id'>>;
 }
 
 export async function sendWelcomeEmail({
   partner,
 }: SendWelcomeEmailParams): Promise<EmailResult> {
-  const commissionRate = COMMISSION_RATES[partner.tier];
+  const commissionRate = Math.round((await getPartnerCommissionRate(partner)) * 100);
   const referralLink = `${APP_URL}/r/${partner.referralCode}`;
   
   logger.info('[EmailService] Sending welcome email', {
@@ -61,6 +55,38 @@ export async function sendWelcomeEmail({
   });
 }
 
+// ============================================
+// Application Link Email
+// ============================================
+
+export interface SendApplicationLinkEmailParams {
+  email: string;
+  token: string;
+  expiresInHours: number;
+}
+
+export async function sendApplicationLinkEmail({
+  email,
+  token,
+  expiresInHours,
+}: SendApplicationLinkEmailParams): Promise<EmailResult> {
+  const params = new URLSearchParams({ email, token });
+
+  logger.info('[EmailService] Sending application link');
+
+  return sendEmail({
+    to: { email },
+    subject: 'Your Inner Circle partner application',
+    react: ApplicationLinkEmail({
+      statusLink: `${APP_URL}/application?${params.toString()}`,
+      expiresInHours,
+    }),
+    tags: [
+      { name: 'category', value: 'application' },
+    ],
+  });
+}
+
 // ============================================
 // Conversion Notification Email
 // ============================================
@@ -40,6 +40,11 @@ const envSchema = z.object({
   RESEND_API_KEY: z.string().optional(),
   EMAIL_FROM: z.string().email().optional(),
   
+  // Web Push (VAPID)
+  NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().optional(),
+  
   // Payments (Stripe)
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
@@ -120,6 +125,11 @@ export const features = {
    */
   hasEmail: Boolean(env.RESEND_API_KEY && env.EMAIL_FROM),
   
+  /**
+   * Is Web Push configured?
+   */
+  hasPush: Boolean(env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY && env.VAPID_SUBJECT),
+  
   /**
    * Is Stripe configured?
    */
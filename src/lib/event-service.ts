@@ -0,0 +1,148 @@
+/**
+ * Partner Event Service
+ * Records partner activity and streams it to the dashboard over SSE
+ *
+ * Notifications, conversions, payout status changes and milestone unlocks
+ * are stored as numbered events. An open stream reads the events after its
+ * position every couple of seconds, so events recorded by any server
+ * instance reach it, and a browser that reconnects with Last-Event-ID
+ * gets what it missed. Events are kept for EVENT_RETENTION_HOURS.
+ */
+
+import { getPartnerEventRepository } from './repositories';
+import {
+  EVENT_BATCH_SIZE,
+  EVENT_HEARTBEAT_INTERVAL_MS,
+  EVENT_POLL_INTERVAL_MS,
+  EVENT_RETENTION_HOURS,
+  EVENT_STREAM_DURATION_MS,
+  SSE_HEARTBEAT,
+  formatServerSentEvent,
+  formatStreamStart,
+} from './partner-events';
+import { logger } from './monitoring';
+import type { PartnerEventType } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PartnerEventStreamOptions {
+  // Resume after this event; without it the stream starts at the newest event
+  lastEventId?: number | null;
+  // Closes the stream when the client disconnects
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  durationMs?: number;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record an event for a partner's open streams
+ * Failures are logged and never fail the action that caused the event
+ */
+export async function publishPartnerEvent(
+  partnerId: string,
+  type: PartnerEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await getPartnerEventRepository().create({ partnerId, type, data });
+  } catch (error) {
+    logger.error('[EventService] Failed to record event', error, { partnerId, type });
+  }
+}
+
+/**
+ * Delete events older than the retention window
+ */
+export async function prunePartnerEvents(now: Date = new Date()): Promise<number> {
+  const before = new Date(now.getTime() - EVENT_RETENTION_HOURS * 60 * 60 * 1000);
+  return getPartnerEventRepository().deleteOlderThan(before);
+}
+
+// ============================================
+// Streaming
+// ============================================
+
+/**
+ * Open a text/event-stream of a partner's events
+ * Ends after the stream duration or when the signal aborts
+ */
+export async function openPartnerEventStream(
+  partnerId: string,
+  options: PartnerEventStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const repo = getPartnerEventRepository();
+  let cursor = options.lastEventId ?? (await repo.findLatestId(partnerId));
+
+  const encoder = new TextEncoder();
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  let reading = false;
+
+  // Stops the timers; the controller is closed unless the client cancelled
+  const stop = () => {
+    closed = true;
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+    clearTimeout(deadlineTimer);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (message: string) => {
+        if (!closed) controller.enqueue(encoder.encode(message));
+      };
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        options.signal?.removeEventListener('abort', close);
+        controller.close();
+      };
+
+      const sendNewEvents = async () => {
+        if (reading || closed) return;
+        reading = true;
+        try {
+          for (;;) {
+            const events = await repo.findAfter(partnerId, cursor, { limit: EVENT_BATCH_SIZE });
+            for (const event of events) {
+              send(formatServerSentEvent(event));
+              cursor = event.id;
+            }
+            if (events.length < EVENT_BATCH_SIZE || closed) break;
+          }
+        } catch (error) {
+          logger.error('[EventService] Failed to read events', error, { partnerId, cursor });
+        } finally {
+          reading = false;
+        }
+      };
+
+      if (options.signal?.aborted) {
+        close();
+        return;
+      }
+      options.signal?.addEventListener('abort', close);
+
+      send(formatStreamStart(cursor));
+      void sendNewEvents();
+
+      pollTimer = setInterval(() => void sendNewEvents(), options.pollIntervalMs ?? EVENT_POLL_INTERVAL_MS);
+      heartbeatTimer = setInterval(() => send(SSE_HEARTBEAT), options.heartbeatIntervalMs ?? EVENT_HEARTBEAT_INTERVAL_MS);
+      deadlineTimer = setTimeout(close, options.durationMs ?? EVENT_STREAM_DURATION_MS);
+    },
+
+    cancel() {
+      stop();
+    },
+  });
+}
@@ -0,0 +1,314 @@
+/**
+ * Experiment Service
+ * Partner share template experiments: management, assignment and results
+ *
+ * Shares rendered in ShareKit are assigned a variant and logged as
+ * impressions; clicks on the variant's link and the conversions they lead
+ * to are credited back through the referral redirect and conversion path.
+ * Results only accrue while an experiment is RUNNING, and a failure to
+ * record one is logged and never fails the share, click or conversion.
+ *
+ * BANDIT experiments start with an equal split and are reallocated by
+ * Thompson sampling on a schedule while RUNNING; pausing or completing an
+ * experiment freezes its allocation. Every allocation is kept as history.
+ */
+
+import {
+  getExperimentAllocationRepository,
+  getExperimentRepository,
+  getExperimentResultRepository,
+} from './repositories';
+import {
+  assignVariant,
+  buildExperimentResults,
+  buildVariants,
+  canTransition,
+  parseExperimentParam,
+  sumExperimentResults,
+  type ExperimentCounts,
+  type ExperimentInput,
+  type ExperimentRef,
+  type ExperimentUpdate,
+  type ExperimentWithResults,
+  type ShareAssignment,
+} from './experiments';
+import { computeBanditAllocation, equalAllocation, type RandomSource } from './bandit';
+import { logger } from './monitoring';
+import { generateRandomString } from './utils';
+import type { Experiment, ExperimentStatus, Referral } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExperimentUpdateResult {
+  success: boolean;
+  experiment?: ExperimentWithResults;
+  error?: string;
+  errorCode?: 'NOT_FOUND' | 'INVALID_TRANSITION' | 'VARIANT_NOT_FOUND';
+}
+
+export interface BanditAllocationSummary {
+  experiments: number;
+  updated: number;
+  failed: number;
+}
+
+// ============================================
+// Management
+// ============================================
+
+async function withResults(experiment: Experiment): Promise<ExperimentWithResults> {
+  const [results, allocations] = await Promise.all([
+    getExperimentResultRepository().findByExperimentId(experiment.id),
+    experiment.allocationMode === 'BANDIT'
+      ? getExperimentAllocationRepository().findByExperimentId(experiment.id)
+      : [],
+  ]);
+  return buildExperimentResults(experiment, results, allocations);
+}
+
+/**
+ * A partner's experiments with their results, newest first
+ */
+export async function listPartnerExperiments(
+  partnerId: string,
+  status?: ExperimentStatus
+): Promise<ExperimentWithResults[]> {
+  const experiments = await getExperimentRepository().findByPartnerId(partnerId, { status });
+  return Promise.all(experiments.map(withResults));
+}
+
+/**
+ * Create a DRAFT experiment; it starts assigning variants once RUNNING
+ */
+export async function createExperiment(partnerId: string, input: ExperimentInput): Promise<ExperimentWithResults> {
+  const experiment = await getExperimentRepository().create({
+    partnerId,
+    name: input.name,
+    description: input.description ?? null,
+    status: 'DRAFT',
+    variants: buildVariants(input.variants, () => `var-${generateRandomString(8)}`),
+    targetRatio: input.targetRatio,
+    allocationMode: input.allocationMode,
+    explorationFloor: input.explorationFloor,
+    minSampleSize: input.minSampleSize,
+    confidenceLevel: input.confidenceLevel,
+    startedAt: null,
+    endedAt: null,
+  });
+
+  logger.info('[ExperimentService] Experiment created', { experimentId: experiment.id, partnerId });
+
+  return withResults(experiment);
+}
+
+/**
+ * Move an experiment through DRAFT → RUNNING ⇄ PAUSED → COMPLETED
+ * Declaring a winner completes the experiment
+ */
+export async function updateExperiment(
+  id: string,
+  input: ExperimentUpdate,
+  now: Date = new Date()
+): Promise<ExperimentUpdateResult> {
+  const repo = getExperimentRepository();
+  const existing = await repo.findById(id);
+
+  if (!existing) {
+    return { success: false, error: 'Experiment not found', errorCode: 'NOT_FOUND' };
+  }
+
+  const status = input.winnerId ? 'COMPLETED' : input.status ?? existing.status;
+  if (input.status && input.winnerId && input.status !== 'COMPLETED') {
+    return { success: false, error: 'Declaring a winner completes the experiment', errorCode: 'INVALID_TRANSITION' };
+  }
+  if (status !== existing.status && !canTransition(existing.status, status)) {
+    return {
+      success: false,
+      error: `Cannot move an experiment from ${existing.status} to ${status}`,
+      errorCode: 'INVALID_TRANSITION',
+    };
+  }
+  if (input.winnerId && !existing.variants.some(v => v.id === input.winnerId)) {
+    return { success: false, error: 'Variant not found', errorCode: 'VARIANT_NOT_FOUND' };
+  }
+
+  // A bandit starts from an equal split
+  const startsBandit = existing.allocationMode === 'BANDIT' && status === 'RUNNING' && !existing.startedAt;
+  const startingWeights = startsBandit ? equalAllocation(existing.variants.map(v => v.id)) : null;
+
+  const experiment = await repo.update(id, {
+    status,
+    ...(input.winnerId && {
+      variants: existing.variants.map(v => ({ ...v, isWinner: v.id === input.winnerId })),
+    }),
+    ...(startingWeights && {
+      variants: existing.variants.map(v => ({ ...v, weight: startingWeights[v.id] ?? null })),
+    }),
+    ...(status === 'RUNNING' && !existing.startedAt && { startedAt: now }),
+    ...(status === 'COMPLETED' && { endedAt: now }),
+  });
+
+  if (!experiment) {
+    return { success: false, error: 'Experiment not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (startingWeights) {
+    await getExperimentAllocationRepository().create({ experimentId: id, weights: startingWeights, createdAt: now });
+  }
+
+  logger.info('[ExperimentService] Experiment updated', {
+    experimentId: id,
+    status,
+    winnerId: input.winnerId,
+  });
+
+  return { success: true, experiment: await withResults(experiment) };
+}
+
+// ============================================
+// Bandit Allocation
+// ============================================
+
+/**
+ * Reallocate a RUNNING bandit from its results so far and record the allocation
+ */
+async function reallocateExperiment(experiment: Experiment, now: Date, random: RandomSource): Promise<void> {
+  const totals = sumExperimentResults(
+    await getExperimentResultRepository().findByExperimentId(experiment.id)
+  );
+  const weights = computeBanditAllocation(
+    experiment.variants.map(v => ({
+      id: v.id,
+      impressions: totals.get(v.id)?.impressions ?? 0,
+      clicks: totals.get(v.id)?.clicks ?? 0,
+    })),
+    { explorationFloor: experiment.explorationFloor, random }
+  );
+
+  await getExperimentRepository().update(experiment.id, {
+    variants: experiment.variants.map(v => ({ ...v, weight: weights[v.id] ?? null })),
+  });
+  await getExperimentAllocationRepository().create({ experimentId: experiment.id, weights, createdAt: now });
+}
+
+/**
+ * Reallocate traffic of every RUNNING bandit experiment
+ * Paused, completed and draft experiments keep their allocation
+ */
+export async function updateBanditAllocations(
+  now: Date = new Date(),
+  random: RandomSource = Math.random
+): Promise<BanditAllocationSummary> {
+  const running = await getExperimentRepository().findByStatus('RUNNING');
+  const bandits = running.filter(e => e.allocationMode === 'BANDIT');
+  const summary: BanditAllocationSummary = { experiments: bandits.length, updated: 0, failed: 0 };
+
+  for (const experiment of bandits) {
+    try {
+      await reallocateExperiment(experiment, now, random);
+      summary.updated++;
+    } catch (error) {
+      summary.failed++;
+      logger.error('[ExperimentService] Failed to reallocate experiment', error, { experimentId: experiment.id });
+    }
+  }
+
+  logger.info('[ExperimentService] Bandit allocations updated', { ...summary });
+
+  return summary;
+}
+
+// ============================================
+// Assignment & Crediting
+// ============================================
+
+async function recordResult(ref: ExperimentRef, metrics: Partial<ExperimentCounts>, at: Date): Promise<void> {
+  try {
+    await getExperimentResultRepository().increment(ref.experimentId, ref.variantId, at, metrics);
+  } catch (error) {
+    logger.error('[ExperimentService] Failed to record experiment result', error, { ...ref, ...metrics });
+  }
+}
+
+/**
+ * Resolve a credited variant of a partner's running experiment
+ */
+async function findRunningVariant(partnerId: string, ref: ExperimentRef): Promise<ExperimentRef | null> {
+  const experiment = await getExperimentRepository().findById(ref.experimentId);
+  if (!experiment || experiment.status !== 'RUNNING') return null;
+  if (experiment.partnerId !== partnerId) return null;
+  return experiment.variants.some(v => v.id === ref.variantId) ? ref : null;
+}
+
+/**
+ * Assign a share a variant of each of the partner's running experiments
+ * and log an impression for each
+ */
+export async function assignShareVariants(
+  partnerId: string,
+  shareId: string,
+  now: Date = new Date()
+): Promise<ShareAssignment[]> {
+  const experiments = await getExperimentRepository().findByPartnerId(partnerId, { status: 'RUNNING' });
+  const assignments: ShareAssignment[] = [];
+
+  for (const experiment of experiments) {
+    const variant = assignVariant(experiment, shareId);
+    if (!variant) continue;
+
+    const assignment = {
+      experimentId: experiment.id,
+      variantId: variant.id,
+      experimentName: experiment.name,
+      variantName: variant.name,
+      content: variant.content,
+    };
+    await recordResult(assignment, { impressions: 1 }, now);
+    assignments.push(assignment);
+  }
+
+  return assignments;
+}
+
+/**
+ * Credit a referral link click to the variant named in its `x` parameter
+ * Returns the variant to carry in the attribution token, or null
+ */
+export async function creditExperimentClick(
+  partnerId: string,
+  param: string | null,
+  now: Date = new Date()
+): Promise<ExperimentRef | null> {
+  const parsed = parseExperimentParam(param);
+  if (!parsed) return null;
+
+  try {
+    const ref = await findRunningVariant(partnerId, parsed);
+    if (ref) await recordResult(ref, { clicks: 1 }, now);
+    return ref;
+  } catch (error) {
+    logger.error('[ExperimentService] Failed to credit experiment click', error, { partnerId, ...parsed });
+    return null;
+  }
+}
+
+/**
+ * Credit a converted referral to the variant whose link the customer clicked
+ */
+export async function creditExperimentConversion(
+  referral: Pick<Referral, 'id' | 'partnerId' | 'experimentId' | 'experimentVariant' | 'convertedAt'>
+): Promise<void> {
+  if (!referral.experimentId || !referral.experimentVariant) return;
+
+  try {
+    const ref = await findRunningVariant(referral.partnerId, {
+      experimentId: referral.experimentId,
+      variantId: referral.experimentVariant,
+    });
+    if (ref) await recordResult(ref, { conversions: 1 }, referral.convertedAt ?? new Date());
+  } catch (error) {
+    logger.error('[ExperimentService] Failed to credit experiment conversion', error, { referralId: referral.id });
+  }
+}
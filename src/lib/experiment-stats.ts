@@ -0,0 +1,304 @@
+/**
+ * Experiment Statistics
+ * Significance testing for share template A/B tests
+ *
+ * Each variant is compared with the control on two rates: click-through
+ * (clicks / impressions) and conversion (conversions / clicks). A comparison
+ * uses a two-sided two-proportion z-test at the experiment's confidence
+ * level, a confidence interval for the difference in rates, and the
+ * Bayesian probability that the variant's rate beats the control's under
+ * uniform Beta(1, 1) priors.
+ *
+ * Results are only significant once every variant has reached the
+ * experiment's minimum sample size (impressions).
+ *
+ * This module is pure and safe to use in the browser.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+// Above this many successes the Bayesian probability uses a normal approximation
+const EXACT_BAYES_LIMIT = 5000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface VariantCounts {
+  id: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  isControl: boolean;
+}
+
+export interface ExperimentSettings {
+  minSampleSize: number;
+  confidenceLevel: number; // percent, e.g. 95
+}
+
+export interface RateEstimate {
+  rate: number; // percent
+  lower: number; // Wilson interval, percent
+  upper: number;
+}
+
+export interface RateComparison {
+  lift: number; // relative change against the control, percent
+  difference: number; // absolute difference in percentage points
+  differenceLower: number;
+  differenceUpper: number;
+  zScore: number;
+  pValue: number;
+  confidence: number; // (1 - pValue) as a percent
+  probabilityToBeatControl: number; // percent
+  significant: boolean;
+}
+
+export interface VariantStats {
+  variantId: string;
+  isControl: boolean;
+  ctr: RateEstimate;
+  conversionRate: RateEstimate;
+  // Null for the control
+  ctrComparison: RateComparison | null;
+  conversionComparison: RateComparison | null;
+}
+
+export interface ExperimentStats {
+  variants: VariantStats[];
+  hasMinSampleSize: boolean;
+  samplesNeeded: number; // impressions still needed by the smallest variant
+  winnerId: string | null;
+}
+
+// ============================================
+// Distributions
+// ============================================
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26 via erf)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal distribution (Acklam's approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  const tail = (q: number) =>
+    (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+    ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+
+  if (p < low) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - low) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Two-sided critical z value for a confidence level in percent
+ */
+export function criticalZ(confidenceLevel: number): number {
+  return normalQuantile(1 - (1 - confidenceLevel / 100) / 2);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7)
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+
+  const shifted = x - 1;
+  let sum = coefficients[0]!;
+  for (let i = 1; i < coefficients.length; i++) sum += coefficients[i]! / (shifted + i);
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+}
+
+// ============================================
+// Tests
+// ============================================
+
+/**
+ * Wilson score interval for a rate, in percent
+ */
+export function estimateRate(successes: number, trials: number, confidenceLevel: number): RateEstimate {
+  if (trials === 0) return { rate: 0, lower: 0, upper: 0 };
+
+  const z = criticalZ(confidenceLevel);
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+
+  return {
+    rate: p * 100,
+    lower: Math.max(0, center - margin) * 100,
+    upper: Math.min(1, center + margin) * 100,
+  };
+}
+
+/**
+ * Two-sided two-proportion z-test with a pooled standard error
+ */
+export function twoProportionZTest(
+  controlSuccesses: number,
+  controlTrials: number,
+  variantSuccesses: number,
+  variantTrials: number
+): { zScore: number; pValue: number } {
+  if (controlTrials === 0 || variantTrials === 0) return { zScore: 0, pValue: 1 };
+
+  const pooled = (controlSuccesses + variantSuccesses) / (controlTrials + variantTrials);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / controlTrials + 1 / variantTrials));
+  if (standardError === 0) return { zScore: 0, pValue: 1 };
+
+  const zScore = (variantSuccesses / variantTrials - controlSuccesses / controlTrials) / standardError;
+  return { zScore, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore)))) };
+}
+
+/**
+ * Probability that the variant's true rate exceeds the control's
+ * Exact for Beta posteriors with uniform priors, approximated for large counts
+ */
+export function probabilityToBeatControl(
+  controlSuccesses: number,
+  controlTrials: number,
+  variantSuccesses: number,
+  variantTrials: number
+): number {
+  const alphaA = controlSuccesses + 1;
+  const betaA = controlTrials - controlSuccesses + 1;
+  const alphaB = variantSuccesses + 1;
+  const betaB = variantTrials - variantSuccesses + 1;
+
+  if (alphaB > EXACT_BAYES_LIMIT) {
+    const mean = (alpha: number, beta: number) => alpha / (alpha + beta);
+    const variance = (alpha: number, beta: number) =>
+      (alpha * beta) / ((alpha + beta) ** 2 * (alpha + beta + 1));
+    const z = (mean(alphaB, betaB) - mean(alphaA, betaA)) /
+      Math.sqrt(variance(alphaA, betaA) + variance(alphaB, betaB));
+    return normalCdf(z);
+  }
+
+  let total = 0;
+  const logBetaA = logBeta(alphaA, betaA);
+  for (let i = 0; i < alphaB; i++) {
+    total += Math.exp(
+      logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - logBeta(1 + i, betaB) - logBetaA
+    );
+  }
+  return Math.min(1, Math.max(0, total));
+}
+
+/**
+ * Compare a variant's rate with the control's
+ */
+export function compareRates(
+  control: { successes: number; trials: number },
+  variant: { successes: number; trials: number },
+  settings: ExperimentSettings & { hasMinSampleSize: boolean }
+): RateComparison {
+  const controlRate = control.trials > 0 ? control.successes / control.trials : 0;
+  const variantRate = variant.trials > 0 ? variant.successes / variant.trials : 0;
+  const { zScore, pValue } = twoProportionZTest(control.successes, control.trials, variant.successes, variant.trials);
+
+  const z = criticalZ(settings.confidenceLevel);
+  const standardError = control.trials > 0 && variant.trials > 0
+    ? Math.sqrt(
+        (controlRate * (1 - controlRate)) / control.trials +
+        (variantRate * (1 - variantRate)) / variant.trials
+      )
+    : 0;
+  const difference = variantRate - controlRate;
+
+  return {
+    lift: controlRate > 0 ? (difference / controlRate) * 100 : 0,
+    difference: difference * 100,
+    differenceLower: (difference - z * standardError) * 100,
+    differenceUpper: (difference + z * standardError) * 100,
+    zScore,
+    pValue,
+    confidence: (1 - pValue) * 100,
+    probabilityToBeatControl:
+      probabilityToBeatControl(control.successes, control.trials, variant.successes, variant.trials) * 100,
+    significant: settings.hasMinSampleSize && pValue < 1 - settings.confidenceLevel / 100,
+  };
+}
+
+// ============================================
+// Experiments
+// ============================================
+
+/**
+ * Statistics for every variant of an experiment
+ * The winner is the variant whose click-through rate beats the control
+ * significantly with the highest probability; null until one does
+ */
+export function analyzeExperiment(variants: VariantCounts[], settings: ExperimentSettings): ExperimentStats {
+  const control = variants.find(v => v.isControl) ?? variants[0];
+  const smallest = variants.length > 0 ? Math.min(...variants.map(v => v.impressions)) : 0;
+  const hasMinSampleSize = variants.length > 0 && smallest >= settings.minSampleSize;
+  const context = { ...settings, hasMinSampleSize };
+
+  const stats = variants.map<VariantStats>(variant => {
+    const isControl = variant.id === control?.id;
+    return {
+      variantId: variant.id,
+      isControl,
+      ctr: estimateRate(variant.clicks, variant.impressions, settings.confidenceLevel),
+      conversionRate: estimateRate(variant.conversions, variant.clicks, settings.confidenceLevel),
+      ctrComparison: control && !isControl
+        ? compareRates(
+            { successes: control.clicks, trials: control.impressions },
+            { successes: variant.clicks, trials: variant.impressions },
+            context
+          )
+        : null,
+      conversionComparison: control && !isControl
+        ? compareRates(
+            { successes: control.conversions, trials: control.clicks },
+            { successes: variant.conversions, trials: variant.clicks },
+            context
+          )
+        : null,
+    };
+  });
+
+  const winner = stats
+    .filter(s => s.ctrComparison?.significant && s.ctrComparison.difference > 0)
+    .sort((a, b) => (b.ctrComparison?.probabilityToBeatControl ?? 0) - (a.ctrComparison?.probabilityToBeatControl ?? 0))[0];
+
+  return {
+    variants: stats,
+    hasMinSampleSize,
+    samplesNeeded: Math.max(0, settings.minSampleSize - smallest),
+    winnerId: winner?.variantId ?? null,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Share Template Experiments
+ * Variant assignment, status transitions and results for share message A/B tests
+ *
+ * A unit (a share or a visitor) is hashed with the experiment id to a point
+ * in [0, 1) and gets the variant whose slice of traffic covers it, so the
+ * same unit always sees the same variant. When every variant has a weight,
+ * traffic is split by weight; otherwise the control gets 1 - targetRatio
+ * and the other variants share targetRatio equally.
+ *
+ * In BANDIT mode the weights are rewritten while the experiment runs
+ * (see bandit.ts), so traffic moves toward the best performing variant.
+ *
+ * Share links carry the experiment and variant in the `x` parameter, so the
+ * referral redirect and the attribution token can credit clicks and
+ * conversions back to the variant. Results are counted per variant and UTC
+ * day in ExperimentResult rows.
+ *
+ * This module is pure; experiments are loaded and recorded by experiment-service.ts.
+ */
+
+import { z } from 'zod';
+import { analyzeExperiment, type ExperimentStats } from './experiment-stats';
+import { DEFAULT_EXPLORATION_FLOOR } from './bandit';
+import type {
+  Experiment,
+  ExperimentAllocation,
+  ExperimentResult,
+  ExperimentStatus,
+  ExperimentVariant,
+} from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Query parameter on share links naming the experiment and variant
+export const EXPERIMENT_PARAM = 'x';
+
+export const EXPERIMENT_STATUSES = ['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED'] as const;
+
+export const ALLOCATION_MODES = ['FIXED', 'BANDIT'] as const;
+
+const STATUS_TRANSITIONS: Record<ExperimentStatus, ExperimentStatus[]> = {
+  DRAFT: ['RUNNING'],
+  RUNNING: ['PAUSED', 'COMPLETED'],
+  PAUSED: ['RUNNING', 'COMPLETED'],
+  COMPLETED: [],
+  ARCHIVED: [],
+};
+
+// ============================================
+// Types
+// ============================================
+
+export type ExperimentMetric = 'impressions' | 'clicks' | 'conversions';
+
+export type ExperimentCounts = Record<ExperimentMetric, number>;
+
+export type ExperimentVariantWithResults = ExperimentVariant & ExperimentCounts;
+
+export interface ExperimentWithResults extends Omit<Experiment, 'variants'> {
+  variants: ExperimentVariantWithResults[];
+  stats: ExperimentStats;
+  allocations: ExperimentAllocation[]; // BANDIT allocation history, oldest first
+}
+
+// An experiment variant a share, click or conversion is credited to
+export interface ExperimentRef {
+  experimentId: string;
+  variantId: string;
+}
+
+// The variant of a running experiment a rendered share shows
+export interface ShareAssignment extends ExperimentRef {
+  experimentName: string;
+  variantName: string;
+  content: string;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+export const experimentInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  variants: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    content: z.string().trim().min(1).max(1000),
+    isControl: z.boolean().default(false),
+    weight: z.number().positive().max(100).optional(),
+  })).min(2, 'At least 2 variants required').max(5, 'At most 5 variants'),
+  targetRatio: z.number().min(0.05).max(0.95).default(0.5),
+  allocationMode: z.enum(ALLOCATION_MODES).default('FIXED'),
+  // At most 0.2 so five variants can all meet it
+  explorationFloor: z.number().min(0).max(0.2).default(DEFAULT_EXPLORATION_FLOOR),
+  minSampleSize: z.number().int().min(50).max(10000).default(100),
+  confidenceLevel: z.number().int().min(80).max(99).default(95),
+});
+
+export type ExperimentInput = z.infer<typeof experimentInputSchema>;
+
+export const experimentUpdateSchema = z.object({
+  status: z.enum(EXPERIMENT_STATUSES).optional(),
+  // Declaring a winner completes the experiment
+  winnerId: z.string().min(1).optional(),
+}).refine(data => data.status || data.winnerId, 'Provide a status or a winner');
+
+export type ExperimentUpdate = z.infer<typeof experimentUpdateSchema>;
+
+// ============================================
+// Assignment
+// ============================================
+
+/**
+ * Map a string to [0, 1) with 32-bit FNV-1a and the murmur3 finalizer
+ * (FNV alone spreads ids that differ only in the last character poorly)
+ */
+export function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Each variant's share of traffic, in variant order (sums to 1)
+ */
+export function getVariantWeights(experiment: Pick<Experiment, 'variants' | 'targetRatio'>): number[] {
+  const { variants } = experiment;
+  if (variants.length === 0) return [];
+
+  const raw = variants.every(v => v.weight && v.weight > 0)
+    ? variants.map(v => v.weight as number)
+    : variants.map(v => v.isControl ? 1 - experiment.targetRatio : experiment.targetRatio / Math.max(1, variants.length - 1));
+
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? raw.map(w => w / total) : variants.map(() => 1 / variants.length);
+}
+
+/**
+ * The variant a unit is assigned; always the same for the same experiment and unit
+ */
+export function assignVariant(
+  experiment: Pick<Experiment, 'id' | 'variants' | 'targetRatio'>,
+  unitId: string
+): ExperimentVariant | null {
+  const weights = getVariantWeights(experiment);
+  const point = hashToUnitInterval(`${experiment.id}:${unitId}`);
+
+  let cumulative = 0;
+  for (let i = 0; i < weights.length; i++) {
+    cumulative += weights[i] ?? 0;
+    if (point < cumulative) return experiment.variants[i] ?? null;
+  }
+  return experiment.variants[experiment.variants.length - 1] ?? null;
+}
+
+/**
+ * Variants of a new experiment; exactly one is the control (the first if none is marked)
+ */
+export function buildVariants(
+  variants: ExperimentInput['variants'],
+  generateId: () => string
+): ExperimentVariant[] {
+  const controlIndex = Math.max(0, variants.findIndex(v => v.isControl));
+  return variants.map((v, i) => ({
+    id: generateId(),
+    name: v.name,
+    content: v.content,
+    isControl: i === controlIndex,
+    weight: v.weight ?? null,
+  }));
+}
+
+// ============================================
+// Status
+// ============================================
+
+export function canTransition(from: ExperimentStatus, to: ExperimentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// ============================================
+// Share Links
+// ============================================
+
+export function formatExperimentParam(ref: ExperimentRef): string {
+  return `${ref.experimentId}.${ref.variantId}`;
+}
+
+export function parseExperimentParam(value: string | null | undefined): ExperimentRef | null {
+  const match = value?.match(/^([A-Za-z0-9_-]{1,64})\.([A-Za-z0-9_-]{1,64})$/);
+  return match ? { experimentId: match[1]!, variantId: match[2]! } : null;
+}
+
+/**
+ * A referral link that credits clicks to an experiment variant
+ */
+export function withExperimentParam(referralLink: string, ref: ExperimentRef): string {
+  try {
+    const url = new URL(referralLink);
+    url.searchParams.set(EXPERIMENT_PARAM, formatExperimentParam(ref));
+    return url.toString();
+  } catch {
+    return referralLink;
+  }
+}
+
+// ============================================
+// Results
+// ============================================
+
+/**
+ * Start of the UTC day results are counted in
+ */
+export function getResultDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+export function experimentResultKey(experimentId: string, variantId: string, day: Date): string {
+  return `${experimentId}:${variantId}:${getResultDay(day).toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Total impressions, clicks and conversions by variant id
+ */
+export function sumExperimentResults(
+  results: Pick<ExperimentResult, 'variant' | ExperimentMetric>[]
+): Map<string, ExperimentCounts> {
+  const totals = new Map<string, ExperimentCounts>();
+  for (const result of results) {
+    const total = totals.get(result.variant) ?? { impressions: 0, clicks: 0, conversions: 0 };
+    total.impressions += result.impressions;
+    total.clicks += result.clicks;
+    total.conversions += result.conversions;
+    totals.set(result.variant, total);
+  }
+  return totals;
+}
+
+/**
+ * An experiment with its variants' totals and significance results
+ */
+export function buildExperimentResults(
+  experiment: Experiment,
+  results: Pick<ExperimentResult, 'variant' | ExperimentMetric>[],
+  allocations: ExperimentAllocation[] = []
+): ExperimentWithResults {
+  const totals = sumExperimentResults(results);
+  const variants = experiment.variants.map(variant => ({
+    ...variant,
+    ...(totals.get(variant.id) ?? { impressions: 0, clicks: 0, conversions: 0 }),
+  }));
+
+  return { ...experiment, variants, stats: analyzeExperiment(variants, experiment), allocations };
+}
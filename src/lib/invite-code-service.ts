@@ -0,0 +1,258 @@
+/**
+ * Invite Code Service
+ * Admin management of invite codes, redemption on application and signup tracking
+ */
+
+import {
+  getInviteCodeRedemptionRepository,
+  getInviteCodeRepository,
+  getPartnerRepository,
+} from './repositories';
+import {
+  generateInviteCode,
+  getInviteCodeState,
+  normalizeInviteCode,
+  type InviteCodeInput,
+  type InviteCodeUpdate,
+  type InviteCodeWithStats,
+} from './invite-codes';
+import { recordAuditEvent } from './audit-service';
+import type { AuditContext } from './audit';
+import { logger } from './monitoring';
+import type { InviteCode, InviteCodeRedemption, PartnerApplication } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Concurrent approvals with the same code retry their use count increment
+const USE_ATTEMPTS = 3;
+
+// ============================================
+// Types
+// ============================================
+
+export interface InviteCodeResult {
+  success: boolean;
+  inviteCode?: InviteCode;
+  error?: string;
+  errorCode?: 'NOT_FOUND' | 'PARTNER_NOT_FOUND' | 'DUPLICATE_CODE' | 'IN_USE';
+}
+
+// ============================================
+// Management
+// ============================================
+
+async function withStats(inviteCode: InviteCode, now: Date): Promise<InviteCodeWithStats> {
+  const redemptionRepo = getInviteCodeRedemptionRepository();
+  const [redemptions, signups] = await Promise.all([
+    redemptionRepo.count({ inviteCodeId: inviteCode.id }),
+    redemptionRepo.count({ inviteCodeId: inviteCode.id, signedUp: true }),
+  ]);
+
+  return { ...inviteCode, redemptions, signups, state: getInviteCodeState(inviteCode, now) };
+}
+
+/**
+ * Invite codes with their redemption and signup counts, newest first
+ */
+export async function listInviteCodes(
+  options: { isActive?: boolean; limit?: number; offset?: number } = {}
+): Promise<InviteCodeWithStats[]> {
+  const now = new Date();
+  const inviteCodes = await getInviteCodeRepository().findAll(options);
+  return Promise.all(inviteCodes.map(inviteCode => withStats(inviteCode, now)));
+}
+
+/**
+ * An invite code with its stats and latest redemptions
+ */
+export async function getInviteCodeDetails(
+  id: string
+): Promise<{ inviteCode: InviteCodeWithStats; redemptions: InviteCodeRedemption[] } | null> {
+  const inviteCode = await getInviteCodeRepository().findById(id);
+  if (!inviteCode) return null;
+
+  const [stats, redemptions] = await Promise.all([
+    withStats(inviteCode, new Date()),
+    getInviteCodeRedemptionRepository().findByInviteCodeId(id, { limit: 100 }),
+  ]);
+
+  return { inviteCode: stats, redemptions };
+}
+
+export async function createInviteCode(
+  input: InviteCodeInput,
+  auditContext: AuditContext
+): Promise<InviteCodeResult> {
+  const repo = getInviteCodeRepository();
+  const code = normalizeInviteCode(input.code ?? generateInviteCode());
+
+  if (await repo.findByCode(code)) {
+    return { success: false, error: `Invite code ${code} already exists`, errorCode: 'DUPLICATE_CODE' };
+  }
+
+  if (input.invitedByPartnerId && !(await getPartnerRepository().findById(input.invitedByPartnerId))) {
+    return { success: false, error: 'Inviting partner not found', errorCode: 'PARTNER_NOT_FOUND' };
+  }
+
+  const inviteCode = await repo.create({
+    code,
+    description: input.description ?? null,
+    maxUses: input.maxUses ?? null,
+    expiresAt: input.expiresAt ?? null,
+    defaultTier: input.defaultTier,
+    invitedByPartnerId: input.invitedByPartnerId ?? null,
+    isActive: true,
+  });
+
+  await recordAuditEvent(auditContext, {
+    action: 'invite_code.create',
+    targetType: 'INVITE_CODE',
+    targetId: inviteCode.id,
+    before: null,
+    after: inviteCode,
+  });
+
+  logger.info('[InviteCodeService] Invite code created', { inviteCodeId: inviteCode.id, code });
+
+  return { success: true, inviteCode };
+}
+
+export async function updateInviteCode(
+  id: string,
+  input: InviteCodeUpdate,
+  auditContext: AuditContext
+): Promise<InviteCodeResult> {
+  const repo = getInviteCodeRepository();
+  const existing = await repo.findById(id);
+
+  if (!existing) {
+    return { success: false, error: 'Invite code not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (input.invitedByPartnerId && !(await getPartnerRepository().findById(input.invitedByPartnerId))) {
+    return { success: false, error: 'Inviting partner not found', errorCode: 'PARTNER_NOT_FOUND' };
+  }
+
+  const inviteCode = await repo.update(id, input);
+  if (!inviteCode) {
+    return { success: false, error: 'Invite code not found', errorCode: 'NOT_FOUND' };
+  }
+
+  await recordAuditEvent(auditContext, {
+    action: 'invite_code.update',
+    targetType: 'INVITE_CODE',
+    targetId: id,
+    before: existing,
+    after: inviteCode,
+  });
+
+  return { success: true, inviteCode };
+}
+
+/**
+ * Delete a code nobody has redeemed; redeemed codes are deactivated instead, to keep their history
+ */
+export async function deleteInviteCode(id: string, auditContext: AuditContext): Promise<InviteCodeResult> {
+  const repo = getInviteCodeRepository();
+  const existing = await repo.findById(id);
+
+  if (!existing) {
+    return { success: false, error: 'Invite code not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (await getInviteCodeRedemptionRepository().count({ inviteCodeId: id }) > 0) {
+    return {
+      success: false,
+      error: 'Invite code has been redeemed; deactivate it instead',
+      errorCode: 'IN_USE',
+    };
+  }
+
+  await repo.delete(id);
+
+  await recordAuditEvent(auditContext, {
+    action: 'invite_code.delete',
+    targetType: 'INVITE_CODE',
+    targetId: id,
+    before: existing,
+    after: null,
+  });
+
+  return { success: true, inviteCode: existing };
+}
+
+// ============================================
+// Redemption
+// ============================================
+
+/**
+ * Redeem a code for an application
+ * The use is only counted when the application is approved (see useRedeemedInviteCode)
+ * Returns null when the code is unknown, disabled, expired or used up
+ */
+export async function redeemInviteCode(
+  code: string,
+  application: Pick<PartnerApplication, 'id' | 'email'>
+): Promise<InviteCode | null> {
+  const inviteCode = await getInviteCodeRepository().findByCode(normalizeInviteCode(code));
+  if (!inviteCode || getInviteCodeState(inviteCode) !== 'ACTIVE') return null;
+
+  await getInviteCodeRedemptionRepository().create({
+    inviteCodeId: inviteCode.id,
+    applicationId: application.id,
+    email: application.email,
+    partnerId: null,
+  });
+
+  logger.info('[InviteCodeService] Invite code redeemed', {
+    inviteCodeId: inviteCode.id,
+    applicationId: application.id,
+  });
+
+  return inviteCode;
+}
+
+/**
+ * Count a use of the code an approved application redeemed
+ * Returns null when the application redeemed no code, or the code has been
+ * disabled, expired or used up since
+ */
+export async function useRedeemedInviteCode(applicationId: string): Promise<InviteCode | null> {
+  const redemption = await getInviteCodeRedemptionRepository().findByApplicationId(applicationId);
+  if (!redemption) return null;
+
+  const repo = getInviteCodeRepository();
+
+  for (let attempt = 0; attempt < USE_ATTEMPTS; attempt++) {
+    const inviteCode = await repo.findById(redemption.inviteCodeId);
+
+    if (!inviteCode || getInviteCodeState(inviteCode) !== 'ACTIVE') {
+      logger.warn('[InviteCodeService] Redeemed invite code no longer usable', {
+        inviteCodeId: redemption.inviteCodeId,
+        applicationId,
+      });
+      return null;
+    }
+
+    if (await repo.incrementUseCount(inviteCode.id, inviteCode.useCount)) {
+      return { ...inviteCode, useCount: inviteCode.useCount + 1 };
+    }
+  }
+
+  logger.warn('[InviteCodeService] Invite code use contended', { inviteCodeId: redemption.inviteCodeId });
+  return null;
+}
+
+/**
+ * Credit a code with the partner its application became
+ */
+export async function recordInviteSignup(applicationId: string, partnerId: string): Promise<void> {
+  const redemptionRepo = getInviteCodeRedemptionRepository();
+  const redemption = await redemptionRepo.findByApplicationId(applicationId);
+
+  if (redemption) {
+    await redemptionRepo.update(redemption.id, { partnerId });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Invite Codes
+ * Code format, input validation and redeemability
+ */
+
+import { z } from 'zod';
+import type { InviteCode } from './db';
+import { generateRandomString } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export type InviteCodeState = 'ACTIVE' | 'DISABLED' | 'EXPIRED' | 'EXHAUSTED';
+
+export interface InviteCodeStats {
+  redemptions: number;
+  signups: number; // redemptions whose application was approved
+}
+
+export type InviteCodeWithStats = InviteCode & InviteCodeStats & { state: InviteCodeState };
+
+// ============================================
+// Validation
+// ============================================
+
+const TIERS = ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] as const;
+
+export const inviteCodeInputSchema = z.object({
+  code: z.string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{4,20}$/, 'Use 4-20 letters, digits, dashes or underscores')
+    .optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  defaultTier: z.enum(TIERS).default('STANDARD'),
+  invitedByPartnerId: z.string().min(1).nullable().optional(),
+});
+
+export type InviteCodeInput = z.infer<typeof inviteCodeInputSchema>;
+
+export const inviteCodeUpdateSchema = z.object({
+  description: z.string().trim().max(200).nullable().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  defaultTier: z.enum(TIERS).optional(),
+  invitedByPartnerId: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InviteCodeUpdate = z.infer<typeof inviteCodeUpdateSchema>;
+
+// ============================================
+// Codes
+// ============================================
+
+/**
+ * Codes are matched case-insensitively and stored uppercase
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Random eight-character code for when the admin does not pick one
+ */
+export function generateInviteCode(): string {
+  return generateRandomString(8).toUpperCase();
+}
+
+/**
+ * Whether a code can be redeemed now, and if not, why
+ */
+export function getInviteCodeState(
+  inviteCode: Pick<InviteCode, 'isActive' | 'expiresAt' | 'maxUses' | 'useCount'>,
+  now: Date = new Date()
+): InviteCodeState {
+  if (!inviteCode.isActive) return 'DISABLED';
+  if (inviteCode.expiresAt && inviteCode.expiresAt.getTime() <= now.getTime()) return 'EXPIRED';
+  if (inviteCode.maxUses != null && inviteCode.useCount >= inviteCode.maxUses) return 'EXHAUSTED';
+  return 'ACTIVE';
+}
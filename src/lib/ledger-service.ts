@@ -0,0 +1,209 @@
+/**
+ * Ledger Service
+ * Posts partner earnings events to the ledger and builds statements
+ *
+ * Balances shown to partners and admins are read from the ledger, so
+ * every change to what a partner is owed must be posted here.
+ */
+
+import { getBalanceAdjustmentRepository, getLedgerRepository } from './repositories';
+import {
+  buildCommissionPosting,
+  buildLedgerEntries,
+  buildOverridePosting,
+  buildPayoutPostings,
+  buildStatement,
+  PARTNER_ACCOUNT,
+  summarizeLedger,
+  type LedgerPosting,
+  type LedgerStatement,
+  type LedgerSummary,
+} from './ledger';
+import { logger } from './monitoring';
+import type { BalanceAdjustment, LedgerEntry, OverrideCommission, Payout, Referral } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Most entries included in one statement
+const MAX_STATEMENT_ENTRIES = 5000;
+
+// ============================================
+// Types
+// ============================================
+
+export type BalanceAdjustmentType = 'BONUS' | 'MANUAL_ADJUSTMENT';
+
+export interface BalanceAdjustmentRequest {
+  partnerId: string;
+  type: BalanceAdjustmentType;
+  amountCents: number; // positive credits the partner, negative debits
+  description: string;
+  createdBy?: string | null;
+}
+
+type PayoutLedgerFields = Pick<Payout, 'id' | 'partnerId' | 'netCents' | 'feeCents'>;
+
+// ============================================
+// Posting
+// ============================================
+
+/**
+ * Post one balanced transaction
+ * Postings with no amount are skipped
+ */
+async function post(postings: LedgerPosting[]): Promise<LedgerEntry[]> {
+  const entries = buildLedgerEntries(postings);
+  if (entries.length === 0) return [];
+  return getLedgerRepository().createTransaction(entries);
+}
+
+/**
+ * Net change a payout has made to the partner balance so far
+ */
+async function getPayoutPosition(payoutId: string): Promise<number> {
+  const entries = await getLedgerRepository().findByReference({ payoutId });
+  return entries
+    .filter(e => e.account === PARTNER_ACCOUNT)
+    .reduce((sum, e) => sum + e.amountCents, 0);
+}
+
+/**
+ * Credit the partner with a converted referral's commission
+ */
+export async function recordCommissionEarned(
+  referral: Pick<Referral, 'id' | 'partnerId' | 'commissionCents'>
+): Promise<LedgerEntry[]> {
+  return post([buildCommissionPosting(referral, 'COMMISSION_EARNED', 'Commission earned')]);
+}
+
+/**
+ * Take back a refunded or charged back referral's commission
+ */
+export async function recordCommissionReversed(
+  referral: Pick<Referral, 'id' | 'partnerId' | 'commissionCents'>,
+  description: string
+): Promise<LedgerEntry[]> {
+  return post([buildCommissionPosting(referral, 'COMMISSION_REVERSED', description)]);
+}
+
+/**
+ * Credit a recruiter with an override, or take it back
+ */
+export async function recordOverride(
+  override: Pick<OverrideCommission, 'recruiterId' | 'referralId' | 'amountCents'>,
+  type: 'OVERRIDE_EARNED' | 'OVERRIDE_REVERSED',
+  description: string
+): Promise<LedgerEntry[]> {
+  return post([buildOverridePosting(override, type, description)]);
+}
+
+/**
+ * Debit a requested payout and its fee from the partner balance
+ * A payout that is already debited is left alone
+ */
+export async function recordPayoutDebit(payout: PayoutLedgerFields): Promise<LedgerEntry[]> {
+  if (await getPayoutPosition(payout.id) !== 0) return [];
+  return post(buildPayoutPostings(payout));
+}
+
+/**
+ * Return a failed or rejected payout to the partner balance
+ * Only payouts that are currently debited are returned
+ */
+export async function reversePayoutDebit(
+  payout: PayoutLedgerFields,
+  reason: string
+): Promise<LedgerEntry[]> {
+  if (await getPayoutPosition(payout.id) >= 0) return [];
+  return post(buildPayoutPostings(payout, { reverse: true, description: reason }));
+}
+
+/**
+ * Post a bonus or manual adjustment
+ * A matching balance adjustment settles it with the partner's next payout
+ */
+export async function postBalanceAdjustment(
+  request: BalanceAdjustmentRequest
+): Promise<{ adjustment: BalanceAdjustment; entries: LedgerEntry[] }> {
+  const adjustment = await getBalanceAdjustmentRepository().create({
+    partnerId: request.partnerId,
+    referralId: null,
+    amountCents: request.amountCents,
+    reason: request.type === 'BONUS' ? 'BONUS' : 'MANUAL',
+    description: request.description,
+  });
+
+  const entries = await post([{
+    type: request.type,
+    partnerId: request.partnerId,
+    amountCents: request.amountCents,
+    description: request.description,
+    createdBy: request.createdBy ?? null,
+  }]);
+
+  logger.info('[LedgerService] Balance adjustment posted', {
+    partnerId: request.partnerId,
+    adjustmentId: adjustment.id,
+    type: request.type,
+    amountCents: request.amountCents,
+    createdBy: request.createdBy,
+  });
+
+  return { adjustment, entries };
+}
+
+// ============================================
+// Balances
+// ============================================
+
+export async function getLedgerSummary(partnerId: string): Promise<LedgerSummary> {
+  return summarizeLedger(await getLedgerRepository().getTotalsByType(partnerId));
+}
+
+/**
+ * Get the current ledger balance of several partners
+ */
+export async function getPartnerBalances(partnerIds: string[]): Promise<Map<string, number>> {
+  const ids = Array.from(new Set(partnerIds));
+  const balances = await Promise.all(ids.map(id => getLedgerRepository().getBalance(id)));
+  return new Map(ids.map((id, i) => [id, balances[i] ?? 0]));
+}
+
+/**
+ * Build a partner's statement for a period
+ * Without `since` it starts at the first entry; without `until` it runs to now
+ */
+export async function getPartnerStatement(
+  partnerId: string,
+  options: { since?: Date; until?: Date } = {}
+): Promise<LedgerStatement> {
+  const repo = getLedgerRepository();
+  const { since, until } = options;
+
+  const [openingBalanceCents, closingBalanceCents, entries] = await Promise.all([
+    since ? repo.getBalance(partnerId, { until: since }) : Promise.resolve(0),
+    repo.getBalance(partnerId, { until }),
+    repo.findByPartnerId(partnerId, { since, until, limit: MAX_STATEMENT_ENTRIES }),
+  ]);
+
+  const statement = buildStatement({
+    partnerId,
+    since: since ?? null,
+    until: until ?? new Date(),
+    openingBalanceCents,
+    closingBalanceCents,
+    entries,
+  });
+
+  if (!statement.reconciliation.reconciled) {
+    logger.error('[LedgerService] Statement does not reconcile', null, {
+      partnerId,
+      differenceCents: statement.reconciliation.differenceCents,
+      unbalancedTransactionIds: statement.reconciliation.unbalancedTransactionIds,
+    });
+  }
+
+  return statement;
+}
@@ -0,0 +1,382 @@
+/**
+ * Partner Earnings Ledger
+ * Double-entry postings for commission, overrides, payouts, fees and adjustments
+ *
+ * Every event is one transaction whose entries sum to zero: the partner's
+ * balance account moves one way and a program account moves the other.
+ * Entries are append-only, so mistakes are corrected with new entries.
+ *
+ * This module is pure; entries are written by ledger-service.ts.
+ */
+
+import type {
+  BalanceAdjustment,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryType,
+  OverrideCommission,
+  Payout,
+  Referral,
+} from './db';
+import type { PartnerStatsSummary } from './data-store';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const LEDGER_ENTRY_TYPES: LedgerEntryType[] = [
+  'COMMISSION_EARNED',
+  'COMMISSION_REVERSED',
+  'OVERRIDE_EARNED',
+  'OVERRIDE_REVERSED',
+  'PAYOUT_DEBIT',
+  'FEE',
+  'BONUS',
+  'MANUAL_ADJUSTMENT',
+];
+
+// What the program owes the partner
+export const PARTNER_ACCOUNT: LedgerAccount = 'PARTNER_BALANCE';
+
+// Program account moved opposite the partner balance
+export const CONTRA_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  COMMISSION_EARNED: 'COMMISSION_EXPENSE',
+  COMMISSION_REVERSED: 'COMMISSION_EXPENSE',
+  OVERRIDE_EARNED: 'COMMISSION_EXPENSE',
+  OVERRIDE_REVERSED: 'COMMISSION_EXPENSE',
+  PAYOUT_DEBIT: 'PAYOUT_CLEARING',
+  FEE: 'FEE_REVENUE',
+  BONUS: 'BONUS_EXPENSE',
+  MANUAL_ADJUSTMENT: 'MANUAL_ADJUSTMENTS',
+};
+
+// Payouts in these states moved no money
+const VOID_PAYOUT_STATUSES: Payout['status'][] = ['FAILED', 'CANCELLED'];
+
+// ============================================
+// Types
+// ============================================
+
+export type NewLedgerEntry = Omit<LedgerEntry, 'id' | 'transactionId' | 'createdAt'> & {
+  createdAt?: Date;
+};
+
+export interface LedgerPosting {
+  type: LedgerEntryType;
+  partnerId: string;
+  amountCents: number; // change to the partner's balance
+  description: string;
+  referralId?: string | null;
+  payoutId?: string | null;
+  createdBy?: string | null;
+  createdAt?: Date;
+}
+
+// Partner balance movements by entry type
+export type LedgerTotals = Record<LedgerEntryType, number>;
+
+export interface LedgerSummary {
+  balanceCents: number;
+  paidOutCents: number; // payout debits and fees
+  totals: LedgerTotals;
+}
+
+export interface StatementLine {
+  id: string;
+  transactionId: string;
+  date: Date;
+  type: LedgerEntryType;
+  description: string;
+  amountCents: number;
+  balanceCents: number; // running balance after this line
+  referralId: string | null;
+  payoutId: string | null;
+}
+
+export interface LedgerStatement {
+  partnerId: string;
+  since: Date | null;
+  until: Date;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  totals: LedgerTotals;
+  lines: StatementLine[];
+  reconciliation: {
+    differenceCents: number; // opening + lines - closing
+    unbalancedTransactionIds: string[];
+    reconciled: boolean;
+  };
+}
+
+// ============================================
+// Postings
+// ============================================
+
+/**
+ * Expand postings into balanced entries, one pair per posting
+ * Zero-amount postings are dropped
+ */
+export function buildLedgerEntries(postings: LedgerPosting[]): NewLedgerEntry[] {
+  return postings
+    .filter(p => p.amountCents !== 0)
+    .flatMap(p => {
+      const shared = {
+        partnerId: p.partnerId,
+        type: p.type,
+        referralId: p.referralId ?? null,
+        payoutId: p.payoutId ?? null,
+        description: p.description,
+        createdBy: p.createdBy ?? null,
+        ...(p.createdAt && { createdAt: p.createdAt }),
+      };
+
+      return [
+        { ...shared, account: PARTNER_ACCOUNT, amountCents: p.amountCents },
+        { ...shared, account: CONTRA_ACCOUNTS[p.type], amountCents: -p.amountCents },
+      ];
+    });
+}
+
+/**
+ * Whether entries sum to zero
+ */
+export function isBalanced(entries: Pick<LedgerEntry, 'amountCents'>[]): boolean {
+  return entries.reduce((sum, e) => sum + e.amountCents, 0) === 0;
+}
+
+/**
+ * Posting for commission earned on, or reversed from, a referral
+ */
+export function buildCommissionPosting(
+  referral: Pick<Referral, 'id' | 'partnerId' | 'commissionCents'>,
+  type: 'COMMISSION_EARNED' | 'COMMISSION_REVERSED',
+  description: string,
+  createdAt?: Date
+): LedgerPosting {
+  return {
+    type,
+    partnerId: referral.partnerId,
+    amountCents: type === 'COMMISSION_EARNED' ? referral.commissionCents : -referral.commissionCents,
+    description,
+    referralId: referral.id,
+    createdAt,
+  };
+}
+
+/**
+ * Posting for a recruiter's override on a recruit's referral, or its reversal
+ */
+export function buildOverridePosting(
+  override: Pick<OverrideCommission, 'recruiterId' | 'referralId' | 'amountCents'>,
+  type: 'OVERRIDE_EARNED' | 'OVERRIDE_REVERSED',
+  description: string,
+  createdAt?: Date
+): LedgerPosting {
+  return {
+    type,
+    partnerId: override.recruiterId,
+    amountCents: type === 'OVERRIDE_EARNED' ? override.amountCents : -override.amountCents,
+    description,
+    referralId: override.referralId,
+    createdAt,
+  };
+}
+
+/**
+ * Postings that debit a payout and its fee from the partner balance
+ * Pass `reverse` to return them when the payout fails
+ */
+export function buildPayoutPostings(
+  payout: Pick<Payout, 'id' | 'partnerId' | 'netCents' | 'feeCents'>,
+  options: { reverse?: boolean; description?: string; createdAt?: Date } = {}
+): LedgerPosting[] {
+  const sign = options.reverse ? 1 : -1;
+  const suffix = options.description ? `: ${options.description}` : '';
+
+  return [
+    {
+      type: 'PAYOUT_DEBIT',
+      partnerId: payout.partnerId,
+      amountCents: sign * payout.netCents,
+      description: `${options.reverse ? 'Payout returned' : 'Payout'}${suffix}`,
+      payoutId: payout.id,
+      createdAt: options.createdAt,
+    },
+    {
+      type: 'FEE',
+      partnerId: payout.partnerId,
+      amountCents: sign * payout.feeCents,
+      description: `${options.reverse ? 'Payout fee returned' : 'Payout fee'}${suffix}`,
+      payoutId: payout.id,
+      createdAt: options.createdAt,
+    },
+  ];
+}
+
+/**
+ * Rebuild postings from existing referrals, overrides, payouts and adjustments
+ * Used to seed the ledger for data recorded before it existed
+ */
+export function buildLedgerHistory(history: {
+  referrals: Referral[];
+  overrides?: OverrideCommission[];
+  payouts: Payout[];
+  adjustments: BalanceAdjustment[];
+}): LedgerPosting[] {
+  const postings: LedgerPosting[] = [];
+
+  for (const referral of history.referrals) {
+    if (!referral.convertedAt || referral.status === 'PENDING' || referral.status === 'CANCELLED') {
+      continue;
+    }
+
+    postings.push(buildCommissionPosting(referral, 'COMMISSION_EARNED', 'Commission earned', referral.convertedAt));
+
+    if (referral.status === 'REFUNDED') {
+      postings.push(buildCommissionPosting(
+        referral,
+        'COMMISSION_REVERSED',
+        'Commission reversed',
+        referral.refundedAt ?? referral.convertedAt
+      ));
+    }
+  }
+
+  for (const override of history.overrides ?? []) {
+    postings.push(buildOverridePosting(override, 'OVERRIDE_EARNED', 'Override earned', override.createdAt));
+
+    if (override.status === 'REVERSED') {
+      postings.push(buildOverridePosting(
+        override,
+        'OVERRIDE_REVERSED',
+        'Override reversed',
+        override.reversedAt ?? override.createdAt
+      ));
+    }
+  }
+
+  for (const payout of history.payouts) {
+    if (VOID_PAYOUT_STATUSES.includes(payout.status)) continue;
+    postings.push(...buildPayoutPostings(payout, { createdAt: payout.requestedAt }));
+  }
+
+  // Clawbacks are already covered by the commission and override reversals
+  for (const adjustment of history.adjustments) {
+    if (adjustment.reason !== 'BONUS' && adjustment.reason !== 'MANUAL') continue;
+    postings.push({
+      type: adjustment.reason === 'BONUS' ? 'BONUS' : 'MANUAL_ADJUSTMENT',
+      partnerId: adjustment.partnerId,
+      amountCents: adjustment.amountCents,
+      description: adjustment.description,
+      createdAt: adjustment.createdAt,
+    });
+  }
+
+  return postings.sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+}
+
+// ============================================
+// Balances
+// ============================================
+
+export function emptyLedgerTotals(): LedgerTotals {
+  return Object.fromEntries(LEDGER_ENTRY_TYPES.map(type => [type, 0])) as LedgerTotals;
+}
+
+/**
+ * Sum partner balance entries by type
+ */
+export function totalLedgerEntries(
+  entries: Pick<LedgerEntry, 'account' | 'type' | 'amountCents'>[]
+): LedgerTotals {
+  const totals = emptyLedgerTotals();
+  for (const entry of entries) {
+    if (entry.account === PARTNER_ACCOUNT) totals[entry.type] += entry.amountCents;
+  }
+  return totals;
+}
+
+export function summarizeLedger(totals: LedgerTotals): LedgerSummary {
+  return {
+    balanceCents: LEDGER_ENTRY_TYPES.reduce((sum, type) => sum + totals[type], 0),
+    paidOutCents: -(totals.PAYOUT_DEBIT + totals.FEE),
+    totals,
+  };
+}
+
+/**
+ * Replace referral-derived earnings with ledger balances
+ * Held commission is part of the ledger balance but not yet available
+ */
+export function applyLedgerBalances(
+  stats: PartnerStatsSummary,
+  summary: LedgerSummary
+): PartnerStatsSummary {
+  return {
+    ...stats,
+    totalEarned: summary.paidOutCents,
+    availableBalance: summary.balanceCents - stats.pendingPayout,
+  };
+}
+
+// ============================================
+// Statements
+// ============================================
+
+/**
+ * Build a statement from the entries posted in a period
+ * `entries` must include every account so transactions can be checked
+ */
+export function buildStatement(input: {
+  partnerId: string;
+  since: Date | null;
+  until: Date;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  entries: LedgerEntry[];
+}): LedgerStatement {
+  const ordered = [...input.entries].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let balanceCents = input.openingBalanceCents;
+  const lines: StatementLine[] = ordered
+    .filter(e => e.account === PARTNER_ACCOUNT)
+    .map(e => {
+      balanceCents += e.amountCents;
+      return {
+        id: e.id,
+        transactionId: e.transactionId,
+        date: e.createdAt,
+        type: e.type,
+        description: e.description,
+        amountCents: e.amountCents,
+        balanceCents,
+        referralId: e.referralId,
+        payoutId: e.payoutId,
+      };
+    });
+
+  const transactions = new Map<string, number>();
+  for (const entry of ordered) {
+    transactions.set(entry.transactionId, (transactions.get(entry.transactionId) ?? 0) + entry.amountCents);
+  }
+
+  const unbalancedTransactionIds = Array.from(transactions.entries())
+    .filter(([, sum]) => sum !== 0)
+    .map(([id]) => id);
+  const differenceCents = balanceCents - input.closingBalanceCents;
+
+  return {
+    partnerId: input.partnerId,
+    since: input.since,
+    until: input.until,
+    openingBalanceCents: input.openingBalanceCents,
+    closingBalanceCents: input.closingBalanceCents,
+    totals: totalLedgerEntries(ordered),
+    lines,
+    reconciliation: {
+      differenceCents,
+      unbalancedTransactionIds,
+      reconciled: differenceCents === 0 && unbalancedTransactionIds.length === 0,
+    },
+  };
+}
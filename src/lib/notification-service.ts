@@ -0,0 +1,75 @@
+/**
+ * Notification Service
+ * Creates partner notifications and manages notification preferences
+ *
+ * Every notification is stored for the in-app notification center and
+ * streamed to open dashboards (see event-service.ts). Pushed types are
+ * queued for the push-deliveries job, which sends them as Web Push
+ * messages where the partner's preferences allow it (see push-service.ts).
+ */
+
+import { getNotificationRepository, getPartnerRepository } from './repositories';
+import { queuesPush } from './push-service';
+import { publishPartnerEvent } from './event-service';
+import {
+  mergeNotificationPreferences,
+  resolveNotificationPreferences,
+  type NotificationPreferencesUpdate,
+} from './notifications';
+import { notificationEventData } from './partner-events';
+import type { Notification, NotificationPreferences } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export type NewNotification = Omit<Notification, 'id' | 'createdAt' | 'read' | 'readAt'>;
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Store an unread notification for a partner, stream it to their open
+ * dashboards and queue it for their browsers
+ */
+export async function notifyPartner(data: NewNotification): Promise<Notification> {
+  const notification = await getNotificationRepository().create({
+    ...data,
+    read: false,
+    readAt: null,
+    pushPending: queuesPush(data.type),
+  });
+
+  await publishPartnerEvent(notification.partnerId, 'notification', notificationEventData(notification));
+
+  return notification;
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+/**
+ * A partner's preferences with defaults filled in, or null if the partner does not exist
+ */
+export async function getNotificationPreferences(partnerId: string): Promise<NotificationPreferences | null> {
+  const partner = await getPartnerRepository().findById(partnerId);
+  return partner ? resolveNotificationPreferences(partner.notificationPreferences) : null;
+}
+
+/**
+ * Save changes to a partner's preferences; null if the partner does not exist
+ */
+export async function updateNotificationPreferences(
+  partnerId: string,
+  update: NotificationPreferencesUpdate
+): Promise<NotificationPreferences | null> {
+  const partnerRepo = getPartnerRepository();
+  const partner = await partnerRepo.findById(partnerId);
+  if (!partner) return null;
+
+  const preferences = mergeNotificationPreferences(partner.notificationPreferences, update);
+  await partnerRepo.update(partnerId, { notificationPreferences: preferences });
+  return preferences;
+}
@@ -0,0 +1,64 @@
+/**
+ * Notification Preferences
+ * Channels and notification types a partner has switched on or off
+ *
+ * Partners without saved preferences get every channel and type. Saved
+ * preferences only list types the partner changed; a missing type is on.
+ */
+
+import { z } from 'zod';
+import type { NotificationPreferences } from './db';
+
+// ============================================
+// Defaults
+// ============================================
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  inApp: true,
+  types: {},
+};
+
+// ============================================
+// Validation
+// ============================================
+
+export const notificationPreferencesUpdateSchema = z.object({
+  email: z.boolean().optional(),
+  push: z.boolean().optional(),
+  inApp: z.boolean().optional(),
+  types: z.record(z.string().regex(/^[A-Z_]{1,32}$/, 'Invalid notification type'), z.boolean()).optional(),
+});
+
+export type NotificationPreferencesUpdate = z.infer<typeof notificationPreferencesUpdateSchema>;
+
+// ============================================
+// Preferences
+// ============================================
+
+export function resolveNotificationPreferences(
+  saved: NotificationPreferences | null | undefined
+): NotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...saved,
+    types: { ...saved?.types },
+  };
+}
+
+/**
+ * Apply an update to saved preferences; types not named keep their setting
+ */
+export function mergeNotificationPreferences(
+  saved: NotificationPreferences | null | undefined,
+  update: NotificationPreferencesUpdate
+): NotificationPreferences {
+  const current = resolveNotificationPreferences(saved);
+  return {
+    email: update.email ?? current.email,
+    push: update.push ?? current.push,
+    inApp: update.inApp ?? current.inApp,
+    types: { ...current.types, ...update.types },
+  };
+}
@@ -30,12 +30,21 @@ All API endpoints require authentication using Clerk. Include the session token
 Authorization: Bearer <session_token>
 \`\`\`
 
+Partner endpoints also accept partner API keys, created at \`/api/partners/{id}/api-keys\`.
+Keys are sent the same way and are limited to their partner and granted scopes
+(\`campaigns:read\`, \`campaigns:write\`, \`stats:read\`, \`milestones:write\`, \`payouts:read\`):
+
+\`\`\`
+Authorization: Bearer icp_<key>
+\`\`\`
+
 ## Rate Limiting
 
 API requests are rate-limited to prevent abuse:
 - Standard endpoints: 100 requests per minute
 - Auth endpoints: 10 requests per minute
 - Admin endpoints: 50 requests per minute
+- API keys: 60 requests per minute per key
 
 ## Error Handling
 
@@ -95,6 +104,10 @@ All endpoints return consistent error responses:
       name: 'Payments',
       description: 'Stripe Connect integration',
     },
+    {
+      name: 'Conversions',
+      description: 'Server-to-server conversion reporting',
+    },
     {
       name: 'Notifications',
       description: 'Notification management',
@@ -103,6 +116,10 @@ All endpoints return consistent error responses:
       name: 'Admin',
       description: 'Administrative operations (admin only)',
     },
+    {
+      name: 'Jobs',
+      description: 'Scheduled jobs (CRON_SECRET bearer token)',
+    },
   ],
   paths: {
     '/api/health': {
@@ -154,7 +171,7 @@ All endpoints return consistent error responses:
         summary: 'Get partner statistics',
         description: 'Returns comprehensive statistics for a specific partner including earnings, referrals, and conversion rates.',
         operationId: 'getPartnerStats',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -195,7 +212,7 @@ All endpoints return consistent error responses:
         summary: 'List partner campaigns',
         description: 'Returns all campaigns for a specific partner with performance metrics.',
         operationId: 'getPartnerCampaigns',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -240,7 +257,7 @@ All endpoints return consistent error responses:
         summary: 'Create a new campaign',
         description: 'Creates a new referral campaign for the partner.',
         operationId: 'createCampaign',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -286,9 +303,9 @@ All endpoints return consistent error responses:
       get: {
         tags: ['Partners', 'Payouts'],
         summary: 'List partner payouts',
-        description: 'Returns payout history for a specific partner.',
+        description: 'Returns payout history for a specific partner, with a preview of the next payout. Refund and chargeback clawbacks are listed in each payout\'s adjustments.',
         operationId: 'getPartnerPayouts',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -345,13 +362,113 @@ All endpoints return consistent error responses:
         },
       },
     },
+    '/api/partners/{id}/statement': {
+      get: {
+        tags: ['Partners', 'Payouts'],
+        summary: 'Get partner ledger statement',
+        description: 'Returns the partner\'s ledger entries for a period with a running balance, totals by entry type and a reconciliation that is zero when the ledger is consistent.',
+        operationId: 'getPartnerStatement',
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Partner ID',
+            schema: {
+              type: 'string',
+            },
+          },
+          {
+            name: 'since',
+            in: 'query',
+            description: 'Period start (inclusive); defaults to the first entry',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            name: 'until',
+            in: 'query',
+            description: 'Period end (exclusive); defaults to now',
+            schema: { type: 'string', format: 'date-time' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Statement retrieved successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/StatementResponse',
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/partners/{id}/recruits': {
+      get: {
+        tags: ['Partners'],
+        summary: 'Get partner recruits',
+        description: 'Returns the partner\'s recruitment link, the override rate and window, and each partner they recruited with the override earned from them.',
+        operationId: 'getPartnerRecruits',
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Partner ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Recruits retrieved successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/RecruitsResponse',
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
     '/api/partners/{id}/analytics': {
       get: {
         tags: ['Partners', 'Analytics'],
         summary: 'Get detailed analytics',
-        description: 'Returns detailed analytics including time-series data for charts.',
+        description: 'Returns overview metrics with trends against the previous period of the same length, the conversion funnel, a daily time series bucketed in the partner\'s time zone, the source breakdown and top campaigns. Amounts are in cents.',
         operationId: 'getPartnerAnalytics',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -363,12 +480,12 @@ All endpoints return consistent error responses:
             },
           },
           {
-            name: 'period',
+            name: 'range',
             in: 'query',
-            description: 'Time period for analytics',
+            description: 'Time range for analytics; all time has no previous period',
             schema: {
               type: 'string',
-              enum: ['7d', '30d', '90d', '365d'],
+              enum: ['7d', '30d', '90d', 'ytd', 'all'],
               default: '30d',
             },
           },
@@ -387,6 +504,66 @@ All endpoints return consistent error responses:
           '401': {
             $ref: '#/components/responses/Unauthorized',
           },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/partners/{id}/attribution': {
+      get: {
+        tags: ['Partners', 'Analytics'],
+        summary: 'Get multi-touch attribution',
+        description: 'Splits the revenue of the last 90 days of conversions across the sources and campaigns each customer clicked, under the chosen model. Touchpoint paths join a customer\'s clicks through the attribution cookie, within the 30-day attribution window. Amounts are in cents.',
+        operationId: 'getPartnerAttribution',
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Partner ID',
+            schema: {
+              type: 'string',
+            },
+          },
+          {
+            name: 'model',
+            in: 'query',
+            description: 'Attribution model; time decay halves a touch\'s credit for every 7 days before the conversion',
+            schema: {
+              type: 'string',
+              enum: ['first_touch', 'last_touch', 'linear', 'time_decay'],
+              default: 'last_touch',
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Attribution report retrieved successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AttributionResponse',
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
         },
       },
     },
@@ -396,7 +573,7 @@ All endpoints return consistent error responses:
         summary: 'Get partner milestones',
         description: 'Returns milestone progress and achievements for a partner.',
         operationId: 'getPartnerMilestones',
-        security: [{ bearerAuth: [] }],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         parameters: [
           {
             name: 'id',
@@ -425,11 +602,112 @@ All endpoints return consistent error responses:
         },
       },
     },
+    '/api/partners/{id}/api-keys': {
+      get: {
+        tags: ['Partners'],
+        summary: 'List API keys',
+        description: 'Returns the partner\'s API keys without their secret part, and the available scopes. Requires a signed-in session.',
+        operationId: 'listApiKeys',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+          { name: 'includeRevoked', in: 'query', schema: { type: 'boolean', default: false } },
+        ],
+        responses: {
+          '200': {
+            description: 'API keys retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ApiKey' },
+                },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      post: {
+        tags: ['Partners'],
+        summary: 'Create API key',
+        description: 'Creates a scoped API key. The key is returned once and only its hash is stored. Requires a signed-in session.',
+        operationId: 'createApiKey',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name', 'scopes'],
+                properties: {
+                  name: { type: 'string' },
+                  scopes: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['campaigns:read', 'campaigns:write', 'stats:read', 'milestones:write', 'payouts:read'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'API key created; includes the key',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Active key limit reached',
+          },
+        },
+      },
+    },
+    '/api/partners/{id}/api-keys/{keyId}': {
+      delete: {
+        tags: ['Partners'],
+        summary: 'Revoke API key',
+        description: 'Revokes a key; it stops authenticating immediately. Requires a signed-in session.',
+        operationId: 'revokeApiKey',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+          { name: 'keyId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'API key revoked',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
     '/api/payments/connect': {
       post: {
         tags: ['Payments'],
         summary: 'Create Stripe Connect account',
-        description: 'Creates a new Stripe Connect Express account for the partner.',
+        description: 'Creates a Stripe Connect Express account for the partner and stores it on the partner. Partners who already have an account get a new onboarding link for it instead.',
         operationId: 'createConnectAccount',
         security: [{ bearerAuth: [] }],
         requestBody: {
@@ -510,7 +788,7 @@ All endpoints return consistent error responses:
       post: {
         tags: ['Payments', 'Payouts'],
         summary: 'Request a payout',
-        description: 'Initiates a payout request for earned commissions.',
+        description: 'Initiates a payout request for commission past the refund hold period. Payouts settle whole referrals, oldest first, so the amount is rounded up to the commission that covers it. Returns 400 with INSUFFICIENT_BALANCE text when the available balance is too low.',
         operationId: 'requestPayout',
         security: [{ bearerAuth: [] }],
         requestBody: {
@@ -569,6 +847,62 @@ All endpoints return consistent error responses:
         },
       },
     },
+    '/api/conversions': {
+      post: {
+        tags: ['Conversions'],
+        summary: 'Report a conversion',
+        description: 'Server-to-server endpoint for reporting signups and purchases by referred customers, and refunds or chargebacks that reverse their commission. Unpaid commission is voided; paid commission becomes a negative adjustment on the partner\'s next payout. Requests must carry an X-InnerCircle-Signature header: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"} using CONVERSION_API_SECRET.',
+        operationId: 'reportConversion',
+        parameters: [
+          {
+            name: 'X-InnerCircle-Signature',
+            in: 'header',
+            required: true,
+            description: 'Request signature',
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['type', 'customerEmail'],
+                properties: {
+                  type: { type: 'string', enum: ['signup', 'purchase', 'refund', 'chargeback'] },
+                  customerEmail: { type: 'string', format: 'email' },
+                  orderAmountCents: { type: 'integer', minimum: 0, description: 'Required for purchases' },
+                  attributionToken: { type: 'string', description: 'Value of the ic_attr parameter from the referral redirect' },
+                  referralCode: { type: 'string', description: 'Fallback when no attribution token is available' },
+                  occurredAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Commission reversed, or duplicate event with the existing referral returned',
+          },
+          '201': {
+            description: 'Referral created or converted',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            description: 'Invalid or missing request signature',
+          },
+          '404': {
+            description: 'No partner could be attributed, or no referral exists to reverse',
+          },
+          '409': {
+            description: 'Partner inactive, or referral not yet converted',
+          },
+        },
+      },
+    },
     '/api/notifications': {
       get: {
         tags: ['Notifications'],
@@ -614,22 +948,211 @@ All endpoints return consistent error responses:
         },
       },
     },
-    '/api/leaderboard': {
+    '/api/partners/{id}/notification-preferences': {
       get: {
-        tags: ['Analytics'],
-        summary: 'Get leaderboard',
-        description: 'Returns the partner leaderboard rankings.',
-        operationId: 'getLeaderboard',
+        tags: ['Partners', 'Notifications'],
+        summary: 'Get notification preferences',
+        description: 'Returns the channels and notification types the partner receives. Partners who never saved preferences get every channel and type. Requires a signed-in session.',
+        operationId: 'getNotificationPreferences',
         security: [{ bearerAuth: [] }],
         parameters: [
-          {
-            name: 'period',
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Preferences retrieved',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationPreferences' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+      put: {
+        tags: ['Partners', 'Notifications'],
+        summary: 'Update notification preferences',
+        description: 'Switches channels or notification types on or off; types not named keep their setting. Push messages follow these preferences. Requires a signed-in session.',
+        operationId: 'updateNotificationPreferences',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/NotificationPreferences' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Preferences saved',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationPreferences' },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/partners/{id}/events': {
+      get: {
+        tags: ['Partners', 'Notifications'],
+        summary: 'Stream partner events',
+        description: 'Server-sent events stream of the partner\'s new notifications (`notification`), conversions (`conversion`), payout status changes (`payout`) and milestone unlocks (`milestone`). Each event\'s data is JSON and its id is its stream position. Streams end after about four minutes; reconnect with Last-Event-ID to receive the events since that id. Events are kept for 24 hours. Requires authentication; API keys need the stats:read scope.',
+        operationId: 'streamPartnerEvents',
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: 'Partner ID', schema: { type: 'string' } },
+          {
+            name: 'Last-Event-ID',
+            in: 'header',
+            required: false,
+            description: 'Resume after this event; without it the stream starts with the next new event',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Event stream',
+            content: {
+              'text/event-stream': {
+                schema: { type: 'string' },
+                example: 'id: 42\nevent: payout\ndata: {"payoutId":"payout-1","status":"COMPLETED","netCents":24975}\n\n',
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/push/subscribe': {
+      post: {
+        tags: ['Notifications'],
+        summary: 'Subscribe to push notifications',
+        description: 'Saves a browser\'s Web Push subscription for the partner. Conversion, payout and milestone notifications are pushed to it, encrypted with aes128gcm and signed with VAPID. Subscribing the same endpoint again replaces its keys. Requires a signed-in session.',
+        operationId: 'subscribePush',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['partnerId', 'subscription'],
+                properties: {
+                  partnerId: { type: 'string' },
+                  subscription: { $ref: '#/components/schemas/PushSubscription' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Subscription saved; returns its subscriptionId',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/push/unsubscribe': {
+      post: {
+        tags: ['Notifications'],
+        summary: 'Unsubscribe from push notifications',
+        description: 'Removes the partner\'s subscription at an endpoint. Returns removed: false if there was none. Requires a signed-in session.',
+        operationId: 'unsubscribePush',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['partnerId', 'endpoint'],
+                properties: {
+                  partnerId: { type: 'string' },
+                  endpoint: { type: 'string', format: 'uri' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Subscription removed, or none existed',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/leaderboard': {
+      get: {
+        tags: ['Analytics'],
+        summary: 'Get leaderboard',
+        description: 'Returns active partners ranked by commission earned in the period, from daily rollups. Monthly and quarterly periods are calendar months and quarters in UTC.',
+        operationId: 'getLeaderboard',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'period',
             in: 'query',
             description: 'Time period for rankings',
             schema: {
               type: 'string',
-              enum: ['week', 'month', 'quarter', 'year', 'all'],
-              default: 'month',
+              enum: ['monthly', 'quarterly', 'alltime'],
+              default: 'monthly',
             },
           },
           {
@@ -660,67 +1183,1371 @@ All endpoints return consistent error responses:
         },
       },
     },
-    '/api/admin/stats': {
+    '/api/experiments': {
       get: {
-        tags: ['Admin'],
-        summary: 'Get admin dashboard stats',
-        description: 'Returns aggregate statistics for the admin dashboard. Requires admin role.',
-        operationId: 'getAdminStats',
+        tags: ['Partners'],
+        summary: 'List experiments',
+        description: 'Returns a partner\'s share template A/B tests, newest first, with each variant\'s impressions, clicks and conversions and their significance results. Bandit experiments include their allocation history.',
+        operationId: 'listExperiments',
         security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'partnerId', in: 'query', required: true, schema: { type: 'string' } },
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED'] },
+          },
+        ],
         responses: {
           '200': {
-            description: 'Admin stats retrieved',
+            description: 'Experiments retrieved',
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/AdminStatsResponse',
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { type: 'array', items: { $ref: '#/components/schemas/Experiment' } },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+        },
+      },
+      post: {
+        tags: ['Partners'],
+        summary: 'Create an experiment',
+        description: 'Creates a DRAFT experiment. FIXED experiments split traffic by variant weights when every variant has one, otherwise the control gets 1 - targetRatio; BANDIT experiments start from an equal split and are reallocated hourly by Thompson sampling while RUNNING.',
+        operationId: 'createExperiment',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ExperimentRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Experiment created',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { $ref: '#/components/schemas/Experiment' },
+                  },
                 },
               },
             },
           },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
           '401': {
             $ref: '#/components/responses/Unauthorized',
           },
-          '403': {
-            $ref: '#/components/responses/Forbidden',
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/experiments/{id}': {
+      patch: {
+        tags: ['Partners'],
+        summary: 'Update an experiment',
+        description: 'Moves an experiment through DRAFT → RUNNING ⇄ PAUSED → COMPLETED, or declares a winner, which completes it. Results are only recorded, and bandit allocations only updated, while RUNNING.',
+        operationId: 'updateExperiment',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED'] },
+                  winnerId: { type: 'string', description: 'Variant to declare the winner' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Experiment updated',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { $ref: '#/components/schemas/Experiment' },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Status transition not allowed',
+          },
+        },
+      },
+    },
+    '/api/experiments/exposures': {
+      post: {
+        tags: ['Partners'],
+        summary: 'Log share exposures',
+        description: 'Assigns a rendered share a variant of each of the partner\'s running experiments and logs an impression for it. The same share id always gets the same variants. Share links carry the variant in the `x` parameter (`x={experimentId}.{variantId}`), which credits clicks and conversions to it.',
+        operationId: 'logExperimentExposures',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['partnerId', 'shareId'],
+                properties: {
+                  partnerId: { type: 'string' },
+                  shareId: { type: 'string', pattern: '^[A-Za-z0-9_-]{8,64}$' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Variants assigned to the share',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          experimentId: { type: 'string' },
+                          variantId: { type: 'string' },
+                          experimentName: { type: 'string' },
+                          variantName: { type: 'string' },
+                          content: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+        },
+      },
+    },
+    '/api/admin/stats': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Get admin dashboard stats',
+        description: 'Returns aggregate statistics for the admin dashboard. Requires admin role.',
+        operationId: 'getAdminStats',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Admin stats retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AdminStatsResponse',
+                },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/partners': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List all partners',
+        description: 'Returns a list of all partners with filtering options. Requires admin role.',
+        operationId: 'listPartners',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            description: 'Filter by partner status',
+            schema: {
+              type: 'string',
+              enum: ['ACTIVE', 'PENDING', 'INACTIVE', 'SUSPENDED'],
+            },
+          },
+          {
+            name: 'tier',
+            in: 'query',
+            description: 'Filter by partner tier',
+            schema: {
+              type: 'string',
+              enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'],
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Partners list retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AdminPartnersResponse',
+                },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/partners/{id}/action': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Perform partner action',
+        description: 'Performs an action on a partner (approve, suspend, activate, upgrade, downgrade). Requires admin role.',
+        operationId: 'partnerAction',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Partner ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/PartnerActionRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Action completed successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        success: { type: 'boolean' },
+                        newStatus: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/partners/{id}/ledger': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Post a balance adjustment',
+        description: 'Posts a bonus or manual adjustment to the partner\'s ledger. It is settled with the partner\'s next payout. Requires admin role.',
+        operationId: 'postLedgerAdjustment',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Partner ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['type', 'amountCents', 'description'],
+                properties: {
+                  type: { type: 'string', enum: ['BONUS', 'MANUAL_ADJUSTMENT'] },
+                  amountCents: { type: 'integer', description: 'Positive credits the partner; bonuses must be positive' },
+                  description: { type: 'string', maxLength: 200 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Adjustment posted',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/payouts': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List all payouts',
+        description: 'Returns a list of all payouts with filtering options, each partner\'s ledger balance and the total owed to partners. Requires admin role.',
+        operationId: 'listPayouts',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            description: 'Filter by payout status',
+            schema: {
+              type: 'string',
+              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Payouts list retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AdminPayoutsResponse',
+                },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/payouts/{id}/action': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Perform payout action',
+        description: 'Performs an action on a payout (approve, process, reject). Requires admin role.',
+        operationId: 'payoutAction',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Payout ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/PayoutActionRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Action completed successfully',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/bulk': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Bulk operations',
+        description: 'Performs bulk operations on multiple partners or payouts. Requires admin role.',
+        operationId: 'bulkAction',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/BulkActionRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Bulk action completed',
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/BulkActionResponse',
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/commission-rules': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List commission rules',
+        description: 'Returns all commission rules, highest priority first. Requires admin role.',
+        operationId: 'listCommissionRules',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Commission rules retrieved',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      post: {
+        tags: ['Admin'],
+        summary: 'Create commission rule',
+        description: 'Creates a flat, percentage or tiered-percentage commission rule. Rules with a partnerId override global rules for that partner. Requires admin role.',
+        operationId: 'createCommissionRule',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/CommissionRuleRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Commission rule created',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/commission-rules/{id}': {
+      patch: {
+        tags: ['Admin'],
+        summary: 'Update commission rule',
+        description: 'Updates any fields of a commission rule. Requires admin role.',
+        operationId: 'updateCommissionRule',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/CommissionRuleRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Commission rule updated',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+      delete: {
+        tags: ['Admin'],
+        summary: 'Delete commission rule',
+        operationId: 'deleteCommissionRule',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Commission rule deleted',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/tier-changes': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List tier changes',
+        description: 'Returns the partner tier history, newest first. Includes automatic changes from the tier evaluation job and manual admin changes. Requires admin role.',
+        operationId: 'listTierChanges',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'partnerId',
+            in: 'query',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', default: 20, maximum: 100 },
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            schema: { type: 'integer', default: 0 },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Tier changes retrieved',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/settings': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Get program settings',
+        description: 'Returns the tier requirements, rolling window, demotion grace period, payout hold period and recruiter override. Requires admin role.',
+        operationId: 'getProgramSettings',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Settings retrieved',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      patch: {
+        tags: ['Admin'],
+        summary: 'Update program settings',
+        description: 'Updates any fields of the tier, payout or recruitment settings. Requires admin role.',
+        operationId: 'updateProgramSettings',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/ProgramSettingsRequest',
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Settings updated',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/cron/tier-evaluation': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Run tier evaluation',
+        description: 'Recomputes every active partner\'s tier from rolling conversions and revenue. Upgrades apply immediately; demotions wait for the grace period. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'runTierEvaluation',
+        responses: {
+          '200': {
+            description: 'Evaluation summary (evaluated, upgraded, downgraded, gracePeriodStarted, failed, changes)',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/cron/rollup-backfill': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Backfill daily rollups',
+        description: 'Rebuilds every partner\'s daily rollups for the last 2 days from raw clicks and referrals. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'runRollupBackfill',
+        responses: {
+          '200': {
+            description: 'Rebuild summary (partners, rollups, failed)',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/admin/rollups': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Rebuild daily rollups',
+        description: 'Recomputes daily rollups from raw clicks and referrals, for one partner or every partner, from a date or for all time. Requires admin role.',
+        operationId: 'rebuildRollups',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  partnerId: { type: 'string', description: 'Only rebuild this partner' },
+                  since: { type: 'string', format: 'date-time', description: 'Only rebuild days from this date on' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Rebuild summary (partners, rollups, failed)',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/cron/payout-run': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Run payouts',
+        description: 'Pays every active partner whose available commission meets the minimum. Payouts under the auto-approve threshold are transferred; larger ones wait for approval. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'runScheduledPayouts',
+        responses: {
+          '200': {
+            description: 'Finished payout run',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PayoutRun' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '409': {
+            description: 'Another payout run is in progress',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/cron/payout-reconciliation': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Reconcile payouts',
+        description: 'Compares the last 7 days of payouts with Stripe and applies fixes where Stripe is clear. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'runScheduledReconciliation',
+        responses: {
+          '200': {
+            description: 'Reconciliation report',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ReconciliationReport' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET or Stripe not configured',
+          },
+        },
+      },
+    },
+    '/api/admin/payout-runs': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List payout runs',
+        description: 'Lists payout runs, newest first. Requires admin role.',
+        operationId: 'listPayoutRuns',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            schema: { type: 'integer', minimum: 0, default: 0 },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Payout runs',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      post: {
+        tags: ['Admin'],
+        summary: 'Start a payout run',
+        description: 'Runs payouts now and returns the finished run. Requires admin role.',
+        operationId: 'startPayoutRun',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '201': {
+            description: 'Finished payout run',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PayoutRun' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '409': {
+            description: 'Another payout run is in progress',
+          },
+        },
+      },
+    },
+    '/api/admin/payout-runs/{id}': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Get a payout run',
+        description: 'Returns a payout run with one item per partner paid. Requires admin role.',
+        operationId: 'getPayoutRun',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Payout run ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Payout run',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PayoutRun' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/payout-runs/{id}/retry': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Retry a payout run',
+        description: 'Retries the run\'s retryable items, such as transfers that failed while Stripe was unavailable. Requires admin role.',
+        operationId: 'retryPayoutRun',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'Payout run ID',
+            schema: {
+              type: 'string',
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Payout run after the retry',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PayoutRun' },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Another payout run is in progress',
+          },
+        },
+      },
+    },
+    '/api/admin/payouts/reconcile': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Reconcile payouts',
+        description: 'Compares payouts requested in a range with Stripe transfers and bank payouts. Fixes are applied only with autoFix. Requires admin role.',
+        operationId: 'reconcilePayouts',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  since: { type: 'string', format: 'date-time', description: 'Defaults to 7 days before until' },
+                  until: { type: 'string', format: 'date-time', description: 'Defaults to now' },
+                  autoFix: { type: 'boolean', default: false },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Reconciliation report',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ReconciliationReport' },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '503': {
+            description: 'Stripe not configured',
+          },
+        },
+      },
+    },
+    '/api/cron/webhook-deliveries': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Send webhook deliveries',
+        description: 'Sends queued webhook deliveries and retries failed ones whose backoff has elapsed. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'sendWebhookDeliveries',
+        responses: {
+          '200': {
+            description: 'Counts of attempted, succeeded and failed deliveries',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/cron/push-deliveries': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Send push notifications',
+        description: 'Sends queued conversion, payout and milestone notifications as Web Push messages. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'sendPushNotifications',
+        responses: {
+          '200': {
+            description: 'Counts of notifications sent, and of push messages sent, pruned and failed',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/cron/experiment-allocation': {
+      get: {
+        tags: ['Jobs'],
+        summary: 'Reallocate bandit experiments',
+        description: 'Moves the traffic of every running bandit experiment toward its best share message by Thompson sampling, keeping each variant at its exploration floor, and records the allocation. Requires Authorization: Bearer {CRON_SECRET}.',
+        operationId: 'updateExperimentAllocations',
+        responses: {
+          '200': {
+            description: 'Counts of bandit experiments, and of allocations updated and failed',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '503': {
+            description: 'CRON_SECRET not configured',
+          },
+        },
+      },
+    },
+    '/api/admin/audit': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List audit log',
+        description: 'Returns audit log entries for admin changes, settings updates and payout status transitions, newest first. The log is append-only. Requires admin role.',
+        operationId: 'listAuditLog',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'actorId', in: 'query', schema: { type: 'string' } },
+          { name: 'action', in: 'query', schema: { type: 'string' }, description: 'e.g. partner.suspend, payout.completed' },
+          { name: 'targetType', in: 'query', schema: { type: 'string', enum: ['PARTNER', 'APPLICATION', 'INVITE_CODE', 'PAYOUT', 'PAYOUT_RUN', 'COMMISSION_RULE', 'PROGRAM_SETTING', 'WEBHOOK_ENDPOINT'] } },
+          { name: 'targetId', in: 'query', schema: { type: 'string' } },
+          { name: 'since', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          { name: 'until', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50, maximum: 100 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': {
+            description: 'Audit log entries retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        entries: { type: 'array', items: { $ref: '#/components/schemas/AuditLogEntry' } },
+                        total: { type: 'integer' },
+                        limit: { type: 'integer' },
+                        offset: { type: 'integer' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/applications': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List partner applications',
+        description: 'Returns partner applications, oldest first. Defaults to the review queue (waitlist, invite code and info requested). Requires admin role.',
+        operationId: 'listApplications',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            schema: {
+              type: 'string',
+              enum: ['PENDING_REVIEW', 'WAITLIST', 'INSTANT_ACCESS', 'INFO_REQUESTED', 'APPROVED', 'REJECTED'],
+              default: 'PENDING_REVIEW',
+            },
+          },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50, maximum: 100 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': {
+            description: 'Applications retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        applications: { type: 'array', items: { $ref: '#/components/schemas/PartnerApplication' } },
+                        total: { type: 'integer' },
+                        limit: { type: 'integer' },
+                        offset: { type: 'integer' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+    },
+    '/api/admin/applications/{id}/review': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Review a partner application',
+        description: 'Approves, rejects or requests more info on an application awaiting review. Approval creates the partner with a unique referral code and sends the welcome email. Notes are required to request info and are shown to the applicant. Requires admin role.',
+        operationId: 'reviewApplication',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['action'],
+                properties: {
+                  action: { type: 'string', enum: ['approve', 'reject', 'request_info'] },
+                  notes: { type: 'string', maxLength: 2000 },
+                  partnerStatus: { type: 'string', enum: ['ACTIVE', 'PENDING'], default: 'ACTIVE' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Application reviewed',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        application: { $ref: '#/components/schemas/PartnerApplication' },
+                        partner: { $ref: '#/components/schemas/AdminPartner' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Application already reviewed, or a partner with this email exists',
+          },
+        },
+      },
+    },
+    '/api/admin/invite-codes': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List invite codes',
+        description: 'Returns invite codes, newest first, with their state and how many applications redeemed each code and how many of those became partners. Requires admin role.',
+        operationId: 'listInviteCodes',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Invite codes retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        inviteCodes: { type: 'array', items: { $ref: '#/components/schemas/InviteCode' } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      post: {
+        tags: ['Admin'],
+        summary: 'Create an invite code',
+        description: 'Creates an invite code. A random code is generated when none is given. Requires admin role.',
+        operationId: 'createInviteCode',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/InviteCodeRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Invite code created',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        inviteCode: { $ref: '#/components/schemas/InviteCode' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Invite code already exists',
           },
         },
       },
     },
-    '/api/admin/partners': {
+    '/api/admin/invite-codes/{id}': {
       get: {
         tags: ['Admin'],
-        summary: 'List all partners',
-        description: 'Returns a list of all partners with filtering options. Requires admin role.',
-        operationId: 'listPartners',
+        summary: 'Get an invite code',
+        description: 'Returns an invite code with its stats and latest 100 redemptions. Requires admin role.',
+        operationId: 'getInviteCode',
         security: [{ bearerAuth: [] }],
         parameters: [
-          {
-            name: 'status',
-            in: 'query',
-            description: 'Filter by partner status',
-            schema: {
-              type: 'string',
-              enum: ['ACTIVE', 'PENDING', 'INACTIVE', 'SUSPENDED'],
-            },
-          },
-          {
-            name: 'tier',
-            in: 'query',
-            description: 'Filter by partner tier',
-            schema: {
-              type: 'string',
-              enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'],
-            },
-          },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
         ],
         responses: {
           '200': {
-            description: 'Partners list retrieved',
+            description: 'Invite code retrieved',
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/AdminPartnersResponse',
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        inviteCode: { $ref: '#/components/schemas/InviteCode' },
+                        redemptions: { type: 'array', items: { $ref: '#/components/schemas/InviteCodeRedemption' } },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -731,40 +2558,31 @@ All endpoints return consistent error responses:
           '403': {
             $ref: '#/components/responses/Forbidden',
           },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
         },
       },
-    },
-    '/api/admin/partners/{id}/action': {
-      post: {
+      patch: {
         tags: ['Admin'],
-        summary: 'Perform partner action',
-        description: 'Performs an action on a partner (approve, suspend, activate, upgrade, downgrade). Requires admin role.',
-        operationId: 'partnerAction',
+        summary: 'Update an invite code',
+        description: 'Updates an invite code\'s limits, tier or inviting partner, or deactivates it. The code itself cannot change. Requires admin role.',
+        operationId: 'updateInviteCode',
         security: [{ bearerAuth: [] }],
         parameters: [
-          {
-            name: 'id',
-            in: 'path',
-            required: true,
-            description: 'Partner ID',
-            schema: {
-              type: 'string',
-            },
-          },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
         ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: {
-                $ref: '#/components/schemas/PartnerActionRequest',
-              },
+              schema: { $ref: '#/components/schemas/InviteCodeRequest' },
             },
           },
         },
         responses: {
           '200': {
-            description: 'Action completed successfully',
+            description: 'Invite code updated',
             content: {
               'application/json': {
                 schema: {
@@ -774,8 +2592,7 @@ All endpoints return consistent error responses:
                     data: {
                       type: 'object',
                       properties: {
-                        success: { type: 'boolean' },
-                        newStatus: { type: 'string' },
+                        inviteCode: { $ref: '#/components/schemas/InviteCode' },
                       },
                     },
                   },
@@ -797,32 +2614,31 @@ All endpoints return consistent error responses:
           },
         },
       },
-    },
-    '/api/admin/payouts': {
-      get: {
+      delete: {
         tags: ['Admin'],
-        summary: 'List all payouts',
-        description: 'Returns a list of all payouts with filtering options. Requires admin role.',
-        operationId: 'listPayouts',
+        summary: 'Delete an invite code',
+        description: 'Deletes an invite code that was never redeemed. Redeemed codes must be deactivated instead. Requires admin role.',
+        operationId: 'deleteInviteCode',
         security: [{ bearerAuth: [] }],
         parameters: [
-          {
-            name: 'status',
-            in: 'query',
-            description: 'Filter by payout status',
-            schema: {
-              type: 'string',
-              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
-            },
-          },
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
         ],
         responses: {
           '200': {
-            description: 'Payouts list retrieved',
+            description: 'Invite code deleted',
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/AdminPayoutsResponse',
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        deleted: { type: 'boolean' },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -833,40 +2649,58 @@ All endpoints return consistent error responses:
           '403': {
             $ref: '#/components/responses/Forbidden',
           },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+          '409': {
+            description: 'Invite code has been redeemed',
+          },
         },
       },
     },
-    '/api/admin/payouts/{id}/action': {
-      post: {
+    '/api/admin/webhooks': {
+      get: {
         tags: ['Admin'],
-        summary: 'Perform payout action',
-        description: 'Performs an action on a payout (approve, process, reject). Requires admin role.',
-        operationId: 'payoutAction',
+        summary: 'List webhook endpoints',
+        description: 'Returns webhook endpoints without their secrets, and the event catalog. Requires admin role.',
+        operationId: 'listWebhookEndpoints',
         security: [{ bearerAuth: [] }],
         parameters: [
-          {
-            name: 'id',
-            in: 'path',
-            required: true,
-            description: 'Payout ID',
-            schema: {
-              type: 'string',
-            },
-          },
+          { name: 'partnerId', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
         ],
+        responses: {
+          '200': {
+            description: 'Webhook endpoints retrieved',
+          },
+          '401': {
+            $ref: '#/components/responses/Unauthorized',
+          },
+          '403': {
+            $ref: '#/components/responses/Forbidden',
+          },
+        },
+      },
+      post: {
+        tags: ['Admin'],
+        summary: 'Create webhook endpoint',
+        description: 'Registers an endpoint for the selected events. The response includes the signing secret, which is not shown again. Requires admin role.',
+        operationId: 'createWebhookEndpoint',
+        security: [{ bearerAuth: [] }],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
-                $ref: '#/components/schemas/PayoutActionRequest',
+                $ref: '#/components/schemas/WebhookEndpointRequest',
               },
             },
           },
         },
         responses: {
-          '200': {
-            description: 'Action completed successfully',
+          '201': {
+            description: 'Webhook endpoint created',
           },
           '400': {
             $ref: '#/components/responses/BadRequest',
@@ -883,42 +2717,145 @@ All endpoints return consistent error responses:
         },
       },
     },
-    '/api/admin/bulk': {
-      post: {
+    '/api/admin/webhooks/{id}': {
+      get: {
         tags: ['Admin'],
-        summary: 'Bulk operations',
-        description: 'Performs bulk operations on multiple partners or payouts. Requires admin role.',
-        operationId: 'bulkAction',
+        summary: 'Get webhook endpoint',
+        operationId: 'getWebhookEndpoint',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Webhook endpoint retrieved',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+      patch: {
+        tags: ['Admin'],
+        summary: 'Update webhook endpoint',
+        description: 'Updates any fields of an endpoint. With rotateSecret the new secret is returned once. Requires admin role.',
+        operationId: 'updateWebhookEndpoint',
         security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
         requestBody: {
           required: true,
           content: {
             'application/json': {
               schema: {
-                $ref: '#/components/schemas/BulkActionRequest',
+                allOf: [
+                  { $ref: '#/components/schemas/WebhookEndpointRequest' },
+                  { type: 'object', properties: { rotateSecret: { type: 'boolean' } } },
+                ],
               },
             },
           },
         },
         responses: {
           '200': {
-            description: 'Bulk action completed',
+            description: 'Webhook endpoint updated',
+          },
+          '400': {
+            $ref: '#/components/responses/BadRequest',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+      delete: {
+        tags: ['Admin'],
+        summary: 'Delete webhook endpoint',
+        description: 'Deletes an endpoint and its delivery log. Requires admin role.',
+        operationId: 'deleteWebhookEndpoint',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Webhook endpoint deleted',
+          },
+          '404': {
+            $ref: '#/components/responses/NotFound',
+          },
+        },
+      },
+    },
+    '/api/admin/webhooks/{id}/deliveries': {
+      get: {
+        tags: ['Admin'],
+        summary: 'List webhook deliveries',
+        description: 'Returns the delivery log for an endpoint, newest first. Requires admin role.',
+        operationId: 'listWebhookDeliveries',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'FAILED'] } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
+        ],
+        responses: {
+          '200': {
+            description: 'Deliveries retrieved',
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/BulkActionResponse',
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/WebhookDelivery' },
                 },
               },
             },
           },
-          '400': {
-            $ref: '#/components/responses/BadRequest',
+          '404': {
+            $ref: '#/components/responses/NotFound',
           },
-          '401': {
-            $ref: '#/components/responses/Unauthorized',
+        },
+      },
+    },
+    '/api/admin/webhooks/{id}/deliveries/{deliveryId}/redeliver': {
+      post: {
+        tags: ['Admin'],
+        summary: 'Redeliver webhook event',
+        description: 'Sends a logged event to the endpoint again as a new delivery. Requires admin role.',
+        operationId: 'redeliverWebhook',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'deliveryId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Event redelivered',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/WebhookDelivery' },
+              },
+            },
           },
-          '403': {
-            $ref: '#/components/responses/Forbidden',
+          '404': {
+            $ref: '#/components/responses/NotFound',
           },
         },
       },
@@ -1001,6 +2938,11 @@ All endpoints return consistent error responses:
         bearerFormat: 'JWT',
         description: 'Clerk session token',
       },
+      apiKeyAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Partner API key (icp_...), limited to its partner and scopes',
+      },
     },
     schemas: {
       HealthResponse: {
@@ -1031,10 +2973,12 @@ All endpoints return consistent error responses:
           data: {
             type: 'object',
             properties: {
-              totalEarnings: { type: 'number', description: 'Total earnings in cents' },
-              pendingEarnings: { type: 'number' },
+              totalEarned: { type: 'number', description: 'Commission paid out or in a payout, in cents' },
+              pendingPayout: { type: 'number', description: 'Commission still in the refund hold period, in cents' },
+              availableBalance: { type: 'number', description: 'Commission past the hold period that can be requested, in cents' },
               totalReferrals: { type: 'integer' },
               conversionRate: { type: 'number' },
+              commissionRate: { type: 'number', description: 'Current commission rate (fraction of order amount)' },
               tier: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] },
               rank: { type: 'integer' },
             },
@@ -1100,28 +3044,84 @@ All endpoints return consistent error responses:
             properties: {
               payouts: {
                 type: 'array',
-                items: { $ref: '#/components/schemas/Payout' },
+                items: { $ref: '#/components/schemas/Payout' },
+              },
+              total: { type: 'integer' },
+            },
+          },
+        },
+      },
+      Payout: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          amount: { type: 'number', description: 'Amount in cents' },
+          fee: { type: 'number', description: 'Fee in cents' },
+          adjustmentCents: { type: 'number', description: 'Refund/chargeback clawbacks deducted, in cents (zero or negative)' },
+          netAmount: { type: 'number', description: 'Net amount in cents' },
+          status: {
+            type: 'string',
+            enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+          },
+          requestedAt: { type: 'string', format: 'date-time' },
+          processedAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      AttributionResponse: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          data: {
+            type: 'object',
+            properties: {
+              totalConversions: { type: 'integer' },
+              totalRevenue: { type: 'integer', description: 'Cents' },
+              sources: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    source: { type: 'string' },
+                    touchpoints: { type: 'integer', description: 'Clicks in the period' },
+                    conversions: { type: 'number', description: 'Credited conversions; fractional for multi-touch models' },
+                    revenue: { type: 'integer', description: 'Revenue of conversions the source took part in' },
+                    attributedRevenue: { type: 'integer' },
+                    avgTimeToConvert: { type: 'integer', description: 'Hours from the source\'s last touch to conversion' },
+                    conversionRate: { type: 'number' },
+                  },
+                },
+              },
+              campaigns: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    campaignId: { type: 'string' },
+                    campaignName: { type: 'string' },
+                    source: { type: 'string' },
+                    clicks: { type: 'integer' },
+                    conversions: { type: 'number' },
+                    revenue: { type: 'integer', description: 'Attributed revenue' },
+                    commission: { type: 'integer', description: 'Attributed commission' },
+                  },
+                },
+              },
+              topPaths: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'array', items: { type: 'string' } },
+                    conversions: { type: 'integer' },
+                    revenue: { type: 'integer' },
+                    percentage: { type: 'number' },
+                  },
+                },
               },
-              total: { type: 'integer' },
             },
           },
         },
       },
-      Payout: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
-          amount: { type: 'number', description: 'Amount in cents' },
-          fee: { type: 'number', description: 'Fee in cents' },
-          netAmount: { type: 'number', description: 'Net amount in cents' },
-          status: {
-            type: 'string',
-            enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
-          },
-          requestedAt: { type: 'string', format: 'date-time' },
-          processedAt: { type: 'string', format: 'date-time', nullable: true },
-        },
-      },
       AnalyticsResponse: {
         type: 'object',
         properties: {
@@ -1129,27 +3129,69 @@ All endpoints return consistent error responses:
           data: {
             type: 'object',
             properties: {
-              period: { type: 'string' },
-              chartData: {
+              overview: {
+                type: 'object',
+                description: 'Trends are the percentage change against the previous period',
+                properties: {
+                  clicks: { type: 'integer' },
+                  clicksTrend: { type: 'number' },
+                  conversions: { type: 'integer' },
+                  conversionsTrend: { type: 'number' },
+                  revenue: { type: 'integer', description: 'Order revenue in cents' },
+                  revenueTrend: { type: 'number' },
+                  conversionRate: { type: 'number', description: 'Conversions per 100 clicks' },
+                  conversionRateTrend: { type: 'number' },
+                },
+              },
+              funnel: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    stage: { type: 'string', enum: ['Link Clicks', 'Unique Visitors', 'Sign-ups', 'Converted'] },
+                    count: { type: 'integer' },
+                    percentage: { type: 'number', description: 'Share of link clicks' },
+                  },
+                },
+              },
+              timeSeries: {
                 type: 'array',
                 items: {
                   type: 'object',
                   properties: {
                     date: { type: 'string', format: 'date' },
-                    earnings: { type: 'number' },
                     clicks: { type: 'integer' },
                     conversions: { type: 'integer' },
+                    revenue: { type: 'integer' },
+                    commission: { type: 'integer' },
                   },
                 },
               },
-              sourceData: {
+              sourceBreakdown: {
                 type: 'array',
                 items: {
                   type: 'object',
                   properties: {
-                    source: { type: 'string' },
+                    source: { type: 'string', description: 'Campaign source, or Direct' },
+                    clicks: { type: 'integer' },
+                    conversions: { type: 'integer' },
+                    revenue: { type: 'integer' },
+                    commission: { type: 'integer' },
+                    conversionRate: { type: 'number' },
+                  },
+                },
+              },
+              topCampaigns: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
                     clicks: { type: 'integer' },
                     conversions: { type: 'integer' },
+                    revenue: { type: 'integer' },
+                    commission: { type: 'integer' },
                   },
                 },
               },
@@ -1205,6 +3247,7 @@ All endpoints return consistent error responses:
             properties: {
               accountId: { type: 'string' },
               onboardingUrl: { type: 'string', format: 'uri' },
+              resumed: { type: 'boolean', description: 'The partner\'s existing account was reused' },
             },
           },
         },
@@ -1369,6 +3412,103 @@ All endpoints return consistent error responses:
           },
         },
       },
+      StatementResponse: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          data: {
+            type: 'object',
+            properties: {
+              partnerId: { type: 'string' },
+              since: { type: 'string', format: 'date-time', nullable: true },
+              until: { type: 'string', format: 'date-time' },
+              openingBalanceCents: { type: 'integer' },
+              closingBalanceCents: { type: 'integer' },
+              totals: {
+                type: 'object',
+                description: 'Partner balance movements by entry type',
+                additionalProperties: { type: 'integer' },
+              },
+              lines: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    transactionId: { type: 'string' },
+                    date: { type: 'string', format: 'date-time' },
+                    type: {
+                      type: 'string',
+                      enum: [
+                        'COMMISSION_EARNED',
+                        'COMMISSION_REVERSED',
+                        'OVERRIDE_EARNED',
+                        'OVERRIDE_REVERSED',
+                        'PAYOUT_DEBIT',
+                        'FEE',
+                        'BONUS',
+                        'MANUAL_ADJUSTMENT',
+                      ],
+                    },
+                    description: { type: 'string' },
+                    amountCents: { type: 'integer' },
+                    balanceCents: { type: 'integer', description: 'Running balance after this line' },
+                    referralId: { type: 'string', nullable: true },
+                    payoutId: { type: 'string', nullable: true },
+                  },
+                },
+              },
+              reconciliation: {
+                type: 'object',
+                properties: {
+                  differenceCents: { type: 'integer' },
+                  unbalancedTransactionIds: { type: 'array', items: { type: 'string' } },
+                  reconciled: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      },
+      RecruitsResponse: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          data: {
+            type: 'object',
+            properties: {
+              recruitmentLink: { type: 'string', format: 'uri' },
+              overrideRate: { type: 'number', description: 'Fraction of each recruit\'s commission' },
+              overrideMonths: { type: 'integer', description: 'Months after joining the override is paid' },
+              totals: {
+                type: 'object',
+                properties: {
+                  recruits: { type: 'integer' },
+                  activeOverrides: { type: 'integer' },
+                  earnedCents: { type: 'integer' },
+                },
+              },
+              recruits: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    tier: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] },
+                    status: { type: 'string' },
+                    recruitedAt: { type: 'string', format: 'date-time', nullable: true },
+                    overrideEndsAt: { type: 'string', format: 'date-time', nullable: true },
+                    overrideActive: { type: 'boolean' },
+                    overrideCount: { type: 'integer' },
+                    overrideEarnedCents: { type: 'integer', description: 'Override earned and not reversed' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
       AdminPayoutsResponse: {
         type: 'object',
         properties: {
@@ -1380,6 +3520,7 @@ All endpoints return consistent error responses:
                 type: 'array',
                 items: { $ref: '#/components/schemas/AdminPayout' },
               },
+              outstandingBalance: { type: 'number', description: 'Sum of all partner ledger balances, in cents' },
             },
           },
         },
@@ -1394,6 +3535,7 @@ All endpoints return consistent error responses:
           amount: { type: 'number' },
           fee: { type: 'number' },
           netAmount: { type: 'number' },
+          partnerBalance: { type: 'number', description: 'Partner\'s current ledger balance, in cents' },
           status: {
             type: 'string',
             enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
@@ -1464,6 +3606,398 @@ All endpoints return consistent error responses:
           },
         },
       },
+      CommissionRuleRequest: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['FLAT', 'PERCENTAGE', 'TIERED_PERCENTAGE'] },
+          priority: { type: 'integer', description: 'Higher priority rules win' },
+          isActive: { type: 'boolean' },
+          partnerId: { type: 'string', nullable: true, description: 'Per-partner override' },
+          tiers: { type: 'array', items: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] } },
+          sources: { type: 'array', items: { type: 'string' } },
+          minOrderCents: { type: 'integer', nullable: true },
+          maxOrderCents: { type: 'integer', nullable: true, description: 'Exclusive' },
+          startsAt: { type: 'string', format: 'date-time', nullable: true },
+          endsAt: { type: 'string', format: 'date-time', nullable: true },
+          flatAmountCents: { type: 'integer', nullable: true },
+          rate: { type: 'number', nullable: true, description: 'Fraction of order amount' },
+          bands: {
+            type: 'array',
+            nullable: true,
+            items: {
+              type: 'object',
+              properties: {
+                upToCents: { type: 'integer', nullable: true },
+                rate: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+      ProgramSettingsRequest: {
+        type: 'object',
+        properties: {
+          tiers: {
+            type: 'object',
+            properties: {
+              requirements: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    tier: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] },
+                    minConversions: { type: 'integer' },
+                    minRevenueCents: { type: 'integer' },
+                  },
+                },
+              },
+              windowDays: { type: 'integer', description: 'Rolling window for requirements' },
+              gracePeriodDays: { type: 'integer', description: 'Days below requirements before demotion' },
+            },
+          },
+          payouts: {
+            type: 'object',
+            properties: {
+              holdDays: { type: 'integer', description: 'Days after conversion before commission can be paid out' },
+              autoApproveThreshold: { type: 'integer', description: 'Payout runs transfer payouts under this many cents without approval' },
+            },
+          },
+          recruitment: {
+            type: 'object',
+            properties: {
+              overrideRate: { type: 'number', description: 'Fraction of a recruit\'s commission paid to their recruiter (0-0.5)' },
+              overrideMonths: { type: 'integer', description: 'Months after joining the override is paid' },
+            },
+          },
+        },
+      },
+      ReconciliationReport: {
+        type: 'object',
+        properties: {
+          since: { type: 'string', format: 'date-time' },
+          until: { type: 'string', format: 'date-time' },
+          checkedPayouts: { type: 'integer' },
+          stripeTransfers: { type: 'integer' },
+          stripePayouts: { type: 'integer' },
+          issues: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['STUCK_PROCESSING', 'MISSING_TRANSACTION_ID', 'AMOUNT_DRIFT'] },
+                payoutId: { type: 'string' },
+                partnerId: { type: 'string' },
+                detail: { type: 'string' },
+                transferId: { type: 'string', nullable: true },
+                stripePayoutId: { type: 'string', nullable: true },
+                expectedCents: { type: 'integer' },
+                actualCents: { type: 'integer' },
+                fix: {
+                  type: 'object',
+                  nullable: true,
+                  properties: {
+                    action: { type: 'string', enum: ['SET_TRANSACTION_ID', 'COMPLETE', 'FAIL'] },
+                  },
+                },
+                fixed: { type: 'boolean' },
+              },
+            },
+          },
+          fixedCount: { type: 'integer' },
+        },
+      },
+      PayoutRun: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          trigger: { type: 'string', enum: ['SCHEDULED', 'MANUAL'] },
+          status: { type: 'string', enum: ['RUNNING', 'COMPLETED', 'FAILED'] },
+          triggeredBy: { type: 'string', nullable: true },
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                partnerId: { type: 'string' },
+                payoutId: { type: 'string', nullable: true },
+                amountCents: { type: 'integer' },
+                netCents: { type: 'integer' },
+                status: { type: 'string', enum: ['TRANSFERRED', 'AWAITING_APPROVAL', 'FAILED'] },
+                transferId: { type: 'string', nullable: true },
+                error: { type: 'string', nullable: true },
+                retryable: { type: 'boolean' },
+              },
+            },
+          },
+          transferredCount: { type: 'integer' },
+          awaitingApprovalCount: { type: 'integer' },
+          failedCount: { type: 'integer' },
+          retryableCount: { type: 'integer' },
+          transferredCents: { type: 'integer' },
+          error: { type: 'string', nullable: true },
+          startedAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      ApiKey: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          partnerId: { type: 'string' },
+          name: { type: 'string' },
+          prefix: { type: 'string', description: 'Leading characters of the key' },
+          scopes: {
+            type: 'array',
+            items: { type: 'string', enum: ['campaigns:read', 'campaigns:write', 'stats:read', 'milestones:write', 'payouts:read'] },
+          },
+          lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+          revokedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      PartnerApplication: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string', nullable: true },
+          company: { type: 'string', nullable: true },
+          website: { type: 'string', nullable: true },
+          audienceSize: { type: 'integer', nullable: true },
+          channels: {
+            type: 'array',
+            items: { type: 'string', enum: ['LINKEDIN', 'TWITTER', 'NEWSLETTER', 'PODCAST', 'YOUTUBE', 'BLOG', 'COMMUNITY', 'EVENTS', 'OTHER'] },
+          },
+          message: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['WAITLIST', 'INSTANT_ACCESS', 'INFO_REQUESTED', 'APPROVED', 'REJECTED'] },
+          inviteCode: { type: 'string', nullable: true },
+          recruitedById: { type: 'string', nullable: true, description: 'Partner whose recruitment link the applicant followed' },
+          reviewNotes: { type: 'string', nullable: true },
+          reviewedBy: { type: 'string', nullable: true },
+          reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+          partnerId: { type: 'string', nullable: true, description: 'Partner created on approval' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      InviteCode: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          code: { type: 'string', example: 'LAUNCH50' },
+          description: { type: 'string', nullable: true },
+          maxUses: { type: 'integer', nullable: true, description: 'Null for unlimited' },
+          useCount: { type: 'integer', description: 'Approved applications that redeemed the code; counts toward maxUses' },
+          expiresAt: { type: 'string', format: 'date-time', nullable: true },
+          defaultTier: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] },
+          invitedByPartnerId: { type: 'string', nullable: true },
+          isActive: { type: 'boolean' },
+          state: { type: 'string', enum: ['ACTIVE', 'DISABLED', 'EXPIRED', 'EXHAUSTED'] },
+          redemptions: { type: 'integer', description: 'Applications that redeemed the code' },
+          signups: { type: 'integer', description: 'Redemptions approved as partners' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      InviteCodeRequest: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', pattern: '^[A-Za-z0-9_-]{4,20}$', description: 'Create only; generated when omitted' },
+          description: { type: 'string', nullable: true },
+          maxUses: { type: 'integer', minimum: 1, nullable: true },
+          expiresAt: { type: 'string', format: 'date-time', nullable: true },
+          defaultTier: { type: 'string', enum: ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'] },
+          invitedByPartnerId: { type: 'string', nullable: true },
+          isActive: { type: 'boolean', description: 'Update only' },
+        },
+      },
+      InviteCodeRedemption: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          inviteCodeId: { type: 'string' },
+          applicationId: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          partnerId: { type: 'string', nullable: true, description: 'Set when the application is approved' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      AuditLogEntry: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          actorType: { type: 'string', enum: ['ADMIN', 'PARTNER', 'SYSTEM'] },
+          actorId: { type: 'string', nullable: true, description: 'User id, partner id or job name' },
+          action: { type: 'string', example: 'payout.approve' },
+          targetType: { type: 'string', enum: ['PARTNER', 'APPLICATION', 'INVITE_CODE', 'PAYOUT', 'PAYOUT_RUN', 'COMMISSION_RULE', 'PROGRAM_SETTING', 'WEBHOOK_ENDPOINT'] },
+          targetId: { type: 'string', nullable: true },
+          changes: {
+            type: 'object',
+            description: 'Changed fields with their before and after values',
+            additionalProperties: {
+              type: 'object',
+              properties: { before: {}, after: {} },
+            },
+          },
+          metadata: { type: 'object', nullable: true },
+          requestId: { type: 'string', nullable: true },
+          ipAddress: { type: 'string', nullable: true },
+          userAgent: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      WebhookEndpointRequest: {
+        type: 'object',
+        required: ['url', 'events'],
+        properties: {
+          url: { type: 'string', format: 'uri', description: 'HTTPS URL that receives deliveries' },
+          description: { type: 'string', nullable: true },
+          events: { type: 'array', items: { type: 'string', enum: ['referral.converted', 'referral.refunded', 'payout.completed', 'payout.failed', 'milestone.achieved', 'partner.tier_changed'] } },
+          partnerId: { type: 'string', nullable: true, description: 'Only send this partner\'s events' },
+          isActive: { type: 'boolean' },
+        },
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          endpointId: { type: 'string' },
+          eventId: { type: 'string' },
+          eventType: { type: 'string', enum: ['referral.converted', 'referral.refunded', 'payout.completed', 'payout.failed', 'milestone.achieved', 'partner.tier_changed'] },
+          payload: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              type: { type: 'string' },
+              createdAt: { type: 'string', format: 'date-time' },
+              partnerId: { type: 'string' },
+              data: { type: 'object' },
+            },
+          },
+          status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'FAILED'] },
+          attempts: { type: 'integer' },
+          responseStatus: { type: 'integer', nullable: true },
+          error: { type: 'string', nullable: true },
+          nextAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+          lastAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+          deliveredAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      Experiment: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          partnerId: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED'] },
+          allocationMode: { type: 'string', enum: ['FIXED', 'BANDIT'] },
+          targetRatio: { type: 'number', description: 'Traffic share of the non-control variants when variants have no weights' },
+          explorationFloor: { type: 'number', description: 'BANDIT: minimum traffic share of every variant' },
+          minSampleSize: { type: 'integer', description: 'Impressions per variant' },
+          confidenceLevel: { type: 'integer', description: 'Percent' },
+          variants: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                content: { type: 'string', description: '{link} is replaced with the referral link' },
+                isControl: { type: 'boolean' },
+                isWinner: { type: 'boolean' },
+                weight: { type: 'number', nullable: true, description: 'Relative traffic share; the current allocation for BANDIT experiments' },
+                impressions: { type: 'integer' },
+                clicks: { type: 'integer' },
+                conversions: { type: 'integer' },
+              },
+            },
+          },
+          stats: {
+            type: 'object',
+            description: 'Rates with confidence intervals, comparisons with the control and the winner, if any',
+            properties: {
+              hasMinSampleSize: { type: 'boolean' },
+              samplesNeeded: { type: 'integer' },
+              winnerId: { type: 'string', nullable: true },
+              variants: { type: 'array', items: { type: 'object' } },
+            },
+          },
+          allocations: {
+            type: 'array',
+            description: 'BANDIT allocation history, oldest first',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                weights: { type: 'object', additionalProperties: { type: 'number' }, description: 'Traffic share by variant id' },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+          startedAt: { type: 'string', format: 'date-time', nullable: true },
+          endedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      ExperimentRequest: {
+        type: 'object',
+        required: ['partnerId', 'name', 'variants'],
+        properties: {
+          partnerId: { type: 'string' },
+          name: { type: 'string', maxLength: 100 },
+          description: { type: 'string', maxLength: 500 },
+          variants: {
+            type: 'array',
+            minItems: 2,
+            maxItems: 5,
+            items: {
+              type: 'object',
+              required: ['name', 'content'],
+              properties: {
+                name: { type: 'string', maxLength: 100 },
+                content: { type: 'string', maxLength: 1000 },
+                isControl: { type: 'boolean', default: false },
+                weight: { type: 'number', maximum: 100 },
+              },
+            },
+          },
+          allocationMode: { type: 'string', enum: ['FIXED', 'BANDIT'], default: 'FIXED' },
+          targetRatio: { type: 'number', minimum: 0.05, maximum: 0.95, default: 0.5 },
+          explorationFloor: { type: 'number', minimum: 0, maximum: 0.2, default: 0.05 },
+          minSampleSize: { type: 'integer', minimum: 50, maximum: 10000, default: 100 },
+          confidenceLevel: { type: 'integer', minimum: 80, maximum: 99, default: 95 },
+        },
+      },
+      NotificationPreferences: {
+        type: 'object',
+        properties: {
+          email: { type: 'boolean' },
+          push: { type: 'boolean' },
+          inApp: { type: 'boolean' },
+          types: {
+            type: 'object',
+            additionalProperties: { type: 'boolean' },
+            description: 'On or off by notification type; missing types are on',
+          },
+        },
+      },
+      PushSubscription: {
+        type: 'object',
+        description: 'A browser PushSubscription as serialized by toJSON()',
+        required: ['endpoint', 'keys'],
+        properties: {
+          endpoint: { type: 'string', format: 'uri', maxLength: 700 },
+          keys: {
+            type: 'object',
+            required: ['p256dh', 'auth'],
+            properties: {
+              p256dh: { type: 'string', description: 'Browser P-256 public key (base64url)' },
+              auth: { type: 'string', description: 'Browser auth secret (base64url)' },
+            },
+          },
+        },
+      },
       Error: {
         type: 'object',
         properties: {
@@ -0,0 +1,74 @@
+/**
+ * Partner Event Stream
+ * Event types, SSE message format and stream timing for /api/partners/[id]/events
+ */
+
+import type { Notification, PartnerEvent, PartnerEventType } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const PARTNER_EVENT_TYPES: PartnerEventType[] = ['notification', 'conversion', 'payout', 'milestone'];
+
+// How often an open stream checks for new events
+export const EVENT_POLL_INTERVAL_MS = 2000;
+
+// Comment lines keep proxies from closing an idle stream
+export const EVENT_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Streams end before the function time limit; browsers reconnect with Last-Event-ID
+export const EVENT_STREAM_DURATION_MS = 4 * 60 * 1000;
+
+// Sent as `retry:` so browsers reconnect quickly after the stream ends
+export const EVENT_RECONNECT_DELAY_MS = 3000;
+
+// Events older than this are deleted; later resumes start from the newest event
+export const EVENT_RETENTION_HOURS = 24;
+
+// Events read per query while catching up
+export const EVENT_BATCH_SIZE = 100;
+
+// ============================================
+// Payloads
+// ============================================
+
+export function notificationEventData(notification: Notification): Record<string, unknown> {
+  return {
+    notificationId: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link ?? null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+// ============================================
+// Wire Format
+// ============================================
+
+/**
+ * Parse a Last-Event-ID header; null when absent or not an event id
+ */
+export function parseLastEventId(value: string | null): number | null {
+  if (!value || !/^\d{1,15}$/.test(value.trim())) return null;
+  return Number(value.trim());
+}
+
+/**
+ * A stored event as an SSE message, named by its type
+ */
+export function formatServerSentEvent(event: Pick<PartnerEvent, 'id' | 'type' | 'data'>): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * First message of a stream: the reconnect delay and the resume position,
+ * so a browser that saw no events still resumes from here
+ */
+export function formatStreamStart(lastEventId: number): string {
+  return `retry: ${EVENT_RECONNECT_DELAY_MS}\nid: ${lastEventId}\n\n`;
+}
+
+export const SSE_HEARTBEAT = ': keep-alive\n\n';
@@ -10,11 +10,34 @@ import {
   createLoginLink,
   getConnectAccount,
   getAccountBalance,
+  type ConnectAccountInfo,
 } from './stripe';
-import { getPartnerRepository, getPayoutRepository } from './repositories';
+import {
+  getBalanceAdjustmentRepository,
+  getOverrideCommissionRepository,
+  getPartnerRepository,
+  getPayoutRepository,
+  getReferralRepository,
+} from './repositories';
+import { getPayoutSettings } from './program-settings';
+import {
+  computeEarningsBuckets,
+  selectPayoutReferrals,
+  toOverrideEarning,
+  type EarningReferral,
+} from './earnings';
+import { getLedgerSummary, recordPayoutDebit, reversePayoutDebit } from './ledger-service';
+import { cancelPayoutClawbacks } from './clawback-service';
 import { sendPayoutEmail } from './email-service';
+import { emitWebhookEvent } from './webhook-service';
+import { publishPartnerEvent } from './event-service';
+import { notifyPartner } from './notification-service';
+import { payoutEventData } from './webhooks';
+import { systemAuditContext, type AuditContext } from './audit';
+import { recordAuditEvent } from './audit-service';
 import { logger } from './monitoring';
-import type { Payout, PayoutStatus } from './db';
+import { formatCurrency } from './utils';
+import type { Partner, Payout, PayoutStatus, StripeOnboardingStatus } from './db';
 
 // ============================================
 // Configuration
@@ -26,7 +49,10 @@ const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://innercircle.co';
 const PLATFORM_FEE_RATE = 0.01;
 
 // Minimum payout amount in cents ($10)
-const MIN_PAYOUT_AMOUNT = 1000;
+export const MIN_PAYOUT_AMOUNT = 1000;
+
+// Most converted referrals, and most overrides, considered for one payout
+const MAX_PAYOUT_REFERRALS = 500;
 
 // ============================================
 // Types
@@ -36,6 +62,8 @@ export interface PayoutRequest {
   partnerId: string;
   amountCents: number;
   method?: 'stripe' | 'manual';
+  payoutRunId?: string; // set when a batch payout run requests the payout
+  auditContext?: AuditContext; // who requested it; defaults to the payout run or this service
 }
 
 export interface PayoutResponse {
@@ -44,6 +72,7 @@ export interface PayoutResponse {
     id: string;
     amountCents: number;
     feeCents: number;
+    adjustmentCents: number;
     netCents: number;
     status: PayoutStatus;
     estimatedArrival?: Date;
@@ -55,12 +84,15 @@ export interface PayoutResponse {
 export interface OnboardingResult {
   success: boolean;
   onboardingUrl?: string;
+  accountId?: string;
+  resumed?: boolean; // the partner's existing account was reused
   error?: string;
 }
 
 export interface PartnerPaymentStatus {
   hasStripeAccount: boolean;
   stripeAccountId?: string;
+  onboardingStatus: StripeOnboardingStatus | null;
   onboardingComplete: boolean;
   payoutsEnabled: boolean;
   availableBalance: number;
@@ -73,8 +105,52 @@ export interface PartnerPaymentStatus {
 // Connect Account Management
 // ============================================
 
+/**
+ * Onboarding state of a Connect account
+ */
+function getOnboardingStatus(
+  account: Pick<ConnectAccountInfo, 'detailsSubmitted'>
+): StripeOnboardingStatus {
+  return account.detailsSubmitted ? 'COMPLETE' : 'PENDING';
+}
+
+/**
+ * Create a Connect account for a partner, or reuse the one they have
+ */
+async function findOrCreateConnectAccount(
+  partner: Partner
+): Promise<{ accountId: string; resumed: boolean; error?: string }> {
+  if (partner.stripeAccountId) {
+    return { accountId: partner.stripeAccountId, resumed: true };
+  }
+  
+  const { accountId, error } = await createConnectAccount(
+    partner.email,
+    'US',
+    {
+      partnerId: partner.id,
+      partnerName: partner.name,
+      referralCode: partner.referralCode,
+    }
+  );
+  
+  if (error || !accountId) {
+    return { accountId: '', resumed: false, error: error || 'Failed to create payment account' };
+  }
+  
+  // Payout runs transfer to this account; webhooks keep its state in sync
+  await getPartnerRepository().update(partner.id, {
+    stripeAccountId: accountId,
+    stripeOnboardingStatus: 'PENDING',
+    stripePayoutsEnabled: false,
+  });
+  
+  return { accountId, resumed: false };
+}
+
 /**
  * Set up a Stripe Connect account for a partner
+ * Partners who already have an account resume its onboarding
  */
 export async function setupPartnerPayments(
   partnerId: string
@@ -86,26 +162,14 @@ export async function setupPartnerPayments(
     return { success: false, error: 'Partner not found' };
   }
   
-  // Check if partner already has a Stripe account
-  // In a real implementation, you'd store stripeAccountId on the Partner model
-  // For now, we'll create a new one each time
+  const { accountId, resumed, error: accountError } = await findOrCreateConnectAccount(partner);
   
-  const { accountId, error: createError } = await createConnectAccount(
-    partner.email,
-    'US',
-    {
-      partnerId: partner.id,
-      partnerName: partner.name,
-      referralCode: partner.referralCode,
-    }
-  );
-  
-  if (createError || !accountId) {
+  if (accountError) {
     logger.error('[PaymentService] Failed to create Connect account', null, {
       partnerId,
-      error: createError,
+      error: accountError,
     });
-    return { success: false, error: createError || 'Failed to create payment account' };
+    return { success: false, error: accountError };
   }
   
   // Create onboarding link
@@ -127,25 +191,74 @@ export async function setupPartnerPayments(
     return { success: false, error: linkError || 'Failed to create onboarding link' };
   }
   
-  logger.info('[PaymentService] Partner payment setup initiated', {
+  logger.info(`[PaymentService] Partner payment setup ${resumed ? 'resumed' : 'initiated'}`, {
     partnerId,
     accountId,
   });
   
-  return { success: true, onboardingUrl: url };
+  return { success: true, onboardingUrl: url, accountId, resumed };
+}
+
+/**
+ * Store a Connect account's onboarding state on its partner
+ * Called from the account.updated webhook
+ */
+export async function syncStripeAccount(
+  account: Pick<ConnectAccountInfo, 'accountId' | 'detailsSubmitted' | 'payoutsEnabled'>
+): Promise<{ success: boolean; partnerId?: string; error?: string }> {
+  const partnerRepo = getPartnerRepository();
+  const partner = await partnerRepo.findByStripeAccountId(account.accountId);
+  
+  if (!partner) {
+    return { success: false, error: 'No partner for account' };
+  }
+  
+  await partnerRepo.update(partner.id, {
+    stripeOnboardingStatus: getOnboardingStatus(account),
+    stripePayoutsEnabled: account.payoutsEnabled,
+  });
+  
+  return { success: true, partnerId: partner.id };
+}
+
+/**
+ * Unlink a Connect account that disconnected from the platform
+ * The partner has to onboard a new account before they can be paid
+ */
+export async function disconnectStripeAccount(
+  accountId: string
+): Promise<{ success: boolean; partnerId?: string; error?: string }> {
+  const partnerRepo = getPartnerRepository();
+  const partner = await partnerRepo.findByStripeAccountId(accountId);
+  
+  if (!partner) {
+    return { success: false, error: 'No partner for account' };
+  }
+  
+  await partnerRepo.update(partner.id, {
+    stripeAccountId: null,
+    stripeOnboardingStatus: 'DEAUTHORIZED',
+    stripePayoutsEnabled: false,
+  });
+  
+  return { success: true, partnerId: partner.id };
 }
 
 /**
  * Get partner payment status
+ * Uses Stripe's live account state, falling back to the stored state
  */
 export async function getPartnerPaymentStatus(
-  partnerId: string,
-  stripeAccountId?: string
+  partnerId: string
 ): Promise<PartnerPaymentStatus> {
+  const partner = await getPartnerRepository().findById(partnerId);
+  const stripeAccountId = partner?.stripeAccountId ?? undefined;
+  
   // Default status when no Stripe account
   if (!stripeAccountId) {
     return {
       hasStripeAccount: false,
+      onboardingStatus: partner?.stripeOnboardingStatus ?? null,
       onboardingComplete: false,
       payoutsEnabled: false,
       availableBalance: 0,
@@ -167,8 +280,9 @@ export async function getPartnerPaymentStatus(
     return {
       hasStripeAccount: true,
       stripeAccountId,
-      onboardingComplete: false,
-      payoutsEnabled: false,
+      onboardingStatus: partner?.stripeOnboardingStatus ?? 'PENDING',
+      onboardingComplete: partner?.stripeOnboardingStatus === 'COMPLETE',
+      payoutsEnabled: Boolean(partner?.stripePayoutsEnabled),
       availableBalance: 0,
       pendingBalance: 0,
       canRequestPayout: false,
@@ -182,6 +296,7 @@ export async function getPartnerPaymentStatus(
   return {
     hasStripeAccount: true,
     stripeAccountId,
+    onboardingStatus: getOnboardingStatus(account),
     onboardingComplete: account.onboardingComplete,
     payoutsEnabled: account.payoutsEnabled,
     availableBalance: balance.available,
@@ -230,13 +345,114 @@ export function calculatePayoutFees(amountCents: number): {
   };
 }
 
+/**
+ * Referral commission or a recruiter override that a payout can settle
+ */
+type PayableEarning = EarningReferral & { id: string; source: 'REFERRAL' | 'OVERRIDE' };
+
+interface PayoutSelection {
+  referralIds: string[];
+  overrideIds: string[];
+  coveredCents: number;
+}
+
+/**
+ * Get the partner's converted referrals and earned overrides that could
+ * be paid out, oldest first
+ */
+async function findPayableEarnings(partnerId: string): Promise<PayableEarning[]> {
+  const [referrals, overrides] = await Promise.all([
+    getReferralRepository().findPayable(partnerId, { limit: MAX_PAYOUT_REFERRALS }),
+    getOverrideCommissionRepository().findPayable(partnerId, { limit: MAX_PAYOUT_REFERRALS }),
+  ]);
+  
+  return [
+    ...referrals.map(r => ({ ...r, source: 'REFERRAL' as const })),
+    ...overrides.map(o => ({ ...toOverrideEarning(o), source: 'OVERRIDE' as const })),
+  ];
+}
+
+/**
+ * Get the commission a partner could be paid out now
+ * Excludes commission and overrides still in the hold period, and adjustments
+ */
+export async function getAvailableCommission(partnerId: string): Promise<number> {
+  const { holdDays } = await getPayoutSettings();
+  const earnings = await findPayableEarnings(partnerId);
+  return computeEarningsBuckets(earnings, holdDays).availableCents;
+}
+
+/**
+ * Find the partner's available referrals and overrides covering an amount
+ * Returns the shortfall error when the hold period leaves too little
+ */
+async function selectAvailableEarnings(
+  partnerId: string,
+  amountCents: number
+): Promise<PayoutSelection | { error: string }> {
+  const { holdDays } = await getPayoutSettings();
+  const earnings = await findPayableEarnings(partnerId);
+  
+  const selected = selectPayoutReferrals(earnings, amountCents, holdDays);
+  if (!selected) {
+    const buckets = computeEarningsBuckets(earnings, holdDays);
+    return {
+      error: `Available balance is ${formatCurrency(buckets.availableCents)}; ` +
+        `${formatCurrency(buckets.pendingCents)} is still in the ${holdDays}-day hold period`,
+    };
+  }
+  
+  return {
+    referralIds: selected.filter(e => e.source === 'REFERRAL').map(e => e.id),
+    overrideIds: selected.filter(e => e.source === 'OVERRIDE').map(e => e.id),
+    coveredCents: selected.reduce((sum, e) => sum + e.commissionCents, 0),
+  };
+}
+
+/**
+ * Link the selected referrals and overrides to a payout
+ * A concurrent request may have claimed some of them first; if so nothing
+ * stays linked and false is returned
+ */
+async function assignSelectionToPayout(
+  selection: PayoutSelection,
+  payoutId: string
+): Promise<boolean> {
+  const referralRepo = getReferralRepository();
+  const overrideRepo = getOverrideCommissionRepository();
+  const [referrals, overrides] = await Promise.all([
+    referralRepo.assignToPayout(selection.referralIds, payoutId),
+    overrideRepo.assignToPayout(selection.overrideIds, payoutId),
+  ]);
+  
+  if (referrals === selection.referralIds.length && overrides === selection.overrideIds.length) {
+    return true;
+  }
+  
+  await Promise.all([
+    referralRepo.releaseFromPayout(payoutId),
+    overrideRepo.releaseFromPayout(payoutId),
+  ]);
+  
+  logger.warn('[PaymentService] Payout earnings already claimed', {
+    payoutId,
+    referrals: `${referrals}/${selection.referralIds.length}`,
+    overrides: `${overrides}/${selection.overrideIds.length}`,
+  });
+  return false;
+}
+
 /**
  * Request a payout for a partner
+ * Payouts settle whole referrals past the hold period, oldest first,
+ * so the amount is rounded up to the commission that covers it
  */
 export async function requestPayout(
   request: PayoutRequest
 ): Promise<PayoutResponse> {
-  const { partnerId, amountCents, method = 'stripe' } = request;
+  const { partnerId, amountCents, method = 'stripe', payoutRunId = null } = request;
+  const auditContext = request.auditContext
+    ?? systemAuditContext(payoutRunId ? 'payout-run' : 'payment-service');
   
   // Validate amount
   if (amountCents < MIN_PAYOUT_AMOUNT) {
@@ -256,39 +472,94 @@ export async function requestPayout(
     return { success: false, error: 'Partner not found', errorCode: 'PARTNER_NOT_FOUND' };
   }
   
+  // Only commission and overrides past the hold period can be paid out
+  const selection = await selectAvailableEarnings(partnerId, amountCents);
+  if ('error' in selection) {
+    return { success: false, error: selection.error, errorCode: 'INSUFFICIENT_BALANCE' };
+  }
+  
   // Calculate fees
-  const fees = calculatePayoutFees(amountCents);
+  const fees = calculatePayoutFees(selection.coveredCents);
+  const feeCents = fees.platformFee + fees.stripeFee;
+  
+  // Outstanding clawbacks are deducted from this payout
+  const adjustmentRepo = getBalanceAdjustmentRepository();
+  const adjustments = await adjustmentRepo.findByPartnerId(partnerId, {
+    outstanding: true,
+    limit: 100,
+  });
+  const adjustmentCents = adjustments.reduce((sum, a) => sum + a.amountCents, 0);
+  const netCents = fees.netAmount + adjustmentCents;
+  
+  if (netCents <= 0) {
+    return {
+      success: false,
+      error: `Outstanding adjustments of ${formatCurrency(-adjustmentCents)} exceed this payout`,
+      errorCode: 'ADJUSTMENTS_EXCEED_PAYOUT',
+    };
+  }
   
   // Create payout record
   const payoutRecord = await payoutRepo.create({
     partnerId,
     status: 'PENDING',
     amountCents: fees.grossAmount,
-    feeCents: fees.platformFee + fees.stripeFee,
-    netCents: fees.netAmount,
+    feeCents,
+    adjustmentCents,
+    netCents,
     paymentMethod: method,
     transactionId: null,
+    payoutRunId,
     processedAt: null,
     completedAt: null,
   });
   
+  if (!await assignSelectionToPayout(selection, payoutRecord.id)) {
+    await payoutRepo.update(payoutRecord.id, { status: 'CANCELLED' });
+    
+    return {
+      success: false,
+      error: 'Some of this commission is already being paid out; please try again',
+      errorCode: 'REFERRALS_UNAVAILABLE',
+    };
+  }
+  
+  await recordPayoutDebit(payoutRecord);
+  
+  if (adjustments.length > 0) {
+    await adjustmentRepo.applyToPayout(adjustments.map(a => a.id), payoutRecord.id);
+  }
+  
+  await recordAuditEvent(auditContext, {
+    action: 'payout.requested',
+    targetType: 'PAYOUT',
+    targetId: payoutRecord.id,
+    before: null,
+    after: payoutRecord,
+  });
+  
   logger.info('[PaymentService] Payout requested', {
     payoutId: payoutRecord.id,
     partnerId,
-    amount: amountCents,
+    amount: fees.grossAmount,
+    referrals: selection.referralIds.length,
+    overrides: selection.overrideIds.length,
+    adjustmentCents,
   });
   
+  const payout = {
+    id: payoutRecord.id,
+    amountCents: fees.grossAmount,
+    feeCents,
+    adjustmentCents,
+    netCents,
+  };
+  
   // If using manual method, just return the pending payout
   if (method === 'manual') {
     return {
       success: true,
-      payout: {
-        id: payoutRecord.id,
-        amountCents: fees.grossAmount,
-        feeCents: fees.platformFee + fees.stripeFee,
-        netCents: fees.netAmount,
-        status: 'PENDING',
-      },
+      payout: { ...payout, status: 'PENDING' },
     };
   }
   
@@ -298,18 +569,19 @@ export async function requestPayout(
   
   if (!isStripeConfigured) {
     // Simulate processing delay
-    await payoutRepo.update(payoutRecord.id, {
+    const processing = await payoutRepo.update(payoutRecord.id, {
       status: 'PROCESSING',
       processedAt: new Date(),
       transactionId: `mock_po_${Date.now()}`,
     });
+    await recordPayoutTransition(auditContext, 'payout.processing', payoutRecord, processing);
     
     // Send notification email
     await sendPayoutEmail({
       partner,
       payoutAmount: fees.grossAmount,
-      payoutFee: fees.platformFee + fees.stripeFee,
-      netAmount: fees.netAmount,
+      payoutFee: feeCents,
+      netAmount: netCents,
       status: 'processing',
       payoutMethod: 'Bank Transfer',
       estimatedArrival: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000), // 2 days
@@ -318,10 +590,7 @@ export async function requestPayout(
     return {
       success: true,
       payout: {
-        id: payoutRecord.id,
-        amountCents: fees.grossAmount,
-        feeCents: fees.platformFee + fees.stripeFee,
-        netCents: fees.netAmount,
+        ...payout,
         status: 'PROCESSING',
         estimatedArrival: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
       },
@@ -334,29 +603,26 @@ export async function requestPayout(
   // 2. Triggering a payout from the Connect account to their bank
   
   // For now, return success with processing status
-  await payoutRepo.update(payoutRecord.id, {
+  const processing = await payoutRepo.update(payoutRecord.id, {
     status: 'PROCESSING',
     processedAt: new Date(),
   });
+  await recordPayoutTransition(auditContext, 'payout.processing', payoutRecord, processing);
   
   return {
     success: true,
-    payout: {
-      id: payoutRecord.id,
-      amountCents: fees.grossAmount,
-      feeCents: fees.platformFee + fees.stripeFee,
-      netCents: fees.netAmount,
-      status: 'PROCESSING',
-    },
+    payout: { ...payout, status: 'PROCESSING' },
   };
 }
 
 /**
  * Complete a payout (called from webhook or manual process)
+ * Completing an already completed payout is a no-op, so webhooks can be redelivered
  */
 export async function completePayout(
   payoutId: string,
-  transactionId: string
+  transactionId: string,
+  auditContext: AuditContext = systemAuditContext('stripe')
 ): Promise<{ success: boolean; error?: string }> {
   const payoutRepo = getPayoutRepository();
   const partnerRepo = getPartnerRepository();
@@ -366,17 +632,24 @@ export async function completePayout(
     return { success: false, error: 'Payout not found' };
   }
   
+  if (payout.status === 'COMPLETED') {
+    return { success: true };
+  }
+  
   if (payout.status !== 'PROCESSING') {
     return { success: false, error: `Cannot complete payout with status: ${payout.status}` };
   }
   
   // Update payout status
-  await payoutRepo.update(payoutId, {
+  const completed = await payoutRepo.update(payoutId, {
     status: 'COMPLETED',
     transactionId,
     completedAt: new Date(),
   });
   
+  await markPayoutEarningsPaid(payoutId);
+  await recordPayoutTransition(auditContext, 'payout.completed', payout, completed);
+  
   // Get partner for notification
   const partner = await partnerRepo.findById(payout.partnerId);
   
@@ -393,6 +666,9 @@ export async function completePayout(
     });
   }
   
+  await notifyPayout(payout, 'Payout Sent', `Your payout of ${formatCurrency(payout.netCents)} is on its way`);
+  await emitWebhookEvent('payout.completed', payout.partnerId, payoutEventData(completed ?? payout));
+  
   logger.info('[PaymentService] Payout completed', {
     payoutId,
     transactionId,
@@ -404,10 +680,12 @@ export async function completePayout(
 
 /**
  * Fail a payout (called from webhook or manual process)
+ * Failing an already failed payout is a no-op, so webhooks can be redelivered
  */
 export async function failPayout(
   payoutId: string,
-  reason: string
+  reason: string,
+  auditContext: AuditContext = systemAuditContext('stripe')
 ): Promise<{ success: boolean; error?: string }> {
   const payoutRepo = getPayoutRepository();
   const partnerRepo = getPartnerRepository();
@@ -417,11 +695,24 @@ export async function failPayout(
     return { success: false, error: 'Payout not found' };
   }
   
+  if (payout.status === 'FAILED' || payout.status === 'CANCELLED') {
+    return { success: true };
+  }
+  
+  // Referrals of a completed payout are already marked paid
+  if (payout.status === 'COMPLETED') {
+    return { success: false, error: `Cannot fail payout with status: ${payout.status}` };
+  }
+  
   // Update payout status
-  await payoutRepo.update(payoutId, {
+  const failed = await payoutRepo.update(payoutId, {
     status: 'FAILED',
   });
   
+  // Settled referrals and clawbacks carry over to the next payout
+  await releasePayoutBalance(payout, reason);
+  await recordPayoutTransition(auditContext, 'payout.failed', payout, failed, { reason });
+  
   // Get partner for notification
   const partner = await partnerRepo.findById(payout.partnerId);
   
@@ -438,6 +729,13 @@ export async function failPayout(
     });
   }
   
+  await notifyPayout(
+    payout,
+    'Payout Failed',
+    `Your payout of ${formatCurrency(payout.netCents)} failed and was returned to your balance`
+  );
+  await emitWebhookEvent('payout.failed', payout.partnerId, payoutEventData(failed ?? payout, reason));
+  
   logger.warn('[PaymentService] Payout failed', {
     payoutId,
     reason,
@@ -447,6 +745,107 @@ export async function failPayout(
   return { success: true };
 }
 
+/**
+ * Record a payout status change in the audit log and the partner's event stream
+ */
+export async function recordPayoutTransition(
+  auditContext: AuditContext,
+  action: string,
+  before: Payout,
+  after: Payout | null,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  await recordAuditEvent(auditContext, {
+    action,
+    targetType: 'PAYOUT',
+    targetId: before.id,
+    before,
+    after: after ?? before,
+    metadata: { partnerId: before.partnerId, ...metadata },
+  });
+
+  if (after && after.status !== before.status) {
+    await publishPartnerEvent(after.partnerId, 'payout', payoutEventData(after));
+  }
+}
+
+/**
+ * Tell a partner their payout completed or failed
+ * Failures are logged but never fail the payout update
+ */
+async function notifyPayout(payout: Payout, title: string, message: string): Promise<void> {
+  try {
+    await notifyPartner({
+      partnerId: payout.partnerId,
+      type: 'PAYOUT',
+      title,
+      message,
+      link: '/dashboard',
+    });
+  } catch (error) {
+    logger.error('[PaymentService] Failed to send payout notification', error, {
+      partnerId: payout.partnerId,
+      payoutId: payout.id,
+    });
+  }
+}
+
+/**
+ * Mark a completed payout's referrals and overrides as paid
+ */
+export async function markPayoutEarningsPaid(payoutId: string): Promise<void> {
+  await Promise.all([
+    getReferralRepository().markPaidByPayoutId(payoutId),
+    getOverrideCommissionRepository().markPaidByPayoutId(payoutId),
+  ]);
+}
+
+/**
+ * Return a failed or rejected payout's referrals, overrides, adjustments
+ * and ledger debit to the partner's balance, and cancel clawbacks for
+ * commission in it that was refunded before it was paid
+ */
+export async function releasePayoutBalance(
+  payout: Pick<Payout, 'id' | 'partnerId' | 'netCents' | 'feeCents'>,
+  reason: string
+): Promise<void> {
+  const [referrals, overrides, adjustments] = await Promise.all([
+    getReferralRepository().releaseFromPayout(payout.id),
+    getOverrideCommissionRepository().releaseFromPayout(payout.id),
+    getBalanceAdjustmentRepository().releaseFromPayout(payout.id),
+  ]);
+  await reversePayoutDebit(payout, reason);
+  await cancelPayoutClawbacks(payout);
+  
+  if (referrals > 0 || overrides > 0 || adjustments > 0) {
+    logger.info('[PaymentService] Payout balance released', {
+      payoutId: payout.id,
+      referrals,
+      overrides,
+      adjustments,
+    });
+  }
+}
+
+/**
+ * Settle a retried payout against the partner's available referrals and
+ * overrides again
+ */
+export async function reclaimPayoutBalance(
+  payout: Pick<Payout, 'id' | 'partnerId' | 'amountCents' | 'netCents' | 'feeCents'>
+): Promise<{ success: boolean; error?: string }> {
+  const selection = await selectAvailableEarnings(payout.partnerId, payout.amountCents);
+  if ('error' in selection) {
+    return { success: false, error: selection.error };
+  }
+  
+  if (!await assignSelectionToPayout(selection, payout.id)) {
+    return { success: false, error: 'Some of this commission is already being paid out' };
+  }
+  await recordPayoutDebit(payout);
+  return { success: true };
+}
+
 // ============================================
 // Payout History
 // ============================================
@@ -468,8 +867,10 @@ export async function getPartnerPayouts(
 
 /**
  * Get payout statistics for a partner
+ * `balance` is what the ledger says the partner is owed, held commission included
  */
 export async function getPartnerPayoutStats(partnerId: string): Promise<{
+  balance: number;
   totalPaid: number;
   totalPending: number;
   totalProcessing: number;
@@ -477,7 +878,10 @@ export async function getPartnerPayoutStats(partnerId: string): Promise<{
   lastPayoutDate?: Date;
 }> {
   const payoutRepo = getPayoutRepository();
-  const payouts = await payoutRepo.findByPartnerId(partnerId, { limit: 100 });
+  const [payouts, ledger] = await Promise.all([
+    payoutRepo.findByPartnerId(partnerId, { limit: 100 }),
+    getLedgerSummary(partnerId),
+  ]);
   
   let totalPaid = 0;
   let totalPending = 0;
@@ -502,6 +906,7 @@ export async function getPartnerPayoutStats(partnerId: string): Promise<{
   }
   
   return {
+    balance: ledger.balanceCents,
     totalPaid,
     totalPending,
     totalProcessing,
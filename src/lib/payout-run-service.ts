@@ -0,0 +1,394 @@
+/**
+ * Payout Run Service
+ * Pays every partner with enough available commission in one batch
+ *
+ * Payouts under the auto-approve threshold are transferred straight
+ * away; larger ones are left pending for an admin to approve. Transient
+ * transfer failures leave the payout pending so the run can be retried.
+ */
+
+import {
+  getPartnerRepository,
+  getPayoutRepository,
+  getPayoutRunRepository,
+} from './repositories';
+import { getPayoutSettings } from './program-settings';
+import {
+  failPayout,
+  getAvailableCommission,
+  MIN_PAYOUT_AMOUNT,
+  recordPayoutTransition,
+  requestPayout,
+} from './payment-service';
+import {
+  createPayout,
+  createTransfer,
+  getPayoutIdempotencyKey,
+  isStripeConfigured,
+} from './stripe';
+import { isAutoApproved, mergeRetriedItems, summarizePayoutRun } from './payout-runs';
+import { sendPayoutEmail } from './email-service';
+import { systemAuditContext } from './audit';
+import { logger } from './monitoring';
+import type { Partner, Payout, PayoutRun, PayoutRunItem, PayoutRunTrigger } from './db';
+import type { PayoutSettings } from './earnings';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Partners loaded per page while running
+const PAGE_SIZE = 100;
+
+// Transfers usually reach the partner's bank within two days
+const ESTIMATED_ARRIVAL_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Actor of the payout transitions a run makes
+const PAYOUT_RUN_AUDIT = systemAuditContext('payout-run');
+
+// ============================================
+// Types
+// ============================================
+
+export interface PayoutRunResult {
+  success: boolean;
+  run?: PayoutRun;
+  error?: string;
+  errorCode?: 'RUN_IN_PROGRESS' | 'NOT_FOUND';
+}
+
+// ============================================
+// Transfers
+// ============================================
+
+function failedItem(
+  partnerId: string,
+  payout: Pick<Payout, 'id' | 'amountCents' | 'netCents'> | null,
+  error: string,
+  retryable: boolean
+): PayoutRunItem {
+  return {
+    partnerId,
+    payoutId: payout?.id ?? null,
+    amountCents: payout?.amountCents ?? 0,
+    netCents: payout?.netCents ?? 0,
+    status: 'FAILED',
+    error,
+    retryable,
+  };
+}
+
+/**
+ * Transfer an approved payout to the partner's connected account
+ * and pay it out to their bank
+ * Permanent transfer failures fail the payout and return its balance
+ */
+async function executePayoutTransfer(partner: Partner, payout: Payout): Promise<PayoutRunItem> {
+  // Simulated transfers do not need a connected account
+  if (isStripeConfigured && !partner.stripeAccountId) {
+    return failedItem(partner.id, payout, 'Partner has no connected payout account', true);
+  }
+  
+  // Stripe restricts payouts until onboarding requirements are met
+  if (isStripeConfigured && !partner.stripePayoutsEnabled) {
+    return failedItem(partner.id, payout, 'Payouts are not enabled on the partner\'s account', true);
+  }
+
+  const accountId = partner.stripeAccountId ?? '';
+  const transfer = await createTransfer(
+    accountId,
+    payout.netCents,
+    'usd',
+    {
+      payoutId: payout.id,
+      partnerId: partner.id,
+      payoutRunId: payout.payoutRunId ?? '',
+    },
+    { idempotencyKey: getPayoutIdempotencyKey(payout.id, 'transfer') }
+  );
+
+  if (!transfer.success || !transfer.transferId) {
+    const error = transfer.error ?? 'Transfer failed';
+    if (!transfer.retryable) {
+      await failPayout(payout.id, error, PAYOUT_RUN_AUDIT);
+    }
+    return failedItem(partner.id, payout, error, Boolean(transfer.retryable));
+  }
+
+  const processing = await getPayoutRepository().update(payout.id, {
+    status: 'PROCESSING',
+    processedAt: new Date(),
+    transactionId: transfer.transferId,
+  });
+  await recordPayoutTransition(PAYOUT_RUN_AUDIT, 'payout.processing', payout, processing, {
+    payoutRunId: payout.payoutRunId,
+  });
+
+  // The payout.paid webhook completes the payout; reconciliation
+  // reports payouts whose bank payout never happens
+  const bankPayout = await createPayout(
+    accountId,
+    payout.netCents,
+    'usd',
+    { internalPayoutId: payout.id },
+    { idempotencyKey: getPayoutIdempotencyKey(payout.id, 'payout') }
+  );
+
+  if (!bankPayout.success) {
+    logger.warn('[PayoutRunService] Bank payout not created', {
+      payoutId: payout.id,
+      transferId: transfer.transferId,
+      error: bankPayout.error,
+    });
+  }
+
+  await sendPayoutEmail({
+    partner,
+    payoutAmount: payout.amountCents,
+    payoutFee: payout.feeCents,
+    netAmount: payout.netCents,
+    status: 'processing',
+    payoutMethod: 'Bank Transfer',
+    estimatedArrival: new Date(Date.now() + ESTIMATED_ARRIVAL_MS),
+  });
+
+  return {
+    partnerId: partner.id,
+    payoutId: payout.id,
+    amountCents: payout.amountCents,
+    netCents: payout.netCents,
+    status: 'TRANSFERRED',
+    transferId: transfer.transferId,
+    retryable: false,
+  };
+}
+
+/**
+ * Whether the partner already has a payout on its way
+ */
+async function hasOpenPayout(partnerId: string): Promise<boolean> {
+  const payoutRepo = getPayoutRepository();
+  const [pending, processing] = await Promise.all([
+    payoutRepo.countByPartnerId(partnerId, { status: 'PENDING' }),
+    payoutRepo.countByPartnerId(partnerId, { status: 'PROCESSING' }),
+  ]);
+  return pending + processing > 0;
+}
+
+/**
+ * Pay out a partner's available commission as part of a run
+ * Returns null when the partner has nothing to pay
+ */
+async function payPartner(
+  partner: Partner,
+  runId: string,
+  settings: PayoutSettings
+): Promise<PayoutRunItem | null> {
+  if (await hasOpenPayout(partner.id)) return null;
+
+  const availableCents = await getAvailableCommission(partner.id);
+  if (availableCents < MIN_PAYOUT_AMOUNT) return null;
+
+  const result = await requestPayout({
+    partnerId: partner.id,
+    amountCents: availableCents,
+    method: 'manual',
+    payoutRunId: runId,
+  });
+
+  if (!result.success || !result.payout) {
+    return failedItem(partner.id, null, result.error ?? 'Payout could not be created', false);
+  }
+
+  const payout = await getPayoutRepository().findById(result.payout.id);
+  if (!payout) {
+    return failedItem(partner.id, null, 'Payout could not be created', false);
+  }
+
+  if (!isAutoApproved(payout.amountCents, settings.autoApproveThreshold)) {
+    return {
+      partnerId: partner.id,
+      payoutId: payout.id,
+      amountCents: payout.amountCents,
+      netCents: payout.netCents,
+      status: 'AWAITING_APPROVAL',
+      retryable: false,
+    };
+  }
+
+  return executePayoutTransfer(partner, payout);
+}
+
+/**
+ * Try a retryable item again
+ * Items without a payout are paid from scratch
+ */
+async function retryItem(
+  item: PayoutRunItem,
+  runId: string,
+  settings: PayoutSettings
+): Promise<PayoutRunItem | null> {
+  const partner = await getPartnerRepository().findById(item.partnerId);
+  if (!partner) {
+    return failedItem(item.partnerId, null, 'Partner not found', false);
+  }
+
+  if (!item.payoutId) {
+    return payPartner(partner, runId, settings);
+  }
+
+  const payout = await getPayoutRepository().findById(item.payoutId);
+  if (!payout) {
+    return failedItem(partner.id, null, 'Payout not found', false);
+  }
+
+  // An admin approved or rejected the payout since the run
+  if (payout.status !== 'PENDING') {
+    return failedItem(partner.id, payout, `Payout is now ${payout.status.toLowerCase()}`, false);
+  }
+
+  return executePayoutTransfer(partner, payout);
+}
+
+// ============================================
+// Runs
+// ============================================
+
+/**
+ * Save a run's items and summary and mark it finished
+ */
+async function finishRun(
+  runId: string,
+  items: PayoutRunItem[],
+  error: string | null = null
+): Promise<PayoutRun> {
+  const summary = summarizePayoutRun(items);
+  const run = await getPayoutRunRepository().update(runId, {
+    ...summary,
+    items,
+    status: error ? 'FAILED' : 'COMPLETED',
+    error,
+    completedAt: new Date(),
+  });
+
+  if (!run) {
+    throw new Error(`Payout run ${runId} not found`);
+  }
+
+  logger.info('[PayoutRunService] Payout run complete', {
+    runId,
+    status: run.status,
+    ...summary,
+  });
+
+  return run;
+}
+
+/**
+ * Pay every active partner whose available commission meets the minimum
+ * A failure for one partner is recorded and does not stop the run
+ */
+export async function runPayouts(options: {
+  trigger: PayoutRunTrigger;
+  triggeredBy?: string | null;
+}): Promise<PayoutRunResult> {
+  const runRepo = getPayoutRunRepository();
+
+  if (await runRepo.findRunning()) {
+    return {
+      success: false,
+      error: 'A payout run is already in progress',
+      errorCode: 'RUN_IN_PROGRESS',
+    };
+  }
+
+  const run = await runRepo.create({
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy ?? null,
+  });
+  const items: PayoutRunItem[] = [];
+
+  try {
+    const settings = await getPayoutSettings();
+    const partnerRepo = getPartnerRepository();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const partners = await partnerRepo.findAll({ status: 'ACTIVE', limit: PAGE_SIZE, offset });
+
+      for (const partner of partners) {
+        try {
+          const item = await payPartner(partner, run.id, settings);
+          if (item) items.push(item);
+        } catch (error) {
+          logger.error('[PayoutRunService] Failed to pay partner', error, {
+            runId: run.id,
+            partnerId: partner.id,
+          });
+          items.push(failedItem(partner.id, null, 'Unexpected error', true));
+        }
+      }
+
+      if (partners.length < PAGE_SIZE) break;
+    }
+  } catch (error) {
+    logger.error('[PayoutRunService] Payout run stopped', error, { runId: run.id });
+    return { success: true, run: await finishRun(run.id, items, 'Run stopped before every partner was paid') };
+  }
+
+  return { success: true, run: await finishRun(run.id, items) };
+}
+
+/**
+ * Retry a finished run's retryable items
+ */
+export async function retryPayoutRun(runId: string): Promise<PayoutRunResult> {
+  const runRepo = getPayoutRunRepository();
+
+  const run = await runRepo.findById(runId);
+  if (!run) {
+    return { success: false, error: 'Payout run not found', errorCode: 'NOT_FOUND' };
+  }
+
+  if (await runRepo.findRunning()) {
+    return {
+      success: false,
+      error: 'A payout run is already in progress',
+      errorCode: 'RUN_IN_PROGRESS',
+    };
+  }
+
+  const retryable = run.items.filter(item => item.retryable);
+  if (retryable.length === 0) {
+    return { success: true, run };
+  }
+
+  const settings = await getPayoutSettings();
+  await runRepo.update(runId, { status: 'RUNNING', completedAt: null });
+  const retried = new Map<string, PayoutRunItem | null>();
+
+  for (const item of retryable) {
+    try {
+      retried.set(item.partnerId, await retryItem(item, runId, settings));
+    } catch (error) {
+      // The item keeps its failure and can be retried again
+      logger.error('[PayoutRunService] Failed to retry payout', error, {
+        runId,
+        partnerId: item.partnerId,
+        payoutId: item.payoutId,
+      });
+    }
+  }
+
+  return { success: true, run: await finishRun(runId, mergeRetriedItems(run.items, retried)) };
+}
+
+/**
+ * List recent payout runs, newest first
+ */
+export async function getPayoutRuns(options?: { limit?: number; offset?: number }): Promise<PayoutRun[]> {
+  return getPayoutRunRepository().findRecent(options);
+}
+
+export async function getPayoutRun(runId: string): Promise<PayoutRun | null> {
+  return getPayoutRunRepository().findById(runId);
+}
@@ -0,0 +1,76 @@
+/**
+ * Payout Runs
+ * Pure helpers for batch payout runs: approval and run summaries
+ */
+
+import type { PayoutRun, PayoutRunItem } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export type PayoutRunSummary = Pick<
+  PayoutRun,
+  'transferredCount' | 'awaitingApprovalCount' | 'failedCount' | 'retryableCount' | 'transferredCents'
+>;
+
+// ============================================
+// Approval
+// ============================================
+
+/**
+ * Whether a payout can be transferred without an admin approving it
+ */
+export function isAutoApproved(amountCents: number, autoApproveThreshold: number): boolean {
+  return amountCents < autoApproveThreshold;
+}
+
+// ============================================
+// Summaries
+// ============================================
+
+/**
+ * Count a run's items by outcome
+ */
+export function summarizePayoutRun(items: PayoutRunItem[]): PayoutRunSummary {
+  const summary: PayoutRunSummary = {
+    transferredCount: 0,
+    awaitingApprovalCount: 0,
+    failedCount: 0,
+    retryableCount: 0,
+    transferredCents: 0,
+  };
+
+  for (const item of items) {
+    switch (item.status) {
+      case 'TRANSFERRED':
+        summary.transferredCount++;
+        summary.transferredCents += item.netCents;
+        break;
+      case 'AWAITING_APPROVAL':
+        summary.awaitingApprovalCount++;
+        break;
+      case 'FAILED':
+        summary.failedCount++;
+        if (item.retryable) summary.retryableCount++;
+        break;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Replace retried items, keyed by partner, keeping the original order
+ * A null replacement means the partner had nothing left to pay
+ */
+export function mergeRetriedItems(
+  items: PayoutRunItem[],
+  retried: Map<string, PayoutRunItem | null>
+): PayoutRunItem[] {
+  return items.flatMap(item => {
+    if (!retried.has(item.partnerId)) return [item];
+    const replacement = retried.get(item.partnerId);
+    return replacement ? [replacement] : [];
+  });
+}
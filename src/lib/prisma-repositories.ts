@@ -0,0 +1,1223 @@
+/**
+ * Prisma Repository Implementations
+ * Database-backed versions of the repository interfaces in data-store.ts
+ *
+ * Semantics match the in-memory implementations so either can be
+ * selected by the repository factory without callers noticing.
+ */
+
+import { prisma, isRecordNotFoundError } from './db';
+import {
+  buildSeedData,
+  computePartnerStats,
+  rankLeaderboard,
+  type PartnerRepository,
+  type CampaignRepository,
+  type ReferralRepository,
+  type ClickEventRepository,
+  type PayoutRepository,
+  type NotificationRepository,
+  type PushSubscriptionRepository,
+  type PartnerEventRepository,
+  type MilestoneRepository,
+  type CommissionRuleRepository,
+  type TierChangeRepository,
+  type ProgramSettingRepository,
+  type BalanceAdjustmentRepository,
+  type LedgerQuery,
+  type LedgerRepository,
+  type PayoutRunRepository,
+  type WebhookEndpointRepository,
+  type WebhookDeliveryRepository,
+  type ApiKeyRepository,
+  type AuditLogFilter,
+  type PartnerApplicationRepository,
+  type InviteCodeRepository,
+  type InviteCodeRedemptionRepository,
+  type OverrideCommissionRepository,
+  type ClickEventQuery,
+  type DailyRollupQuery,
+  type DailyRollupRepository,
+  type ExperimentRepository,
+  type ExperimentResultRepository,
+  type ExperimentAllocationRepository,
+  type AuditLogRepository,
+  type PartnerStatsSummary,
+  type LeaderboardEntry,
+} from './data-store';
+import { DEFAULT_PAYOUT_SETTINGS } from './earnings';
+import { emptyLedgerTotals, isBalanced, LEDGER_ENTRY_TYPES, PARTNER_ACCOUNT } from './ledger';
+import { dailyRollupKey } from './rollups';
+import { experimentResultKey, getResultDay } from './experiments';
+import { generateRandomString } from './utils';
+
+// ============================================
+// Helpers
+// ============================================
+
+const DEFAULT_LIMIT = 20;
+
+function paginate(options: { limit?: number; offset?: number }): { skip: number; take: number } {
+  return {
+    skip: options.offset ?? 0,
+    take: options.limit ?? DEFAULT_LIMIT,
+  };
+}
+
+/**
+ * Run a write that targets a single record, returning null when it does not exist
+ */
+async function orNull<T>(write: () => Promise<T>): Promise<T | null> {
+  try {
+    return await write();
+  } catch (error) {
+    if (isRecordNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+function clickEventWhere(partnerId: string, options: ClickEventQuery): Record<string, unknown> {
+  const createdAt: Record<string, Date> = {};
+  if (options.since) createdAt.gte = options.since;
+  if (options.until) createdAt.lt = options.until;
+
+  return {
+    partnerId,
+    ...(options.campaignId !== undefined && { campaignId: options.campaignId }),
+    ...(options.ipHash && { ipHash: options.ipHash }),
+    ...(Object.keys(createdAt).length > 0 && { createdAt }),
+  };
+}
+
+// ============================================
+// Repositories
+// ============================================
+
+export const prismaPartnerRepo: PartnerRepository = {
+  async findById(id) {
+    return prisma.partner.findUnique({ where: { id } });
+  },
+
+  async findByEmail(email) {
+    return prisma.partner.findUnique({ where: { email } });
+  },
+
+  async findByReferralCode(code) {
+    return prisma.partner.findUnique({ where: { referralCode: code } });
+  },
+
+  async findByStripeAccountId(accountId) {
+    return prisma.partner.findUnique({ where: { stripeAccountId: accountId } });
+  },
+
+  async findAll(options = {}) {
+    return prisma.partner.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.tier && { tier: options.tier }),
+        ...(options.recruitedById && { recruitedById: options.recruitedById }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async count(options = {}) {
+    return prisma.partner.count({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.tier && { tier: options.tier }),
+        ...(options.recruitedById && { recruitedById: options.recruitedById }),
+      },
+    });
+  },
+
+  async create(data) {
+    return prisma.partner.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.partner.update({ where: { id }, data }));
+  },
+
+  async delete(id) {
+    return (await orNull(() => prisma.partner.delete({ where: { id } }))) !== null;
+  },
+};
+
+export const prismaCampaignRepo: CampaignRepository = {
+  async findById(id) {
+    return prisma.campaign.findUnique({ where: { id } });
+  },
+
+  async findBySlug(partnerId, slug) {
+    return prisma.campaign.findFirst({ where: { partnerId, slug } });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.campaign.findMany({
+      where: {
+        partnerId,
+        ...(options.isActive !== undefined && { isActive: options.isActive }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async countByPartnerId(partnerId, options = {}) {
+    return prisma.campaign.count({
+      where: {
+        partnerId,
+        ...(options.isActive !== undefined && { isActive: options.isActive }),
+      },
+    });
+  },
+
+  async create(data) {
+    return prisma.campaign.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.campaign.update({ where: { id }, data }));
+  },
+
+  async incrementStats(id, stats) {
+    return orNull(() =>
+      prisma.campaign.update({
+        where: { id },
+        data: {
+          clicks: { increment: stats.clicks ?? 0 },
+          conversions: { increment: stats.conversions ?? 0 },
+          revenue: { increment: stats.revenue ?? 0 },
+        },
+      })
+    );
+  },
+
+  async delete(id) {
+    return (await orNull(() => prisma.campaign.delete({ where: { id } }))) !== null;
+  },
+};
+
+export const prismaReferralRepo: ReferralRepository = {
+  async findById(id) {
+    return prisma.referral.findUnique({ where: { id } });
+  },
+
+  async findByCustomerHash(customerHash) {
+    return prisma.referral.findFirst({
+      where: { customerHash },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.referral.findMany({
+      where: {
+        partnerId,
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async countByPartnerId(partnerId, options = {}) {
+    return prisma.referral.count({
+      where: {
+        partnerId,
+        ...(options.status && { status: options.status }),
+      },
+    });
+  },
+
+  async findPayable(partnerId, options = {}) {
+    return prisma.referral.findMany({
+      where: { partnerId, status: 'CONVERTED', payoutId: null },
+      orderBy: { convertedAt: 'asc' },
+      ...paginate(options),
+    });
+  },
+
+  async findByPayoutId(payoutId, options = {}) {
+    return prisma.referral.findMany({
+      where: {
+        payoutId,
+        ...(options.status && { status: options.status }),
+      },
+    });
+  },
+
+  async getConversionTotals(partnerId, options) {
+    const result = await prisma.referral.aggregate({
+      where: {
+        partnerId,
+        status: { in: ['CONVERTED', 'PAID'] },
+        convertedAt: {
+          gte: options.since,
+          ...(options.until && { lt: options.until }),
+        },
+      },
+      _count: true,
+      _sum: { orderAmountCents: true },
+    });
+
+    return {
+      conversions: result._count ?? 0,
+      revenueCents: result._sum?.orderAmountCents ?? 0,
+    };
+  },
+
+  async findInRange(partnerId, options) {
+    const range = { gte: options.since, lt: options.until };
+    return prisma.referral.findMany({
+      where: {
+        partnerId,
+        OR: [{ createdAt: range }, { convertedAt: range }],
+      },
+      orderBy: { createdAt: 'asc' },
+      ...paginate(options),
+    });
+  },
+
+  async create(data) {
+    return prisma.referral.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.referral.update({ where: { id }, data }));
+  },
+
+  async assignToPayout(ids, payoutId) {
+    const { count } = await prisma.referral.updateMany({
+      where: { id: { in: ids }, status: 'CONVERTED', payoutId: null },
+      data: { payoutId },
+    });
+    return count;
+  },
+
+  async releaseFromPayout(payoutId) {
+    const { count } = await prisma.referral.updateMany({
+      where: { payoutId, status: 'CONVERTED' },
+      data: { payoutId: null },
+    });
+    return count;
+  },
+
+  async markPaidByPayoutId(payoutId) {
+    const { count } = await prisma.referral.updateMany({
+      where: { payoutId, status: 'CONVERTED' },
+      data: { status: 'PAID' },
+    });
+    return count;
+  },
+};
+
+export const prismaClickEventRepo: ClickEventRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.clickEvent.findMany({
+      where: clickEventWhere(partnerId, options),
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async countByPartnerId(partnerId, options = {}) {
+    return prisma.clickEvent.count({ where: clickEventWhere(partnerId, options) });
+  },
+
+  async create(data) {
+    return prisma.clickEvent.create({ data });
+  },
+};
+
+export const prismaPayoutRepo: PayoutRepository = {
+  async findById(id) {
+    return prisma.payout.findUnique({ where: { id } });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.payout.findMany({
+      where: {
+        partnerId,
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { requestedAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async countByPartnerId(partnerId, options = {}) {
+    return prisma.payout.count({
+      where: {
+        partnerId,
+        ...(options.status && { status: options.status }),
+      },
+    });
+  },
+
+  async findAll(options = {}) {
+    const requestedAt: Record<string, Date> = {};
+    if (options.since) requestedAt.gte = options.since;
+    if (options.until) requestedAt.lt = options.until;
+
+    return prisma.payout.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(Object.keys(requestedAt).length > 0 && { requestedAt }),
+      },
+      orderBy: { requestedAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async create(data) {
+    return prisma.payout.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.payout.update({ where: { id }, data }));
+  },
+};
+
+export const prismaNotificationRepo: NotificationRepository = {
+  async findById(id) {
+    return prisma.notification.findUnique({ where: { id } });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.notification.findMany({
+      where: {
+        partnerId,
+        ...(options.unreadOnly && { read: false }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async countUnread(partnerId) {
+    return prisma.notification.count({ where: { partnerId, read: false } });
+  },
+
+  async create(data) {
+    return prisma.notification.create({ data });
+  },
+
+  async markAsRead(id) {
+    return orNull(() =>
+      prisma.notification.update({
+        where: { id },
+        data: { read: true, readAt: new Date() },
+      })
+    );
+  },
+
+  async markAllAsRead(partnerId) {
+    const result = await prisma.notification.updateMany({
+      where: { partnerId, read: false },
+      data: { read: true, readAt: new Date() },
+    });
+    return result.count;
+  },
+
+  async findPushPending(options = {}) {
+    return prisma.notification.findMany({
+      where: { pushPending: true },
+      orderBy: { createdAt: 'asc' },
+      take: options.limit ?? 50,
+    });
+  },
+
+  async claimPush(id) {
+    const { count } = await prisma.notification.updateMany({
+      where: { id, pushPending: true },
+      data: { pushPending: false },
+    });
+    return count === 1;
+  },
+};
+
+export const prismaPushSubscriptionRepo: PushSubscriptionRepository = {
+  async findByPartnerId(partnerId) {
+    return prisma.pushSubscription.findMany({ where: { partnerId } });
+  },
+
+  async findByEndpoint(endpoint) {
+    return prisma.pushSubscription.findUnique({ where: { endpoint } });
+  },
+
+  async upsert(data) {
+    return prisma.pushSubscription.upsert({
+      where: { endpoint: data.endpoint },
+      create: data,
+      update: data,
+    });
+  },
+
+  async markUsed(id, at) {
+    await prisma.pushSubscription.updateMany({ where: { id }, data: { lastUsedAt: at } });
+  },
+
+  async deleteByEndpoint(endpoint) {
+    return (await orNull(() => prisma.pushSubscription.delete({ where: { endpoint } }))) !== null;
+  },
+};
+
+export const prismaPartnerEventRepo: PartnerEventRepository = {
+  async findAfter(partnerId, afterId, options = {}) {
+    return prisma.partnerEvent.findMany({
+      where: { partnerId, id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+      take: options.limit ?? 100,
+    });
+  },
+
+  async findLatestId(partnerId) {
+    const latest = await prisma.partnerEvent.findFirst({
+      where: { partnerId },
+      orderBy: { id: 'desc' },
+    });
+    return latest?.id ?? 0;
+  },
+
+  async create(data) {
+    return prisma.partnerEvent.create({ data });
+  },
+
+  async deleteOlderThan(before) {
+    const result = await prisma.partnerEvent.deleteMany({ where: { createdAt: { lt: before } } });
+    return result.count;
+  },
+};
+
+export const prismaMilestoneRepo: MilestoneRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.milestone.findMany({
+      where: { partnerId },
+      orderBy: { achievedAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async upsert(data) {
+    return prisma.milestone.upsert({
+      where: { partnerId_type: { partnerId: data.partnerId, type: data.type } },
+      create: data,
+      update: data,
+    });
+  },
+};
+
+export const prismaCommissionRuleRepo: CommissionRuleRepository = {
+  async findById(id) {
+    return prisma.commissionRule.findUnique({ where: { id } });
+  },
+
+  async findAll(options = {}) {
+    return prisma.commissionRule.findMany({
+      where: {
+        ...(options.isActive !== undefined && { isActive: options.isActive }),
+        ...(options.partnerId !== undefined && { partnerId: options.partnerId }),
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+    });
+  },
+
+  async create(data) {
+    return prisma.commissionRule.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.commissionRule.update({ where: { id }, data }));
+  },
+
+  async delete(id) {
+    return (await orNull(() => prisma.commissionRule.delete({ where: { id } }))) !== null;
+  },
+};
+
+export const prismaTierChangeRepo: TierChangeRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.tierChange.findMany({
+      where: { partnerId },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async findRecent(options = {}) {
+    return prisma.tierChange.findMany({
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async create(data) {
+    return prisma.tierChange.create({ data });
+  },
+};
+
+export const prismaProgramSettingRepo: ProgramSettingRepository = {
+  async get(key) {
+    return prisma.programSetting.findUnique({ where: { key } });
+  },
+
+  async set(key, value) {
+    return prisma.programSetting.upsert({
+      where: { key },
+      create: { key, value },
+      update: { value },
+    });
+  },
+};
+
+export const prismaBalanceAdjustmentRepo: BalanceAdjustmentRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.balanceAdjustment.findMany({
+      where: {
+        partnerId,
+        ...(options.outstanding && { payoutId: null }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async findByPayoutId(payoutId) {
+    return prisma.balanceAdjustment.findMany({
+      where: { payoutId },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async findByReferralIds(referralIds) {
+    return prisma.balanceAdjustment.findMany({
+      where: { referralId: { in: referralIds } },
+    });
+  },
+
+  async create(data) {
+    return prisma.balanceAdjustment.create({ data });
+  },
+
+  async applyToPayout(ids, payoutId) {
+    const { count } = await prisma.balanceAdjustment.updateMany({
+      where: { id: { in: ids }, payoutId: null },
+      data: { payoutId, appliedAt: new Date() },
+    });
+    return count;
+  },
+
+  async releaseFromPayout(payoutId) {
+    const { count } = await prisma.balanceAdjustment.updateMany({
+      where: { payoutId },
+      data: { payoutId: null, appliedAt: null },
+    });
+    return count;
+  },
+};
+
+function ledgerWhere(partnerId: string, query: LedgerQuery): Record<string, unknown> {
+  const createdAt: Record<string, Date> = {};
+  if (query.since) createdAt.gte = query.since;
+  if (query.until) createdAt.lt = query.until;
+
+  return {
+    partnerId,
+    ...(query.account && { account: query.account }),
+    ...(Object.keys(createdAt).length > 0 && { createdAt }),
+  };
+}
+
+export const prismaLedgerRepo: LedgerRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.ledgerEntry.findMany({
+      where: ledgerWhere(partnerId, options),
+      orderBy: { createdAt: 'asc' },
+      ...paginate(options),
+    });
+  },
+
+  async findByReference(reference) {
+    return prisma.ledgerEntry.findMany({
+      where: {
+        ...(reference.referralId && { referralId: reference.referralId }),
+        ...(reference.payoutId && { payoutId: reference.payoutId }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async getBalance(partnerId, options = {}) {
+    const result = await prisma.ledgerEntry.aggregate({
+      where: ledgerWhere(partnerId, { account: PARTNER_ACCOUNT, ...options }),
+      _sum: { amountCents: true },
+    });
+    return result._sum?.amountCents ?? 0;
+  },
+
+  async getTotalsByType(partnerId) {
+    const totals = emptyLedgerTotals();
+    const sums = await Promise.all(
+      LEDGER_ENTRY_TYPES.map(type =>
+        prisma.ledgerEntry.aggregate({
+          where: { partnerId, account: PARTNER_ACCOUNT, type },
+          _sum: { amountCents: true },
+        })
+      )
+    );
+
+    LEDGER_ENTRY_TYPES.forEach((type, i) => {
+      totals[type] = sums[i]?._sum?.amountCents ?? 0;
+    });
+    return totals;
+  },
+
+  async createTransaction(entries) {
+    if (entries.length === 0 || !isBalanced(entries)) {
+      throw new Error('Ledger transaction entries must sum to zero');
+    }
+
+    const transactionId = `ledger-txn-${generateRandomString(12)}`;
+    const createdAt = new Date();
+
+    return prisma.$transaction(async tx => {
+      const created = [];
+      for (const entry of entries) {
+        created.push(await tx.ledgerEntry.create({
+          data: { ...entry, transactionId, createdAt: entry.createdAt ?? createdAt },
+        }));
+      }
+      return created;
+    });
+  },
+};
+
+export const prismaPayoutRunRepo: PayoutRunRepository = {
+  async findById(id) {
+    return prisma.payoutRun.findUnique({ where: { id } });
+  },
+
+  async findRecent(options = {}) {
+    return prisma.payoutRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async findRunning() {
+    return prisma.payoutRun.findFirst({ where: { status: 'RUNNING' } });
+  },
+
+  async create(data) {
+    return prisma.payoutRun.create({ data: { ...data, status: 'RUNNING' } });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.payoutRun.update({ where: { id }, data }));
+  },
+};
+
+export const prismaWebhookEndpointRepo: WebhookEndpointRepository = {
+  async findById(id) {
+    return prisma.webhookEndpoint.findUnique({ where: { id } });
+  },
+
+  async findAll(options = {}) {
+    return prisma.webhookEndpoint.findMany({
+      where: {
+        ...(options.isActive !== undefined && { isActive: options.isActive }),
+        ...(options.partnerId && { partnerId: options.partnerId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async create(data) {
+    return prisma.webhookEndpoint.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.webhookEndpoint.update({ where: { id }, data }));
+  },
+
+  // Deliveries cascade in the database
+  async delete(id) {
+    return (await orNull(() => prisma.webhookEndpoint.delete({ where: { id } }))) !== null;
+  },
+};
+
+export const prismaWebhookDeliveryRepo: WebhookDeliveryRepository = {
+  async findById(id) {
+    return prisma.webhookDelivery.findUnique({ where: { id } });
+  },
+
+  async findByEndpointId(endpointId, options = {}) {
+    return prisma.webhookDelivery.findMany({
+      where: {
+        endpointId,
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async findDue(now, options = {}) {
+    return prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: options.limit ?? DEFAULT_LIMIT,
+    });
+  },
+
+  async claim(id, now, until) {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: until },
+    });
+    return count === 1;
+  },
+
+  async create(data) {
+    return prisma.webhookDelivery.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.webhookDelivery.update({ where: { id }, data }));
+  },
+};
+
+export const prismaApiKeyRepo: ApiKeyRepository = {
+  async findById(id) {
+    return prisma.apiKey.findUnique({ where: { id } });
+  },
+
+  async findByHash(keyHash) {
+    return prisma.apiKey.findUnique({ where: { keyHash } });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.apiKey.findMany({
+      where: {
+        partnerId,
+        ...(!options.includeRevoked && { revokedAt: null }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async create(data) {
+    return prisma.apiKey.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.apiKey.update({ where: { id }, data }));
+  },
+};
+
+export const prismaPartnerApplicationRepo: PartnerApplicationRepository = {
+  async findById(id) {
+    return prisma.partnerApplication.findUnique({ where: { id } });
+  },
+
+  async findByEmail(email) {
+    return prisma.partnerApplication.findUnique({ where: { email } });
+  },
+
+  async findAll(options = {}) {
+    return prisma.partnerApplication.findMany({
+      where: options.statuses ? { status: { in: options.statuses } } : {},
+      orderBy: { createdAt: 'asc' },
+      ...paginate(options),
+    });
+  },
+
+  async count(options = {}) {
+    return prisma.partnerApplication.count({
+      where: options.statuses ? { status: { in: options.statuses } } : {},
+    });
+  },
+
+  async create(data) {
+    return prisma.partnerApplication.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.partnerApplication.update({ where: { id }, data }));
+  },
+};
+
+export const prismaInviteCodeRepo: InviteCodeRepository = {
+  async findById(id) {
+    return prisma.inviteCode.findUnique({ where: { id } });
+  },
+
+  async findByCode(code) {
+    return prisma.inviteCode.findUnique({ where: { code } });
+  },
+
+  async findAll(options = {}) {
+    return prisma.inviteCode.findMany({
+      where: options.isActive !== undefined ? { isActive: options.isActive } : {},
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async create(data) {
+    return prisma.inviteCode.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.inviteCode.update({ where: { id }, data }));
+  },
+
+  async incrementUseCount(id, expectedUseCount) {
+    const { count } = await prisma.inviteCode.updateMany({
+      where: { id, useCount: expectedUseCount },
+      data: { useCount: { increment: 1 } },
+    });
+    return count === 1;
+  },
+
+  async delete(id) {
+    return (await orNull(() => prisma.inviteCode.delete({ where: { id } }))) !== null;
+  },
+};
+
+export const prismaInviteCodeRedemptionRepo: InviteCodeRedemptionRepository = {
+  async findByApplicationId(applicationId) {
+    return prisma.inviteCodeRedemption.findUnique({ where: { applicationId } });
+  },
+
+  async findByInviteCodeId(inviteCodeId, options = {}) {
+    return prisma.inviteCodeRedemption.findMany({
+      where: { inviteCodeId },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async count(options) {
+    return prisma.inviteCodeRedemption.count({
+      where: {
+        inviteCodeId: options.inviteCodeId,
+        ...(options.signedUp !== undefined && { partnerId: options.signedUp ? { not: null } : null }),
+      },
+    });
+  },
+
+  async create(data) {
+    return prisma.inviteCodeRedemption.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.inviteCodeRedemption.update({ where: { id }, data }));
+  },
+};
+
+export const prismaOverrideCommissionRepo: OverrideCommissionRepository = {
+  async findByReferralId(referralId) {
+    return prisma.overrideCommission.findUnique({ where: { referralId } });
+  },
+
+  async findByRecruiterId(recruiterId, options = {}) {
+    return prisma.overrideCommission.findMany({
+      where: {
+        recruiterId,
+        ...(options.recruitId && { recruitId: options.recruitId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async findPayable(recruiterId, options = {}) {
+    return prisma.overrideCommission.findMany({
+      where: { recruiterId, status: 'EARNED', payoutId: null },
+      orderBy: { createdAt: 'asc' },
+      ...paginate(options),
+    });
+  },
+
+  async findByPayoutId(payoutId, options = {}) {
+    return prisma.overrideCommission.findMany({
+      where: {
+        payoutId,
+        ...(options.status && { status: options.status }),
+      },
+    });
+  },
+
+  async getEarnedTotals(recruiterId, recruitId) {
+    const result = await prisma.overrideCommission.aggregate({
+      where: { recruiterId, recruitId, status: { in: ['EARNED', 'PAID'] } },
+      _count: true,
+      _sum: { amountCents: true },
+    });
+    return {
+      count: result._count ?? 0,
+      amountCents: result._sum?.amountCents ?? 0,
+    };
+  },
+
+  async create(data) {
+    return prisma.overrideCommission.create({ data });
+  },
+
+  async markReversed(id, reversedAt) {
+    return orNull(() => prisma.overrideCommission.update({
+      where: { id },
+      data: { status: 'REVERSED', reversedAt },
+    }));
+  },
+
+  async assignToPayout(ids, payoutId) {
+    const { count } = await prisma.overrideCommission.updateMany({
+      where: { id: { in: ids }, status: 'EARNED', payoutId: null },
+      data: { payoutId },
+    });
+    return count;
+  },
+
+  async releaseFromPayout(payoutId) {
+    const { count } = await prisma.overrideCommission.updateMany({
+      where: { payoutId, status: 'EARNED' },
+      data: { payoutId: null },
+    });
+    return count;
+  },
+
+  async markPaidByPayoutId(payoutId) {
+    const { count } = await prisma.overrideCommission.updateMany({
+      where: { payoutId, status: 'EARNED' },
+      data: { status: 'PAID' },
+    });
+    return count;
+  },
+};
+
+function dailyRollupWhere(options: DailyRollupQuery & { partnerId?: string }): Record<string, unknown> {
+  return {
+    ...(options.partnerId && { partnerId: options.partnerId }),
+    ...((options.since || options.until) && {
+      day: {
+        ...(options.since && { gte: options.since }),
+        ...(options.until && { lt: options.until }),
+      },
+    }),
+  };
+}
+
+export const prismaDailyRollupRepo: DailyRollupRepository = {
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.dailyRollup.findMany({
+      where: dailyRollupWhere({ ...options, partnerId }),
+      orderBy: { day: 'asc' },
+    });
+  },
+
+  async findAll(options = {}) {
+    return prisma.dailyRollup.findMany({
+      where: dailyRollupWhere(options),
+      orderBy: { day: 'asc' },
+    });
+  },
+
+  async increment(dimensions, metrics) {
+    const increments = Object.fromEntries(
+      Object.entries(metrics).map(([metric, value]) => [metric, { increment: value }])
+    );
+    return prisma.dailyRollup.upsert({
+      where: { key: dailyRollupKey(dimensions) },
+      create: { key: dailyRollupKey(dimensions), ...dimensions, ...metrics },
+      update: increments,
+    });
+  },
+
+  async replaceForPartner(partnerId, rollups, options = {}) {
+    return prisma.$transaction(async tx => {
+      await tx.dailyRollup.deleteMany({ where: dailyRollupWhere({ partnerId, since: options.since }) });
+      for (const rollup of rollups) {
+        await tx.dailyRollup.create({ data: { ...rollup, key: dailyRollupKey(rollup) } });
+      }
+      return rollups.length;
+    });
+  },
+};
+
+export const prismaExperimentRepo: ExperimentRepository = {
+  async findById(id) {
+    return prisma.experiment.findUnique({ where: { id } });
+  },
+
+  async findByPartnerId(partnerId, options = {}) {
+    return prisma.experiment.findMany({
+      where: { partnerId, ...(options.status && { status: options.status }) },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async findByStatus(status) {
+    return prisma.experiment.findMany({
+      where: { status },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async create(data) {
+    return prisma.experiment.create({ data });
+  },
+
+  async update(id, data) {
+    return orNull(() => prisma.experiment.update({ where: { id }, data }));
+  },
+};
+
+export const prismaExperimentResultRepo: ExperimentResultRepository = {
+  async findByExperimentId(experimentId) {
+    return prisma.experimentResult.findMany({
+      where: { experimentId },
+      orderBy: { recordedAt: 'asc' },
+    });
+  },
+
+  async increment(experimentId, variant, at, metrics) {
+    const key = experimentResultKey(experimentId, variant, at);
+    const increments = Object.fromEntries(
+      Object.entries(metrics).map(([metric, value]) => [metric, { increment: value }])
+    );
+    return prisma.experimentResult.upsert({
+      where: { key },
+      create: { key, experimentId, variant, recordedAt: getResultDay(at), ...metrics },
+      update: increments,
+    });
+  },
+};
+
+export const prismaExperimentAllocationRepo: ExperimentAllocationRepository = {
+  async findByExperimentId(experimentId) {
+    return prisma.experimentAllocation.findMany({
+      where: { experimentId },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  async create(data) {
+    return prisma.experimentAllocation.create({ data });
+  },
+};
+
+function auditLogWhere(filter: AuditLogFilter): Record<string, unknown> {
+  return {
+    ...(filter.actorId && { actorId: filter.actorId }),
+    ...(filter.action && { action: filter.action }),
+    ...(filter.targetType && { targetType: filter.targetType }),
+    ...(filter.targetId && { targetId: filter.targetId }),
+    ...((filter.since || filter.until) && {
+      createdAt: {
+        ...(filter.since && { gte: filter.since }),
+        ...(filter.until && { lt: filter.until }),
+      },
+    }),
+  };
+}
+
+// Only create and find are used; the table is append-only
+export const prismaAuditLogRepo: AuditLogRepository = {
+  async append(data) {
+    return prisma.auditLog.create({ data });
+  },
+
+  async findMany(filter = {}, options = {}) {
+    return prisma.auditLog.findMany({
+      where: auditLogWhere(filter),
+      orderBy: { createdAt: 'desc' },
+      ...paginate(options),
+    });
+  },
+
+  async count(filter = {}) {
+    return prisma.auditLog.count({ where: auditLogWhere(filter) });
+  },
+};
+
+// ============================================
+// Stats Helpers
+// ============================================
+
+export async function getPrismaPartnerStats(
+  partnerId: string,
+  holdDays: number = DEFAULT_PAYOUT_SETTINGS.holdDays
+): Promise<PartnerStatsSummary> {
+  const [partner, campaigns, referrals, commissionRules, overrides] = await Promise.all([
+    prisma.partner.findUnique({ where: { id: partnerId } }),
+    prisma.campaign.findMany({ where: { partnerId } }),
+    prisma.referral.findMany({ where: { partnerId } }),
+    prisma.commissionRule.findMany({ where: { isActive: true } }),
+    prisma.overrideCommission.findMany({ where: { recruiterId: partnerId } }),
+  ]);
+
+  return computePartnerStats(partner, campaigns, referrals, commissionRules, new Date(), holdDays, overrides);
+}
+
+export async function getPrismaLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
+  const partners = await prisma.partner.findMany({ where: { status: 'ACTIVE' } });
+
+  const stats = await Promise.all(
+    partners.map(async p => {
+      const partnerStats = await getPrismaPartnerStats(p.id);
+      return {
+        partnerId: p.id,
+        partnerName: p.name,
+        tier: p.tier,
+        totalEarned: partnerStats.totalEarned,
+        referralsThisMonth: partnerStats.referralsThisMonth,
+      };
+    })
+  );
+
+  return rankLeaderboard(stats, limit);
+}
+
+// ============================================
+// Seeding
+// ============================================
+
+/**
+ * Load the demo data set into an empty database
+ * Skipped when the demo partner already exists
+ */
+export async function seedDatabase(): Promise<boolean> {
+  const seed = buildSeedData();
+  const [firstPartner] = seed.partners;
+
+  if (firstPartner && (await prisma.partner.findUnique({ where: { id: firstPartner.id } }))) {
+    return false;
+  }
+
+  // Insert in foreign key order
+  await prisma.$transaction(async tx => {
+    for (const partner of seed.partners) await tx.partner.create({ data: partner });
+    for (const campaign of seed.campaigns) await tx.campaign.create({ data: campaign });
+    for (const payout of seed.payouts) await tx.payout.create({ data: payout });
+    for (const referral of seed.referrals) await tx.referral.create({ data: referral });
+    for (const milestone of seed.milestones) await tx.milestone.create({ data: milestone });
+    for (const notification of seed.notifications) await tx.notification.create({ data: notification });
+    for (const experiment of seed.experiments) await tx.experiment.create({ data: experiment });
+    for (const result of seed.experimentResults) await tx.experimentResult.create({ data: result });
+    for (const allocation of seed.experimentAllocations) await tx.experimentAllocation.create({ data: allocation });
+    for (const rule of seed.commissionRules) await tx.commissionRule.create({ data: rule });
+    for (const change of seed.tierChanges) await tx.tierChange.create({ data: change });
+    for (const entry of seed.ledgerEntries) await tx.ledgerEntry.create({ data: entry });
+    for (const inviteCode of seed.inviteCodes) await tx.inviteCode.create({ data: inviteCode });
+    for (const rollup of seed.dailyRollups) await tx.dailyRollup.create({ data: rollup });
+  });
+
+  console.log('[DataStore] Seeded database with demo data');
+  return true;
+}
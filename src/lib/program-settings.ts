@@ -0,0 +1,125 @@
+/**
+ * Program Settings
+ * Admin-editable program configuration stored as typed JSON sections
+ *
+ * Each section has defaults, so a fresh store or database behaves like
+ * the documented program until an admin saves changes.
+ */
+
+import { getProgramSettingRepository } from './repositories';
+import { DEFAULT_TIER_SETTINGS, tierSettingsSchema, type TierSettings } from './tiers';
+import { DEFAULT_PAYOUT_SETTINGS, payoutSettingsSchema, type PayoutSettings } from './earnings';
+import {
+  DEFAULT_RECRUITMENT_SETTINGS,
+  recruitmentSettingsSchema,
+  type RecruitmentSettings,
+} from './commissions';
+import { logger } from './monitoring';
+
+// ============================================
+// Tier Settings
+// ============================================
+
+const TIER_SETTINGS_KEY = 'tiers';
+
+/**
+ * Get the tier requirements, falling back to defaults
+ * Invalid stored values are logged and ignored
+ */
+export async function getTierSettings(): Promise<TierSettings> {
+  const setting = await getProgramSettingRepository().get(TIER_SETTINGS_KEY);
+  if (!setting) return DEFAULT_TIER_SETTINGS;
+
+  const parsed = tierSettingsSchema.partial().safeParse(setting.value);
+  if (!parsed.success) {
+    logger.warn('[ProgramSettings] Ignoring invalid tier settings', {
+      errors: parsed.error.flatten().fieldErrors,
+    });
+    return DEFAULT_TIER_SETTINGS;
+  }
+
+  return { ...DEFAULT_TIER_SETTINGS, ...parsed.data };
+}
+
+/**
+ * Merge and save tier settings
+ */
+export async function updateTierSettings(
+  update: Partial<TierSettings>
+): Promise<TierSettings> {
+  const settings = { ...(await getTierSettings()), ...update };
+  await getProgramSettingRepository().set(TIER_SETTINGS_KEY, settings);
+  return settings;
+}
+
+// ============================================
+// Payout Settings
+// ============================================
+
+const PAYOUT_SETTINGS_KEY = 'payouts';
+
+/**
+ * Get the payout settings, falling back to defaults
+ * Invalid stored values are logged and ignored
+ */
+export async function getPayoutSettings(): Promise<PayoutSettings> {
+  const setting = await getProgramSettingRepository().get(PAYOUT_SETTINGS_KEY);
+  if (!setting) return DEFAULT_PAYOUT_SETTINGS;
+
+  const parsed = payoutSettingsSchema.partial().safeParse(setting.value);
+  if (!parsed.success) {
+    logger.warn('[ProgramSettings] Ignoring invalid payout settings', {
+      errors: parsed.error.flatten().fieldErrors,
+    });
+    return DEFAULT_PAYOUT_SETTINGS;
+  }
+
+  return { ...DEFAULT_PAYOUT_SETTINGS, ...parsed.data };
+}
+
+/**
+ * Merge and save payout settings
+ */
+export async function updatePayoutSettings(
+  update: Partial<PayoutSettings>
+): Promise<PayoutSettings> {
+  const settings = { ...(await getPayoutSettings()), ...update };
+  await getProgramSettingRepository().set(PAYOUT_SETTINGS_KEY, settings);
+  return settings;
+}
+
+// ============================================
+// Recruitment Settings
+// ============================================
+
+const RECRUITMENT_SETTINGS_KEY = 'recruitment';
+
+/**
+ * Get the recruiter override settings, falling back to defaults
+ * Invalid stored values are logged and ignored
+ */
+export async function getRecruitmentSettings(): Promise<RecruitmentSettings> {
+  const setting = await getProgramSettingRepository().get(RECRUITMENT_SETTINGS_KEY);
+  if (!setting) return DEFAULT_RECRUITMENT_SETTINGS;
+
+  const parsed = recruitmentSettingsSchema.partial().safeParse(setting.value);
+  if (!parsed.success) {
+    logger.warn('[ProgramSettings] Ignoring invalid recruitment settings', {
+      errors: parsed.error.flatten().fieldErrors,
+    });
+    return DEFAULT_RECRUITMENT_SETTINGS;
+  }
+
+  return { ...DEFAULT_RECRUITMENT_SETTINGS, ...parsed.data };
+}
+
+/**
+ * Merge and save recruitment settings
+ */
+export async function updateRecruitmentSettings(
+  update: Partial<RecruitmentSettings>
+): Promise<RecruitmentSettings> {
+  const settings = { ...(await getRecruitmentSettings()), ...update };
+  await getProgramSettingRepository().set(RECRUITMENT_SETTINGS_KEY, settings);
+  return settings;
+}
@@ -0,0 +1,242 @@
+/**
+ * Push Service
+ * Partner Web Push subscriptions and delivery of notifications as push messages
+ *
+ * Each browser a partner enables push on is stored by its endpoint. When a
+ * CONVERSION, PAYOUT or MILESTONE notification is created it is queued, and
+ * the push-deliveries job sends it to all of the partner's subscriptions,
+ * unless their preferences turn push or the type off. Subscriptions the
+ * push service reports gone (404/410) are removed; other failures are
+ * logged and never fail the notification.
+ *
+ * Sending needs NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and
+ * VAPID_SUBJECT; without them notifications are only stored.
+ */
+
+import {
+  getNotificationRepository,
+  getPartnerRepository,
+  getPushSubscriptionRepository,
+} from './repositories';
+import {
+  acceptsPush,
+  buildPushPayload,
+  buildPushRequest,
+  isSubscriptionGone,
+  PUSH_NOTIFICATION_TYPES,
+  type PushSubscriptionInput,
+  type VapidKeys,
+} from './web-push';
+import { logger } from './monitoring';
+import type { Notification, NotificationType, PushSubscription } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+const PUSH_TIMEOUT_MS = 10 * 1000;
+
+// Notifications sent per job run
+const SEND_BATCH_SIZE = 50;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PushSubscriptionResult {
+  success: boolean;
+  subscription?: PushSubscription;
+  error?: string;
+  errorCode?: 'NOT_FOUND' | 'ENDPOINT_TAKEN';
+}
+
+export interface PushDeliverySummary {
+  sent: number;
+  pruned: number;
+  failed: number;
+}
+
+export interface PushJobSummary extends PushDeliverySummary {
+  notifications: number;
+}
+
+// ============================================
+// Configuration Getters
+// ============================================
+
+/**
+ * Application server keys, or null when push is not configured
+ */
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  if (!publicKey || !privateKey || !subject) return null;
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * Whether a new notification of this type should be queued for push
+ */
+export function queuesPush(type: NotificationType): boolean {
+  return PUSH_NOTIFICATION_TYPES.includes(type) && getVapidKeys() !== null;
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * Store a browser subscription for a partner
+ * Subscribing an endpoint again replaces its keys; an endpoint another
+ * partner registered is refused
+ */
+export async function savePushSubscription(
+  partnerId: string,
+  input: PushSubscriptionInput,
+  userAgent: string | null
+): Promise<PushSubscriptionResult> {
+  const partner = await getPartnerRepository().findById(partnerId);
+  if (!partner) {
+    return { success: false, error: 'Partner not found', errorCode: 'NOT_FOUND' };
+  }
+
+  const repo = getPushSubscriptionRepository();
+  const existing = await repo.findByEndpoint(input.endpoint);
+  if (existing && existing.partnerId !== partnerId) {
+    return { success: false, error: 'Subscription belongs to another partner', errorCode: 'ENDPOINT_TAKEN' };
+  }
+
+  const subscription = await repo.upsert({
+    partnerId,
+    endpoint: input.endpoint,
+    p256dh: input.keys.p256dh,
+    auth: input.keys.auth,
+    userAgent: userAgent?.slice(0, 255) ?? null,
+  });
+
+  logger.info('[PushService] Subscription saved', { partnerId, subscriptionId: subscription.id });
+
+  return { success: true, subscription };
+}
+
+/**
+ * Remove a partner's subscription; false if the partner has none at the endpoint
+ */
+export async function removePushSubscription(partnerId: string, endpoint: string): Promise<boolean> {
+  const repo = getPushSubscriptionRepository();
+  const subscription = await repo.findByEndpoint(endpoint);
+  if (!subscription || subscription.partnerId !== partnerId) return false;
+
+  return repo.deleteByEndpoint(endpoint);
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+type PushOutcome = 'sent' | 'pruned' | 'failed';
+
+async function deliverPush(
+  subscription: PushSubscription,
+  notification: Notification,
+  keys: VapidKeys
+): Promise<PushOutcome> {
+  const repo = getPushSubscriptionRepository();
+
+  try {
+    const { headers, body } = buildPushRequest(subscription, buildPushPayload(notification), keys);
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers,
+      body: new Uint8Array(body),
+      signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      await repo.markUsed(subscription.id, new Date());
+      return 'sent';
+    }
+
+    if (isSubscriptionGone(response.status)) {
+      await repo.deleteByEndpoint(subscription.endpoint);
+      logger.info('[PushService] Pruned expired subscription', {
+        partnerId: subscription.partnerId,
+        subscriptionId: subscription.id,
+        status: response.status,
+      });
+      return 'pruned';
+    }
+
+    logger.warn('[PushService] Push rejected', {
+      partnerId: subscription.partnerId,
+      subscriptionId: subscription.id,
+      status: response.status,
+    });
+    return 'failed';
+  } catch (error) {
+    logger.warn('[PushService] Push failed', {
+      partnerId: subscription.partnerId,
+      subscriptionId: subscription.id,
+      error: error instanceof Error ? error.message : 'Push failed',
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Send a notification to every browser its partner subscribed,
+ * if the type is pushed and the partner's preferences allow it
+ */
+export async function sendPushNotification(notification: Notification): Promise<PushDeliverySummary> {
+  const summary: PushDeliverySummary = { sent: 0, pruned: 0, failed: 0 };
+
+  const keys = getVapidKeys();
+  if (!keys) return summary;
+
+  try {
+    const partner = await getPartnerRepository().findById(notification.partnerId);
+    if (!partner || !acceptsPush(partner.notificationPreferences, notification.type)) return summary;
+
+    const subscriptions = await getPushSubscriptionRepository().findByPartnerId(partner.id);
+    const outcomes = await Promise.all(
+      subscriptions.map(subscription => deliverPush(subscription, notification, keys))
+    );
+    outcomes.forEach(outcome => summary[outcome]++);
+  } catch (error) {
+    logger.error('[PushService] Failed to send push notification', error, {
+      partnerId: notification.partnerId,
+      notificationId: notification.id,
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Send queued notifications, oldest first
+ * Each is taken off the queue before sending, so overlapping job runs
+ * never push the same notification twice
+ */
+export async function sendPendingPushNotifications(): Promise<PushJobSummary> {
+  const repo = getNotificationRepository();
+  const summary: PushJobSummary = { notifications: 0, sent: 0, pruned: 0, failed: 0 };
+
+  const pending = await repo.findPushPending({ limit: SEND_BATCH_SIZE });
+
+  await Promise.all(pending.map(async notification => {
+    if (!await repo.claimPush(notification.id)) return;
+
+    const result = await sendPushNotification(notification);
+    summary.notifications++;
+    summary.sent += result.sent;
+    summary.pruned += result.pruned;
+    summary.failed += result.failed;
+  }));
+
+  if (summary.notifications > 0) {
+    logger.info('[PushService] Sent queued notifications', { ...summary });
+  }
+
+  return summary;
+}
@@ -48,6 +48,12 @@ export const RateLimitConfigs = {
     window: '1 m' as const,
     identifier: 'share',
   },
+  // Referral link clicks: 60 per minute (above this, clicks are not logged)
+  REFERRAL_CLICK: {
+    requests: 60,
+    window: '1 m' as const,
+    identifier: 'referral_click',
+  },
   // Campaign creation: 10 per hour
   CAMPAIGN_CREATE: {
     requests: 10,
@@ -60,12 +66,30 @@ export const RateLimitConfigs = {
     window: '1 d' as const,
     identifier: 'payout',
   },
+  // Partner API key calls: 60 per minute per key
+  API_KEY: {
+    requests: 60,
+    window: '1 m' as const,
+    identifier: 'api_key',
+  },
   // Export requests: 10 per hour
   DATA_EXPORT: {
     requests: 10,
     window: '1 h' as const,
     identifier: 'export',
   },
+  // Partner applications and status checks: 10 per hour per IP
+  APPLICATION: {
+    requests: 10,
+    window: '1 h' as const,
+    identifier: 'application',
+  },
+  // Applications carrying an invite code: 5 per 15 minutes per IP (code guessing)
+  INVITE_CODE: {
+    requests: 5,
+    window: '15 m' as const,
+    identifier: 'invite_code',
+  },
 } as const;
 
 // ============================================
@@ -0,0 +1,188 @@
+/**
+ * Reconciliation Service
+ * Checks payouts in a date range against Stripe and applies safe fixes
+ *
+ * Fixes are only applied when asked for; the nightly cron applies
+ * them, admins can run a report first.
+ */
+
+import { getPartnerRepository, getPayoutRepository } from './repositories';
+import { completePayout, failPayout, recordPayoutTransition } from './payment-service';
+import { listPayouts, listTransfers } from './stripe';
+import { reconcilePayouts, type ReconciliationIssue } from './reconciliation';
+import { systemAuditContext, type AuditContext } from './audit';
+import { logger } from './monitoring';
+import type { Payout } from './db';
+import type { DateRange, StripePayoutRecord, StripeTransferRecord } from './stripe';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Payouts loaded per page while reconciling
+const PAGE_SIZE = 100;
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReconciliationStripeClient {
+  listTransfers(range: DateRange): Promise<StripeTransferRecord[]>;
+  listPayouts(accountId: string, range: DateRange): Promise<StripePayoutRecord[]>;
+}
+
+export interface ReconciliationReport {
+  since: Date;
+  until: Date;
+  checkedPayouts: number;
+  stripeTransfers: number;
+  stripePayouts: number;
+  issues: Array<ReconciliationIssue & { fixed: boolean }>;
+  fixedCount: number;
+}
+
+// ============================================
+// Stripe
+// ============================================
+
+const stripeClient: ReconciliationStripeClient = {
+  async listTransfers(range) {
+    const result = await listTransfers(range);
+    if (result.error) throw new Error(result.error);
+    return result.transfers;
+  },
+  async listPayouts(accountId, range) {
+    const result = await listPayouts(accountId, range);
+    if (result.error) throw new Error(result.error);
+    return result.payouts;
+  },
+};
+
+async function findPayouts(since: Date, until: Date): Promise<Payout[]> {
+  const payoutRepo = getPayoutRepository();
+  const payouts: Payout[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await payoutRepo.findAll({ since, until, limit: PAGE_SIZE, offset });
+    payouts.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return payouts;
+}
+
+/**
+ * Bank payouts of every connected account with a payout in the range
+ */
+async function findStripePayouts(
+  client: ReconciliationStripeClient,
+  payouts: Payout[],
+  range: DateRange
+): Promise<StripePayoutRecord[]> {
+  const partnerRepo = getPartnerRepository();
+  const partnerIds = [...new Set(payouts.map(p => p.partnerId))];
+  const stripePayouts: StripePayoutRecord[] = [];
+
+  for (const partnerId of partnerIds) {
+    const partner = await partnerRepo.findById(partnerId);
+    if (!partner?.stripeAccountId) continue;
+    stripePayouts.push(...await client.listPayouts(partner.stripeAccountId, range));
+  }
+
+  return stripePayouts;
+}
+
+// ============================================
+// Fixes
+// ============================================
+
+/**
+ * Apply an issue's fix
+ * Returns whether the payout was changed
+ */
+async function applyFix(issue: ReconciliationIssue, auditContext: AuditContext): Promise<boolean> {
+  if (!issue.fix) return false;
+
+  switch (issue.fix.action) {
+    case 'SET_TRANSACTION_ID': {
+      const payoutRepo = getPayoutRepository();
+      const payout = await payoutRepo.findById(issue.payoutId);
+      if (!payout) return false;
+
+      // The transfer went through, so a pending payout is on its way
+      const updated = await payoutRepo.update(issue.payoutId, payout.status === 'PENDING'
+        ? { transactionId: issue.fix.transactionId, status: 'PROCESSING', processedAt: new Date() }
+        : { transactionId: issue.fix.transactionId });
+      await recordPayoutTransition(auditContext, 'payout.reconciled', payout, updated, { issue: issue.type });
+      return true;
+    }
+    case 'COMPLETE':
+      return (await completePayout(issue.payoutId, issue.fix.stripePayoutId, auditContext)).success;
+    case 'FAIL':
+      return (await failPayout(issue.payoutId, issue.fix.reason, auditContext)).success;
+  }
+}
+
+// ============================================
+// Reconciliation
+// ============================================
+
+/**
+ * Compare payouts requested in a range with Stripe
+ * Stripe objects are read from the start of the range until now,
+ * since transfers and bank payouts follow the request
+ */
+export async function runPayoutReconciliation(options: {
+  since: Date;
+  until: Date;
+  autoFix?: boolean;
+  client?: ReconciliationStripeClient;
+  auditContext?: AuditContext; // who applied the fixes; defaults to this job
+}): Promise<ReconciliationReport> {
+  const client = options.client ?? stripeClient;
+  const auditContext = options.auditContext ?? systemAuditContext('reconciliation');
+  const now = new Date();
+  const stripeRange: DateRange = { since: options.since, until: now };
+
+  const payouts = await findPayouts(options.since, options.until);
+  const transfers = await client.listTransfers(stripeRange);
+  const stripePayouts = await findStripePayouts(client, payouts, stripeRange);
+
+  const issues = reconcilePayouts({ payouts, transfers, stripePayouts, now });
+  const reported: ReconciliationReport['issues'] = [];
+
+  for (const issue of issues) {
+    let fixed = false;
+    if (options.autoFix) {
+      try {
+        fixed = await applyFix(issue, auditContext);
+      } catch (error) {
+        logger.error('[ReconciliationService] Failed to apply fix', error, {
+          payoutId: issue.payoutId,
+          type: issue.type,
+        });
+      }
+    }
+    reported.push({ ...issue, fixed });
+  }
+
+  const report: ReconciliationReport = {
+    since: options.since,
+    until: options.until,
+    checkedPayouts: payouts.length,
+    stripeTransfers: transfers.length,
+    stripePayouts: stripePayouts.length,
+    issues: reported,
+    fixedCount: reported.filter(issue => issue.fixed).length,
+  };
+
+  logger.info('[ReconciliationService] Reconciliation complete', {
+    since: options.since.toISOString(),
+    until: options.until.toISOString(),
+    checkedPayouts: report.checkedPayouts,
+    issueCount: issues.length,
+    fixedCount: report.fixedCount,
+  });
+
+  return report;
+}
@@ -0,0 +1,195 @@
+/**
+ * Payout Reconciliation
+ * Compares our payouts with Stripe transfers and bank payouts
+ *
+ * Only fixes that follow from what Stripe reports are suggested;
+ * amount drift is always left for an admin to investigate.
+ */
+
+import type { Payout } from './db';
+import type { StripePayoutRecord, StripeTransferRecord } from './stripe';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Days a payout can be processing before it is reported
+export const DEFAULT_STUCK_AFTER_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bank payout statuses that mean the money never arrived
+const FAILED_STRIPE_PAYOUT_STATUSES = new Set(['failed', 'canceled']);
+
+// ============================================
+// Types
+// ============================================
+
+export type ReconciliationIssueType = 'STUCK_PROCESSING' | 'MISSING_TRANSACTION_ID' | 'AMOUNT_DRIFT';
+
+export type ReconciliationFix =
+  | { action: 'SET_TRANSACTION_ID'; transactionId: string }
+  | { action: 'COMPLETE'; stripePayoutId: string }
+  | { action: 'FAIL'; reason: string };
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  payoutId: string;
+  partnerId: string;
+  detail: string;
+  transferId: string | null;
+  stripePayoutId: string | null;
+  expectedCents?: number;
+  actualCents?: number;
+  fix: ReconciliationFix | null; // null when an admin has to decide
+}
+
+export interface ReconciliationInput {
+  payouts: Payout[];
+  transfers: StripeTransferRecord[];
+  stripePayouts: StripePayoutRecord[];
+  now?: Date;
+  stuckAfterDays?: number;
+}
+
+type ReconciledPayout = Pick<
+  Payout,
+  'id' | 'partnerId' | 'status' | 'netCents' | 'transactionId' | 'requestedAt' | 'processedAt'
+>;
+
+// ============================================
+// Matching
+// ============================================
+
+function findTransfer(
+  payout: ReconciledPayout,
+  transfers: StripeTransferRecord[]
+): StripeTransferRecord | undefined {
+  return transfers.find(t => t.payoutId === payout.id) ??
+    transfers.find(t => payout.transactionId && t.id === payout.transactionId);
+}
+
+/**
+ * Latest bank payout made for our payout
+ */
+function findStripePayout(
+  payout: ReconciledPayout,
+  stripePayouts: StripePayoutRecord[]
+): StripePayoutRecord | undefined {
+  return stripePayouts
+    .filter(p => p.payoutId === payout.id)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+}
+
+// ============================================
+// Checks
+// ============================================
+
+/**
+ * Find a processing payout's outcome from Stripe, or report it
+ * once it has been processing too long
+ */
+function checkProcessing(
+  payout: ReconciledPayout,
+  transfer: StripeTransferRecord | undefined,
+  stripePayout: StripePayoutRecord | undefined,
+  stuckBefore: Date
+): ReconciliationIssue | null {
+  const base = {
+    type: 'STUCK_PROCESSING' as const,
+    payoutId: payout.id,
+    partnerId: payout.partnerId,
+    transferId: transfer?.id ?? null,
+    stripePayoutId: stripePayout?.id ?? null,
+  };
+
+  if (stripePayout?.status === 'paid') {
+    return {
+      ...base,
+      detail: `Bank payout ${stripePayout.id} was paid but the payout is still processing`,
+      fix: { action: 'COMPLETE', stripePayoutId: stripePayout.id },
+    };
+  }
+
+  if (stripePayout && FAILED_STRIPE_PAYOUT_STATUSES.has(stripePayout.status)) {
+    const reason = stripePayout.failureMessage ?? `Bank payout ${stripePayout.status}`;
+    return {
+      ...base,
+      detail: `Bank payout ${stripePayout.id} ${stripePayout.status} but the payout is still processing`,
+      fix: { action: 'FAIL', reason },
+    };
+  }
+
+  if (transfer?.reversed) {
+    return {
+      ...base,
+      detail: `Transfer ${transfer.id} was reversed but the payout is still processing`,
+      fix: { action: 'FAIL', reason: 'Transfer was reversed' },
+    };
+  }
+
+  const processedAt = payout.processedAt ?? payout.requestedAt;
+  if (processedAt < stuckBefore) {
+    return {
+      ...base,
+      detail: transfer
+        ? 'Processing with no bank payout outcome from Stripe'
+        : 'Processing with no matching Stripe transfer',
+      fix: null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Compare payouts with what Stripe reports for them
+ * Payouts that never reached Stripe (pending without a transfer,
+ * failed or cancelled) are not checked
+ */
+export function reconcilePayouts(input: ReconciliationInput): ReconciliationIssue[] {
+  const now = input.now ?? new Date();
+  const stuckBefore = new Date(now.getTime() - (input.stuckAfterDays ?? DEFAULT_STUCK_AFTER_DAYS) * DAY_MS);
+  const issues: ReconciliationIssue[] = [];
+
+  for (const payout of input.payouts) {
+    if (payout.status === 'FAILED' || payout.status === 'CANCELLED') continue;
+
+    const transfer = findTransfer(payout, input.transfers);
+    const stripePayout = findStripePayout(payout, input.stripePayouts);
+
+    // A pending payout that reached Stripe was left behind mid-transfer
+    if (transfer && !payout.transactionId) {
+      issues.push({
+        type: 'MISSING_TRANSACTION_ID',
+        payoutId: payout.id,
+        partnerId: payout.partnerId,
+        detail: `Stripe transfer ${transfer.id} is not recorded on the payout`,
+        transferId: transfer.id,
+        stripePayoutId: stripePayout?.id ?? null,
+        fix: { action: 'SET_TRANSACTION_ID', transactionId: transfer.id },
+      });
+    }
+
+    if (transfer && transfer.amountCents !== payout.netCents) {
+      issues.push({
+        type: 'AMOUNT_DRIFT',
+        payoutId: payout.id,
+        partnerId: payout.partnerId,
+        detail: `Stripe transferred ${transfer.amountCents} cents for a ${payout.netCents} cent payout`,
+        transferId: transfer.id,
+        stripePayoutId: stripePayout?.id ?? null,
+        expectedCents: payout.netCents,
+        actualCents: transfer.amountCents,
+        fix: null,
+      });
+    }
+
+    if (payout.status === 'PROCESSING') {
+      const issue = checkProcessing(payout, transfer, stripePayout, stuckBefore);
+      if (issue) issues.push(issue);
+    }
+  }
+
+  return issues;
+}
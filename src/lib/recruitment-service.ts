@@ -0,0 +1,258 @@
+/**
+ * Recruitment Service
+ * Recruiter capture at signup, override commission on recruits'
+ * referrals and the recruiter's view of their recruits
+ *
+ * A partner recruited through another partner's recruitment link or
+ * invite code earns that recruiter an override on every commission, for
+ * the configured window after joining. Overrides are posted to the
+ * recruiter's ledger and held for the payout hold period like commission,
+ * then paid out alongside their referrals.
+ */
+
+import {
+  getBalanceAdjustmentRepository,
+  getOverrideCommissionRepository,
+  getPartnerRepository,
+} from './repositories';
+import { calculateRecruiterOverride } from './commission-service';
+import { getOverrideEndsAt } from './commissions';
+import { getRecruitmentSettings } from './program-settings';
+import { recordOverride } from './ledger-service';
+import { notifyPartner } from './notification-service';
+import { getAppUrl } from './env';
+import { logger } from './monitoring';
+import { formatCurrency } from './utils';
+import type { OverrideCommission, Partner, PartnerStatus, PartnerTier, Referral } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Query parameter carrying the recruiter's referral code
+export const RECRUITER_PARAM = 'recruiter';
+
+// Most recruits listed for one recruiter
+const MAX_RECRUITS = 500;
+
+// ============================================
+// Types
+// ============================================
+
+export interface RecruitSummary {
+  id: string;
+  name: string;
+  tier: PartnerTier;
+  status: PartnerStatus;
+  recruitedAt: Date | null;
+  overrideEndsAt: Date | null;
+  overrideActive: boolean; // conversions still earn the recruiter an override
+  overrideCount: number;
+  overrideEarnedCents: number;
+}
+
+export interface RecruitsOverview {
+  recruitmentLink: string;
+  overrideRate: number;
+  overrideMonths: number;
+  totals: {
+    recruits: number;
+    activeOverrides: number;
+    earnedCents: number;
+  };
+  recruits: RecruitSummary[];
+}
+
+// ============================================
+// Recruiter Capture
+// ============================================
+
+/**
+ * Link that signs new partners up as the partner's recruits
+ * Opens the application page, which sends the code with the application
+ */
+export function buildRecruitmentLink(referralCode: string): string {
+  return `${getAppUrl()}/apply?${RECRUITER_PARAM}=${encodeURIComponent(referralCode)}`;
+}
+
+/**
+ * Find the active partner a recruitment link's code belongs to
+ */
+export async function resolveRecruiter(referralCode: string): Promise<Partner | null> {
+  const recruiter = await getPartnerRepository().findByReferralCode(referralCode.trim().toUpperCase());
+  return recruiter?.status === 'ACTIVE' ? recruiter : null;
+}
+
+// ============================================
+// Overrides
+// ============================================
+
+/**
+ * Credit a recruit's recruiter with an override on a converted referral
+ * Crediting the same referral twice returns the existing override
+ */
+export async function creditRecruiterOverride(
+  recruit: Partner,
+  referral: Referral
+): Promise<OverrideCommission | null> {
+  if (!recruit.recruitedById) return null;
+
+  const overrideRepo = getOverrideCommissionRepository();
+  const existing = await overrideRepo.findByReferralId(referral.id);
+  if (existing) return existing;
+
+  const override = await calculateRecruiterOverride(
+    recruit,
+    referral.commissionCents,
+    referral.convertedAt ?? undefined
+  );
+  if (!override) return null;
+
+  const recruiter = await getPartnerRepository().findById(recruit.recruitedById);
+  if (!recruiter || recruiter.status !== 'ACTIVE') {
+    logger.info('[RecruitmentService] Recruiter cannot earn overrides', {
+      recruiterId: recruit.recruitedById,
+      status: recruiter?.status,
+    });
+    return null;
+  }
+
+  const created = await overrideRepo.create({
+    recruiterId: recruiter.id,
+    recruitId: recruit.id,
+    referralId: referral.id,
+    rate: override.rate,
+    baseCommissionCents: referral.commissionCents,
+    amountCents: override.amountCents,
+  });
+
+  await recordOverride(created, 'OVERRIDE_EARNED', `Override on a referral by ${recruit.name}`);
+
+  logger.info('[RecruitmentService] Override earned', {
+    overrideId: created.id,
+    recruiterId: recruiter.id,
+    recruitId: recruit.id,
+    amountCents: created.amountCents,
+  });
+
+  await notifyOverride(recruiter, recruit, created);
+
+  return created;
+}
+
+/**
+ * Take back the override on a refunded or charged back referral
+ * Referrals without an override, or already reversed, are left alone
+ * An override already paid out is deducted from the recruiter's next payout
+ */
+export async function reverseRecruiterOverride(
+  referral: Pick<Referral, 'id'>,
+  description: string,
+  occurredAt: Date = new Date()
+): Promise<OverrideCommission | null> {
+  const overrideRepo = getOverrideCommissionRepository();
+  const existing = await overrideRepo.findByReferralId(referral.id);
+  if (!existing || existing.status === 'REVERSED') return null;
+
+  const paidOut = existing.status === 'PAID' || Boolean(existing.payoutId);
+
+  const reversed = await overrideRepo.markReversed(existing.id, occurredAt);
+  if (!reversed) return null;
+
+  await recordOverride(reversed, 'OVERRIDE_REVERSED', description);
+
+  const adjustment = paidOut && reversed.amountCents > 0
+    ? await getBalanceAdjustmentRepository().create({
+        partnerId: reversed.recruiterId,
+        referralId: reversed.referralId,
+        amountCents: -reversed.amountCents,
+        reason: 'OVERRIDE',
+        description,
+      })
+    : undefined;
+
+  logger.info('[RecruitmentService] Override reversed', {
+    overrideId: reversed.id,
+    recruiterId: reversed.recruiterId,
+    amountCents: reversed.amountCents,
+    adjustmentId: adjustment?.id,
+  });
+
+  return reversed;
+}
+
+// ============================================
+// Recruits
+// ============================================
+
+/**
+ * A recruiter's recruits with the override each has earned them
+ */
+export async function getRecruitsOverview(recruiter: Partner): Promise<RecruitsOverview> {
+  const now = new Date();
+  const [settings, recruits] = await Promise.all([
+    getRecruitmentSettings(),
+    getPartnerRepository().findAll({ recruitedById: recruiter.id, limit: MAX_RECRUITS }),
+  ]);
+
+  const overrideRepo = getOverrideCommissionRepository();
+  const summaries = await Promise.all(recruits.map(async (recruit): Promise<RecruitSummary> => {
+    const totals = await overrideRepo.getEarnedTotals(recruiter.id, recruit.id);
+    const overrideEndsAt = recruit.recruitedAt
+      ? getOverrideEndsAt(recruit.recruitedAt, settings.overrideMonths)
+      : null;
+
+    return {
+      id: recruit.id,
+      name: recruit.name,
+      tier: recruit.tier,
+      status: recruit.status,
+      recruitedAt: recruit.recruitedAt ?? null,
+      overrideEndsAt,
+      overrideActive: Boolean(overrideEndsAt && overrideEndsAt > now),
+      overrideCount: totals.count,
+      overrideEarnedCents: totals.amountCents,
+    };
+  }));
+
+  return {
+    recruitmentLink: buildRecruitmentLink(recruiter.referralCode),
+    overrideRate: settings.overrideRate,
+    overrideMonths: settings.overrideMonths,
+    totals: {
+      recruits: summaries.length,
+      activeOverrides: summaries.filter(r => r.overrideActive).length,
+      earnedCents: summaries.reduce((sum, r) => sum + r.overrideEarnedCents, 0),
+    },
+    recruits: summaries,
+  };
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Tell the recruiter they earned an override
+ * Failures are logged but never fail the conversion
+ */
+async function notifyOverride(
+  recruiter: Partner,
+  recruit: Partner,
+  override: OverrideCommission
+): Promise<void> {
+  try {
+    await notifyPartner({
+      partnerId: recruiter.id,
+      type: 'CONVERSION',
+      title: 'Recruit Conversion',
+      message: `You earned a ${formatCurrency(override.amountCents)} override on a referral by ${recruit.name}`,
+      link: '/dashboard',
+    });
+  } catch (error) {
+    logger.error('[RecruitmentService] Failed to send override notification', error, {
+      recruiterId: recruiter.id,
+      overrideId: override.id,
+    });
+  }
+}
@@ -4,25 +4,128 @@
  * 
  * In development/demo mode: Uses in-memory store with seed data
  * In production with DATABASE_URL: Uses Prisma with PlanetScale
+ * 
+ * If DATABASE_URL is set but the Prisma client has not been generated,
+ * the in-memory store is used and a warning is logged.
  */
 
 import { features } from './env';
+import { isPrismaAvailable } from './db';
 import {
   inMemoryPartnerRepo,
   inMemoryCampaignRepo,
   inMemoryReferralRepo,
+  inMemoryClickEventRepo,
   inMemoryPayoutRepo,
   inMemoryNotificationRepo,
+  inMemoryPushSubscriptionRepo,
+  inMemoryPartnerEventRepo,
+  inMemoryMilestoneRepo,
+  inMemoryCommissionRuleRepo,
+  inMemoryTierChangeRepo,
+  inMemoryProgramSettingRepo,
+  inMemoryBalanceAdjustmentRepo,
+  inMemoryLedgerRepo,
+  inMemoryPayoutRunRepo,
+  inMemoryWebhookEndpointRepo,
+  inMemoryWebhookDeliveryRepo,
+  inMemoryApiKeyRepo,
+  inMemoryAuditLogRepo,
+  inMemoryPartnerApplicationRepo,
+  inMemoryInviteCodeRepo,
+  inMemoryInviteCodeRedemptionRepo,
+  inMemoryOverrideCommissionRepo,
+  inMemoryDailyRollupRepo,
+  inMemoryExperimentRepo,
+  inMemoryExperimentResultRepo,
+  inMemoryExperimentAllocationRepo,
   getPartnerStats as getInMemoryPartnerStats,
   getLeaderboard as getInMemoryLeaderboard,
   seedStore,
+  type PartnerStatsSummary,
+  type LeaderboardEntry,
   type PartnerRepository,
   type CampaignRepository,
   type ReferralRepository,
+  type ClickEventRepository,
   type PayoutRepository,
   type NotificationRepository,
+  type PushSubscriptionRepository,
+  type PartnerEventRepository,
+  type MilestoneRepository,
+  type CommissionRuleRepository,
+  type TierChangeRepository,
+  type ProgramSettingRepository,
+  type BalanceAdjustmentRepository,
+  type LedgerRepository,
+  type PayoutRunRepository,
+  type WebhookEndpointRepository,
+  type WebhookDeliveryRepository,
+  type ApiKeyRepository,
+  type AuditLogRepository,
+  type PartnerApplicationRepository,
+  type InviteCodeRepository,
+  type InviteCodeRedemptionRepository,
+  type OverrideCommissionRepository,
+  type DailyRollupRepository,
+  type ExperimentRepository,
+  type ExperimentResultRepository,
+  type ExperimentAllocationRepository,
 } from './data-store';
-import type { PartnerTier } from './db';
+import {
+  prismaPartnerRepo,
+  prismaCampaignRepo,
+  prismaReferralRepo,
+  prismaClickEventRepo,
+  prismaPayoutRepo,
+  prismaNotificationRepo,
+  prismaPushSubscriptionRepo,
+  prismaPartnerEventRepo,
+  prismaMilestoneRepo,
+  prismaCommissionRuleRepo,
+  prismaTierChangeRepo,
+  prismaProgramSettingRepo,
+  prismaBalanceAdjustmentRepo,
+  prismaLedgerRepo,
+  prismaPayoutRunRepo,
+  prismaWebhookEndpointRepo,
+  prismaWebhookDeliveryRepo,
+  prismaApiKeyRepo,
+  prismaAuditLogRepo,
+  prismaPartnerApplicationRepo,
+  prismaInviteCodeRepo,
+  prismaInviteCodeRedemptionRepo,
+  prismaOverrideCommissionRepo,
+  prismaDailyRollupRepo,
+  prismaExperimentRepo,
+  prismaExperimentResultRepo,
+  prismaExperimentAllocationRepo,
+  getPrismaPartnerStats,
+  getPrismaLeaderboard,
+} from './prisma-repositories';
+import { getPayoutSettings } from './program-settings';
+import { applyLedgerBalances, summarizeLedger } from './ledger';
+
+// ============================================
+// Backend Selection
+// ============================================
+
+let warnedPrismaUnavailable = false;
+
+/**
+ * Whether repositories should use Prisma
+ * Warns once when a database is configured without a generated client
+ */
+function usePrisma(): boolean {
+  if (!features.hasDatabase) return false;
+  if (isPrismaAvailable) return true;
+  
+  if (!warnedPrismaUnavailable) {
+    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
+    warnedPrismaUnavailable = true;
+  }
+  return false;
+}
 
 // ============================================
 // Repository Exports
@@ -33,13 +136,7 @@ import type { PartnerTier } from './db';
  * Handles all partner-related data operations
  */
 export function getPartnerRepository(): PartnerRepository {
-  if (features.hasDatabase) {
-    // TODO: Return Prisma-based repository when database is configured
-    // For now, fall back to in-memory
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return inMemoryPartnerRepo;
+  return usePrisma() ? prismaPartnerRepo : inMemoryPartnerRepo;
 }
 
 /**
@@ -47,11 +144,7 @@ export function getPartnerRepository(): PartnerRepository {
  * Handles all campaign-related data operations
  */
 export function getCampaignRepository(): CampaignRepository {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return inMemoryCampaignRepo;
+  return usePrisma() ? prismaCampaignRepo : inMemoryCampaignRepo;
 }
 
 /**
@@ -59,11 +152,15 @@ export function getCampaignRepository(): CampaignRepository {
  * Handles all referral-related data operations
  */
 export function getReferralRepository(): ReferralRepository {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return inMemoryReferralRepo;
+  return usePrisma() ? prismaReferralRepo : inMemoryReferralRepo;
+}
+
+/**
+ * Click event repository
+ * Handles raw referral link click tracking
+ */
+export function getClickEventRepository(): ClickEventRepository {
+  return usePrisma() ? prismaClickEventRepo : inMemoryClickEventRepo;
 }
 
 /**
@@ -71,11 +168,7 @@ export function getReferralRepository(): ReferralRepository {
  * Handles all payout-related data operations
  */
 export function getPayoutRepository(): PayoutRepository {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return inMemoryPayoutRepo;
+  return usePrisma() ? prismaPayoutRepo : inMemoryPayoutRepo;
 }
 
 /**
@@ -83,11 +176,119 @@ export function getPayoutRepository(): PayoutRepository {
  * Handles all notification-related data operations
  */
 export function getNotificationRepository(): NotificationRepository {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return inMemoryNotificationRepo;
+  return usePrisma() ? prismaNotificationRepo : inMemoryNotificationRepo;
+}
+
+/**
+ * Push subscription repository
+ * Web Push endpoints partners subscribed from their browsers
+ */
+export function getPushSubscriptionRepository(): PushSubscriptionRepository {
+  return usePrisma() ? prismaPushSubscriptionRepo : inMemoryPushSubscriptionRepo;
+}
+
+/**
+ * Partner event repository
+ * Recent activity streamed to the dashboard over SSE
+ */
+export function getPartnerEventRepository(): PartnerEventRepository {
+  return usePrisma() ? prismaPartnerEventRepo : inMemoryPartnerEventRepo;
+}
+
+/**
+ * Milestone repository
+ * Handles partner achievements
+ */
+export function getMilestoneRepository(): MilestoneRepository {
+  return usePrisma() ? prismaMilestoneRepo : inMemoryMilestoneRepo;
+}
+
+/**
+ * Commission rule repository
+ * Handles commission rule configuration
+ */
+export function getCommissionRuleRepository(): CommissionRuleRepository {
+  return usePrisma() ? prismaCommissionRuleRepo : inMemoryCommissionRuleRepo;
+}
+
+/**
+ * Tier change repository
+ * Handles the partner tier history
+ */
+export function getTierChangeRepository(): TierChangeRepository {
+  return usePrisma() ? prismaTierChangeRepo : inMemoryTierChangeRepo;
+}
+
+/**
+ * Program setting repository
+ * Handles admin-editable program configuration
+ */
+export function getProgramSettingRepository(): ProgramSettingRepository {
+  return usePrisma() ? prismaProgramSettingRepo : inMemoryProgramSettingRepo;
+}
+
+/**
+ * Balance adjustment repository
+ * Handles refund and chargeback clawbacks carried into payouts
+ */
+export function getBalanceAdjustmentRepository(): BalanceAdjustmentRepository {
+  return usePrisma() ? prismaBalanceAdjustmentRepo : inMemoryBalanceAdjustmentRepo;
+}
+
+export function getLedgerRepository(): LedgerRepository {
+  return usePrisma() ? prismaLedgerRepo : inMemoryLedgerRepo;
+}
+
+export function getPayoutRunRepository(): PayoutRunRepository {
+  return usePrisma() ? prismaPayoutRunRepo : inMemoryPayoutRunRepo;
+}
+
+export function getWebhookEndpointRepository(): WebhookEndpointRepository {
+  return usePrisma() ? prismaWebhookEndpointRepo : inMemoryWebhookEndpointRepo;
+}
+
+export function getWebhookDeliveryRepository(): WebhookDeliveryRepository {
+  return usePrisma() ? prismaWebhookDeliveryRepo : inMemoryWebhookDeliveryRepo;
+}
+
+export function getApiKeyRepository(): ApiKeyRepository {
+  return usePrisma() ? prismaApiKeyRepo : inMemoryApiKeyRepo;
+}
+
+export function getAuditLogRepository(): AuditLogRepository {
+  return usePrisma() ? prismaAuditLogRepo : inMemoryAuditLogRepo;
+}
+
+export function getPartnerApplicationRepository(): PartnerApplicationRepository {
+  return usePrisma() ? prismaPartnerApplicationRepo : inMemoryPartnerApplicationRepo;
+}
+
+export function getInviteCodeRepository(): InviteCodeRepository {
+  return usePrisma() ? prismaInviteCodeRepo : inMemoryInviteCodeRepo;
+}
+
+export function getInviteCodeRedemptionRepository(): InviteCodeRedemptionRepository {
+  return usePrisma() ? prismaInviteCodeRedemptionRepo : inMemoryInviteCodeRedemptionRepo;
+}
+
+export function getOverrideCommissionRepository(): OverrideCommissionRepository {
+  return usePrisma() ? prismaOverrideCommissionRepo : inMemoryOverrideCommissionRepo;
+}
+
+export function getDailyRollupRepository(): DailyRollupRepository {
+  return usePrisma() ? prismaDailyRollupRepo : inMemoryDailyRollupRepo;
+}
+
+export function getExperimentRepository(): ExperimentRepository {
+  return usePrisma() ? prismaExperimentRepo : inMemoryExperimentRepo;
+}
+
+export function getExperimentResultRepository(): ExperimentResultRepository {
+  return usePrisma() ? prismaExperimentResultRepo : inMemoryExperimentResultRepo;
+}
+
+export function getExperimentAllocationRepository(): ExperimentAllocationRepository {
+  return usePrisma() ? prismaExperimentAllocationRepo : inMemoryExperimentAllocationRepo;
 }
 
 // ============================================
@@ -96,38 +297,24 @@ export function getNotificationRepository(): NotificationRepository {
 
 /**
  * Get partner statistics
+ * Held earnings use the configured hold period; balances come from the ledger
  */
-export async function getPartnerStats(partnerId: string): Promise<{
-  totalEarned: number;
-  pendingPayout: number;
-  totalReferrals: number;
-  referralsThisMonth: number;
-  clicksThisMonth: number;
-  conversionRate: number;
-}> {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return getInMemoryPartnerStats(partnerId);
+export async function getPartnerStats(partnerId: string): Promise<PartnerStatsSummary> {
+  const { holdDays } = await getPayoutSettings();
+  const [stats, totals] = await Promise.all([
+    usePrisma()
+      ? getPrismaPartnerStats(partnerId, holdDays)
+      : getInMemoryPartnerStats(partnerId, holdDays),
+    getLedgerRepository().getTotalsByType(partnerId),
+  ]);
+  return applyLedgerBalances(stats, summarizeLedger(totals));
 }
 
 /**
  * Get leaderboard
  */
-export async function getLeaderboard(limit: number = 10): Promise<Array<{
-  partnerId: string;
-  partnerName: string;
-  tier: PartnerTier;
-  totalEarned: number;
-  referralsThisMonth: number;
-  rank: number;
-}>> {
-  if (features.hasDatabase) {
-    console.warn('[Repo] Database configured but Prisma not available, using in-memory');
-  }
-  
-  return getInMemoryLeaderboard(limit);
+export async function getLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
+  return usePrisma() ? getPrismaLeaderboard(limit) : getInMemoryLeaderboard(limit);
 }
 
 // ============================================
@@ -139,7 +326,7 @@ export async function getLeaderboard(limit: number = 10): Promise<Array<{
  * Seeds in-memory store in development mode
  */
 export function initializeDataLayer(): void {
-  if (!features.hasDatabase) {
+  if (!usePrisma()) {
     seedStore();
     console.log('[DataLayer] Initialized with in-memory store');
   } else {
@@ -161,6 +348,33 @@ export type {
   PartnerRepository,
   CampaignRepository,
   ReferralRepository,
+  ClickEventRepository,
   PayoutRepository,
   NotificationRepository,
+  PushSubscriptionRepository,
+  PartnerEventRepository,
+  MilestoneRepository,
+  CommissionRuleRepository,
+  TierChangeRepository,
+  ProgramSettingRepository,
+  BalanceAdjustmentRepository,
+  LedgerRepository,
+  LedgerQuery,
+  PayoutRunRepository,
+  WebhookEndpointRepository,
+  WebhookDeliveryRepository,
+  ApiKeyRepository,
+  AuditLogRepository,
+  AuditLogFilter,
+  PartnerApplicationRepository,
+  InviteCodeRepository,
+  InviteCodeRedemptionRepository,
+  OverrideCommissionRepository,
+  DailyRollupRepository,
+  ExperimentRepository,
+  ExperimentResultRepository,
+  ExperimentAllocationRepository,
+  ConversionTotals,
+  PartnerStatsSummary,
+  LeaderboardEntry,
 } from './data-store';
@@ -0,0 +1,282 @@
+/**
+ * Rollup Service
+ * Keeps daily rollups up to date and serves dashboards from them
+ *
+ * Clicks, signups and conversions increment their rollup as they are
+ * ingested; a failure there is logged and never fails the ingestion.
+ * Rebuilds recompute rollups from raw events to repair any drift.
+ */
+
+import {
+  getCampaignRepository,
+  getClickEventRepository,
+  getDailyRollupRepository,
+  getPartnerRepository,
+  getReferralRepository,
+} from './repositories';
+import { addDays, getDayKey, resolveTimeZone, startOfDay } from './analytics';
+import {
+  buildDailyRollups,
+  buildDailySeries,
+  conversionMetrics,
+  getLeaderboardSinceDay,
+  getRollupSource,
+  sumRollups,
+  sumRollupsBy,
+  type DailyRollupTotals,
+  type LeaderboardPeriod,
+  type RollupMetrics,
+} from './rollups';
+import { logger } from './monitoring';
+import type { Campaign, ClickEvent, Partner, PartnerTier, Referral } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RollupRebuildSummary {
+  partners: number;
+  rollups: number;
+  failed: number;
+}
+
+export interface RollupLeaderboardEntry {
+  rank: number;
+  partnerId: string;
+  partnerName: string;
+  tier: PartnerTier;
+  referrals: number;
+  earnings: number;
+}
+
+export interface ProgramRollupSummary {
+  total: RollupMetrics;
+  last30Days: RollupMetrics;
+  daily: DailyRollupTotals[]; // last 30 days, oldest first
+}
+
+const PAGE_SIZE = 100;
+
+// Most campaigns a partner's activity is attributed to
+const MAX_CAMPAIGNS = 500;
+
+const SUMMARY_DAYS = 30;
+
+// ============================================
+// Recording
+// ============================================
+
+async function getRollupContext(
+  partnerId: string,
+  campaignId: string | null | undefined
+): Promise<{ timeZone: string; campaign: Campaign | null }> {
+  const [partner, campaign] = await Promise.all([
+    getPartnerRepository().findById(partnerId),
+    campaignId ? getCampaignRepository().findById(campaignId) : null,
+  ]);
+  return { timeZone: resolveTimeZone(partner?.timezone), campaign };
+}
+
+async function incrementRollup(
+  event: { partnerId: string; campaignId?: string | null },
+  occurredAt: Date,
+  metrics: (context: { day: string; timeZone: string }) => Promise<Partial<RollupMetrics>> | Partial<RollupMetrics>
+): Promise<void> {
+  const { timeZone, campaign } = await getRollupContext(event.partnerId, event.campaignId);
+  const day = getDayKey(occurredAt, timeZone);
+
+  await getDailyRollupRepository().increment(
+    {
+      day,
+      partnerId: event.partnerId,
+      campaignId: event.campaignId ?? null,
+      source: getRollupSource(campaign),
+    },
+    await metrics({ day, timeZone })
+  );
+}
+
+/**
+ * Add a click to its rollup
+ * It is unique when the visitor has not clicked the same link earlier that day
+ */
+export async function recordClickRollup(click: ClickEvent): Promise<void> {
+  try {
+    await incrementRollup(click, click.createdAt, async ({ day, timeZone }) => {
+      const earlier = await getClickEventRepository().countByPartnerId(click.partnerId, {
+        campaignId: click.campaignId ?? null,
+        ipHash: click.ipHash,
+        since: startOfDay(day, timeZone),
+        until: click.createdAt,
+      });
+      return { clicks: 1, uniqueClicks: earlier === 0 ? 1 : 0 };
+    });
+  } catch (error) {
+    logger.error('[RollupService] Failed to record click rollup', error, {
+      clickId: click.id,
+      partnerId: click.partnerId,
+    });
+  }
+}
+
+/**
+ * Add a new referral to the signups of the day it was created
+ */
+export async function recordSignupRollup(referral: Referral): Promise<void> {
+  try {
+    await incrementRollup(referral, referral.createdAt, () => ({ signups: 1 }));
+  } catch (error) {
+    logger.error('[RollupService] Failed to record signup rollup', error, {
+      referralId: referral.id,
+      partnerId: referral.partnerId,
+    });
+  }
+}
+
+/**
+ * Add a conversion to the day it converted, or take a reversed one away
+ */
+export async function recordConversionRollup(referral: Referral, direction: 1 | -1 = 1): Promise<void> {
+  try {
+    await incrementRollup(referral, referral.convertedAt ?? referral.createdAt, () =>
+      conversionMetrics(referral, direction)
+    );
+  } catch (error) {
+    logger.error('[RollupService] Failed to record conversion rollup', error, {
+      referralId: referral.id,
+      partnerId: referral.partnerId,
+      direction,
+    });
+  }
+}
+
+// ============================================
+// Rebuild
+// ============================================
+
+async function loadAll<T>(load: (page: { limit: number; offset: number }) => Promise<T[]>): Promise<T[]> {
+  const items: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await load({ limit: PAGE_SIZE, offset });
+    items.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return items;
+}
+
+/**
+ * Recompute one partner's rollups from raw clicks and referrals
+ * With `since`, only days from then on (in the partner's time zone) are replaced
+ */
+export async function rebuildPartnerRollups(
+  partner: Pick<Partner, 'id' | 'timezone'>,
+  options: { since?: Date; now?: Date } = {}
+): Promise<number> {
+  const timeZone = resolveTimeZone(partner.timezone);
+  const sinceDay = options.since ? getDayKey(options.since, timeZone) : undefined;
+  const since = sinceDay ? startOfDay(sinceDay, timeZone) : new Date(0);
+  const until = options.now ?? new Date();
+
+  const [clicks, referrals, campaigns] = await Promise.all([
+    loadAll(page => getClickEventRepository().findByPartnerId(partner.id, { since, until, ...page })),
+    loadAll(page => getReferralRepository().findInRange(partner.id, { since, until, ...page })),
+    getCampaignRepository().findByPartnerId(partner.id, { limit: MAX_CAMPAIGNS }),
+  ]);
+
+  const rollups = buildDailyRollups(partner.id, timeZone, { clicks, referrals, campaigns }, sinceDay);
+  return getDailyRollupRepository().replaceForPartner(partner.id, rollups, { since: sinceDay });
+}
+
+/**
+ * Rebuild rollups for one partner, or every partner
+ * A failure for one partner is logged and does not stop the run
+ */
+export async function rebuildRollups(
+  options: { partnerId?: string; since?: Date; now?: Date } = {}
+): Promise<RollupRebuildSummary> {
+  const partnerRepo = getPartnerRepository();
+  const summary: RollupRebuildSummary = { partners: 0, rollups: 0, failed: 0 };
+
+  const rebuild = async (partner: Partner) => {
+    try {
+      summary.rollups += await rebuildPartnerRollups(partner, options);
+      summary.partners++;
+    } catch (error) {
+      summary.failed++;
+      logger.error('[RollupService] Failed to rebuild partner rollups', error, {
+        partnerId: partner.id,
+      });
+    }
+  };
+
+  if (options.partnerId) {
+    const partner = await partnerRepo.findById(options.partnerId);
+    if (partner) await rebuild(partner);
+  } else {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const partners = await partnerRepo.findAll({ limit: PAGE_SIZE, offset });
+      for (const partner of partners) await rebuild(partner);
+      if (partners.length < PAGE_SIZE) break;
+    }
+  }
+
+  logger.info('[RollupService] Rollup rebuild complete', {
+    partnerId: options.partnerId,
+    since: options.since?.toISOString(),
+    ...summary,
+  });
+
+  return summary;
+}
+
+// ============================================
+// Dashboards
+// ============================================
+
+/**
+ * Active partners ranked by commission earned in a period
+ * Periods are calendar months and quarters in UTC
+ */
+export async function getRollupLeaderboard(
+  period: LeaderboardPeriod,
+  limit: number = 10,
+  now: Date = new Date()
+): Promise<RollupLeaderboardEntry[]> {
+  const since = getLeaderboardSinceDay(period, getDayKey(now, 'UTC'));
+  const [rollups, partners] = await Promise.all([
+    getDailyRollupRepository().findAll({ since }),
+    loadAll(page => getPartnerRepository().findAll({ status: 'ACTIVE', ...page })),
+  ]);
+  const byPartner = sumRollupsBy(rollups, r => r.partnerId);
+
+  return partners
+    .map(partner => {
+      const totals = byPartner.get(partner.id);
+      return {
+        partnerId: partner.id,
+        partnerName: partner.name,
+        tier: partner.tier,
+        referrals: totals?.signups ?? 0,
+        earnings: totals?.commissionCents ?? 0,
+      };
+    })
+    .sort((a, b) => b.earnings - a.earnings || b.referrals - a.referrals)
+    .slice(0, limit)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+/**
+ * Program-wide totals for the admin dashboard
+ */
+export async function getProgramRollupSummary(now: Date = new Date()): Promise<ProgramRollupSummary> {
+  const rollups = await getDailyRollupRepository().findAll();
+  const today = getDayKey(now, 'UTC');
+  const days = Array.from({ length: SUMMARY_DAYS }, (_, i) => addDays(today, i + 1 - SUMMARY_DAYS));
+  const firstDay = days[0] ?? today;
+
+  return {
+    total: sumRollups(rollups),
+    last30Days: sumRollups(rollups.filter(r => r.day >= firstDay)),
+    daily: buildDailySeries(rollups, days),
+  };
+}
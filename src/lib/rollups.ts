@@ -0,0 +1,219 @@
+/**
+ * Daily Rollups
+ * Per-partner, per-campaign and per-source daily activity totals
+ *
+ * Rollups are updated as clicks, signups and conversions are ingested, so
+ * dashboards never scan raw events. Days are in the partner's time zone.
+ * A rebuild recomputes them from the raw ClickEvent and Referral rows.
+ *
+ * This module is pure; rollups are maintained by rollup-service.ts.
+ */
+
+import { getDayKey } from './analytics';
+import type { Campaign, ClickEvent, DailyRollup, Referral, RollupSource } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DIRECT_ROLLUP_SOURCE: RollupSource = 'DIRECT';
+
+export const LEADERBOARD_PERIODS = ['monthly', 'quarterly', 'alltime'] as const;
+
+// ============================================
+// Types
+// ============================================
+
+export interface RollupDimensions {
+  day: string;
+  partnerId: string;
+  campaignId: string | null;
+  source: RollupSource;
+}
+
+export interface RollupMetrics {
+  clicks: number;
+  uniqueClicks: number;
+  signups: number;
+  conversions: number;
+  revenueCents: number;
+  commissionCents: number;
+}
+
+export type NewDailyRollup = RollupDimensions & RollupMetrics;
+
+export type RollupRow = Pick<DailyRollup, 'day' | 'partnerId' | 'campaignId' | 'source'> & RollupMetrics;
+
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export type DailyRollupTotals = { date: string } & RollupMetrics;
+
+type RollupClick = Pick<ClickEvent, 'campaignId' | 'ipHash' | 'createdAt'>;
+
+type RollupReferral = Pick<
+  Referral,
+  'campaignId' | 'status' | 'orderAmountCents' | 'commissionCents' | 'convertedAt' | 'createdAt'
+>;
+
+// ============================================
+// Dimensions & Metrics
+// ============================================
+
+/**
+ * Unique key of a rollup row
+ */
+export function dailyRollupKey(dimensions: RollupDimensions): string {
+  return [dimensions.day, dimensions.partnerId, dimensions.campaignId ?? '-', dimensions.source].join(':');
+}
+
+/**
+ * Rollup source of activity through a campaign, or DIRECT without one
+ */
+export function getRollupSource(campaign: Pick<Campaign, 'source'> | null | undefined): RollupSource {
+  return campaign?.source ?? DIRECT_ROLLUP_SOURCE;
+}
+
+export function emptyRollupMetrics(): RollupMetrics {
+  return { clicks: 0, uniqueClicks: 0, signups: 0, conversions: 0, revenueCents: 0, commissionCents: 0 };
+}
+
+/**
+ * Add metrics to a running total in place
+ */
+export function addRollupMetrics(target: RollupMetrics, delta: Partial<RollupMetrics>): RollupMetrics {
+  target.clicks += delta.clicks ?? 0;
+  target.uniqueClicks += delta.uniqueClicks ?? 0;
+  target.signups += delta.signups ?? 0;
+  target.conversions += delta.conversions ?? 0;
+  target.revenueCents += delta.revenueCents ?? 0;
+  target.commissionCents += delta.commissionCents ?? 0;
+  return target;
+}
+
+/**
+ * Total the metrics of several rollups
+ */
+export function sumRollups(rollups: Partial<RollupMetrics>[]): RollupMetrics {
+  return rollups.reduce<RollupMetrics>((total, rollup) => addRollupMetrics(total, rollup), emptyRollupMetrics());
+}
+
+/**
+ * Metrics a conversion adds to its day, or takes away when reversed
+ */
+export function conversionMetrics(
+  referral: Pick<Referral, 'orderAmountCents' | 'commissionCents'>,
+  direction: 1 | -1 = 1
+): Partial<RollupMetrics> {
+  return {
+    conversions: direction,
+    revenueCents: direction * referral.orderAmountCents,
+    commissionCents: direction * referral.commissionCents,
+  };
+}
+
+/**
+ * Whether a referral counts as a conversion (converted and not reversed)
+ */
+export function isConvertedReferral(
+  referral: Pick<Referral, 'status' | 'convertedAt'>
+): referral is Pick<Referral, 'status'> & { convertedAt: Date } {
+  return (referral.status === 'CONVERTED' || referral.status === 'PAID') && referral.convertedAt != null;
+}
+
+// ============================================
+// Rebuild
+// ============================================
+
+/**
+ * Recompute a partner's rollups from raw clicks and referrals
+ * With `sinceDay`, only days from then on are produced
+ */
+export function buildDailyRollups(
+  partnerId: string,
+  timeZone: string,
+  events: { clicks: RollupClick[]; referrals: RollupReferral[]; campaigns: Pick<Campaign, 'id' | 'source'>[] },
+  sinceDay?: string
+): NewDailyRollup[] {
+  const sources = new Map(events.campaigns.map(c => [c.id, c.source]));
+  const rollups = new Map<string, NewDailyRollup>();
+  const visitors = new Set<string>();
+
+  const rollupFor = (date: Date, campaignId: string | null | undefined): NewDailyRollup | null => {
+    const day = getDayKey(date, timeZone);
+    if (sinceDay && day < sinceDay) return null;
+
+    const dimensions: RollupDimensions = {
+      day,
+      partnerId,
+      campaignId: campaignId ?? null,
+      source: (campaignId && sources.get(campaignId)) || DIRECT_ROLLUP_SOURCE,
+    };
+    const key = dailyRollupKey(dimensions);
+
+    let rollup = rollups.get(key);
+    if (!rollup) {
+      rollup = { ...dimensions, ...emptyRollupMetrics() };
+      rollups.set(key, rollup);
+    }
+    return rollup;
+  };
+
+  for (const click of events.clicks) {
+    const rollup = rollupFor(click.createdAt, click.campaignId);
+    if (!rollup) continue;
+
+    rollup.clicks++;
+    const visitor = `${dailyRollupKey(rollup)}:${click.ipHash}`;
+    if (!visitors.has(visitor)) {
+      visitors.add(visitor);
+      rollup.uniqueClicks++;
+    }
+  }
+
+  for (const referral of events.referrals) {
+    const created = rollupFor(referral.createdAt, referral.campaignId);
+    if (created) created.signups++;
+
+    if (!isConvertedReferral(referral)) continue;
+    const converted = rollupFor(referral.convertedAt, referral.campaignId);
+    if (converted) addRollupMetrics(converted, conversionMetrics(referral));
+  }
+
+  return Array.from(rollups.values()).sort((a, b) => a.day.localeCompare(b.day));
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+/**
+ * Total rollups grouped by a key, such as partner or source
+ */
+export function sumRollupsBy<K>(rollups: RollupRow[], keyOf: (rollup: RollupRow) => K): Map<K, RollupMetrics> {
+  const totals = new Map<K, RollupMetrics>();
+  for (const rollup of rollups) {
+    const key = keyOf(rollup);
+    totals.set(key, addRollupMetrics(totals.get(key) ?? emptyRollupMetrics(), rollup));
+  }
+  return totals;
+}
+
+/**
+ * Totals for each of the given days, with empty days filled in
+ */
+export function buildDailySeries(rollups: RollupRow[], days: string[]): DailyRollupTotals[] {
+  const byDay = sumRollupsBy(rollups, r => r.day);
+  return days.map(date => ({ date, ...(byDay.get(date) ?? emptyRollupMetrics()) }));
+}
+
+/**
+ * First day of a leaderboard period, or undefined for all time
+ * Monthly and quarterly periods are calendar months and quarters
+ */
+export function getLeaderboardSinceDay(period: LeaderboardPeriod, today: string): string | undefined {
+  if (period === 'alltime') return undefined;
+  if (period === 'monthly') return `${today.slice(0, 7)}-01`;
+
+  const quarterStartMonth = Math.floor((Number(today.slice(5, 7)) - 1) / 3) * 3 + 1;
+  return `${today.slice(0, 4)}-${String(quarterStartMonth).padStart(2, '0')}-01`;
+}
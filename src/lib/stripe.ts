@@ -13,6 +13,12 @@ import { logger } from './monitoring';
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
 const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
 
+// Most objects read by one list call
+const MAX_LIST_RESULTS = 1000;
+
+// Stripe errors that may succeed when the request is repeated
+const RETRYABLE_ERROR_TYPES = new Set(['StripeConnectionError', 'StripeAPIError', 'StripeRateLimitError']);
+
 // Check if Stripe is configured
 export const isStripeConfigured = Boolean(STRIPE_SECRET_KEY);
 export const hasWebhookSecret = Boolean(STRIPE_WEBHOOK_SECRET);
@@ -52,6 +58,13 @@ export function getWebhookSecret(): string | null {
   return STRIPE_WEBHOOK_SECRET || null;
 }
 
+/**
+ * Whether a Stripe request failed for a transient reason
+ */
+export function isRetryableStripeError(error: unknown): boolean {
+  return error instanceof Stripe.errors.StripeError && RETRYABLE_ERROR_TYPES.has(error.type);
+}
+
 // ============================================
 // Stripe Connect Types
 // ============================================
@@ -75,6 +88,7 @@ export interface PayoutResult {
   currency?: string;
   arrivalDate?: Date;
   error?: string;
+  retryable?: boolean; // the failure was transient and the payout can be tried again
 }
 
 export interface TransferResult {
@@ -82,6 +96,37 @@ export interface TransferResult {
   transferId?: string;
   amount?: number;
   error?: string;
+  retryable?: boolean; // the failure was transient and the transfer can be tried again
+}
+
+export interface RequestOptions {
+  idempotencyKey?: string; // Stripe returns the first result for repeated keys
+}
+
+export type PayoutStep = 'transfer' | 'payout';
+
+export interface DateRange {
+  since: Date; // inclusive
+  until: Date; // exclusive
+}
+
+export interface StripeTransferRecord {
+  id: string;
+  amountCents: number;
+  destination: string | null;
+  payoutId: string | null; // our payout, from metadata
+  reversed: boolean;
+  createdAt: Date;
+}
+
+export interface StripePayoutRecord {
+  id: string;
+  accountId: string;
+  amountCents: number;
+  payoutId: string | null; // our payout, from metadata
+  status: string;
+  failureMessage: string | null;
+  createdAt: Date;
 }
 
 // ============================================
@@ -182,6 +227,23 @@ export async function createLoginLink(
   }
 }
 
+/**
+ * Connect account details from a Stripe account object
+ */
+export function toConnectAccountInfo(account: Stripe.Account): ConnectAccountInfo {
+  return {
+    accountId: account.id,
+    email: account.email || '',
+    chargesEnabled: account.charges_enabled,
+    payoutsEnabled: account.payouts_enabled,
+    detailsSubmitted: account.details_submitted,
+    onboardingComplete: account.details_submitted && account.payouts_enabled,
+    country: account.country || 'US',
+    defaultCurrency: account.default_currency || 'usd',
+    businessType: account.business_type || undefined,
+  };
+}
+
 /**
  * Get Connect account details
  */
@@ -209,19 +271,7 @@ export async function getConnectAccount(
   try {
     const account = await stripe.accounts.retrieve(accountId);
     
-    return {
-      account: {
-        accountId: account.id,
-        email: account.email || '',
-        chargesEnabled: account.charges_enabled,
-        payoutsEnabled: account.payouts_enabled,
-        detailsSubmitted: account.details_submitted,
-        onboardingComplete: account.details_submitted && account.payouts_enabled,
-        country: account.country || 'US',
-        defaultCurrency: account.default_currency || 'usd',
-        businessType: account.business_type || undefined,
-      },
-    };
+    return { account: toConnectAccountInfo(account) };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('[Stripe] Failed to retrieve account', error, { accountId });
@@ -233,6 +283,21 @@ export async function getConnectAccount(
 // Transfer & Payout Functions
 // ============================================
 
+/**
+ * Idempotency key for one step of sending a payout
+ * Repeating the step for the same payout never moves money twice
+ */
+export function getPayoutIdempotencyKey(payoutId: string, step: PayoutStep): string {
+  return `payout_${payoutId}_${step}`;
+}
+
+/**
+ * Our payout id from a Stripe object's metadata
+ */
+function getInternalPayoutId(metadata: Stripe.Metadata | null | undefined): string | null {
+  return metadata?.internalPayoutId ?? metadata?.payoutId ?? null;
+}
+
 /**
  * Transfer funds to a Connect account
  */
@@ -240,7 +305,8 @@ export async function createTransfer(
   accountId: string,
   amountCents: number,
   currency: string = 'usd',
-  metadata?: Record<string, string>
+  metadata?: Record<string, string>,
+  options: RequestOptions = {}
 ): Promise<TransferResult> {
   const stripe = getStripeClient();
   
@@ -257,12 +323,17 @@ export async function createTransfer(
   }
   
   try {
-    const transfer = await stripe.transfers.create({
-      amount: amountCents,
-      currency,
-      destination: accountId,
-      metadata,
-    });
+    const transfer = await stripe.transfers.create(
+      {
+        amount: amountCents,
+        currency,
+        destination: accountId,
+        metadata,
+      },
+      {
+        idempotencyKey: options.idempotencyKey,
+      }
+    );
     
     logger.info('[Stripe] Transfer created', {
       transferId: transfer.id,
@@ -278,7 +349,7 @@ export async function createTransfer(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('[Stripe] Transfer failed', error, { accountId, amount: amountCents });
-    return { success: false, error: message };
+    return { success: false, error: message, retryable: isRetryableStripeError(error) };
   }
 }
 
@@ -289,7 +360,8 @@ export async function createPayout(
   accountId: string,
   amountCents: number,
   currency: string = 'usd',
-  metadata?: Record<string, string>
+  metadata?: Record<string, string>,
+  options: RequestOptions = {}
 ): Promise<PayoutResult> {
   const stripe = getStripeClient();
   
@@ -322,6 +394,7 @@ export async function createPayout(
       },
       {
         stripeAccount: accountId,
+        idempotencyKey: options.idempotencyKey,
       }
     );
     
@@ -341,7 +414,7 @@ export async function createPayout(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('[Stripe] Payout failed', error, { accountId, amount: amountCents });
-    return { success: false, error: message };
+    return { success: false, error: message, retryable: isRetryableStripeError(error) };
   }
 }
 
@@ -382,6 +455,111 @@ export async function getPayout(
   }
 }
 
+/**
+ * List transfers created in a date range
+ */
+export async function listTransfers(
+  range: DateRange
+): Promise<{ transfers: StripeTransferRecord[]; error?: string }> {
+  const stripe = getStripeClient();
+  
+  if (!stripe) {
+    return { transfers: [], error: 'Stripe not configured' };
+  }
+  
+  try {
+    const transfers = await stripe.transfers
+      .list({ created: toCreatedFilter(range), limit: 100 })
+      .autoPagingToArray({ limit: MAX_LIST_RESULTS });
+    
+    return {
+      transfers: transfers.map(transfer => ({
+        id: transfer.id,
+        amountCents: transfer.amount,
+        destination: typeof transfer.destination === 'string'
+          ? transfer.destination
+          : transfer.destination?.id ?? null,
+        payoutId: getInternalPayoutId(transfer.metadata),
+        reversed: transfer.reversed,
+        createdAt: new Date(transfer.created * 1000),
+      })),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('[Stripe] Failed to list transfers', error);
+    return { transfers: [], error: message };
+  }
+}
+
+/**
+ * List a Connect account's bank payouts created in a date range
+ */
+export async function listPayouts(
+  accountId: string,
+  range: DateRange
+): Promise<{ payouts: StripePayoutRecord[]; error?: string }> {
+  const stripe = getStripeClient();
+  
+  if (!stripe) {
+    return { payouts: [], error: 'Stripe not configured' };
+  }
+  
+  try {
+    const payouts = await stripe.payouts
+      .list({ created: toCreatedFilter(range), limit: 100 }, { stripeAccount: accountId })
+      .autoPagingToArray({ limit: MAX_LIST_RESULTS });
+    
+    return {
+      payouts: payouts.map(payout => ({
+        id: payout.id,
+        accountId,
+        amountCents: payout.amount,
+        payoutId: getInternalPayoutId(payout.metadata),
+        status: payout.status,
+        failureMessage: payout.failure_message ?? null,
+        createdAt: new Date(payout.created * 1000),
+      })),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('[Stripe] Failed to list payouts', error, { accountId });
+    return { payouts: [], error: message };
+  }
+}
+
+function toCreatedFilter(range: DateRange): { gte: number; lt: number } {
+  return {
+    gte: Math.floor(range.since.getTime() / 1000),
+    lt: Math.floor(range.until.getTime() / 1000),
+  };
+}
+
+// ============================================
+// Charge Functions
+// ============================================
+
+/**
+ * Get charge details (used to resolve disputes to their charge)
+ */
+export async function getCharge(
+  chargeId: string
+): Promise<{ charge: Stripe.Charge | null; error?: string }> {
+  const stripe = getStripeClient();
+
+  if (!stripe) {
+    return { charge: null, error: 'Stripe not configured' };
+  }
+
+  try {
+    const charge = await stripe.charges.retrieve(chargeId);
+    return { charge };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('[Stripe] Failed to retrieve charge', error, { chargeId });
+    return { charge: null, error: message };
+  }
+}
+
 // ============================================
 // Balance Functions
 // ============================================
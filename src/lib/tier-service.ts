@@ -0,0 +1,261 @@
+/**
+ * Tier Service
+ * Applies tier evaluation to partners and records tier changes
+ *
+ * Every tier change, automatic or manual, is written to the tier
+ * history. Upgrades record a TIER_UPGRADE milestone; all changes
+ * notify the partner.
+ */
+
+import {
+  getMilestoneRepository,
+  getPartnerRepository,
+  getReferralRepository,
+  getTierChangeRepository,
+} from './repositories';
+import { getTierSettings } from './program-settings';
+import {
+  compareTiers,
+  evaluateTier,
+  formatTierName,
+  type TierDecisionAction,
+  type TierMetrics,
+  type TierSettings,
+} from './tiers';
+import { formatDate } from './utils';
+import { emitWebhookEvent } from './webhook-service';
+import { publishPartnerEvent } from './event-service';
+import { notifyPartner } from './notification-service';
+import { milestoneEventData, tierChangeEventData } from './webhooks';
+import { logger } from './monitoring';
+import type { Partner, PartnerTier, TierChange, TierChangeReason } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TierEvaluationResult {
+  partnerId: string;
+  action: TierDecisionAction;
+  fromTier: PartnerTier;
+  toTier: PartnerTier;
+  metrics: TierMetrics;
+}
+
+export interface TierEvaluationSummary {
+  evaluated: number;
+  upgraded: number;
+  downgraded: number;
+  gracePeriodStarted: number;
+  failed: number;
+  changes: TierEvaluationResult[];
+}
+
+const PAGE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Metrics
+// ============================================
+
+/**
+ * Get a partner's conversions and revenue over the rolling window
+ */
+export async function getTierMetrics(
+  partnerId: string,
+  settings: Pick<TierSettings, 'windowDays'>,
+  now: Date = new Date()
+): Promise<TierMetrics> {
+  return getReferralRepository().getConversionTotals(partnerId, {
+    since: new Date(now.getTime() - settings.windowDays * DAY_MS),
+    until: now,
+  });
+}
+
+// ============================================
+// Tier Changes
+// ============================================
+
+/**
+ * Move a partner to a new tier
+ * Clears any grace period, records history and notifies the partner
+ */
+export async function changePartnerTier(
+  partner: Partner,
+  toTier: PartnerTier,
+  options: { reason: TierChangeReason; metrics: TierMetrics; changedBy?: string | null }
+): Promise<TierChange | null> {
+  if (partner.tier === toTier) return null;
+
+  await getPartnerRepository().update(partner.id, { tier: toTier, tierGraceStartedAt: null });
+
+  const change = await getTierChangeRepository().create({
+    partnerId: partner.id,
+    fromTier: partner.tier,
+    toTier,
+    reason: options.reason,
+    conversions: options.metrics.conversions,
+    revenueCents: options.metrics.revenueCents,
+    changedBy: options.changedBy ?? null,
+  });
+
+  logger.info('[TierService] Partner tier changed', {
+    partnerId: partner.id,
+    fromTier: partner.tier,
+    toTier,
+    reason: options.reason,
+  });
+
+  await notifyTierChange(partner, toTier);
+  await emitWebhookEvent('partner.tier_changed', partner.id, tierChangeEventData(change));
+
+  return change;
+}
+
+/**
+ * Record the milestone and notification for a tier change
+ * Failures are logged but never undo the change
+ */
+async function notifyTierChange(partner: Partner, toTier: PartnerTier): Promise<void> {
+  const name = formatTierName(toTier);
+
+  try {
+    if (compareTiers(toTier, partner.tier) > 0) {
+      const milestone = await getMilestoneRepository().upsert({
+        partnerId: partner.id,
+        type: 'TIER_UPGRADE',
+        title: `${name} Partner!`,
+        description: `You've been upgraded to ${name} tier`,
+        celebrationShown: false,
+        achievedAt: new Date(),
+      });
+      await emitWebhookEvent('milestone.achieved', partner.id, milestoneEventData(milestone));
+      await publishPartnerEvent(partner.id, 'milestone', milestoneEventData(milestone));
+
+      await notifyPartner({
+        partnerId: partner.id,
+        type: 'MILESTONE',
+        title: 'Tier Upgrade!',
+        message: `You've been upgraded to ${name} tier`,
+        link: '/dashboard',
+      });
+    } else {
+      await notifyPartner({
+        partnerId: partner.id,
+        type: 'SYSTEM',
+        title: 'Tier Update',
+        message: `Your partner tier is now ${name}`,
+        link: '/dashboard',
+      });
+    }
+  } catch (error) {
+    logger.error('[TierService] Failed to send tier change notifications', error, {
+      partnerId: partner.id,
+      toTier,
+    });
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Evaluate one partner and apply the decision
+ */
+export async function evaluatePartnerTier(
+  partner: Partner,
+  settings: TierSettings,
+  now: Date = new Date()
+): Promise<TierEvaluationResult> {
+  const metrics = await getTierMetrics(partner.id, settings, now);
+  const decision = evaluateTier(partner, metrics, settings, now);
+  const partnerRepo = getPartnerRepository();
+
+  switch (decision.action) {
+    case 'UPGRADE':
+    case 'DOWNGRADE':
+      await changePartnerTier(partner, decision.qualifiedTier, { reason: 'AUTOMATIC', metrics });
+      break;
+
+    case 'GRACE_STARTED':
+      await partnerRepo.update(partner.id, { tierGraceStartedAt: now });
+      await notifyPartner({
+        partnerId: partner.id,
+        type: 'SYSTEM',
+        title: 'Tier at Risk',
+        message: `Meet the ${formatTierName(partner.tier)} requirements by ${formatDate(decision.graceEndsAt ?? now)} to keep your tier`,
+        link: '/dashboard',
+      });
+      break;
+
+    case 'GRACE_CLEARED':
+      await partnerRepo.update(partner.id, { tierGraceStartedAt: null });
+      break;
+
+    case 'NONE':
+      break;
+  }
+
+  return {
+    partnerId: partner.id,
+    action: decision.action,
+    fromTier: partner.tier,
+    toTier: decision.action === 'UPGRADE' || decision.action === 'DOWNGRADE'
+      ? decision.qualifiedTier
+      : partner.tier,
+    metrics,
+  };
+}
+
+/**
+ * Evaluate every active partner
+ * A failure for one partner is logged and does not stop the run
+ */
+export async function runTierEvaluation(now: Date = new Date()): Promise<TierEvaluationSummary> {
+  const settings = await getTierSettings();
+  const partnerRepo = getPartnerRepository();
+
+  const summary: TierEvaluationSummary = {
+    evaluated: 0,
+    upgraded: 0,
+    downgraded: 0,
+    gracePeriodStarted: 0,
+    failed: 0,
+    changes: [],
+  };
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const partners = await partnerRepo.findAll({ status: 'ACTIVE', limit: PAGE_SIZE, offset });
+
+    for (const partner of partners) {
+      try {
+        const result = await evaluatePartnerTier(partner, settings, now);
+        summary.evaluated++;
+
+        if (result.action === 'UPGRADE') summary.upgraded++;
+        if (result.action === 'DOWNGRADE') summary.downgraded++;
+        if (result.action === 'GRACE_STARTED') summary.gracePeriodStarted++;
+        if (result.action !== 'NONE') summary.changes.push(result);
+      } catch (error) {
+        summary.failed++;
+        logger.error('[TierService] Failed to evaluate partner tier', error, {
+          partnerId: partner.id,
+        });
+      }
+    }
+
+    if (partners.length < PAGE_SIZE) break;
+  }
+
+  logger.info('[TierService] Tier evaluation complete', {
+    evaluated: summary.evaluated,
+    upgraded: summary.upgraded,
+    downgraded: summary.downgraded,
+    gracePeriodStarted: summary.gracePeriodStarted,
+    failed: summary.failed,
+  });
+
+  return summary;
+}
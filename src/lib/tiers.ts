@@ -0,0 +1,168 @@
+/**
+ * Partner Tier Rules
+ * Decides a partner's tier from rolling conversions and revenue
+ *
+ * Upgrades apply as soon as a partner qualifies. A partner who falls
+ * below their tier enters a grace period and is only demoted if they
+ * still fall short when it ends.
+ *
+ * This module is pure; tier changes are applied by tier-service.ts.
+ */
+
+import { z } from 'zod';
+import type { PartnerTier } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Lowest to highest
+export const TIER_ORDER: PartnerTier[] = ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface TierRequirement {
+  tier: PartnerTier;
+  minConversions: number;
+  minRevenueCents: number;
+}
+
+export interface TierSettings {
+  requirements: TierRequirement[];
+  windowDays: number; // rolling window the requirements are measured over
+  gracePeriodDays: number; // time below requirements before demotion
+}
+
+export interface TierMetrics {
+  conversions: number;
+  revenueCents: number;
+}
+
+export type TierDecisionAction =
+  | 'UPGRADE'
+  | 'DOWNGRADE'
+  | 'GRACE_STARTED'
+  | 'GRACE_CLEARED'
+  | 'NONE';
+
+export interface TierDecision {
+  action: TierDecisionAction;
+  currentTier: PartnerTier;
+  qualifiedTier: PartnerTier;
+  graceEndsAt: Date | null; // set while the partner is in a grace period
+}
+
+// ============================================
+// Settings
+// ============================================
+
+// Used until an admin saves tier settings
+export const DEFAULT_TIER_SETTINGS: TierSettings = {
+  requirements: [
+    { tier: 'STANDARD', minConversions: 0, minRevenueCents: 0 },
+    { tier: 'SILVER', minConversions: 10, minRevenueCents: 500000 },
+    { tier: 'GOLD', minConversions: 50, minRevenueCents: 2500000 },
+    { tier: 'PLATINUM', minConversions: 100, minRevenueCents: 5000000 },
+  ],
+  windowDays: 90,
+  gracePeriodDays: 30,
+};
+
+export const tierSettingsSchema = z.object({
+  requirements: z.array(z.object({
+    tier: z.enum(['STANDARD', 'SILVER', 'GOLD', 'PLATINUM']),
+    minConversions: z.number().int().nonnegative(),
+    minRevenueCents: z.number().int().nonnegative(),
+  })).min(1),
+  windowDays: z.number().int().min(1).max(365),
+  gracePeriodDays: z.number().int().min(0).max(365),
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Compare two tiers; positive when `a` is higher
+ */
+export function compareTiers(a: PartnerTier, b: PartnerTier): number {
+  return TIER_ORDER.indexOf(a) - TIER_ORDER.indexOf(b);
+}
+
+/**
+ * Display name for a tier, e.g. "Gold"
+ */
+export function formatTierName(tier: PartnerTier): string {
+  return `${tier.charAt(0)}${tier.slice(1).toLowerCase()}`;
+}
+
+/**
+ * Check whether metrics meet a tier's requirements
+ */
+export function meetsRequirement(metrics: TierMetrics, requirement: TierRequirement): boolean {
+  return (
+    metrics.conversions >= requirement.minConversions &&
+    metrics.revenueCents >= requirement.minRevenueCents
+  );
+}
+
+/**
+ * Get the highest tier the metrics qualify for
+ * Tiers without a configured requirement are never awarded, except STANDARD
+ */
+export function getQualifyingTier(
+  metrics: TierMetrics,
+  requirements: TierRequirement[]
+): PartnerTier {
+  for (const tier of [...TIER_ORDER].reverse()) {
+    const requirement = requirements.find(r => r.tier === tier);
+    if (requirement && meetsRequirement(metrics, requirement)) {
+      return tier;
+    }
+  }
+  return 'STANDARD';
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Decide what should happen to a partner's tier
+ */
+export function evaluateTier(
+  partner: { tier: PartnerTier; tierGraceStartedAt?: Date | null },
+  metrics: TierMetrics,
+  settings: Pick<TierSettings, 'requirements' | 'gracePeriodDays'>,
+  now: Date = new Date()
+): TierDecision {
+  const currentTier = partner.tier;
+  const qualifiedTier = getQualifyingTier(metrics, settings.requirements);
+  const comparison = compareTiers(qualifiedTier, currentTier);
+  const decision = { currentTier, qualifiedTier, graceEndsAt: null };
+
+  if (comparison > 0) {
+    return { ...decision, action: 'UPGRADE' };
+  }
+
+  if (comparison === 0) {
+    return { ...decision, action: partner.tierGraceStartedAt ? 'GRACE_CLEARED' : 'NONE' };
+  }
+
+  const graceStartedAt = partner.tierGraceStartedAt ?? now;
+  const graceEndsAt = new Date(graceStartedAt.getTime() + settings.gracePeriodDays * DAY_MS);
+
+  if (now >= graceEndsAt) {
+    return { ...decision, action: 'DOWNGRADE' };
+  }
+
+  return {
+    ...decision,
+    action: partner.tierGraceStartedAt ? 'NONE' : 'GRACE_STARTED',
+    graceEndsAt,
+  };
+}
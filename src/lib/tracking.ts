@@ -0,0 +1,256 @@
+/**
+ * Referral Tracking
+ * Click logging and attribution for /r/[code] referral links
+ *
+ * Flow:
+ * 1. Visitor opens /r/{referralCode}?c={campaignSlug}
+ * 2. A ClickEvent is written (IP is hashed, never stored raw)
+ * 3. Campaign click stats are incremented
+ * 4. A signed attribution cookie is set and the visitor is redirected
+ *
+ * The cookie carries a visitor id that is kept across clicks, so a
+ * customer's clicks can be joined into a touchpoint path on conversion,
+ * and the share template experiment variant the link came from, if any.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getCampaignRepository, getClickEventRepository } from './repositories';
+import { recordClickRollup } from './rollup-service';
+import { formatExperimentParam, parseExperimentParam, type ExperimentRef } from './experiments';
+import { logger } from './monitoring';
+import type { Campaign, ClickEvent, Partner } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://innercircle.co';
+
+// Where referral links send visitors (defaults to the app home page)
+const REFERRAL_DESTINATION_URL = process.env.REFERRAL_DESTINATION_URL || APP_URL;
+
+// Secret used to salt IP hashes and sign attribution tokens
+const TRACKING_SECRET = process.env.TRACKING_SECRET || 'inner-circle-dev-tracking-secret';
+
+// Attribution window (30 days)
+export const ATTRIBUTION_WINDOW_DAYS = 30;
+
+export const ATTRIBUTION_COOKIE_NAME = 'ic_attribution';
+
+// Query parameter carrying the token to the destination site
+export const ATTRIBUTION_PARAM = 'ic_attr';
+
+// ============================================
+// Types
+// ============================================
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot' | 'unknown';
+
+export interface AttributionPayload {
+  partnerId: string;
+  campaignId: string | null;
+  clickId: string | null;
+  clickedAt: Date;
+  visitorId?: string | null;
+  experiment?: ExperimentRef | null; // share template variant the link came from
+}
+
+export interface ClickContext {
+  ip: string;
+  visitorId?: string | null;
+  userAgent?: string | null;
+  referer?: string | null;
+  country?: string | null;
+  city?: string | null;
+}
+
+// ============================================
+// Hashing & Device Detection
+// ============================================
+
+/**
+ * Hash an IP address with the tracking secret
+ * Raw IPs are never persisted
+ */
+export function hashIpAddress(ip: string): string {
+  return createHash('sha256')
+    .update(`${TRACKING_SECRET}:${ip}`)
+    .digest('hex');
+}
+
+/**
+ * Hash a customer email for referral deduplication
+ * Emails are normalized so casing and whitespace don't create duplicates
+ */
+export function hashCustomerEmail(email: string): string {
+  return createHash('sha256')
+    .update(`${TRACKING_SECRET}:${email.trim().toLowerCase()}`)
+    .digest('hex');
+}
+
+/**
+ * Classify a user agent into a coarse device type
+ */
+export function detectDevice(userAgent?: string | null): DeviceType {
+  if (!userAgent) return 'unknown';
+
+  if (/bot|crawler|spider|slurp|facebookexternalhit|linkedinbot|twitterbot|whatsapp|preview/i.test(userAgent)) {
+    return 'bot';
+  }
+  if (/iPad|Tablet|PlayBook|Silk|(Android(?!.*Mobile))/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
+
+/**
+ * Random id for a new visitor's attribution cookie
+ */
+export function generateVisitorId(): string {
+  return `v_${randomBytes(12).toString('base64url')}`;
+}
+
+// ============================================
+// Attribution Tokens
+// ============================================
+
+function sign(value: string): string {
+  return createHmac('sha256', TRACKING_SECRET).update(value).digest('base64url');
+}
+
+/**
+ * Create a signed attribution token for the attribution cookie
+ */
+export function createAttributionToken(payload: AttributionPayload): string {
+  const body = Buffer.from(JSON.stringify({
+    p: payload.partnerId,
+    c: payload.campaignId,
+    k: payload.clickId,
+    t: payload.clickedAt.getTime(),
+    ...(payload.visitorId && { v: payload.visitorId }),
+    ...(payload.experiment && { x: formatExperimentParam(payload.experiment) }),
+  })).toString('base64url');
+
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Verify and decode an attribution token
+ * Returns null if the signature is invalid or the token has expired
+ */
+export function parseAttributionToken(
+  token: string,
+  now: Date = new Date()
+): AttributionPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as {
+      p?: unknown;
+      c?: unknown;
+      k?: unknown;
+      t?: unknown;
+      v?: unknown;
+      x?: unknown;
+    };
+
+    if (typeof decoded.p !== 'string' || typeof decoded.t !== 'number') {
+      return null;
+    }
+
+    const clickedAt = new Date(decoded.t);
+    const expiresAt = clickedAt.getTime() + ATTRIBUTION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    if (now.getTime() > expiresAt) {
+      return null;
+    }
+
+    return {
+      partnerId: decoded.p,
+      campaignId: typeof decoded.c === 'string' ? decoded.c : null,
+      clickId: typeof decoded.k === 'string' ? decoded.k : null,
+      clickedAt,
+      ...(typeof decoded.v === 'string' && { visitorId: decoded.v }),
+      ...(typeof decoded.x === 'string' && { experiment: parseExperimentParam(decoded.x) }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Redirect Destination
+// ============================================
+
+/**
+ * Build the URL a referral link redirects to
+ * Passes the referral code and any utm_* parameters through
+ */
+export function getReferralDestination(
+  referralCode: string | null,
+  searchParams?: URLSearchParams
+): URL {
+  const url = new URL(REFERRAL_DESTINATION_URL);
+
+  if (referralCode) {
+    url.searchParams.set('ref', referralCode);
+  }
+
+  searchParams?.forEach((value, key) => {
+    if (key.startsWith('utm_')) {
+      url.searchParams.set(key, value);
+    }
+  });
+
+  return url;
+}
+
+// ============================================
+// Click Recording
+// ============================================
+
+/**
+ * Record a referral link click
+ * Writes a ClickEvent and increments the campaign's click count and daily rollup
+ */
+export async function recordReferralClick(
+  partner: Pick<Partner, 'id'>,
+  campaign: Pick<Campaign, 'id'> | null,
+  context: ClickContext
+): Promise<ClickEvent> {
+  const clickRepo = getClickEventRepository();
+
+  const clickEvent = await clickRepo.create({
+    partnerId: partner.id,
+    campaignId: campaign?.id ?? null,
+    ipHash: hashIpAddress(context.ip),
+    visitorId: context.visitorId ?? null,
+    userAgent: context.userAgent ?? null,
+    referer: context.referer ?? null,
+    country: context.country ?? null,
+    city: context.city ?? null,
+    device: detectDevice(context.userAgent),
+  });
+
+  if (campaign) {
+    await getCampaignRepository().incrementStats(campaign.id, { clicks: 1 });
+  }
+  await recordClickRollup(clickEvent);
+
+  logger.debug('[Tracking] Referral click recorded', {
+    clickId: clickEvent.id,
+    partnerId: partner.id,
+    campaignId: campaign?.id,
+  });
+
+  return clickEvent;
+}
@@ -0,0 +1,314 @@
+/**
+ * Web Push
+ * VAPID request signing and payload encryption for browser push services
+ *
+ * A browser subscription names a push service endpoint plus the browser's
+ * P-256 public key (p256dh) and auth secret. Each message is encrypted to
+ * that key with aes128gcm content coding (RFC 8291) and sent with a VAPID
+ * JWT (RFC 8292) signed by the application server key, so the push service
+ * can tell the sender is the one the browser subscribed with.
+ *
+ * This module is pure; subscriptions are stored and messages sent by push-service.ts.
+ */
+
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type ECDH,
+} from 'crypto';
+import { z } from 'zod';
+import type { Notification, NotificationPreferences, NotificationType } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Notification types delivered as push messages
+export const PUSH_NOTIFICATION_TYPES: NotificationType[] = ['CONVERSION', 'PAYOUT', 'MILESTONE'];
+
+// Seconds a push service keeps an undelivered message
+export const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// VAPID tokens may be valid for at most 24 hours
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+// One aes128gcm record; push services accept bodies up to 4096 bytes
+const RECORD_SIZE = 4096;
+const SALT_LENGTH = 16;
+const PUBLIC_KEY_LENGTH = 65; // uncompressed P-256 point
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = SALT_LENGTH + 4 + 1 + PUBLIC_KEY_LENGTH;
+
+// Largest plaintext that fits a 4096 byte body with its header, padding delimiter and tag
+export const MAX_PUSH_PAYLOAD_BYTES = RECORD_SIZE - HEADER_LENGTH - 1 - TAG_LENGTH;
+
+// ============================================
+// Types
+// ============================================
+
+// Application server key pair (base64url) and contact URI
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  notificationId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface PushRequest {
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+// Push services browsers subscribe through: Chrome (FCM), Firefox,
+// Safari and Edge (WNS, one host per region)
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com', 'web.push.apple.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.notify.windows.com'];
+
+/**
+ * Whether an endpoint belongs to a known browser push service
+ * Push messages are sent from the server, so other hosts are refused
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port !== '') return false;
+  return PUSH_SERVICE_HOSTS.includes(url.hostname)
+    || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => url.hostname.endsWith(suffix));
+}
+
+// The JSON a browser PushSubscription serializes to
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(700).refine(
+    isPushServiceEndpoint,
+    'Push endpoint must be a known push service'
+  ),
+  keys: z.object({
+    p256dh: z.string().regex(/^[A-Za-z0-9_-]{86,88}={0,2}$/, 'Invalid p256dh key'),
+    auth: z.string().regex(/^[A-Za-z0-9_-]{22,24}={0,2}$/, 'Invalid auth secret'),
+  }),
+});
+
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
+
+// ============================================
+// Delivery Rules
+// ============================================
+
+/**
+ * Whether a partner's preferences allow a push message for a notification type
+ * Partners without saved preferences receive every push type
+ */
+export function acceptsPush(
+  preferences: NotificationPreferences | null | undefined,
+  type: NotificationType
+): boolean {
+  if (!PUSH_NOTIFICATION_TYPES.includes(type)) return false;
+  return preferences?.push !== false && preferences?.types[type] !== false;
+}
+
+/**
+ * The push service no longer knows the subscription and it should be removed
+ */
+export function isSubscriptionGone(status: number): boolean {
+  return status === 404 || status === 410;
+}
+
+export function buildPushPayload(notification: Notification): PushPayload {
+  return {
+    notificationId: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.message,
+    url: notification.link ?? '/dashboard',
+  };
+}
+
+// ============================================
+// VAPID
+// ============================================
+
+/**
+ * Generate an application server key pair
+ */
+export function generateVapidKeys(): Pick<VapidKeys, 'publicKey' | 'privateKey'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: padKey(ecdh.getPrivateKey()).toString('base64url'),
+  };
+}
+
+/**
+ * Signed ES256 JWT for a push service origin
+ */
+export function createVapidToken(audience: string, keys: VapidKeys, now: Date = new Date()): string {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  if (publicKey.length !== PUBLIC_KEY_LENGTH || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33).toString('base64url'),
+      d: padKey(Buffer.from(keys.privateKey, 'base64url')).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const header = encodeJson({ typ: 'JWT', alg: 'ES256' });
+  const claims = encodeJson({
+    aud: audience,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: keys.subject,
+  });
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${header}.${claims}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Authorization header value for a subscription endpoint
+ */
+export function vapidAuthorization(endpoint: string, keys: VapidKeys, now: Date = new Date()): string {
+  const token = createVapidToken(new URL(endpoint).origin, keys, now);
+  return `vapid t=${token}, k=${keys.publicKey}`;
+}
+
+// ============================================
+// Encryption
+// ============================================
+
+/**
+ * Encrypt a payload to a subscription (aes128gcm, single record)
+ * The salt and sender key are random unless given, which tests use
+ */
+export function encryptPushPayload(
+  payload: string,
+  target: Pick<PushTarget, 'p256dh' | 'auth'>,
+  options: { salt?: Buffer; senderKeys?: ECDH } = {}
+): Buffer {
+  const plaintext = Buffer.from(payload, 'utf8');
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(`Push payload exceeds ${MAX_PUSH_PAYLOAD_BYTES} bytes`);
+  }
+
+  const receiverKey = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+
+  const senderKeys = options.senderKeys ?? createECDH('prime256v1');
+  if (!options.senderKeys) senderKeys.generateKeys();
+  const senderKey = senderKeys.getPublicKey();
+  const salt = options.salt ?? randomBytes(SALT_LENGTH);
+
+  const { contentKey, nonce } = derivePushKeys(
+    senderKeys.computeSecret(receiverKey),
+    authSecret,
+    receiverKey,
+    senderKey,
+    salt
+  );
+
+  // A single final record ends with the 0x02 padding delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(HEADER_LENGTH);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, SALT_LENGTH);
+  header.writeUInt8(PUBLIC_KEY_LENGTH, SALT_LENGTH + 4);
+  senderKey.copy(header, SALT_LENGTH + 5);
+
+  return Buffer.concat([header, ciphertext]);
+}
+
+/**
+ * Content encryption key and nonce shared by the sender and the browser
+ */
+export function derivePushKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  receiverKey: Buffer,
+  senderKey: Buffer,
+  salt: Buffer
+): { contentKey: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  return {
+    contentKey: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)),
+  };
+}
+
+// ============================================
+// Requests
+// ============================================
+
+/**
+ * Headers and encrypted body for POSTing a payload to a subscription
+ */
+export function buildPushRequest(
+  target: PushTarget,
+  payload: PushPayload,
+  keys: VapidKeys,
+  options: { ttlSeconds?: number; now?: Date } = {}
+): PushRequest {
+  return {
+    headers: {
+      Authorization: vapidAuthorization(target.endpoint, keys, options.now),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds ?? DEFAULT_PUSH_TTL_SECONDS),
+    },
+    body: encryptPushPayload(JSON.stringify(payload), target),
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function encodeJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// ECDH private keys can come back shorter than 32 bytes
+function padKey(key: Buffer): Buffer {
+  return key.length >= 32 ? key : Buffer.concat([Buffer.alloc(32 - key.length), key]);
+}
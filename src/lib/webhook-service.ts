@@ -0,0 +1,334 @@
+/**
+ * Webhook Service
+ * Manages webhook endpoints and delivers program events to them
+ *
+ * Emitting an event only records a pending delivery per subscribed
+ * endpoint, so the action that raised it never waits on integrators. The
+ * webhook-deliveries job sends due deliveries and retries failures with
+ * backoff. Each delivery is claimed before it is sent, so overlapping job
+ * runs never send it twice. Emitting never throws, so events cannot fail
+ * the action.
+ */
+
+import {
+  getWebhookDeliveryRepository,
+  getWebhookEndpointRepository,
+} from './repositories';
+import {
+  endpointAcceptsEvent,
+  generateWebhookSecret,
+  nextDeliveryState,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks';
+import { generateRandomString } from './utils';
+import { logger } from './monitoring';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Endpoints loaded per page when fanning out an event
+const PAGE_SIZE = 100;
+
+// Slow endpoints are treated as failed and retried
+const DELIVERY_TIMEOUT_MS = 5000;
+
+// Deliveries sent per job run
+const SEND_BATCH_SIZE = 50;
+
+// A claimed delivery becomes due again after this if its job run dies
+// before recording the attempt; longer than any attempt can take
+const CLAIM_LEASE_MS = 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+  partnerId?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDeliverySummary {
+  attempted: number;
+  succeeded: number;
+  failed: number; // out of attempts
+}
+
+// ============================================
+// Endpoints
+// ============================================
+
+export async function listWebhookEndpoints(options?: {
+  partnerId?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<WebhookEndpoint[]> {
+  return getWebhookEndpointRepository().findAll(options);
+}
+
+export async function getWebhookEndpoint(id: string): Promise<WebhookEndpoint | null> {
+  return getWebhookEndpointRepository().findById(id);
+}
+
+/**
+ * Create an endpoint with a new signing secret
+ */
+export async function createWebhookEndpoint(input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+  const endpoint = await getWebhookEndpointRepository().create({
+    url: input.url,
+    description: input.description ?? null,
+    events: input.events,
+    partnerId: input.partnerId ?? null,
+    isActive: input.isActive ?? true,
+    secret: generateWebhookSecret(),
+  });
+
+  logger.info('[WebhookService] Endpoint created', {
+    endpointId: endpoint.id,
+    events: endpoint.events,
+  });
+
+  return endpoint;
+}
+
+/**
+ * Update an endpoint, optionally replacing its signing secret
+ */
+export async function updateWebhookEndpoint(
+  id: string,
+  input: Partial<WebhookEndpointInput> & { rotateSecret?: boolean }
+): Promise<WebhookEndpoint | null> {
+  const { rotateSecret, ...changes } = input;
+
+  return getWebhookEndpointRepository().update(id, {
+    ...changes,
+    ...(rotateSecret && { secret: generateWebhookSecret() }),
+  });
+}
+
+export async function deleteWebhookEndpoint(id: string): Promise<boolean> {
+  return getWebhookEndpointRepository().delete(id);
+}
+
+/**
+ * An endpoint without its secret, for listing
+ */
+export function toWebhookEndpointView(
+  endpoint: WebhookEndpoint
+): Omit<WebhookEndpoint, 'secret'> & { secretHint: string } {
+  const { secret, ...view } = endpoint;
+  return { ...view, secretHint: `whsec_…${secret.slice(-4)}` };
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * POST a delivery to its endpoint and record the outcome
+ * Redirects are not followed, so a 3xx response counts as a failed attempt
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  let outcome: { responseStatus: number | null; error: string | null };
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'InnerCircle-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoint.secret),
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    outcome = { responseStatus: response.status, error: null };
+  } catch (error) {
+    outcome = {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : 'Delivery failed',
+    };
+  }
+
+  const state = nextDeliveryState(delivery, outcome);
+  const updated = await getWebhookDeliveryRepository().update(delivery.id, state);
+
+  if (state.status !== 'SUCCEEDED') {
+    logger.warn('[WebhookService] Delivery failed', {
+      deliveryId: delivery.id,
+      endpointId: endpoint.id,
+      eventType: delivery.eventType,
+      attempts: state.attempts,
+      error: state.error,
+    });
+  }
+
+  return updated ?? { ...delivery, ...state };
+}
+
+/**
+ * Record a pending delivery of an event to one endpoint, due now unless
+ * the caller sends it itself
+ */
+async function queueDelivery(
+  event: WebhookEvent,
+  endpoint: WebhookEndpoint,
+  nextAttemptAt: Date = new Date()
+): Promise<WebhookDelivery> {
+  return getWebhookDeliveryRepository().create({
+    endpointId: endpoint.id,
+    eventId: event.id,
+    eventType: event.type,
+    payload: event,
+    status: 'PENDING',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    nextAttemptAt,
+    lastAttemptAt: null,
+    deliveredAt: null,
+  });
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it
+ * The webhook-deliveries job sends it; this never throws
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  partnerId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  const event: WebhookEvent = {
+    id: `evt_${generateRandomString(24)}`,
+    type,
+    createdAt: new Date().toISOString(),
+    partnerId,
+    data,
+  };
+
+  try {
+    const endpointRepo = getWebhookEndpointRepository();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const endpoints = await endpointRepo.findAll({ isActive: true, limit: PAGE_SIZE, offset });
+
+      for (const endpoint of endpoints) {
+        if (endpointAcceptsEvent(endpoint, type, partnerId)) {
+          await queueDelivery(event, endpoint);
+        }
+      }
+
+      if (endpoints.length < PAGE_SIZE) break;
+    }
+  } catch (error) {
+    logger.error('[WebhookService] Failed to emit event', error, {
+      eventId: event.id,
+      type,
+      partnerId,
+    });
+  }
+}
+
+/**
+ * Send pending deliveries that are due: new events and retries whose
+ * backoff has elapsed. Deliveries in a batch are sent concurrently; one
+ * another run has already claimed is skipped. Deliveries to deleted or
+ * disabled endpoints are given up on
+ */
+export async function sendDueDeliveries(now: Date = new Date()): Promise<WebhookDeliverySummary> {
+  const deliveryRepo = getWebhookDeliveryRepository();
+  const endpointRepo = getWebhookEndpointRepository();
+  const summary: WebhookDeliverySummary = { attempted: 0, succeeded: 0, failed: 0 };
+
+  const due = await deliveryRepo.findDue(now, { limit: SEND_BATCH_SIZE });
+
+  await Promise.all(due.map(async delivery => {
+    if (!await deliveryRepo.claim(delivery.id, now, new Date(now.getTime() + CLAIM_LEASE_MS))) return;
+
+    const endpoint = await endpointRepo.findById(delivery.endpointId);
+
+    if (!endpoint?.isActive) {
+      await deliveryRepo.update(delivery.id, {
+        status: 'FAILED',
+        error: 'Endpoint disabled',
+        nextAttemptAt: null,
+      });
+      summary.failed++;
+      return;
+    }
+
+    const result = await attemptDelivery(delivery, endpoint);
+    summary.attempted++;
+    if (result.status === 'SUCCEEDED') summary.succeeded++;
+    if (result.status === 'FAILED') summary.failed++;
+  }));
+
+  if (summary.attempted > 0) {
+    logger.info('[WebhookService] Sent deliveries', { ...summary });
+  }
+
+  return summary;
+}
+
+/**
+ * Send a logged delivery's event again as a new delivery
+ * The original delivery stays in the log unchanged
+ */
+export async function redeliverWebhook(
+  endpointId: string,
+  deliveryId: string
+): Promise<{ success: boolean; delivery?: WebhookDelivery; error?: string; errorCode?: 'NOT_FOUND' }> {
+  const [endpoint, original] = await Promise.all([
+    getWebhookEndpointRepository().findById(endpointId),
+    getWebhookDeliveryRepository().findById(deliveryId),
+  ]);
+
+  if (!endpoint || !original || original.endpointId !== endpointId) {
+    return { success: false, error: 'Delivery not found', errorCode: 'NOT_FOUND' };
+  }
+
+  // Queued as already claimed, so the delivery job leaves it to this request
+  const queued = await queueDelivery(original.payload, endpoint, new Date(Date.now() + CLAIM_LEASE_MS));
+  const delivery = await attemptDelivery(queued, endpoint);
+
+  logger.info('[WebhookService] Redelivered event', {
+    endpointId,
+    originalDeliveryId: deliveryId,
+    deliveryId: delivery.id,
+    status: delivery.status,
+  });
+
+  return { success: true, delivery };
+}
+
+/**
+ * An endpoint's delivery log, newest first
+ */
+export async function listWebhookDeliveries(
+  endpointId: string,
+  options?: { status?: WebhookDeliveryStatus; limit?: number; offset?: number }
+): Promise<WebhookDelivery[]> {
+  return getWebhookDeliveryRepository().findByEndpointId(endpointId, options);
+}
@@ -0,0 +1,242 @@
+/**
+ * Outbound Webhooks
+ * Event catalog, payloads, request signing and retry schedule
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type {
+  Milestone,
+  Payout,
+  Referral,
+  TierChange,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+} from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Attempts before a delivery is given up on
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Delay before the first retry; each later retry waits four times longer
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const RETRY_BACKOFF_FACTOR = 4;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-InnerCircle-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-InnerCircle-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-InnerCircle-Delivery';
+
+// ============================================
+// Event Catalog
+// ============================================
+
+export const WEBHOOK_EVENT_CATALOG: Record<WebhookEventType, string> = {
+  'referral.converted': 'A referred customer converted and commission was earned',
+  'referral.refunded': 'A converted referral was refunded or charged back and its commission reversed',
+  'payout.completed': 'A payout reached the partner',
+  'payout.failed': 'A payout failed and its balance was returned to the partner',
+  'milestone.achieved': 'A partner reached a milestone',
+  'partner.tier_changed': 'A partner moved to a new tier',
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENT_CATALOG) as WebhookEventType[];
+
+// ============================================
+// Endpoints
+// ============================================
+
+// Deliveries go over HTTPS; plain HTTP is allowed for local receivers
+const endpointUrlSchema = z.string().trim().url().refine(value => {
+  const url = new URL(value);
+  return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+}, 'Endpoint URL must use HTTPS');
+
+// Fields an admin can set on an endpoint; the secret is always generated
+export const webhookEndpointInputSchema = z.object({
+  url: endpointUrlSchema,
+  description: z.string().trim().max(200).nullable(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]])).min(1, 'Subscribe to at least one event'),
+  partnerId: z.string().min(1).nullable(),
+  isActive: z.boolean(),
+});
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Whether an endpoint should receive an event for a partner
+ */
+export function endpointAcceptsEvent(
+  endpoint: Pick<WebhookEndpoint, 'isActive' | 'events' | 'partnerId'>,
+  type: WebhookEventType,
+  partnerId: string
+): boolean {
+  if (!endpoint.isActive || !endpoint.events.includes(type)) return false;
+  return !endpoint.partnerId || endpoint.partnerId === partnerId;
+}
+
+// ============================================
+// Payloads
+// ============================================
+
+export function referralEventData(referral: Referral): Record<string, unknown> {
+  return {
+    referralId: referral.id,
+    campaignId: referral.campaignId ?? null,
+    status: referral.status,
+    orderAmountCents: referral.orderAmountCents,
+    commissionCents: referral.commissionCents,
+    commissionRate: referral.commissionRate,
+    convertedAt: referral.convertedAt?.toISOString() ?? null,
+    refundedAt: referral.refundedAt?.toISOString() ?? null,
+  };
+}
+
+export function payoutEventData(payout: Payout, failureReason?: string): Record<string, unknown> {
+  return {
+    payoutId: payout.id,
+    status: payout.status,
+    amountCents: payout.amountCents,
+    feeCents: payout.feeCents,
+    adjustmentCents: payout.adjustmentCents,
+    netCents: payout.netCents,
+    requestedAt: payout.requestedAt.toISOString(),
+    completedAt: payout.completedAt?.toISOString() ?? null,
+    ...(failureReason && { failureReason }),
+  };
+}
+
+export function milestoneEventData(
+  milestone: Pick<Milestone, 'type' | 'title' | 'description' | 'achievedAt'>
+): Record<string, unknown> {
+  return {
+    type: milestone.type,
+    title: milestone.title,
+    description: milestone.description ?? null,
+    achievedAt: milestone.achievedAt.toISOString(),
+  };
+}
+
+export function tierChangeEventData(change: TierChange): Record<string, unknown> {
+  return {
+    fromTier: change.fromTier,
+    toTier: change.toTier,
+    reason: change.reason,
+    changedAt: change.createdAt.toISOString(),
+  };
+}
+
+// ============================================
+// Signing
+// ============================================
+
+/**
+ * Sign a delivery body
+ * Header format: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a delivery signature header, as a receiver would
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!header) return false;
+
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// Retries
+// ============================================
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ * 1 minute, 4 minutes, 16 minutes, ~1 hour, ~4 hours
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * RETRY_BACKOFF_FACTOR ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Delivery state after an attempt
+ * Non-2xx responses and network errors are retried until attempts run out
+ */
+export function nextDeliveryState(
+  delivery: Pick<WebhookDelivery, 'attempts'>,
+  outcome: { responseStatus: number | null; error: string | null },
+  now: Date = new Date()
+): Pick<WebhookDelivery, 'status' | 'attempts' | 'responseStatus' | 'error' | 'nextAttemptAt' | 'lastAttemptAt' | 'deliveredAt'> {
+  const attempts = delivery.attempts + 1;
+  const delivered = outcome.responseStatus !== null
+    && outcome.responseStatus >= 200
+    && outcome.responseStatus < 300;
+
+  if (delivered) {
+    return {
+      status: 'SUCCEEDED',
+      attempts,
+      responseStatus: outcome.responseStatus,
+      error: null,
+      nextAttemptAt: null,
+      lastAttemptAt: now,
+      deliveredAt: now,
+    };
+  }
+
+  const error = outcome.error ?? `Endpoint responded with ${outcome.responseStatus}`;
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  return {
+    status: exhausted ? 'FAILED' : 'PENDING',
+    attempts,
+    responseStatus: outcome.responseStatus,
+    error,
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + getRetryDelayMs(attempts)),
+    lastAttemptAt: now,
+    deliveredAt: null,
+  };
+}
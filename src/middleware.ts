@@ -2,7 +2,10 @@
  * Clerk Middleware
  * Protects routes and handles authentication
  * 
- * Public routes: /, /sign-in, /sign-up, /api/health, /api/partners/interest
+ * Public routes: /, /sign-in, /sign-up, /application, /api/health, /api/partners/interest,
+ * /api/conversions (HMAC-signed), /api/cron/* (CRON_SECRET), /r/[code]
+ * Partner API routes that authenticate API keys themselves accept key
+ * requests without a session; every other route still requires one
  * Protected routes: Everything else
  * 
  * NOTE: This middleware only activates when Clerk keys are configured.
@@ -24,11 +27,34 @@ const isPublicRoute = createRouteMatcher([
   '/',
   '/sign-in(.*)',
   '/sign-up(.*)',
+  '/apply', // Partner applications, including recruitment links
+  '/application', // Applicant status page, verified by the emailed token
   '/api/health',
   '/api/partners/interest',
+  '/api/conversions', // Server-to-server, verified by HMAC signature
+  '/api/cron/(.*)', // Scheduled jobs, verified by CRON_SECRET
   '/r/(.*)', // Referral tracking links
 ]);
 
+// Partner routes whose handlers verify API keys with authenticateRequest and
+// reject unauthenticated requests (see src/lib/api-keys.ts). Only add a route
+// here once every handler in it does.
+const isApiKeyRoute = createRouteMatcher([
+  '/api/partners/:id/analytics',
+  '/api/partners/:id/attribution',
+  '/api/partners/:id/campaigns',
+  '/api/partners/:id/events',
+  '/api/partners/:id/milestones',
+  '/api/partners/:id/payouts',
+  '/api/partners/:id/recruits',
+  '/api/partners/:id/statement',
+  '/api/partners/:id/stats',
+]);
+
+function hasApiKey(request: NextRequest): boolean {
+  return /^Bearer\s+icp_/i.test(request.headers.get('authorization') ?? '');
+}
+
 // Clerk middleware (only used when configured)
 const clerkMiddlewareHandler = clerkMiddleware(async (auth, request) => {
   // Allow public routes
@@ -36,6 +62,11 @@ const clerkMiddlewareHandler = clerkMiddleware(async (auth, request) => {
     return;
   }
   
+  // Leave API key requests to the route's own authentication
+  if (isApiKeyRoute(request) && hasApiKey(request)) {
+    return;
+  }
+  
   // Protect all other routes
   await auth.protect();
 });
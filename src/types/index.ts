@@ -33,12 +33,14 @@ export type PayoutStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | '
 // ============================================
 
 export interface PartnerStats {
-  totalEarned: number;
-  pendingPayout: number;
+  totalEarned: number; // paid out, or part of a payout
+  pendingPayout: number; // still in the refund hold period
+  availableBalance: number; // can be requested as a payout
   totalReferrals: number;
   referralsThisMonth: number;
   clicksThisMonth: number;
   conversionRate: number;
+  commissionRate: number; // fraction of order amount, from the commission rules
   recentActivity: ActivityItem[];
 }
 